@@ -386,8 +386,9 @@ class TradingMonitor {
                     const decision = log.decision || log.actionsTaken || '暂无决策内容';
                     // 使用 marked 库将 markdown 转换为 HTML
                     const htmlContent = marked.parse(decision);
+                    const actionsHtml = this.renderDecisionActions(log.actions || [], log.toolCalls || []);
                     
-                    decisionContent.innerHTML = `<div class="decision-text markdown-content">${htmlContent}</div>`;
+                    decisionContent.innerHTML = `${actionsHtml}<div class="decision-text markdown-content">${htmlContent}</div>`;
                 }
             } else {
                 if (decisionContent) {
@@ -407,6 +408,43 @@ class TradingMonitor {
         }
     }
 
+    // 渲染结构化决策和实际执行的交易工具调用
+    renderDecisionActions(actions, toolCalls) {
+        const actionLabels = { open: '开仓', close: '平仓', reduce: '减仓', hold: '持有', wait: '观望' };
+        const sideLabels = { long: '做多', short: '做空' };
+        
+        const items = actions.map(a => {
+            const parts = [`<span class="decision-action-symbol">${a.symbol}</span>`, actionLabels[a.action] || a.action];
+            if (a.side) parts.push(sideLabels[a.side] || a.side);
+            if (a.leverage) parts.push(`${a.leverage}x`);
+            if (a.amountUsdt) parts.push(`${a.amountUsdt} USDT`);
+            if (a.closePercentage) parts.push(`${a.closePercentage}%`);
+            if (a.confidence !== null && a.confidence !== undefined) parts.push(`信心 ${(a.confidence * 100).toFixed(0)}%`);
+            return `<li class="decision-action action-${a.action}">${parts.join(' · ')}</li>`;
+        });
+        
+        const tradeCalls = toolCalls.filter(t => t.toolName === 'openPosition' || t.toolName === 'closePosition');
+        const executed = tradeCalls.map(t => {
+            const status = t.success ? '✓' : '✗';
+            const args = t.arguments || {};
+            const detail = t.toolName === 'openPosition'
+                ? `开仓 ${args.symbol} ${sideLabels[args.side] || ''} ${args.leverage}x ${args.amountUsdt} USDT`
+                : `平仓 ${args.symbol} ${args.percentage ?? 100}%`;
+            return `<li class="decision-tool-call ${t.success ? 'success' : 'failed'}">${status} ${detail}</li>`;
+        });
+        
+        if (items.length === 0 && executed.length === 0) {
+            return '';
+        }
+        
+        return `
+            <div class="decision-actions">
+                ${items.length > 0 ? `<ul class="decision-action-list">${items.join('')}</ul>` : ''}
+                ${executed.length > 0 ? `<ul class="decision-tool-call-list">${executed.join('')}</ul>` : ''}
+            </div>
+        `;
+    }
+
     // 加载顶部 Ticker 价格（从 API 获取）
     async loadTickerPrices() {
         try {
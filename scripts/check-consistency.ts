@@ -20,15 +20,14 @@
  * 检查交易记录和持仓状态的一致性
  */
 import { createClient } from "@libsql/client";
-import { createExchangeClient, getExchangeType } from "../src/services/exchangeClient";
+import { createExchangeClient, getExchangeDisplayName } from "../src/services/exchangeClient";
 
 const dbClient = createClient({
   url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
 });
 
 async function checkConsistency() {
-  const exchangeType = getExchangeType();
-  const exchangeName = exchangeType === "okx" ? "OKX" : "Gate.io";
+  const exchangeName = getExchangeDisplayName();
   
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
   console.log("📊 检查交易记录与持仓状态一致性");
@@ -42,21 +41,21 @@ async function checkConsistency() {
     console.log(`🔍 步骤1: 获取 ${exchangeName} 实际持仓...`);
     const exchangePositions = await exchangeClient.getPositions();
     const activeExchangePositions = exchangePositions.filter(
-      (p: any) => Number.parseInt(p.size || "0") !== 0
+      p => p.size !== 0
     );
 
     console.log(`   ✅ ${exchangeName} 当前持仓数: ${activeExchangePositions.length}\n`);
 
     if (activeExchangePositions.length > 0) {
       for (const pos of activeExchangePositions) {
-        const size = Number.parseInt(pos.size || "0");
+        const size = pos.size;
         const symbol = pos.contract.replace("_USDT", "");
         const side = size > 0 ? "long" : "short";
         const quantity = Math.abs(size);
-        const entryPrice = Number.parseFloat(pos.entryPrice || "0");
-        const markPrice = Number.parseFloat(pos.markPrice || "0");
-        const pnl = Number.parseFloat(pos.unrealisedPnl || "0");
-        const leverage = Number.parseInt(pos.leverage || "1");
+        const entryPrice = pos.entryPrice;
+        const markPrice = pos.markPrice;
+        const pnl = pos.unrealisedPnl;
+        const leverage = pos.leverage || 1;
 
         console.log(`   📍 ${symbol}:`);
         console.log(`      方向: ${side === "long" ? "做多 (LONG)" : "做空 (SHORT)"}`);
@@ -92,7 +91,7 @@ async function checkConsistency() {
     console.log(`🔍 步骤3: 对比 ${exchangeName} 与数据库持仓一致性...\n`);
 
     const exchangeSymbols = new Set(
-      activeExchangePositions.map((p: any) => p.contract.replace("_USDT", ""))
+      activeExchangePositions.map(p => p.contract.replace("_USDT", ""))
     );
     const dbSymbols = new Set(
       dbPositions.rows.map((row: any) => row.symbol)
@@ -114,13 +113,13 @@ async function checkConsistency() {
     const commonSymbols = Array.from(exchangeSymbols).filter(s => dbSymbols.has(s));
     for (const symbol of commonSymbols) {
       const exchangePos = activeExchangePositions.find(
-        (p: any) => p.contract.replace("_USDT", "") === symbol
+        p => p.contract.replace("_USDT", "") === symbol
       );
       const dbPos = dbPositions.rows.find(
         (row: any) => row.symbol === symbol
       ) as any;
 
-      const exchangeSize = Number.parseInt(exchangePos.size || "0");
+      const exchangeSize = exchangePos?.size ?? 0;
       const exchangeSide = exchangeSize > 0 ? "long" : "short";
       const exchangeQuantity = Math.abs(exchangeSize);
 
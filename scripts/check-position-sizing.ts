@@ -0,0 +1,66 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 检查仓位预算的净值口径：持仓浮亏时总保证金预算和总敞口上限必须收紧，浮盈时放宽
+ * 只使用模拟的账户数据，不请求交易所
+ */
+import { getStrategyParams } from "../src/agents/tradingAgent";
+import type { Account } from "../src/services/exchangeClient";
+import { getSizingLimits } from "../src/services/positionSizing";
+
+function makeAccount(unrealisedPnl: number): Account {
+  return {
+    currency: "USDT",
+    total: 1000,
+    available: 600,
+    positionMargin: 400,
+    orderMargin: 0,
+    unrealisedPnl,
+  };
+}
+
+function checkPositionSizing(): boolean {
+  const strategyParams = { ...getStrategyParams("balanced"), maxTotalMarginPercent: 50 };
+  const flat = getSizingLimits(makeAccount(0), strategyParams);
+  const losing = getSizingLimits(makeAccount(-200), strategyParams);
+  const winning = getSizingLimits(makeAccount(200), strategyParams);
+
+  const checks: Array<[string, boolean]> = [
+    ["浮亏时账户净值下降", losing.equity < flat.equity],
+    ["浮亏时总保证金预算收紧", (losing.marginBudget ?? 0) < (flat.marginBudget ?? 0)],
+    ["浮亏时总敞口上限收紧", losing.maxExposure < flat.maxExposure],
+    ["浮盈时总保证金预算放宽", (winning.marginBudget ?? 0) > (flat.marginBudget ?? 0)],
+  ];
+
+  console.log(`账户 total=1000 USDT，保证金预算 ${strategyParams.maxTotalMarginPercent}%`);
+  console.log(`  无浮动盈亏: 净值 ${flat.equity}，预算 ${flat.marginBudget}，敞口上限 ${flat.maxExposure}`);
+  console.log(`  浮亏 200:   净值 ${losing.equity}，预算 ${losing.marginBudget}，敞口上限 ${losing.maxExposure}`);
+  console.log(`  浮盈 200:   净值 ${winning.equity}，预算 ${winning.marginBudget}，敞口上限 ${winning.maxExposure}`);
+
+  let passed = true;
+  for (const [name, ok] of checks) {
+    console.log(`${ok ? "✅" : "❌"} ${name}`);
+    passed &&= ok;
+  }
+  return passed;
+}
+
+if (!checkPositionSizing()) {
+  process.exit(1);
+}
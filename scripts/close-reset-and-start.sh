@@ -96,6 +96,12 @@ EXCHANGE=$(echo "$EXCHANGE" | tr '[:upper:]' '[:lower:]')
 # 检查必需的环境变量
 if [ "$EXCHANGE" = "okx" ]; then
     REQUIRED_VARS=("OKX_API_KEY" "OKX_API_SECRET" "OKX_API_PASSPHRASE" "OPENAI_API_KEY")
+elif [ "$EXCHANGE" = "binance" ]; then
+    REQUIRED_VARS=("BINANCE_API_KEY" "BINANCE_API_SECRET" "OPENAI_API_KEY")
+elif [ "$EXCHANGE" = "bybit" ]; then
+    REQUIRED_VARS=("BYBIT_API_KEY" "BYBIT_API_SECRET" "OPENAI_API_KEY")
+elif [ "$EXCHANGE" = "hyperliquid" ]; then
+    REQUIRED_VARS=("HYPERLIQUID_WALLET_ADDRESS" "HYPERLIQUID_PRIVATE_KEY" "OPENAI_API_KEY")
 else
     REQUIRED_VARS=("GATE_API_KEY" "GATE_API_SECRET" "OPENAI_API_KEY")
 fi
@@ -115,6 +121,12 @@ if [ ${#MISSING_VARS[@]} -gt 0 ]; then
     echo ""
     if [ "$EXCHANGE" = "okx" ]; then
         echo "请在 .env 文件中配置 OKX API 密钥"
+    elif [ "$EXCHANGE" = "binance" ]; then
+        echo "请在 .env 文件中配置 Binance API 密钥"
+    elif [ "$EXCHANGE" = "bybit" ]; then
+        echo "请在 .env 文件中配置 Bybit API 密钥"
+    elif [ "$EXCHANGE" = "hyperliquid" ]; then
+        echo "请在 .env 文件中配置 Hyperliquid 钱包地址和私钥"
     else
         echo "请在 .env 文件中配置 Gate.io API 密钥"
     fi
@@ -132,6 +144,30 @@ if [ "$EXCHANGE" = "okx" ]; then
     else
         echo -e "${YELLOW}⚠${NC} 当前配置: 正式网模式"
     fi
+elif [ "$EXCHANGE" = "binance" ]; then
+    echo -e "${BLUE}📊${NC} 当前交易所: Binance"
+    # 检查是否使用测试网
+    if grep -q "BINANCE_USE_TESTNET=true" .env; then
+        echo -e "${GREEN}✓${NC} 当前配置: 测试网模式（推荐）"
+    else
+        echo -e "${YELLOW}⚠${NC} 当前配置: 正式网模式"
+    fi
+elif [ "$EXCHANGE" = "bybit" ]; then
+    echo -e "${BLUE}📊${NC} 当前交易所: Bybit"
+    # 检查是否使用测试网
+    if grep -q "BYBIT_USE_TESTNET=true" .env; then
+        echo -e "${GREEN}✓${NC} 当前配置: 测试网模式（推荐）"
+    else
+        echo -e "${YELLOW}⚠${NC} 当前配置: 正式网模式"
+    fi
+elif [ "$EXCHANGE" = "hyperliquid" ]; then
+    echo -e "${BLUE}📊${NC} 当前交易所: Hyperliquid"
+    # 检查是否使用测试网
+    if grep -q "HYPERLIQUID_USE_TESTNET=true" .env; then
+        echo -e "${GREEN}✓${NC} 当前配置: 测试网模式（推荐）"
+    else
+        echo -e "${YELLOW}⚠${NC} 当前配置: 正式网模式"
+    fi
 else
     echo -e "${BLUE}📊${NC} 当前交易所: Gate.io"
     # 检查是否使用测试网
@@ -239,6 +275,27 @@ if [ "$EXCHANGE" = "okx" ]; then
     else
         echo -e "${YELLOW}⚠${NC} 当前配置: 正式网模式"
     fi
+elif [ "$EXCHANGE" = "binance" ]; then
+    echo -e "${BLUE}📊${NC} 当前交易所: Binance"
+    if grep -q "BINANCE_USE_TESTNET=true" .env; then
+        echo -e "${GREEN}✓${NC} 当前配置: 测试网模式（推荐）"
+    else
+        echo -e "${YELLOW}⚠${NC} 当前配置: 正式网模式"
+    fi
+elif [ "$EXCHANGE" = "bybit" ]; then
+    echo -e "${BLUE}📊${NC} 当前交易所: Bybit"
+    if grep -q "BYBIT_USE_TESTNET=true" .env; then
+        echo -e "${GREEN}✓${NC} 当前配置: 测试网模式（推荐）"
+    else
+        echo -e "${YELLOW}⚠${NC} 当前配置: 正式网模式"
+    fi
+elif [ "$EXCHANGE" = "hyperliquid" ]; then
+    echo -e "${BLUE}📊${NC} 当前交易所: Hyperliquid"
+    if grep -q "HYPERLIQUID_USE_TESTNET=true" .env; then
+        echo -e "${GREEN}✓${NC} 当前配置: 测试网模式（推荐）"
+    else
+        echo -e "${YELLOW}⚠${NC} 当前配置: 正式网模式"
+    fi
 else
     echo -e "${BLUE}📊${NC} 当前交易所: Gate.io"
     if grep -q "GATE_USE_TESTNET=true" .env; then
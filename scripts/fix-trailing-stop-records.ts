@@ -67,7 +67,7 @@ async function fixTrailingStopRecords() {
         
         try {
           const ticker = await exchangeClient.getFuturesTicker(contract);
-          closePrice = Number.parseFloat(ticker.last || ticker.markPrice || "0");
+          closePrice = ticker.last || ticker.markPrice;
         } catch (error) {
           console.log(`  ❌ 无法获取ticker价格，跳过`);
           failedCount++;
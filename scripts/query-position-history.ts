@@ -21,7 +21,7 @@
  * 用于输出账号合约的历史仓位记录
  */
 
-import { createExchangeClient, getExchangeType } from "../src/services/exchangeClient.js";
+import { createExchangeClient, getExchangeDisplayName } from "../src/services/exchangeClient.js";
 import { createLogger } from "../src/utils/loggerUtils";
 
 const logger = createLogger({
@@ -31,8 +31,7 @@ const logger = createLogger({
 
 async function queryPositionHistory() {
   try {
-    const exchangeType = getExchangeType();
-    const exchangeName = exchangeType === "okx" ? "OKX" : "Gate.io";
+    const exchangeName = getExchangeDisplayName();
     
     const exchangeClient = createExchangeClient();
     
@@ -42,45 +41,54 @@ async function queryPositionHistory() {
     
     // 查询历史仓位记录（已平仓的仓位）
     logger.info("\n查询历史仓位记录（已平仓的仓位结算记录）...");
+    if (!exchangeClient.capabilities.positionHistory) {
+      logger.info(`${exchangeName} 没有原生历史仓位接口，以下记录由成交记录或盈亏流水推算`);
+    }
     const positionHistory = await exchangeClient.getPositionHistory(undefined, 50);
     
     if (positionHistory && positionHistory.length > 0) {
       logger.info(`找到 ${positionHistory.length} 条历史仓位记录:\n`);
       
-      positionHistory.forEach((position: any, index: number) => {
+      positionHistory.forEach((position, index) => {
         logger.info(`[${index + 1}] 历史仓位记录:`);
-        logger.info(`  合约: ${position.contract || "N/A"}`);
-        logger.info(`  数量: ${position.size || "N/A"}`);
-        logger.info(`  价格: ${position.price || "N/A"}`);
-        logger.info(`  盈亏: ${position.pnl || "N/A"}`);
-        logger.info(`  手续费: ${position.fee || "N/A"}`);
-        logger.info(`  时间: ${position.time || "N/A"}`);
-        logger.info(`  结算类型: ${position.settle_type || "N/A"}`);
+        logger.info(`  合约: ${position.contract}`);
+        logger.info(`  方向: ${position.side || "N/A"}`);
+        logger.info(`  数量: ${position.size}`);
+        logger.info(`  开仓价: ${position.entryPrice || "N/A"}`);
+        logger.info(`  平仓价: ${position.closePrice || "N/A"}`);
+        logger.info(`  盈亏: ${position.pnl}`);
+        logger.info(`  手续费: ${position.fee}`);
+        logger.info(`  时间: ${new Date(position.time * 1000).toISOString()}`);
+        logger.info(`  结算类型: ${position.type || "N/A"}`);
         logger.info("---");
       });
     } else {
       logger.info("暂无历史仓位记录");
     }
     
-    // 查询历史结算记录（更详细的信息）
-    logger.info("\n查询历史结算记录（更详细的历史仓位信息）...");
-    const settlementHistory = await exchangeClient.getSettlementHistory(undefined, 50);
-    
-    if (settlementHistory && settlementHistory.length > 0) {
-      logger.info(`找到 ${settlementHistory.length} 条历史结算记录:\n`);
+    // 查询历史结算记录（更详细的信息，没有独立结算接口的交易所与历史仓位相同，跳过）
+    if (exchangeClient.capabilities.settlementHistory) {
+      logger.info("\n查询历史结算记录（更详细的历史仓位信息）...");
+      const settlementHistory = await exchangeClient.getSettlementHistory(undefined, 50);
       
-      settlementHistory.forEach((settlement: any, index: number) => {
-        logger.info(`[${index + 1}] 历史结算记录:`);
-        logger.info(`  合约: ${settlement.contract || "N/A"}`);
-        logger.info(`  结算价格: ${settlement.settle_price || "N/A"}`);
-        logger.info(`  结算时间: ${settlement.settle_time || "N/A"}`);
-        logger.info(`  仓位数量: ${settlement.size || "N/A"}`);
-        logger.info(`  盈亏: ${settlement.pnl || "N/A"}`);
-        logger.info(`  手续费: ${settlement.fee || "N/A"}`);
-        logger.info("---");
-      });
+      if (settlementHistory && settlementHistory.length > 0) {
+        logger.info(`找到 ${settlementHistory.length} 条历史结算记录:\n`);
+        
+        settlementHistory.forEach((settlement, index) => {
+          logger.info(`[${index + 1}] 历史结算记录:`);
+          logger.info(`  合约: ${settlement.contract}`);
+          logger.info(`  结算价格: ${settlement.closePrice || "N/A"}`);
+          logger.info(`  结算时间: ${new Date(settlement.time * 1000).toISOString()}`);
+          logger.info(`  仓位数量: ${settlement.size}`);
+          logger.info(`  盈亏: ${settlement.pnl}`);
+          logger.info(`  手续费: ${settlement.fee}`);
+          logger.info("---");
+        });
+      } else {
+        logger.info("暂无历史结算记录");
+      }
     } else {
-      logger.info("暂无历史结算记录");
+      logger.info(`\n${exchangeName} 没有独立的历史结算接口，跳过结算记录查询`);
     }
     
     logger.info("\n" + "=".repeat(80));
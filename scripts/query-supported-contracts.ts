@@ -21,7 +21,7 @@
  */
 
 import "dotenv/config";
-import { createExchangeClient, getExchangeType } from "../src/services/exchangeClient";
+import { createExchangeClient, getExchangeDisplayName, getExchangeType, type ContractSpec } from "../src/services/exchangeClient";
 import { createLogger } from "../src/utils/loggerUtils";
 
 const logger = createLogger({
@@ -32,12 +32,18 @@ const logger = createLogger({
 async function queryContracts() {
   try {
     const exchangeType = getExchangeType();
-    const exchangeName = exchangeType === "okx" ? "OKX" : "Gate.io";
+    const exchangeName = getExchangeDisplayName();
     
     // 检查是否使用测试网
     let isTestnet = false;
     if (exchangeType === "okx") {
       isTestnet = process.env.OKX_USE_TESTNET === "true";
+    } else if (exchangeType === "binance") {
+      isTestnet = process.env.BINANCE_USE_TESTNET === "true";
+    } else if (exchangeType === "bybit") {
+      isTestnet = process.env.BYBIT_USE_TESTNET === "true";
+    } else if (exchangeType === "hyperliquid") {
+      isTestnet = process.env.HYPERLIQUID_USE_TESTNET === "true";
     } else {
       isTestnet = process.env.GATE_USE_TESTNET === "true";
     }
@@ -62,11 +68,11 @@ async function queryContracts() {
     console.log("=====================================\n");
 
     // 按币种分组
-    const contractsBySymbol = new Map<string, any[]>();
+    const contractsBySymbol = new Map<string, ContractSpec[]>();
     
     for (const contract of contracts) {
       // 从合约名称提取币种（如 BTC_USDT -> BTC）
-      const symbol = contract.name?.split('_')[0];
+      const symbol = contract.name.split('_')[0];
       if (symbol) {
         if (!contractsBySymbol.has(symbol)) {
           contractsBySymbol.set(symbol, []);
@@ -87,11 +93,11 @@ async function queryContracts() {
       contractList.forEach((contract, contractIndex) => {
         const num = contractIndex === 0 ? `${index + 1}` : "";
         const symbolDisplay = contractIndex === 0 ? symbol : "";
-        const status = contract.in_delisting ? "下架中" : "正常";
-        const leverageMin = contract.leverage_min || "N/A";
-        const leverageMax = contract.leverage_max || "N/A";
-        const orderSizeMin = contract.order_size_min || "N/A";
-        const orderSizeMax = contract.order_size_max || "N/A";
+        const status = contract.inDelisting ? "下架中" : "正常";
+        const leverageMin = contract.leverageMin || "N/A";
+        const leverageMax = contract.leverageMax || "N/A";
+        const orderSizeMin = contract.orderSizeMin || "N/A";
+        const orderSizeMax = contract.orderSizeMax || "N/A";
         
         console.log(
           `${num.padEnd(5)}| ${symbolDisplay.padEnd(5)}| ${contract.name.padEnd(18)}| ${status.padEnd(7)}| ${leverageMin}-${leverageMax}x`.padEnd(13) +
@@ -104,8 +110,8 @@ async function queryContracts() {
     console.log(`✅ 共有 ${sortedSymbols.length} 个不同的币种\n`);
     
     // 显示一些统计信息
-    const activeContracts = contracts.filter((c: any) => !c.in_delisting);
-    const delistingContracts = contracts.filter((c: any) => c.in_delisting);
+    const activeContracts = contracts.filter(c => !c.inDelisting);
+    const delistingContracts = contracts.filter(c => c.inDelisting);
     
     console.log("📊 统计信息：");
     console.log(`   - 正常交易合约: ${activeContracts.length}`);
@@ -122,11 +128,11 @@ async function queryContracts() {
         const contract = contractList[0];
         console.log(`${symbol}:`);
         console.log(`   合约名称: ${contract.name}`);
-        console.log(`   杠杆范围: ${contract.leverage_min}x - ${contract.leverage_max}x`);
-        console.log(`   订单量范围: ${contract.order_size_min} - ${contract.order_size_max}`);
-        console.log(`   价格精度: ${contract.order_price_round || "N/A"}`);
-        console.log(`   数量精度: ${contract.order_size_round || "N/A"}`);
-        console.log(`   状态: ${contract.in_delisting ? "下架中" : "正常交易"}`);
+        console.log(`   杠杆范围: ${contract.leverageMin}x - ${contract.leverageMax || "N/A"}x`);
+        console.log(`   订单量范围: ${contract.orderSizeMin} - ${contract.orderSizeMax}`);
+        console.log(`   价格精度: ${contract.orderPriceRound || "N/A"}`);
+        console.log(`   数量精度: ${contract.lotSize || "N/A"}`);
+        console.log(`   状态: ${contract.inDelisting ? "下架中" : "正常交易"}`);
         console.log("");
       }
     }
@@ -18,7 +18,7 @@
 
 # =====================================================
 # 从交易所同步账户并重置数据库
-# 支持 Gate.io 和 OKX 交易所
+# 支持 Gate.io、OKX、Binance、Bybit 和 Hyperliquid 交易所
 # =====================================================
 
 set -e
@@ -65,6 +65,48 @@ if [ "$EXCHANGE" = "okx" ]; then
     fi
     
     echo -e "${GREEN}✅ OKX API 配置检查通过${NC}"
+elif [ "$EXCHANGE" = "binance" ]; then
+    echo -e "${BLUE}📊 当前交易所: Binance${NC}"
+    
+    # 检查 Binance API 配置
+    if [ -z "$BINANCE_API_KEY" ] || [ -z "$BINANCE_API_SECRET" ]; then
+        echo -e "${RED}❌ 错误: 未配置 Binance API 密钥${NC}"
+        echo ""
+        echo "请在 .env 文件中配置："
+        echo "  BINANCE_API_KEY=your_key"
+        echo "  BINANCE_API_SECRET=your_secret"
+        exit 1
+    fi
+    
+    echo -e "${GREEN}✅ Binance API 配置检查通过${NC}"
+elif [ "$EXCHANGE" = "bybit" ]; then
+    echo -e "${BLUE}📊 当前交易所: Bybit${NC}"
+    
+    # 检查 Bybit API 配置
+    if [ -z "$BYBIT_API_KEY" ] || [ -z "$BYBIT_API_SECRET" ]; then
+        echo -e "${RED}❌ 错误: 未配置 Bybit API 密钥${NC}"
+        echo ""
+        echo "请在 .env 文件中配置："
+        echo "  BYBIT_API_KEY=your_key"
+        echo "  BYBIT_API_SECRET=your_secret"
+        exit 1
+    fi
+    
+    echo -e "${GREEN}✅ Bybit API 配置检查通过${NC}"
+elif [ "$EXCHANGE" = "hyperliquid" ]; then
+    echo -e "${BLUE}📊 当前交易所: Hyperliquid${NC}"
+    
+    # 检查 Hyperliquid 钱包配置
+    if [ -z "$HYPERLIQUID_WALLET_ADDRESS" ] || [ -z "$HYPERLIQUID_PRIVATE_KEY" ]; then
+        echo -e "${RED}❌ 错误: 未配置 Hyperliquid 钱包${NC}"
+        echo ""
+        echo "请在 .env 文件中配置："
+        echo "  HYPERLIQUID_WALLET_ADDRESS=your_wallet_address"
+        echo "  HYPERLIQUID_PRIVATE_KEY=your_private_key"
+        exit 1
+    fi
+    
+    echo -e "${GREEN}✅ Hyperliquid 钱包配置检查通过${NC}"
 else
     echo -e "${BLUE}📊 当前交易所: Gate.io${NC}"
     
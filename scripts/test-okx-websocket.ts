@@ -53,9 +53,9 @@ async function testWebSocket() {
     if (candlesResult.length > 0) {
       const latest = candlesResult[candlesResult.length - 1];
       console.log("    最新K线:");
-      console.log(`      时间: ${new Date(latest.t * 1000).toISOString()}`);
-      console.log(`      开: ${latest.o}, 高: ${latest.h}, 低: ${latest.l}, 收: ${latest.c}`);
-      console.log(`      成交量: ${latest.v}\n`);
+      console.log(`      时间: ${new Date(latest.timestamp * 1000).toISOString()}`);
+      console.log(`      开: ${latest.open}, 高: ${latest.high}, 低: ${latest.low}, 收: ${latest.close}`);
+      console.log(`      成交量: ${latest.volume}\n`);
     }
     
     // 5. 测试缓存功能
@@ -17,9 +17,9 @@
  */
 
 import { Agent } from "@voltagent/core";
-import { createOpenAI } from "@ai-sdk/openai";
 import * as tradingTools from "../tools/trading";
 import { createLogger } from "../utils/loggerUtils";
+import { createRoleModel } from "./modelRouter";
 
 const logger = createLogger({
   name: "aggressive-team-agents",
@@ -32,11 +32,6 @@ const logger = createLogger({
  * @param marketDataContext 市场数据上下文（可选）
  */
 export function createAggressiveTeamTrendExpertAgent(marketDataContext?: any) {
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-    baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
-  });
-
   let instructions = `你是激进团的趋势分析专家（团员1）。
 
 ⚠️ 【重要】你可能会被要求分析不同的币种（如BTC、ETH、SOL等），请仔细查看团长的任务描述，确认要分析哪个币种。
@@ -134,7 +129,7 @@ export function createAggressiveTeamTrendExpertAgent(marketDataContext?: any) {
   const agent = new Agent({
     name: "激进团趋势分析专家",
     instructions,
-    model: openai.chat(process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp"),
+    model: createRoleModel("team", "激进团趋势分析专家"),
     tools: [
       tradingTools.getMarketPriceTool,
       tradingTools.getTechnicalIndicatorsTool,
@@ -155,11 +150,6 @@ export function createAggressiveTeamTrendExpertAgent(marketDataContext?: any) {
  * @param marketDataContext 市场数据上下文（可选）
  */
 export function createAggressiveTeamPredictionExpertAgent(marketDataContext?: any) {
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-    baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
-  });
-
   let instructions = `你是激进团的预测分析专家（团员2）。
 
 ⚠️ 【重要】你可能会被要求分析不同的币种（如BTC、ETH、SOL等），请仔细查看团长的任务描述，确认要分析哪个币种。
@@ -260,7 +250,7 @@ export function createAggressiveTeamPredictionExpertAgent(marketDataContext?: an
   const agent = new Agent({
     name: "激进团预测分析专家",
     instructions,
-    model: openai.chat(process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp"),
+    model: createRoleModel("team", "激进团预测分析专家"),
     tools: [
       tradingTools.getMarketPriceTool,
       tradingTools.getTechnicalIndicatorsTool,
@@ -281,11 +271,6 @@ export function createAggressiveTeamPredictionExpertAgent(marketDataContext?: an
  * @param marketDataContext 市场数据上下文（可选）
  */
 export function createAggressiveTeamMoneyFlowExpertAgent(marketDataContext?: any) {
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-    baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
-  });
-
   let instructions = `你是激进团的资金流向分析专家（团员3）。
 
 ⚠️ 【重要】你可能会被要求分析不同的币种（如BTC、ETH、SOL等），请仔细查看团长的任务描述，确认要分析哪个币种。
@@ -382,7 +367,7 @@ export function createAggressiveTeamMoneyFlowExpertAgent(marketDataContext?: any
   const agent = new Agent({
     name: "激进团资金流向分析专家",
     instructions,
-    model: openai.chat(process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp"),
+    model: createRoleModel("team", "激进团资金流向分析专家"),
     tools: [
       tradingTools.getMarketPriceTool,
       tradingTools.getTechnicalIndicatorsTool,
@@ -403,11 +388,6 @@ export function createAggressiveTeamMoneyFlowExpertAgent(marketDataContext?: any
  * @param marketDataContext 市场数据上下文（可选）
  */
 export function createAggressiveTeamRiskControlExpertAgent(marketDataContext?: any) {
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-    baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
-  });
-
   let instructions = `你是激进团的风险控制专家（团员4）。
 
 ⚠️ 【重要】你的任务包括评估当前所有持仓，以及根据团长的要求为特定币种提供开仓建议。
@@ -530,7 +510,7 @@ export function createAggressiveTeamRiskControlExpertAgent(marketDataContext?: a
   const agent = new Agent({
     name: "激进团风险控制专家",
     instructions,
-    model: openai.chat(process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp"),
+    model: createRoleModel("team", "激进团风险控制专家"),
     tools: [
       tradingTools.getMarketPriceTool,
       tradingTools.getTechnicalIndicatorsTool,
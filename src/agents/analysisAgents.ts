@@ -17,9 +17,9 @@
  */
 
 import { Agent } from "@voltagent/core";
-import { createOpenAI } from "@ai-sdk/openai";
 import * as tradingTools from "../tools/trading";
 import { createLogger } from "../utils/loggerUtils";
+import { createRoleModel } from "./modelRouter";
 
 const logger = createLogger({
   name: "analysis-agents",
@@ -32,11 +32,6 @@ const logger = createLogger({
  * @param marketDataContext 市场数据上下文（可选）
  */
 export function createTechnicalAnalystAgent(marketDataContext?: any) {
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-    baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
-  });
-
   // 构建包含市场数据的指令
   let instructions = `你是技术分析专家，专注于加密货币技术指标分析。
 
@@ -57,7 +52,7 @@ export function createTechnicalAnalystAgent(marketDataContext?: any) {
   const agent = new Agent({
     name: "技术分析Agent",
     instructions,
-    model: openai.chat(process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp"),
+    model: createRoleModel("analyst", "技术分析Agent"),
     tools: [
       tradingTools.getMarketPriceTool,
       tradingTools.getTechnicalIndicatorsTool,
@@ -78,11 +73,6 @@ export function createTechnicalAnalystAgent(marketDataContext?: any) {
  * @param marketDataContext 市场数据上下文（可选）
  */
 export function createTrendAnalystAgent(marketDataContext?: any) {
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-    baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
-  });
-
   // 构建包含市场数据的指令
   let instructions = `你是趋势分析专家，专注于多时间框架趋势识别。
 
@@ -103,7 +93,7 @@ export function createTrendAnalystAgent(marketDataContext?: any) {
   const agent = new Agent({
     name: "趋势分析Agent",
     instructions,
-    model: openai.chat(process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp"),
+    model: createRoleModel("analyst", "趋势分析Agent"),
     tools: [
       tradingTools.getMarketPriceTool,
       tradingTools.getTechnicalIndicatorsTool,
@@ -124,11 +114,6 @@ export function createTrendAnalystAgent(marketDataContext?: any) {
  * @param marketDataContext 市场数据上下文（可选）
  */
 export function createRiskAssessorAgent(marketDataContext?: any) {
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-    baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
-  });
-
   // 构建包含市场数据的指令
   let instructions = `你是风险评估专家，专注于市场风险识别和评估。
 
@@ -149,7 +134,7 @@ export function createRiskAssessorAgent(marketDataContext?: any) {
   const agent = new Agent({
     name: "风险评估Agent",
     instructions,
-    model: openai.chat(process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp"),
+    model: createRoleModel("analyst", "风险评估Agent"),
     tools: [
       tradingTools.getMarketPriceTool,
       tradingTools.getTechnicalIndicatorsTool,
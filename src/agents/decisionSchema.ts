@@ -0,0 +1,248 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 结构化决策 - AI 意图（决策 JSON）与实际执行（工具调用）的解析
+ *
+ * - AI 在回复末尾输出 ```json 决策块，描述每个币种的操作意图
+ * - 工具调用从 Agent 响应的 steps 中提取（openPosition/closePosition 的参数和结果）
+ * - 两者分别写入 decision_actions 和 agent_tool_calls 表，便于对比意图与执行
+ */
+import { z } from "zod";
+import { getErrorMessage } from "../utils/errorUtils";
+
+/**
+ * 单个币种的决策
+ */
+const symbolDecisionSchema = z.object({
+  symbol: z.string().min(1),
+  action: z.enum(["open", "close", "reduce", "hold", "wait"]),
+  side: z.enum(["long", "short"]).optional(),
+  leverage: z.number().positive().optional(),
+  amountUsdt: z.number().nonnegative().optional(),
+  closePercentage: z.number().min(0).max(100).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  rationale: z.string().default(""),
+});
+
+const structuredDecisionSchema = z.object({
+  summary: z.string().optional(),
+  decisions: z.array(symbolDecisionSchema),
+});
+
+export type SymbolDecision = z.infer<typeof symbolDecisionSchema>;
+
+/**
+ * 结构化决策
+ * - source=ai：从 AI 输出的决策 JSON 解析
+ * - source=tool-calls：AI 未输出决策 JSON，根据实际工具调用推导
+ */
+export interface StructuredDecision {
+  summary?: string;
+  decisions: SymbolDecision[];
+  source: "ai" | "tool-calls";
+}
+
+/**
+ * 工具调用参数（只声明推导决策用到的交易工具字段）
+ */
+export interface ToolCallArgs {
+  symbol?: string;
+  side?: "long" | "short";
+  leverage?: number;
+  amountUsdt?: number;
+  percentage?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * 工具调用记录
+ */
+export interface ToolCallRecord {
+  stepIndex: number;
+  toolCallId: string;
+  toolName: string;
+  args: ToolCallArgs;
+  result: unknown;
+  success: boolean;
+}
+
+/**
+ * Agent 响应 steps 中的工具调用/结果项
+ */
+interface ResponseToolItem {
+  type?: string;
+  toolCallId?: string;
+  toolName: string;
+  input?: ToolCallArgs;
+  args?: ToolCallArgs;
+  output?: unknown;
+  result?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Agent 响应中的单个 step
+ */
+interface ResponseStep {
+  content?: ResponseToolItem[];
+  toolCalls?: ResponseToolItem[];
+  toolResults?: ResponseToolItem[];
+}
+
+/**
+ * 追加到提示词末尾的决策输出格式要求
+ */
+export const STRUCTURED_DECISION_INSTRUCTIONS = `
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【决策输出格式】
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+完成分析和交易操作后，请在回复的最后输出一个 \`\`\`json 代码块，汇总本周期对每个分析过的币种的决策：
+\`\`\`json
+{
+  "summary": "一句话总结本周期决策",
+  "decisions": [
+    {
+      "symbol": "BTC",
+      "action": "open",
+      "side": "long",
+      "leverage": 5,
+      "amountUsdt": 100,
+      "confidence": 0.7,
+      "rationale": "决策理由"
+    }
+  ]
+}
+\`\`\`
+- action 取值：open（开仓）、close（全部平仓）、reduce（部分平仓，填写 closePercentage）、hold（继续持有）、wait（观望）
+- side 填 long 或 short；confidence 为 0-1 之间的信心度
+- 决策块只是记录，实际交易必须通过工具调用完成
+`;
+
+/**
+ * 从 AI 回复文本中解析结构化决策（取最后一个包含 decisions 的 JSON 代码块）
+ * @returns 解析失败时返回 null
+ */
+export function parseStructuredDecision(text: string): StructuredDecision | null {
+  if (!text) {
+    return null;
+  }
+
+  const blocks = [...text.matchAll(/```(?:json)?\s*([\s\S]*?)```/g)].map(m => m[1]);
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    if (!blocks[i].includes("decisions")) {
+      continue;
+    }
+    try {
+      const parsed = structuredDecisionSchema.safeParse(JSON.parse(blocks[i]));
+      if (parsed.success) {
+        return {
+          summary: parsed.data.summary,
+          decisions: parsed.data.decisions.map(d => ({ ...d, symbol: d.symbol.toUpperCase().replace("_USDT", "") })),
+          source: "ai",
+        };
+      }
+    } catch {
+      // JSON 格式错误，继续尝试前一个代码块
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 从 Agent 响应的 steps 中提取工具调用及其结果
+ * 兼容 content 数组（tool-call / tool-result / tool-error）和 toolCalls / toolResults 两种结构
+ */
+export function extractToolCalls(response: unknown): ToolCallRecord[] {
+  const steps = (response as { steps?: ResponseStep[] } | null)?.steps || [];
+  const records: ToolCallRecord[] = [];
+
+  for (let stepIndex = 0; stepIndex < steps.length; stepIndex++) {
+    const step = steps[stepIndex];
+    const byId = new Map<string, ToolCallRecord>();
+
+    const calls = Array.isArray(step.content)
+      ? step.content.filter(item => item.type === "tool-call")
+      : step.toolCalls || [];
+    for (const call of calls) {
+      const record: ToolCallRecord = {
+        stepIndex,
+        toolCallId: call.toolCallId || `${stepIndex}-${byId.size}`,
+        toolName: call.toolName,
+        args: call.input ?? call.args ?? {},
+        result: null,
+        success: false,
+      };
+      byId.set(record.toolCallId, record);
+      records.push(record);
+    }
+
+    const results = Array.isArray(step.content)
+      ? step.content.filter(item => item.type === "tool-result" || item.type === "tool-error")
+      : step.toolResults || [];
+    for (const item of results) {
+      const record = item.toolCallId ? byId.get(item.toolCallId) : undefined;
+      if (!record) {
+        continue;
+      }
+      if (item.type === "tool-error") {
+        record.result = { error: getErrorMessage(item.error) };
+        record.success = false;
+      } else {
+        record.result = item.output ?? item.result ?? null;
+        record.success = (record.result as { success?: unknown } | null)?.success !== false;
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * AI 未输出决策 JSON 时，根据成功执行的交易工具调用推导决策
+ */
+export function deriveDecisionFromToolCalls(toolCalls: ToolCallRecord[]): StructuredDecision {
+  const decisions: SymbolDecision[] = [];
+
+  for (const call of toolCalls) {
+    if (!call.success || !call.args?.symbol) {
+      continue;
+    }
+    if (call.toolName === "openPosition") {
+      decisions.push({
+        symbol: call.args.symbol,
+        action: "open",
+        side: call.args.side,
+        leverage: call.args.leverage,
+        amountUsdt: call.args.amountUsdt,
+        rationale: "",
+      });
+    } else if (call.toolName === "closePosition") {
+      const percentage = call.args.percentage ?? 100;
+      decisions.push({
+        symbol: call.args.symbol,
+        action: percentage >= 100 ? "close" : "reduce",
+        closePercentage: percentage,
+        rationale: "",
+      });
+    }
+  }
+
+  return { decisions, source: "tool-calls" };
+}
@@ -0,0 +1,260 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * LLM 用量统计 - 记录每次模型调用的 token、延迟和估算成本
+ *
+ * - 所有 Agent 和子 Agent 的模型调用都经过模型路由（modelRouter），在那里统一记录
+ * - 每条记录关联所在的交易周期（iteration），决策保存后再关联到 agent_decisions 记录
+ * - 成本按 AI_MODEL_PRICES 配置的单价估算（美元/百万 token），未配置单价的模型成本为空
+ */
+import { type Row, createClient } from "@libsql/client";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { getChinaTimeISO } from "../utils/timeUtils";
+
+const logger = createLogger({
+  name: "llm-usage",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/**
+ * 单次模型调用记录
+ */
+export interface LlmCallRecord {
+  role: string;
+  agentName?: string;
+  provider: string;
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * 模型单价（美元/百万 token）
+ */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 解析模型单价配置
+ * 格式：逗号分隔，每项为 "模型=输入单价/输出单价"，模型可以带供应商前缀，如
+ * deepseek/deepseek-v3.2-exp=0.27/0.41,deepseek:deepseek-chat=0.28/0.42
+ */
+function parseModelPrices(value: string): Map<string, ModelPrice> {
+  const prices = new Map<string, ModelPrice>();
+  for (const item of value.split(",").map(s => s.trim()).filter(s => s.length > 0)) {
+    const index = item.lastIndexOf("=");
+    const [input, output] = item.slice(index + 1).split("/").map(s => Number.parseFloat(s));
+    if (index <= 0 || !Number.isFinite(input) || !Number.isFinite(output)) {
+      logger.warn(`忽略无效的模型单价配置: ${item}`);
+      continue;
+    }
+    prices.set(item.slice(0, index).trim(), { input, output });
+  }
+  return prices;
+}
+
+const MODEL_PRICES = parseModelPrices(process.env.AI_MODEL_PRICES || "");
+
+// 当前交易周期（模型调用记录关联到该周期）
+let currentCycle: { iteration: number; cycleId: string } | null = null;
+
+/**
+ * 估算调用成本（美元），未配置单价时返回 null
+ */
+export function estimateLlmCost(provider: string, model: string, promptTokens: number, completionTokens: number): number | null {
+  const price = MODEL_PRICES.get(`${provider}:${model}`) || MODEL_PRICES.get(model);
+  if (!price) {
+    return null;
+  }
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * 开始新的交易周期，之后的模型调用都关联到该周期
+ */
+export function startLlmUsageCycle(iteration: number) {
+  currentCycle = { iteration, cycleId: `${getChinaTimeISO()}#${iteration}` };
+}
+
+/**
+ * 记录一次模型调用（记录失败不影响交易流程）
+ */
+export async function recordLlmCall(record: LlmCallRecord): Promise<void> {
+  const promptTokens = record.promptTokens ?? 0;
+  const completionTokens = record.completionTokens ?? 0;
+  const cost = record.success ? estimateLlmCost(record.provider, record.model, promptTokens, completionTokens) : 0;
+
+  try {
+    await dbClient.execute({
+      sql: `INSERT INTO llm_usage 
+            (timestamp, iteration, cycle_id, role, agent_name, provider, model, prompt_tokens, completion_tokens, latency_ms, cost_usd, success, error)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        getChinaTimeISO(),
+        currentCycle?.iteration ?? null,
+        currentCycle?.cycleId ?? null,
+        record.role,
+        record.agentName ?? null,
+        record.provider,
+        record.model,
+        promptTokens,
+        completionTokens,
+        Math.round(record.latencyMs),
+        cost,
+        record.success ? 1 : 0,
+        record.error ?? null,
+      ],
+    });
+  } catch (error) {
+    logger.warn(`记录模型调用失败: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * 将当前周期的模型调用关联到保存的决策记录
+ * @param decisionId agent_decisions 表的记录 ID
+ */
+export async function linkLlmUsageToDecision(decisionId: number): Promise<void> {
+  if (!currentCycle) {
+    return;
+  }
+  try {
+    await dbClient.execute({
+      sql: "UPDATE llm_usage SET decision_id = ? WHERE cycle_id = ?",
+      args: [decisionId, currentCycle.cycleId],
+    });
+  } catch (error) {
+    logger.warn(`关联模型调用记录失败: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * 按天汇总模型用量，并与当天已实现盈亏对比
+ * @param days 最近天数
+ */
+export async function getDailyLlmUsage(days: number) {
+  const since = getChinaTimeISO(new Date(Date.now() - days * 86400000)).slice(0, 10);
+
+  const usageResult = await dbClient.execute({
+    sql: `SELECT substr(timestamp, 1, 10) as date,
+                 COUNT(*) as calls,
+                 SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failed_calls,
+                 COUNT(DISTINCT cycle_id) as cycles,
+                 SUM(prompt_tokens) as prompt_tokens,
+                 SUM(completion_tokens) as completion_tokens,
+                 SUM(COALESCE(cost_usd, 0)) as cost_usd,
+                 SUM(CASE WHEN success = 1 AND cost_usd IS NULL THEN 1 ELSE 0 END) as unpriced_calls,
+                 AVG(latency_ms) as avg_latency_ms
+          FROM llm_usage
+          WHERE substr(timestamp, 1, 10) >= ?
+          GROUP BY date
+          ORDER BY date ASC`,
+    args: [since],
+  });
+
+  const pnlResult = await dbClient.execute({
+    sql: `SELECT substr(timestamp, 1, 10) as date, SUM(pnl) as pnl
+          FROM trades
+          WHERE type = 'close' AND pnl IS NOT NULL AND substr(timestamp, 1, 10) >= ?
+          GROUP BY date`,
+    args: [since],
+  });
+  const pnlByDate = new Map<string, number>();
+  for (const row of pnlResult.rows) {
+    pnlByDate.set(String(row.date), Number(row.pnl) || 0);
+  }
+
+  const modelResult = await dbClient.execute({
+    sql: `SELECT role, provider, model,
+                 COUNT(*) as calls,
+                 SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failed_calls,
+                 SUM(prompt_tokens) as prompt_tokens,
+                 SUM(completion_tokens) as completion_tokens,
+                 SUM(COALESCE(cost_usd, 0)) as cost_usd,
+                 AVG(latency_ms) as avg_latency_ms
+          FROM llm_usage
+          WHERE substr(timestamp, 1, 10) >= ?
+          GROUP BY role, provider, model
+          ORDER BY cost_usd DESC, calls DESC`,
+    args: [since],
+  });
+
+  const usageByDate = new Map<string, Row>();
+  for (const row of usageResult.rows) {
+    usageByDate.set(String(row.date), row);
+  }
+
+  // 没有模型调用但有平仓盈亏的日期也需要展示（如规则策略、代码级止损）
+  const dates = [...new Set([...usageByDate.keys(), ...pnlByDate.keys()])].sort();
+  const daily = dates.map(date => {
+    const row = usageByDate.get(date);
+    const costUsd = Number(row?.cost_usd) || 0;
+    const realizedPnl = pnlByDate.get(date) ?? 0;
+    return {
+      date,
+      calls: Number(row?.calls) || 0,
+      failedCalls: Number(row?.failed_calls) || 0,
+      cycles: Number(row?.cycles) || 0,
+      promptTokens: Number(row?.prompt_tokens) || 0,
+      completionTokens: Number(row?.completion_tokens) || 0,
+      costUsd,
+      unpricedCalls: Number(row?.unpriced_calls) || 0,
+      avgLatencyMs: Math.round(Number(row?.avg_latency_ms) || 0),
+      realizedPnl,
+      // 扣除模型成本后的盈亏（USDT 按 1 美元估算）
+      netPnl: realizedPnl - costUsd,
+    };
+  });
+
+  const byModel = modelResult.rows.map(row => ({
+    role: row.role as string,
+    provider: row.provider as string,
+    model: row.model as string,
+    calls: Number(row.calls),
+    failedCalls: Number(row.failed_calls),
+    promptTokens: Number(row.prompt_tokens) || 0,
+    completionTokens: Number(row.completion_tokens) || 0,
+    costUsd: Number(row.cost_usd) || 0,
+    avgLatencyMs: Math.round(Number(row.avg_latency_ms) || 0),
+  }));
+
+  const total = daily.reduce(
+    (sum, d) => ({
+      calls: sum.calls + d.calls,
+      promptTokens: sum.promptTokens + d.promptTokens,
+      completionTokens: sum.completionTokens + d.completionTokens,
+      costUsd: sum.costUsd + d.costUsd,
+      realizedPnl: sum.realizedPnl + d.realizedPnl,
+      netPnl: sum.netPnl + d.netPnl,
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, realizedPnl: 0, netPnl: 0 }
+  );
+
+  return { days, daily, byModel, total };
+}
@@ -0,0 +1,306 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 模型路由 - 按角色选择模型，多个供应商/模型按顺序自动故障切换
+ *
+ * - 每个角色（主交易 Agent、陪审团分析 Agent、激进团团员）可配置独立的模型列表
+ * - 单个模型请求超时或失败时先重试，仍失败则切换到列表中的下一个模型
+ * - 连续失败的模型进入冷却期，冷却期内优先使用其他模型，避免每个周期都等待超时
+ * - 每次模型调用（包括失败的尝试）的 token、延迟和成本都记录到 llm_usage 表
+ */
+import { createOpenAI } from "@ai-sdk/openai";
+import { type LanguageModelMiddleware, wrapLanguageModel } from "ai";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { recordLlmCall } from "./llmUsage";
+
+const logger = createLogger({
+  name: "model-router",
+  level: "info",
+});
+
+/**
+ * 模型角色
+ * - trading：主交易 Agent（决策和下单）
+ * - analyst：陪审团策略的分析 Agent（技术/趋势/风险）
+ * - team：激进团策略的团员 Agent
+ */
+export type ModelRole = "trading" | "analyst" | "team";
+
+type ChatModel = ReturnType<ReturnType<typeof createOpenAI>["chat"]>;
+
+/**
+ * 模型路由配置（通过环境变量调整）
+ */
+export const MODEL_ROUTER_CONFIG = {
+  // 默认模型列表（按顺序故障切换），未配置时使用 AI_MODEL_NAME
+  DEFAULT_MODELS: process.env.AI_MODELS || process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp",
+  // 各角色的模型列表（未配置时使用默认模型列表）
+  ROLE_MODELS: {
+    trading: process.env.AI_MODELS_TRADING,
+    analyst: process.env.AI_MODELS_ANALYST,
+    team: process.env.AI_MODELS_TEAM,
+  } as Record<ModelRole, string | undefined>,
+  // 额外的供应商名称，每个供应商通过 AI_PROVIDER_<名称>_API_KEY / AI_PROVIDER_<名称>_BASE_URL 配置
+  PROVIDERS: (process.env.AI_PROVIDERS || "")
+    .split(",")
+    .map(s => s.trim().toLowerCase())
+    .filter(s => s.length > 0),
+  // 单次请求等待响应的超时时间（秒）
+  REQUEST_TIMEOUT_SECONDS: Number.parseInt(process.env.AI_REQUEST_TIMEOUT_SECONDS || "120", 10),
+  // 单个模型失败后的重试次数（之后切换到下一个模型）
+  RETRIES_PER_MODEL: Number.parseInt(process.env.AI_MODEL_RETRIES || "1", 10),
+  // 模型失败后的冷却时间（秒），冷却期内排到列表末尾
+  COOLDOWN_SECONDS: Number.parseInt(process.env.AI_MODEL_COOLDOWN_SECONDS || "60", 10),
+};
+
+/** 使用 OPENAI_API_KEY / OPENAI_BASE_URL 的默认供应商 */
+const DEFAULT_PROVIDER = "default";
+
+/**
+ * 模型列表中的一项
+ */
+interface ModelTarget {
+  provider: string;
+  modelId: string;
+  model: ChatModel;
+}
+
+// 供应商客户端缓存
+const providerClients = new Map<string, ReturnType<typeof createOpenAI>>();
+
+// 模型冷却截止时间（key: 供应商:模型）
+const modelCooldownUntil = new Map<string, number>();
+
+/**
+ * 获取供应商客户端（OpenAI 兼容接口）
+ */
+function getProviderClient(provider: string): ReturnType<typeof createOpenAI> {
+  let client = providerClients.get(provider);
+  if (client) {
+    return client;
+  }
+
+  if (provider === DEFAULT_PROVIDER) {
+    client = createOpenAI({
+      apiKey: process.env.OPENAI_API_KEY || "",
+      baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
+    });
+  } else {
+    const prefix = `AI_PROVIDER_${provider.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+    const baseURL = process.env[`${prefix}_BASE_URL`];
+    if (!baseURL) {
+      throw new Error(`供应商 ${provider} 未配置 ${prefix}_BASE_URL`);
+    }
+    client = createOpenAI({
+      apiKey: process.env[`${prefix}_API_KEY`] || "",
+      baseURL,
+    });
+  }
+
+  providerClients.set(provider, client);
+  return client;
+}
+
+/**
+ * 解析模型列表
+ * 格式：逗号分隔，每项为 "供应商:模型" 或 "模型"（使用默认供应商）
+ * 只有冒号前是已配置的供应商名称时才视为供应商前缀（OpenRouter 的模型名可能包含 ":free" 等后缀）
+ */
+export function parseModelList(value: string): Array<{ provider: string; modelId: string }> {
+  return value
+    .split(",")
+    .map(s => s.trim())
+    .filter(s => s.length > 0)
+    .map(item => {
+      const index = item.indexOf(":");
+      if (index > 0) {
+        const provider = item.slice(0, index).toLowerCase();
+        if (provider === DEFAULT_PROVIDER || MODEL_ROUTER_CONFIG.PROVIDERS.includes(provider)) {
+          return { provider, modelId: item.slice(index + 1) };
+        }
+      }
+      return { provider: DEFAULT_PROVIDER, modelId: item };
+    });
+}
+
+/**
+ * 获取角色的模型列表描述（用于日志和状态展示）
+ */
+export function getRoleModelChain(role: ModelRole): string[] {
+  const value = MODEL_ROUTER_CONFIG.ROLE_MODELS[role] || MODEL_ROUTER_CONFIG.DEFAULT_MODELS;
+  return parseModelList(value).map(t => (t.provider === DEFAULT_PROVIDER ? t.modelId : `${t.provider}:${t.modelId}`));
+}
+
+/**
+ * 按冷却状态排序：未冷却的模型保持配置顺序在前，冷却中的模型排到末尾
+ */
+function orderTargets(targets: ModelTarget[]): ModelTarget[] {
+  const now = Date.now();
+  const available = targets.filter(t => (modelCooldownUntil.get(`${t.provider}:${t.modelId}`) || 0) <= now);
+  const coolingDown = targets.filter(t => !available.includes(t));
+  return [...available, ...coolingDown];
+}
+
+/**
+ * 带超时执行一次模型请求（超时只限制等待响应的时间，流式输出开始后不再计时）
+ */
+async function callWithTimeout<T>(
+  params: { abortSignal?: AbortSignal },
+  call: (abortSignal: AbortSignal) => PromiseLike<T>
+): Promise<T> {
+  const controller = new AbortController();
+  // 调用方取消时同时取消请求（流式输出开始后仍然有效，因此不移除监听）
+  params.abortSignal?.addEventListener("abort", () => controller.abort(params.abortSignal?.reason), { once: true });
+  const timer = setTimeout(
+    () => controller.abort(new Error(`请求超时（${MODEL_ROUTER_CONFIG.REQUEST_TIMEOUT_SECONDS}秒）`)),
+    MODEL_ROUTER_CONFIG.REQUEST_TIMEOUT_SECONDS * 1000
+  );
+
+  try {
+    return await call(controller.signal);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 按顺序尝试模型列表，每个模型失败后重试，仍失败则切换到下一个模型
+ */
+async function callWithFailover<T>(
+  caller: { role: ModelRole; agentName?: string },
+  targets: ModelTarget[],
+  params: { abortSignal?: AbortSignal },
+  call: (target: ModelTarget, abortSignal: AbortSignal) => PromiseLike<T>
+): Promise<T> {
+  const { role } = caller;
+  const ordered = orderTargets(targets);
+  let lastError: unknown;
+
+  for (let index = 0; index < ordered.length; index++) {
+    const target = ordered[index];
+    const key = `${target.provider}:${target.modelId}`;
+
+    for (let i = 0; i <= MODEL_ROUTER_CONFIG.RETRIES_PER_MODEL; i++) {
+      const startedAt = Date.now();
+      try {
+        const result = await callWithTimeout(params, signal => call(target, signal));
+        modelCooldownUntil.delete(key);
+        if (index > 0) {
+          logger.info(`[${role}] 已切换到备用模型 ${key}`);
+        }
+        return result;
+      } catch (error) {
+        // 调用方主动取消，不再重试
+        if (params.abortSignal?.aborted) {
+          throw error;
+        }
+        lastError = error;
+        await recordLlmCall({
+          ...caller,
+          provider: target.provider,
+          model: target.modelId,
+          latencyMs: Date.now() - startedAt,
+          success: false,
+          error: String(getErrorMessage(error) ?? error),
+        });
+        logger.warn(`[${role}] 模型 ${key} 请求失败（第 ${i + 1} 次）: ${getErrorMessage(error) ?? error}`);
+        if (i < MODEL_ROUTER_CONFIG.RETRIES_PER_MODEL) {
+          await new Promise(resolve => setTimeout(resolve, 300 * (i + 1)));
+        }
+      }
+    }
+
+    modelCooldownUntil.set(key, Date.now() + MODEL_ROUTER_CONFIG.COOLDOWN_SECONDS * 1000);
+    if (index < ordered.length - 1) {
+      logger.warn(`[${role}] 模型 ${key} 不可用，切换到 ${ordered[index + 1].provider}:${ordered[index + 1].modelId}`);
+    }
+  }
+
+  throw lastError ?? new Error(`[${role}] 没有可用的模型`);
+}
+
+/**
+ * 创建角色使用的模型（包含超时、重试、故障切换和用量记录）
+ * @param role 模型角色
+ * @param agentName Agent 名称（记录用量时区分同一角色的不同 Agent）
+ */
+export function createRoleModel(role: ModelRole, agentName?: string) {
+  const targets: ModelTarget[] = parseModelList(
+    MODEL_ROUTER_CONFIG.ROLE_MODELS[role] || MODEL_ROUTER_CONFIG.DEFAULT_MODELS
+  ).map(({ provider, modelId }) => ({
+    provider,
+    modelId,
+    model: getProviderClient(provider).chat(modelId),
+  }));
+
+  if (targets.length === 0) {
+    throw new Error(`角色 ${role} 未配置模型`);
+  }
+
+  const caller = { role, agentName };
+
+  const middleware: LanguageModelMiddleware = {
+    wrapGenerate: async ({ params }) =>
+      callWithFailover(caller, targets, params, async (target, abortSignal) => {
+        const startedAt = Date.now();
+        const result = await target.model.doGenerate({ ...params, abortSignal });
+        await recordLlmCall({
+          ...caller,
+          provider: target.provider,
+          model: target.modelId,
+          promptTokens: result.usage.inputTokens,
+          completionTokens: result.usage.outputTokens,
+          latencyMs: Date.now() - startedAt,
+          success: true,
+        });
+        return result;
+      }),
+    wrapStream: async ({ params }) =>
+      callWithFailover(caller, targets, params, async (target, abortSignal) => {
+        const startedAt = Date.now();
+        const result = await target.model.doStream({ ...params, abortSignal });
+        // 流式输出的用量在 finish 事件中返回
+        const stream = result.stream.pipeThrough(
+          new TransformStream({
+            async transform(chunk, controller) {
+              if (chunk.type === "finish") {
+                await recordLlmCall({
+                  ...caller,
+                  provider: target.provider,
+                  model: target.modelId,
+                  promptTokens: chunk.usage.inputTokens,
+                  completionTokens: chunk.usage.outputTokens,
+                  latencyMs: Date.now() - startedAt,
+                  success: true,
+                });
+              }
+              controller.enqueue(chunk);
+            },
+          })
+        );
+        return { ...result, stream };
+      }),
+  };
+
+  return wrapLanguageModel({
+    model: targets[0].model,
+    middleware,
+  });
+}
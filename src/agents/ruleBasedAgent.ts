@@ -0,0 +1,253 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 规则决策 Agent - 不调用 AI 模型，按技术指标确定性地开平仓
+ *
+ * - 使用 collectMarketData 已经计算好的多时间框架指标（EMA20/EMA50、MACD、RSI14）
+ * - 通过与 AI 相同的交易工具（openPosition/closePosition）下单，风控检查完全一致
+ * - 返回结构与 VoltAgent generateText 的 steps 格式一致，决策记录和工具调用记录照常保存
+ */
+import { RISK_PARAMS } from "../config/riskParams";
+import { createExchangeClient } from "../services/exchangeClient";
+import { RULE_BASED_CONFIG } from "../strategies/ruleBased";
+import * as tradingTools from "../tools/trading";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import type { SymbolDecision } from "./decisionSchema";
+import { getStrategyParams, getTradingStrategy } from "./tradingAgent";
+
+const logger = createLogger({
+  name: "rule-based-agent",
+  level: "info",
+});
+
+/**
+ * 待执行的工具调用
+ */
+export interface PlannedToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * 工具调用组装出的 Agent 响应（与 VoltAgent generateText 返回的 steps 结构一致）
+ */
+export interface ToolCallResponse {
+  text: string;
+  steps: Array<{ content: Array<Record<string, unknown>>; text: string }>;
+}
+
+/**
+ * 单个时间框架的技术指标（collectMarketData 输出的 timeframes 项）
+ */
+interface TimeframeIndicators {
+  ema20: number;
+  ema50: number;
+  macd: number;
+  rsi14: number;
+}
+
+/**
+ * 单个币种的市场数据（只声明规则策略用到的字段）
+ */
+export interface SymbolMarketData {
+  timeframes?: Record<string, TimeframeIndicators | undefined>;
+}
+
+/**
+ * 可执行的交易工具
+ */
+interface ExecutableTool {
+  name: string;
+  execute: (input: Record<string, unknown>) => Promise<unknown>;
+}
+
+type TrendDirection = "up" | "down" | "none";
+
+// 每个币种上一周期入场时间框架的 EMA20/EMA50 排列方向（用于判断是否刚发生交叉）
+const lastEmaRelation = new Map<string, "above" | "below">();
+
+/**
+ * 按工具名索引所有交易工具
+ */
+function getToolsByName(): Record<string, ExecutableTool> {
+  const tools: Record<string, ExecutableTool> = {};
+  for (const value of Object.values(tradingTools) as unknown[]) {
+    const tool = value as Partial<ExecutableTool> | undefined;
+    if (tool?.name && typeof tool.execute === "function") {
+      tools[tool.name] = tool as ExecutableTool;
+    }
+  }
+  return tools;
+}
+
+/**
+ * 依次执行工具调用，并组装成与 VoltAgent 一致的响应结构
+ * @param idPrefix 工具调用 ID 前缀
+ */
+export async function runToolCalls(text: string, toolCalls: PlannedToolCall[], idPrefix = "rule"): Promise<ToolCallResponse> {
+  const tools = getToolsByName();
+  const content: Array<Record<string, unknown>> = [];
+
+  for (let i = 0; i < toolCalls.length; i++) {
+    const call = toolCalls[i];
+    const toolCallId = `${idPrefix}-${i + 1}`;
+    const tool = tools[call.toolName];
+    content.push({ type: "tool-call", toolCallId, toolName: call.toolName, input: call.input });
+
+    let output: unknown;
+    if (!tool) {
+      output = { success: false, message: `未知工具: ${call.toolName}` };
+      logger.warn(`工具不存在: ${call.toolName}`);
+    } else {
+      try {
+        output = await tool.execute(call.input);
+      } catch (error) {
+        output = { success: false, message: getErrorMessage(error) };
+      }
+    }
+    content.push({ type: "tool-result", toolCallId, toolName: call.toolName, input: call.input, output });
+  }
+
+  content.push({ type: "text", text });
+  return {
+    text,
+    steps: [{ content, text }],
+  };
+}
+
+/**
+ * 判断单个时间框架的趋势方向：EMA20/EMA50 排列与 MACD 同向
+ */
+function getTrend(tf: TimeframeIndicators | undefined): TrendDirection {
+  if (!tf || !tf.ema20 || !tf.ema50) {
+    return "none";
+  }
+  if (tf.ema20 > tf.ema50 && tf.macd > 0) {
+    return "up";
+  }
+  if (tf.ema20 < tf.ema50 && tf.macd < 0) {
+    return "down";
+  }
+  return "none";
+}
+
+/**
+ * 创建规则决策 Agent
+ * @param _intervalMinutes 交易间隔（规则策略不使用）
+ * @param marketData collectMarketData 收集的市场数据
+ */
+export async function createRuleBasedAgent(_intervalMinutes: number, marketData: Record<string, unknown>) {
+  const symbolData = marketData as Record<string, SymbolMarketData | undefined>;
+  return {
+    generateText: async (_prompt?: string, _options?: unknown) => {
+      const config = RULE_BASED_CONFIG;
+      const params = getStrategyParams(getTradingStrategy());
+      const client = createExchangeClient();
+      const account = await client.getFuturesAccount();
+      const positions = await client.getPositions();
+      const totalBalance = account.total;
+
+      const toolCalls: PlannedToolCall[] = [];
+      const decisions: SymbolDecision[] = [];
+      let openCount = positions.filter(p => p.size !== 0).length;
+
+      for (const symbol of Object.keys(marketData)) {
+        const tf = symbolData[symbol]?.timeframes?.[config.ENTRY_TIMEFRAME];
+        if (!tf) {
+          continue;
+        }
+
+        const trend = getTrend(tf);
+        const rsi = Number(tf.rsi14);
+        const relation = tf.ema20 > tf.ema50 ? "above" : "below";
+        const previousRelation = lastEmaRelation.get(symbol);
+        lastEmaRelation.set(symbol, relation);
+
+        const position = positions.find(
+          p => p.contract === `${symbol}_USDT` && p.size !== 0
+        );
+
+        // 持仓：趋势反转或 RSI 极端时平仓
+        if (position) {
+          const isLong = position.size > 0;
+          const shouldExit = isLong
+            ? trend === "down" || rsi > config.EXIT_RSI_HIGH
+            : trend === "up" || rsi < config.EXIT_RSI_LOW;
+          if (shouldExit) {
+            const rationale = `${config.ENTRY_TIMEFRAME} ${trend === (isLong ? "down" : "up") ? "趋势反转" : "RSI14进入极端区域"}（RSI14=${rsi.toFixed(1)}），平${isLong ? "多" : "空"}`;
+            toolCalls.push({ toolName: "closePosition", input: { symbol, percentage: 100 } });
+            decisions.push({ symbol, action: "close", closePercentage: 100, rationale });
+            openCount--;
+          } else {
+            decisions.push({ symbol, action: "hold", side: isLong ? "long" : "short", rationale: "出场条件未触发，继续持有" });
+          }
+          continue;
+        }
+
+        // 未持仓：检查入场条件
+        if (trend === "none") {
+          decisions.push({ symbol, action: "wait", rationale: `${config.ENTRY_TIMEFRAME} EMA 与 MACD 方向不一致` });
+          continue;
+        }
+
+        const confirmations = config.CONFIRM_TIMEFRAMES
+          .filter(frame => getTrend(symbolData[symbol]?.timeframes?.[frame]) === trend)
+          .length;
+        const requiredConfirmations = Math.min(config.MIN_CONFIRMATIONS, config.CONFIRM_TIMEFRAMES.length);
+        const rsiOk = trend === "up"
+          ? rsi >= config.LONG_RSI_MIN && rsi <= config.LONG_RSI_MAX
+          : rsi >= config.SHORT_RSI_MIN && rsi <= config.SHORT_RSI_MAX;
+        const freshCross = previousRelation !== undefined && previousRelation !== relation;
+
+        let skipReason = "";
+        if (confirmations < requiredConfirmations) {
+          skipReason = `确认周期一致数 ${confirmations}/${requiredConfirmations}`;
+        } else if (!rsiOk) {
+          skipReason = `RSI14=${rsi.toFixed(1)} 不在入场区间`;
+        } else if (config.REQUIRE_FRESH_CROSS && !freshCross) {
+          skipReason = "EMA 未在本周期发生交叉";
+        } else if (openCount >= RISK_PARAMS.MAX_POSITIONS) {
+          skipReason = `持仓数已达上限 ${RISK_PARAMS.MAX_POSITIONS}`;
+        }
+        if (skipReason) {
+          decisions.push({ symbol, action: "wait", rationale: skipReason });
+          continue;
+        }
+
+        const side = trend === "up" ? "long" : "short";
+        const amountUsdt = Math.floor((totalBalance * params.positionSizeMin) / 100);
+        const rationale = `${config.ENTRY_TIMEFRAME} ${side === "long" ? "多头" : "空头"}排列且MACD同向，确认周期 ${confirmations}/${config.CONFIRM_TIMEFRAMES.length}，RSI14=${rsi.toFixed(1)}，开${side === "long" ? "多" : "空"}`;
+        toolCalls.push({ toolName: "openPosition", input: { symbol, side, leverage: params.leverageMin, amountUsdt } });
+        decisions.push({ symbol, action: "open", side, leverage: params.leverageMin, amountUsdt, rationale });
+        openCount++;
+      }
+
+      const actionable = decisions.filter(d => d.action === "open" || d.action === "close");
+      const summary = actionable.length > 0
+        ? `规则策略：${actionable.map(d => `${d.symbol} ${d.action === "open" ? "开仓" : "平仓"}`).join("，")}`
+        : "规则策略：无满足条件的信号，观望";
+      const reasons = decisions.map(d => `${d.symbol}: ${d.rationale}`);
+      const text = `${summary}\n${reasons.join("\n")}\n\n\`\`\`json\n${JSON.stringify({ summary, decisions }, null, 2)}\n\`\`\``;
+
+      logger.info(summary);
+      return runToolCalls(text, toolCalls);
+    },
+  };
+}
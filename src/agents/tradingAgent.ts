@@ -22,10 +22,14 @@
 import { Agent, Memory } from "@voltagent/core";
 import { LibSQLMemoryAdapter } from "@voltagent/libsql";
 import { createLogger } from "../utils/loggerUtils";
-import { createOpenAI } from "@ai-sdk/openai";
+import { createRoleModel } from "./modelRouter";
 import * as tradingTools from "../tools/trading";
 import { formatChinaTime } from "../utils/timeUtils";
 import { RISK_PARAMS } from "../config/riskParams";
+import { DRAWDOWN_GUARD_LEVEL_LABELS, type DrawdownGuardLevel } from "../utils/drawdownGuard";
+import { STRUCTURED_DECISION_INSTRUCTIONS } from "./decisionSchema";
+import { getExchangeCapabilities, getExchangeDisplayName } from "../services/exchangeClient";
+import { isProtectiveOrdersEnabled } from "../services/protectiveOrders";
 
 /**
  * 账户风险配置
@@ -51,7 +55,14 @@ export function getAccountRiskConfig(): AccountRiskConfig {
  * 导入策略类型和参数
  */
 import type { TradingStrategy, StrategyParams, StrategyPromptContext } from "../strategies";
-import { getStrategyParams as getStrategyParamsBase, generateStrategySpecificPrompt } from "../strategies";
+import {
+  getStrategyParams as getStrategyParamsBase,
+  generateStrategySpecificPrompt,
+  getStrategyDefinition,
+  resolveStrategy,
+  formatTakeProfitStages,
+  formatTrailingStopLevels,
+} from "../strategies";
 
 // 重新导出类型供外部使用
 export type { TradingStrategy, StrategyParams };
@@ -73,13 +84,25 @@ const logger = createLogger({
  */
 export function getTradingStrategy(): TradingStrategy {
   const strategy = process.env.TRADING_STRATEGY || "balanced";
-  if (strategy === "conservative" || strategy === "balanced" || strategy === "aggressive" || strategy === "aggressive-team" || strategy === "ultra-short" || strategy === "swing-trend" || strategy === "medium-long" || strategy === "rebate-farming" || strategy === "ai-autonomous" || strategy === "multi-agent-consensus" || strategy === "alpha-beta") {
+  if (getStrategyDefinition(strategy)) {
     return strategy;
   }
   logger.warn(`未知的交易策略: ${strategy}，使用默认策略: balanced`);
   return "balanced";
 }
 
+/**
+ * 获取交易执行周期（分钟）
+ * 优先使用 TRADING_INTERVAL_MINUTES，未设置时使用策略推荐的周期，默认5分钟
+ */
+export function getTradingIntervalMinutes(): number {
+  const configured = Number.parseInt(process.env.TRADING_INTERVAL_MINUTES || "");
+  if (configured > 0) {
+    return configured;
+  }
+  return resolveStrategy(getTradingStrategy()).intervalMinutes || 5;
+}
+
 /**
  * 生成AI自主策略的交易提示词（极简版，只提供数据和工具）
  */
@@ -413,14 +436,15 @@ export function generateTradingPrompt(data: {
   
   // 获取当前策略参数（用于每周期强调风控规则）
   const strategy = getTradingStrategy();
+  const definition = resolveStrategy(strategy);
   const params = getStrategyParams(strategy);
   // 判断是否启用自动监控止损和移动止盈（根据策略配置）
   const isCodeLevelProtectionEnabled = params.enableCodeLevelProtection;
   // 判断是否允许AI在代码级保护之外继续主动操作（双重防护模式）
   const allowAiOverride = params.allowAiOverrideProtection === true;
   
-  // 如果是AI自主策略或Alpha Beta策略，使用完全不同的提示词格式
-  if (strategy === "ai-autonomous" || strategy === "alpha-beta") {
+  // 如果是自主模式策略（AI自主、Alpha Beta），使用完全不同的提示词格式
+  if (definition.autonomous) {
     return generateAiAutonomousPromptForCycle(data);
   }
   
@@ -438,26 +462,10 @@ export function generateTradingPrompt(data: {
   };
   const stopLossDescriptions = generateStopLossDescriptions();
   
-  // 生成紧急警告（仅激进团策略）
-  let urgentWarnings = '';
-  if (strategy === 'aggressive-team') {
-    // 检查持仓数是否不足2个
-    const currentPositionCount = positionCount ?? positions.length;
-    if (currentPositionCount < 2) {
-      urgentWarnings += `
-⚠️⚠️⚠️ 【紧急警告】当前持仓数不足2个！激进团铁律被违反！
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-当前持仓：${currentPositionCount}个
-铁律要求：≥ 2个
-状态：❌ 违规
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-本次交易周期必须至少开1个新仓，确保持仓数达到2个！
-这是激进团的核心要求，不容违反！
-
-`;
-    }
-  }
+  // 生成紧急警告（由策略定义，如激进团持仓数不足）
+  const urgentWarnings = definition.generateCycleWarnings
+    ? definition.generateCycleWarnings({ positionCount: positionCount ?? positions.length, params })
+    : '';
   
   // 注意：这里不检查熔断状态，因为在 tradingLoop 中已经检查过了
   // 如果代码执行到这里，说明没有活跃的熔断，或者在冷却期内
@@ -499,28 +507,20 @@ export function generateTradingPrompt(data: {
 ┌─────────────────────────────────────────┐
 │ 策略止损：${params.stopLoss.low}% ~ ${params.stopLoss.high}%（根据杠杆）│
 │ 分批止盈：                               │
-│   • 盈利≥+${params.partialTakeProfit.stage1.trigger}% → 平仓${params.partialTakeProfit.stage1.closePercent}%  │
-│   • 盈利≥+${params.partialTakeProfit.stage2.trigger}% → 平仓${params.partialTakeProfit.stage2.closePercent}%  │
-│   • 盈利≥+${params.partialTakeProfit.stage3.trigger}% → 平仓${params.partialTakeProfit.stage3.closePercent}% │
+${formatTakeProfitStages(params.partialTakeProfit, "│   • ")}
 │ 峰值回撤：≥${params.peakDrawdownProtection}% → 危险信号，立即平仓 │
 ${isCodeLevelProtectionEnabled ? (allowAiOverride ? `│                                         │
 │ 双重防护模式：                          │
-│   • 代码自动监控（每10秒）作为安全网   │
-│   • Level1: 峰值${params.trailingStop.level1.trigger}%→止损线${params.trailingStop.level1.stopAt}% │
-│   • Level2: 峰值${params.trailingStop.level2.trigger}%→止损线${params.trailingStop.level2.stopAt}% │
-│   • Level3: 峰值${params.trailingStop.level3.trigger}%→止损线${params.trailingStop.level3.stopAt}% │
+│   • 持仓监督器实时监控作为安全网       │
+${formatTrailingStopLevels(params.trailingStop, "│   • ")}
 │   • 你可以主动止损止盈，不必等待自动   │
 │   • 主动管理风险是优秀交易员的标志     │` : `│                                         │
-│ 注意：移动止盈由自动监控执行（每10秒） │
-│   • Level1: 峰值${params.trailingStop.level1.trigger}%→止损线${params.trailingStop.level1.stopAt}% │
-│   • Level2: 峰值${params.trailingStop.level2.trigger}%→止损线${params.trailingStop.level2.stopAt}% │
-│   • Level3: 峰值${params.trailingStop.level3.trigger}%→止损线${params.trailingStop.level3.stopAt}% │
+│ 注意：移动止盈由持仓监督器实时执行     │
+${formatTrailingStopLevels(params.trailingStop, "│   • ")}
 │   • 无需AI手动执行移动止盈              │`) : `│                                         │
 │ 注意：当前策略未启用自动监控移动止盈      │
 │   • AI需主动监控峰值回撤并执行止盈      │
-│   • 盈利${params.trailingStop.level1.trigger}%→止损线${params.trailingStop.level1.stopAt}%   │
-│   • 盈利${params.trailingStop.level2.trigger}%→止损线${params.trailingStop.level2.stopAt}%   │
-│   • 盈利${params.trailingStop.level3.trigger}%→止损线${params.trailingStop.level3.stopAt}%   │`}
+${formatTrailingStopLevels(params.trailingStop, "│   • ")}`}
 └─────────────────────────────────────────┘
 
 【决策流程 - 按优先级执行】
@@ -654,7 +654,6 @@ ${isCodeLevelProtectionEnabled ? (allowAiOverride ? `│
     prompt += `账户回撤 (从初始): ${drawdownFromInitial >= 0 ? '' : '+'}${(-drawdownFromInitial).toFixed(2)}%\n\n`;
     
     // 添加风控警告（使用配置参数）
-    // 注释：已移除强制清仓限制，仅保留警告提醒
     if (drawdownFromPeak >= RISK_PARAMS.ACCOUNT_DRAWDOWN_WARNING_PERCENT) {
       prompt += `提醒: 账户回撤已达到 ${drawdownFromPeak.toFixed(2)}%，请谨慎交易\n\n`;
     }
@@ -662,6 +661,19 @@ ${isCodeLevelProtectionEnabled ? (allowAiOverride ? `│
     prompt += `当前账户价值: ${accountInfo.totalBalance.toFixed(2)} USDT\n\n`;
   }
   
+  // 账户回撤保护（含未实现盈亏，由系统强制执行）
+  const drawdownGuard = accountInfo.drawdownGuard;
+  if (drawdownGuard && drawdownGuard.level !== "normal") {
+    prompt += `账户回撤保护: ${DRAWDOWN_GUARD_LEVEL_LABELS[drawdownGuard.level as DrawdownGuardLevel]}（净值 ${drawdownGuard.equity.toFixed(2)} USDT，峰值 ${drawdownGuard.peakEquity.toFixed(2)} USDT，回撤 ${drawdownGuard.drawdownPercent.toFixed(2)}%）\n`;
+    if (!drawdownGuard.allowNewPositions) {
+      prompt += "系统已禁止新开仓，本周期只能持有或平仓\n\n";
+    } else if (drawdownGuard.sizeFactor < 1) {
+      prompt += `系统会将新开仓金额缩减为 ${(drawdownGuard.sizeFactor * 100).toFixed(0)}%，请优先考虑降低风险\n\n`;
+    } else {
+      prompt += "\n";
+    }
+  }
+  
   prompt += `当前总收益率: ${accountInfo.returnPercent.toFixed(2)}%\n\n`;
   
   // 计算所有持仓的未实现盈亏总和
@@ -813,6 +825,9 @@ ${isCodeLevelProtectionEnabled ? (allowAiOverride ? `│
     prompt += `- 请基于当前市场数据独立判断，该交易就交易！\n\n`;
   }
 
+  // 结构化决策输出格式（用于记录 AI 意图，与实际工具调用对比）
+  prompt += STRUCTURED_DECISION_INSTRUCTIONS;
+
   return prompt;
 }
 
@@ -821,13 +836,11 @@ ${isCodeLevelProtectionEnabled ? (allowAiOverride ? `│
  */
 function generateInstructions(strategy: TradingStrategy, intervalMinutes: number): string {
   const params = getStrategyParams(strategy);
+  const definition = resolveStrategy(strategy);
   
-  // 如果是AI自主策略或Alpha Beta策略，返回极简的系统提示词
-  if (strategy === "ai-autonomous" || strategy === "alpha-beta") {
-    const strategyName = strategy === "alpha-beta" ? "Alpha Beta" : "AI自主";
-    const strategyDesc = strategy === "alpha-beta" 
-      ? "你的所有行为都会被记录和分析，用于持续改进和学习。" 
-      : "";
+  // 如果是自主模式策略（AI自主、Alpha Beta），返回极简的系统提示词
+  if (definition.autonomous) {
+    const strategyDesc = definition.autonomousPreamble || "";
     
     return `你是一个完全自主的AI加密货币交易员，具备自我学习和持续改进的能力。
 
@@ -844,7 +857,7 @@ ${strategyDesc}
 
 双重防护机制（保护你的交易安全）：
 
-**第一层：代码级自动保护**（每10秒监控，自动执行）
+**第一层：代码级自动保护**（持仓监督器按价格实时监控，自动执行）
 - 自动止损：低杠杆-8%、中杠杆-6%、高杠杆-5%
 - 自动移动止盈：盈利5%→止损线+2%、盈利10%→止损线+5%、盈利15%→止损线+8%
 - 自动分批止盈：盈利8%→平仓30%、盈利12%→平仓30%、盈利18%→平仓40%
@@ -1160,7 +1173,7 @@ ${strategySpecificContent}
   ${isCodeLevelProtectionEnabled ? `• 波段策略：AI只负责开仓，平仓完全由自动监控自动执行
   • AI职责：专注于市场分析、开仓决策、风险监控和报告
   • 禁止平仓：AI禁止主动调用 closePosition 进行止损或止盈
-  • 自动保护：自动监控每10秒检查，触发条件立即自动平仓
+  • 自动保护：持仓监督器按价格实时检查，触发条件立即自动平仓
   • 报告为主：AI在报告中说明持仓状态、风险等级、趋势健康度即可` : `• 止损 = 严格遵守：止损线是硬性规则，必须严格执行，仅可微调±1%
   • 止盈 = 灵活判断：止盈要根据市场实际情况决定，2-3%盈利也可止盈，不要死等高目标
   • 小确定性盈利 > 大不确定性盈利：宁可提前止盈，不要贪心回吐
@@ -1169,8 +1182,8 @@ ${strategySpecificContent}
   
   (1) 止损策略${isCodeLevelProtectionEnabled ? '（双层保护：自动监控强制止损 + AI战术止损）' : '（AI主动止损）'}：
      ${isCodeLevelProtectionEnabled ? `
-     * 【自动监控强制止损】（每10秒自动检查，无需AI干预）：
-       系统已启用自动止损监控（每10秒检查一次），根据杠杆倍数分级保护：
+     * 【自动监控强制止损】（持仓监督器按价格实时检查，无需AI干预）：
+       系统已启用持仓监督器自动止损（按价格实时检查），根据杠杆倍数分级保护：
        - ${stopLossDescriptions[0]}
        - ${stopLossDescriptions[1]}
        - ${stopLossDescriptions[2]}
@@ -1202,11 +1215,9 @@ ${strategySpecificContent}
      * 说明：pnl_percent已包含杠杆效应，直接比较即可
   
   (2) 移动止盈策略${isCodeLevelProtectionEnabled ? '（由自动监控自动执行）' : '（AI主动执行）'}：
-     ${isCodeLevelProtectionEnabled ? `* 系统已启用自动监控移动止盈监控（每10秒检查一次，3级规则）：
+     ${isCodeLevelProtectionEnabled ? `* 系统已启用持仓监督器自动移动止盈（按价格实时检查，${params.trailingStop.levels.length}级规则）：
        - 自动跟踪每个持仓的盈利峰值（单个币种独立跟踪）
-       - Level 1: 峰值达到 ${params.trailingStop.level1.trigger}% 时，回落至 ${params.trailingStop.level1.stopAt}% 平仓
-       - Level 2: 峰值达到 ${params.trailingStop.level2.trigger}% 时，回落至 ${params.trailingStop.level2.stopAt}% 平仓
-       - Level 3: 峰值达到 ${params.trailingStop.level3.trigger}% 时，回落至 ${params.trailingStop.level3.stopAt}% 平仓
+${formatTrailingStopLevels(params.trailingStop, "       - ")}
        - 无需AI手动执行移动止盈，此功能完全由代码保证
      
      * 【AI职责】（重要：AI不需要主动执行止盈平仓）：
@@ -1218,9 +1229,7 @@ ${strategySpecificContent}
        - 自己跟踪每个持仓的盈利峰值（使用 peak_pnl_percent 字段）
        - 当峰值回撤达到阈值时，AI需要主动执行平仓
        - ${params.name}策略的移动止盈规则（严格执行）：
-         * 盈利达到 +${params.trailingStop.level1.trigger}% 时，止损线移至 +${params.trailingStop.level1.stopAt}%
-         * 盈利达到 +${params.trailingStop.level2.trigger}% 时，止损线移至 +${params.trailingStop.level2.stopAt}%
-         * 盈利达到 +${params.trailingStop.level3.trigger}% 时，止损线移至 +${params.trailingStop.level3.stopAt}%
+${formatTrailingStopLevels(params.trailingStop, "         * ")}
        - AI必须在分析持仓时主动计算和判断是否触发移动止盈`}
   
   (3) 止盈策略（务必落袋为安，不要过度贪婪）：
@@ -1231,8 +1240,7 @@ ${strategySpecificContent}
      
      * 止盈分级执行（强烈建议，不是可选）：
        - 盈利 ≥ +10% → 评估是否平仓30-50%（趋势减弱立即平）
-       - 盈利 ≥ +${params.partialTakeProfit.stage1.trigger}% → 强烈建议平仓${params.partialTakeProfit.stage1.closePercent}%（锁定一半利润）
-       - 盈利 ≥ +${params.partialTakeProfit.stage2.trigger}% → 强烈建议平仓剩余${params.partialTakeProfit.stage2.closePercent}%（全部落袋为安）
+${formatTakeProfitStages(params.partialTakeProfit, "       - 强烈建议 ")}
        - **关键时机判断**：
          * 趋势减弱/出现反转信号 → 立即全部止盈，不要犹豫
          * 阻力位/压力位附近 → 先平50%，观察突破情况
@@ -1278,7 +1286,7 @@ ${strategySpecificContent}
    
    a) 止损监控${isCodeLevelProtectionEnabled ? '（完全由自动监控自动执行，AI不需要主动平仓）' : '（AI主动止损）'}：
       ${isCodeLevelProtectionEnabled ? `- 重要：策略的止损完全由自动监控自动执行，AI不需要主动平仓！
-        * 【自动监控强制止损】：系统每10秒自动检查，触发即自动平仓
+        * 【自动监控强制止损】：持仓监督器按价格实时检查，触发即自动平仓
           - ${stopLossDescriptions[0]}
           - ${stopLossDescriptions[1]}
           - ${stopLossDescriptions[2]}
@@ -1299,10 +1307,8 @@ ${strategySpecificContent}
    
    b) 止盈监控${isCodeLevelProtectionEnabled ? '（完全由自动监控自动执行，AI不需要主动平仓）' : '（AI主动止盈 - 务必积极执行）'}：
       ${isCodeLevelProtectionEnabled ? `- 重要：策略的止盈完全由自动监控自动执行，AI不需要主动平仓！
-        * 【自动监控移动止盈】：系统每10秒自动检查，3级规则自动保护利润
-          - Level 1: 峰值达到 ${params.trailingStop.level1.trigger}% 时，回落至 ${params.trailingStop.level1.stopAt}% 平仓
-          - Level 2: 峰值达到 ${params.trailingStop.level2.trigger}% 时，回落至 ${params.trailingStop.level2.stopAt}% 平仓
-          - Level 3: 峰值达到 ${params.trailingStop.level3.trigger}% 时，回落至 ${params.trailingStop.level3.stopAt}% 平仓
+        * 【自动监控移动止盈】：持仓监督器按价格实时检查，${params.trailingStop.levels.length}级规则自动保护利润
+${formatTrailingStopLevels(params.trailingStop, "          - ")}
         * 【AI职责】：只需要监控和分析盈利状态，不需要执行平仓操作
       
       - AI的工作内容（分析为主，不执行平仓）：
@@ -1431,13 +1437,11 @@ ${strategySpecificContent}
 - 系统硬性底线（强制执行）：
   * 单笔亏损 ≤ ${RISK_PARAMS.EXTREME_STOP_LOSS_PERCENT}%：强制平仓
   * 持仓时间 ≥ ${RISK_PARAMS.MAX_HOLDING_HOURS}小时：强制平仓
-  ${isCodeLevelProtectionEnabled && params.trailingStop ? `* 移动止盈（3级规则，自动监控每10秒）：
-    - Level 1: 峰值达到 ${params.trailingStop.level1.trigger}% 时，回落至 ${params.trailingStop.level1.stopAt}% 平仓
-    - Level 2: 峰值达到 ${params.trailingStop.level2.trigger}% 时，回落至 ${params.trailingStop.level2.stopAt}% 平仓
-    - Level 3: 峰值达到 ${params.trailingStop.level3.trigger}% 时，回落至 ${params.trailingStop.level3.stopAt}% 平仓` : `* 当前策略未启用自动监控移动止盈，AI需主动监控峰值回撤`}
+  ${isCodeLevelProtectionEnabled && params.trailingStop ? `* 移动止盈（${params.trailingStop.levels.length}级规则，持仓监督器实时监控）：
+${formatTrailingStopLevels(params.trailingStop, "    - ")}` : `* 当前策略未启用自动监控移动止盈，AI需主动监控峰值回撤`}
 - AI战术决策（专业建议，灵活执行）：
   * 策略止损线：${params.stopLoss.low}% 到 ${params.stopLoss.high}%（强烈建议遵守）
-  * 分批止盈（${params.name}策略）：+${params.partialTakeProfit.stage1.trigger}%/+${params.partialTakeProfit.stage2.trigger}%/+${params.partialTakeProfit.stage3.trigger}%（使用 percentage 参数）
+  * 分批止盈（${params.name}策略）：${params.partialTakeProfit.stages.map(stage => stage.atrMultiple !== undefined ? `${stage.atrMultiple}×ATR` : `+${stage.trigger}%`).join("/")}（使用 percentage 参数）
   * 峰值回撤 ≥ ${params.peakDrawdownProtection}%：危险信号，强烈建议平仓
 
 仓位管理：
@@ -1474,18 +1478,30 @@ ${strategySpecificContent}
 市场数据按时间顺序排列（最旧 → 最新），跨多个时间框架。使用此数据识别多时间框架趋势和关键水平。`;
 }
 
+/**
+ * 生成交易所能力说明（附加在系统提示词末尾，避免 AI 使用当前交易所不支持的功能）
+ */
+function generateExchangeNotes(): string {
+  const capabilities = getExchangeCapabilities();
+  const lines = [
+    `交易所：${getExchangeDisplayName()}`,
+    `- 可用订单类型（openPosition/closePosition 的 orderType 参数）：${capabilities.orderTypes.join("、")}，使用其他类型开仓会被拒绝`,
+    isProtectiveOrdersEnabled()
+      ? "- 开仓后系统会在交易所挂出止损止盈条件单"
+      : "- 不在交易所挂止损止盈条件单，止损止盈只能由系统监控或你主动平仓执行",
+  ];
+  if (capabilities.sizeUnit === "coin") {
+    lines.push("- 下单数量以币为单位，工具结果中的\"张\"即币的数量");
+  }
+  return `\n\n${lines.join("\n")}`;
+}
+
 /**
  * 创建交易 Agent
  * @param intervalMinutes 交易间隔（分钟）
  * @param marketDataContext 市场数据上下文（可选，用于子Agent）
  */
 export async function createTradingAgent(intervalMinutes: number = 5, marketDataContext?: any) {
-  // 使用 OpenAI SDK，通过配置 baseURL 兼容 OpenRouter 或其他供应商
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-    baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
-  });
-
   const memory = new Memory({
     storage: new LibSQLMemoryAdapter({
       url: "file:./.voltagent/trading-memory.db",
@@ -1497,46 +1513,23 @@ export async function createTradingAgent(intervalMinutes: number = 5, marketData
   const strategy = getTradingStrategy();
   logger.info(`使用交易策略: ${strategy}`);
 
-  // 如果是多Agent共识策略，创建子Agent
+  // 如果策略定义了子Agent（如陪审团成员、激进团团员），创建子Agent
   let subAgents: Agent[] | undefined;
-  if (strategy === "multi-agent-consensus") {
-    logger.info("创建陪审团策略的子Agent（陪审团成员）...");
-    const { createTechnicalAnalystAgent, createTrendAnalystAgent, createRiskAssessorAgent } = await import("./analysisAgents");
-    
+  const definition = resolveStrategy(strategy);
+  if (definition.createSubAgents) {
+    logger.info(`创建 ${strategy} 策略的子Agent...`);
     // 传递市场数据上下文给子Agent
-    subAgents = [
-      createTechnicalAnalystAgent(marketDataContext),
-      createTrendAnalystAgent(marketDataContext),
-      createRiskAssessorAgent(marketDataContext),
-    ];
-    logger.info("陪审团成员创建完成：技术分析Agent、趋势分析Agent、风险评估Agent");
-  }
-  
-  // 如果是激进团策略，创建子Agent
-  if (strategy === "aggressive-team") {
-    logger.info("创建激进团策略的子Agent（团员）...");
-    const { 
-      createAggressiveTeamTrendExpertAgent, 
-      createAggressiveTeamPredictionExpertAgent,
-      createAggressiveTeamMoneyFlowExpertAgent,
-      createAggressiveTeamRiskControlExpertAgent 
-    } = await import("./aggressiveTeamAgents");
-    
-    // 传递市场数据上下文给子Agent
-    subAgents = [
-      createAggressiveTeamTrendExpertAgent(marketDataContext),
-      createAggressiveTeamPredictionExpertAgent(marketDataContext),
-      createAggressiveTeamMoneyFlowExpertAgent(marketDataContext),
-      createAggressiveTeamRiskControlExpertAgent(marketDataContext),
-    ];
-    logger.info("激进团团员创建完成：趋势分析专家、预测分析专家、资金流向分析专家、风险控制专家");
+    subAgents = await definition.createSubAgents(marketDataContext);
+    logger.info(`子Agent创建完成：${subAgents.map(a => a.name).join("、")}`);
   }
 
   const agent = new Agent({
     name: "trading-agent",
-    instructions: generateInstructions(strategy, intervalMinutes),
-    model: openai.chat(process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp"),
-    tools: [
+    instructions: generateInstructions(strategy, intervalMinutes) + generateExchangeNotes(),
+    // 使用 OpenAI 兼容接口，按 AI_MODELS_TRADING / AI_MODELS 配置的顺序故障切换
+    model: createRoleModel("trading", "trading-agent"),
+    // 交易所不支持的功能对应的工具不提供给 AI
+    tools: tradingTools.filterToolsByCapabilities([
       tradingTools.getMarketPriceTool,
       tradingTools.getTechnicalIndicatorsTool,
       tradingTools.getFundingRateTool,
@@ -1550,7 +1543,10 @@ export async function createTradingAgent(intervalMinutes: number = 5, marketData
       tradingTools.checkOrderStatusTool,
       tradingTools.calculateRiskTool,
       tradingTools.syncPositionsTool,
-    ],
+      tradingTools.getPositionHistoryTool,
+      tradingTools.getSettlementHistoryTool,
+      tradingTools.getTriggerOrdersTool,
+    ], getExchangeCapabilities()),
     subAgents,
     memory,
     logger
@@ -22,15 +22,28 @@
 import { Hono } from "hono";
 import { serveStatic } from "@hono/node-server/serve-static";
 import { createClient } from "@libsql/client";
-import { createExchangeClient } from "../services/exchangeClient";
+import { createExchangeClient, getCloseOrderFlags } from "../services/exchangeClient";
+import { getRateLimiterMetrics, runWithRequestPriority } from "../services/rateLimiter";
 import { createLogger } from "../utils/loggerUtils";
-import { getTradingStrategy, getStrategyParams } from "../agents/tradingAgent";
+import { getErrorMessage } from "../utils/errorUtils";
+import { getTradingStrategy, getStrategyParams, getTradingIntervalMinutes } from "../agents/tradingAgent";
 import { RISK_PARAMS } from "../config/riskParams";
 import { getChinaTimeISO } from "../utils/timeUtils";
 import { getQuantoMultiplier } from "../utils/contractUtils";
 import { ipBlacklistMiddleware } from "../middleware/ipBlacklist";
 import { checkCircuitBreaker, resetCircuitBreaker } from "../utils/riskControl";
+import { getDrawdownGuardOverview, resetDrawdownGuard } from "../utils/drawdownGuard";
+import { calculatePortfolioRisk } from "../utils/portfolioRisk";
+import {
+  DEFAULT_CIRCUIT_BREAKER_RULES,
+  deleteCircuitBreakerRules,
+  loadStoredCircuitBreakerRules,
+  resolveCircuitBreakerRules,
+  saveCircuitBreakerRules,
+} from "../utils/circuitBreakerRules";
+import { getStrategyDefinition } from "../strategies";
 import { manualTriggerTrading, getNextExecutionTime } from "../scheduler/tradingLoop";
+import { getDailyLlmUsage } from "../agents/llmUsage";
 
 const logger = createLogger({
   name: "api-routes",
@@ -47,6 +60,11 @@ export function createApiRoutes() {
   // IP 黑名单中间件 - 拦截黑名单 IP
   app.use("*", ipBlacklistMiddleware);
 
+  // 看板查询按最低优先级请求交易所，不挤占平仓和风控请求
+  app.use("/api/*", (c, next) =>
+    c.req.method === "GET" ? runWithRequestPriority("dashboard", next) : next()
+  );
+
   // 静态文件服务 - 需要使用绝对路径
   app.use("/*", serveStatic({ root: "./public" }));
 
@@ -80,8 +98,8 @@ export function createApiRoutes() {
       
       // Gate.io 的 account.total 不包含未实现盈亏
       // 总资产（不含未实现盈亏）= account.total
-      const unrealisedPnl = Number.parseFloat(account.unrealisedPnl || "0");
-      const totalBalance = Number.parseFloat(account.total || "0");
+      const unrealisedPnl = account.unrealisedPnl;
+      const totalBalance = account.total;
       
       // 收益率 = (总资产 - 初始资金) / 初始资金 * 100
       // 总资产不包含未实现盈亏，收益率反映已实现盈亏
@@ -89,8 +107,8 @@ export function createApiRoutes() {
       
       return c.json({
         totalBalance,  // 总资产（不包含未实现盈亏）
-        availableBalance: Number.parseFloat(account.available || "0"),
-        positionMargin: Number.parseFloat(account.positionMargin || "0"),
+        availableBalance: account.available,
+        positionMargin: account.positionMargin,
         unrealisedPnl,
         returnPercent,  // 收益率（不包含未实现盈亏）
         initialBalance,
@@ -117,31 +135,31 @@ export function createApiRoutes() {
       
       // 过滤并格式化持仓
       const positions = gatePositions
-        .filter((p: any) => Number.parseInt(p.size || "0") !== 0)
-        .map((p: any) => {
-          const size = Number.parseInt(p.size || "0");
+        .filter(p => p.size !== 0)
+        .map(p => {
+          const size = p.size;
           const symbol = p.contract.replace("_USDT", "");
           const dbPos = dbPositionsMap.get(symbol);
-          const entryPrice = Number.parseFloat(p.entryPrice || "0");
+          const entryPrice = p.entryPrice;
           const quantity = Math.abs(size);
-          const leverage = Number.parseInt(p.leverage || "1");
+          const leverage = p.leverage || 1;
           
-          // 开仓价值（保证金）: 从Gate.io API直接获取
-          const openValue = Number.parseFloat(p.margin || "0");
+          // 开仓价值（保证金）: 从交易所持仓数据直接获取
+          const openValue = p.margin;
           
           return {
             symbol,
             quantity,
             entryPrice,
-            currentPrice: Number.parseFloat(p.markPrice || "0"),
-            liquidationPrice: Number.parseFloat(p.liqPrice || "0"),
-            unrealizedPnl: Number.parseFloat(p.unrealisedPnl || "0"),
+            currentPrice: p.markPrice,
+            liquidationPrice: p.liqPrice,
+            unrealizedPnl: p.unrealisedPnl,
             leverage,
             side: size > 0 ? "long" : "short",
             openValue,
             profitTarget: dbPos?.profit_target ? Number(dbPos.profit_target) : null,
             stopLoss: dbPos?.stop_loss ? Number(dbPos.stop_loss) : null,
-            openedAt: p.create_time || new Date().toISOString(),
+            openedAt: p.openTime ? new Date(p.openTime * 1000).toISOString() : new Date().toISOString(),
           };
         });
       
@@ -260,12 +278,74 @@ export function createApiRoutes() {
         args: [Number.parseInt(limit)],
       });
       
+      // 查询结构化决策和工具调用（子表）
+      const ids = result.rows.map((row) => Number(row.id));
+      const actionsById = new Map<number, Array<Record<string, unknown>>>();
+      const toolCallsById = new Map<number, Array<Record<string, unknown>>>();
+      const llmUsageById = new Map<number, Record<string, number>>();
+      if (ids.length > 0) {
+        const placeholders = ids.map(() => "?").join(", ");
+        const actionsResult = await dbClient.execute({
+          sql: `SELECT * FROM decision_actions WHERE decision_id IN (${placeholders}) ORDER BY id ASC`,
+          args: ids,
+        });
+        for (const row of actionsResult.rows) {
+          const list = actionsById.get(Number(row.decision_id)) || [];
+          list.push({
+            symbol: row.symbol,
+            action: row.action,
+            side: row.side,
+            leverage: row.leverage,
+            amountUsdt: row.amount_usdt,
+            closePercentage: row.close_percentage,
+            confidence: row.confidence,
+            rationale: row.rationale,
+            source: row.source,
+          });
+          actionsById.set(Number(row.decision_id), list);
+        }
+        
+        const toolCallsResult = await dbClient.execute({
+          sql: `SELECT * FROM agent_tool_calls WHERE decision_id IN (${placeholders}) ORDER BY id ASC`,
+          args: ids,
+        });
+        for (const row of toolCallsResult.rows) {
+          const list = toolCallsById.get(Number(row.decision_id)) || [];
+          list.push({
+            toolName: row.tool_name,
+            symbol: row.symbol,
+            arguments: JSON.parse((row.arguments as string | null) || "{}"),
+            result: JSON.parse((row.result as string | null) || "null"),
+            success: Number(row.success) === 1,
+          });
+          toolCallsById.set(Number(row.decision_id), list);
+        }
+        
+        const usageResult = await dbClient.execute({
+          sql: `SELECT decision_id, COUNT(*) as calls, SUM(prompt_tokens) as prompt_tokens,
+                       SUM(completion_tokens) as completion_tokens, SUM(COALESCE(cost_usd, 0)) as cost_usd
+                FROM llm_usage WHERE decision_id IN (${placeholders}) GROUP BY decision_id`,
+          args: ids,
+        });
+        for (const row of usageResult.rows) {
+          llmUsageById.set(Number(row.decision_id), {
+            calls: Number(row.calls),
+            promptTokens: Number(row.prompt_tokens) || 0,
+            completionTokens: Number(row.completion_tokens) || 0,
+            costUsd: Number(row.cost_usd) || 0,
+          });
+        }
+      }
+      
       const logs = result.rows.map((row: any) => ({
         id: row.id,
         timestamp: row.timestamp,
         iteration: row.iteration,
         decision: row.decision,
         actionsTaken: row.actions_taken,
+        actions: actionsById.get(Number(row.id)) || [],
+        toolCalls: toolCallsById.get(Number(row.id)) || [],
+        llmUsage: llmUsageById.get(Number(row.id)) || null,
         accountValue: row.account_value,
         positionsCount: row.positions_count,
       }));
@@ -327,6 +407,18 @@ export function createApiRoutes() {
     }
   });
 
+  /**
+   * 获取模型调用用量（按天汇总 token、成本，并与已实现盈亏对比）
+   */
+  app.get("/api/llm-usage", async (c) => {
+    try {
+      const days = Math.max(1, Number.parseInt(c.req.query("days") || "30") || 30);
+      return c.json(await getDailyLlmUsage(days));
+    } catch (error) {
+      return c.json({ error: getErrorMessage(error) }, 500);
+    }
+  });
+
   /**
    * 获取多个币种的实时价格
    */
@@ -344,7 +436,7 @@ export function createApiRoutes() {
           try {
             const contract = `${symbol}_USDT`;
             const ticker = await exchangeClient.getFuturesTicker(contract);
-            prices[symbol] = Number.parseFloat(ticker.last || "0");
+            prices[symbol] = ticker.last;
           } catch (error: any) {
             logger.error(`获取 ${symbol} 价格失败:`, error);
             prices[symbol] = 0;
@@ -365,25 +457,11 @@ export function createApiRoutes() {
     try {
       const strategy = getTradingStrategy();
       const params = getStrategyParams(strategy);
-      const intervalMinutes = Number.parseInt(process.env.TRADING_INTERVAL_MINUTES || "20");
-      
-      // 策略名称映射
-      const strategyNames: Record<string, string> = {
-        "ultra-short": "超短线",
-        "swing-trend": "波段趋势",
-        "medium-long": "中长线",
-        "conservative": "稳健",
-        "balanced": "平衡",
-        "aggressive": "激进",
-        "aggressive-team": "激进团",
-        "rebate-farming": "返佣套利",
-        "ai-autonomous": "AI自主",
-        "multi-agent-consensus": "陪审团策略"
-      };
+      const intervalMinutes = getTradingIntervalMinutes();
       
       return c.json({
         strategy,
-        strategyName: strategyNames[strategy] || strategy,
+        strategyName: params.name,
         intervalMinutes,
         maxLeverage: RISK_PARAMS.MAX_LEVERAGE,
         maxPositions: RISK_PARAMS.MAX_POSITIONS,
@@ -391,13 +469,33 @@ export function createApiRoutes() {
         positionSizeRange: `${params.positionSizeMin}-${params.positionSizeMax}%`,
         enableCodeLevelProtection: params.enableCodeLevelProtection,
         allowAiOverrideProtection: params.allowAiOverrideProtection || false,
-        description: params.description
+        description: params.description,
+        drawdownGuard: await getDrawdownGuardOverview(),
       });
     } catch (error: any) {
       return c.json({ error: error.message }, 500);
     }
   });
 
+  /**
+   * 获取组合风险：按币种和方向的敞口、VaR/CVaR、BTC beta 敞口和限额
+   */
+  app.get("/api/risk", async (c) => {
+    try {
+      const report = await calculatePortfolioRisk();
+      return c.json(report);
+    } catch (error) {
+      return c.json({ error: getErrorMessage(error) }, 500);
+    }
+  });
+
+  /**
+   * 获取交易所请求调度指标（各接口类别的令牌、排队、限频次数和排队时间）
+   */
+  app.get("/api/rate-limits", (c) => {
+    return c.json(getRateLimiterMetrics());
+  });
+
   /**
    * 获取熔断状态
    */
@@ -412,6 +510,7 @@ export function createApiRoutes() {
         severityLevel: status.severityLevel || null,
         isInCooldown: status.isInCooldown || false,
         cooldownUntil: status.cooldownUntil ? status.cooldownUntil.toISOString() : null,
+        ruleId: status.ruleId || null,
       });
     } catch (error: any) {
       return c.json({ error: error.message }, 500);
@@ -468,13 +567,130 @@ export function createApiRoutes() {
     }
   });
 
+  /**
+   * 重置账户回撤保护 - 需要验证密码
+   * 以当前净值作为新的峰值，解除禁止开仓/强制平仓级别
+   */
+  app.post("/api/drawdown-guard/reset", async (c) => {
+    try {
+      const body = await c.req.json();
+      const { password } = body;
+      
+      const correctPassword = process.env.CLOSE_POSITION_PASSWORD;
+      
+      if (!correctPassword) {
+        logger.error('清仓密码未配置 - 请在环境变量中设置 CLOSE_POSITION_PASSWORD');
+        return c.json({ 
+          success: false, 
+          message: "功能未启用" 
+        }, 403);
+      }
+      
+      if (!password || password !== correctPassword) {
+        logger.warn('重置回撤保护密码验证失败');
+        return c.json({ success: false, message: "密码错误" }, 403);
+      }
+      
+      const status = await resetDrawdownGuard("手动重置回撤保护");
+      
+      return c.json({
+        success: true,
+        message: `回撤保护已重置，新的峰值净值: ${status.peakEquity.toFixed(2)} USDT`,
+        drawdownGuard: status,
+      });
+    } catch (error) {
+      logger.error("重置回撤保护失败:", error);
+      return c.json({ 
+        success: false, 
+        message: `重置失败: ${getErrorMessage(error)}` 
+      }, 500);
+    }
+  });
+
+  /**
+   * 获取熔断规则
+   * 
+   * 查询参数 strategy：策略ID（默认当前策略）
+   * 返回当前生效的规则及其来源，以及 system_config 中保存的策略专属规则和全局规则
+   */
+  app.get("/api/circuit-breaker/rules", async (c) => {
+    try {
+      const strategy = c.req.query("strategy") || getTradingStrategy();
+      const params = getStrategyParams(strategy);
+      const effective = await resolveCircuitBreakerRules(strategy, params.circuitBreakerRules);
+      
+      return c.json({
+        strategy,
+        source: effective.source,
+        rules: effective.rules,
+        strategyConfig: await loadStoredCircuitBreakerRules(strategy),
+        strategyDefault: params.circuitBreakerRules || null,
+        globalConfig: await loadStoredCircuitBreakerRules(),
+        defaults: DEFAULT_CIRCUIT_BREAKER_RULES,
+      });
+    } catch (error) {
+      return c.json({ error: getErrorMessage(error) }, 500);
+    }
+  });
+
+  /**
+   * 保存熔断规则 - 需要验证密码
+   * 
+   * 请求体：{ password, rules, strategy? }，不填 strategy 时保存为全局规则
+   * rules 为 null 时删除已保存的规则（恢复为策略规则或默认规则）
+   */
+  app.put("/api/circuit-breaker/rules", async (c) => {
+    try {
+      const body = await c.req.json();
+      const { password, rules, strategy } = body;
+      
+      // 验证密码 - 使用清仓密码
+      const correctPassword = process.env.CLOSE_POSITION_PASSWORD;
+      
+      if (!correctPassword) {
+        logger.error('清仓密码未配置 - 请在环境变量中设置 CLOSE_POSITION_PASSWORD');
+        return c.json({ 
+          success: false, 
+          message: "功能未启用" 
+        }, 403);
+      }
+      
+      if (!password || password !== correctPassword) {
+        logger.warn('修改熔断规则密码验证失败');
+        return c.json({ success: false, message: "密码错误" }, 403);
+      }
+      
+      if (strategy !== undefined && (typeof strategy !== "string" || !getStrategyDefinition(strategy))) {
+        return c.json({ success: false, message: `未知的策略: ${strategy}` }, 400);
+      }
+      
+      if (rules === null) {
+        await deleteCircuitBreakerRules(strategy);
+        return c.json({ success: true, message: "已删除保存的熔断规则" });
+      }
+      
+      try {
+        const saved = await saveCircuitBreakerRules(rules, strategy);
+        return c.json({ success: true, message: `已保存 ${saved.length} 条熔断规则`, rules: saved });
+      } catch (error) {
+        return c.json({ success: false, message: getErrorMessage(error) }, 400);
+      }
+    } catch (error) {
+      logger.error("保存熔断规则失败:", error);
+      return c.json({ 
+        success: false, 
+        message: `保存失败: ${getErrorMessage(error)}` 
+      }, 500);
+    }
+  });
+
   /**
    * 获取下次交易执行时间
    */
   app.get("/api/next-execution", async (c) => {
     try {
       const nextTime = getNextExecutionTime();
-      const intervalMinutes = Number.parseInt(process.env.TRADING_INTERVAL_MINUTES || "20");
+      const intervalMinutes = getTradingIntervalMinutes();
       
       return c.json({
         nextExecutionTime: nextTime ? nextTime.toISOString() : null,
@@ -574,8 +790,8 @@ export function createApiRoutes() {
       
       // 获取当前持仓
       const allPositions = await exchangeClient.getPositions();
-      const gatePosition = allPositions.find((p: any) => 
-        p.contract === contract && Number.parseInt(p.size || "0") !== 0
+      const gatePosition = allPositions.find(p => 
+        p.contract === contract && p.size !== 0
       );
       
       if (!gatePosition) {
@@ -586,11 +802,11 @@ export function createApiRoutes() {
       }
       
       // 获取持仓信息
-      const size = Number.parseInt(gatePosition.size || "0");
+      const size = gatePosition.size;
       const side = size > 0 ? "long" : "short";
-      const entryPrice = Number.parseFloat(gatePosition.entryPrice || "0");
-      const currentPrice = Number.parseFloat(gatePosition.markPrice || "0");
-      const leverage = Number.parseInt(gatePosition.leverage || "1");
+      const entryPrice = gatePosition.entryPrice;
+      const currentPrice = gatePosition.markPrice;
+      const leverage = gatePosition.leverage || 1;
       const quantity = Math.abs(size);
       
       // 获取合约乘数（不同币种的合约乘数不同）
@@ -620,7 +836,7 @@ export function createApiRoutes() {
         contract,
         size: closeSize,
         price: 0,  // 市价单
-        reduceOnly: true,
+        ...getCloseOrderFlags(),
       });
       
       logger.info(`已下达手动平仓订单 ${symbol}，订单ID: ${order.id}`);
@@ -636,7 +852,7 @@ export function createApiRoutes() {
         try {
           const orderInfo = await exchangeClient.getOrder(order.id);
           if (orderInfo.status === "finished") {
-            actualExitPrice = Number.parseFloat(orderInfo.fillPrice || orderInfo.price || currentPrice.toString());
+            actualExitPrice = orderInfo.fillPrice || orderInfo.price || currentPrice;
             orderStatus = "filled";
           }
         } catch (error: any) {
@@ -0,0 +1,236 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测引擎 - 使用历史K线重放完整的交易流程
+ *
+ * 回测复用实盘的全部代码路径：
+ * - 交易所：模拟盘 PaperClient，注入历史K线，只暴露模拟时间之前已收盘的K线
+ * - 决策：tradingLoop 的 executeTradingDecision（指标计算、提示词、交易工具、风控检查）
+ * - 监控：持仓监督器（止损、移动止盈、分批止盈、最大持仓时间）按监控间隔逐步执行
+ * - 记录：交易、决策、账户历史写入独立的回测数据库
+ *
+ * 业务模块在读取环境变量时创建数据库连接和交易所客户端，
+ * 因此必须先设置环境变量和模拟时钟，再动态导入这些模块。
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createLogger } from "../utils/loggerUtils";
+import type { BacktestCandle } from "./historicalData";
+import { type BacktestReport, buildBacktestReport } from "./report";
+import { SimulatedClock } from "./simulatedClock";
+
+const logger = createLogger({
+  name: "backtest",
+  level: "info",
+});
+
+/**
+ * 回测决策模式
+ * - llm：调用真实的 AI 模型（消耗 token，速度慢）
+ * - replay：回放录制的决策
+ * - ema-cross：确定性趋势规则
+ * - noop：不交易
+ */
+export type BacktestDecisionMode = "llm" | "replay" | "ema-cross" | "noop";
+
+/**
+ * 回测配置
+ */
+export interface BacktestOptions {
+  strategy: string;
+  symbols: string[];
+  start: Date;
+  end: Date;
+  /** 交易决策间隔（分钟） */
+  intervalMinutes: number;
+  /** 监控器执行间隔（秒），默认 60 */
+  monitorIntervalSeconds?: number;
+  initialBalance: number;
+  decisionMode: BacktestDecisionMode;
+  /** replay 模式的录制文件 */
+  replayFile?: string;
+  /** 本地历史数据目录（不填则使用K线存储） */
+  dataDir?: string;
+  /** K线存储数据库地址（默认使用实盘数据库，与交易系统共享历史数据） */
+  candleDatabaseUrl?: string;
+  /** 回测数据库地址 */
+  databaseUrl: string;
+  /** 报告输出文件 */
+  reportFile?: string;
+}
+
+/**
+ * 数据库地址的比较键：本地文件按绝对路径比较，其他地址按原样比较
+ */
+function getDatabaseKey(url: string): string {
+  return url.startsWith("file:") ? `file:${path.resolve(url.slice("file:".length))}` : url;
+}
+
+/**
+ * 运行回测
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+  const startMs = options.start.getTime();
+  const endMs = options.end.getTime();
+  if (!(endMs > startMs)) {
+    throw new Error("回测结束时间必须晚于开始时间");
+  }
+  if (options.decisionMode === "replay" && !options.replayFile) {
+    throw new Error("replay 模式需要指定录制文件");
+  }
+
+  const monitorStepMs = (options.monitorIntervalSeconds || 60) * 1000;
+  const decisionStepMs = options.intervalMinutes * 60 * 1000;
+
+  // K线存储默认使用实盘数据库，需要在覆盖 DATABASE_URL 之前读取
+  const liveDatabaseUrl = process.env.DATABASE_URL || "file:./.voltagent/trading.db";
+  const candleDatabaseUrl = options.candleDatabaseUrl || liveDatabaseUrl;
+
+  // 回测数据库每次都会被清空，不能指向实盘数据库或K线存储数据库
+  const backtestDatabaseKey = getDatabaseKey(options.databaseUrl);
+  if (backtestDatabaseKey === getDatabaseKey(liveDatabaseUrl)) {
+    throw new Error(`回测数据库 ${options.databaseUrl} 与实盘数据库（DATABASE_URL）相同，回测会清空该数据库，请使用独立的回测数据库`);
+  }
+  if (backtestDatabaseKey === getDatabaseKey(candleDatabaseUrl)) {
+    throw new Error(`回测数据库 ${options.databaseUrl} 与K线存储数据库相同，回测会清空该数据库，请使用独立的回测数据库`);
+  }
+
+  // 1. 设置回测环境变量（必须在导入业务模块之前）
+  process.env.EXCHANGE = "paper";
+  process.env.PAPER_STATE_FILE = "";
+  process.env.DATABASE_URL = options.databaseUrl;
+  process.env.TRADING_STRATEGY = options.strategy;
+  process.env.TRADING_SYMBOLS = options.symbols.join(",");
+  process.env.TRADING_INTERVAL_MINUTES = String(options.intervalMinutes);
+  process.env.INITIAL_BALANCE = String(options.initialBalance);
+  process.env.PAPER_INITIAL_BALANCE = String(options.initialBalance);
+  process.env.SYNC_CONFIG_ON_STARTUP = "true";
+
+  // 每次回测使用全新的数据库
+  if (options.databaseUrl.startsWith("file:")) {
+    const dbFile = options.databaseUrl.slice("file:".length);
+    if (fs.existsSync(dbFile)) {
+      fs.unlinkSync(dbFile);
+    }
+  }
+
+  // 2. 加载历史K线（在安装模拟时钟前完成网络请求）
+  const { CandleStore } = await import("../services/candleStore");
+  const { BACKTEST_TIMEFRAMES, loadHistoricalCandles } = await import("./historicalData");
+  const store = options.dataDir ? undefined : new CandleStore(candleDatabaseUrl);
+  const startSec = Math.floor(startMs / 1000);
+  const endSec = Math.floor(endMs / 1000);
+  const candles: Record<string, Record<string, BacktestCandle[]>> = {};
+  for (const symbol of options.symbols) {
+    const contract = `${symbol}_USDT`;
+    candles[contract] = {};
+    for (const interval of Object.keys(BACKTEST_TIMEFRAMES)) {
+      candles[contract][interval] = await loadHistoricalCandles(contract, interval, startSec, endSec, {
+        dataDir: options.dataDir,
+        store,
+      });
+    }
+  }
+
+  // 3. 安装模拟时钟（LLM 模式下保留真实的定时器，避免影响 HTTP 请求）
+  const clock = new SimulatedClock(startMs);
+  clock.install(options.decisionMode !== "llm");
+
+  try {
+    // 4. 动态导入业务模块
+    const { initDatabase } = await import("../database/init");
+    const { createExchangeClient } = await import("../services/exchangeClient");
+    const tradingLoop = await import("../scheduler/tradingLoop");
+    const { runPositionSupervisorOnce } = await import("../scheduler/positionSupervisor");
+    const { recordAccountAssets } = await import("../scheduler/accountRecorder");
+    const agents = await import("./decisionAgents");
+    const { loadStrategyPlugins } = await import("../strategies");
+
+    await loadStrategyPlugins();
+    await initDatabase();
+    await tradingLoop.initTradingSystem();
+
+    const paper = createExchangeClient() as import("../services/paperClient").PaperClient;
+    paper.setClock(() => clock.now());
+    for (const [contract, byInterval] of Object.entries(candles)) {
+      for (const [interval, list] of Object.entries(byInterval)) {
+        paper.feedCandles(contract, interval, list);
+      }
+    }
+
+    if (options.decisionMode === "noop") {
+      tradingLoop.setTradingAgentFactory(agents.createNoopAgentFactory());
+    } else if (options.decisionMode === "replay") {
+      tradingLoop.setTradingAgentFactory(agents.createReplayAgentFactory(options.replayFile as string));
+    } else if (options.decisionMode === "ema-cross") {
+      tradingLoop.setTradingAgentFactory(agents.createEmaCrossAgentFactory());
+    }
+
+    tradingLoop.setTradingStartTime(new Date(startMs));
+    tradingLoop.setIterationCount(0);
+
+    logger.info(`开始回测: ${options.start.toISOString()} ~ ${options.end.toISOString()}`);
+    logger.info(`策略: ${options.strategy}, 决策模式: ${options.decisionMode}, 币种: ${options.symbols.join(", ")}`);
+
+    await recordAccountAssets(true);
+
+    // 5. 按监控间隔推进模拟时间
+    let cycles = 0;
+    for (let t = startMs; t <= endMs; t += monitorStepMs) {
+      clock.set(t);
+
+      await runPositionSupervisorOnce();
+
+      if ((t - startMs) % decisionStepMs === 0) {
+        cycles++;
+        logger.info(`[${new Date(t).toISOString()}] 第 ${cycles} 个交易周期`);
+        const result = await tradingLoop.manualTriggerTrading();
+        if (!result.success) {
+          logger.warn(`交易周期执行失败: ${result.message}`);
+        }
+        await recordAccountAssets(true);
+      }
+    }
+
+    await recordAccountAssets(true);
+
+    // 6. 生成报告
+    const report = await buildBacktestReport(options.databaseUrl, {
+      strategy: options.strategy,
+      decisionMode: options.decisionMode,
+      symbols: options.symbols,
+      start: options.start,
+      end: options.end,
+      intervalMinutes: options.intervalMinutes,
+      cycles,
+      initialBalance: options.initialBalance,
+    });
+
+    if (options.reportFile) {
+      fs.writeFileSync(options.reportFile, JSON.stringify(report, null, 2));
+      logger.info(`回测报告已保存: ${options.reportFile}`);
+    }
+
+    logger.info(`回测完成: ${cycles} 个交易周期`);
+
+    return report;
+  } finally {
+    clock.uninstall();
+  }
+}
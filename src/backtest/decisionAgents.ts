@@ -0,0 +1,155 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测决策 Agent - 替换 LLM 的离线实现
+ *
+ * - noop：从不交易，只运行代码级监控，用于验证数据和风控流程
+ * - replay：按周期顺序回放录制的工具调用
+ * - ema-cross：确定性的 EMA/MACD/RSI 趋势规则
+ *
+ * 所有实现都通过与 AI 相同的交易工具（openPosition/closePosition 等）下单，
+ * 返回结构与 VoltAgent generateText 的 steps 格式一致。
+ */
+import * as fs from "node:fs";
+import { type PlannedToolCall, type SymbolMarketData, runToolCalls } from "../agents/ruleBasedAgent";
+import { getStrategyParams, getTradingStrategy } from "../agents/tradingAgent";
+import { RISK_PARAMS } from "../config/riskParams";
+import type { TradingAgentFactory } from "../scheduler/tradingLoop";
+import { createExchangeClient } from "../services/exchangeClient";
+import { createLogger } from "../utils/loggerUtils";
+
+const logger = createLogger({
+  name: "backtest-agent",
+  level: "info",
+});
+
+/**
+ * 录制的工具调用
+ */
+export type RecordedToolCall = PlannedToolCall;
+
+/**
+ * 录制的单次决策
+ */
+export interface RecordedDecision {
+  /** 交易周期序号（可选，不填则按顺序回放） */
+  iteration?: number;
+  /** 决策文本 */
+  text: string;
+  /** 按顺序执行的工具调用 */
+  toolCalls: RecordedToolCall[];
+}
+
+/**
+ * 不交易的 Agent
+ */
+export function createNoopAgentFactory(): TradingAgentFactory {
+  return async () => ({
+    generateText: async () => runToolCalls("回测空策略：本周期不交易", [], "backtest"),
+  });
+}
+
+/**
+ * 回放录制决策的 Agent
+ * @param file JSON 文件，内容为 RecordedDecision 数组
+ */
+export function createReplayAgentFactory(file: string): TradingAgentFactory {
+  const decisions: RecordedDecision[] = JSON.parse(fs.readFileSync(file, "utf-8"));
+  let cursor = 0;
+  let cycle = 0;
+
+  logger.info(`已加载 ${decisions.length} 条录制决策: ${file}`);
+
+  return async () => ({
+    generateText: async () => {
+      cycle++;
+      const hasIterations = decisions.some(d => d.iteration !== undefined);
+      const decision = hasIterations
+        ? decisions.find(d => d.iteration === cycle)
+        : decisions[cursor++];
+
+      if (!decision) {
+        return runToolCalls(`回放：第 ${cycle} 个周期没有录制决策`, [], "backtest");
+      }
+      return runToolCalls(decision.text, decision.toolCalls || [], "backtest");
+    },
+  });
+}
+
+/**
+ * 确定性趋势规则 Agent
+ * - 15分钟 EMA20 > EMA50、MACD > 0、RSI14 在 50-70 之间时做多，反之做空
+ * - 持仓方向与 EMA 趋势相反，或 RSI14 进入极端区域时平仓
+ * - 杠杆使用策略最小杠杆，仓位使用策略最小仓位比例
+ */
+export function createEmaCrossAgentFactory(): TradingAgentFactory {
+  return async (_intervalMinutes, marketData) => ({
+    generateText: async () => {
+      const symbolData = marketData as Record<string, SymbolMarketData | undefined>;
+      const params = getStrategyParams(getTradingStrategy());
+      const client = createExchangeClient();
+      const account = await client.getFuturesAccount();
+      const positions = await client.getPositions();
+      const totalBalance = account.total;
+
+      const toolCalls: RecordedToolCall[] = [];
+      const reasons: string[] = [];
+      let openCount = positions.length;
+
+      for (const symbol of Object.keys(marketData)) {
+        const tf = symbolData[symbol]?.timeframes?.["15m"];
+        if (!tf) {
+          continue;
+        }
+
+        const position = positions.find(p => p.contract === `${symbol}_USDT`);
+        const uptrend = tf.ema20 > tf.ema50 && tf.macd > 0;
+        const downtrend = tf.ema20 < tf.ema50 && tf.macd < 0;
+
+        if (position) {
+          const isLong = position.size > 0;
+          if ((isLong && (downtrend || tf.rsi14 > 80)) || (!isLong && (uptrend || tf.rsi14 < 20))) {
+            toolCalls.push({ toolName: "closePosition", input: { symbol, percentage: 100 } });
+            reasons.push(`${symbol} 趋势反转或RSI极端(${tf.rsi14.toFixed(1)})，平仓`);
+            openCount--;
+          }
+          continue;
+        }
+
+        if (openCount >= RISK_PARAMS.MAX_POSITIONS) {
+          continue;
+        }
+
+        const amountUsdt = Math.floor((totalBalance * params.positionSizeMin) / 100);
+        if (uptrend && tf.rsi14 >= 50 && tf.rsi14 <= 70) {
+          toolCalls.push({ toolName: "openPosition", input: { symbol, side: "long", leverage: params.leverageMin, amountUsdt } });
+          reasons.push(`${symbol} 15m多头排列，RSI14=${tf.rsi14.toFixed(1)}，开多`);
+          openCount++;
+        } else if (downtrend && tf.rsi14 >= 30 && tf.rsi14 <= 50) {
+          toolCalls.push({ toolName: "openPosition", input: { symbol, side: "short", leverage: params.leverageMin, amountUsdt } });
+          reasons.push(`${symbol} 15m空头排列，RSI14=${tf.rsi14.toFixed(1)}，开空`);
+          openCount++;
+        }
+      }
+
+      const text = reasons.length > 0 ? reasons.join("\n") : "无满足条件的信号，观望";
+      return runToolCalls(text, toolCalls, "backtest");
+    },
+  });
+}
@@ -0,0 +1,105 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测历史K线加载
+ *
+ * 数据来源：
+ * - 本地目录：{dataDir}/{contract}_{interval}.json，内容为 Gate 格式K线数组 [{t,o,h,l,c,v,sum}]
+ * - K线存储：读取数据库中的K线，缺失部分从 Gate.io 公共接口下载并写入存储
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { type CandleStore, normalizeCandle } from "../services/candleStore";
+import type { Candle } from "../services/exchangeClient";
+import { createLogger } from "../utils/loggerUtils";
+
+const logger = createLogger({
+  name: "backtest-data",
+  level: "info",
+});
+
+/**
+ * 回测K线
+ */
+export type BacktestCandle = Candle;
+
+/**
+ * 交易循环使用的时间框架及每个周期读取的K线数量
+ * 与 collectMarketData 保持一致，用于计算回测开始前需要的预热数据
+ */
+export const BACKTEST_TIMEFRAMES: Record<string, { seconds: number; lookback: number }> = {
+  "1m": { seconds: 60, lookback: 150 },
+  "3m": { seconds: 180, lookback: 120 },
+  "5m": { seconds: 300, lookback: 100 },
+  "15m": { seconds: 900, lookback: 96 },
+  "30m": { seconds: 1800, lookback: 120 },
+  "1h": { seconds: 3600, lookback: 168 },
+};
+
+/**
+ * 加载单个合约单个周期的历史K线（包含回测开始前的预热数据）
+ * @param contract 合约名称，如 BTC_USDT
+ * @param interval K线周期
+ * @param startSec 回测开始时间（秒）
+ * @param endSec 回测结束时间（秒）
+ * @param source 数据来源：本地目录优先，否则使用K线存储
+ */
+export async function loadHistoricalCandles(
+  contract: string,
+  interval: string,
+  startSec: number,
+  endSec: number,
+  source: { dataDir?: string; store?: CandleStore }
+): Promise<BacktestCandle[]> {
+  const timeframe = BACKTEST_TIMEFRAMES[interval];
+  if (!timeframe) {
+    throw new Error(`不支持的K线周期: ${interval}`);
+  }
+
+  const fromSec = startSec - timeframe.lookback * timeframe.seconds;
+
+  let candles: BacktestCandle[];
+  if (source.dataDir) {
+    candles = loadFromFile(contract, interval, source.dataDir);
+  } else if (source.store) {
+    candles = await source.store.loadRange(contract, interval, fromSec, endSec);
+  } else {
+    throw new Error("未指定历史数据来源");
+  }
+
+  const filtered = candles
+    .filter(c => c.timestamp >= fromSec && c.timestamp <= endSec)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  logger.info(`已加载 ${contract} ${interval} K线 ${filtered.length} 根`);
+  return filtered;
+}
+
+/**
+ * 从本地 JSON 文件读取K线
+ */
+function loadFromFile(contract: string, interval: string, dataDir: string): BacktestCandle[] {
+  const file = path.join(dataDir, `${contract}_${interval}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`历史数据文件不存在: ${file}`);
+  }
+
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  return (raw as Array<Record<string, unknown>>).map(normalizeCandle);
+}
@@ -0,0 +1,107 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测命令行入口
+ *
+ * 用法：
+ *   npm run backtest -- --start 2025-01-01 --end 2025-01-07 --strategy balanced --decision ema-cross
+ *
+ * 参数：
+ *   --start / --end       回测时间范围（必填，ISO 日期）
+ *   --strategy            交易策略（默认 TRADING_STRATEGY 或 balanced）
+ *   --symbols             币种列表，逗号分隔（默认 TRADING_SYMBOLS）
+ *   --interval            决策间隔分钟数（默认 TRADING_INTERVAL_MINUTES 或 5）
+ *   --monitor-interval    监控器执行间隔秒数（默认 60）
+ *   --balance             初始资金（默认 INITIAL_BALANCE 或 1000）
+ *   --decision            决策模式 llm | replay | ema-cross | noop（默认 llm）
+ *   --replay-file         replay 模式的录制文件
+ *   --data-dir            本地历史K线目录（不填则读取K线存储，缺失部分从 Gate.io 下载）
+ *   --candle-db           K线存储数据库（默认 DATABASE_URL，与实盘共享）
+ *   --db                  回测数据库（默认 file:./.voltagent/backtest.db）
+ *   --report              报告输出文件（默认 ./backtest-report-<时间>.json）
+ */
+import "dotenv/config";
+import { parseCliArgs } from "../utils/cliUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { type BacktestDecisionMode, runBacktest } from "./backtestEngine";
+
+// 设置时区为中国时间（与主程序一致）
+process.env.TZ = 'Asia/Shanghai';
+
+const logger = createLogger({
+  name: "backtest",
+  level: "info",
+});
+
+function parseDate(value: string | undefined, name: string): Date {
+  const date = value ? new Date(value) : new Date(Number.NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`无效的 --${name} 参数: ${value ?? "(未填写)"}`);
+  }
+  return date;
+}
+
+async function main() {
+  const args = parseCliArgs(process.argv.slice(2));
+
+  const decisionMode = (args.decision || "llm") as BacktestDecisionMode;
+  if (!["llm", "replay", "ema-cross", "noop"].includes(decisionMode)) {
+    throw new Error(`无效的 --decision 参数: ${decisionMode}`);
+  }
+
+  const symbols = (args.symbols || process.env.TRADING_SYMBOLS || "BTC,ETH,SOL,XRP,BNB,BCH")
+    .split(",")
+    .map(s => s.trim().toUpperCase())
+    .filter(s => s.length > 0);
+
+  const report = await runBacktest({
+    strategy: args.strategy || process.env.TRADING_STRATEGY || "balanced",
+    symbols,
+    start: parseDate(args.start, "start"),
+    end: parseDate(args.end, "end"),
+    intervalMinutes: Number.parseInt(args.interval || process.env.TRADING_INTERVAL_MINUTES || "5"),
+    monitorIntervalSeconds: Number.parseInt(args["monitor-interval"] || "60"),
+    initialBalance: Number.parseFloat(args.balance || process.env.INITIAL_BALANCE || "1000"),
+    decisionMode,
+    replayFile: args["replay-file"],
+    dataDir: args["data-dir"],
+    candleDatabaseUrl: args["candle-db"],
+    databaseUrl: args.db || "file:./.voltagent/backtest.db",
+    reportFile: args.report || `./backtest-report-${Date.now()}.json`,
+  });
+
+  // 日志通过异步通道输出，最终结果直接打印到控制台
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("回测结果");
+  console.log("=".repeat(60));
+  console.log(`时间范围: ${report.start} ~ ${report.end}（${report.cycles} 个交易周期）`);
+  console.log(`策略: ${report.strategy}, 决策模式: ${report.decisionMode}`);
+  console.log(`初始资金: ${report.initialBalance} USDT, 最终权益: ${report.finalEquity} USDT`);
+  console.log(`总收益率: ${report.totalReturnPercent}%, 最大回撤: ${report.maxDrawdownPercent}%, 夏普比率: ${report.sharpeRatio}`);
+  console.log(`交易次数: ${report.totalTrades}, 胜率: ${report.winRate}%, 盈利因子: ${report.profitFactor ?? "-"}, 手续费: ${report.totalFees} USDT`);
+  for (const [symbol, stats] of Object.entries(report.bySymbol)) {
+    console.log(`  ${symbol}: ${stats.trades} 笔, 盈利 ${stats.wins} 笔, 盈亏 ${stats.pnl} USDT`);
+  }
+  console.log("=".repeat(60));
+}
+
+main().catch((error) => {
+  logger.error("回测失败:", error);
+  process.exit(1);
+});
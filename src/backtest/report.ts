@@ -0,0 +1,159 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测报告 - 根据回测数据库中的交易记录和账户历史计算绩效指标
+ */
+import { createClient } from "@libsql/client";
+
+/**
+ * 单个币种的交易统计
+ */
+export interface SymbolStats {
+  trades: number;
+  wins: number;
+  pnl: number;
+}
+
+/**
+ * 回测报告
+ */
+export interface BacktestReport {
+  strategy: string;
+  decisionMode: string;
+  symbols: string[];
+  start: string;
+  end: string;
+  intervalMinutes: number;
+  cycles: number;
+  initialBalance: number;
+  finalEquity: number;
+  totalReturnPercent: number;
+  maxDrawdownPercent: number;
+  sharpeRatio: number;
+  totalTrades: number;
+  winRate: number;
+  /** 盈利因子（没有亏损交易时为 null） */
+  profitFactor: number | null;
+  totalFees: number;
+  avgTradePnl: number;
+  bestTrade: number;
+  worstTrade: number;
+  bySymbol: Record<string, SymbolStats>;
+}
+
+/**
+ * 从回测数据库计算报告
+ */
+export async function buildBacktestReport(
+  databaseUrl: string,
+  meta: {
+    strategy: string;
+    decisionMode: string;
+    symbols: string[];
+    start: Date;
+    end: Date;
+    intervalMinutes: number;
+    cycles: number;
+    initialBalance: number;
+  }
+): Promise<BacktestReport> {
+  const dbClient = createClient({ url: databaseUrl });
+
+  const historyResult = await dbClient.execute(
+    "SELECT total_value FROM account_history ORDER BY id ASC"
+  );
+  const equity = historyResult.rows.map((row) => Number(row.total_value ?? 0));
+
+  const closeResult = await dbClient.execute(
+    "SELECT symbol, pnl FROM trades WHERE type = 'close' ORDER BY id ASC"
+  );
+  const feeResult = await dbClient.execute(
+    "SELECT COALESCE(SUM(fee), 0) as total_fee FROM trades"
+  );
+
+  // 最大回撤
+  let peak = meta.initialBalance;
+  let maxDrawdown = 0;
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - value) / peak) * 100);
+    }
+  }
+
+  // 夏普比率（按决策周期收益率计算，年化）
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) {
+      returns.push((equity[i] - equity[i - 1]) / equity[i - 1]);
+    }
+  }
+  let sharpeRatio = 0;
+  if (returns.length > 1) {
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    const std = Math.sqrt(variance);
+    const periodsPerYear = (365 * 24 * 60) / meta.intervalMinutes;
+    sharpeRatio = std > 0 ? (mean / std) * Math.sqrt(periodsPerYear) : 0;
+  }
+
+  // 交易统计
+  const pnls: number[] = [];
+  const bySymbol: Record<string, SymbolStats> = {};
+  for (const row of closeResult.rows) {
+    const symbol = row.symbol as string;
+    const pnl = Number(row.pnl ?? 0);
+    pnls.push(pnl);
+    const stats = bySymbol[symbol] || { trades: 0, wins: 0, pnl: 0 };
+    stats.trades++;
+    if (pnl > 0) {
+      stats.wins++;
+    }
+    stats.pnl = Number.parseFloat((stats.pnl + pnl).toFixed(4));
+    bySymbol[symbol] = stats;
+  }
+
+  const wins = pnls.filter(p => p > 0);
+  const grossProfit = wins.reduce((sum, p) => sum + p, 0);
+  const grossLoss = Math.abs(pnls.filter(p => p < 0).reduce((sum, p) => sum + p, 0));
+  const finalEquity = equity.length > 0 ? equity[equity.length - 1] : meta.initialBalance;
+
+  return {
+    strategy: meta.strategy,
+    decisionMode: meta.decisionMode,
+    symbols: meta.symbols,
+    start: meta.start.toISOString(),
+    end: meta.end.toISOString(),
+    intervalMinutes: meta.intervalMinutes,
+    cycles: meta.cycles,
+    initialBalance: meta.initialBalance,
+    finalEquity: Number.parseFloat(finalEquity.toFixed(4)),
+    totalReturnPercent: Number.parseFloat((((finalEquity - meta.initialBalance) / meta.initialBalance) * 100).toFixed(4)),
+    maxDrawdownPercent: Number.parseFloat(maxDrawdown.toFixed(4)),
+    sharpeRatio: Number.parseFloat(sharpeRatio.toFixed(4)),
+    totalTrades: pnls.length,
+    winRate: pnls.length > 0 ? Number.parseFloat(((wins.length / pnls.length) * 100).toFixed(2)) : 0,
+    profitFactor: grossLoss > 0 ? Number.parseFloat((grossProfit / grossLoss).toFixed(4)) : null,
+    totalFees: Number.parseFloat(Number(feeResult.rows[0]?.total_fee ?? 0).toFixed(4)),
+    avgTradePnl: pnls.length > 0 ? Number.parseFloat((pnls.reduce((sum, p) => sum + p, 0) / pnls.length).toFixed(4)) : 0,
+    bestTrade: pnls.length > 0 ? Math.max(...pnls) : 0,
+    worstTrade: pnls.length > 0 ? Math.min(...pnls) : 0,
+    bySymbol,
+  };
+}
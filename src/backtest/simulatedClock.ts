@@ -0,0 +1,106 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 模拟时钟 - 回测时替换全局 Date
+ *
+ * 交易循环、监控器、风控和数据库记录都通过 Date.now() / new Date() 获取当前时间，
+ * 安装模拟时钟后这些调用全部返回回测时间，无需修改业务代码。
+ *
+ * 注意：模拟时钟只应在独立的回测进程中安装，不要在实盘进程中使用。
+ */
+
+const RealDate = Date;
+const realSetTimeout = globalThis.setTimeout;
+
+export class SimulatedClock {
+  private current: number;
+  private installed = false;
+
+  constructor(startTime: number) {
+    this.current = startTime;
+  }
+
+  /**
+   * 当前模拟时间（毫秒）
+   */
+  now(): number {
+    return this.current;
+  }
+
+  /**
+   * 设置模拟时间（只能向前）
+   */
+  set(time: number): void {
+    if (time < this.current) {
+      throw new Error(`模拟时钟不能回退: ${new RealDate(time).toISOString()} < ${new RealDate(this.current).toISOString()}`);
+    }
+    this.current = time;
+  }
+
+  /**
+   * 推进模拟时间
+   */
+  advance(ms: number): void {
+    this.set(this.current + ms);
+  }
+
+  /**
+   * 安装模拟时钟：替换全局 Date
+   * @param fastTimers 是否让 setTimeout 立即触发（跳过下单后的轮询等待，LLM 模式下不要开启）
+   */
+  install(fastTimers = false): void {
+    if (this.installed) {
+      return;
+    }
+
+    const clock = this;
+    class SimulatedDate extends RealDate {
+      constructor(...args: unknown[]) {
+        if (args.length === 0) {
+          super(clock.current);
+        } else {
+          // @ts-ignore - 透传 Date 构造函数的各种重载
+          super(...args);
+        }
+      }
+
+      static now(): number {
+        return clock.current;
+      }
+    }
+
+    globalThis.Date = SimulatedDate as DateConstructor;
+
+    if (fastTimers) {
+      globalThis.setTimeout = ((handler: (...args: unknown[]) => void, _timeout?: number, ...args: unknown[]) =>
+        realSetTimeout(handler, 0, ...args)) as typeof setTimeout;
+    }
+
+    this.installed = true;
+  }
+
+  /**
+   * 卸载模拟时钟，恢复真实的 Date 和 setTimeout
+   */
+  uninstall(): void {
+    globalThis.Date = RealDate;
+    globalThis.setTimeout = realSetTimeout;
+    this.installed = false;
+  }
+}
@@ -47,14 +47,65 @@ export const RISK_PARAMS = {
   // 极端止损线（单笔亏损百分比，防止爆仓的最后防线）
   EXTREME_STOP_LOSS_PERCENT: Number.parseInt(process.env.EXTREME_STOP_LOSS_PERCENT || '-30', 10),
   
-  // 账户回撤风控阈值
-  // 禁止新开仓的回撤阈值（⚠️ 已禁用 - 相关检查已被注释，不再限制开仓）
+  // 账户回撤风控阈值（账户净值含未实现盈亏，相对 account_history 峰值的回撤百分比，设为 0 关闭对应级别）
+  // 警告提醒的回撤阈值（达到此阈值时，提醒谨慎交易）
+  ACCOUNT_DRAWDOWN_WARNING_PERCENT: Number.parseInt(process.env.ACCOUNT_DRAWDOWN_WARNING_PERCENT || '10', 10),
+  
+  // 缩减仓位的回撤阈值（新开仓金额乘以 ACCOUNT_DRAWDOWN_SIZE_FACTOR）
+  ACCOUNT_DRAWDOWN_REDUCE_SIZE_PERCENT: Number.parseFloat(process.env.ACCOUNT_DRAWDOWN_REDUCE_SIZE_PERCENT || '12'),
+  
+  // 缩减仓位级别下的开仓金额系数
+  ACCOUNT_DRAWDOWN_SIZE_FACTOR: Number.parseFloat(process.env.ACCOUNT_DRAWDOWN_SIZE_FACTOR || '0.5'),
+  
+  // 禁止新开仓的回撤阈值（只允许平仓）
   ACCOUNT_DRAWDOWN_NO_NEW_POSITION_PERCENT: Number.parseInt(process.env.ACCOUNT_DRAWDOWN_NO_NEW_POSITION_PERCENT || '15', 10),
   
-  // 强制平仓的回撤阈值（⚠️ 已禁用 - 相关检查已被注释，不再强制平仓）
+  // 强制平仓的回撤阈值（交易循环平掉所有持仓并停止新开仓）
   ACCOUNT_DRAWDOWN_FORCE_CLOSE_PERCENT: Number.parseInt(process.env.ACCOUNT_DRAWDOWN_FORCE_CLOSE_PERCENT || '20', 10),
   
-  // 警告提醒的回撤阈值（达到此阈值时，提醒谨慎交易）
-  ACCOUNT_DRAWDOWN_WARNING_PERCENT: Number.parseInt(process.env.ACCOUNT_DRAWDOWN_WARNING_PERCENT || '10', 10),
+  // 回撤恢复缓冲（回撤需低于阈值减去缓冲才降级，避免在阈值附近反复切换）
+  ACCOUNT_DRAWDOWN_RECOVERY_BUFFER_PERCENT: Number.parseFloat(process.env.ACCOUNT_DRAWDOWN_RECOVERY_BUFFER_PERCENT || '1'),
+  
+  // 强制平仓后的冷却时间（分钟），到期后以当前净值作为新的峰值重新计算回撤
+  ACCOUNT_DRAWDOWN_FORCE_CLOSE_COOLDOWN_MINUTES: Number.parseInt(process.env.ACCOUNT_DRAWDOWN_FORCE_CLOSE_COOLDOWN_MINUTES || '1440', 10),
+  
+  // 波动率分级阈值（1小时 ATR 占价格的百分比），高于 HIGH 使用策略的 highVolatility 系数，低于 LOW 使用 lowVolatility 系数
+  VOLATILITY_HIGH_ATR_PERCENT: Number.parseFloat(process.env.VOLATILITY_HIGH_ATR_PERCENT || '5'),
+  VOLATILITY_LOW_ATR_PERCENT: Number.parseFloat(process.env.VOLATILITY_LOW_ATR_PERCENT || '2'),
+  
+  // 低流动性时段（UTC 小时，含首尾，格式 "开始-结束"，留空关闭）及该时段的开仓金额系数
+  LOW_LIQUIDITY_HOURS_UTC: process.env.LOW_LIQUIDITY_HOURS_UTC ?? '2-6',
+  LOW_LIQUIDITY_SIZE_FACTOR: Number.parseFloat(process.env.LOW_LIQUIDITY_SIZE_FACTOR || '0.7'),
+  
+  // 周末时段（UTC 周五22:00 - 周日20:00）的开仓金额系数，设为 1 关闭
+  WEEKEND_SIZE_FACTOR: Number.parseFloat(process.env.WEEKEND_SIZE_FACTOR || '0.8'),
+  
+  // 组合风险（VaR/CVaR 基于K线存储的历史收益率计算）
+  // 置信度、K线周期、回看K线数、持有期（K线数，如 1h × 24 = 1 天）、最少样本数
+  PORTFOLIO_VAR_CONFIDENCE: Number.parseFloat(process.env.PORTFOLIO_VAR_CONFIDENCE || '0.95'),
+  PORTFOLIO_VAR_TIMEFRAME: process.env.PORTFOLIO_VAR_TIMEFRAME || '1h',
+  PORTFOLIO_VAR_LOOKBACK: Number.parseInt(process.env.PORTFOLIO_VAR_LOOKBACK || '720', 10),
+  PORTFOLIO_VAR_HORIZON: Number.parseInt(process.env.PORTFOLIO_VAR_HORIZON || '24', 10),
+  PORTFOLIO_VAR_MIN_SAMPLES: Number.parseInt(process.env.PORTFOLIO_VAR_MIN_SAMPLES || '100', 10),
+  // 限额检查使用的 VaR 方法：historical（历史模拟）或 parametric（参数法）
+  PORTFOLIO_VAR_METHOD: (process.env.PORTFOLIO_VAR_METHOD || 'historical') as 'historical' | 'parametric',
+  
+  // 组合风险限额（占账户净值的百分比，0 表示不限制），开仓前在综合风控检查中执行
+  MAX_PORTFOLIO_VAR_PERCENT: Number.parseFloat(process.env.MAX_PORTFOLIO_VAR_PERCENT || '0'),
+  MAX_PORTFOLIO_CVAR_PERCENT: Number.parseFloat(process.env.MAX_PORTFOLIO_CVAR_PERCENT || '0'),
+  MAX_GROSS_EXPOSURE_PERCENT: Number.parseFloat(process.env.MAX_GROSS_EXPOSURE_PERCENT || '0'),
+  MAX_NET_EXPOSURE_PERCENT: Number.parseFloat(process.env.MAX_NET_EXPOSURE_PERCENT || '0'),
+  MAX_SYMBOL_EXPOSURE_PERCENT: Number.parseFloat(process.env.MAX_SYMBOL_EXPOSURE_PERCENT || '0'),
+  MAX_BETA_EXPOSURE_PERCENT: Number.parseFloat(process.env.MAX_BETA_EXPOSURE_PERCENT || '0'),
+  
+  // 相关性风控：与现有持仓同向暴露的相关系数超过警告阈值时提示，超过阻断阈值时禁止开仓
+  CORRELATION_WARNING_THRESHOLD: Number.parseFloat(process.env.CORRELATION_WARNING_THRESHOLD || '0.7'),
+  CORRELATION_BLOCK_THRESHOLD: Number.parseFloat(process.env.CORRELATION_BLOCK_THRESHOLD || '0.85'),
+  
+  // 计算相关性所需的最少对齐样本数（交易周期数）
+  CORRELATION_MIN_SAMPLES: Number.parseInt(process.env.CORRELATION_MIN_SAMPLES || '30', 10),
+  
+  // 技术指标记录（trading_signals）保留天数
+  TRADING_SIGNALS_RETENTION_DAYS: Number.parseInt(process.env.TRADING_SIGNALS_RETENTION_DAYS || '7', 10),
 } as const;
 
@@ -22,7 +22,7 @@
  */
 import { createClient } from "@libsql/client";
 import { createLogger } from "../utils/loggerUtils";
-import { createExchangeClient, getExchangeType } from "../services/exchangeClient";
+import { createExchangeClient, getCloseOrderFlags, getExchangeDisplayName } from "../services/exchangeClient";
 import "dotenv/config";
 
 const logger = createLogger({
@@ -115,7 +115,7 @@ async function closeAllPositions(): Promise<void> {
     logger.info("📊 获取当前持仓...");
     
     const positions = await exchangeClient.getPositions();
-    const activePositions = positions.filter((p: any) => Number.parseInt(p.size || "0") !== 0);
+    const activePositions = positions.filter(p => p.size !== 0);
     
     if (activePositions.length === 0) {
       logger.info("✅ 当前无持仓，跳过平仓");
@@ -125,7 +125,7 @@ async function closeAllPositions(): Promise<void> {
     logger.warn(`⚠️  发现 ${activePositions.length} 个持仓，开始平仓...`);
     
     for (const pos of activePositions) {
-      const size = Number.parseInt(pos.size || "0");
+      const size = pos.size;
       const contract = pos.contract;
       const symbol = contract.replace("_USDT", "");
       const side = size > 0 ? "多头" : "空头";
@@ -138,7 +138,7 @@ async function closeAllPositions(): Promise<void> {
           contract,
           size: -size, // 反向平仓
           price: 0, // 市价单
-          reduceOnly: true, // 只减仓，不开新仓
+          ...getCloseOrderFlags(), // 只平仓，不开新仓
         });
         
         logger.info(`✅ 已平仓: ${symbol} ${side} ${quantity}张`);
@@ -236,8 +236,7 @@ async function syncPositions(): Promise<void> {
   const dbUrl = process.env.DATABASE_URL || "file:./.voltagent/trading.db";
   
   try {
-    const exchangeType = getExchangeType();
-    const exchangeName = exchangeType === "okx" ? "OKX" : "Gate.io";
+    const exchangeName = getExchangeDisplayName();
     logger.info(`🔄 从 ${exchangeName} 同步持仓...`);
     
     const client = createClient({
@@ -246,7 +245,7 @@ async function syncPositions(): Promise<void> {
     
     // 从交易所获取持仓
     const positions = await exchangeClient.getPositions();
-    const activePositions = positions.filter((p: any) => Number.parseInt(p.size || "0") !== 0);
+    const activePositions = positions.filter(p => p.size !== 0);
     
     logger.info(`📊 ${exchangeName} 当前持仓数: ${activePositions.length}`);
     
@@ -259,17 +258,17 @@ async function syncPositions(): Promise<void> {
       logger.info(`🔄 同步 ${activePositions.length} 个持仓到数据库...`);
       
       for (const pos of activePositions) {
-        const size = Number.parseInt(pos.size || "0");
+        const size = pos.size;
         if (size === 0) continue;
         
         const symbol = pos.contract.replace("_USDT", "");
-        const entryPrice = Number.parseFloat(pos.entryPrice || "0");
-        const currentPrice = Number.parseFloat(pos.markPrice || "0");
-        const leverage = Number.parseInt(pos.leverage || "1");
+        const entryPrice = pos.entryPrice;
+        const currentPrice = pos.markPrice;
+        const leverage = pos.leverage || 1;
         const side = size > 0 ? "long" : "short";
         const quantity = Math.abs(size);
-        const pnl = Number.parseFloat(pos.unrealisedPnl || "0");
-        const liqPrice = Number.parseFloat(pos.liqPrice || "0");
+        const pnl = pos.unrealisedPnl;
+        const liqPrice = pos.liqPrice;
         
         await client.execute({
           sql: `INSERT INTO positions 
@@ -333,8 +332,7 @@ async function closeAndReset() {
     logger.info("");
     
     // 步骤3：同步持仓数据
-    const exchangeType = getExchangeType();
-    const exchangeName = exchangeType === "okx" ? "OKX" : "Gate.io";
+    const exchangeName = getExchangeDisplayName();
     logger.info(`【步骤 3/3】从 ${exchangeName} 同步持仓数据`);
     logger.info("-".repeat(80));
     await syncPositions();
@@ -0,0 +1,86 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 下载历史K线到本地K线存储
+ *
+ * 用法：
+ *   npm run db:download-candles -- --days 30
+ *   npm run db:download-candles -- --symbols BTC,ETH --intervals 1m,1h --start 2025-01-01 --end 2025-02-01
+ *
+ * 已存在的区段会被跳过，可重复执行进行增量更新。
+ */
+import "dotenv/config";
+import { CANDLE_INTERVAL_SECONDS, createCandleStore } from "../services/candleStore";
+import { parseCliArgs } from "../utils/cliUtils";
+import { createLogger } from "../utils/loggerUtils";
+
+const logger = createLogger({
+  name: "download-candles",
+  level: "info",
+});
+
+/** 默认下载交易循环使用的全部时间框架 */
+const DEFAULT_INTERVALS = ["1m", "3m", "5m", "15m", "30m", "1h"];
+
+async function downloadCandles() {
+  try {
+    const args = parseCliArgs(process.argv.slice(2));
+
+    const symbols = (args.symbols || process.env.TRADING_SYMBOLS || "BTC,ETH,SOL,XRP,BNB,BCH")
+      .split(",")
+      .map(s => s.trim().toUpperCase())
+      .filter(s => s.length > 0);
+    const intervals = (args.intervals || DEFAULT_INTERVALS.join(","))
+      .split(",")
+      .map(s => s.trim())
+      .filter(s => s.length > 0);
+
+    for (const interval of intervals) {
+      if (!CANDLE_INTERVAL_SECONDS[interval]) {
+        throw new Error(`不支持的K线周期: ${interval}`);
+      }
+    }
+
+    const endSec = args.end ? Math.floor(new Date(args.end).getTime() / 1000) : Math.floor(Date.now() / 1000);
+    const days = Number.parseFloat(args.days || "30");
+    const startSec = args.start ? Math.floor(new Date(args.start).getTime() / 1000) : endSec - days * 86400;
+    if (!Number.isFinite(startSec) || !Number.isFinite(endSec) || startSec >= endSec) {
+      throw new Error(`无效的时间范围: ${args.start ?? "-"} ~ ${args.end ?? "-"}`);
+    }
+
+    logger.info(`📥 下载K线: ${symbols.join(", ")} | 周期: ${intervals.join(", ")}`);
+    logger.info(`   时间范围: ${new Date(startSec * 1000).toISOString()} ~ ${new Date(endSec * 1000).toISOString()}`);
+
+    const store = createCandleStore();
+    let total = 0;
+    for (const symbol of symbols) {
+      for (const interval of intervals) {
+        total += await store.download(`${symbol}_USDT`, interval, startSec, endSec);
+      }
+    }
+
+    logger.info(`✅ 下载完成，共写入 ${total} 根K线`);
+  } catch (error) {
+    logger.error("❌ 下载K线失败:", error);
+    process.exit(1);
+  }
+}
+
+// 执行下载
+downloadCandles();
@@ -44,6 +44,16 @@ async function initDatabase() {
     logger.info("创建数据库表...");
     await client.executeMultiple(CREATE_TABLES_SQL);
 
+    // 旧数据库补充新增字段
+    const tradeColumns = await client.execute("PRAGMA table_info(trades)");
+    const existingTradeColumns = tradeColumns.rows.map(row => row.name as string);
+    for (const column of ["expected_price", "slippage_percent"]) {
+      if (!existingTradeColumns.includes(column)) {
+        await client.execute(`ALTER TABLE trades ADD COLUMN ${column} REAL`);
+        logger.info(`✓ trades 表添加字段: ${column}`);
+      }
+    }
+
     // 检查是否需要重新初始化
     const existingHistory = await client.execute(
       "SELECT COUNT(*) as count FROM account_history"
@@ -67,6 +77,7 @@ async function initDatabase() {
         await client.execute("DELETE FROM account_history");
         await client.execute("DELETE FROM trading_signals");
         await client.execute("DELETE FROM agent_decisions");
+        await client.execute("DELETE FROM position_monitor_state");
         
         logger.info("✅ 旧数据已清空");
       } else {
@@ -33,6 +33,10 @@ export interface Trade {
   fee?: number;
   timestamp: string;
   status: 'pending' | 'filled' | 'cancelled';
+  /** 市价单下单前按订单簿估算的成交价 */
+  expected_price?: number;
+  /** 实际成交价相对下单前盘口中间价的滑点（%，不利方向为正） */
+  slippage_percent?: number;
 }
 
 export interface Position {
@@ -96,6 +100,51 @@ export interface AgentDecision {
   positions_count: number;
 }
 
+export interface DecisionAction {
+  id: number;
+  decision_id: number;
+  symbol: string;
+  action: 'open' | 'close' | 'reduce' | 'hold' | 'wait';
+  side?: 'long' | 'short';
+  leverage?: number;
+  amount_usdt?: number;
+  close_percentage?: number;
+  confidence?: number;
+  rationale: string;
+  source: 'ai' | 'tool-calls';
+}
+
+export interface AgentToolCall {
+  id: number;
+  decision_id: number;
+  step_index: number;
+  tool_call_id: string;
+  tool_name: string;
+  symbol?: string;
+  arguments: string; // JSON
+  result: string; // JSON
+  success: number; // 0/1
+  timestamp: string;
+}
+
+export interface LlmUsage {
+  id: number;
+  timestamp: string;
+  iteration?: number;
+  cycle_id?: string;
+  decision_id?: number;
+  role: string;
+  agent_name?: string;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd?: number; // 未配置模型单价时为空
+  success: number; // 0/1
+  error?: string;
+}
+
 export interface SystemConfig {
   id: number;
   key: string;
@@ -109,8 +158,71 @@ export interface CircuitBreakerLog {
   triggered_at: string;
   resume_at: string;
   status: 'active' | 'expired' | 'manually_reset';
+  severity_level?: number;
+  cooldown_until?: string;
+  trigger_type?: string; // 触发规则的统计指标
+  trigger_details?: string; // JSON
+  rule_id?: string; // 触发的熔断规则ID
+}
+
+export interface DrawdownGuardLog {
+  id: number;
+  timestamp: string;
+  from_level: string;
+  to_level: string;
+  equity: number; // 账户净值（含未实现盈亏）
+  peak_equity: number;
+  drawdown_percent: number;
+  action: string; // level_change / force_close / peak_reset
+  reason?: string;
+}
+
+export interface PositionMonitorState {
+  symbol: string;
+  side: 'long' | 'short';
+  entry_price: number;
+  peak_pnl_percent: number; // 峰值盈利百分比（考虑杠杆）
+  peak_price?: number; // 峰值盈利时的价格
+  exchange_stop_at?: number; // 交易所止损条件单已移动到的止损线
+  last_partial_stage?: string; // 最近一次执行的分批止盈阶段
+  partial_close_percent: number; // 分批止盈累计平仓比例 (0-100)
+  check_count: number;
+  pending_close?: string; // JSON，下单后尚未记账完成的平仓
+  updated_at: string;
+}
+
+export interface Candle {
+  exchange: string; // 行情来源（交易所）
+  contract: string;
+  interval: string;
+  t: number; // K线开始时间（秒）
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  sum: number;
 }
 
+/**
+ * K线存储表建表语句（按行情来源区分，只保存已收盘的K线）
+ */
+export const CREATE_CANDLES_TABLE_SQL = `
+CREATE TABLE IF NOT EXISTS candles (
+  exchange TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  interval TEXT NOT NULL,
+  t INTEGER NOT NULL,
+  o REAL NOT NULL,
+  h REAL NOT NULL,
+  l REAL NOT NULL,
+  c REAL NOT NULL,
+  v REAL NOT NULL,
+  sum REAL NOT NULL DEFAULT 0,
+  PRIMARY KEY (exchange, contract, interval, t)
+);
+`;
+
 /**
  * SQL 建表语句
  */
@@ -128,7 +240,9 @@ CREATE TABLE IF NOT EXISTS trades (
   pnl REAL,
   fee REAL,
   timestamp TEXT NOT NULL,
-  status TEXT NOT NULL DEFAULT 'pending'
+  status TEXT NOT NULL DEFAULT 'pending',
+  expected_price REAL,
+  slippage_percent REAL
 );
 
 -- 持仓表
@@ -196,6 +310,54 @@ CREATE TABLE IF NOT EXISTS agent_decisions (
   positions_count INTEGER NOT NULL
 );
 
+-- 决策意图表（AI 输出的结构化决策）
+CREATE TABLE IF NOT EXISTS decision_actions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  decision_id INTEGER NOT NULL,
+  symbol TEXT NOT NULL,
+  action TEXT NOT NULL,
+  side TEXT,
+  leverage REAL,
+  amount_usdt REAL,
+  close_percentage REAL,
+  confidence REAL,
+  rationale TEXT NOT NULL DEFAULT '',
+  source TEXT NOT NULL DEFAULT 'ai'
+);
+
+-- 工具调用记录表（实际执行的操作）
+CREATE TABLE IF NOT EXISTS agent_tool_calls (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  decision_id INTEGER NOT NULL,
+  step_index INTEGER NOT NULL,
+  tool_call_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  symbol TEXT,
+  arguments TEXT NOT NULL,
+  result TEXT NOT NULL,
+  success INTEGER NOT NULL,
+  timestamp TEXT NOT NULL
+);
+
+-- 模型调用用量表（token、延迟、估算成本）
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  iteration INTEGER,
+  cycle_id TEXT,
+  decision_id INTEGER,
+  role TEXT NOT NULL,
+  agent_name TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  cost_usd REAL,
+  success INTEGER NOT NULL,
+  error TEXT
+);
+
 -- 系统配置表
 CREATE TABLE IF NOT EXISTS system_config (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -210,16 +372,60 @@ CREATE TABLE IF NOT EXISTS circuit_breaker_log (
   reason TEXT NOT NULL,
   triggered_at TEXT NOT NULL,
   resume_at TEXT NOT NULL,
-  status TEXT NOT NULL DEFAULT 'active'
+  status TEXT NOT NULL DEFAULT 'active',
+  severity_level INTEGER DEFAULT 1,
+  cooldown_until TEXT,
+  trigger_type TEXT,
+  trigger_details TEXT,
+  rule_id TEXT
+);
+
+-- 账户回撤保护日志表（级别变化、强制平仓、峰值重置）
+CREATE TABLE IF NOT EXISTS drawdown_guard_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  from_level TEXT NOT NULL,
+  to_level TEXT NOT NULL,
+  equity REAL NOT NULL,
+  peak_equity REAL NOT NULL,
+  drawdown_percent REAL NOT NULL,
+  action TEXT NOT NULL,
+  reason TEXT
+);
+
+-- 持仓监控状态表（峰值盈利、分批止盈阶段、未完成的平仓，重启后恢复）
+CREATE TABLE IF NOT EXISTS position_monitor_state (
+  symbol TEXT PRIMARY KEY,
+  side TEXT NOT NULL,
+  entry_price REAL NOT NULL,
+  peak_pnl_percent REAL NOT NULL DEFAULT 0,
+  peak_price REAL,
+  exchange_stop_at REAL,
+  last_partial_stage TEXT,
+  partial_close_percent REAL NOT NULL DEFAULT 0,
+  check_count INTEGER NOT NULL DEFAULT 0,
+  pending_close TEXT,
+  updated_at TEXT NOT NULL
 );
 
+-- K线存储表
+${CREATE_CANDLES_TABLE_SQL}
 -- 创建索引
 CREATE INDEX IF NOT EXISTS idx_trades_timestamp ON trades(timestamp);
 CREATE INDEX IF NOT EXISTS idx_trades_symbol ON trades(symbol);
 CREATE INDEX IF NOT EXISTS idx_signals_timestamp ON trading_signals(timestamp);
 CREATE INDEX IF NOT EXISTS idx_signals_symbol ON trading_signals(symbol);
+CREATE INDEX IF NOT EXISTS idx_signals_symbol_timestamp ON trading_signals(symbol, timestamp);
 CREATE INDEX IF NOT EXISTS idx_history_timestamp ON account_history(timestamp);
 CREATE INDEX IF NOT EXISTS idx_decisions_timestamp ON agent_decisions(timestamp);
+CREATE INDEX IF NOT EXISTS idx_decision_actions_decision ON decision_actions(decision_id);
+CREATE INDEX IF NOT EXISTS idx_decision_actions_symbol ON decision_actions(symbol);
+CREATE INDEX IF NOT EXISTS idx_tool_calls_decision ON agent_tool_calls(decision_id);
+CREATE INDEX IF NOT EXISTS idx_tool_calls_name ON agent_tool_calls(tool_name);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_timestamp ON llm_usage(timestamp);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_cycle ON llm_usage(cycle_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_decision ON llm_usage(decision_id);
 CREATE INDEX IF NOT EXISTS idx_circuit_breaker_status ON circuit_breaker_log(status, triggered_at);
+CREATE INDEX IF NOT EXISTS idx_drawdown_guard_timestamp ON drawdown_guard_log(timestamp);
 `;
 
@@ -40,9 +40,9 @@ async function syncFromGate() {
     const exchangeClient = createExchangeClient();
     const account = await exchangeClient.getFuturesAccount();
     
-    const accountTotal = Number.parseFloat(account.total || "0");
-    const availableBalance = Number.parseFloat(account.available || "0");
-    const unrealizedPnl = Number.parseFloat(account.unrealisedPnl || "0");
+    const accountTotal = account.total;
+    const availableBalance = account.available;
+    const unrealizedPnl = account.unrealisedPnl;
     
     // Gate.io 的 account.total 不包含未实现盈亏
     // 真实总资产 = account.total + unrealisedPnl
@@ -56,16 +56,16 @@ async function syncFromGate() {
     
     // 2. 获取持仓信息
     const positions = await exchangeClient.getPositions();
-    const activePositions = positions.filter(p => Number.parseInt(p.size || "0") !== 0);
+    const activePositions = positions.filter(p => p.size !== 0);
     logger.info(`   当前持仓数: ${activePositions.length}`);
     
     if (activePositions.length > 0) {
       logger.info(`\n   持仓详情:`);
       for (const pos of activePositions) {
-        const size = Number.parseInt(pos.size || "0");
+        const size = pos.size;
         const symbol = pos.contract.replace("_USDT", "");
         const side = size > 0 ? "做多" : "做空";
-        const pnl = Number.parseFloat(pos.unrealisedPnl || "0");
+        const pnl = pos.unrealisedPnl;
         logger.info(`     ${symbol}: ${Math.abs(size)} 张 (${side}) | 盈亏: ${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT`);
       }
     }
@@ -124,17 +124,17 @@ async function syncFromGate() {
       logger.info(`\n🔄 同步 ${activePositions.length} 个持仓到数据库...`);
       
       for (const pos of activePositions) {
-        const size = Number.parseInt(pos.size || "0");
+        const size = pos.size;
         if (size === 0) continue;
         
         const symbol = pos.contract.replace("_USDT", "");
-        const entryPrice = Number.parseFloat(pos.entryPrice || "0");
-        const currentPrice = Number.parseFloat(pos.markPrice || "0");
-        const leverage = Number.parseInt(pos.leverage || "1");
+        const entryPrice = pos.entryPrice;
+        const currentPrice = pos.markPrice;
+        const leverage = pos.leverage || 1;
         const side = size > 0 ? "long" : "short";
         const quantity = Math.abs(size);
-        const pnl = Number.parseFloat(pos.unrealisedPnl || "0");
-        const liqPrice = Number.parseFloat(pos.liqPrice || "0");
+        const pnl = pos.unrealisedPnl;
+        const liqPrice = pos.liqPrice;
         
         // 生成占位符 order_id
         const entryOrderId = `synced-${symbol}-${Date.now()}`;
@@ -23,7 +23,7 @@
 import "dotenv/config";
 import { createClient } from "@libsql/client";
 import { createLogger } from "../utils/loggerUtils";
-import { createExchangeClient, getExchangeType } from "../services/exchangeClient";
+import { createExchangeClient, getExchangeDisplayName } from "../services/exchangeClient";
 
 const logger = createLogger({
   name: "sync-positions",
@@ -32,8 +32,7 @@ const logger = createLogger({
 
 async function syncPositionsOnly() {
   try {
-    const exchangeType = getExchangeType();
-    const exchangeName = exchangeType === "okx" ? "OKX" : "Gate.io";
+    const exchangeName = getExchangeDisplayName();
     logger.info(`🔄 从 ${exchangeName} 同步持仓...`);
     
     // 1. 连接数据库
@@ -79,7 +78,7 @@ async function syncPositionsOnly() {
     // 3. 从交易所获取持仓
     const exchangeClient = createExchangeClient();
     const positions = await exchangeClient.getPositions();
-    const activePositions = positions.filter(p => Number.parseInt(p.size || "0") !== 0);
+    const activePositions = positions.filter(p => p.size !== 0);
     
     logger.info(`\n📊 ${exchangeName} 当前持仓数: ${activePositions.length}`);
     
@@ -92,17 +91,17 @@ async function syncPositionsOnly() {
       logger.info(`\n🔄 同步 ${activePositions.length} 个持仓到数据库...`);
       
       for (const pos of activePositions) {
-        const size = Number.parseInt(pos.size || "0");
+        const size = pos.size;
         if (size === 0) continue;
         
         const symbol = pos.contract.replace("_USDT", "");
-        const entryPrice = Number.parseFloat(pos.entryPrice || "0");
-        const currentPrice = Number.parseFloat(pos.markPrice || "0");
-        const leverage = Number.parseInt(pos.leverage || "1");
+        const entryPrice = pos.entryPrice;
+        const currentPrice = pos.markPrice;
+        const leverage = pos.leverage || 1;
         const side = size > 0 ? "long" : "short";
         const quantity = Math.abs(size);
-        const pnl = Number.parseFloat(pos.unrealisedPnl || "0");
-        const liqPrice = Number.parseFloat(pos.liqPrice || "0");
+        const pnl = pos.unrealisedPnl;
+        const liqPrice = pos.liqPrice;
         
         await client.execute({
           sql: `INSERT INTO positions 
@@ -22,12 +22,12 @@ import { serve } from "@hono/node-server";
 import { createApiRoutes } from "./api/routes";
 import { startTradingLoop, initTradingSystem } from "./scheduler/tradingLoop";
 import { startAccountRecorder } from "./scheduler/accountRecorder";
-import { startTrailingStopMonitor, stopTrailingStopMonitor } from "./scheduler/trailingStopMonitor";
-import { startStopLossMonitor, stopStopLossMonitor } from "./scheduler/stopLossMonitor";
-import { startPartialProfitMonitor, stopPartialProfitMonitor } from "./scheduler/partialProfitMonitor";
+import { startPositionSupervisor, stopPositionSupervisor } from "./scheduler/positionSupervisor";
 import { initDatabase } from "./database/init";
 import { RISK_PARAMS } from "./config/riskParams";
-import { getStrategyParams, getTradingStrategy } from "./agents/tradingAgent";
+import { getStrategyParams, getTradingStrategy, getTradingIntervalMinutes } from "./agents/tradingAgent";
+import { formatTakeProfitStages, formatTrailingStopLevels, loadStrategyPlugins, watchStrategyPlugins } from "./strategies";
+import { getRoleModelChain } from "./agents/modelRouter";
 import { initializeTerminalEncoding} from "./utils/encodingUtils";
 
 // 设置时区为中国时间（Asia/Shanghai，UTC+8）
@@ -51,6 +51,13 @@ let server: any = null;
 async function main() {
   logger.info("启动 AI 加密货币自动交易系统");
   
+  // 0. 加载策略目录中的自定义策略（必须在读取交易策略之前），声明式策略文件修改后自动重新加载
+  const pluginCount = await loadStrategyPlugins();
+  if (pluginCount > 0) {
+    logger.info(`已加载 ${pluginCount} 个自定义策略`);
+  }
+  watchStrategyPlugins();
+  
   // 1. 初始化数据库
   logger.info("初始化数据库...");
   await initDatabase();
@@ -80,17 +87,9 @@ async function main() {
   logger.info("启动账户资产记录器...");
   startAccountRecorder();
   
-  // 6. 启动移动止盈监控器（每10秒检查一次）
-  logger.info("启动移动止盈监控器...");
-  startTrailingStopMonitor();
-  
-  // 7. 启动止损监控器（每10秒检查一次）
-  logger.info("启动止损监控器...");
-  startStopLossMonitor();
-  
-  // 8. 启动分批止盈监控器（每10秒检查一次）
-  logger.info("启动分批止盈监控器...");
-  startPartialProfitMonitor();
+  // 6. 启动持仓监督器（止损、移动止盈、分批止盈、最大持仓时间）
+  logger.info("启动持仓监督器...");
+  startPositionSupervisor();
   
   const strategy = getTradingStrategy();
   const params = getStrategyParams(strategy);
@@ -108,7 +107,8 @@ async function main() {
                          ' (AI主导控制)';
   
   logger.info(`交易策略: ${params.name}${protectionMode}`);
-  logger.info(`交易间隔: ${process.env.TRADING_INTERVAL_MINUTES || 5} 分钟`);
+  logger.info(`交易间隔: ${getTradingIntervalMinutes()} 分钟`);
+  logger.info(`交易模型: ${getRoleModelChain("trading").join(" → ")}`);
   logger.info(`账户记录间隔: ${process.env.ACCOUNT_RECORD_INTERVAL_MINUTES || 10} 分钟`);
   
   if (isCodeLevelEnabled) {
@@ -118,20 +118,16 @@ async function main() {
     const lowThreshold = Math.ceil(levMin + (levMax - levMin) * 0.33);
     const midThreshold = Math.ceil(levMin + (levMax - levMin) * 0.67);
     
-    logger.info(`\n📊 代码级移动止盈监控（每10秒检查）:`);
-    logger.info(`  • Level 1: 峰值达到 ${params.trailingStop.level1.trigger}% 时，回落至 ${params.trailingStop.level1.stopAt}% 平仓`);
-    logger.info(`  • Level 2: 峰值达到 ${params.trailingStop.level2.trigger}% 时，回落至 ${params.trailingStop.level2.stopAt}% 平仓`);
-    logger.info(`  • Level 3: 峰值达到 ${params.trailingStop.level3.trigger}% 时，回落至 ${params.trailingStop.level3.stopAt}% 平仓`);
+    logger.info(`\n📊 代码级移动止盈监控（持仓监督器，价格驱动）:`);
+    logger.info(formatTrailingStopLevels(params.trailingStop, "  • "));
     
-    logger.info(`\n🛡️ 代码级自动止损监控（每10秒检查）:`);
+    logger.info(`\n🛡️ 代码级自动止损监控（持仓监督器，价格驱动）:`);
     logger.info(`  • ${levMin}-${lowThreshold}倍杠杆，亏损 ${params.stopLoss.low}% 时止损`);
     logger.info(`  • ${lowThreshold + 1}-${midThreshold}倍杠杆，亏损 ${params.stopLoss.mid}% 时止损`);
     logger.info(`  • ${midThreshold + 1}倍以上杠杆，亏损 ${params.stopLoss.high}% 时止损`);
     
-    logger.info(`\n💰 代码级分批止盈监控（每10秒检查）:`);
-    logger.info(`  • Stage 1: 盈利达到 ${params.partialTakeProfit.stage1.trigger}% 时，平仓 ${params.partialTakeProfit.stage1.closePercent}%`);
-    logger.info(`  • Stage 2: 盈利达到 ${params.partialTakeProfit.stage2.trigger}% 时，平仓 ${params.partialTakeProfit.stage2.closePercent}%`);
-    logger.info(`  • Stage 3: 盈利达到 ${params.partialTakeProfit.stage3.trigger}% 时，平仓 ${params.partialTakeProfit.stage3.closePercent}%`);
+    logger.info(`\n💰 代码级分批止盈监控（持仓监督器，价格驱动）:`);
+    logger.info(formatTakeProfitStages(params.partialTakeProfit, "  • "));
     
     // 如果是双重防护模式，添加特别说明
     if (isDualProtection) {
@@ -167,15 +163,9 @@ async function gracefulShutdown(signal: string) {
   logger.info(`\n\n收到 ${signal} 信号，正在关闭系统...`);
   
   try {
-    // 停止移动止盈监控器
-    logger.info("正在停止移动止盈监控器...");
-    stopTrailingStopMonitor();
-    logger.info("移动止盈监控器已停止");
-    
-    // 停止止损监控器
-    logger.info("正在停止止损监控器...");
-    stopStopLossMonitor();
-    logger.info("止损监控器已停止");
+    // 停止持仓监督器
+    logger.info("正在停止持仓监督器...");
+    stopPositionSupervisor();
     
     // 关闭服务器
     if (server) {
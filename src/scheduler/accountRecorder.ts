@@ -23,7 +23,8 @@
 import cron from "node-cron";
 import { createLogger } from "../utils/loggerUtils";
 import { createClient } from "@libsql/client";
-import { createExchangeClient } from "../services/exchangeClient";
+import { createExchangeClient, getAccountEquity } from "../services/exchangeClient";
+import { runWithRequestPriority } from "../services/rateLimiter";
 import { getChinaTimeISO } from "../utils/timeUtils";
 
 const logger = createLogger({
@@ -50,12 +51,11 @@ export async function recordAccountAssets(skipLog: boolean = false) {
     // Extract account data
     // Gate.io 的 account.total 不包含未实现盈亏
     // 需要主动加上 unrealisedPnl 才是真实的总资产
-    const accountTotal = Number.parseFloat(account.total || "0");
-    const availableBalance = Number.parseFloat(account.available || "0");
-    const unrealisedPnl = Number.parseFloat(account.unrealisedPnl || "0");
+    const availableBalance = account.available;
+    const unrealisedPnl = account.unrealisedPnl;
     
     // Total balance = account.total + unrealisedPnl (包含未实现盈亏的总资产)
-    const totalBalance = accountTotal + unrealisedPnl;
+    const totalBalance = getAccountEquity(account);
     
     // Get initial balance from database
     const initialResult = await dbClient.execute(
@@ -105,6 +105,7 @@ export async function recordAccountAssets(skipLog: boolean = false) {
 /**
  * Start account recorder
  * 启动账户资产记录器
+ * 账户记录用于回撤和净值峰值检查，按持仓监督器的优先级请求交易所，不会被看板查询挤占或排队超时
  */
 export function startAccountRecorder() {
   const intervalMinutes = Number.parseInt(
@@ -114,12 +115,12 @@ export function startAccountRecorder() {
   logger.info(`Starting account recorder, interval: ${intervalMinutes} minutes`);
   
   // Execute immediately on startup
-  recordAccountAssets();
+  runWithRequestPriority("monitor", () => recordAccountAssets());
   
   // Schedule periodic recording
   const cronExpression = `*/${intervalMinutes} * * * *`;
   cron.schedule(cronExpression, () => {
-    recordAccountAssets();
+    runWithRequestPriority("monitor", () => recordAccountAssets());
   });
   
   logger.info(`Account recorder scheduled: ${cronExpression}`);
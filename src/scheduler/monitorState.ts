@@ -0,0 +1,403 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 持仓监控状态持久化（供持仓监督器及各规则模块使用）
+ *
+ * 监控状态保存在 position_monitor_state 表，进程重启（pm2 restart、崩溃）后从数据库恢复：
+ * - 峰值盈利、峰值价格：移动止盈不会因重启而以当前盈利重新计峰
+ * - 交易所止损线：不会重复移动交易所止损条件单
+ * - 分批止盈阶段和累计平仓比例：已执行的阶段不会重复触发
+ * - 检查次数
+ * - 未完成的平仓：下单前写入，全部成交并记账后清除；进程中断或未全部成交时保留，由持仓监督器按交易所实际持仓核对并继续平仓
+ *
+ * 状态按持仓识别（币种 + 方向 + 开仓均价），同一币种的新持仓从全新状态开始
+ * 账户净值峰值和检查次数保存在 system_config 表
+ */
+import { type Row, createClient } from "@libsql/client";
+import type { OrderExecutionResult } from "../services/orderExecution";
+import { cancelProtectiveOrders } from "../services/protectiveOrders";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { getChinaTimeISO } from "../utils/timeUtils";
+
+const logger = createLogger({
+  name: "monitor-state",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/** 账户净值监控状态在 system_config 中的键 */
+const ACCOUNT_PEAK_KEY = "monitor_account_peak_balance";
+const ACCOUNT_CHECK_COUNT_KEY = "monitor_account_check_count";
+
+/**
+ * 触发平仓的规则
+ */
+export type MonitorCloseRule = "stop_loss" | "trailing_stop" | "partial_profit" | "max_holding_time";
+
+/**
+ * 未完成的平仓（下单后、记账完成前进程中断时留在数据库中）
+ */
+export interface PendingClose {
+  rule: MonitorCloseRule;
+  /** 平仓原因（继续平仓时写入决策记录） */
+  reason: string;
+  /** 分批止盈阶段 */
+  stage?: string;
+  /** 分批止盈完成后的累计平仓比例 */
+  totalClosedPercent?: number;
+  /** 下单前的持仓张数，用于判断订单是否已经成交 */
+  quantityBefore: number;
+  /** 已下达的订单ID */
+  orderIds: string[];
+  startedAt: string;
+}
+
+/**
+ * 单个持仓的监控状态
+ */
+export interface MonitorState {
+  symbol: string;
+  side: "long" | "short";
+  entryPrice: number;
+  /** 峰值盈利百分比（考虑杠杆） */
+  peakPnlPercent: number;
+  /** 峰值盈利时的价格 */
+  peakPrice: number;
+  /** 交易所止损条件单已移动到的止损线 */
+  exchangeStopAt?: number;
+  /** 最近一次执行的分批止盈阶段 */
+  lastPartialStage?: string;
+  /** 分批止盈累计平仓比例 */
+  partialClosePercent: number;
+  /** 检查次数，用于日志 */
+  checkCount: number;
+  pendingClose?: PendingClose;
+}
+
+/**
+ * 初始化监控状态所需的持仓信息
+ */
+interface MonitoredPosition {
+  symbol: string;
+  side: "long" | "short";
+  entryPrice: number;
+  currentPrice: number;
+  pnlPercent: number;
+  /** 数据库 positions 表记录的峰值盈利 */
+  peakPnlPercent?: number;
+  partialClosePercent: number;
+}
+
+// 内存缓存：symbol -> state（首次使用时从数据库加载）
+const stateCache = new Map<string, MonitorState>();
+let loaded = false;
+// 正在进行的加载（避免启动时并发重复加载）
+let loading: Promise<number> | null = null;
+
+/**
+ * 从数据库行解析监控状态
+ */
+function parseState(row: Row): MonitorState {
+  let pendingClose: PendingClose | undefined;
+  if (row.pending_close) {
+    try {
+      pendingClose = JSON.parse(row.pending_close as string);
+    } catch (error) {
+      logger.warn(`${row.symbol} 未完成平仓记录解析失败，已忽略: ${getErrorMessage(error)}`);
+    }
+  }
+  
+  return {
+    symbol: row.symbol as string,
+    side: row.side === "short" ? "short" : "long",
+    entryPrice: Number(row.entry_price),
+    peakPnlPercent: Number(row.peak_pnl_percent || 0),
+    peakPrice: Number(row.peak_price || 0),
+    exchangeStopAt: row.exchange_stop_at === null || row.exchange_stop_at === undefined ? undefined : Number(row.exchange_stop_at),
+    lastPartialStage: row.last_partial_stage ? String(row.last_partial_stage) : undefined,
+    partialClosePercent: Number(row.partial_close_percent || 0),
+    checkCount: Number(row.check_count || 0),
+    pendingClose,
+  };
+}
+
+/**
+ * 判断监控状态是否属于当前持仓（方向和开仓均价一致）
+ */
+function isSamePosition(state: MonitorState, position: MonitoredPosition): boolean {
+  if (state.side !== position.side) {
+    return false;
+  }
+  const tolerance = Math.max(Math.abs(position.entryPrice) * 1e-6, 1e-12);
+  return Math.abs(state.entryPrice - position.entryPrice) <= tolerance;
+}
+
+/**
+ * 从数据库加载全部监控状态（启动时调用，重复调用直接返回）
+ * @returns 恢复的持仓数量
+ */
+export async function loadMonitorStates(): Promise<number> {
+  if (loaded) {
+    return stateCache.size;
+  }
+  if (!loading) {
+    loading = readMonitorStates().finally(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
+
+/**
+ * 从数据库读取全部监控状态到内存缓存
+ */
+async function readMonitorStates(): Promise<number> {
+  const result = await dbClient.execute("SELECT * FROM position_monitor_state");
+  stateCache.clear();
+  for (const row of result.rows) {
+    const state = parseState(row);
+    stateCache.set(state.symbol, state);
+    logger.info(
+      `恢复 ${state.symbol} 监控状态: 峰值盈利 ${state.peakPnlPercent.toFixed(2)}%` +
+      `${state.lastPartialStage ? `，分批止盈已执行至 ${state.lastPartialStage}（${state.partialClosePercent}%）` : ""}` +
+      `${state.pendingClose ? `，存在未完成的平仓（${state.pendingClose.reason}）` : ""}`
+    );
+  }
+  loaded = true;
+  
+  return stateCache.size;
+}
+
+/**
+ * 保存监控状态
+ */
+export async function saveMonitorState(state: MonitorState): Promise<void> {
+  await dbClient.execute({
+    sql: `INSERT OR REPLACE INTO position_monitor_state
+          (symbol, side, entry_price, peak_pnl_percent, peak_price, exchange_stop_at, last_partial_stage,
+           partial_close_percent, check_count, pending_close, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      state.symbol,
+      state.side,
+      state.entryPrice,
+      state.peakPnlPercent,
+      state.peakPrice,
+      state.exchangeStopAt ?? null,
+      state.lastPartialStage ?? null,
+      state.partialClosePercent,
+      state.checkCount,
+      state.pendingClose ? JSON.stringify(state.pendingClose) : null,
+      getChinaTimeISO(),
+    ],
+  });
+}
+
+/**
+ * 获取持仓的监控状态
+ * 数据库中没有记录或记录属于已平掉的旧持仓时，以当前盈利和 positions 表的峰值创建新状态
+ */
+export async function getMonitorState(position: MonitoredPosition): Promise<MonitorState> {
+  await loadMonitorStates();
+  
+  const existing = stateCache.get(position.symbol);
+  if (existing && isSamePosition(existing, position)) {
+    return existing;
+  }
+  
+  if (existing) {
+    logger.info(`${position.symbol} 持仓已变化（${existing.side} @ ${existing.entryPrice} → ${position.side} @ ${position.entryPrice}），重置监控状态`);
+  }
+  
+  const storedPeak = position.peakPnlPercent ?? Number.NEGATIVE_INFINITY;
+  const state: MonitorState = {
+    symbol: position.symbol,
+    side: position.side,
+    entryPrice: position.entryPrice,
+    peakPnlPercent: Math.max(position.pnlPercent, storedPeak),
+    peakPrice: position.currentPrice,
+    partialClosePercent: position.partialClosePercent,
+    checkCount: 0,
+  };
+  stateCache.set(position.symbol, state);
+  await saveMonitorState(state);
+  
+  return state;
+}
+
+/**
+ * 记录即将执行的平仓（下单前调用）
+ */
+export async function markPendingClose(
+  symbol: string,
+  pending: Omit<PendingClose, "orderIds" | "startedAt">
+): Promise<void> {
+  const state = stateCache.get(symbol);
+  if (!state) {
+    return;
+  }
+  
+  state.pendingClose = { ...pending, orderIds: [], startedAt: getChinaTimeISO() };
+  await saveMonitorState(state);
+}
+
+/**
+ * 记录未完成平仓已下达的订单ID
+ */
+export async function addPendingOrderId(symbol: string, orderId: string): Promise<void> {
+  const state = stateCache.get(symbol);
+  if (!state?.pendingClose) {
+    return;
+  }
+  
+  state.pendingClose.orderIds.push(orderId);
+  await saveMonitorState(state);
+}
+
+/**
+ * 清除未完成的平仓记录
+ */
+export async function clearPendingClose(symbol: string): Promise<void> {
+  const state = stateCache.get(symbol);
+  if (!state?.pendingClose) {
+    return;
+  }
+  
+  state.pendingClose = undefined;
+  await saveMonitorState(state);
+}
+
+/**
+ * 记录已完成的分批止盈阶段，并清除未完成的平仓记录
+ */
+export async function completePartialStage(symbol: string, stage: string, totalClosedPercent: number): Promise<void> {
+  const state = stateCache.get(symbol);
+  if (!state) {
+    return;
+  }
+  
+  state.lastPartialStage = stage;
+  state.partialClosePercent = Math.max(state.partialClosePercent, totalClosedPercent);
+  state.pendingClose = undefined;
+  await saveMonitorState(state);
+}
+
+/**
+ * 删除持仓的监控状态（持仓已全部平仓）
+ */
+export async function deleteMonitorState(symbol: string): Promise<void> {
+  stateCache.delete(symbol);
+  await dbClient.execute({
+    sql: "DELETE FROM position_monitor_state WHERE symbol = ?",
+    args: [symbol],
+  });
+}
+
+/**
+ * 全部平仓类规则（止损、移动止盈、最大持仓时间）下单后的收尾
+ * - 全部成交：撤销交易所条件单，删除持仓记录和监控状态
+ * - 未全部成交（拆分下单中途失败、订单状态未确认）：剩余数量写回 positions，
+ *   保留交易所条件单和未完成的平仓记录，下一次轮询由持仓监督器继续平仓
+ * @param quantityBefore 平仓前的持仓数量
+ * @returns 剩余未平的数量
+ */
+export async function settleFullClose(
+  symbol: string,
+  quantityBefore: number,
+  execution: Pick<OrderExecutionResult, "complete" | "filledSize">
+): Promise<number> {
+  if (execution.complete) {
+    await cancelProtectiveOrders(symbol);
+    await dbClient.execute({
+      sql: "DELETE FROM positions WHERE symbol = ?",
+      args: [symbol],
+    });
+    await deleteMonitorState(symbol);
+    return 0;
+  }
+  
+  const remaining = Number(Math.max(0, quantityBefore - execution.filledSize).toFixed(8));
+  await dbClient.execute({
+    sql: "UPDATE positions SET quantity = ? WHERE symbol = ?",
+    args: [remaining, symbol],
+  });
+  logger.warn(`${symbol} 平仓未全部成交（${execution.filledSize}/${quantityBefore}），剩余 ${remaining} 保留条件单，下一次轮询继续平仓`);
+  return remaining;
+}
+
+/**
+ * 删除已不在持仓中的币种的监控状态
+ * @param activeSymbols 交易所当前持仓的币种
+ */
+export async function pruneMonitorStates(activeSymbols: Set<string>): Promise<void> {
+  if (!loaded) {
+    return;
+  }
+  
+  for (const symbol of [...stateCache.keys()]) {
+    if (!activeSymbols.has(symbol)) {
+      await deleteMonitorState(symbol);
+      logger.debug(`清理已平仓的监控状态: ${symbol}`);
+    }
+  }
+}
+
+/**
+ * 清空内存缓存（不删除数据库记录，下次使用时重新从数据库加载）
+ */
+export function resetMonitorStateCache(): void {
+  stateCache.clear();
+  loaded = false;
+}
+
+/**
+ * 读取账户净值监控状态
+ * @returns 峰值为 0 表示没有记录
+ */
+export async function loadAccountMonitorState(): Promise<{ peakBalance: number; checkCount: number }> {
+  const result = await dbClient.execute({
+    sql: "SELECT key, value FROM system_config WHERE key IN (?, ?)",
+    args: [ACCOUNT_PEAK_KEY, ACCOUNT_CHECK_COUNT_KEY],
+  });
+  const values = new Map(result.rows.map((row) => [row.key as string, row.value as string]));
+  
+  return {
+    peakBalance: Number.parseFloat(values.get(ACCOUNT_PEAK_KEY) || "0"),
+    checkCount: Number.parseInt(values.get(ACCOUNT_CHECK_COUNT_KEY) || "0"),
+  };
+}
+
+/**
+ * 保存账户净值监控状态
+ */
+export async function saveAccountMonitorState(peakBalance: number, checkCount: number): Promise<void> {
+  const timestamp = getChinaTimeISO();
+  await dbClient.execute({
+    sql: "INSERT OR REPLACE INTO system_config (key, value, updated_at) VALUES (?, ?, ?)",
+    args: [ACCOUNT_PEAK_KEY, peakBalance.toString(), timestamp],
+  });
+  await dbClient.execute({
+    sql: "INSERT OR REPLACE INTO system_config (key, value, updated_at) VALUES (?, ?, ?)",
+    args: [ACCOUNT_CHECK_COUNT_KEY, checkCount.toString(), timestamp],
+  });
+}
@@ -17,7 +17,7 @@
  */
 
 /**
- * 分批止盈监控器 - 每10秒执行一次
+ * 分批止盈规则（由持仓监督器 positionSupervisor 按价格驱动调用）
  * 
  * 功能说明：
  * - 根据策略的 partialTakeProfit 配置自动执行分批平仓
@@ -33,18 +33,34 @@
  * - Stage 2: 盈利达到 6% 时，平仓剩余 30%（累计 100%）
  * - Stage 3: 盈利达到 10% 时，全部平仓（兜底）
  * 
+ * 阶段数量不限；阶段可以用 atrMultiple 代替 trigger，价格顺势移动 N 倍 ATR 时触发
+ * 
  * 重要说明：
  * - 每个持仓独立跟踪已平仓比例
  * - 防止重复触发：已平仓比例 >= closePercent 时不再触发
- * - 数据存储：positions.partial_close_percentage
+ * - 数据存储：positions.partial_close_percentage 和 position_monitor_state（已执行阶段、未完成的平仓）
+ * - 重启恢复：下单后、记账前中断的分批平仓由持仓监督器按交易所实际持仓核对，不会重复触发同一阶段
+ * - 订单类型跟随策略 orderType（如 rebate-farming 使用 post-only 挂单），超时未成交部分以市价补齐
  */
 
 import { createLogger } from "../utils/loggerUtils";
 import { createClient } from "@libsql/client";
 import { createExchangeClient } from "../services/exchangeClient";
 import { getChinaTimeISO } from "../utils/timeUtils";
-import { getQuantoMultiplier } from "../utils/contractUtils";
+import { floorToSizeStep, getOrderSizeRules, getQuantoMultiplier } from "../utils/contractUtils";
 import { getTradingStrategy, getStrategyParams } from "../agents/tradingAgent";
+import { executeOrder, resolveOrderType } from "../services/orderExecution";
+import { getAtr } from "../services/volatility";
+import { describeTakeProfitStage } from "../strategies/exitRules";
+import type { PartialTakeProfitConfig } from "../strategies/types";
+import {
+  addPendingOrderId,
+  completePartialStage,
+  deleteMonitorState,
+  getMonitorState,
+  markPendingClose,
+} from "./monitorState";
+import type { SupervisedPosition } from "./positionSupervisor";
 
 const logger = createLogger({
   name: "partial-profit-monitor",
@@ -55,23 +71,19 @@ const dbClient = createClient({
   url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
 });
 
-/**
- * 计算持仓盈利百分比（考虑杠杆）
- */
-function calculatePnlPercent(entryPrice: number, currentPrice: number, side: string, leverage: number): number {
-  const priceChangePercent = entryPrice > 0 
-    ? ((currentPrice - entryPrice) / entryPrice * 100 * (side === 'long' ? 1 : -1))
-    : 0;
-  return priceChangePercent * leverage;
-}
-
 /**
  * 检查是否应该触发分批止盈
  * 返回需要平仓的百分比，如果不需要平仓则返回 null
+ * 
+ * @param priceMove 价格顺势移动的幅度（价格单位，逆势为负）
+ * @param atr ATR（价格单位），0 表示不可用，此时按 ATR 倍数触发的阶段不会触发
  */
 function checkPartialProfit(
+  config: PartialTakeProfitConfig,
   currentPnlPercent: number, 
-  alreadyClosedPercent: number
+  alreadyClosedPercent: number,
+  priceMove: number,
+  atr: number
 ): {
   shouldClose: boolean;
   stage: string;
@@ -79,39 +91,33 @@ function checkPartialProfit(
   totalClosedPercent: number;
   description: string;
 } | null {
-  const strategy = getTradingStrategy();
-  const params = getStrategyParams(strategy);
-  
-  if (!params.partialTakeProfit) {
-    return null;
-  }
-  
-  const { stage1, stage2, stage3 } = params.partialTakeProfit;
-  
-  // 按照从低到高的顺序检查（stage1 -> stage2 -> stage3）
+  // 按照配置顺序检查（stage1 -> stage2 -> ...）
   // 每个阶段只触发一次，检查是否已经平仓过
-  const stages = [
-    { name: "stage1", trigger: stage1.trigger, closePercent: stage1.closePercent },
-    { name: "stage2", trigger: stage2.trigger, closePercent: stage2.closePercent },
-    { name: "stage3", trigger: stage3.trigger, closePercent: stage3.closePercent },
-  ];
-  
-  for (const stage of stages) {
+  for (const [index, stage] of config.stages.entries()) {
+    const name = `stage${index + 1}`;
+    
     // 检查是否达到触发条件
-    if (currentPnlPercent >= stage.trigger) {
-      // 检查是否已经平仓过这个阶段
-      if (alreadyClosedPercent < stage.closePercent) {
-        // 计算本次需要平仓的百分比
-        const thisClosePercent = stage.closePercent - alreadyClosedPercent;
-        
-        return {
-          shouldClose: true,
-          stage: stage.name,
-          closePercent: thisClosePercent,
-          totalClosedPercent: stage.closePercent,
-          description: `盈利${currentPnlPercent.toFixed(2)}%，触发${stage.name}分批止盈（${stage.trigger}%），平仓${thisClosePercent}%（累计${stage.closePercent}%）`,
-        };
+    let reached: string | null = null;
+    if (stage.atrMultiple !== undefined) {
+      if (atr > 0 && priceMove >= stage.atrMultiple * atr) {
+        reached = `${stage.atrMultiple}倍ATR`;
       }
+    } else if (stage.trigger !== undefined && currentPnlPercent >= stage.trigger) {
+      reached = `${stage.trigger}%`;
+    }
+    
+    // 检查是否已经平仓过这个阶段
+    if (reached && alreadyClosedPercent < stage.closePercent) {
+      // 计算本次需要平仓的百分比
+      const thisClosePercent = stage.closePercent - alreadyClosedPercent;
+      
+      return {
+        shouldClose: true,
+        stage: name,
+        closePercent: thisClosePercent,
+        totalClosedPercent: stage.closePercent,
+        description: `盈利${currentPnlPercent.toFixed(2)}%，触发${name}分批止盈（${reached}），平仓${thisClosePercent}%（累计${stage.closePercent}%）`,
+      };
     }
   }
   
@@ -137,18 +143,19 @@ async function executePartialClose(
   const contract = `${symbol}_USDT`;
   
   try {
-    // 计算本次平仓数量
-    let closeQuantity = Math.floor(totalQuantity * closePercent / 100);
+    // 计算本次平仓数量（按下单数量精度向下取整，Gate 为整数张）
+    const { step, minSize } = await getOrderSizeRules(contract);
+    let closeQuantity = floorToSizeStep(totalQuantity * closePercent / 100, step);
     
     // 特殊处理：如果累计平仓比例达到100%，直接平掉所有剩余仓位
     if (totalClosedPercent >= 100) {
       closeQuantity = totalQuantity;
       logger.warn(`${symbol} 累计平仓达到100%，平掉所有剩余仓位: ${closeQuantity} 张`);
     }
-    // 如果计算结果为0但还有剩余持仓，至少平掉1张（避免小数量问题）
-    else if (closeQuantity === 0 && totalQuantity > 0) {
-      closeQuantity = Math.min(1, totalQuantity);
-      logger.warn(`${symbol} 计算平仓数量为0，至少平掉1张: ${closeQuantity}/${totalQuantity} 张`);
+    // 如果计算结果小于最小下单数量但还有剩余持仓，至少平掉最小下单数量（避免小数量问题）
+    else if (closeQuantity < minSize && totalQuantity > 0) {
+      closeQuantity = Math.min(minSize, totalQuantity);
+      logger.warn(`${symbol} 计算平仓数量低于最小下单数量，至少平掉 ${closeQuantity} 张: ${closeQuantity}/${totalQuantity} 张`);
     }
     
     if (closeQuantity === 0) {
@@ -164,47 +171,40 @@ async function executePartialClose(
     logger.warn(`  平仓数量: ${closeQuantity}/${totalQuantity} 张`);
     logger.warn(`  累计平仓: ${totalClosedPercent}%`);
     
-    // 1. 执行平仓订单
-    const order = await exchangeClient.placeOrder({
+    // 1. 记录未完成的平仓（重启后由持仓监督器核对），执行平仓订单
+    //    限价/post-only 超时未成交的部分以市价补齐，保证止盈落地
+    await markPendingClose(symbol, {
+      rule: "partial_profit",
+      reason: `分批止盈 ${stage}`,
+      stage,
+      totalClosedPercent,
+      quantityBefore: totalQuantity,
+    });
+    const execution = await executeOrder({
       contract,
       size,
-      price: 0,
+      orderType: resolveOrderType(),
       reduceOnly: true,
+      options: { fallbackToMarket: true },
+      onOrderPlaced: orderId => addPendingOrderId(symbol, orderId),
     });
+    const order = execution.order;
     
-    logger.info(`已下达分批止盈平仓订单 ${symbol}，订单ID: ${order.id}`);
-    
-    // 2. 等待订单完成并获取成交信息
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    logger.info(`已下达分批止盈平仓订单 ${symbol}，订单ID: ${execution.orderIds.join(", ")}`);
     
+    // 2. 获取成交信息
     let actualExitPrice = 0;
     let actualQuantity = closeQuantity;
     let pnl = 0;
     let totalFee = 0;
     let orderFilled = false;
     
-    // 尝试从订单获取成交信息
-    if (order.id) {
-      for (let retry = 0; retry < 5; retry++) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        try {
-          const orderStatus = await exchangeClient.getOrder(order.id?.toString() || "");
-          
-          if (orderStatus.status === 'finished') {
-            const fillPrice = Number.parseFloat(orderStatus.fill_price || orderStatus.price || "0");
-            actualQuantity = Math.abs(Number.parseFloat(orderStatus.size || "0") - Number.parseFloat(orderStatus.left || "0"));
-            
-            if (fillPrice > 0) {
-              actualExitPrice = fillPrice;
-              orderFilled = true;
-              logger.info(`从订单获取成交价格: ${actualExitPrice}`);
-              break;
-            }
-          }
-        } catch (statusError: any) {
-          logger.warn(`查询分批止盈订单状态失败 (重试${retry + 1}/5): ${statusError.message}`);
-        }
+    if (execution.filledSize > 0) {
+      actualQuantity = execution.filledSize;
+      if (execution.fillPrice > 0) {
+        actualExitPrice = execution.fillPrice;
+        orderFilled = true;
+        logger.info(`从订单获取成交价格: ${actualExitPrice}`);
       }
     }
     
@@ -212,7 +212,7 @@ async function executePartialClose(
     if (actualExitPrice === 0) {
       try {
         const ticker = await exchangeClient.getFuturesTicker(contract);
-        actualExitPrice = Number.parseFloat(ticker.last || ticker.markPrice || "0");
+        actualExitPrice = ticker.last || ticker.markPrice;
         
         if (actualExitPrice > 0) {
           logger.warn(`未能从订单获取价格，使用ticker价格: ${actualExitPrice}`);
@@ -254,10 +254,10 @@ async function executePartialClose(
     
     // 3. 记录到trades表
     await dbClient.execute({
-      sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status, expected_price, slippage_percent)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       args: [
-        order.id?.toString() || "",
+        order?.id ?? "",
         symbol,
         side,
         "close",
@@ -268,6 +268,8 @@ async function executePartialClose(
         totalFee,
         getChinaTimeISO(),
         orderFilled ? "filled" : "pending",
+        execution.slippage?.expectedPrice ?? null,
+        execution.slippage?.actualSlippagePercent ?? null,
       ],
     });
     
@@ -276,6 +278,7 @@ async function executePartialClose(
       sql: "UPDATE positions SET partial_close_percentage = ? WHERE symbol = ?",
       args: [totalClosedPercent, symbol],
     });
+    await completePartialStage(symbol, stage, totalClosedPercent);
     
     // 5. 记录决策信息到agent_decisions表
     const decisionText = `【分批止盈触发 - ${stage}】${symbol} ${side === 'long' ? '做多' : '做空'}
@@ -310,6 +313,7 @@ async function executePartialClose(
         sql: "DELETE FROM positions WHERE symbol = ?",
         args: [symbol],
       });
+      await deleteMonitorState(symbol);
       logger.info(`${symbol} 已全部平仓，从数据库删除持仓记录`);
     }
     
@@ -322,13 +326,10 @@ async function executePartialClose(
   }
 }
 
-let monitorInterval: NodeJS.Timeout | null = null;
-let isRunning = false;
-
 /**
  * 检查当前策略是否启用代码级分批止盈
  */
-function isPartialProfitEnabled(): boolean {
+export function isPartialProfitEnabled(): boolean {
   const strategy = getTradingStrategy();
   const params = getStrategyParams(strategy);
   return params.enableCodeLevelProtection === true;
@@ -337,7 +338,7 @@ function isPartialProfitEnabled(): boolean {
 /**
  * 获取分批止盈配置（用于日志输出）
  */
-function getPartialProfitConfig() {
+export function getPartialProfitConfig() {
   const strategy = getTradingStrategy();
   const params = getStrategyParams(strategy);
   
@@ -346,173 +347,56 @@ function getPartialProfitConfig() {
   }
   
   return {
-    stage1: {
-      description: `盈利达到 ${params.partialTakeProfit.stage1.trigger}% 时，平仓 ${params.partialTakeProfit.stage1.closePercent}%`,
-      trigger: params.partialTakeProfit.stage1.trigger,
-      closePercent: params.partialTakeProfit.stage1.closePercent,
-    },
-    stage2: {
-      description: `盈利达到 ${params.partialTakeProfit.stage2.trigger}% 时，平仓 ${params.partialTakeProfit.stage2.closePercent}%`,
-      trigger: params.partialTakeProfit.stage2.trigger,
-      closePercent: params.partialTakeProfit.stage2.closePercent,
-    },
-    stage3: {
-      description: `盈利达到 ${params.partialTakeProfit.stage3.trigger}% 时，平仓 ${params.partialTakeProfit.stage3.closePercent}%`,
-      trigger: params.partialTakeProfit.stage3.trigger,
-      closePercent: params.partialTakeProfit.stage3.closePercent,
-    },
+    stages: params.partialTakeProfit.stages.map((stage) => ({
+      ...stage,
+      description: describeTakeProfitStage(stage),
+    })),
   };
 }
 
 /**
- * 检查所有持仓的分批止盈条件
+ * 检查单个持仓的分批止盈条件，触发时执行分批平仓
+ * @returns 是否执行了平仓
  */
-async function checkPartialProfitConditions() {
-  if (!isRunning) {
-    return;
-  }
+export async function evaluatePartialProfit(position: SupervisedPosition): Promise<boolean> {
+  const { symbol, side, quantity, entryPrice, currentPrice, leverage, pnlPercent } = position;
   
-  // 检查是否启用代码级分批止盈
-  const autoCloseEnabled = isPartialProfitEnabled();
-  if (!autoCloseEnabled) {
-    // 未启用，不执行自动平仓
-    return;
-  }
-  
-  try {
-    const exchangeClient = createExchangeClient();
-    
-    // 1. 获取所有持仓
-    const gatePositions = await exchangeClient.getPositions();
-    const activePositions = gatePositions.filter((p: any) => Number.parseInt(p.size || "0") !== 0);
-    
-    if (activePositions.length === 0) {
-      return;
-    }
-    
-    // 2. 从数据库获取持仓信息（获取已平仓比例）
-    const dbResult = await dbClient.execute("SELECT symbol, partial_close_percentage FROM positions");
-    const dbPartialCloseMap = new Map(
-      dbResult.rows.map((row: any) => [row.symbol, Number.parseFloat(row.partial_close_percentage as string || "0")])
-    );
-    
-    // 3. 检查每个持仓
-    for (const pos of activePositions) {
-      const size = Number.parseInt(pos.size || "0");
-      const symbol = pos.contract.replace("_USDT", "");
-      const side = size > 0 ? "long" : "short";
-      const quantity = Math.abs(size);
-      const entryPrice = Number.parseFloat(pos.entryPrice || "0");
-      const currentPrice = Number.parseFloat(pos.markPrice || "0");
-      const leverage = Number.parseInt(pos.leverage || "1");
-      
-      // 验证数据有效性
-      if (entryPrice === 0 || currentPrice === 0 || leverage === 0) {
-        logger.warn(`${symbol} 数据无效，跳过分批止盈检查`);
-        continue;
-      }
-      
-      // 计算盈利百分比（考虑杠杆）
-      const pnlPercent = calculatePnlPercent(entryPrice, currentPrice, side, leverage);
-      
-      // 获取已平仓比例
-      const alreadyClosedPercent = dbPartialCloseMap.get(symbol) || 0;
-      
-      // 检查是否应该触发分批止盈
-      const partialProfitResult = checkPartialProfit(pnlPercent, alreadyClosedPercent);
-      
-      if (partialProfitResult && partialProfitResult.shouldClose) {
-        logger.warn(`${symbol} 触发分批止盈:`);
-        logger.warn(`  ${partialProfitResult.description}`);
-        
-        // 执行分批平仓
-        const success = await executePartialClose(
-          symbol,
-          side,
-          quantity,
-          entryPrice,
-          currentPrice,
-          leverage,
-          pnlPercent,
-          partialProfitResult.closePercent,
-          partialProfitResult.totalClosedPercent,
-          partialProfitResult.stage
-        );
-        
-        if (success) {
-          logger.info(`${symbol} 分批止盈平仓成功`);
-        }
-      }
-    }
-    
-  } catch (error: any) {
-    logger.error(`分批止盈检查失败: ${error.message}`);
-  }
-}
-
-/**
- * 启动分批止盈监控器
- */
-export function startPartialProfitMonitor() {
-  if (isRunning) {
-    logger.warn("分批止盈监控已在运行中");
-    return;
+  // 检查是否应该触发分批止盈（已平仓比例取 positions.partial_close_percentage 和监控状态中的较大值）
+  const state = await getMonitorState(position);
+  const alreadyClosedPercent = Math.max(position.partialClosePercent, state.partialClosePercent);
+  const params = getStrategyParams(getTradingStrategy());
+  if (!params.partialTakeProfit) {
+    return false;
   }
+  // 仅在配置了按 ATR 倍数触发的阶段时获取 ATR（按合约缓存）
+  const needsAtr = params.partialTakeProfit.stages.some((stage) => stage.atrMultiple !== undefined);
+  const atr = needsAtr ? await getAtr(`${symbol}_USDT`, params.atr) : 0;
+  const priceMove = side === "long" ? currentPrice - entryPrice : entryPrice - currentPrice;
+  const partialProfitResult = checkPartialProfit(params.partialTakeProfit, pnlPercent, alreadyClosedPercent, priceMove, atr);
   
-  const strategy = getTradingStrategy();
-  const autoCloseEnabled = isPartialProfitEnabled();
-  
-  isRunning = true;
-  
-  logger.info("=".repeat(60));
-  logger.info("🚀 启动分批止盈监控器");
-  logger.info("=".repeat(60));
-  logger.info(`  当前策略: ${strategy}`);
-  logger.info(`  检查间隔: 10秒`);
-  logger.info(`  自动平仓: ${autoCloseEnabled ? '✅ 启用（代码级保护）' : '❌ 禁用（由 AI 决策）'}`);
-  
-  if (autoCloseEnabled) {
-    const config = getPartialProfitConfig();
-    if (config) {
-      logger.info(``);
-      logger.info(`  【分批止盈规则】`);
-      logger.info(`    阶段1: ${config.stage1.description}`);
-      logger.info(`    阶段2: ${config.stage2.description}`);
-      logger.info(`    阶段3: ${config.stage3.description}`);
-    }
-  } else {
-    logger.info(``);
-    logger.info(`  【说明】`);
-    logger.info(`    • 分批止盈由 AI 根据策略配置主动执行`);
-    logger.info(`    • 代码不会自动触发分批平仓`);
+  if (!partialProfitResult || !partialProfitResult.shouldClose) {
+    return false;
   }
-  logger.info("=".repeat(60));
   
-  // 立即执行一次
-  checkPartialProfitConditions();
+  logger.warn(`${symbol} 触发分批止盈:`);
+  logger.warn(`  ${partialProfitResult.description}`);
   
-  // 每10秒执行一次
-  monitorInterval = setInterval(() => {
-    checkPartialProfitConditions();
-  }, 10 * 1000);
-}
-
-/**
- * 停止分批止盈监控器
- */
-export function stopPartialProfitMonitor() {
-  if (!isRunning) {
-    logger.warn("分批止盈监控未在运行");
-    return;
-  }
-  
-  isRunning = false;
+  // 执行分批平仓
+  const success = await executePartialClose(
+    symbol,
+    side,
+    quantity,
+    entryPrice,
+    currentPrice,
+    leverage,
+    pnlPercent,
+    partialProfitResult.closePercent,
+    partialProfitResult.totalClosedPercent,
+    partialProfitResult.stage
+  );
   
-  if (monitorInterval) {
-    clearInterval(monitorInterval);
-    monitorInterval = null;
+  if (success) {
+    logger.info(`${symbol} 分批止盈平仓成功`);
   }
-  
-  logger.info("分批止盈监控已停止");
+  return success;
 }
-
@@ -0,0 +1,625 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 持仓监督器 - 统一的持仓风控调度（取代原先各自轮询的止损、移动止盈、分批止盈监控器）
+ *
+ * 价格驱动：
+ * - 每个轮询周期（默认10秒）获取一次持仓和账户信息，所有规则共享同一份数据
+ * - OKX 订阅 WebSocket 标记价格推送，价格变化时立即重新评估该持仓
+ * - 其他交易所或 WebSocket 不可用时，只按轮询周期评估
+ *
+ * 每个持仓按固定顺序执行一次规则，任一规则平仓后结束本次评估：
+ * 1. 止损（stopLossMonitor，启用代码级保护时）
+ * 2. 峰值盈利更新、交易所止损单跟随、移动止盈（trailingStopMonitor）
+ * 3. 分批止盈（partialProfitMonitor，启用代码级保护时）
+ * 4. 最大持仓时间强制平仓（所有策略）
+ *
+ * 同一持仓同一时间只有一个平仓流程（持仓锁），避免多个规则或交易周期同时平掉同一个持仓
+ * 监督器的交易所请求按 monitor 优先级排队（高于交易周期和看板查询），平仓订单按 close 优先级
+ *
+ * 重启恢复：
+ * - 启动时从 position_monitor_state 恢复监控状态（峰值盈利、分批止盈阶段、检查次数）
+ * - 存在未完成的平仓时先按交易所实际持仓核对：分批止盈已成交则补记阶段，
+ *   全部平仓类规则（止损、移动止盈、最大持仓时间）在持仓仍存在时继续平仓
+ */
+import { createClient } from "@libsql/client";
+import { getStrategyParams, getTradingStrategy } from "../agents/tradingAgent";
+import { RISK_PARAMS } from "../config/riskParams";
+import { createExchangeClient, getExchangeCapabilities } from "../services/exchangeClient";
+import { getOkxWebSocketClient } from "../services/okxWebSocket";
+import { executeOrder } from "../services/orderExecution";
+import { runWithRequestPriority } from "../services/rateLimiter";
+import { toOkxContract } from "../utils/contractMapping";
+import { getQuantoMultiplier } from "../utils/contractUtils";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { tryLockPosition, unlockPosition } from "../utils/positionLock";
+import { getChinaTimeISO } from "../utils/timeUtils";
+import {
+  type MonitorCloseRule,
+  type MonitorState,
+  addPendingOrderId,
+  clearPendingClose,
+  completePartialStage,
+  getMonitorState,
+  loadMonitorStates,
+  markPendingClose,
+  pruneMonitorStates,
+  resetMonitorStateCache,
+  settleFullClose,
+} from "./monitorState";
+import { evaluatePartialProfit, getPartialProfitConfig, isPartialProfitEnabled } from "./partialProfitMonitor";
+import { evaluateStopLoss, getStopLossConfig, isStopLossEnabled } from "./stopLossMonitor";
+import {
+  checkAccountPeak,
+  evaluateTrailingStop,
+  getTrailingStopConfig,
+  isTrailingStopEnabled,
+} from "./trailingStopMonitor";
+
+const logger = createLogger({
+  name: "position-supervisor",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/**
+ * 被监督的持仓（交易所持仓 + 数据库中的开仓时间和已平仓比例）
+ */
+export interface SupervisedPosition {
+  symbol: string;
+  contract: string;
+  side: "long" | "short";
+  /** 持仓张数（绝对值） */
+  quantity: number;
+  entryPrice: number;
+  /** 最新标记价格 */
+  currentPrice: number;
+  leverage: number;
+  /** 盈亏百分比（考虑杠杆） */
+  pnlPercent: number;
+  /** 开仓时间（数据库中没有记录时为 undefined） */
+  openedAt?: string;
+  /** 已分批平仓的比例 */
+  partialClosePercent: number;
+  /** 数据库记录的峰值盈利百分比 */
+  peakPnlPercent?: number;
+}
+
+/** 同一持仓由价格推送触发评估的最小间隔（毫秒） */
+const TICK_EVALUATION_INTERVAL_MS = 1000;
+
+// 最近一次轮询得到的持仓：symbol -> position（价格推送时在此基础上更新价格）
+const positionCache = new Map<string, SupervisedPosition>();
+// 价格推送触发的最近评估时间：symbol -> timestamp
+const lastTickEvaluation = new Map<string, number>();
+// 已订阅标记价格的 OKX 合约
+const subscribedInstIds = new Set<string>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let isRunning = false;
+let isPolling = false;
+let useWebSocket = false;
+
+/**
+ * 轮询间隔（秒）
+ */
+function getPollIntervalSeconds(): number {
+  const seconds = Number.parseFloat(process.env.POSITION_SUPERVISOR_INTERVAL_SECONDS || "10");
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 10;
+}
+
+/**
+ * 是否使用 WebSocket 价格推送
+ * POSITION_SUPERVISOR_PRICE_SOURCE: auto（默认，交易所支持价格推送时使用 WebSocket，目前为 OKX）| websocket | polling
+ */
+function shouldUseWebSocket(): boolean {
+  const source = (process.env.POSITION_SUPERVISOR_PRICE_SOURCE || "auto").toLowerCase();
+  if (source === "polling") {
+    return false;
+  }
+  if (!getExchangeCapabilities().priceStream) {
+    if (source === "websocket") {
+      logger.warn("当前交易所不支持 WebSocket 价格推送，使用轮询");
+    }
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 计算持仓盈亏百分比（考虑杠杆）
+ */
+function calculatePnlPercent(entryPrice: number, currentPrice: number, side: string, leverage: number): number {
+  const priceChangePercent = entryPrice > 0 
+    ? ((currentPrice - entryPrice) / entryPrice * 100 * (side === 'long' ? 1 : -1))
+    : 0;
+  return priceChangePercent * leverage;
+}
+
+/**
+ * 从交易所和数据库加载当前持仓
+ */
+async function loadPositions(): Promise<SupervisedPosition[]> {
+  const exchangeClient = createExchangeClient();
+  const exchangePositions = await exchangeClient.getPositions();
+  const activePositions = exchangePositions.filter(p => p.size !== 0);
+  
+  if (activePositions.length === 0) {
+    return [];
+  }
+  
+  const dbResult = await dbClient.execute("SELECT symbol, opened_at, peak_pnl_percent, partial_close_percentage FROM positions");
+  const dbPositions = new Map(dbResult.rows.map((row) => [row.symbol as string, row]));
+  
+  const positions: SupervisedPosition[] = [];
+  for (const pos of activePositions) {
+    const size = pos.size;
+    const symbol = pos.contract.replace("_USDT", "");
+    const side = size > 0 ? "long" : "short";
+    const entryPrice = pos.entryPrice;
+    const currentPrice = pos.markPrice;
+    const leverage = pos.leverage || 1;
+    
+    // 验证数据有效性
+    if (entryPrice === 0 || currentPrice === 0 || leverage === 0) {
+      logger.warn(`${symbol} 数据无效，跳过持仓监督`);
+      continue;
+    }
+    
+    const dbRow = dbPositions.get(symbol);
+    positions.push({
+      symbol,
+      contract: pos.contract,
+      side,
+      quantity: Math.abs(size),
+      entryPrice,
+      currentPrice,
+      leverage,
+      pnlPercent: calculatePnlPercent(entryPrice, currentPrice, side, leverage),
+      openedAt: dbRow?.opened_at ? String(dbRow.opened_at) : undefined,
+      partialClosePercent: Number.parseFloat(dbRow?.partial_close_percentage as string || "0"),
+      peakPnlPercent: dbRow?.peak_pnl_percent === null || dbRow?.peak_pnl_percent === undefined
+        ? undefined
+        : Number.parseFloat(dbRow.peak_pnl_percent as string),
+    });
+  }
+  
+  return positions;
+}
+
+/**
+ * 市价平掉整个持仓并记账（最大持仓时间强制平仓、重启后继续未完成的平仓）
+ * @param title 决策记录标题
+ * @param closeReason 平仓原因
+ */
+async function executeSupervisorClose(
+  position: SupervisedPosition,
+  trigger: MonitorCloseRule,
+  title: string,
+  closeReason: string
+): Promise<boolean> {
+  const { symbol, contract, side, quantity, entryPrice, currentPrice, leverage } = position;
+  
+  try {
+    logger.warn(`【强制平仓】${symbol} ${side} - ${closeReason}`);
+    
+    // 1. 记录未完成的平仓，市价平仓
+    await markPendingClose(symbol, { rule: trigger, reason: closeReason, quantityBefore: quantity });
+    const execution = await executeOrder({
+      contract,
+      size: side === "long" ? -quantity : quantity,
+      orderType: "market",
+      reduceOnly: true,
+      onOrderPlaced: orderId => addPendingOrderId(symbol, orderId),
+    });
+    const order = execution.order;
+    
+    // 未成交：保留条件单和未完成的平仓记录，下一次轮询继续平仓
+    if (execution.filledSize <= 0) {
+      logger.error(`强制平仓订单未成交 ${symbol}，下一次轮询继续平仓`);
+      return false;
+    }
+    const orderFilled = execution.fillPrice > 0;
+    const actualQuantity = execution.filledSize;
+    const actualExitPrice = orderFilled ? execution.fillPrice : currentPrice;
+    
+    logger.info(`已下达强制平仓订单 ${symbol}，订单ID: ${order?.id}`);
+    
+    // 2. 计算盈亏（开仓 + 平仓手续费）
+    const quantoMultiplier = await getQuantoMultiplier(contract);
+    const priceChange = side === "long" 
+      ? (actualExitPrice - entryPrice) 
+      : (entryPrice - actualExitPrice);
+    const grossPnl = priceChange * actualQuantity * quantoMultiplier;
+    const openFee = entryPrice * actualQuantity * quantoMultiplier * 0.0005;
+    const closeFee = actualExitPrice * actualQuantity * quantoMultiplier * 0.0005;
+    const totalFee = openFee + closeFee;
+    const pnl = grossPnl - totalFee;
+    
+    // 3. 记录到trades表
+    await dbClient.execute({
+      sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status, expected_price, slippage_percent)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        order?.id ?? "",
+        symbol,
+        side,
+        "close",
+        actualExitPrice,
+        actualQuantity,
+        leverage,
+        pnl,
+        totalFee,
+        getChinaTimeISO(),
+        orderFilled ? "filled" : "pending",
+        execution.slippage?.expectedPrice ?? null,
+        execution.slippage?.actualSlippagePercent ?? null,
+      ],
+    });
+    
+    // 4. 记录决策信息到agent_decisions表
+    await dbClient.execute({
+      sql: `INSERT INTO agent_decisions 
+            (timestamp, iteration, market_analysis, decision, actions_taken, account_value, positions_count)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        getChinaTimeISO(),
+        0, // 由持仓监督器触发，非AI周期
+        JSON.stringify({ trigger, symbol, closeReason }),
+        `【${title}】${symbol} ${side === 'long' ? '做多' : '做空'}\n${closeReason}\n平仓价格: ${actualExitPrice.toFixed(2)}\n平仓盈亏: ${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT`,
+        JSON.stringify([{ action: "close_position", symbol, reason: trigger }]),
+        0,
+        0,
+      ],
+    });
+    
+    // 5. 全部成交时撤销交易所条件单、删除持仓记录和监控状态；部分成交时写回剩余数量
+    const remaining = await settleFullClose(symbol, quantity, execution);
+    
+    logger.info(`强制平仓${remaining > 0 ? `部分成交（剩余 ${remaining}）` : "完成"} ${symbol}，原因：${closeReason}，盈亏：${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT`);
+    return true;
+  } catch (error) {
+    logger.error(`强制平仓失败 ${symbol}: ${getErrorMessage(error)}`);
+    return false;
+  }
+}
+
+/**
+ * 检查最大持仓时间
+ * @returns 是否已平仓
+ */
+async function evaluateMaxHoldingTime(position: SupervisedPosition): Promise<boolean> {
+  if (!position.openedAt) {
+    return false;
+  }
+  
+  const holdingHours = (Date.now() - new Date(position.openedAt).getTime()) / (1000 * 60 * 60);
+  if (!Number.isFinite(holdingHours) || holdingHours < RISK_PARAMS.MAX_HOLDING_HOURS) {
+    return false;
+  }
+  
+  const closeReason = `持仓时间已达 ${holdingHours.toFixed(1)} 小时，超过${RISK_PARAMS.MAX_HOLDING_HOURS}小时限制`;
+  return executeSupervisorClose(position, "max_holding_time", "最大持仓时间强制平仓", closeReason);
+}
+
+/**
+ * 核对上次进程中断时未完成的平仓
+ * - 撤销仍在挂单中的平仓订单
+ * - 分批止盈：持仓已减少说明订单已成交，补记该阶段（不再重复触发）；持仓未变化则清除记录，按规则重新评估
+ * - 止损、移动止盈、最大持仓时间：持仓仍存在，继续平仓
+ * @returns 是否已处理（补记阶段或执行了平仓）
+ */
+async function resumePendingClose(position: SupervisedPosition, state: MonitorState): Promise<boolean> {
+  const pending = state.pendingClose;
+  if (!pending) {
+    return false;
+  }
+  
+  const { symbol, contract, quantity } = position;
+  const exchangeClient = createExchangeClient();
+  
+  for (const orderId of pending.orderIds) {
+    try {
+      const order = await exchangeClient.getOrder(orderId, contract);
+      if (order?.status === "open") {
+        await exchangeClient.cancelOrder(orderId);
+        logger.warn(`${symbol} 已撤销未完成平仓遗留的订单 ${orderId}`);
+      }
+    } catch (error) {
+      logger.warn(`${symbol} 核对订单 ${orderId} 失败: ${getErrorMessage(error)}`);
+    }
+  }
+  
+  if (pending.rule === "partial_profit") {
+    const totalClosedPercent = pending.totalClosedPercent ?? 0;
+    if (quantity < pending.quantityBefore && pending.stage) {
+      logger.warn(
+        `${symbol} ${pending.reason} 在中断前已成交（持仓 ${pending.quantityBefore} → ${quantity} 张），` +
+        `补记阶段，累计平仓 ${totalClosedPercent}%`
+      );
+      await dbClient.execute({
+        sql: "UPDATE positions SET partial_close_percentage = ? WHERE symbol = ?",
+        args: [totalClosedPercent, symbol],
+      });
+      await completePartialStage(symbol, pending.stage, totalClosedPercent);
+      return true;
+    }
+    
+    logger.warn(`${symbol} ${pending.reason} 在中断前未成交，按规则重新评估`);
+    await clearPendingClose(symbol);
+    return false;
+  }
+  
+  logger.warn(`${symbol} 存在未完成的平仓（${pending.reason}，${pending.startedAt}），继续平仓`);
+  return executeSupervisorClose(position, pending.rule, "继续未完成的平仓", pending.reason);
+}
+
+/**
+ * 对单个持仓按顺序执行一次全部规则
+ */
+async function evaluatePosition(position: SupervisedPosition): Promise<void> {
+  const { symbol } = position;
+  
+  // 持仓正在被其他流程处理（上一次评估、交易周期强制平仓或 AI 平仓）
+  if (!tryLockPosition(symbol)) {
+    return;
+  }
+  
+  try {
+    const state = await getMonitorState(position);
+    const acted =
+      await resumePendingClose(position, state) ||
+      (isStopLossEnabled() && await evaluateStopLoss(position)) ||
+      await evaluateTrailingStop(position, isTrailingStopEnabled()) ||
+      (isPartialProfitEnabled() && await evaluatePartialProfit(position)) ||
+      await evaluateMaxHoldingTime(position);
+    
+    // 持仓已变化（平仓或分批平仓），等待下一次轮询刷新后再由价格推送评估
+    if (acted) {
+      positionCache.delete(symbol);
+    }
+  } catch (error) {
+    logger.error(`${symbol} 持仓监督失败: ${getErrorMessage(error)}`);
+  } finally {
+    unlockPosition(symbol);
+  }
+}
+
+/**
+ * 处理 WebSocket 标记价格推送
+ */
+function handleMarkPrice(symbol: string, data: Array<{ markPx?: string }>): void {
+  if (!isRunning) {
+    return;
+  }
+  
+  const cached = positionCache.get(symbol);
+  const markPrice = Number.parseFloat(data?.[0]?.markPx || "0");
+  if (!cached || !(markPrice > 0)) {
+    return;
+  }
+  
+  const now = Date.now();
+  if (now - (lastTickEvaluation.get(symbol) || 0) < TICK_EVALUATION_INTERVAL_MS) {
+    return;
+  }
+  lastTickEvaluation.set(symbol, now);
+  
+  const position: SupervisedPosition = {
+    ...cached,
+    currentPrice: markPrice,
+    pnlPercent: calculatePnlPercent(cached.entryPrice, markPrice, cached.side, cached.leverage),
+  };
+  positionCache.set(symbol, position);
+  
+  runWithRequestPriority("monitor", () => evaluatePosition(position)).catch((error) => {
+    logger.error(`${symbol} 价格推送评估失败: ${getErrorMessage(error)}`);
+  });
+}
+
+/**
+ * 同步 WebSocket 订阅：订阅新持仓的标记价格，取消已平仓的订阅
+ */
+async function syncSubscriptions(symbols: Set<string>): Promise<void> {
+  const wsClient = getOkxWebSocketClient();
+  const wanted = new Set([...symbols].map(symbol => toOkxContract(`${symbol}_USDT`)));
+  
+  for (const instId of wanted) {
+    if (subscribedInstIds.has(instId)) {
+      continue;
+    }
+    const symbol = instId.replace("-USDT-SWAP", "");
+    try {
+      await wsClient.subscribe("mark-price", instId, data => handleMarkPrice(symbol, data));
+      subscribedInstIds.add(instId);
+    } catch (error) {
+      logger.warn(`订阅 ${instId} 标记价格失败，该持仓按轮询周期监督: ${getErrorMessage(error)}`);
+    }
+  }
+  
+  for (const instId of [...subscribedInstIds]) {
+    if (!wanted.has(instId)) {
+      await wsClient.unsubscribe("mark-price", instId);
+      subscribedInstIds.delete(instId);
+    }
+  }
+}
+
+/**
+ * 轮询：刷新持仓和账户信息，评估所有持仓
+ */
+async function pollPositions(): Promise<void> {
+  // 上一次轮询尚未结束（如正在平仓），跳过本次
+  if (isPolling) {
+    return;
+  }
+  isPolling = true;
+  
+  try {
+    // 账户净值峰值（所有策略共享）
+    await checkAccountPeak();
+    
+    const positions = await loadPositions();
+    const activeSymbols = new Set(positions.map(p => p.symbol));
+    
+    positionCache.clear();
+    for (const position of positions) {
+      if (!lastTickEvaluation.has(position.symbol)) {
+        logger.info(`${position.symbol} 开始监督持仓，当前盈亏: ${position.pnlPercent.toFixed(2)}%`);
+      }
+      positionCache.set(position.symbol, position);
+      lastTickEvaluation.set(position.symbol, Date.now());
+    }
+    
+    for (const position of positions) {
+      await evaluatePosition(position);
+    }
+    
+    // 清理已平仓的记录
+    for (const symbol of lastTickEvaluation.keys()) {
+      if (!activeSymbols.has(symbol)) {
+        lastTickEvaluation.delete(symbol);
+      }
+    }
+    await pruneMonitorStates(activeSymbols);
+    
+    if (useWebSocket) {
+      await syncSubscriptions(activeSymbols);
+    }
+  } catch (error) {
+    logger.error(`持仓监督轮询失败: ${getErrorMessage(error)}`);
+  } finally {
+    isPolling = false;
+  }
+}
+
+/**
+ * 启动持仓监督器
+ */
+export function startPositionSupervisor() {
+  if (isRunning) {
+    logger.warn("持仓监督器已在运行中");
+    return;
+  }
+  
+  const strategy = getTradingStrategy();
+  const params = getStrategyParams(strategy);
+  const autoCloseEnabled = params.enableCodeLevelProtection === true;
+  const intervalSeconds = getPollIntervalSeconds();
+  
+  isRunning = true;
+  useWebSocket = shouldUseWebSocket();
+  
+  logger.info("=".repeat(60));
+  logger.info("🚀 启动持仓监督器");
+  logger.info("=".repeat(60));
+  logger.info(`  当前策略: ${strategy} (${params.name})`);
+  logger.info(`  价格来源: ${useWebSocket ? 'OKX WebSocket 标记价格推送 + 轮询' : '轮询'}`);
+  logger.info(`  轮询间隔: ${intervalSeconds}秒`);
+  logger.info(`  自动平仓: ${autoCloseEnabled ? '✅ 启用（代码级保护）' : '❌ 禁用（由 AI 决策，仅更新峰值）'}`);
+  
+  if (autoCloseEnabled) {
+    const stopLoss = getStopLossConfig();
+    const trailingStop = getTrailingStopConfig();
+    const partialProfit = getPartialProfitConfig();
+    if (stopLoss) {
+      logger.info("  【止损规则】");
+      logger.info(`    低风险: ${stopLoss.lowRisk.description}`);
+      logger.info(`    中风险: ${stopLoss.mediumRisk.description}`);
+      logger.info(`    高风险: ${stopLoss.highRisk.description}`);
+    }
+    if (trailingStop) {
+      logger.info("  【移动止盈规则】");
+      if (trailingStop.breakEven) {
+        logger.info(`    保本: ${trailingStop.breakEven}`);
+      }
+      trailingStop.levels.forEach((level, index) => {
+        logger.info(`    阶段${index + 1}: ${level.description}`);
+      });
+    }
+    if (partialProfit) {
+      logger.info("  【分批止盈规则】");
+      partialProfit.stages.forEach((stage, index) => {
+        logger.info(`    阶段${index + 1}: ${stage.description}`);
+      });
+    }
+  }
+  logger.info(`  最大持仓时间: ${RISK_PARAMS.MAX_HOLDING_HOURS} 小时（所有策略）`);
+  logger.info("=".repeat(60));
+  
+  // 恢复持仓监控状态后立即执行一次
+  loadMonitorStates()
+    .then(count => {
+      if (count > 0) {
+        logger.info(`已从数据库恢复 ${count} 个持仓的监控状态`);
+      }
+    })
+    .catch((error) => {
+      logger.error(`恢复持仓监控状态失败: ${getErrorMessage(error)}`);
+    })
+    .finally(() => {
+      runWithRequestPriority("monitor", pollPositions);
+    });
+  
+  pollTimer = setInterval(() => {
+    runWithRequestPriority("monitor", pollPositions);
+  }, intervalSeconds * 1000);
+}
+
+/**
+ * 执行一次持仓监督（不启动定时器、不订阅价格推送）
+ * 供回测等由外部时钟驱动的场景使用
+ */
+export async function runPositionSupervisorOnce() {
+  await runWithRequestPriority("monitor", pollPositions);
+}
+
+/**
+ * 停止持仓监督器
+ */
+export function stopPositionSupervisor() {
+  if (!isRunning) {
+    logger.warn("持仓监督器未在运行");
+    return;
+  }
+  
+  isRunning = false;
+  
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  
+  if (useWebSocket) {
+    const wsClient = getOkxWebSocketClient();
+    for (const instId of subscribedInstIds) {
+      wsClient.unsubscribe("mark-price", instId).catch(() => {});
+    }
+    subscribedInstIds.clear();
+  }
+  
+  positionCache.clear();
+  lastTickEvaluation.clear();
+  resetMonitorStateCache();
+  logger.info("持仓监督器已停止");
+}
@@ -17,7 +17,7 @@
  */
 
 /**
- * 止损监控器 - 每10秒执行一次（根据策略配置启用）
+ * 止损规则（根据策略配置启用，由持仓监督器 positionSupervisor 按价格驱动调用）
  * 
  * 适用范围：
  * - 策略配置 enableCodeLevelProtection = true 时启用
@@ -25,10 +25,9 @@
  * - 直接使用策略的 stopLoss 配置，根据杠杆范围自动映射到 low/mid/high
  * 
  * 功能：
- * 1. 每10秒从Gate.io获取最新持仓价格（markPrice）
- * 2. 计算每个持仓的当前盈亏百分比
- * 3. 根据止损规则判断是否触发止损（基于杠杆倍数动态映射）
- * 4. 触发时立即平仓，记录到交易历史和决策数据
+ * 1. 持仓监督器在价格更新时传入持仓的最新价格和盈亏百分比
+ * 2. 根据止损规则判断是否触发止损（基于杠杆倍数动态映射）
+ * 3. 触发时立即平仓，记录到交易历史和决策数据
  * 
  * 止损规则（示例 - swing-trend 策略）：
  * - 低风险（5-7倍杠杆）：亏损达到 -6% 时止损
@@ -44,9 +43,12 @@
 import { createLogger } from "../utils/loggerUtils";
 import { createClient } from "@libsql/client";
 import { createExchangeClient } from "../services/exchangeClient";
+import { executeOrder } from "../services/orderExecution";
 import { getChinaTimeISO } from "../utils/timeUtils";
 import { getQuantoMultiplier } from "../utils/contractUtils";
 import { getTradingStrategy, getStrategyParams } from "../agents/tradingAgent";
+import { addPendingOrderId, markPendingClose, settleFullClose } from "./monitorState";
+import type { SupervisedPosition } from "./positionSupervisor";
 
 const logger = createLogger({
   name: "stop-loss-monitor",
@@ -61,7 +63,7 @@ const dbClient = createClient({
  * 根据杠杆倍数确定止损阈值
  * 直接使用策略的 stopLoss 配置，根据杠杆范围映射到 low/mid/high
  */
-function getStopLossThreshold(leverage: number): { threshold: number; level: string; description: string } {
+export function getStopLossThreshold(leverage: number): { threshold: number; level: string; description: string } {
   const strategy = getTradingStrategy();
   const params = getStrategyParams(strategy);
   
@@ -99,19 +101,10 @@ function getStopLossThreshold(leverage: number): { threshold: number; level: str
   }
 }
 
-// 持仓监控记录：symbol -> { checkCount, lastCheckTime }
-const positionMonitorHistory = new Map<string, {
-  lastCheckTime: number;
-  checkCount: number;
-}>();
-
-let monitorInterval: NodeJS.Timeout | null = null;
-let isRunning = false;
-
 /**
  * 检查当前策略是否启用代码级止损
  */
-function isStopLossEnabled(): boolean {
+export function isStopLossEnabled(): boolean {
   const strategy = getTradingStrategy();
   const params = getStrategyParams(strategy);
   return params.enableCodeLevelProtection === true;
@@ -120,7 +113,7 @@ function isStopLossEnabled(): boolean {
 /**
  * 获取止损配置（用于日志输出）
  */
-function getStopLossConfig() {
+export function getStopLossConfig() {
   const strategy = getTradingStrategy();
   const params = getStrategyParams(strategy);
   
@@ -149,16 +142,6 @@ function getStopLossConfig() {
   };
 }
 
-/**
- * 计算持仓盈亏百分比（考虑杠杆）
- */
-function calculatePnlPercent(entryPrice: number, currentPrice: number, side: string, leverage: number): number {
-  const priceChangePercent = entryPrice > 0 
-    ? ((currentPrice - entryPrice) / entryPrice * 100 * (side === 'long' ? 1 : -1))
-    : 0;
-  return priceChangePercent * leverage;
-}
-
 /**
  * 修复止损交易记录
  * 如果价格为0或盈亏不正确，从开仓记录重新计算
@@ -206,7 +189,7 @@ async function fixStopLossTradeRecord(symbol: string): Promise<void> {
       try {
         const contract = `${symbol}_USDT`;
         const ticker = await exchangeClient.getFuturesTicker(contract);
-        closePrice = Number.parseFloat(ticker.last || ticker.markPrice || "0");
+        closePrice = ticker.last || ticker.markPrice;
         
         if (closePrice > 0) {
           logger.info(`使用当前ticker价格修复 ${symbol} 平仓价格: ${closePrice}`);
@@ -289,55 +272,43 @@ async function executeStopLossClose(
     logger.error(`  止损线: ${stopLossThreshold.toFixed(2)}%`);
     logger.error(`  杠杆倍数: ${leverage}x`);
     
-    // 1. 执行平仓订单
-    const order = await exchangeClient.placeOrder({
+    // 1. 记录未完成的平仓（重启后由持仓监督器继续处理），执行平仓订单
+    await markPendingClose(symbol, { rule: "stop_loss", reason: `止损 ${riskLevel}`, quantityBefore: quantity });
+    //    市价单由订单执行服务按盘口深度拆分下单（只减仓订单不会被滑点保护拒绝）
+    const execution = await executeOrder({
       contract,
       size,
-      price: 0,
+      orderType: "market",
       reduceOnly: true,
+      onOrderPlaced: orderId => addPendingOrderId(symbol, orderId),
     });
+    const order = execution.order;
     
-    logger.info(`已下达止损平仓订单 ${symbol}，订单ID: ${order.id}`);
+    logger.info(`已下达止损平仓订单 ${symbol}，订单ID: ${execution.orderIds.join(", ")}`);
     
-    // 2. 等待订单完成并获取成交信息
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    // 未成交：保留条件单和未完成的平仓记录，下一次轮询由持仓监督器继续平仓
+    if (execution.filledSize <= 0) {
+      logger.error(`止损平仓订单未成交 ${symbol}，下一次轮询继续平仓`);
+      return false;
+    }
     
+    // 2. 获取成交信息（按实际成交数量记账，拆分下单中途失败时只记已成交部分）
     let actualExitPrice = 0;
-    let actualQuantity = quantity;
+    const actualQuantity = execution.filledSize;
     let pnl = 0;
     let totalFee = 0;
-    let orderFilled = false;
+    const orderFilled = execution.fillPrice > 0;
     
-    // 尝试从订单获取成交信息
-    if (order.id) {
-      for (let retry = 0; retry < 5; retry++) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        try {
-          const orderStatus = await exchangeClient.getOrder(order.id?.toString() || "");
-          
-          if (orderStatus.status === 'finished') {
-            const fillPrice = Number.parseFloat(orderStatus.fill_price || orderStatus.price || "0");
-            actualQuantity = Math.abs(Number.parseFloat(orderStatus.size || "0"));
-            
-            if (fillPrice > 0) {
-              actualExitPrice = fillPrice;
-              orderFilled = true;
-              logger.info(`从订单获取成交价格: ${actualExitPrice}`);
-              break;
-            }
-          }
-        } catch (statusError: any) {
-          logger.warn(`查询止损订单状态失败 (重试${retry + 1}/5): ${statusError.message}`);
-        }
-      }
+    if (orderFilled) {
+      actualExitPrice = execution.fillPrice;
+      logger.info(`从订单获取成交价格: ${actualExitPrice}`);
     }
     
     // 如果未能从订单获取价格，使用ticker价格
     if (actualExitPrice === 0) {
       try {
         const ticker = await exchangeClient.getFuturesTicker(contract);
-        actualExitPrice = Number.parseFloat(ticker.last || ticker.markPrice || "0");
+        actualExitPrice = ticker.last || ticker.markPrice;
         
         if (actualExitPrice > 0) {
           logger.warn(`未能从订单获取价格，使用ticker价格: ${actualExitPrice}`);
@@ -383,10 +354,10 @@ async function executeStopLossClose(
     
     // 3. 记录到trades表
     const insertResult = await dbClient.execute({
-      sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status, expected_price, slippage_percent)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       args: [
-        order.id?.toString() || "",
+        order?.id ?? "",
         symbol,
         side,
         "close",
@@ -397,6 +368,8 @@ async function executeStopLossClose(
         totalFee,
         getChinaTimeISO(),
         orderFilled ? "filled" : "pending",
+        execution.slippage?.expectedPrice ?? null,
+        execution.slippage?.actualSlippagePercent ?? null,
       ],
     });
     
@@ -434,16 +407,10 @@ async function executeStopLossClose(
       ],
     });
     
-    // 5. 从数据库删除持仓记录
-    await dbClient.execute({
-      sql: "DELETE FROM positions WHERE symbol = ?",
-      args: [symbol],
-    });
-    
-    logger.info(`止损平仓完成 ${symbol}，盈亏：${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT`);
+    // 5. 全部成交时撤销条件单、删除持仓记录；部分成交时写回剩余数量
+    const remaining = await settleFullClose(symbol, quantity, execution);
     
-    // 6. 从内存中清除记录
-    positionMonitorHistory.delete(symbol);
+    logger.info(`止损平仓${remaining > 0 ? `部分成交（剩余 ${remaining}）` : "完成"} ${symbol}，盈亏：${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT`);
     
     return true;
   } catch (error: any) {
@@ -453,174 +420,41 @@ async function executeStopLossClose(
 }
 
 /**
- * 检查所有持仓的止损条件
- */
-async function checkStopLoss() {
-  if (!isRunning) {
-    return;
-  }
-  
-  try {
-    const exchangeClient = createExchangeClient();
-    
-    // 1. 获取所有持仓
-    const gatePositions = await exchangeClient.getPositions();
-    const activePositions = gatePositions.filter((p: any) => Number.parseInt(p.size || "0") !== 0);
-    
-    if (activePositions.length === 0) {
-      // 清空内存记录
-      positionMonitorHistory.clear();
-      return;
-    }
-    
-    const now = Date.now();
-    
-    // 2. 检查每个持仓
-    for (const pos of activePositions) {
-      const size = Number.parseInt(pos.size || "0");
-      const symbol = pos.contract.replace("_USDT", "");
-      const side = size > 0 ? "long" : "short";
-      const quantity = Math.abs(size);
-      const entryPrice = Number.parseFloat(pos.entryPrice || "0");
-      const currentPrice = Number.parseFloat(pos.markPrice || "0");
-      const leverage = Number.parseInt(pos.leverage || "1");
-      
-      // 验证数据有效性
-      if (entryPrice === 0 || currentPrice === 0 || leverage === 0) {
-        logger.warn(`${symbol} 数据无效，跳过止损检查`);
-        continue;
-      }
-      
-      // 计算盈亏百分比（考虑杠杆）
-      const pnlPercent = calculatePnlPercent(entryPrice, currentPrice, side, leverage);
-      
-      // 获取或初始化监控历史记录
-      let history = positionMonitorHistory.get(symbol);
-      if (!history) {
-        history = {
-          lastCheckTime: now,
-          checkCount: 0,
-        };
-        positionMonitorHistory.set(symbol, history);
-        logger.info(`${symbol} 开始监控止损，当前盈亏: ${pnlPercent.toFixed(2)}%`);
-      }
-      
-      // 增加检查次数
-      history.checkCount++;
-      history.lastCheckTime = now;
-      
-      // 3. 检查止损条件
-      // 根据杠杆倍数确定止损阈值
-      const thresholdInfo = getStopLossThreshold(leverage);
-      
-      // 检查是否触发止损（亏损达到或超过止损线）
-      if (pnlPercent <= thresholdInfo.threshold) {
-        logger.error(`${symbol} 触发止损条件:`);
-        logger.error(`  风险等级: ${thresholdInfo.level} - ${thresholdInfo.description}`);
-        logger.error(`  杠杆倍数: ${leverage}x`);
-        logger.error(`  当前亏损: ${pnlPercent.toFixed(2)}%`);
-        logger.error(`  止损线: ${thresholdInfo.threshold.toFixed(2)}%`);
-        
-        // 执行止损平仓
-        const success = await executeStopLossClose(
-          symbol,
-          side,
-          quantity,
-          entryPrice,
-          currentPrice,
-          leverage,
-          pnlPercent,
-          thresholdInfo.threshold,
-          `${thresholdInfo.level} - ${thresholdInfo.description}`
-        );
-        
-        if (success) {
-          logger.info(`${symbol} 止损平仓成功`);
-        }
-      } else {
-        // 每10次检查输出一次调试日志
-        if (history.checkCount % 10 === 0) {
-          logger.debug(`${symbol} ${thresholdInfo.level} 监控中: ${leverage}x杠杆, 当前${pnlPercent.toFixed(2)}%, 止损线${thresholdInfo.threshold.toFixed(2)}%`);
-        }
-      }
-    }
-    
-    // 4. 清理已平仓的记录
-    const activeSymbols = new Set(
-      activePositions.map((p: any) => p.contract.replace("_USDT", ""))
-    );
-    
-    for (const symbol of positionMonitorHistory.keys()) {
-      if (!activeSymbols.has(symbol)) {
-        positionMonitorHistory.delete(symbol);
-        logger.debug(`清理已平仓的记录: ${symbol}`);
-      }
-    }
-    
-  } catch (error: any) {
-    logger.error(`止损检查失败: ${error.message}`);
-  }
-}
-
-/**
- * 启动止损监控（仅限波段策略）
+ * 检查单个持仓的止损条件，触发时立即平仓
+ * @returns 是否已平仓
  */
-export function startStopLossMonitor() {
-  // 检查当前策略是否启用代码级止损
-  const strategy = getTradingStrategy();
-  const params = getStrategyParams(strategy);
-  
-  if (!isStopLossEnabled()) {
-    logger.info(`当前策略 [${params.name}] 未启用代码级止损监控（enableCodeLevelProtection = false）`);
-    return;
-  }
+export async function evaluateStopLoss(position: SupervisedPosition): Promise<boolean> {
+  const { symbol, side, quantity, entryPrice, currentPrice, leverage, pnlPercent } = position;
   
-  if (isRunning) {
-    logger.warn("止损监控已在运行中");
-    return;
-  }
+  // 根据杠杆倍数确定止损阈值
+  const thresholdInfo = getStopLossThreshold(leverage);
   
-  const config = getStopLossConfig();
-  if (!config) {
-    logger.error(`策略 [${params.name}] 的止损配置缺失`);
-    return;
+  // 检查是否触发止损（亏损达到或超过止损线）
+  if (pnlPercent > thresholdInfo.threshold) {
+    return false;
   }
   
-  isRunning = true;
-  logger.info(`启动止损监控（自动止损系统 - ${params.name}策略）`);
-  logger.info(`  当前策略: ${strategy} (${params.name})`);
-  logger.info("  检查间隔: 10秒");
-  logger.info(`  低风险: ${config.lowRisk.description}`);
-  logger.info(`  中风险: ${config.mediumRisk.description}`);
-  logger.info(`  高风险: ${config.highRisk.description}`);
-  
-  // 立即执行一次
-  checkStopLoss();
-  
-  // 每10秒执行一次
-  monitorInterval = setInterval(() => {
-    checkStopLoss();
-  }, 10 * 1000);
-}
-
-/**
- * 停止止损监控
- */
-export function stopStopLossMonitor() {
-  if (!isRunning) {
-    logger.warn("止损监控未在运行");
-    return;
-  }
+  logger.error(`${symbol} 触发止损条件:`);
+  logger.error(`  风险等级: ${thresholdInfo.level} - ${thresholdInfo.description}`);
+  logger.error(`  杠杆倍数: ${leverage}x`);
+  logger.error(`  当前亏损: ${pnlPercent.toFixed(2)}%`);
+  logger.error(`  止损线: ${thresholdInfo.threshold.toFixed(2)}%`);
   
-  isRunning = false;
+  // 执行止损平仓
+  const success = await executeStopLossClose(
+    symbol,
+    side,
+    quantity,
+    entryPrice,
+    currentPrice,
+    leverage,
+    pnlPercent,
+    thresholdInfo.threshold,
+    `${thresholdInfo.level} - ${thresholdInfo.description}`
+  );
   
-  if (monitorInterval) {
-    clearInterval(monitorInterval);
-    monitorInterval = null;
+  if (success) {
+    logger.info(`${symbol} 止损平仓成功`);
   }
-  
-  positionMonitorHistory.clear();
-  logger.info("止损监控已停止");
+  return success;
 }
-
-
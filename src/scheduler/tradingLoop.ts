@@ -21,14 +21,24 @@
  */
 import cron from "node-cron";
 import { createLogger } from "../utils/loggerUtils";
+import { getErrorMessage } from "../utils/errorUtils";
 import { createClient } from "@libsql/client";
-import { createTradingAgent, generateTradingPrompt, getAccountRiskConfig, getTradingStrategy, getStrategyParams } from "../agents/tradingAgent";
-import { createExchangeClient } from "../services/exchangeClient";
+import { createTradingAgent, generateTradingPrompt, getAccountRiskConfig, getTradingStrategy, getStrategyParams, getTradingIntervalMinutes } from "../agents/tradingAgent";
+import { resolveStrategy } from "../strategies";
+import { createExchangeClient, getExchangeDisplayName, type Candle, type Position } from "../services/exchangeClient";
+import { createCandleStore } from "../services/candleStore";
 import { getChinaTimeISO } from "../utils/timeUtils";
 import { RISK_PARAMS } from "../config/riskParams";
 import { getQuantoMultiplier } from "../utils/contractUtils";
 import { comprehensiveDataCheck } from "../utils/dataQuality";
 import { getDynamicStopLoss, checkCircuitBreaker } from "../utils/riskControl";
+import { DRAWDOWN_GUARD_LEVEL_LABELS, evaluateDrawdownGuard, markDrawdownGuardForceClosed } from "../utils/drawdownGuard";
+import { startLlmUsageCycle, linkLlmUsageToDecision } from "../agents/llmUsage";
+import { syncProtectiveOrders } from "../services/protectiveOrders";
+import { executeOrder } from "../services/orderExecution";
+import { settleFullClose } from "./monitorState";
+import { tryLockPosition, unlockPosition } from "../utils/positionLock";
+import { parseStructuredDecision, extractToolCalls, deriveDecisionFromToolCalls, type StructuredDecision, type ToolCallRecord } from "../agents/decisionSchema";
 
 const logger = createLogger({
   name: "trading-loop",
@@ -52,6 +62,61 @@ let accountRiskConfig = getAccountRiskConfig();
 // 下次执行时间
 let nextExecutionTime: Date | null = null;
 
+/**
+ * 交易决策 Agent（只需要 generateText，返回结构与 VoltAgent 一致：含 steps/text）
+ */
+export interface TradingDecisionAgent {
+  generateText(prompt: string, options?: Record<string, unknown>): Promise<unknown>;
+}
+
+/**
+ * 交易决策 Agent 工厂
+ */
+export type TradingAgentFactory = (
+  intervalMinutes: number,
+  marketData: Record<string, unknown>
+) => Promise<TradingDecisionAgent>;
+
+// 替换的 Agent 工厂（回测等离线场景使用录制回放或确定性实现），为空时按策略选择
+let tradingAgentFactory: TradingAgentFactory | null = null;
+
+/**
+ * 获取当前使用的交易决策 Agent 工厂
+ * 优先级：setTradingAgentFactory 替换的工厂 > 策略自带的决策 Agent（如规则策略）> 默认 LLM Agent
+ */
+function getTradingAgentFactory(): TradingAgentFactory {
+  return tradingAgentFactory
+    || resolveStrategy(getTradingStrategy()).createDecisionAgent
+    || createTradingAgent;
+}
+
+/**
+ * 调用 Agent 生成交易决策
+ * 启用 RULE_BASED_FALLBACK 时，AI 模型调用失败（服务不可用、额度耗尽等）会改用规则策略完成本周期决策
+ */
+async function generateTradingDecision(prompt: string, intervalMinutes: number, marketData: Record<string, unknown>): Promise<unknown> {
+  const factory = getTradingAgentFactory();
+  try {
+    // 传递市场数据给Agent（用于子Agent）
+    const agent = await factory(intervalMinutes, marketData);
+    // 设置足够大的 maxOutputTokens 以避免输出被截断
+    // DeepSeek API 限制: max_tokens 范围为 [1, 8192]
+    return await agent.generateText(prompt, {
+      maxOutputTokens: 8192,
+      maxSteps: 20,
+      temperature: 0.4,
+    });
+  } catch (error) {
+    if (process.env.RULE_BASED_FALLBACK !== "true" || factory !== createTradingAgent) {
+      throw error;
+    }
+    logger.warn(`AI 决策失败，本周期改用规则策略: ${getErrorMessage(error)}`);
+    const { createRuleBasedAgent } = await import("../agents/ruleBasedAgent");
+    const fallbackAgent = await createRuleBasedAgent(intervalMinutes, marketData);
+    return fallbackAgent.generateText(prompt);
+  }
+}
+
 /**
  * 确保数值是有效的有限数字，否则返回默认值
  */
@@ -80,7 +145,10 @@ function ensureRange(value: number, min: number, max: number, defaultValue?: num
  */
 async function collectMarketData() {
   const exchangeClient = createExchangeClient();
+  const candleStore = createCandleStore();
   const marketData: Record<string, any> = {};
+  // 同一周期的所有币种使用相同的时间戳，便于按时间对齐计算相关性
+  const signalTimestamp = getChinaTimeISO();
 
   for (const symbol of SYMBOLS) {
     try {
@@ -96,7 +164,7 @@ async function collectMarketData() {
           ticker = await exchangeClient.getFuturesTicker(contract);
           
           // 验证价格数据有效性
-          const price = Number.parseFloat(ticker.last || "0");
+          const price = ticker.last;
           if (price === 0 || !Number.isFinite(price)) {
             throw new Error(`价格无效: ${ticker.last}`);
           }
@@ -114,12 +182,13 @@ async function collectMarketData() {
       }
       
       // 获取所有时间框架的K线数据（优化后的配置，确保技术指标准确性）
-      const candles1m = await exchangeClient.getFuturesCandles(contract, "1m", 150);   // 2.5小时，EMA50有充足验证数据
-      const candles3m = await exchangeClient.getFuturesCandles(contract, "3m", 120);   // 6小时，覆盖半个交易日
-      const candles5m = await exchangeClient.getFuturesCandles(contract, "5m", 100);   // 8.3小时，日内趋势分析
-      const candles15m = await exchangeClient.getFuturesCandles(contract, "15m", 96);  // 24小时，完整一天
-      const candles30m = await exchangeClient.getFuturesCandles(contract, "30m", 120); // 2.5天，中期趋势
-      const candles1h = await exchangeClient.getFuturesCandles(contract, "1h", 168);   // 7天完整一周，周级别分析
+      // 从K线存储读取，只有缺失的K线才会请求交易所
+      const candles1m = await candleStore.getCandles(contract, "1m", 150);   // 2.5小时，EMA50有充足验证数据
+      const candles3m = await candleStore.getCandles(contract, "3m", 120);   // 6小时，覆盖半个交易日
+      const candles5m = await candleStore.getCandles(contract, "5m", 100);   // 8.3小时，日内趋势分析
+      const candles15m = await candleStore.getCandles(contract, "15m", 96);  // 24小时，完整一天
+      const candles30m = await candleStore.getCandles(contract, "30m", 120); // 2.5天，中期趋势
+      const candles1h = await candleStore.getCandles(contract, "1h", 168);   // 7天完整一周，周级别分析
       
       // 计算每个时间框架的指标
       const indicators1m = calculateIndicators(candles1m);
@@ -141,7 +210,7 @@ async function collectMarketData() {
       // 验证技术指标有效性和数据完整性
       const dataTimestamp = getChinaTimeISO();
       const dataQuality = {
-        price: Number.isFinite(Number.parseFloat(ticker.last || "0")),
+        price: Number.isFinite(ticker.last),
         ema20: Number.isFinite(indicators.ema20),
         macd: Number.isFinite(indicators.macd),
         rsi14: Number.isFinite(indicators.rsi14) && indicators.rsi14 >= 0 && indicators.rsi14 <= 100,
@@ -176,7 +245,7 @@ async function collectMarketData() {
       let fundingRate = 0;
       try {
         const fr = await exchangeClient.getFundingRate(contract);
-        fundingRate = Number.parseFloat(fr.r || "0");
+        fundingRate = fr.rate;
         if (!Number.isFinite(fundingRate)) {
           fundingRate = 0;
         }
@@ -190,9 +259,9 @@ async function collectMarketData() {
       
       // 将各时间框架指标添加到市场数据
       marketData[symbol] = {
-        price: Number.parseFloat(ticker.last || "0"),
-        change24h: Number.parseFloat(ticker.change_percentage || "0"),
-        volume24h: Number.parseFloat(ticker.volume_24h || "0"),
+        price: ticker.last,
+        change24h: ticker.changePercentage,
+        volume24h: ticker.volume24h,
         fundingRate,
         openInterest,
         ...indicators,
@@ -213,11 +282,11 @@ async function collectMarketData() {
       // 保存技术指标到数据库（确保所有数值都是有效的）
       await dbClient.execute({
         sql: `INSERT INTO trading_signals 
-              (symbol, timestamp, price, ema_20, ema_50, macd, rsi_7, rsi_14, volume, funding_rate)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              (symbol, timestamp, price, ema_20, ema_50, macd, rsi_7, rsi_14, volume, funding_rate, atr_3, atr_14)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
           symbol,
-          getChinaTimeISO(),
+          signalTimestamp,
           ensureFinite(marketData[symbol].price),
           ensureFinite(indicators.ema20),
           ensureFinite(indicators.ema50),
@@ -226,6 +295,8 @@ async function collectMarketData() {
           ensureFinite(indicators.rsi14, 50),
           ensureFinite(indicators.volume),
           ensureFinite(fundingRate),
+          ensureFinite(longerTermContext.atr3), // 1小时 ATR
+          ensureFinite(longerTermContext.atr14),
         ],
       });
     } catch (error) {
@@ -233,6 +304,17 @@ async function collectMarketData() {
     }
   }
 
+  // 清理过期的技术指标记录
+  try {
+    const cutoff = new Date(Date.now() - RISK_PARAMS.TRADING_SIGNALS_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await dbClient.execute({
+      sql: "DELETE FROM trading_signals WHERE timestamp < ?",
+      args: [getChinaTimeISO(cutoff)],
+    });
+  } catch (error) {
+    logger.warn("清理过期技术指标记录失败:", error);
+  }
+
   return marketData;
 }
 
@@ -241,7 +323,7 @@ async function collectMarketData() {
  * 参照 1.md 格式
  * @param candles 全部历史数据（至少60个数据点）
  */
-function calculateIntradaySeries(candles: any[]) {
+function calculateIntradaySeries(candles: Candle[]) {
   if (!candles || candles.length === 0) {
     return {
       midPrices: [],
@@ -253,7 +335,7 @@ function calculateIntradaySeries(candles: any[]) {
   }
 
   // 提取收盘价
-  const closes = candles.map((c) => Number.parseFloat(c.c || "0")).filter(n => Number.isFinite(n));
+  const closes = candles.map((c) => c.close).filter(n => Number.isFinite(n));
   
   if (closes.length === 0) {
     return {
@@ -304,7 +386,7 @@ function calculateIntradaySeries(candles: any[]) {
  * 计算更长期的上下文数据（1小时级别 - 用于短线交易）
  * 参照 1.md 格式
  */
-function calculateLongerTermContext(candles: any[]) {
+function calculateLongerTermContext(candles: Candle[]) {
   if (!candles || candles.length < 26) {
     return {
       ema20: 0,
@@ -318,10 +400,10 @@ function calculateLongerTermContext(candles: any[]) {
     };
   }
 
-  const closes = candles.map((c) => Number.parseFloat(c.c || "0")).filter(n => Number.isFinite(n));
-  const highs = candles.map((c) => Number.parseFloat(c.h || "0")).filter(n => Number.isFinite(n));
-  const lows = candles.map((c) => Number.parseFloat(c.l || "0")).filter(n => Number.isFinite(n));
-  const volumes = candles.map((c) => Number.parseFloat(c.v || "0")).filter(n => Number.isFinite(n));
+  const closes = candles.map((c) => c.close).filter(n => Number.isFinite(n));
+  const highs = candles.map((c) => c.high).filter(n => Number.isFinite(n));
+  const lows = candles.map((c) => c.low).filter(n => Number.isFinite(n));
+  const volumes = candles.map((c) => c.volume).filter(n => Number.isFinite(n));
 
   // 计算 EMA
   const ema20 = calcEMA(closes, 20);
@@ -434,19 +516,8 @@ function calcMACD(prices: number[]) {
 
 /**
  * 计算技术指标
- * 
- * K线数据格式：FuturesCandlestick 对象
- * {
- *   t: number,    // 时间戳
- *   v: number,    // 成交量
- *   c: string,    // 收盘价
- *   h: string,    // 最高价
- *   l: string,    // 最低价
- *   o: string,    // 开盘价
- *   sum: string   // 总成交额
- * }
  */
-function calculateIndicators(candles: any[]) {
+function calculateIndicators(candles: Candle[]) {
   if (!candles || candles.length === 0) {
     return {
       currentPrice: 0,
@@ -460,37 +531,12 @@ function calculateIndicators(candles: any[]) {
     };
   }
 
-  // 处理对象格式的K线数据（Gate.io API返回的是对象，不是数组）
   const closes = candles
-    .map((c) => {
-      // 如果是对象格式（FuturesCandlestick）
-      if (c && typeof c === 'object' && 'c' in c) {
-        return Number.parseFloat(c.c);
-      }
-      // 如果是数组格式（兼容旧代码）
-      if (Array.isArray(c)) {
-        return Number.parseFloat(c[2]);
-      }
-      return NaN;
-    })
+    .map((c) => c.close)
     .filter(n => Number.isFinite(n));
 
-  const volumes = candles
-    .map((c) => {
-      // 如果是对象格式（FuturesCandlestick）
-      if (c && typeof c === 'object' && 'v' in c) {
-        const vol = Number.parseFloat(c.v);
-        // 验证成交量：必须是有限数字且非负
-        return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-      }
-      // 如果是数组格式（兼容旧代码）
-      if (Array.isArray(c)) {
-        const vol = Number.parseFloat(c[1]);
-        return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-      }
-      return 0;
-    })
-    .filter(n => n >= 0); // 过滤掉负数成交量
+  // 验证成交量：必须是有限数字且非负
+  const volumes = candles.map((c) => (Number.isFinite(c.volume) && c.volume >= 0 ? c.volume : 0));
 
   if (closes.length === 0 || volumes.length === 0) {
     return {
@@ -606,9 +652,9 @@ async function getAccountInfo() {
       : initialBalance;
     
     // 从 Gate.io API 返回的数据中提取字段
-    const accountTotal = Number.parseFloat(account.total || "0");
-    const availableBalance = Number.parseFloat(account.available || "0");
-    const unrealisedPnl = Number.parseFloat(account.unrealisedPnl || "0");
+    const accountTotal = account.total;
+    const availableBalance = account.available;
+    const unrealisedPnl = account.unrealisedPnl;
     
     // Gate.io 的 account.total 不包含未实现盈亏
     // totalBalance 直接使用 account.total（不包含未实现盈亏）
@@ -652,7 +698,7 @@ async function getAccountInfo() {
  * 2. 提供历史查询和监控页面展示
  * 实时持仓数据应该直接从 Gate.io 获取
  */
-async function syncPositionsFromGate(cachedPositions?: any[]) {
+async function syncPositionsFromGate(cachedPositions?: Position[]) {
   const exchangeClient = createExchangeClient();
   
   try {
@@ -664,7 +710,7 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
     );
     
     // 检查 Gate.io 是否有持仓（可能 API 有延迟）
-    const activeGatePositions = gatePositions.filter((p: any) => Number.parseInt(p.size || "0") !== 0);
+    const activeGatePositions = gatePositions.filter(p => p.size !== 0);
     
     // 如果 Gate.io 返回0个持仓但数据库有持仓，可能是 API 延迟，不清空数据库
     if (activeGatePositions.length === 0 && dbResult.rows.length > 0) {
@@ -677,23 +723,23 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
     let syncedCount = 0;
     
     for (const pos of gatePositions) {
-      const size = Number.parseInt(pos.size || "0");
+      const size = pos.size;
       if (size === 0) continue;
       
       const symbol = pos.contract.replace("_USDT", "");
-      let entryPrice = Number.parseFloat(pos.entryPrice || "0");
-      let currentPrice = Number.parseFloat(pos.markPrice || "0");
-      const leverage = Number.parseInt(pos.leverage || "1");
+      let entryPrice = pos.entryPrice;
+      let currentPrice = pos.markPrice;
+      const leverage = pos.leverage || 1;
       const side = size > 0 ? "long" : "short";
       const quantity = Math.abs(size);
-      const unrealizedPnl = Number.parseFloat(pos.unrealisedPnl || "0");
-      let liquidationPrice = Number.parseFloat(pos.liqPrice || "0");
+      const unrealizedPnl = pos.unrealisedPnl;
+      let liquidationPrice = pos.liqPrice;
       
       if (entryPrice === 0 || currentPrice === 0) {
         try {
           const ticker = await exchangeClient.getFuturesTicker(pos.contract);
           if (currentPrice === 0) {
-            currentPrice = Number.parseFloat(ticker.markPrice || ticker.last || "0");
+            currentPrice = ticker.markPrice || ticker.last;
           }
           if (entryPrice === 0) {
             entryPrice = currentPrice;
@@ -742,11 +788,14 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
       syncedCount++;
     }
     
-    const activeGatePositionsCount = gatePositions.filter((p: any) => Number.parseInt(p.size || "0") !== 0).length;
+    const activeGatePositionsCount = gatePositions.filter(p => p.size !== 0).length;
     if (activeGatePositionsCount > 0 && syncedCount === 0) {
       logger.error(`Gate.io 有 ${activeGatePositionsCount} 个持仓，但数据库同步失败！`);
     }
     
+    // 撤销遗留的止损止盈条件单，为缺少条件单的持仓补挂
+    await syncProtectiveOrders(activeGatePositions);
+    
   } catch (error) {
     logger.error("同步持仓失败:", error as any);
   }
@@ -757,7 +806,7 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
  * @param cachedGatePositions 可选，已获取的原始Gate持仓数据，避免重复调用API
  * @returns 格式化后的持仓数据
  */
-async function getPositions(cachedGatePositions?: any[]) {
+async function getPositions(cachedGatePositions?: Position[]) {
   const exchangeClient = createExchangeClient();
   
   try {
@@ -776,16 +825,16 @@ async function getPositions(cachedGatePositions?: any[]) {
     
     // 过滤并格式化持仓
     const positions = gatePositions
-      .filter((p: any) => Number.parseInt(p.size || "0") !== 0)
+      .filter(p => p.size !== 0)
       .map((p: any) => {
-        const size = Number.parseInt(p.size || "0");
+        const size = p.size;
         const symbol = p.contract.replace("_USDT", "");
         
         // 从数据库读取开仓时间、峰值盈利和杠杆数
         const dbData = dbDataMap.get(symbol);
         let openedAt = dbData?.opened_at;
         const peakPnlPercent = dbData?.peak_pnl_percent || 0;
-        const gateLeverage = Number.parseInt(p.leverage || "1");
+        const gateLeverage = p.leverage || 1;
         
         // 🔧 修复：优先使用数据库中记录的杠杆数（开仓时的杠杆数），而不是 Gate.io 的实时杠杆数
         const leverage = dbData?.leverage || gateLeverage;
@@ -798,14 +847,9 @@ async function getPositions(cachedGatePositions?: any[]) {
           );
         }
         
-        // 如果数据库中没有开仓时间，尝试从Gate.io的create_time获取
-        if (!openedAt && p.create_time) {
-          // Gate.io的create_time是UNIX时间戳（秒），需要转换为ISO字符串
-          if (typeof p.create_time === 'number') {
-            openedAt = new Date(p.create_time * 1000).toISOString();
-          } else {
-            openedAt = p.create_time;
-          }
+        // 如果数据库中没有开仓时间，尝试使用交易所返回的开仓时间（UNIX秒）
+        if (!openedAt && p.openTime) {
+          openedAt = new Date(p.openTime * 1000).toISOString();
         }
         
         // 如果还是没有，使用当前时间（这种情况不应该发生）
@@ -819,12 +863,12 @@ async function getPositions(cachedGatePositions?: any[]) {
           contract: p.contract,
           quantity: Math.abs(size),
           side: size > 0 ? "long" : "short",
-          entry_price: Number.parseFloat(p.entryPrice || "0"),
-          current_price: Number.parseFloat(p.markPrice || "0"),
-          liquidation_price: Number.parseFloat(p.liqPrice || "0"),
-          unrealized_pnl: Number.parseFloat(p.unrealisedPnl || "0"),
+          entry_price: p.entryPrice,
+          current_price: p.markPrice,
+          liquidation_price: p.liqPrice,
+          unrealized_pnl: p.unrealisedPnl,
           leverage, // 使用数据库中的杠杆数
-          margin: Number.parseFloat(p.margin || "0"),
+          margin: p.margin,
           opened_at: openedAt,
           peak_pnl_percent: peakPnlPercent, // 添加峰值盈利字段
         };
@@ -1058,14 +1102,14 @@ async function closeAllPositions(reason: string): Promise<void> {
     logger.warn(`清仓所有持仓，原因: ${reason}`);
     
     const positions = await exchangeClient.getPositions();
-    const activePositions = positions.filter((p: any) => Number.parseInt(p.size || "0") !== 0);
+    const activePositions = positions.filter(p => p.size !== 0);
     
     if (activePositions.length === 0) {
       return;
     }
     
     for (const pos of activePositions) {
-      const size = Number.parseFloat(pos.size || "0"); // 修复：使用 parseFloat 而非 parseInt
+      const size = pos.size;
       const contract = pos.contract;
       const symbol = contract.replace("_USDT", "");
       
@@ -1076,14 +1120,18 @@ async function closeAllPositions(reason: string): Promise<void> {
       }
       
       try {
-        await exchangeClient.placeOrder({
-          contract,
-          size: -size,
-          price: 0, // 市价单必须传 price: 0
-          reduceOnly: true, // 只减仓，不开新仓
-        });
+        // 市价只减仓，由订单执行服务按盘口滑点拆分下单
+        const execution = await executeOrder({ contract, size: -size, orderType: "market", reduceOnly: true });
+        if (execution.filledSize <= 0) {
+          logger.error(`平仓订单未成交: ${symbol}，保留条件单和持仓记录`);
+          continue;
+        }
+        
+        logger.info(`已平仓: ${symbol} ${execution.filledSize}/${Math.abs(size)}张`);
         
-        logger.info(`已平仓: ${symbol} ${Math.abs(size)}张`);
+        // 全部成交时撤销交易所止损止盈条件单并删除持仓记录（避免残留条件单作用于之后新开的同向持仓），
+        // 部分成交时写回剩余数量
+        await settleFullClose(symbol, Math.abs(size), execution);
       } catch (error) {
         logger.error(`平仓失败: ${symbol}`, error as any);
       }
@@ -1126,8 +1174,9 @@ async function checkAccountThresholds(accountInfo: any): Promise<boolean> {
  */
 async function executeTradingDecision() {
   iterationCount++;
+  startLlmUsageCycle(iterationCount);
   const minutesElapsed = Math.floor((Date.now() - tradingStartTime.getTime()) / 60000);
-  const intervalMinutes = Number.parseInt(process.env.TRADING_INTERVAL_MINUTES || "5");
+  const intervalMinutes = getTradingIntervalMinutes();
   
   logger.info(`\n${"=".repeat(80)}`);
   logger.info(`交易周期 #${iterationCount} (运行${minutesElapsed}分钟)`);
@@ -1203,6 +1252,26 @@ async function executeTradingDecision() {
       return;
     }
     
+    // 2.1 账户回撤保护（与账户止损线相互独立：强制平仓后继续运行，等待冷却或手动重置）
+    try {
+      const drawdownGuard = await evaluateDrawdownGuard();
+      accountInfo.drawdownGuard = drawdownGuard;
+      
+      if (drawdownGuard.shouldForceClose) {
+        const reason = `账户回撤 ${drawdownGuard.drawdownPercent.toFixed(2)}% 触发回撤保护强制平仓（峰值 ${drawdownGuard.peakEquity.toFixed(2)} USDT）`;
+        await closeAllPositions(reason);
+        await markDrawdownGuardForceClosed(reason);
+        logger.warn("回撤保护处于强制平仓级别，跳过本次交易决策");
+        return;
+      }
+      
+      if (drawdownGuard.level !== "normal") {
+        logger.warn(`回撤保护级别: ${DRAWDOWN_GUARD_LEVEL_LABELS[drawdownGuard.level]}，账户回撤 ${drawdownGuard.drawdownPercent.toFixed(2)}%`);
+      }
+    } catch (error) {
+      logger.error("回撤保护检查失败:", error);
+    }
+    
     // 3. 同步持仓信息（优化：只调用一次API，避免重复）
     try {
       const exchangeClient = createExchangeClient();
@@ -1311,16 +1380,10 @@ async function executeTradingDecision() {
       let shouldClose = false;
       let closeReason = "";
       
-      // a) 最大持仓时间强制平仓检查（从环境变量读取）
+      // a) 最大持仓时间强制平仓由持仓监督器（positionSupervisor）检查，这里只计算持仓时间
       const openedTime = new Date(pos.opened_at);
       const now = new Date();
       const holdingHours = (now.getTime() - openedTime.getTime()) / (1000 * 60 * 60);
-      const MAX_HOLDING_HOURS = RISK_PARAMS.MAX_HOLDING_HOURS;
-      
-      if (holdingHours >= MAX_HOLDING_HOURS) {
-        shouldClose = true;
-        closeReason = `持仓时间已达 ${holdingHours.toFixed(1)} 小时，超过${MAX_HOLDING_HOURS}小时限制`;
-      }
       
       // b) 【优化】动态极端止损保护（根据杠杆调整）
       // 只在极端情况下强制平仓，避免账户爆仓
@@ -1335,39 +1398,25 @@ async function executeTradingDecision() {
         logger.error(`${closeReason}`);
       }
       
-      // c) 超短线策略专属风控规则
+      // c) 策略专属风控规则（如超短线的周期锁利、30分钟盈利平仓规则）
       const strategy = getTradingStrategy();
-      if (strategy === 'ultra-short' && !shouldClose) {
-        const holdingMinutes = holdingHours * 60;
-        
-        // 计算手续费成本（开仓 + 平仓，总共约 0.1%）
-        // 考虑杠杆后，需要的盈利百分比 = 0.1% * 杠杆
-        const feeThreshold = 0.1 * leverage;
-        
-        // 移动止盈的第一档触发阈值
+      const positionRules = resolveStrategy(strategy).positionRules || [];
+      if (!shouldClose && positionRules.length > 0) {
         const params = getStrategyParams(strategy);
-        const trailingStopTrigger = params.trailingStop.level1.trigger; // 4%
-        
-        // 规则1：每周期2%锁利规则（优先级最高）
-        // 每个交易周期内，如果盈利 >2% 但未触发移动止盈（<4%），立即平仓锁定利润
-        if (pnlPercent > 2 && pnlPercent < trailingStopTrigger) {
-          shouldClose = true;
-          closeReason = `超短线策略周期锁利规则：盈利${pnlPercent.toFixed(2)}% >2%，未达到移动止盈触发线${trailingStopTrigger}%，立即平仓锁定利润`;
-          logger.info(`【超短线周期锁利】${symbol} ${closeReason}`);
-        }
-        
-        // 规则2：30分钟盈利平仓规则（保底规则）
-        // 如果持仓超过30分钟，处于盈利状态，但没有触发移动止盈，且覆盖了交易费，进行平仓
-        if (!shouldClose && holdingMinutes >= 30 && pnlPercent > feeThreshold && pnlPercent < trailingStopTrigger) {
-          shouldClose = true;
-          closeReason = `超短线策略30分钟盈利平仓规则：持仓${holdingMinutes.toFixed(1)}分钟，盈利${pnlPercent.toFixed(2)}%（已覆盖手续费${feeThreshold.toFixed(2)}%），但未达到移动止盈触发线${trailingStopTrigger}%，执行保守平仓`;
-          logger.info(`【超短线30分钟规则】${symbol} ${closeReason}`);
+        for (const rule of positionRules) {
+          const reason = rule({ symbol, side, pnlPercent, peakPnlPercent, leverage, holdingHours, params });
+          if (reason) {
+            shouldClose = true;
+            closeReason = reason;
+            logger.info(`【策略风控规则】${symbol} ${closeReason}`);
+            break;
+          }
         }
       }
       
       // d) 其他风控检查已移除，交由AI全权决策
       // AI负责：止损、移动止盈、分批止盈、时间止盈、峰值回撤等策略性决策
-      // 系统只保留底线安全保护（极端止损、最大持仓时间强制平仓、账户回撤保护）
+      // 系统只保留底线安全保护（极端止损、账户回撤保护；最大持仓时间由持仓监督器强制平仓）
       
       logger.info(`${symbol} 持仓监控: 盈亏=${pnlPercent.toFixed(2)}%, 持仓时间=${holdingHours.toFixed(1)}h, 峰值盈利=${peakPnlPercent.toFixed(2)}%, 杠杆=${leverage}x`);
       
@@ -1381,117 +1430,76 @@ async function executeTradingDecision() {
           continue;
         }
         
+        // 持仓正在被持仓监督器平仓，跳过
+        if (!tryLockPosition(symbol)) {
+          logger.warn(`${symbol} 正在由持仓监督器处理，跳过强制平仓`);
+          continue;
+        }
+        
         try {
           const contract = `${symbol}_USDT`;
           const size = side === 'long' ? -pos.quantity : pos.quantity;
           
-          // 1. 执行平仓订单
-          const order = await exchangeClient.placeOrder({
-            contract,
-            size,
-            price: 0,
-            reduceOnly: true,
-          });
+          // 1. 市价平仓（由订单执行服务按盘口滑点拆分下单）
+          const execution = await executeOrder({ contract, size, orderType: "market", reduceOnly: true });
+          const order = execution.order;
           
-          logger.info(`已下达强制平仓订单 ${symbol}，订单ID: ${order.id}`);
+          // 未成交：保留条件单和持仓记录，下一个周期重新检查
+          if (execution.filledSize <= 0) {
+            logger.error(`强制平仓订单未成交 ${symbol}，保留条件单和持仓记录，下一个周期重新检查`);
+            continue;
+          }
           
-          // 2. 等待订单完成并获取成交信息（最多重试5次）
-          let actualExitPrice = 0;
-          let actualQuantity = Math.abs(pos.quantity);
-          let pnl = 0;
-          let totalFee = 0;
-          let orderFilled = false;
+          logger.info(`已下达强制平仓订单 ${symbol}，订单ID: ${order?.id}`);
           
-          for (let retry = 0; retry < 5; retry++) {
-            await new Promise(resolve => setTimeout(resolve, 500));
-            
-            try {
-              const orderStatus = await exchangeClient.getOrder(order.id?.toString() || "");
-              
-              if (orderStatus.status === 'finished') {
-                actualExitPrice = Number.parseFloat(orderStatus.fill_price || orderStatus.price || "0");
-                actualQuantity = Math.abs(Number.parseFloat(orderStatus.size || "0"));
-                orderFilled = true;
-                
-                // 获取合约乘数
-                const quantoMultiplier = await getQuantoMultiplier(contract);
-                
-                // 计算盈亏
-                const entryPrice = pos.entry_price;
-                const priceChange = side === "long" 
-                  ? (actualExitPrice - entryPrice) 
-                  : (entryPrice - actualExitPrice);
-                
-                const grossPnl = priceChange * actualQuantity * quantoMultiplier;
-                
-                // 计算手续费（开仓 + 平仓）
-                const openFee = entryPrice * actualQuantity * quantoMultiplier * 0.0005;
-                const closeFee = actualExitPrice * actualQuantity * quantoMultiplier * 0.0005;
-                totalFee = openFee + closeFee;
-                
-                // 净盈亏
-                pnl = grossPnl - totalFee;
-                
-                logger.info(`平仓成交: 价格=${actualExitPrice}, 数量=${actualQuantity}, 盈亏=${pnl.toFixed(2)} USDT`);
-                break;
-              }
-            } catch (statusError: any) {
-              logger.warn(`查询订单状态失败 (重试${retry + 1}/5): ${statusError.message}`);
-            }
-          }
+          // 2. 按成交均价计算盈亏（开仓 + 平仓手续费）
+          const orderFilled = execution.fillPrice > 0;
+          const actualExitPrice = orderFilled ? execution.fillPrice : pos.current_price;
+          const actualQuantity = execution.filledSize;
+          const quantoMultiplier = await getQuantoMultiplier(contract);
+          const priceChange = side === "long" 
+            ? (actualExitPrice - pos.entry_price) 
+            : (pos.entry_price - actualExitPrice);
+          const grossPnl = priceChange * actualQuantity * quantoMultiplier;
+          const openFee = pos.entry_price * actualQuantity * quantoMultiplier * 0.0005;
+          const closeFee = actualExitPrice * actualQuantity * quantoMultiplier * 0.0005;
+          const totalFee = openFee + closeFee;
+          const pnl = grossPnl - totalFee;
+          
+          logger.info(`平仓成交: 价格=${actualExitPrice}, 数量=${actualQuantity}, 盈亏=${pnl.toFixed(2)} USDT${execution.complete ? "" : `（部分成交，计划 ${Math.abs(pos.quantity)} 张）`}`);
           
-          // 3. 记录到trades表（无论是否成功获取详细信息都要记录）
+          // 3. 记录到trades表
           try {
-            // 关键验证：检查盈亏计算是否正确
-            const finalPrice = actualExitPrice || pos.current_price;
-            const quantoMultiplier = await getQuantoMultiplier(contract);
-            const notionalValue = finalPrice * actualQuantity * quantoMultiplier;
-            const priceChangeCheck = side === "long" 
-              ? (finalPrice - pos.entry_price) 
-              : (pos.entry_price - finalPrice);
-            const expectedPnl = priceChangeCheck * actualQuantity * quantoMultiplier - totalFee;
-            
-            // 检测盈亏是否被错误地设置为名义价值
-            if (Math.abs(pnl - notionalValue) < Math.abs(pnl - expectedPnl)) {
-              logger.error(`【强制平仓】检测到盈亏计算异常！`);
-              logger.error(`  当前pnl: ${pnl.toFixed(2)} USDT 接近名义价值 ${notionalValue.toFixed(2)} USDT`);
-              logger.error(`  预期pnl: ${expectedPnl.toFixed(2)} USDT`);
-              logger.error(`  开仓价: ${pos.entry_price}, 平仓价: ${finalPrice}, 数量: ${actualQuantity}, 合约乘数: ${quantoMultiplier}`);
-              
-              // 强制修正为正确值
-              pnl = expectedPnl;
-              logger.warn(`  已自动修正pnl为: ${pnl.toFixed(2)} USDT`);
-            }
-            
-            // 详细日志
             logger.info(`【强制平仓盈亏详情】${symbol} ${side}`);
             logger.info(`  原因: ${closeReason}`);
-            logger.info(`  开仓价: ${pos.entry_price.toFixed(4)}, 平仓价: ${finalPrice.toFixed(4)}, 数量: ${actualQuantity}张`);
+            logger.info(`  开仓价: ${pos.entry_price.toFixed(4)}, 平仓价: ${actualExitPrice.toFixed(4)}, 数量: ${actualQuantity}张`);
             logger.info(`  净盈亏: ${pnl.toFixed(2)} USDT, 手续费: ${totalFee.toFixed(4)} USDT`);
             
             await dbClient.execute({
-              sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status, expected_price, slippage_percent)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
               args: [
-                order.id?.toString() || "",
+                order?.id ?? "",
                 symbol,
                 side,
                 "close",
-                finalPrice, // 使用验证后的价格
+                actualExitPrice,
                 actualQuantity,
                 pos.leverage || 1,
-                pnl, // 已验证和修正的盈亏
+                pnl,
                 totalFee,
                 getChinaTimeISO(),
                 orderFilled ? "filled" : "pending",
+                execution.slippage?.expectedPrice ?? null,
+                execution.slippage?.actualSlippagePercent ?? null,
               ],
             });
             logger.info(`已记录强制平仓交易到数据库: ${symbol}, 盈亏=${pnl.toFixed(2)} USDT, 原因=${closeReason}`);
-          } catch (dbError: any) {
-            logger.error(`记录强制平仓交易失败: ${dbError.message}`);
+          } catch (dbError) {
+            logger.error(`记录强制平仓交易失败: ${getErrorMessage(dbError)}`);
             // 即使数据库写入失败，也记录到日志以便后续补救
             logger.error(`缺失的交易记录: ${JSON.stringify({
-              order_id: order.id,
+              order_id: order?.id,
               symbol,
               side,
               type: "close",
@@ -1502,18 +1510,17 @@ async function executeTradingDecision() {
             })}`);
           }
           
-          // 4. 从数据库删除持仓记录
-          await dbClient.execute({
-            sql: "DELETE FROM positions WHERE symbol = ?",
-            args: [symbol],
-          });
+          // 4. 全部成交时撤销交易所止损止盈条件单并删除持仓记录；部分成交时写回剩余数量，保留条件单
+          const remaining = await settleFullClose(symbol, Math.abs(pos.quantity), execution);
           
-          logger.info(`强制平仓完成 ${symbol}，原因：${closeReason}`);
+          logger.info(`强制平仓${remaining > 0 ? `部分成交（剩余 ${remaining}）` : "完成"} ${symbol}，原因：${closeReason}`);
           
         } catch (closeError: any) {
           logger.error(`强制平仓失败 ${symbol}: ${closeError.message}`);
           // 即使失败也记录到日志
           logger.error(`强制平仓失败详情: symbol=${symbol}, side=${side}, quantity=${pos.quantity}, reason=${closeReason}`);
+        } finally {
+          unlockPosition(symbol);
         }
       }
     }
@@ -1609,17 +1616,8 @@ async function executeTradingDecision() {
     logger.info(prompt);
     logger.info("=".repeat(80) + "\n");
     
-    // 传递市场数据给Agent（用于子Agent）
-    const agent = await createTradingAgent(intervalMinutes, marketData);
-    
     try {
-      // 设置足够大的 maxOutputTokens 以避免输出被截断
-      // DeepSeek API 限制: max_tokens 范围为 [1, 8192]
-      const response = await agent.generateText(prompt, {
-        maxOutputTokens: 8192,
-        maxSteps: 20,
-        temperature: 0.4,
-      });
+      const response = await generateTradingDecision(prompt, intervalMinutes, marketData);
       
       // 从响应中提取AI的完整回复，不进行任何切分
       let decisionText = "";
@@ -1699,20 +1697,22 @@ async function executeTradingDecision() {
       logger.info(decisionText || "无决策输出");
       logger.info("=".repeat(80) + "\n");
       
+      // 解析结构化决策（AI 意图）和工具调用（实际执行）
+      const toolCalls = extractToolCalls(response);
+      const structuredDecision = parseStructuredDecision(decisionText) || deriveDecisionFromToolCalls(toolCalls);
+      if (structuredDecision.source === "tool-calls") {
+        logger.warn("AI 未输出结构化决策 JSON，根据工具调用推导决策");
+      }
+      logger.info(`结构化决策: ${structuredDecision.decisions.length} 项, 工具调用: ${toolCalls.length} 次`);
+      
       // 保存决策记录
-      await dbClient.execute({
-        sql: `INSERT INTO agent_decisions 
-              (timestamp, iteration, market_analysis, decision, actions_taken, account_value, positions_count)
-              VALUES (?, ?, ?, ?, ?, ?, ?)`,
-        args: [
-          getChinaTimeISO(),
-          iterationCount,
-          JSON.stringify(marketData),
-          decisionText,
-          "[]",
-          accountInfo.totalBalance,
-          positions.length,
-        ],
+      await saveDecisionRecord({
+        decisionText,
+        marketData,
+        structuredDecision,
+        toolCalls,
+        accountValue: accountInfo.totalBalance,
+        positionsCount: positions.length,
       });
       
       // Agent 执行后重新同步持仓数据（优化：只调用一次API）
@@ -1774,6 +1774,80 @@ async function executeTradingDecision() {
   }
 }
 
+/**
+ * 保存决策记录：决策文本、结构化决策（decision_actions）和工具调用（agent_tool_calls）
+ */
+async function saveDecisionRecord(record: {
+  decisionText: string;
+  marketData: Record<string, unknown>;
+  structuredDecision: StructuredDecision;
+  toolCalls: ToolCallRecord[];
+  accountValue: number;
+  positionsCount: number;
+}) {
+  const timestamp = getChinaTimeISO();
+  const { structuredDecision, toolCalls } = record;
+  
+  const result = await dbClient.execute({
+    sql: `INSERT INTO agent_decisions 
+          (timestamp, iteration, market_analysis, decision, actions_taken, account_value, positions_count)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      timestamp,
+      iterationCount,
+      JSON.stringify(record.marketData),
+      record.decisionText,
+      JSON.stringify(structuredDecision),
+      record.accountValue,
+      record.positionsCount,
+    ],
+  });
+  const decisionId = Number(result.lastInsertRowid);
+  
+  const statements = [
+    ...structuredDecision.decisions.map((d) => ({
+      sql: `INSERT INTO decision_actions 
+            (decision_id, symbol, action, side, leverage, amount_usdt, close_percentage, confidence, rationale, source)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        decisionId,
+        d.symbol,
+        d.action,
+        d.side ?? null,
+        d.leverage ?? null,
+        d.amountUsdt ?? null,
+        d.closePercentage ?? null,
+        d.confidence ?? null,
+        d.rationale,
+        structuredDecision.source,
+      ],
+    })),
+    ...toolCalls.map((call) => ({
+      sql: `INSERT INTO agent_tool_calls 
+            (decision_id, step_index, tool_call_id, tool_name, symbol, arguments, result, success, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        decisionId,
+        call.stepIndex,
+        call.toolCallId,
+        call.toolName,
+        call.args?.symbol ?? null,
+        JSON.stringify(call.args ?? {}),
+        JSON.stringify(call.result ?? null),
+        call.success ? 1 : 0,
+        timestamp,
+      ],
+    })),
+  ];
+  
+  if (statements.length > 0) {
+    await dbClient.batch(statements, "write");
+  }
+  
+  // 关联本周期的模型调用记录
+  await linkLlmUsageToDecision(decisionId);
+}
+
 /**
  * 初始化交易系统配置
  */
@@ -1793,15 +1867,24 @@ export async function initTradingSystem() {
   }
   
   logger.info(`最终配置: 止损线=${accountRiskConfig.stopLossUsdt} USDT, 止盈线=${accountRiskConfig.takeProfitUsdt} USDT`);
+  
+  // 3. 按交易所能力完成准备工作（双向持仓模式的交易所需要在下单前设置持仓模式）
+  const exchangeClient = createExchangeClient();
+  const capabilities = exchangeClient.capabilities;
+  logger.info(
+    `交易所: ${getExchangeDisplayName()}，订单类型: ${capabilities.orderTypes.join("/")}，` +
+    `条件单: ${capabilities.triggerOrders ? "支持" : "不支持"}，价格推送: ${capabilities.priceStream ? "WebSocket" : "轮询"}`
+  );
+  if (capabilities.positionMode === "hedge" && exchangeClient.setPositionMode) {
+    await exchangeClient.setPositionMode();
+  }
 }
 
 /**
  * 启动交易循环
  */
 export function startTradingLoop() {
-  const intervalMinutes = Number.parseInt(
-    process.env.TRADING_INTERVAL_MINUTES || "5"
-  );
+  const intervalMinutes = getTradingIntervalMinutes();
   
   logger.info(`启动交易循环，间隔: ${intervalMinutes} 分钟`);
   logger.info(`支持币种: ${SYMBOLS.join(", ")}`);
@@ -1846,7 +1929,7 @@ export async function manualTriggerTrading(): Promise<{ success: boolean; messag
     await executeTradingDecision();
     
     // 更新下次执行时间
-    const intervalMinutes = Number.parseInt(process.env.TRADING_INTERVAL_MINUTES || "5");
+    const intervalMinutes = getTradingIntervalMinutes();
     updateNextExecutionTime(intervalMinutes);
     
     return {
@@ -1869,6 +1952,13 @@ export function setTradingStartTime(time: Date) {
   tradingStartTime = time;
 }
 
+/**
+ * 替换交易决策 Agent 工厂（传入 null 恢复按策略选择：策略自带的决策 Agent 或默认的 LLM Agent）
+ */
+export function setTradingAgentFactory(factory: TradingAgentFactory | null) {
+  tradingAgentFactory = factory;
+}
+
 /**
  * 重置迭代计数（用于恢复之前的交易）
  */
@@ -17,54 +17,79 @@
  */
 
 /**
- * 实时峰值监控器 - 每10秒执行一次（适用所有策略）
+ * 实时峰值监控（适用所有策略，由持仓监督器 positionSupervisor 调用）
  * 同时监控持仓峰值盈利和账户净值峰值
  * 
  * 功能分层：
  * 
  * 【核心功能 1 - 持仓峰值盈利监控（所有策略共享）】
- * 1. 每10秒从 Gate.io 获取最新持仓价格（markPrice）
+ * 1. 持仓监督器在价格更新时传入持仓的最新价格（markPrice）
  * 2. 计算每个持仓的当前盈利和峰值盈利
  * 3. 实时更新数据库中的峰值盈利（peak_pnl_percent）
  * 4. 确保 AI 在每个交易周期看到准确的持仓峰值回撤数据
  * 
  * 【核心功能 2 - 账户净值峰值监控（所有策略共享）】
- * 5. 每10秒从 Gate.io 获取账户信息（total + unrealisedPnl）
+ * 5. 持仓监督器每个轮询周期获取一次账户信息（total + unrealisedPnl）
  * 6. 计算账户总净值（包含未实现盈亏）
  * 7. 如果净值创新高，立即记录到 account_history 表
  * 8. 确保 AI 在每个交易周期看到准确的账户峰值回撤数据
  * 
+ * 【核心功能 3 - 交易所止损条件单跟随（所有策略共享）】
+ * 9. 移动止盈止损线上移时，将交易所止损条件单上移到新的止损线（连续变化的止损线按最小步长移动）
+ * 
  * 【扩展功能 - 代码级自动平仓（根据策略配置启用）】
- * 9. 使用策略的 trailingStop 配置（3级规则）判断是否触发移动止盈
- * 10. 触发时立即平仓，记录到交易历史和决策数据
+ * 10. 使用策略的 trailingStop 配置（任意级数、保本规则）判断是否触发移动止盈
+ * 11. 触发时立即平仓，记录到交易历史和决策数据
  * 
  * 策略适用范围：
  * - enableCodeLevelProtection = false（默认大多数策略）: 
- *   功能1-8（持仓峰值 + 账户峰值，AI 主动止盈）
+ *   功能1-9（持仓峰值 + 账户峰值，AI 主动止盈）
  * - enableCodeLevelProtection = true（如 swing-trend）: 
- *   功能1-10（完整功能，包含自动平仓）
+ *   功能1-11（完整功能，包含自动平仓）
  * 
  * 移动止盈规则（示例 - swing-trend 策略，使用 trailingStop 配置）：
  * - Level 1: 峰值达到 15% 时，回落至 8% 平仓
  * - Level 2: 峰值达到 30% 时，回落至 20% 平仓
  * - Level 3: 峰值达到 50% 时，回落至 35% 平仓
  * 
+ * 级别的止损线有三种模式：
+ * - stopAt：固定止损线（如上例）
+ * - givebackPercent：回吐峰值盈利的一定比例，止损线随峰值上移
+ * - atrMultiplier：ATR 吊灯止损，峰值价格回撤 N 倍 ATR 处平仓，ATR 由策略 atr 配置决定
+ * breakEven 保本规则：峰值达到触发点（或第一个分批止盈目标执行后）将止损线移至保本
+ * 
  * 重要说明：
  * - 持仓峰值：每个持仓独立跟踪，盈利计算已考虑杠杆倍数
  * - 账户峰值：总净值包含未实现盈亏，净值创新高时立即入库
- * - 数据存储：持仓峰值存储在 positions.peak_pnl_percent
- * - 数据存储：账户峰值可通过 MAX(account_history.total_value) 查询
+ * - 数据存储：持仓峰值存储在 positions.peak_pnl_percent 和 position_monitor_state（含峰值价格、交易所止损线）
+ * - 数据存储：账户峰值可通过 MAX(account_history.total_value) 查询，同时保存在 system_config
+ * - 重启恢复：峰值、止损线、检查次数从数据库恢复，重启不会重置移动止盈的峰值
  * - 解决问题：彻底解决"交易周期长导致错过峰值"的问题
  * - 记录策略：账户净值创新高才入库，避免数据库记录过多
  */
 
 import { createLogger } from "../utils/loggerUtils";
 import { createClient } from "@libsql/client";
-import { createExchangeClient } from "../services/exchangeClient";
+import { createExchangeClient, getAccountEquity } from "../services/exchangeClient";
+import { executeOrder } from "../services/orderExecution";
 import { getChinaTimeISO } from "../utils/timeUtils";
 import { getQuantoMultiplier } from "../utils/contractUtils";
 import { getTradingStrategy, getStrategyParams } from "../agents/tradingAgent";
 import { recordAccountAssets } from "./accountRecorder";
+import { moveStopLoss } from "../services/protectiveOrders";
+import { getAtr } from "../services/volatility";
+import { describeBreakEven, describeTrailingStopLevel } from "../strategies/exitRules";
+import type { TrailingStopConfig, TrailingStopLevel } from "../strategies/types";
+import {
+  addPendingOrderId,
+  getMonitorState,
+  loadAccountMonitorState,
+  markPendingClose,
+  saveAccountMonitorState,
+  saveMonitorState,
+  settleFullClose,
+} from "./monitorState";
+import type { SupervisedPosition } from "./positionSupervisor";
 
 const logger = createLogger({
   name: "trailing-stop-monitor",
@@ -75,85 +100,129 @@ const dbClient = createClient({
   url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
 });
 
+/**
+ * 移动止盈计算所需的持仓信息
+ */
+interface TrailingStopContext {
+  side: "long" | "short";
+  entryPrice: number;
+  leverage: number;
+  /** 峰值盈利时的价格（ATR 吊灯止损使用） */
+  peakPrice: number;
+  /** 已分批平仓的百分比（未配置触发点的保本规则使用） */
+  partialClosePercent: number;
+  /** ATR（价格单位），0 表示不可用 */
+  atr: number;
+}
+
+/**
+ * 计算单个级别的止损线（盈利百分比，已考虑杠杆）
+ * - stopAt：固定止损线
+ * - givebackPercent：回吐峰值盈利的一定比例，如峰值 40%、回吐 25% 时止损线为 30%
+ * - atrMultiplier：吊灯止损，峰值价格回撤 N 倍 ATR 处的价格换算为盈利百分比
+ * 
+ * @returns 止损线，ATR 不可用时返回 undefined
+ */
+function getLevelStopAt(level: TrailingStopLevel, peakPnlPercent: number, context: TrailingStopContext): number | undefined {
+  if (level.givebackPercent !== undefined) {
+    return peakPnlPercent * (1 - level.givebackPercent / 100);
+  }
+  if (level.atrMultiplier !== undefined) {
+    if (context.atr <= 0 || context.peakPrice <= 0 || context.entryPrice <= 0) {
+      return undefined;
+    }
+    const direction = context.side === "long" ? 1 : -1;
+    const stopPrice = context.peakPrice - direction * level.atrMultiplier * context.atr;
+    return (stopPrice - context.entryPrice) / context.entryPrice * 100 * context.leverage * direction;
+  }
+  return level.stopAt;
+}
+
 /**
  * 根据峰值盈利和当前盈利判断是否触发移动止盈
- * 使用策略的 trailingStop 配置
+ * 使用策略的 trailingStop 配置：取所有已达到触发点的级别（及保本规则）中最高的止损线
  * 
  * @returns { shouldClose: boolean, level: string, description: string }
  */
-function checkTrailingStop(peakPnlPercent: number, currentPnlPercent: number): { 
+function checkTrailingStop(
+  config: TrailingStopConfig,
+  peakPnlPercent: number,
+  currentPnlPercent: number,
+  context: TrailingStopContext
+): { 
   shouldClose: boolean; 
   level: string; 
   description: string;
   stopAt?: number;
 } {
-  const strategy = getTradingStrategy();
-  const params = getStrategyParams(strategy);
+  let best: { level: string; trigger?: number; stopAt: number } | undefined;
   
-  if (!params.trailingStop) {
-    throw new Error("移动止盈配置不存在");
-  }
+  config.levels.forEach((level, index) => {
+    if (peakPnlPercent < level.trigger) {
+      return;
+    }
+    const stopAt = getLevelStopAt(level, peakPnlPercent, context);
+    if (stopAt !== undefined && (!best || stopAt > best.stopAt)) {
+      best = { level: `level${index + 1}`, trigger: level.trigger, stopAt };
+    }
+  });
   
-  const { level1, level2, level3 } = params.trailingStop;
+  // 保本规则：峰值达到触发点，或未配置触发点时第一个分批止盈目标已执行
+  const breakEven = config.breakEven;
+  if (breakEven) {
+    const active = breakEven.trigger !== undefined
+      ? peakPnlPercent >= breakEven.trigger
+      : context.partialClosePercent > 0;
+    const stopAt = breakEven.offset ?? 0;
+    if (active && (!best || stopAt > best.stopAt)) {
+      best = { level: "breakEven", trigger: breakEven.trigger, stopAt };
+    }
+  }
   
-  // 按照从高到低的顺序检查（level3 -> level2 -> level1）
-  // 盈利达到 trigger% 时，如果当前盈利回落到 stopAt% 或以下，触发平仓
-  const levels = [
-    { name: "level3", trigger: level3.trigger, stopAt: level3.stopAt },
-    { name: "level2", trigger: level2.trigger, stopAt: level2.stopAt },
-    { name: "level1", trigger: level1.trigger, stopAt: level1.stopAt },
-  ];
+  if (!best) {
+    // 峰值未达到任何触发点
+    return {
+      shouldClose: false,
+      level: "未触发",
+      description: `峰值${peakPnlPercent.toFixed(2)}%，未达到${config.levels[0]?.trigger}%触发点`,
+    };
+  }
   
-  for (const level of levels) {
-    if (peakPnlPercent >= level.trigger) {
-      // 峰值达到了触发点
-      if (currentPnlPercent <= level.stopAt) {
-        // 当前盈利回落到止损点或以下，触发平仓
-        return {
-          shouldClose: true,
-          level: level.name,
-          description: `峰值${peakPnlPercent.toFixed(2)}%，触发${level.trigger}%移动止盈，当前${currentPnlPercent.toFixed(2)}%已回落至${level.stopAt}%止损线`,
-          stopAt: level.stopAt,
-        };
-      } else {
-        // 还在止损线之上，继续持有
-        return {
-          shouldClose: false,
-          level: level.name,
-          description: `峰值${peakPnlPercent.toFixed(2)}%，触发${level.trigger}%移动止盈，止损线${level.stopAt}%，当前${currentPnlPercent.toFixed(2)}%`,
-          stopAt: level.stopAt,
-        };
-      }
-    }
+  const reached = best.trigger !== undefined ? `触发${best.trigger}%移动止盈` : "首个止盈目标已执行，触发保本";
+  if (currentPnlPercent <= best.stopAt) {
+    // 当前盈利回落到止损点或以下，触发平仓
+    return {
+      shouldClose: true,
+      level: best.level,
+      description: `峰值${peakPnlPercent.toFixed(2)}%，${reached}，当前${currentPnlPercent.toFixed(2)}%已回落至${best.stopAt.toFixed(2)}%止损线`,
+      stopAt: best.stopAt,
+    };
   }
   
-  // 峰值未达到任何触发点
+  // 还在止损线之上，继续持有
   return {
     shouldClose: false,
-    level: "未触发",
-    description: `峰值${peakPnlPercent.toFixed(2)}%，未达到${level1.trigger}%触发点`,
+    level: best.level,
+    description: `峰值${peakPnlPercent.toFixed(2)}%，${reached}，止损线${best.stopAt.toFixed(2)}%，当前${currentPnlPercent.toFixed(2)}%`,
+    stopAt: best.stopAt,
   };
 }
 
-// 持仓盈利记录：symbol -> { peakPnlPercent, lastCheckTime, priceHistory }
-const positionPnlHistory = new Map<string, {
-  peakPnlPercent: number;
-  lastCheckTime: number;
-  checkCount: number; // 检查次数，用于日志
-}>();
+/** 检查次数每增加多少次保存一次（峰值、止损线变化时立即保存） */
+const CHECK_COUNT_SAVE_INTERVAL = 10;
+
+/** 交易所止损条件单的最小移动步长（盈利百分比），避免峰值回吐、ATR 吊灯止损频繁改单 */
+const EXCHANGE_STOP_MIN_STEP_PERCENT = Number.parseFloat(process.env.TRAILING_STOP_MIN_STEP_PERCENT || "0.5");
 
 // 账户净值峰值记录（用于精确捕获账户净值峰值）
 let accountPeakBalance: number = 0;
 let lastAccountCheckTime: number = 0;
 let accountCheckCount: number = 0;
 
-let monitorInterval: NodeJS.Timeout | null = null;
-let isRunning = false;
-
 /**
  * 检查当前策略是否启用代码级移动止盈
  */
-function isTrailingStopEnabled(): boolean {
+export function isTrailingStopEnabled(): boolean {
   const strategy = getTradingStrategy();
   const params = getStrategyParams(strategy);
   return params.enableCodeLevelProtection === true;
@@ -162,7 +231,7 @@ function isTrailingStopEnabled(): boolean {
 /**
  * 获取移动止盈配置（用于日志输出）
  */
-function getTrailingStopConfig() {
+export function getTrailingStopConfig() {
   const strategy = getTradingStrategy();
   const params = getStrategyParams(strategy);
   
@@ -170,46 +239,16 @@ function getTrailingStopConfig() {
     return null;
   }
   
+  const breakEven = describeBreakEven(params.trailingStop);
   return {
-    stage1: {
-      description: `峰值达到 ${params.trailingStop.level1.trigger}% 时，回落至 ${params.trailingStop.level1.stopAt}% 平仓`,
-      trigger: params.trailingStop.level1.trigger,
-      stopAt: params.trailingStop.level1.stopAt,
-    },
-    stage2: {
-      description: `峰值达到 ${params.trailingStop.level2.trigger}% 时，回落至 ${params.trailingStop.level2.stopAt}% 平仓`,
-      trigger: params.trailingStop.level2.trigger,
-      stopAt: params.trailingStop.level2.stopAt,
-    },
-    stage3: {
-      description: `峰值达到 ${params.trailingStop.level3.trigger}% 时，回落至 ${params.trailingStop.level3.stopAt}% 平仓`,
-      trigger: params.trailingStop.level3.trigger,
-      stopAt: params.trailingStop.level3.stopAt,
-    },
-    // 为了兼容旧代码，添加 stage4 和 stage5（实际不使用）
-    stage4: {
-      description: `未使用（仅3级规则）`,
-      trigger: 0,
-      stopAt: 0,
-    },
-    stage5: {
-      description: `未使用（仅3级规则）`,
-      trigger: 0,
-      stopAt: 0,
-    },
+    levels: params.trailingStop.levels.map((level) => ({
+      ...level,
+      description: describeTrailingStopLevel(level),
+    })),
+    breakEven,
   };
 }
 
-/**
- * 计算持仓盈利百分比（考虑杠杆）
- */
-function calculatePnlPercent(entryPrice: number, currentPrice: number, side: string, leverage: number): number {
-  const priceChangePercent = entryPrice > 0 
-    ? ((currentPrice - entryPrice) / entryPrice * 100 * (side === 'long' ? 1 : -1))
-    : 0;
-  return priceChangePercent * leverage;
-}
-
 /**
  * 修复移动止盈交易记录
  * 如果价格为0或盈亏不正确，从开仓记录重新计算
@@ -257,7 +296,7 @@ async function fixTrailingStopTradeRecord(symbol: string): Promise<void> {
       try {
         const contract = `${symbol}_USDT`;
         const ticker = await exchangeClient.getFuturesTicker(contract);
-        closePrice = Number.parseFloat(ticker.last || ticker.markPrice || "0");
+        closePrice = ticker.last || ticker.markPrice;
         
         if (closePrice > 0) {
           logger.info(`使用当前ticker价格修复 ${symbol} 平仓价格: ${closePrice}`);
@@ -342,55 +381,43 @@ async function executeTrailingStopClose(
     logger.warn(`  当前盈利: ${pnlPercent.toFixed(2)}%`);
     logger.warn(`  回撤幅度: ${drawdownPercent.toFixed(2)}% (阈值: ${drawdownThreshold.toFixed(2)}%)`);
     
-    // 1. 执行平仓订单
-    const order = await exchangeClient.placeOrder({
+    // 1. 记录未完成的平仓（重启后由持仓监督器继续处理），执行平仓订单
+    await markPendingClose(symbol, { rule: "trailing_stop", reason: `移动止盈 ${stage}`, quantityBefore: quantity });
+    //    市价单由订单执行服务按盘口深度拆分下单（只减仓订单不会被滑点保护拒绝）
+    const execution = await executeOrder({
       contract,
       size,
-      price: 0,
+      orderType: "market",
       reduceOnly: true,
+      onOrderPlaced: orderId => addPendingOrderId(symbol, orderId),
     });
+    const order = execution.order;
     
-    logger.info(`已下达移动止盈平仓订单 ${symbol}，订单ID: ${order.id}`);
+    logger.info(`已下达移动止盈平仓订单 ${symbol}，订单ID: ${execution.orderIds.join(", ")}`);
     
-    // 2. 等待订单完成并获取成交信息
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    // 未成交：保留条件单和未完成的平仓记录，下一次轮询由持仓监督器继续平仓
+    if (execution.filledSize <= 0) {
+      logger.error(`移动止盈平仓订单未成交 ${symbol}，下一次轮询继续平仓`);
+      return false;
+    }
     
+    // 2. 获取成交信息（按实际成交数量记账，拆分下单中途失败时只记已成交部分）
     let actualExitPrice = 0;
-    let actualQuantity = quantity;
+    const actualQuantity = execution.filledSize;
     let pnl = 0;
     let totalFee = 0;
-    let orderFilled = false;
+    const orderFilled = execution.fillPrice > 0;
     
-    // 尝试从订单获取成交信息
-    if (order.id) {
-      for (let retry = 0; retry < 5; retry++) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        try {
-          const orderStatus = await exchangeClient.getOrder(order.id?.toString() || "");
-          
-          if (orderStatus.status === 'finished') {
-            const fillPrice = Number.parseFloat(orderStatus.fill_price || orderStatus.price || "0");
-            actualQuantity = Math.abs(Number.parseFloat(orderStatus.size || "0"));
-            
-            if (fillPrice > 0) {
-              actualExitPrice = fillPrice;
-              orderFilled = true;
-              logger.info(`从订单获取成交价格: ${actualExitPrice}`);
-              break;
-            }
-          }
-        } catch (statusError: any) {
-          logger.warn(`查询移动止盈订单状态失败 (重试${retry + 1}/5): ${statusError.message}`);
-        }
-      }
+    if (orderFilled) {
+      actualExitPrice = execution.fillPrice;
+      logger.info(`从订单获取成交价格: ${actualExitPrice}`);
     }
     
     // 如果未能从订单获取价格，使用ticker价格
     if (actualExitPrice === 0) {
       try {
         const ticker = await exchangeClient.getFuturesTicker(contract);
-        actualExitPrice = Number.parseFloat(ticker.last || ticker.markPrice || "0");
+        actualExitPrice = ticker.last || ticker.markPrice;
         
         if (actualExitPrice > 0) {
           logger.warn(`未能从订单获取价格，使用ticker价格: ${actualExitPrice}`);
@@ -436,10 +463,10 @@ async function executeTrailingStopClose(
     
     // 3. 记录到trades表
     const insertResult = await dbClient.execute({
-      sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status, expected_price, slippage_percent)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       args: [
-        order.id?.toString() || "",
+        order?.id ?? "",
         symbol,
         side,
         "close",
@@ -450,6 +477,8 @@ async function executeTrailingStopClose(
         totalFee,
         getChinaTimeISO(),
         orderFilled ? "filled" : "pending",
+        execution.slippage?.expectedPrice ?? null,
+        execution.slippage?.actualSlippagePercent ?? null,
       ],
     });
     
@@ -487,16 +516,10 @@ async function executeTrailingStopClose(
       ],
     });
     
-    // 5. 从数据库删除持仓记录
-    await dbClient.execute({
-      sql: "DELETE FROM positions WHERE symbol = ?",
-      args: [symbol],
-    });
-    
-    logger.info(`移动止盈平仓完成 ${symbol}，盈亏：${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT`);
+    // 5. 全部成交时撤销条件单、删除持仓记录和监控状态；部分成交时写回剩余数量
+    const remaining = await settleFullClose(symbol, quantity, execution);
     
-    // 6. 从内存中清除记录
-    positionPnlHistory.delete(symbol);
+    logger.info(`移动止盈平仓${remaining > 0 ? `部分成交（剩余 ${remaining}）` : "完成"} ${symbol}，盈亏：${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT`);
     
     return true;
   } catch (error: any) {
@@ -506,286 +529,194 @@ async function executeTrailingStopClose(
 }
 
 /**
- * 检查所有持仓的峰值盈利并执行移动止盈（如果启用）
- * @param autoCloseEnabled 是否启用自动平仓（仅波段策略）
+ * 检查账户净值峰值（所有策略共享）
+ * 如果净值创新高则立即记录到数据库
  */
-async function checkPeakPnlAndTrailingStop(autoCloseEnabled: boolean) {
-  if (!isRunning) {
-    return;
-  }
+export async function checkAccountPeak(): Promise<void> {
+  const exchangeClient = createExchangeClient();
   
   try {
-    const exchangeClient = createExchangeClient();
-    const now = Date.now();
-    
-    // 1. ===== 账户净值峰值监控（所有策略共享）=====
-    // 每 10 秒检查一次账户净值，如果创新高则记录到数据库
-    try {
-      accountCheckCount++;
-      
-      // 获取账户信息
-      const account = await exchangeClient.getFuturesAccount();
-      const accountTotal = Number.parseFloat(account.total || "0");
-      const unrealisedPnl = Number.parseFloat(account.unrealisedPnl || "0");
-      const totalBalance = accountTotal + unrealisedPnl; // 包含未实现盈亏的真实总资产
-      
-      // 初始化峰值（首次运行）
-      if (accountPeakBalance === 0) {
-        // 从数据库获取历史峰值
-        const peakResult = await dbClient.execute(
-          "SELECT MAX(total_value) as peak FROM account_history"
-        );
-        accountPeakBalance = peakResult.rows[0]?.peak 
-          ? Number.parseFloat(peakResult.rows[0].peak as string)
-          : totalBalance;
-        
-        logger.info(`账户净值峰值初始化: ${accountPeakBalance.toFixed(2)} USDT`);
-      }
+    accountCheckCount++;
+    
+    // 获取账户信息
+    const account = await exchangeClient.getFuturesAccount();
+    const totalBalance = getAccountEquity(account); // 包含未实现盈亏的真实总资产
+    
+    // 初始化峰值（首次运行）
+    if (accountPeakBalance === 0) {
+      // 从数据库获取历史峰值（账户历史和上次保存的监控状态取较大值）
+      const peakResult = await dbClient.execute(
+        "SELECT MAX(total_value) as peak FROM account_history"
+      );
+      const saved = await loadAccountMonitorState();
+      const historyPeak = peakResult.rows[0]?.peak 
+        ? Number.parseFloat(peakResult.rows[0].peak as string)
+        : 0;
+      accountPeakBalance = Math.max(historyPeak, saved.peakBalance) || totalBalance;
+      accountCheckCount += saved.checkCount;
       
-      // 如果当前净值创新高，立即记录到数据库
-      if (totalBalance > accountPeakBalance) {
-        const oldPeak = accountPeakBalance;
-        accountPeakBalance = totalBalance;
-        
-        // 记录到数据库（跳过日志，避免过多输出）
-        await recordAccountAssets(true);
-        
-        logger.info(`💰 账户净值创新高: ${oldPeak.toFixed(2)} USDT → ${accountPeakBalance.toFixed(2)} USDT`);
-      } else {
-        // 每 60 次检查（约 10 分钟）输出一次调试日志
-        if (accountCheckCount % 60 === 0) {
-          const drawdown = accountPeakBalance > 0 
-            ? ((accountPeakBalance - totalBalance) / accountPeakBalance * 100) 
-            : 0;
-          logger.debug(
-            `账户净值监控: 当前=${totalBalance.toFixed(2)} USDT, ` +
-            `峰值=${accountPeakBalance.toFixed(2)} USDT, ` +
-            `回撤=${drawdown.toFixed(2)}%`
-          );
-        }
-      }
-      
-      lastAccountCheckTime = now;
-    } catch (error: any) {
-      logger.warn(`账户净值监控失败: ${error.message}`);
+      logger.info(`账户净值峰值初始化: ${accountPeakBalance.toFixed(2)} USDT`);
     }
     
-    // 2. 获取所有持仓
-    const gatePositions = await exchangeClient.getPositions();
-    const activePositions = gatePositions.filter((p: any) => Number.parseInt(p.size || "0") !== 0);
-    
-    if (activePositions.length === 0) {
-      // 清空内存记录
-      positionPnlHistory.clear();
-      return;
-    }
-    
-    // 3. 从数据库获取持仓信息（获取开仓时间）
-    const dbResult = await dbClient.execute("SELECT symbol, opened_at FROM positions");
-    const dbOpenedAtMap = new Map(
-      dbResult.rows.map((row: any) => [row.symbol, row.opened_at])
-    );
-    
-    // 4. 检查每个持仓
-    for (const pos of activePositions) {
-      const size = Number.parseInt(pos.size || "0");
-      const symbol = pos.contract.replace("_USDT", "");
-      const side = size > 0 ? "long" : "short";
-      const quantity = Math.abs(size);
-      const entryPrice = Number.parseFloat(pos.entryPrice || "0");
-      const currentPrice = Number.parseFloat(pos.markPrice || "0");
-      const leverage = Number.parseInt(pos.leverage || "1");
-      
-      // 验证数据有效性
-      if (entryPrice === 0 || currentPrice === 0 || leverage === 0) {
-        logger.warn(`${symbol} 数据无效，跳过峰值监控`);
-        continue;
-      }
-      
-      // 计算盈利百分比（考虑杠杆）
-      const pnlPercent = calculatePnlPercent(entryPrice, currentPrice, side, leverage);
-      
-      // 获取或初始化盈利历史记录
-      let history = positionPnlHistory.get(symbol);
-      if (!history) {
-        history = {
-          peakPnlPercent: pnlPercent,
-          lastCheckTime: now,
-          checkCount: 0,
-        };
-        positionPnlHistory.set(symbol, history);
-        logger.info(`${symbol} 开始跟踪峰值盈利${autoCloseEnabled ? '和移动止盈' : '（仅更新峰值）'}，初始盈利: ${pnlPercent.toFixed(2)}%`);
-      }
-      
-      // 增加检查次数
-      history.checkCount++;
-      
-      // ===== 核心功能：更新峰值盈利（所有策略共享）=====
-      if (pnlPercent > history.peakPnlPercent) {
-        const oldPeak = history.peakPnlPercent;
-        history.peakPnlPercent = pnlPercent;
-        
-        // 同时更新数据库中的峰值盈利
-        await dbClient.execute({
-          sql: "UPDATE positions SET peak_pnl_percent = ? WHERE symbol = ?",
-          args: [pnlPercent, symbol],
-        });
-        
-        logger.info(`${symbol} 更新峰值盈利: ${oldPeak.toFixed(2)}% → ${pnlPercent.toFixed(2)}%`);
-      }
+    // 如果当前净值创新高，立即记录到数据库
+    if (totalBalance > accountPeakBalance) {
+      const oldPeak = accountPeakBalance;
+      accountPeakBalance = totalBalance;
       
-      // 更新最后检查时间
-      history.lastCheckTime = now;
+      // 记录到数据库（跳过日志，避免过多输出）
+      await recordAccountAssets(true);
+      await saveAccountMonitorState(accountPeakBalance, accountCheckCount);
       
-      // ===== 可选功能：移动止盈自动平仓（仅波段策略）=====
-      if (!autoCloseEnabled) {
-        // 非波段策略：仅更新峰值，不执行自动平仓
-        continue;
-      }
-      
-      // 5. 检查移动止盈条件（3级规则）- 仅波段策略
-      // 使用 trailingStop 配置判断是否触发平仓
-      const trailingStopResult = checkTrailingStop(history.peakPnlPercent, pnlPercent);
-      
-      // 调试日志：每10次检查输出一次
-      if (history.checkCount % 10 === 0) {
-        logger.debug(`${symbol} 移动止盈监控: ${trailingStopResult.description}`);
+      logger.info(`💰 账户净值创新高: ${oldPeak.toFixed(2)} USDT → ${accountPeakBalance.toFixed(2)} USDT`);
+    } else {
+      if (accountCheckCount % CHECK_COUNT_SAVE_INTERVAL === 0) {
+        await saveAccountMonitorState(accountPeakBalance, accountCheckCount);
       }
       
-      // 计算回退百分比（绝对值）
-      const drawdownPercent = history.peakPnlPercent - pnlPercent;
-      
-      // 检查是否应该平仓
-      if (trailingStopResult.shouldClose) {
-        logger.warn(`${symbol} 触发移动止盈平仓:`);
-        logger.warn(`  触发级别: ${trailingStopResult.level}`);
-        logger.warn(`  ${trailingStopResult.description}`);
-        logger.warn(`  峰值盈利: ${history.peakPnlPercent.toFixed(2)}%`);
-        logger.warn(`  当前盈利: ${pnlPercent.toFixed(2)}%`);
-        logger.warn(`  回退幅度: ${drawdownPercent.toFixed(2)}%`);
-        logger.warn(`  止损线: ${trailingStopResult.stopAt}%`);
-        
-        // 执行平仓
-        const success = await executeTrailingStopClose(
-          symbol,
-          side,
-          quantity,
-          entryPrice,
-          currentPrice,
-          leverage,
-          pnlPercent,
-          history.peakPnlPercent,
-          drawdownPercent,
-          trailingStopResult.stopAt || 0,
-          `${trailingStopResult.level} - ${trailingStopResult.description}`
+      // 每 60 次检查（约 10 分钟）输出一次调试日志
+      if (accountCheckCount % 60 === 0) {
+        const drawdown = accountPeakBalance > 0 
+          ? ((accountPeakBalance - totalBalance) / accountPeakBalance * 100) 
+          : 0;
+        logger.debug(
+          `账户净值监控: 当前=${totalBalance.toFixed(2)} USDT, ` +
+          `峰值=${accountPeakBalance.toFixed(2)} USDT, ` +
+          `回撤=${drawdown.toFixed(2)}%`
         );
-        
-        if (success) {
-          logger.info(`${symbol} 移动止盈平仓成功`);
-        }
-      } else {
-        // 每10次检查输出一次调试日志（修复：使用 trailingStopResult 而不是未定义的 thresholdInfo）
-        if (history.checkCount % 10 === 0) {
-          logger.debug(`${symbol} ${trailingStopResult.level} 监控中: 峰值${history.peakPnlPercent.toFixed(2)}%, 当前${pnlPercent.toFixed(2)}%, 回退${drawdownPercent.toFixed(2)}%`);
-        }
-      }
-    }
-    
-    // 6. 清理已平仓的记录
-    const activeSymbols = new Set(
-      activePositions.map((p: any) => p.contract.replace("_USDT", ""))
-    );
-    
-    for (const symbol of positionPnlHistory.keys()) {
-      if (!activeSymbols.has(symbol)) {
-        positionPnlHistory.delete(symbol);
-        logger.debug(`清理已平仓的记录: ${symbol}`);
       }
     }
     
+    lastAccountCheckTime = Date.now();
   } catch (error: any) {
-    logger.error(`移动止盈检查失败: ${error.message}`);
+    logger.warn(`账户净值监控失败: ${error.message}`);
   }
 }
 
 /**
- * 启动峰值盈利监控和移动止盈（适用所有策略）
- * - 所有策略：每10秒更新持仓峰值盈利
- * - 波段策略：额外执行自动移动止盈平仓
+ * 更新单个持仓的峰值盈利，跟随移动止盈级别上移交易所止损单，并执行移动止盈（如果启用）
+ * @param autoCloseEnabled 是否启用自动平仓（enableCodeLevelProtection）
+ * @returns 是否已平仓
  */
-export function startTrailingStopMonitor() {
-  if (isRunning) {
-    logger.warn("峰值盈利监控已在运行中");
-    return;
+export async function evaluateTrailingStop(position: SupervisedPosition, autoCloseEnabled: boolean): Promise<boolean> {
+  const { symbol, side, quantity, entryPrice, currentPrice, leverage, pnlPercent } = position;
+  
+  // 获取监控状态（重启后从数据库恢复峰值、止损线和检查次数）
+  const history = await getMonitorState(position);
+  if (history.checkCount === 0) {
+    logger.info(`${symbol} 开始跟踪峰值盈利${autoCloseEnabled ? '和移动止盈' : '（仅更新峰值）'}，当前盈利: ${pnlPercent.toFixed(2)}%，峰值盈利: ${history.peakPnlPercent.toFixed(2)}%`);
   }
   
-  const strategy = getTradingStrategy();
-  const autoCloseEnabled = isTrailingStopEnabled(); // swing-trend 策略返回 true
+  // 增加检查次数
+  history.checkCount++;
+  let stateChanged = history.checkCount === 1 || history.checkCount % CHECK_COUNT_SAVE_INTERVAL === 0;
   
-  isRunning = true;
+  // ===== 核心功能：更新峰值盈利（所有策略共享）=====
+  if (pnlPercent > history.peakPnlPercent) {
+    const oldPeak = history.peakPnlPercent;
+    history.peakPnlPercent = pnlPercent;
+    history.peakPrice = currentPrice;
+    stateChanged = true;
+    
+    logger.info(`${symbol} 更新峰值盈利: ${oldPeak.toFixed(2)}% → ${pnlPercent.toFixed(2)}%`);
+  }
   
-  logger.info("=".repeat(60));
-  logger.info("🚀 启动实时峰值监控（持仓 + 账户）");
-  logger.info("=".repeat(60));
-  logger.info(`  当前策略: ${strategy}`);
-  logger.info(`  检查间隔: 10秒`);
-  logger.info(``);
-  logger.info(`  【持仓峰值监控】`);
-  logger.info(`    峰值更新: ✅ 启用（所有策略）`);
-  logger.info(`    自动平仓: ${autoCloseEnabled ? '✅ 启用（波段策略）' : '❌ 禁用（由 AI 决策）'}`);
-  logger.info(``);
-  logger.info(`  【账户净值峰值监控】`);
-  logger.info(`    峰值更新: ✅ 启用（所有策略）`);
-  logger.info(`    精确记录: 净值创新高时立即写入数据库`);
-  logger.info(`    解决问题: 交易周期长导致错过净值峰值`);
+  // 同时更新数据库中的峰值盈利（包括开始跟踪时的初始峰值）
+  if ((position.peakPnlPercent ?? 0) < history.peakPnlPercent) {
+    await dbClient.execute({
+      sql: "UPDATE positions SET peak_pnl_percent = ? WHERE symbol = ?",
+      args: [history.peakPnlPercent, symbol],
+    });
+    position.peakPnlPercent = history.peakPnlPercent;
+  }
+  
+  // 检查移动止盈条件
+  const params = getStrategyParams(getTradingStrategy());
+  const config = params.trailingStop;
+  if (!config) {
+    throw new Error("移动止盈配置不存在");
+  }
+  // 仅在已达到 ATR 吊灯止损级别时获取 ATR（按合约缓存）
+  const needsAtr = config.levels.some((level) => level.atrMultiplier !== undefined && history.peakPnlPercent >= level.trigger);
+  const atr = needsAtr ? await getAtr(`${symbol}_USDT`, params.atr) : 0;
+  const trailingStopResult = checkTrailingStop(config, history.peakPnlPercent, pnlPercent, {
+    side,
+    entryPrice,
+    leverage,
+    peakPrice: history.peakPrice || currentPrice,
+    partialClosePercent: Math.max(position.partialClosePercent, history.partialClosePercent),
+    atr,
+  });
   
-  if (autoCloseEnabled) {
-    const config = getTrailingStopConfig();
-    if (config) {
-      logger.info(``);
-      logger.info(`  【移动止盈规则】（仅波段策略）`);
-      logger.info(`    阶段1: ${config.stage1.description}`);
-      logger.info(`    阶段2: ${config.stage2.description}`);
-      logger.info(`    阶段3: ${config.stage3.description}`);
-      logger.info(`    阶段4: ${config.stage4.description}`);
-      logger.info(`    阶段5: ${config.stage5.description}`);
+  // ===== 交易所止损条件单跟随移动止盈止损线上移（所有策略共享）=====
+  if (
+    !trailingStopResult.shouldClose &&
+    trailingStopResult.stopAt !== undefined &&
+    (history.exchangeStopAt === undefined ||
+      trailingStopResult.stopAt >= history.exchangeStopAt + EXCHANGE_STOP_MIN_STEP_PERCENT)
+  ) {
+    try {
+      await moveStopLoss({
+        symbol,
+        side,
+        entryPrice,
+        leverage,
+        currentPrice,
+        stopAtPercent: trailingStopResult.stopAt,
+      });
+      history.exchangeStopAt = trailingStopResult.stopAt;
+      stateChanged = true;
+    } catch (error: any) {
+      logger.warn(`${symbol} 移动止损条件单失败: ${error.message}`);
     }
-  } else {
-    logger.info(``);
-    logger.info(`  【说明】`);
-    logger.info(`    • 持仓：仅更新峰值盈利，不执行自动平仓`);
-    logger.info(`    • 账户：精确捕获净值峰值，供 AI 计算回撤`);
-    logger.info(`    • 决策：所有平仓决策由 AI 根据峰值数据判断`);
   }
-  logger.info("=".repeat(60));
   
-  // 立即执行一次
-  checkPeakPnlAndTrailingStop(autoCloseEnabled);
+  if (stateChanged) {
+    await saveMonitorState(history);
+  }
   
-  // 每10秒执行一次
-  monitorInterval = setInterval(() => {
-    checkPeakPnlAndTrailingStop(autoCloseEnabled);
-  }, 10 * 1000);
-}
-
-/**
- * 停止移动止盈监控
- */
-export function stopTrailingStopMonitor() {
-  if (!isRunning) {
-    logger.warn("移动止盈监控未在运行");
-    return;
+  // ===== 可选功能：移动止盈自动平仓（仅启用代码级保护的策略）=====
+  if (!autoCloseEnabled) {
+    // 仅更新峰值，不执行自动平仓
+    return false;
   }
   
-  isRunning = false;
+  // 调试日志：每10次检查输出一次
+  if (history.checkCount % 10 === 0) {
+    logger.debug(`${symbol} 移动止盈监控: ${trailingStopResult.description}`);
+  }
   
-  if (monitorInterval) {
-    clearInterval(monitorInterval);
-    monitorInterval = null;
+  if (!trailingStopResult.shouldClose) {
+    return false;
   }
   
-  positionPnlHistory.clear();
-  logger.info("移动止盈监控已停止");
+  // 计算回退百分比（绝对值）
+  const drawdownPercent = history.peakPnlPercent - pnlPercent;
+  
+  logger.warn(`${symbol} 触发移动止盈平仓:`);
+  logger.warn(`  触发级别: ${trailingStopResult.level}`);
+  logger.warn(`  ${trailingStopResult.description}`);
+  logger.warn(`  峰值盈利: ${history.peakPnlPercent.toFixed(2)}%`);
+  logger.warn(`  当前盈利: ${pnlPercent.toFixed(2)}%`);
+  logger.warn(`  回退幅度: ${drawdownPercent.toFixed(2)}%`);
+  logger.warn(`  止损线: ${trailingStopResult.stopAt?.toFixed(2)}%`);
+  
+  // 执行平仓
+  const success = await executeTrailingStopClose(
+    symbol,
+    side,
+    quantity,
+    entryPrice,
+    currentPrice,
+    leverage,
+    pnlPercent,
+    history.peakPnlPercent,
+    drawdownPercent,
+    trailingStopResult.stopAt || 0,
+    `${trailingStopResult.level} - ${trailingStopResult.description}`
+  );
+  
+  if (success) {
+    logger.info(`${symbol} 移动止盈平仓成功`);
+  }
+  return success;
 }
-
-
@@ -0,0 +1,902 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Binance U本位合约（USDⓈ-M Futures）API 客户端封装
+ *
+ * - 下单数量以币为单位（合约乘数为 1），数量精度取 LOT_SIZE.stepSize
+ * - 支持单向持仓和双向持仓模式（自动检测账户的持仓模式）
+ * - BINANCE_BASE_URL 可指向本地模拟服务器进行测试
+ */
+import * as crypto from "node:crypto";
+import { RISK_PARAMS } from "../config/riskParams";
+import { fromBinanceContract, toBinanceContract } from "../utils/contractMapping";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import type { IExchangeClient } from "./exchangeClient";
+import {
+  type Account,
+  type Candle,
+  type ClosedPosition,
+  type ContractSpec,
+  type ExchangeCapabilities,
+  type Fill,
+  type FundingRate,
+  type Order,
+  type OrderBook,
+  type Position,
+  type Ticker,
+  type TriggerOrder,
+  type TriggerOrderParams,
+  toNumber,
+} from "./exchangeModels";
+
+const logger = createLogger({
+  name: "binance-client",
+  level: "info",
+});
+
+/** 正式网地址 */
+const BINANCE_MAINNET_URL = "https://fapi.binance.com";
+/** 测试网地址 */
+const BINANCE_TESTNET_URL = "https://testnet.binancefuture.com";
+
+/** 交易规则缓存时间（毫秒） */
+const EXCHANGE_INFO_TTL_MS = 60 * 60 * 1000;
+
+/** 条件单（策略委托）ID 前缀，用于区分普通订单接口和策略委托接口 */
+const ALGO_ORDER_PREFIX = "algo-";
+
+/**
+ * time-in-force（Gate 格式）对应的 Binance timeInForce
+ */
+const BINANCE_TIME_IN_FORCE: Record<string, string> = {
+  gtc: "GTC",
+  poc: "GTX",
+  ioc: "IOC",
+  fok: "FOK",
+};
+
+/**
+ * K线周期（Gate 格式）对应的 Binance interval
+ */
+const BINANCE_INTERVALS: Record<string, string> = {
+  "7d": "1w",
+  "30d": "1M",
+};
+
+/**
+ * Binance K线（[openTime, o, h, l, c, volume, closeTime, quoteVolume, ...]）转换为统一K线模型
+ */
+function toBinanceCandle(candle: readonly unknown[]): Candle {
+  return {
+    timestamp: toNumber(candle[0]) / 1000,
+    open: toNumber(candle[1]),
+    high: toNumber(candle[2]),
+    low: toNumber(candle[3]),
+    close: toNumber(candle[4]),
+    volume: toNumber(candle[5]),
+    quoteVolume: toNumber(candle[7]),
+  };
+}
+
+/** Binance 接口返回的 JSON 对象（数值字段统一经 toNumber 转换） */
+type BinanceObject = Record<string, unknown>;
+
+/** 订单簿支持的档位数 */
+const BINANCE_DEPTH_LIMITS = [5, 10, 20, 50, 100, 500, 1000];
+
+/** 条件单类型 */
+const TRIGGER_ORDER_TYPES = ["STOP_MARKET", "TAKE_PROFIT_MARKET", "STOP", "TAKE_PROFIT"];
+
+export class BinanceClient implements IExchangeClient {
+  /** Binance 按币下单，持仓模式跟随账户设置，仓位历史由已实现盈亏流水推算 */
+  readonly capabilities: ExchangeCapabilities = {
+    sizeUnit: "coin",
+    orderTypes: ["market", "limit", "post_only", "ioc", "fok"],
+    triggerOrders: true,
+    positionMode: "account",
+    positionHistory: false,
+    settlementHistory: false,
+    priceStream: false,
+  };
+  private readonly apiKey: string;
+  private readonly apiSecret: string;
+  private readonly baseUrl: string;
+  private readonly recvWindow: number;
+  /** 本地时间与服务器时间的偏差（毫秒） */
+  private timeOffset = 0;
+  /** 是否为双向持仓模式（null 表示尚未查询） */
+  private dualSidePosition: boolean | null = null;
+  /** 交易规则缓存（按 Binance 合约名） */
+  private symbolInfo = new Map<string, BinanceObject>();
+  private symbolInfoUpdatedAt = 0;
+  /** 本进程下达的订单对应的合约（Binance 查询和撤销订单需要合约名） */
+  private orderContracts = new Map<string, string>();
+
+  constructor(apiKey: string, apiSecret: string) {
+    this.apiKey = apiKey;
+    this.apiSecret = apiSecret;
+    this.recvWindow = Number.parseInt(process.env.BINANCE_RECV_WINDOW || "5000");
+
+    const isTestnet = process.env.BINANCE_USE_TESTNET === "true";
+    this.baseUrl = (process.env.BINANCE_BASE_URL || (isTestnet ? BINANCE_TESTNET_URL : BINANCE_MAINNET_URL)).replace(/\/$/, "");
+
+    if (process.env.BINANCE_BASE_URL) {
+      logger.info(`使用自定义 Binance 接口地址: ${this.baseUrl}`);
+    } else if (isTestnet) {
+      logger.info("使用 Binance 测试网");
+    } else {
+      logger.info("使用 Binance 正式网");
+    }
+
+    logger.info("Binance API 客户端初始化完成");
+  }
+
+  /**
+   * 生成 Binance API 签名（HMAC SHA256，十六进制）
+   */
+  private sign(queryString: string): string {
+    return crypto.createHmac("sha256", this.apiSecret).update(queryString).digest("hex");
+  }
+
+  /**
+   * 发送 HTTP 请求
+   * @param signed 是否为需要签名的私有接口
+   */
+  private async request<T = BinanceObject>(
+    method: string,
+    endpoint: string,
+    params?: Record<string, unknown>,
+    signed = false,
+    retryOnTimestampError = true
+  ): Promise<T> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params || {})) {
+      if (value !== undefined && value !== null) {
+        query.append(key, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = {};
+    if (signed) {
+      query.append("timestamp", String(Date.now() + this.timeOffset));
+      query.append("recvWindow", String(this.recvWindow));
+      query.append("signature", this.sign(query.toString()));
+      headers["X-MBX-APIKEY"] = this.apiKey;
+    }
+
+    const queryString = query.toString();
+    const url = `${this.baseUrl}${endpoint}${queryString ? `?${queryString}` : ""}`;
+
+    let data: BinanceObject | undefined;
+    let httpStatus = 0;
+    try {
+      const response = await fetch(url, { method, headers });
+      httpStatus = response.status;
+      const text = await response.text();
+      data = text ? JSON.parse(text) : {};
+    } catch (error) {
+      logger.error(`Binance API 请求失败: ${method} ${endpoint}`, error);
+      throw error;
+    }
+
+    // Binance 错误格式: {code: 负数, msg}，成功时 HTTP 200
+    const isError = httpStatus >= 400 || (typeof data?.code === "number" && data.code < 0);
+    if (isError) {
+      // 本地时间与服务器时间偏差过大时同步服务器时间后重试一次
+      if (signed && data?.code === -1021 && retryOnTimestampError) {
+        await this.syncServerTime();
+        return this.request<T>(method, endpoint, params, signed, false);
+      }
+      logger.error(`Binance API 错误响应: ${method} ${endpoint}`, {
+        params,
+        responseCode: data?.code,
+        responseMsg: data?.msg,
+        httpStatus,
+      });
+      throw new Error(`Binance API Error: ${data?.msg || `HTTP ${httpStatus}`} (code: ${data?.code ?? httpStatus})`);
+    }
+
+    return data as T;
+  }
+
+  /**
+   * 同步服务器时间
+   */
+  private async syncServerTime(): Promise<void> {
+    try {
+      const data = await this.request("GET", "/fapi/v1/time");
+      this.timeOffset = Number(data.serverTime) - Date.now();
+      logger.warn(`已同步 Binance 服务器时间，本地时间偏差 ${this.timeOffset}ms`);
+    } catch (error) {
+      logger.warn(`同步 Binance 服务器时间失败: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * 获取账户持仓模式（双向持仓时下单需要 positionSide）
+   */
+  private async isDualSidePosition(): Promise<boolean> {
+    if (this.dualSidePosition !== null) {
+      return this.dualSidePosition;
+    }
+    try {
+      const data = await this.request("GET", "/fapi/v1/positionSide/dual", undefined, true);
+      this.dualSidePosition = data.dualSidePosition === true || data.dualSidePosition === "true";
+      logger.info(`Binance 持仓模式: ${this.dualSidePosition ? "双向持仓" : "单向持仓"}`);
+    } catch (error) {
+      logger.warn(`查询 Binance 持仓模式失败，按单向持仓处理: ${getErrorMessage(error)}`);
+      this.dualSidePosition = false;
+    }
+    return this.dualSidePosition;
+  }
+
+  /**
+   * 获取交易规则（缓存 1 小时）
+   */
+  private async loadExchangeInfo(): Promise<Map<string, BinanceObject>> {
+    if (this.symbolInfo.size > 0 && Date.now() - this.symbolInfoUpdatedAt < EXCHANGE_INFO_TTL_MS) {
+      return this.symbolInfo;
+    }
+
+    const data = await this.request("GET", "/fapi/v1/exchangeInfo");
+    const symbols = new Map<string, BinanceObject>();
+    for (const info of (data.symbols as BinanceObject[] | undefined) || []) {
+      if (info.quoteAsset === "USDT" && (!info.contractType || info.contractType === "PERPETUAL")) {
+        symbols.set(info.symbol as string, info);
+      }
+    }
+    this.symbolInfo = symbols;
+    this.symbolInfoUpdatedAt = Date.now();
+    return symbols;
+  }
+
+  /**
+   * 将 Binance 交易规则转换为统一合约规格模型
+   */
+  private toContractSpec(info: BinanceObject): ContractSpec {
+    const filters = (info.filters as BinanceObject[] | undefined) || [];
+    const filter = (type: string): BinanceObject => filters.find(f => f.filterType === type) || {};
+    const lotFilter = filter("LOT_SIZE");
+    const marketLotFilter = filter("MARKET_LOT_SIZE");
+    const priceFilter = filter("PRICE_FILTER");
+    const notionalFilter = filter("MIN_NOTIONAL");
+
+    return {
+      name: fromBinanceContract(info.symbol as string),
+      orderSizeMin: toNumber(lotFilter.minQty, 0.001),
+      // 市价单数量上限通常小于限价单
+      orderSizeMax: toNumber(marketLotFilter.maxQty ?? lotFilter.maxQty, 1000000),
+      quantoMultiplier: 1, // 下单数量以币为单位
+      lotSize: toNumber(lotFilter.stepSize, 0.001),
+      orderPriceRound: toNumber(priceFilter.tickSize, 0.01),
+      minNotional: toNumber(notionalFilter.notional),
+      // 交易规则中没有杠杆信息（杠杆分层需要单独查询）
+      leverageMin: 1,
+      leverageMax: 0,
+      inDelisting: info.status !== "TRADING",
+    };
+  }
+
+  /**
+   * 将 Binance 订单转换为统一订单模型（size 带方向，正数买入，负数卖出）
+   */
+  private toOrder(order: BinanceObject): Order {
+    const sign = order.side === "SELL" ? -1 : 1;
+    const origQty = toNumber(order.origQty);
+    const executedQty = toNumber(order.executedQty);
+
+    // Binance 订单状态: NEW, PARTIALLY_FILLED, FILLED, CANCELED, EXPIRED, EXPIRED_IN_MATCH, REJECTED
+    let status: Order["status"] = "open";
+    if (order.status === "FILLED") status = "finished";
+    else if (order.status !== "NEW" && order.status !== "PARTIALLY_FILLED") status = "cancelled";
+
+    const updateTime = toNumber(order.updateTime || order.time);
+    return {
+      id: String(order.orderId),
+      contract: fromBinanceContract(order.symbol as string),
+      size: sign * origQty,
+      left: sign * (origQty - executedQty),
+      price: toNumber(order.price),
+      fillPrice: toNumber(order.avgPrice),
+      status,
+      reduceOnly: order.reduceOnly === true || order.closePosition === true,
+      createTime: toNumber(order.time || updateTime) / 1000,
+      finishTime: status === "open" || !updateTime ? undefined : updateTime / 1000,
+    };
+  }
+
+  /**
+   * 确定订单所属的合约（优先使用调用方提供的合约，其次是本进程下单时的记录）
+   */
+  private async resolveOrderContract(orderId: string, contract?: string): Promise<string> {
+    if (contract) {
+      return contract;
+    }
+    const known = this.orderContracts.get(orderId);
+    if (known) {
+      return known;
+    }
+    const openOrders = await this.getOpenOrders();
+    const order = openOrders.find((o) => o.id === orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found: Binance 查询历史订单需要提供合约名称`);
+    }
+    return order.contract;
+  }
+
+  /**
+   * 未指定合约时需要逐个查询的合约（Binance 部分历史接口必须指定合约）
+   */
+  private getQueryContracts(contract?: string): string[] {
+    return contract ? [contract] : RISK_PARAMS.TRADING_SYMBOLS.map(symbol => `${symbol}_USDT`);
+  }
+
+  /**
+   * 获取合约ticker价格
+   */
+  async getFuturesTicker(contract: string): Promise<Ticker> {
+    const symbol = toBinanceContract(contract);
+
+    const [ticker, premium] = await Promise.all([
+      this.request("GET", "/fapi/v1/ticker/24hr", { symbol }),
+      this.request("GET", "/fapi/v1/premiumIndex", { symbol }),
+    ]);
+
+    const last = toNumber(ticker.lastPrice);
+    const markPrice = toNumber(premium.markPrice, last);
+    return {
+      contract,
+      last,
+      markPrice,
+      indexPrice: toNumber(premium.indexPrice, markPrice),
+      high24h: toNumber(ticker.highPrice),
+      low24h: toNumber(ticker.lowPrice),
+      volume24h: toNumber(ticker.volume),
+      volume24hQuote: toNumber(ticker.quoteVolume),
+      changePercentage: toNumber(ticker.priceChangePercent),
+      fundingRate: toNumber(premium.lastFundingRate),
+    };
+  }
+
+  /**
+   * 获取合约K线数据
+   */
+  async getFuturesCandles(
+    contract: string,
+    interval = "5m",
+    limit = 100
+  ): Promise<Candle[]> {
+    const symbol = toBinanceContract(contract);
+
+    const data = await this.request<unknown[][]>("GET", "/fapi/v1/klines", {
+      symbol,
+      interval: BINANCE_INTERVALS[interval] || interval,
+      limit: Math.min(limit, 1500), // Binance 最大 1500
+    });
+
+    return (data || []).map(toBinanceCandle);
+  }
+
+  /**
+   * 按时间范围获取K线（Binance 单次最多 1500 根）
+   */
+  async getCandlesRange(contract: string, interval: string, fromSec: number, toSec: number): Promise<Candle[]> {
+    const data = await this.request<unknown[][]>("GET", "/fapi/v1/klines", {
+      symbol: toBinanceContract(contract),
+      interval: BINANCE_INTERVALS[interval] || interval,
+      startTime: fromSec * 1000,
+      endTime: toSec * 1000,
+      limit: 1500,
+    });
+    return (data || []).map(toBinanceCandle);
+  }
+
+  /**
+   * 获取账户余额
+   */
+  async getFuturesAccount(): Promise<Account> {
+    const data = await this.request("GET", "/fapi/v2/account", undefined, true);
+    const usdt = ((data.assets as BinanceObject[] | undefined) || []).find(a => a.asset === "USDT");
+    if (!usdt) {
+      throw new Error("USDT account not found");
+    }
+
+    // total 为钱包余额，不含未实现盈亏
+    return {
+      currency: "USDT",
+      total: toNumber(usdt.walletBalance),
+      available: toNumber(usdt.availableBalance),
+      positionMargin: toNumber(usdt.positionInitialMargin),
+      orderMargin: toNumber(usdt.openOrderInitialMargin),
+      unrealisedPnl: toNumber(usdt.unrealizedProfit),
+    };
+  }
+
+  /**
+   * 获取当前持仓（只返回允许的币种）
+   */
+  async getPositions(): Promise<Position[]> {
+    const data = await this.request<BinanceObject[]>("GET", "/fapi/v2/positionRisk", undefined, true);
+    const allowedSymbols = RISK_PARAMS.TRADING_SYMBOLS;
+
+    return (data || [])
+      .filter(p => {
+        const symbol = fromBinanceContract(p.symbol as string).split("_")[0];
+        return allowedSymbols.includes(symbol) && toNumber(p.positionAmt) !== 0;
+      })
+      .map((p): Position => {
+        // positionAmt 带方向（双向持仓模式下空仓同样为负数）
+        const leverage = toNumber(p.leverage, 1);
+        const notional = Math.abs(toNumber(p.notional));
+
+        return {
+          contract: fromBinanceContract(p.symbol as string),
+          size: toNumber(p.positionAmt),
+          leverage,
+          entryPrice: toNumber(p.entryPrice),
+          markPrice: toNumber(p.markPrice),
+          liqPrice: toNumber(p.liquidationPrice),
+          unrealisedPnl: toNumber(p.unRealizedProfit),
+          realisedPnl: 0,
+          margin: notional / leverage,
+          notional,
+        };
+      });
+  }
+
+  /**
+   * 下单 - 开仓或平仓
+   */
+  async placeOrder(params: {
+    contract: string;
+    size: number;
+    price?: number;
+    tif?: string;
+    reduceOnly?: boolean;
+    autoSize?: string;
+    stopLoss?: number;
+    takeProfit?: number;
+  }): Promise<Order> {
+    const symbol = toBinanceContract(params.contract);
+
+    if (params.size === 0 || !Number.isFinite(params.size)) {
+      throw new Error(`Invalid order size: ${params.size}. Size must be a non-zero finite number.`);
+    }
+
+    try {
+      const order: Record<string, string> = {
+        symbol,
+        side: params.size > 0 ? "BUY" : "SELL",
+        quantity: Math.abs(params.size).toString(),
+        newOrderRespType: "RESULT", // 返回成交结果（市价单可直接获取成交均价）
+      };
+
+      if (params.price && params.price > 0) {
+        order.type = "LIMIT";
+        order.price = params.price.toString();
+        order.timeInForce = BINANCE_TIME_IN_FORCE[params.tif || "gtc"] || "GTC";
+      } else {
+        order.type = "MARKET";
+      }
+
+      // 双向持仓模式使用 positionSide 区分开平仓（不能传 reduceOnly）
+      if (await this.isDualSidePosition()) {
+        order.positionSide = params.reduceOnly
+          ? (params.size > 0 ? "SHORT" : "LONG")
+          : (params.size > 0 ? "LONG" : "SHORT");
+      } else if (params.reduceOnly) {
+        order.reduceOnly = "true";
+      }
+
+      logger.info("Binance 下单请求:", { contract: params.contract, orderParams: order });
+
+      const result = await this.request("POST", "/fapi/v1/order", order, true);
+      const placed = this.toOrder(result);
+      this.orderContracts.set(placed.id, params.contract);
+
+      logger.info("Binance 下单响应:", {
+        orderId: result.orderId,
+        status: result.status,
+        executedQty: result.executedQty,
+        avgPrice: result.avgPrice,
+      });
+
+      return placed;
+    } catch (error) {
+      const errorMessage = getErrorMessage(error) || "Unknown error";
+      logger.error("Binance 下单失败:", errorMessage);
+      throw new Error(`下单失败: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * 获取订单详情
+   * @param orderId 订单ID
+   * @param contract 合约名称（可选）。Binance 查询订单需要合约名，未提供时使用本进程下单时的记录或未成交订单
+   */
+  async getOrder(orderId: string, contract?: string): Promise<Order> {
+    try {
+      const orderContract = await this.resolveOrderContract(orderId, contract);
+      const data = await this.request("GET", "/fapi/v1/order", {
+        symbol: toBinanceContract(orderContract),
+        orderId,
+      }, true);
+      return this.toOrder(data);
+    } catch (error) {
+      logger.error(`获取订单 ${orderId} 详情失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 取消订单
+   */
+  async cancelOrder(orderId: string): Promise<void> {
+    try {
+      const contract = await this.resolveOrderContract(orderId);
+      await this.request("DELETE", "/fapi/v1/order", {
+        symbol: toBinanceContract(contract),
+        orderId,
+      }, true);
+    } catch (error) {
+      logger.error(`取消订单 ${orderId} 失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取未成交订单（不含条件单）
+   */
+  async getOpenOrders(contract?: string): Promise<Order[]> {
+    try {
+      const data = await this.request<BinanceObject[]>("GET", "/fapi/v1/openOrders", {
+        symbol: contract ? toBinanceContract(contract) : undefined,
+      }, true);
+
+      return (data || [])
+        .filter(order => !TRIGGER_ORDER_TYPES.includes(order.type as string))
+        .map(order => this.toOrder(order));
+    } catch (error) {
+      logger.error("获取未成交订单失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 挂出止损/止盈条件单
+   * 触发后以市价平掉整个仓位（closePosition），触发价格使用标记价格，由交易所执行，不依赖本进程在线
+   * 普通订单接口不再接受条件单时（-4120）改用策略委托接口
+   */
+  async placeTriggerOrder(params: TriggerOrderParams): Promise<TriggerOrder> {
+    const order: Record<string, string> = {
+      symbol: toBinanceContract(params.contract),
+      side: params.side === "long" ? "SELL" : "BUY",
+      type: params.kind === "stop_loss" ? "STOP_MARKET" : "TAKE_PROFIT_MARKET",
+      closePosition: "true",
+      workingType: "MARK_PRICE",
+    };
+
+    try {
+      if (await this.isDualSidePosition()) {
+        order.positionSide = params.side === "long" ? "LONG" : "SHORT";
+      }
+
+      logger.info("Binance 挂出条件单:", order);
+      let id: string;
+      try {
+        const result = await this.request("POST", "/fapi/v1/order", { ...order, stopPrice: params.triggerPrice.toString() }, true);
+        id = String(result.orderId);
+      } catch (error) {
+        if (!String(getErrorMessage(error)).includes("-4120")) {
+          throw error;
+        }
+        const result = await this.request("POST", "/fapi/v1/algoOrder", {
+          ...order,
+          algoType: "CONDITIONAL",
+          triggerPrice: params.triggerPrice.toString(),
+        }, true);
+        id = `${ALGO_ORDER_PREFIX}${result.algoId}`;
+      }
+
+      return {
+        id,
+        contract: params.contract,
+        side: params.side,
+        kind: params.kind,
+        triggerPrice: params.triggerPrice,
+        status: "open",
+      };
+    } catch (error) {
+      logger.error(`Binance 挂出 ${params.contract} 条件单失败:`, getErrorMessage(error));
+      throw new Error(`挂出条件单失败: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * 撤销条件单
+   */
+  async cancelTriggerOrder(orderId: string, contract: string): Promise<void> {
+    try {
+      const symbol = toBinanceContract(contract);
+      if (orderId.startsWith(ALGO_ORDER_PREFIX)) {
+        await this.request("DELETE", "/fapi/v1/algoOrder", { symbol, algoId: orderId.slice(ALGO_ORDER_PREFIX.length) }, true);
+      } else {
+        await this.request("DELETE", "/fapi/v1/order", { symbol, orderId }, true);
+      }
+    } catch (error) {
+      logger.error(`撤销条件单 ${orderId} 失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取未触发的条件单（普通订单接口和策略委托接口）
+   */
+  async getTriggerOrders(contract?: string): Promise<TriggerOrder[]> {
+    const symbol = contract ? toBinanceContract(contract) : undefined;
+    const toTriggerOrder = (order: BinanceObject, id: string): TriggerOrder => {
+      const isStopLoss = order.type === "STOP_MARKET" || order.type === "STOP" || order.orderType === "STOP_MARKET";
+      return {
+        id,
+        contract: fromBinanceContract(order.symbol as string),
+        // 卖出平仓保护的是多仓
+        side: order.positionSide === "SHORT" || (order.positionSide !== "LONG" && order.side === "BUY") ? "short" : "long",
+        kind: isStopLoss ? "stop_loss" : "take_profit",
+        triggerPrice: toNumber(order.stopPrice || order.triggerPrice),
+        status: "open",
+        createTime: toNumber(order.time || order.createTime) / 1000,
+      };
+    };
+
+    try {
+      const data = await this.request<BinanceObject[]>("GET", "/fapi/v1/openOrders", { symbol }, true);
+      const orders = (data || [])
+        .filter(order => TRIGGER_ORDER_TYPES.includes(order.type as string))
+        .map(order => toTriggerOrder(order, String(order.orderId)));
+
+      try {
+        const algoOrders = await this.request<BinanceObject[] | { orders?: BinanceObject[] }>(
+          "GET",
+          "/fapi/v1/openAlgoOrders",
+          { symbol },
+          true
+        );
+        const list = Array.isArray(algoOrders) ? algoOrders : algoOrders?.orders || [];
+        for (const order of list) {
+          orders.push(toTriggerOrder(order, `${ALGO_ORDER_PREFIX}${order.algoId}`));
+        }
+      } catch (error) {
+        logger.debug(`查询 Binance 策略委托失败: ${getErrorMessage(error)}`);
+      }
+
+      return orders;
+    } catch (error) {
+      logger.error("获取条件单失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 设置仓位杠杆
+   */
+  async setLeverage(contract: string, leverage: number): Promise<void> {
+    try {
+      logger.info(`设置 ${contract} 杠杆为 ${leverage}x`);
+      await this.request("POST", "/fapi/v1/leverage", {
+        symbol: toBinanceContract(contract),
+        leverage: Math.round(leverage),
+      }, true);
+    } catch (error) {
+      logger.warn(`设置 ${contract} 杠杆失败:`, getErrorMessage(error));
+    }
+  }
+
+  /**
+   * 获取资金费率
+   */
+  async getFundingRate(contract: string): Promise<FundingRate> {
+    try {
+      const data = await this.request("GET", "/fapi/v1/premiumIndex", {
+        symbol: toBinanceContract(contract),
+      });
+      return {
+        contract,
+        rate: toNumber(data.lastFundingRate),
+        time: toNumber(data.nextFundingTime) / 1000,
+      };
+    } catch (error) {
+      logger.error(`获取 ${contract} 资金费率失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取合约信息
+   */
+  async getContractInfo(contract: string): Promise<ContractSpec> {
+    try {
+      const symbols = await this.loadExchangeInfo();
+      const info = symbols.get(toBinanceContract(contract));
+      if (!info) {
+        throw new Error("Contract not found");
+      }
+      return this.toContractSpec(info);
+    } catch (error) {
+      logger.error(`获取 ${contract} 合约信息失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取所有合约列表（U本位永续合约）
+   */
+  async getAllContracts(): Promise<ContractSpec[]> {
+    try {
+      const symbols = await this.loadExchangeInfo();
+      return [...symbols.values()].map(info => this.toContractSpec(info));
+    } catch (error) {
+      logger.error("获取合约列表失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取订单簿
+   */
+  async getOrderBook(contract: string, limit = 10): Promise<OrderBook> {
+    try {
+      // Binance 只支持固定档位数，取不小于请求数量的最小档位
+      const depthLimit = BINANCE_DEPTH_LIMITS.find(l => l >= limit) || 1000;
+      const data = await this.request<{ bids?: string[][]; asks?: string[][] }>("GET", "/fapi/v1/depth", {
+        symbol: toBinanceContract(contract),
+        limit: depthLimit,
+      });
+
+      // Binance 格式: [price, qty]
+      const toLevel = (level: string[]) => ({ price: toNumber(level[0]), size: toNumber(level[1]) });
+      return {
+        bids: (data.bids || []).slice(0, limit).map(toLevel),
+        asks: (data.asks || []).slice(0, limit).map(toLevel),
+      };
+    } catch (error) {
+      logger.error(`获取 ${contract} 订单簿失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史成交记录（我的成交）
+   * Binance 需要按合约查询，未指定合约时查询所有交易币种后合并
+   */
+  async getMyTrades(contract?: string, limit = 10): Promise<Fill[]> {
+    try {
+      const trades: Fill[] = [];
+      for (const queryContract of this.getQueryContracts(contract)) {
+        const data = await this.request<BinanceObject[]>("GET", "/fapi/v1/userTrades", {
+          symbol: toBinanceContract(queryContract),
+          limit: Math.min(limit, 1000),
+        }, true);
+        for (const trade of data || []) {
+          trades.push({
+            contract: queryContract,
+            id: String(trade.id),
+            orderId: String(trade.orderId),
+            size: (trade.side === "SELL" ? -1 : 1) * toNumber(trade.qty),
+            price: toNumber(trade.price),
+            fee: toNumber(trade.commission),
+            role: trade.maker ? "maker" : "taker",
+            time: toNumber(trade.time) / 1000,
+          });
+        }
+      }
+      return trades.sort((a, b) => b.time - a.time).slice(0, limit);
+    } catch (error) {
+      logger.error("获取我的历史成交记录失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史仓位记录
+   * Binance 没有仓位历史接口，使用已实现盈亏流水（REALIZED_PNL）代替，不支持 offset
+   */
+  async getPositionHistory(contract?: string, limit = 100, offset = 0): Promise<ClosedPosition[]> {
+    try {
+      const data = await this.request<BinanceObject[]>("GET", "/fapi/v1/income", {
+        symbol: contract ? toBinanceContract(contract) : undefined,
+        incomeType: "REALIZED_PNL",
+        limit: Math.min(limit, 1000),
+      }, true);
+
+      return (data || []).map((income): ClosedPosition => ({
+        contract: fromBinanceContract(income.symbol as string),
+        size: 0,
+        entryPrice: 0,
+        closePrice: 0,
+        pnl: toNumber(income.income),
+        fee: 0,
+        time: toNumber(income.time) / 1000,
+        type: "realized_pnl",
+      }));
+    } catch (error) {
+      logger.error("获取历史仓位记录失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史结算记录
+   */
+  async getSettlementHistory(contract?: string, limit = 100, offset = 0): Promise<ClosedPosition[]> {
+    // Binance 没有单独的结算历史API，使用仓位历史代替
+    return this.getPositionHistory(contract, limit, offset);
+  }
+
+  /**
+   * 获取已完成的订单历史
+   * Binance 需要按合约查询，未指定合约时查询所有交易币种后合并
+   */
+  async getOrderHistory(contract?: string, limit = 10): Promise<Order[]> {
+    try {
+      const orders: Order[] = [];
+      for (const queryContract of this.getQueryContracts(contract)) {
+        const data = await this.request<BinanceObject[]>("GET", "/fapi/v1/allOrders", {
+          symbol: toBinanceContract(queryContract),
+          limit: Math.min(limit, 1000),
+        }, true);
+        for (const order of data || []) {
+          if (order.status === "FILLED") {
+            orders.push(this.toOrder(order));
+          }
+        }
+      }
+      return orders.sort((a, b) => b.createTime - a.createTime).slice(0, limit);
+    } catch (error) {
+      logger.error("获取订单历史失败:", error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * 全局 Binance 客户端实例（单例模式）
+ */
+let binanceClientInstance: BinanceClient | null = null;
+
+/**
+ * 创建全局 Binance 客户端实例（单例模式）
+ */
+export function createBinanceClient(): BinanceClient {
+  // 如果已存在实例，直接返回
+  if (binanceClientInstance) {
+    return binanceClientInstance;
+  }
+
+  const apiKey = process.env.BINANCE_API_KEY;
+  const apiSecret = process.env.BINANCE_API_SECRET;
+
+  if (!apiKey || !apiSecret) {
+    throw new Error("BINANCE_API_KEY 和 BINANCE_API_SECRET 必须在环境变量中设置");
+  }
+
+  // 创建并缓存实例
+  binanceClientInstance = new BinanceClient(apiKey, apiSecret);
+  return binanceClientInstance;
+}
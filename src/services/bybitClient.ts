@@ -0,0 +1,936 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Bybit U本位永续合约（V5 API，category=linear）客户端封装
+ *
+ * - 下单数量以币为单位（合约乘数为 1），数量精度取 lotSizeFilter.qtyStep
+ * - 支持单向持仓和双向持仓模式（按合约检测 positionIdx）
+ * - BYBIT_BASE_URL 可指向本地模拟服务器进行测试
+ */
+import * as crypto from "node:crypto";
+import { RISK_PARAMS } from "../config/riskParams";
+import { fromBybitContract, toBybitContract } from "../utils/contractMapping";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import type { IExchangeClient } from "./exchangeClient";
+import {
+  type Account,
+  type Candle,
+  type ClosedPosition,
+  type ContractSpec,
+  type ExchangeCapabilities,
+  type Fill,
+  type FundingRate,
+  type Order,
+  type OrderBook,
+  type Position,
+  type Ticker,
+  type TriggerOrder,
+  type TriggerOrderParams,
+  toNumber,
+} from "./exchangeModels";
+
+const logger = createLogger({
+  name: "bybit-client",
+  level: "info",
+});
+
+/** 正式网地址 */
+const BYBIT_MAINNET_URL = "https://api.bybit.com";
+/** 测试网地址 */
+const BYBIT_TESTNET_URL = "https://api-testnet.bybit.com";
+
+/** 交易规则缓存时间（毫秒） */
+const INSTRUMENTS_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * time-in-force（Gate 格式）对应的 Bybit timeInForce
+ */
+const BYBIT_TIME_IN_FORCE: Record<string, string> = {
+  gtc: "GTC",
+  poc: "PostOnly",
+  ioc: "IOC",
+  fok: "FOK",
+};
+
+/**
+ * K线周期（Gate 格式）对应的 Bybit interval
+ */
+const BYBIT_INTERVALS: Record<string, string> = {
+  "1m": "1",
+  "3m": "3",
+  "5m": "5",
+  "15m": "15",
+  "30m": "30",
+  "1h": "60",
+  "2h": "120",
+  "4h": "240",
+  "6h": "360",
+  "12h": "720",
+  "1d": "D",
+  "7d": "W",
+  "30d": "M",
+};
+
+/**
+ * Bybit K线（[startTime, o, h, l, c, volume, turnover]）转换为统一K线模型
+ */
+function toBybitCandle(candle: string[]): Candle {
+  return {
+    timestamp: toNumber(candle[0]) / 1000,
+    open: toNumber(candle[1]),
+    high: toNumber(candle[2]),
+    low: toNumber(candle[3]),
+    close: toNumber(candle[4]),
+    volume: toNumber(candle[5]),
+    quoteVolume: toNumber(candle[6]),
+  };
+}
+
+/** Bybit 接口返回的 JSON 对象（数值字段统一经 toNumber 转换） */
+type BybitObject = Record<string, unknown>;
+
+/** Bybit 列表接口的 result 字段 */
+interface BybitListResult {
+  list?: BybitObject[];
+  nextPageCursor?: string;
+}
+
+/** 订单簿最大档位数（linear） */
+const BYBIT_MAX_DEPTH = 500;
+
+export class BybitClient implements IExchangeClient {
+  /** Bybit 按币下单，持仓模式跟随账户设置，仓位历史使用平仓盈亏记录 */
+  readonly capabilities: ExchangeCapabilities = {
+    sizeUnit: "coin",
+    orderTypes: ["market", "limit", "post_only", "ioc", "fok"],
+    triggerOrders: true,
+    positionMode: "account",
+    positionHistory: true,
+    settlementHistory: false,
+    priceStream: false,
+  };
+  private readonly apiKey: string;
+  private readonly apiSecret: string;
+  private readonly baseUrl: string;
+  private readonly recvWindow: string;
+  /** 各合约是否为双向持仓模式（positionIdx 非 0） */
+  private hedgeMode = new Map<string, boolean>();
+  /** 交易规则缓存（按 Bybit 合约名） */
+  private instruments = new Map<string, BybitObject>();
+  private instrumentsUpdatedAt = 0;
+  /** 本进程下达的订单对应的合约（Bybit 撤销订单需要合约名） */
+  private orderContracts = new Map<string, string>();
+
+  constructor(apiKey: string, apiSecret: string) {
+    this.apiKey = apiKey;
+    this.apiSecret = apiSecret;
+    this.recvWindow = process.env.BYBIT_RECV_WINDOW || "5000";
+
+    const isTestnet = process.env.BYBIT_USE_TESTNET === "true";
+    this.baseUrl = (process.env.BYBIT_BASE_URL || (isTestnet ? BYBIT_TESTNET_URL : BYBIT_MAINNET_URL)).replace(/\/$/, "");
+
+    if (process.env.BYBIT_BASE_URL) {
+      logger.info(`使用自定义 Bybit 接口地址: ${this.baseUrl}`);
+    } else if (isTestnet) {
+      logger.info("使用 Bybit 测试网");
+    } else {
+      logger.info("使用 Bybit 正式网");
+    }
+
+    logger.info("Bybit API 客户端初始化完成");
+  }
+
+  /**
+   * 生成 Bybit API 签名
+   * 签名内容: timestamp + apiKey + recvWindow + (GET 查询字符串 | POST 请求体)
+   */
+  private sign(timestamp: string, payload: string): string {
+    return crypto
+      .createHmac("sha256", this.apiSecret)
+      .update(timestamp + this.apiKey + this.recvWindow + payload)
+      .digest("hex");
+  }
+
+  /**
+   * 发送 HTTP 请求，返回 result 字段
+   * @param signed 是否为需要签名的私有接口
+   */
+  private async request<T = BybitListResult>(
+    method: "GET" | "POST",
+    endpoint: string,
+    params?: Record<string, unknown>,
+    signed = false
+  ): Promise<T> {
+    const cleanParams: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(params || {})) {
+      if (value !== undefined && value !== null) {
+        cleanParams[key] = value;
+      }
+    }
+
+    const queryString = method === "GET" ? new URLSearchParams(Object.entries(cleanParams).map(([key, value]) => [key, String(value)])).toString() : "";
+    const body = method === "POST" ? JSON.stringify(cleanParams) : "";
+    const url = `${this.baseUrl}${endpoint}${queryString ? `?${queryString}` : ""}`;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (signed) {
+      const timestamp = Date.now().toString();
+      headers["X-BAPI-API-KEY"] = this.apiKey;
+      headers["X-BAPI-TIMESTAMP"] = timestamp;
+      headers["X-BAPI-RECV-WINDOW"] = this.recvWindow;
+      headers["X-BAPI-SIGN"] = this.sign(timestamp, method === "GET" ? queryString : body);
+    }
+
+    let data: BybitObject | undefined;
+    let httpStatus = 0;
+    try {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: method === "POST" ? body : undefined,
+      });
+      httpStatus = response.status;
+      const text = await response.text();
+      data = text ? JSON.parse(text) : {};
+    } catch (error) {
+      logger.error(`Bybit API 请求失败: ${method} ${endpoint}`, error);
+      throw error;
+    }
+
+    // Bybit 响应格式: {retCode, retMsg, result}，retCode 为 0 表示成功
+    if (httpStatus >= 400 || data?.retCode !== 0) {
+      logger.error(`Bybit API 错误响应: ${method} ${endpoint}`, {
+        params: cleanParams,
+        retCode: data?.retCode,
+        retMsg: data?.retMsg,
+        httpStatus,
+      });
+      throw new Error(`Bybit API Error: ${data?.retMsg || `HTTP ${httpStatus}`} (code: ${data?.retCode ?? httpStatus})`);
+    }
+
+    return data.result as T;
+  }
+
+  /**
+   * 检测合约的持仓模式（双向持仓时下单需要 positionIdx）
+   */
+  private async isHedgeMode(symbol: string): Promise<boolean> {
+    const cached = this.hedgeMode.get(symbol);
+    if (cached !== undefined) {
+      return cached;
+    }
+    try {
+      const result = await this.request("GET", "/v5/position/list", { category: "linear", symbol }, true);
+      const hedge = (result.list || []).some(p => Number(p.positionIdx) !== 0);
+      this.hedgeMode.set(symbol, hedge);
+      logger.info(`Bybit ${symbol} 持仓模式: ${hedge ? "双向持仓" : "单向持仓"}`);
+      return hedge;
+    } catch (error) {
+      logger.warn(`查询 Bybit ${symbol} 持仓模式失败，按单向持仓处理: ${getErrorMessage(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * 获取交易规则（缓存 1 小时）
+   */
+  private async loadInstruments(): Promise<Map<string, BybitObject>> {
+    if (this.instruments.size > 0 && Date.now() - this.instrumentsUpdatedAt < INSTRUMENTS_TTL_MS) {
+      return this.instruments;
+    }
+
+    const instruments = new Map<string, BybitObject>();
+    let cursor: string | undefined;
+    do {
+      const result = await this.request("GET", "/v5/market/instruments-info", {
+        category: "linear",
+        limit: 1000,
+        cursor,
+      });
+      for (const info of result.list || []) {
+        if (info.quoteCoin === "USDT" && (!info.contractType || info.contractType === "LinearPerpetual")) {
+          instruments.set(info.symbol as string, info);
+        }
+      }
+      cursor = result.nextPageCursor || undefined;
+    } while (cursor);
+
+    this.instruments = instruments;
+    this.instrumentsUpdatedAt = Date.now();
+    return instruments;
+  }
+
+  /**
+   * 将 Bybit 交易规则转换为统一合约规格模型
+   */
+  private toContractSpec(info: BybitObject): ContractSpec {
+    const lot = (info.lotSizeFilter || {}) as BybitObject;
+    const price = (info.priceFilter || {}) as BybitObject;
+    const leverage = (info.leverageFilter || {}) as BybitObject;
+    return {
+      name: fromBybitContract(info.symbol as string),
+      orderSizeMin: toNumber(lot.minOrderQty, 0.001),
+      // 市价单数量上限通常小于限价单
+      orderSizeMax: toNumber(lot.maxMktOrderQty ?? lot.maxOrderQty, 1000000),
+      quantoMultiplier: 1, // 下单数量以币为单位
+      lotSize: toNumber(lot.qtyStep, 0.001),
+      orderPriceRound: toNumber(price.tickSize, 0.01),
+      minNotional: toNumber(lot.minNotionalValue),
+      leverageMin: toNumber(leverage.minLeverage, 1),
+      leverageMax: toNumber(leverage.maxLeverage),
+      inDelisting: info.status !== "Trading",
+    };
+  }
+
+  /**
+   * 将 Bybit 订单转换为统一订单模型（size 带方向，正数买入，负数卖出）
+   */
+  private toOrder(order: BybitObject): Order {
+    const sign = order.side === "Sell" ? -1 : 1;
+    const qty = toNumber(order.qty);
+    const executedQty = toNumber(order.cumExecQty);
+
+    // Bybit 订单状态: New, PartiallyFilled, Untriggered, Filled, Cancelled, PartiallyFilledCanceled, Rejected, Deactivated, Triggered
+    let status: Order["status"] = "open";
+    if (order.orderStatus === "Filled") status = "finished";
+    else if (!["New", "PartiallyFilled", "Untriggered", "Triggered"].includes(order.orderStatus as string)) status = "cancelled";
+
+    return {
+      id: String(order.orderId),
+      contract: fromBybitContract(order.symbol as string),
+      size: sign * qty,
+      left: sign * (qty - executedQty),
+      price: toNumber(order.price),
+      fillPrice: toNumber(order.avgPrice),
+      status,
+      reduceOnly: order.reduceOnly === true,
+      createTime: toNumber(order.createdTime) / 1000,
+      finishTime: status === "open" || !order.updatedTime ? undefined : toNumber(order.updatedTime) / 1000,
+    };
+  }
+
+  /**
+   * 查询订单（先查活动订单，再查历史订单）
+   */
+  private async findOrder(orderId: string, contract?: string): Promise<BybitObject | null> {
+    const query = {
+      category: "linear",
+      orderId,
+      symbol: contract ? toBybitContract(contract) : undefined,
+      settleCoin: contract ? undefined : "USDT",
+    };
+    const realtime = await this.request("GET", "/v5/order/realtime", query, true);
+    if (realtime.list?.length) {
+      return realtime.list[0];
+    }
+    const history = await this.request("GET", "/v5/order/history", { category: "linear", orderId }, true);
+    return history.list?.[0] || null;
+  }
+
+  /**
+   * 获取合约ticker价格
+   */
+  async getFuturesTicker(contract: string): Promise<Ticker> {
+    const symbol = toBybitContract(contract);
+
+    const result = await this.request("GET", "/v5/market/tickers", { category: "linear", symbol });
+    const ticker = result.list?.[0];
+    if (!ticker) {
+      throw new Error(`Ticker not found for ${contract}`);
+    }
+
+    // price24hPcnt 为小数，转换为百分比
+    return {
+      contract,
+      last: toNumber(ticker.lastPrice),
+      markPrice: toNumber(ticker.markPrice),
+      indexPrice: toNumber(ticker.indexPrice),
+      high24h: toNumber(ticker.highPrice24h),
+      low24h: toNumber(ticker.lowPrice24h),
+      volume24h: toNumber(ticker.volume24h),
+      volume24hQuote: toNumber(ticker.turnover24h),
+      changePercentage: toNumber(ticker.price24hPcnt) * 100,
+      fundingRate: toNumber(ticker.fundingRate),
+    };
+  }
+
+  /**
+   * 获取合约K线数据
+   */
+  async getFuturesCandles(
+    contract: string,
+    interval = "5m",
+    limit = 100
+  ): Promise<Candle[]> {
+    const symbol = toBybitContract(contract);
+
+    const result = await this.request<{ list?: string[][] }>("GET", "/v5/market/kline", {
+      category: "linear",
+      symbol,
+      interval: BYBIT_INTERVALS[interval] || interval,
+      limit: Math.min(limit, 1000), // Bybit 最大 1000
+    });
+
+    // Bybit K线按时间倒序，转换后按时间正序排列
+    return (result.list || []).map(toBybitCandle).reverse();
+  }
+
+  /**
+   * 按时间范围获取K线（Bybit 单次最多 1000 根）
+   */
+  async getCandlesRange(contract: string, interval: string, fromSec: number, toSec: number): Promise<Candle[]> {
+    const result = await this.request<{ list?: string[][] }>("GET", "/v5/market/kline", {
+      category: "linear",
+      symbol: toBybitContract(contract),
+      interval: BYBIT_INTERVALS[interval] || interval,
+      start: fromSec * 1000,
+      end: toSec * 1000,
+      limit: 1000,
+    });
+    return (result.list || []).map(toBybitCandle).reverse();
+  }
+
+  /**
+   * 获取账户余额（统一交易账户）
+   */
+  async getFuturesAccount(): Promise<Account> {
+    const result = await this.request("GET", "/v5/account/wallet-balance", {
+      accountType: "UNIFIED",
+      coin: "USDT",
+    }, true);
+    const account = result.list?.[0];
+    const usdt = ((account?.coin as BybitObject[] | undefined) || []).find(c => c.coin === "USDT");
+    if (!usdt) {
+      throw new Error("USDT account not found");
+    }
+
+    // total 为钱包余额，不含未实现盈亏
+    return {
+      currency: "USDT",
+      total: toNumber(usdt.walletBalance),
+      available: toNumber(account?.totalAvailableBalance || usdt.availableToWithdraw),
+      positionMargin: toNumber(usdt.totalPositionIM),
+      orderMargin: toNumber(usdt.totalOrderIM),
+      unrealisedPnl: toNumber(usdt.unrealisedPnl),
+    };
+  }
+
+  /**
+   * 获取当前持仓（只返回允许的币种）
+   */
+  async getPositions(): Promise<Position[]> {
+    const result = await this.request("GET", "/v5/position/list", {
+      category: "linear",
+      settleCoin: "USDT",
+      limit: 200,
+    }, true);
+    const allowedSymbols = RISK_PARAMS.TRADING_SYMBOLS;
+
+    return (result.list || [])
+      .filter(p => {
+        const symbol = fromBybitContract(p.symbol as string).split("_")[0];
+        return allowedSymbols.includes(symbol) && toNumber(p.size) !== 0;
+      })
+      .map((p): Position => {
+        // Bybit 的 size 为绝对值，方向由 side 表示
+        const size = toNumber(p.size) * (p.side === "Sell" ? -1 : 1);
+        return {
+          contract: fromBybitContract(p.symbol as string),
+          size,
+          leverage: toNumber(p.leverage, 1),
+          entryPrice: toNumber(p.avgPrice),
+          markPrice: toNumber(p.markPrice),
+          liqPrice: toNumber(p.liqPrice),
+          unrealisedPnl: toNumber(p.unrealisedPnl),
+          realisedPnl: toNumber(p.curRealisedPnl),
+          margin: toNumber(p.positionIM),
+          notional: Math.abs(toNumber(p.positionValue)),
+          openTime: p.createdTime ? toNumber(p.createdTime) / 1000 : undefined,
+        };
+      });
+  }
+
+  /**
+   * 下单 - 开仓或平仓
+   * Bybit 下单接口只返回订单ID，下单后查询一次订单状态（市价单通常已成交）
+   */
+  async placeOrder(params: {
+    contract: string;
+    size: number;
+    price?: number;
+    tif?: string;
+    reduceOnly?: boolean;
+    autoSize?: string;
+    stopLoss?: number;
+    takeProfit?: number;
+  }): Promise<Order> {
+    const symbol = toBybitContract(params.contract);
+
+    if (params.size === 0 || !Number.isFinite(params.size)) {
+      throw new Error(`Invalid order size: ${params.size}. Size must be a non-zero finite number.`);
+    }
+
+    try {
+      const side = params.size > 0 ? "Buy" : "Sell";
+      const order: Record<string, string | number | boolean> = {
+        category: "linear",
+        symbol,
+        side,
+        qty: Math.abs(params.size).toString(),
+      };
+
+      if (params.price && params.price > 0) {
+        order.orderType = "Limit";
+        order.price = params.price.toString();
+        order.timeInForce = BYBIT_TIME_IN_FORCE[params.tif || "gtc"] || "GTC";
+      } else {
+        order.orderType = "Market";
+      }
+
+      if (params.reduceOnly) {
+        order.reduceOnly = true;
+      }
+
+      // 双向持仓模式: 1=多仓，2=空仓；平仓时方向与订单方向相反
+      if (await this.isHedgeMode(symbol)) {
+        const isLongSide = params.reduceOnly ? side === "Sell" : side === "Buy";
+        order.positionIdx = isLongSide ? 1 : 2;
+      }
+
+      if (params.stopLoss) {
+        order.stopLoss = params.stopLoss.toString();
+      }
+      if (params.takeProfit) {
+        order.takeProfit = params.takeProfit.toString();
+      }
+
+      logger.info("Bybit 下单请求:", { contract: params.contract, orderParams: order });
+
+      const result = await this.request<BybitObject>("POST", "/v5/order/create", order, true);
+      const orderId = String(result.orderId);
+      this.orderContracts.set(orderId, params.contract);
+
+      logger.info("Bybit 下单响应:", { orderId });
+
+      try {
+        const detail = await this.findOrder(orderId, params.contract);
+        if (detail) {
+          return this.toOrder(detail);
+        }
+      } catch (error) {
+        logger.warn(`查询 Bybit 订单 ${orderId} 状态失败: ${getErrorMessage(error)}`);
+      }
+
+      // 未能查询到订单详情时返回未成交状态，由调用方继续查询
+      return {
+        id: orderId,
+        contract: params.contract,
+        size: params.size,
+        left: params.size,
+        price: params.price || 0,
+        fillPrice: 0,
+        status: "open",
+        reduceOnly: params.reduceOnly === true,
+        createTime: Date.now() / 1000,
+      };
+    } catch (error) {
+      const errorMessage = getErrorMessage(error) || "Unknown error";
+      logger.error("Bybit 下单失败:", errorMessage);
+      throw new Error(`下单失败: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * 获取订单详情
+   * @param orderId 订单ID
+   * @param contract 合约名称（可选）
+   */
+  async getOrder(orderId: string, contract?: string): Promise<Order> {
+    try {
+      const order = await this.findOrder(orderId, contract || this.orderContracts.get(orderId));
+      if (!order) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      return this.toOrder(order);
+    } catch (error) {
+      logger.error(`获取订单 ${orderId} 详情失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 取消订单
+   */
+  async cancelOrder(orderId: string): Promise<void> {
+    try {
+      let contract = this.orderContracts.get(orderId);
+      if (!contract) {
+        const order = await this.findOrder(orderId);
+        if (!order) {
+          throw new Error(`Order ${orderId} not found`);
+        }
+        contract = fromBybitContract(order.symbol as string);
+      }
+
+      await this.request("POST", "/v5/order/cancel", {
+        category: "linear",
+        symbol: toBybitContract(contract),
+        orderId,
+      }, true);
+    } catch (error) {
+      logger.error(`取消订单 ${orderId} 失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取未成交订单（不含条件单）
+   */
+  async getOpenOrders(contract?: string): Promise<Order[]> {
+    try {
+      const result = await this.request("GET", "/v5/order/realtime", {
+        category: "linear",
+        symbol: contract ? toBybitContract(contract) : undefined,
+        settleCoin: contract ? undefined : "USDT",
+        orderFilter: "Order",
+        limit: 50,
+      }, true);
+
+      return (result.list || []).map(order => this.toOrder(order));
+    } catch (error) {
+      logger.error("获取未成交订单失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 挂出止损/止盈条件单
+   * 使用只减仓的条件市价单，数量为当前持仓数量，触发价格使用标记价格，由交易所执行，不依赖本进程在线
+   */
+  async placeTriggerOrder(params: TriggerOrderParams): Promise<TriggerOrder> {
+    const symbol = toBybitContract(params.contract);
+
+    try {
+      const positions = await this.getPositions();
+      const position = positions.find(p => p.contract === params.contract
+        && (p.size > 0 ? "long" : "short") === params.side);
+      if (!position) {
+        throw new Error(`${params.contract} 没有 ${params.side} 持仓`);
+      }
+
+      // 多仓止损：价格下跌触发（triggerDirection=2）；多仓止盈：价格上涨触发（triggerDirection=1）
+      const isFallTrigger = (params.side === "long") === (params.kind === "stop_loss");
+      const order: Record<string, string | number | boolean> = {
+        category: "linear",
+        symbol,
+        side: params.side === "long" ? "Sell" : "Buy",
+        orderType: "Market",
+        qty: Math.abs(position.size).toString(),
+        triggerPrice: params.triggerPrice.toString(),
+        triggerDirection: isFallTrigger ? 2 : 1,
+        triggerBy: "MarkPrice",
+        reduceOnly: true,
+        closeOnTrigger: true,
+        orderFilter: "StopOrder",
+      };
+      if (await this.isHedgeMode(symbol)) {
+        order.positionIdx = params.side === "long" ? 1 : 2;
+      }
+
+      logger.info("Bybit 挂出条件单:", order);
+      const result = await this.request<BybitObject>("POST", "/v5/order/create", order, true);
+      const orderId = String(result.orderId);
+      this.orderContracts.set(orderId, params.contract);
+
+      return {
+        id: orderId,
+        contract: params.contract,
+        side: params.side,
+        kind: params.kind,
+        triggerPrice: params.triggerPrice,
+        status: "open",
+      };
+    } catch (error) {
+      logger.error(`Bybit 挂出 ${params.contract} 条件单失败:`, getErrorMessage(error));
+      throw new Error(`挂出条件单失败: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * 撤销条件单
+   */
+  async cancelTriggerOrder(orderId: string, contract: string): Promise<void> {
+    try {
+      await this.request("POST", "/v5/order/cancel", {
+        category: "linear",
+        symbol: toBybitContract(contract),
+        orderId,
+        orderFilter: "StopOrder",
+      }, true);
+    } catch (error) {
+      logger.error(`撤销条件单 ${orderId} 失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取未触发的条件单
+   */
+  async getTriggerOrders(contract?: string): Promise<TriggerOrder[]> {
+    try {
+      const result = await this.request("GET", "/v5/order/realtime", {
+        category: "linear",
+        symbol: contract ? toBybitContract(contract) : undefined,
+        settleCoin: contract ? undefined : "USDT",
+        orderFilter: "StopOrder",
+        limit: 50,
+      }, true);
+
+      return (result.list || [])
+        .filter(order => order.orderStatus === "Untriggered")
+        .map(order => {
+          // 卖出平仓保护的是多仓
+          const side: "long" | "short" = order.side === "Sell" ? "long" : "short";
+          // 多仓止损和空仓止盈在价格下跌时触发
+          const isFallTrigger = Number(order.triggerDirection) === 2;
+          const isStopLoss = side === "long" ? isFallTrigger : !isFallTrigger;
+          return {
+            id: String(order.orderId),
+            contract: fromBybitContract(order.symbol as string),
+            side,
+            kind: isStopLoss ? "stop_loss" : "take_profit",
+            triggerPrice: toNumber(order.triggerPrice),
+            status: "open",
+            createTime: toNumber(order.createdTime) / 1000,
+          } as TriggerOrder;
+        });
+    } catch (error) {
+      logger.error("获取条件单失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 设置仓位杠杆
+   */
+  async setLeverage(contract: string, leverage: number): Promise<void> {
+    try {
+      logger.info(`设置 ${contract} 杠杆为 ${leverage}x`);
+      await this.request("POST", "/v5/position/set-leverage", {
+        category: "linear",
+        symbol: toBybitContract(contract),
+        buyLeverage: leverage.toString(),
+        sellLeverage: leverage.toString(),
+      }, true);
+    } catch (error) {
+      // 110043: 杠杆未变化
+      if (getErrorMessage(error).includes("110043")) {
+        return;
+      }
+      logger.warn(`设置 ${contract} 杠杆失败:`, getErrorMessage(error));
+    }
+  }
+
+  /**
+   * 获取资金费率
+   */
+  async getFundingRate(contract: string): Promise<FundingRate> {
+    try {
+      const result = await this.request("GET", "/v5/market/tickers", {
+        category: "linear",
+        symbol: toBybitContract(contract),
+      });
+      const ticker = result.list?.[0] || {};
+      return {
+        contract,
+        rate: toNumber(ticker.fundingRate),
+        time: toNumber(ticker.nextFundingTime) / 1000,
+      };
+    } catch (error) {
+      logger.error(`获取 ${contract} 资金费率失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取合约信息
+   */
+  async getContractInfo(contract: string): Promise<ContractSpec> {
+    try {
+      const instruments = await this.loadInstruments();
+      const info = instruments.get(toBybitContract(contract));
+      if (!info) {
+        throw new Error("Contract not found");
+      }
+      return this.toContractSpec(info);
+    } catch (error) {
+      logger.error(`获取 ${contract} 合约信息失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取所有合约列表（U本位永续合约）
+   */
+  async getAllContracts(): Promise<ContractSpec[]> {
+    try {
+      const instruments = await this.loadInstruments();
+      return [...instruments.values()].map(info => this.toContractSpec(info));
+    } catch (error) {
+      logger.error("获取合约列表失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取订单簿
+   */
+  async getOrderBook(contract: string, limit = 10): Promise<OrderBook> {
+    try {
+      const result = await this.request<{ b?: string[][]; a?: string[][] }>("GET", "/v5/market/orderbook", {
+        category: "linear",
+        symbol: toBybitContract(contract),
+        limit: Math.min(limit, BYBIT_MAX_DEPTH),
+      });
+
+      // Bybit 格式: b/a 为 [price, size]
+      const toLevel = (level: string[]) => ({ price: toNumber(level[0]), size: toNumber(level[1]) });
+      return {
+        bids: (result.b || []).map(toLevel),
+        asks: (result.a || []).map(toLevel),
+      };
+    } catch (error) {
+      logger.error(`获取 ${contract} 订单簿失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史成交记录（我的成交）
+   */
+  async getMyTrades(contract?: string, limit = 10): Promise<Fill[]> {
+    try {
+      const result = await this.request("GET", "/v5/execution/list", {
+        category: "linear",
+        symbol: contract ? toBybitContract(contract) : undefined,
+        limit: Math.min(limit, 100),
+      }, true);
+
+      return (result.list || []).map((trade): Fill => ({
+        contract: fromBybitContract(trade.symbol as string),
+        id: String(trade.execId),
+        orderId: String(trade.orderId),
+        size: (trade.side === "Sell" ? -1 : 1) * toNumber(trade.execQty),
+        price: toNumber(trade.execPrice),
+        fee: toNumber(trade.execFee),
+        role: trade.isMaker ? "maker" : "taker",
+        time: toNumber(trade.execTime) / 1000,
+      }));
+    } catch (error) {
+      logger.error("获取我的历史成交记录失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史仓位记录（平仓盈亏记录）
+   * Bybit 使用游标分页，不支持 offset
+   */
+  async getPositionHistory(contract?: string, limit = 100, offset = 0): Promise<ClosedPosition[]> {
+    try {
+      const result = await this.request("GET", "/v5/position/closed-pnl", {
+        category: "linear",
+        symbol: contract ? toBybitContract(contract) : undefined,
+        limit: Math.min(limit, 100),
+      }, true);
+
+      return (result.list || []).map((pos): ClosedPosition => ({
+        contract: fromBybitContract(pos.symbol as string),
+        // 平仓订单为卖出表示平掉的是多仓
+        side: pos.side === "Sell" ? "long" : "short",
+        size: Math.abs(toNumber(pos.qty)),
+        entryPrice: toNumber(pos.avgEntryPrice),
+        closePrice: toNumber(pos.avgExitPrice),
+        pnl: toNumber(pos.closedPnl),
+        fee: 0,
+        time: toNumber(pos.updatedTime || pos.createdTime) / 1000,
+        type: "closed_pnl",
+      }));
+    } catch (error) {
+      logger.error("获取历史仓位记录失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史结算记录
+   */
+  async getSettlementHistory(contract?: string, limit = 100, offset = 0): Promise<ClosedPosition[]> {
+    // Bybit 没有单独的结算历史API，使用平仓盈亏记录代替
+    return this.getPositionHistory(contract, limit, offset);
+  }
+
+  /**
+   * 获取已完成的订单历史
+   */
+  async getOrderHistory(contract?: string, limit = 10): Promise<Order[]> {
+    try {
+      const result = await this.request("GET", "/v5/order/history", {
+        category: "linear",
+        symbol: contract ? toBybitContract(contract) : undefined,
+        orderStatus: "Filled",
+        limit: Math.min(limit, 50),
+      }, true);
+
+      return (result.list || []).map(order => this.toOrder(order));
+    } catch (error) {
+      logger.error("获取订单历史失败:", error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * 全局 Bybit 客户端实例（单例模式）
+ */
+let bybitClientInstance: BybitClient | null = null;
+
+/**
+ * 创建全局 Bybit 客户端实例（单例模式）
+ */
+export function createBybitClient(): BybitClient {
+  // 如果已存在实例，直接返回
+  if (bybitClientInstance) {
+    return bybitClientInstance;
+  }
+
+  const apiKey = process.env.BYBIT_API_KEY;
+  const apiSecret = process.env.BYBIT_API_SECRET;
+
+  if (!apiKey || !apiSecret) {
+    throw new Error("BYBIT_API_KEY 和 BYBIT_API_SECRET 必须在环境变量中设置");
+  }
+
+  // 创建并缓存实例
+  bybitClientInstance = new BybitClient(apiKey, apiSecret);
+  return bybitClientInstance;
+}
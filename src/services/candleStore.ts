@@ -0,0 +1,295 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * K线存储 - 数据库中的 OHLCV 数据，所有指标计算统一从这里读取
+ *
+ * - 只保存已收盘的K线，未收盘的K线不参与指标计算（与回测保持一致，避免指标重绘）
+ * - K线按行情来源（交易所）分开存储，切换交易所后不会混用其他交易所的K线
+ * - getCandles：优先读取本地数据，只有缺失的K线才通过交易所 REST 接口增量补齐
+ * - loadRange / download：按时间范围回填历史数据（当前配置的交易所客户端），供下载命令和回测使用
+ */
+import { type Client, createClient } from "@libsql/client";
+import { CREATE_CANDLES_TABLE_SQL } from "../database/schema";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { type Candle, createExchangeClient, getExchangeType } from "./exchangeClient";
+import { CANDLE_RANGE_MAX_POINTS, toNumber } from "./exchangeModels";
+
+const logger = createLogger({
+  name: "candle-store",
+  level: "info",
+});
+
+/**
+ * 支持的K线周期（秒）
+ */
+export const CANDLE_INTERVAL_SECONDS: Record<string, number> = {
+  "1m": 60,
+  "3m": 180,
+  "5m": 300,
+  "15m": 900,
+  "30m": 1800,
+  "1h": 3600,
+  "4h": 14400,
+  "1d": 86400,
+};
+
+/** 单次批量写入的K线数量 */
+const UPSERT_BATCH_SIZE = 500;
+
+/**
+ * 当前配置的交易所的行情来源（K线存储的 exchange 列）
+ * 模拟盘按 PAPER_MARKET_DATA 区分：使用 Gate.io 公共行情时与 Gate 共用K线
+ */
+export function getCandleSource(): string {
+  const exchange = getExchangeType();
+  if (exchange === "paper") {
+    return (process.env.PAPER_MARKET_DATA || "gate").toLowerCase();
+  }
+  return exchange;
+}
+
+export class CandleStore {
+  private dbClient: Client;
+  private ready: Promise<void> | null = null;
+
+  /**
+   * @param url 数据库地址
+   * @param exchange 行情来源，默认为当前配置的交易所（getCandleSource）
+   */
+  constructor(url: string, private readonly exchange: string = getCandleSource()) {
+    this.dbClient = createClient({ url });
+  }
+
+  /**
+   * 获取最近 limit 根已收盘K线（优先读取本地，缺失部分通过交易所接口补齐）
+   * @param contract 合约名称，如 BTC_USDT
+   * @param interval K线周期
+   * @param limit K线数量
+   */
+  async getCandles(contract: string, interval: string, limit = 100): Promise<Candle[]> {
+    const step = this.getIntervalSeconds(interval);
+    const nowSec = Math.floor(Date.now() / 1000);
+    const lastClosed = Math.floor(nowSec / step) * step - step;
+    const fromSec = lastClosed - (limit - 1) * step;
+
+    let candles = await this.query(contract, interval, fromSec, lastClosed);
+    if (candles.length >= limit) {
+      return candles;
+    }
+
+    // 计算需要从交易所补齐的K线数量：数据开头缺失则整段重新获取，否则只获取最新缺失部分
+    let missing = limit;
+    if (candles.length > 0 && candles[0].timestamp === fromSec && this.isContiguous(candles, step)) {
+      missing = (lastClosed - candles[candles.length - 1].timestamp) / step;
+    }
+
+    try {
+      const exchangeClient = createExchangeClient();
+      // 多取一根：交易所返回的最后一根通常是未收盘的K线
+      const fetched = await exchangeClient.getFuturesCandles(contract, interval, Math.min(missing + 1, CANDLE_RANGE_MAX_POINTS));
+      const closed = fetched.filter(c => Number.isFinite(c.timestamp) && c.timestamp + step <= nowSec);
+      await this.upsert(contract, interval, closed);
+      candles = await this.query(contract, interval, fromSec, lastClosed);
+    } catch (error) {
+      if (candles.length === 0) {
+        throw error;
+      }
+      logger.warn(`补齐 ${contract} ${interval} K线失败，使用本地 ${candles.length} 根K线: ${getErrorMessage(error)}`);
+    }
+
+    return candles;
+  }
+
+  /**
+   * 读取时间范围内的已收盘K线，缺失部分通过交易所接口下载
+   * @param fromSec 开始时间（秒，包含）
+   * @param toSec 结束时间（秒，包含）
+   */
+  async loadRange(contract: string, interval: string, fromSec: number, toSec: number): Promise<Candle[]> {
+    const step = this.getIntervalSeconds(interval);
+    const start = Math.ceil(fromSec / step) * step;
+    const end = Math.floor(toSec / step) * step;
+
+    let candles = await this.query(contract, interval, start, end);
+    const expected = Math.floor((end - start) / step) + 1;
+    if (candles.length < expected) {
+      await this.download(contract, interval, start, end);
+      candles = await this.query(contract, interval, start, end);
+    }
+    return candles;
+  }
+
+  /**
+   * 通过当前配置的交易所客户端下载时间范围内的K线并写入本地（已完整的区段会被跳过）
+   * @returns 写入的K线数量
+   */
+  async download(contract: string, interval: string, fromSec: number, toSec: number): Promise<number> {
+    const step = this.getIntervalSeconds(interval);
+    const nowSec = Math.floor(Date.now() / 1000);
+    const end = Math.min(toSec, Math.floor(nowSec / step) * step - step);
+    let cursor = Math.ceil(fromSec / step) * step;
+    let written = 0;
+    const exchangeClient = createExchangeClient();
+
+    while (cursor <= end) {
+      const to = Math.min(cursor + step * (CANDLE_RANGE_MAX_POINTS - 1), end);
+
+      // 整段已存在则跳过
+      const existing = await this.count(contract, interval, cursor, to);
+      if (existing < Math.floor((to - cursor) / step) + 1) {
+        const data = await exchangeClient.getCandlesRange(contract, interval, cursor, to);
+        const closed = data.filter(c => c.timestamp + step <= nowSec);
+        written += await this.upsert(contract, interval, closed);
+      }
+
+      cursor = to + step;
+    }
+
+    logger.info(`${contract} ${interval} 下载完成（${this.exchange}），写入 ${written} 根K线`);
+    return written;
+  }
+
+  /**
+   * 批量写入K线（主键冲突时覆盖）
+   * @returns 写入的K线数量
+   */
+  async upsert(contract: string, interval: string, candles: Candle[]): Promise<number> {
+    if (candles.length === 0) {
+      return 0;
+    }
+    await this.ensureTable();
+
+    for (let i = 0; i < candles.length; i += UPSERT_BATCH_SIZE) {
+      const batch = candles.slice(i, i + UPSERT_BATCH_SIZE);
+      await this.dbClient.batch(
+        batch.map(c => ({
+          sql: `INSERT OR REPLACE INTO candles (exchange, contract, interval, t, o, h, l, c, v, sum)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          args: [
+            this.exchange,
+            contract,
+            interval,
+            c.timestamp,
+            c.open,
+            c.high,
+            c.low,
+            c.close,
+            c.volume || 0,
+            c.quoteVolume || 0,
+          ],
+        })),
+        "write"
+      );
+    }
+    return candles.length;
+  }
+
+  /**
+   * 查询本地K线（按时间升序）
+   */
+  async query(contract: string, interval: string, fromSec: number, toSec: number): Promise<Candle[]> {
+    await this.ensureTable();
+    const result = await this.dbClient.execute({
+      sql: `SELECT t, o, h, l, c, v, sum FROM candles
+            WHERE exchange = ? AND contract = ? AND interval = ? AND t >= ? AND t <= ?
+            ORDER BY t ASC`,
+      args: [this.exchange, contract, interval, fromSec, toSec],
+    });
+    return result.rows.map(row => normalizeCandle(row));
+  }
+
+  private async count(contract: string, interval: string, fromSec: number, toSec: number): Promise<number> {
+    await this.ensureTable();
+    const result = await this.dbClient.execute({
+      sql: "SELECT COUNT(*) as count FROM candles WHERE exchange = ? AND contract = ? AND interval = ? AND t >= ? AND t <= ?",
+      args: [this.exchange, contract, interval, fromSec, toSec],
+    });
+    return Number(result.rows[0]?.count || 0);
+  }
+
+  private isContiguous(candles: Candle[], step: number): boolean {
+    for (let i = 1; i < candles.length; i++) {
+      if (candles[i].timestamp - candles[i - 1].timestamp !== step) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private getIntervalSeconds(interval: string): number {
+    const step = CANDLE_INTERVAL_SECONDS[interval];
+    if (!step) {
+      throw new Error(`不支持的K线周期: ${interval}`);
+    }
+    return step;
+  }
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.createTable().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * 创建K线表；旧版本的表没有 exchange 列（无法区分行情来源），删除后重建，缺失的K线会重新下载
+   */
+  private async createTable(): Promise<void> {
+    const columns = await this.dbClient.execute("PRAGMA table_info(candles)");
+    if (columns.rows.length > 0 && !columns.rows.some(row => row.name === "exchange")) {
+      logger.warn("K线表缺少 exchange 列，无法区分行情来源，重建K线表");
+      await this.dbClient.execute("DROP TABLE candles");
+    }
+    await this.dbClient.executeMultiple(CREATE_CANDLES_TABLE_SQL);
+  }
+}
+
+/**
+ * 将 Gate 格式的K线（{t, o, h, l, c, v, sum}，数据库的列名相同）转换为统一K线模型
+ */
+export function normalizeCandle(c: Record<string, unknown>): Candle {
+  return {
+    timestamp: toNumber(c.t),
+    open: toNumber(c.o),
+    high: toNumber(c.h),
+    low: toNumber(c.l),
+    close: toNumber(c.c),
+    volume: toNumber(c.v),
+    quoteVolume: toNumber(c.sum),
+  };
+}
+
+// 全局K线存储实例
+let candleStoreInstance: CandleStore | null = null;
+
+/**
+ * 创建全局K线存储实例（单例模式，使用 DATABASE_URL）
+ */
+export function createCandleStore(): CandleStore {
+  if (candleStoreInstance) {
+    return candleStoreInstance;
+  }
+
+  candleStoreInstance = new CandleStore(process.env.DATABASE_URL || "file:./.voltagent/trading.db");
+  return candleStoreInstance;
+}
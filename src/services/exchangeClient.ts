@@ -22,7 +22,52 @@
  */
 import { createGateClient, GateClient } from "./gateClient";
 import { createOkxClient, OkxClient } from "./okxClient";
+import { createBinanceClient, type BinanceClient } from "./binanceClient";
+import { createBybitClient, type BybitClient } from "./bybitClient";
+import { createHyperliquidClient, type HyperliquidClient } from "./hyperliquidClient";
+import { createPaperClient, type PaperClient } from "./paperClient";
 import { createLogger } from "../utils/loggerUtils";
+import {
+  getRequestPriority,
+  scheduleRequest,
+  type RateLimitEndpoint,
+  type RequestPriority,
+} from "./rateLimiter";
+import type { OrderType } from "../strategies/types";
+import type {
+  Account,
+  Candle,
+  ClosedPosition,
+  ContractSpec,
+  ExchangeCapabilities,
+  Fill,
+  FundingRate,
+  Order,
+  OrderBook,
+  Position,
+  Ticker,
+  TriggerOrder,
+  TriggerOrderParams,
+} from "./exchangeModels";
+
+export type {
+  Account,
+  Candle,
+  ClosedPosition,
+  ContractSpec,
+  ExchangeCapabilities,
+  Fill,
+  FundingRate,
+  Order,
+  OrderBook,
+  OrderBookLevel,
+  OrderStatus,
+  Position,
+  Ticker,
+  TriggerOrder,
+  TriggerOrderParams,
+} from "./exchangeModels";
+export { getAccountEquity } from "./exchangeModels";
 
 const logger = createLogger({
   name: "exchange-client",
@@ -31,13 +76,24 @@ const logger = createLogger({
 
 /**
  * 统一交易所客户端接口
- * 定义所有交易所必须实现的方法
+ * 定义所有交易所必须实现的方法，返回值统一为 exchangeModels 中的模型（数值字段均为 number）
  */
 export interface IExchangeClient {
+  /**
+   * 交易所能力描述（支持的订单类型、条件单、持仓模式等）
+   */
+  readonly capabilities: ExchangeCapabilities;
+
+  /**
+   * 设置账户持仓模式（仅 positionMode 为 hedge 的交易所需要实现，失败时只记录警告）
+   */
+  setPositionMode?(): Promise<void>;
+
   /**
    * 获取合约ticker价格
+   * retries 为失败重试次数（默认 2），由限频调度器重新排队执行，下同
    */
-  getFuturesTicker(contract: string, retries?: number): Promise<any>;
+  getFuturesTicker(contract: string, retries?: number): Promise<Ticker>;
 
   /**
    * 获取合约K线数据
@@ -47,20 +103,28 @@ export interface IExchangeClient {
     interval?: string,
     limit?: number,
     retries?: number
-  ): Promise<any[]>;
+  ): Promise<Candle[]>;
+
+  /**
+   * 按时间范围获取K线（fromSec、toSec 为秒，包含两端，按时间升序，可能包含未收盘的K线）
+   * 单次最多请求 CANDLE_RANGE_MAX_POINTS 根，更长的范围由调用方分段请求
+   */
+  getCandlesRange(contract: string, interval: string, fromSec: number, toSec: number): Promise<Candle[]>;
 
   /**
    * 获取账户余额
    */
-  getFuturesAccount(retries?: number): Promise<any>;
+  getFuturesAccount(retries?: number): Promise<Account>;
 
   /**
    * 获取当前持仓
    */
-  getPositions(retries?: number): Promise<any[]>;
+  getPositions(retries?: number): Promise<Position[]>;
 
   /**
    * 下单 - 开仓或平仓
+   * size 使用交易所的数量单位（正数买入，负数卖出）：Gate、OKX 为张数，
+   * Binance、Bybit、Hyperliquid 为币的数量，换算关系由合约信息的 quantoMultiplier 和 lotSize 给出
    */
   placeOrder(params: {
     contract: string;
@@ -68,72 +132,91 @@ export interface IExchangeClient {
     price?: number;
     tif?: string;
     reduceOnly?: boolean;
+    /** 双向持仓的平仓标识（positionMode 为 hedge 的交易所使用）：平掉与下单方向相反的持仓，见 getCloseOrderFlags */
+    closePosition?: boolean;
     autoSize?: string;
     stopLoss?: number;
     takeProfit?: number;
-  }): Promise<any>;
+  }): Promise<Order>;
 
   /**
    * 获取订单详情
    * @param orderId 订单ID
-   * @param contract 合约名称（可选，某些交易所如OKX需要此参数）
+   * @param contract 合约名称（可选，某些交易所如OKX、Binance需要此参数）
    */
-  getOrder(orderId: string, contract?: string): Promise<any>;
+  getOrder(orderId: string, contract?: string): Promise<Order>;
 
   /**
    * 取消订单
    */
-  cancelOrder(orderId: string): Promise<any>;
+  cancelOrder(orderId: string): Promise<void>;
 
   /**
    * 获取未成交订单
    */
-  getOpenOrders(contract?: string): Promise<any[]>;
+  getOpenOrders(contract?: string): Promise<Order[]>;
+
+  /**
+   * 挂出止损/止盈条件单（价格触发后以市价平掉整个仓位）
+   * Gate.io 使用价格触发订单，OKX 使用策略委托（algo order），Binance 使用 STOP_MARKET/TAKE_PROFIT_MARKET 订单
+   */
+  placeTriggerOrder(params: TriggerOrderParams): Promise<TriggerOrder>;
 
   /**
-   * 设置仓位杠杆
+   * 撤销条件单
+   * @param contract 合约名称（OKX、Binance 撤单需要此参数）
    */
-  setLeverage(contract: string, leverage: number): Promise<any>;
+  cancelTriggerOrder(orderId: string, contract: string): Promise<void>;
+
+  /**
+   * 获取未触发的条件单
+   */
+  getTriggerOrders(contract?: string): Promise<TriggerOrder[]>;
+
+  /**
+   * 设置仓位杠杆（失败时只记录警告，不抛出异常）
+   */
+  setLeverage(contract: string, leverage: number): Promise<void>;
 
   /**
    * 获取资金费率
    */
-  getFundingRate(contract: string): Promise<any>;
+  getFundingRate(contract: string): Promise<FundingRate>;
 
   /**
    * 获取合约信息
    */
-  getContractInfo(contract: string): Promise<any>;
+  getContractInfo(contract: string): Promise<ContractSpec>;
 
   /**
    * 获取所有合约列表
    */
-  getAllContracts(): Promise<any[]>;
+  getAllContracts(): Promise<ContractSpec[]>;
 
   /**
    * 获取订单簿
    */
-  getOrderBook(contract: string, limit?: number): Promise<any>;
+  getOrderBook(contract: string, limit?: number): Promise<OrderBook>;
 
   /**
    * 获取历史成交记录（我的成交）
    */
-  getMyTrades(contract?: string, limit?: number): Promise<any[]>;
+  getMyTrades(contract?: string, limit?: number): Promise<Fill[]>;
 
   /**
    * 获取历史仓位记录
    */
-  getPositionHistory(contract?: string, limit?: number, offset?: number): Promise<any[]>;
+  getPositionHistory(contract?: string, limit?: number, offset?: number): Promise<ClosedPosition[]>;
 
   /**
    * 获取历史结算记录
    */
-  getSettlementHistory(contract?: string, limit?: number, offset?: number): Promise<any[]>;
+  getSettlementHistory(contract?: string, limit?: number, offset?: number): Promise<ClosedPosition[]>;
 
   /**
    * 获取已完成的订单历史
    */
-  getOrderHistory(contract?: string, limit?: number): Promise<any[]>;
+  getOrderHistory(contract?: string, limit?: number): Promise<Order[]>;
 }
 
 /**
@@ -141,14 +224,131 @@ export interface IExchangeClient {
  */
 let exchangeClientInstance: IExchangeClient | null = null;
 
+/**
+ * 交易所请求方法的限频参数
+ * - endpoint: 所属的限频接口类别
+ * - weight: 接口权重（消耗的令牌数），参考 Binance 合约接口权重（几家交易所中最严格），可按参数计算
+ * - retriesArg: retries 参数的位置，查询失败按该参数（默认 DEFAULT_REQUEST_RETRIES）由调度器重试
+ */
+interface RequestEndpoint {
+  endpoint: RateLimitEndpoint;
+  weight?: number | ((args: unknown[]) => number);
+  retriesArg?: number;
+}
+
+/** 查询请求失败的默认重试次数 */
+const DEFAULT_REQUEST_RETRIES = 2;
+
+/** 不指定合约的查询（全部合约的挂单、条件单）按批量查询计权重 */
+function allContractsWeight(args: unknown[]): number {
+  return args[0] ? 1 : 40;
+}
+
+/** K线接口权重随数量增加 */
+function candlesWeight(args: unknown[]): number {
+  const limit = typeof args[2] === "number" ? args[2] : 100;
+  if (limit < 100) return 1;
+  if (limit < 500) return 2;
+  if (limit <= 1000) return 5;
+  return 10;
+}
+
+/** 订单簿接口权重随档位数增加 */
+function orderBookWeight(args: unknown[]): number {
+  const limit = typeof args[1] === "number" ? args[1] : 10;
+  if (limit <= 50) return 2;
+  if (limit <= 100) return 5;
+  if (limit <= 500) return 10;
+  return 20;
+}
+
+const REQUEST_ENDPOINTS: Record<string, RequestEndpoint> = {
+  placeOrder: { endpoint: "order" },
+  cancelOrder: { endpoint: "order" },
+  placeTriggerOrder: { endpoint: "order" },
+  cancelTriggerOrder: { endpoint: "order" },
+  setLeverage: { endpoint: "order" },
+  setPositionMode: { endpoint: "order" },
+  getFuturesAccount: { endpoint: "account", weight: 5, retriesArg: 0 },
+  getPositions: { endpoint: "account", weight: 5, retriesArg: 0 },
+  getOrder: { endpoint: "account" },
+  getOpenOrders: { endpoint: "account", weight: allContractsWeight },
+  getTriggerOrders: { endpoint: "account", weight: allContractsWeight },
+  getMyTrades: { endpoint: "account", weight: 5 },
+  getPositionHistory: { endpoint: "account", weight: 5 },
+  getSettlementHistory: { endpoint: "account", weight: 5 },
+  getOrderHistory: { endpoint: "account", weight: 5 },
+  getFuturesTicker: { endpoint: "market", retriesArg: 1 },
+  getFuturesCandles: { endpoint: "market", weight: candlesWeight, retriesArg: 3 },
+  getCandlesRange: { endpoint: "market", weight: 5 },
+  getFundingRate: { endpoint: "market" },
+  getContractInfo: { endpoint: "market" },
+  getAllContracts: { endpoint: "market" },
+  getOrderBook: { endpoint: "market", weight: orderBookWeight },
+};
+
+/**
+ * 请求优先级：平仓订单和止损止盈条件单始终按平仓优先级，其他请求沿用调用链的优先级
+ */
+function getMethodPriority(method: string, args: unknown[]): RequestPriority {
+  if (method === "placeTriggerOrder" || method === "cancelTriggerOrder") {
+    return "close";
+  }
+  const params = args[0] as { reduceOnly?: boolean; closePosition?: boolean } | undefined;
+  if (method === "placeOrder" && (params?.reduceOnly || params?.closePosition)) {
+    return "close";
+  }
+  return getRequestPriority();
+}
+
+/**
+ * 为交易所客户端加上限频调度（rateLimiter）
+ * 只拦截 IExchangeClient 的请求方法，客户端内部的相互调用和交易所特有方法不经过调度
+ */
+function withRateLimit<T extends IExchangeClient>(client: T): T {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      const config = typeof property === "string" ? REQUEST_ENDPOINTS[property] : undefined;
+      if (!config || typeof value !== "function") {
+        return value;
+      }
+      const method = property as string;
+      return (...args: unknown[]) => {
+        const retries = config.retriesArg === undefined ? undefined : args[config.retriesArg];
+        return scheduleRequest(config.endpoint, () => value.apply(target, args), {
+          name: method,
+          priority: getMethodPriority(method, args),
+          weight: typeof config.weight === "function" ? config.weight(args) : config.weight,
+          retries: config.retriesArg === undefined
+            ? 0
+            : typeof retries === "number" ? retries : DEFAULT_REQUEST_RETRIES,
+        });
+      };
+    },
+  });
+}
+
 /**
  * 获取当前配置的交易所类型
  */
-export function getExchangeType(): "gate" | "okx" {
+export function getExchangeType(): "gate" | "okx" | "binance" | "bybit" | "hyperliquid" | "paper" {
   const exchange = (process.env.EXCHANGE || "gate").toLowerCase();
   if (exchange === "okx") {
     return "okx";
   }
+  if (exchange === "binance") {
+    return "binance";
+  }
+  if (exchange === "bybit") {
+    return "bybit";
+  }
+  if (exchange === "hyperliquid") {
+    return "hyperliquid";
+  }
+  if (exchange === "paper") {
+    return "paper";
+  }
   return "gate";
 }
 
@@ -157,6 +357,12 @@ export function getExchangeType(): "gate" | "okx" {
  * 根据环境变量 EXCHANGE 决定使用哪个交易所
  * - EXCHANGE=gate (默认) - 使用 Gate.io
  * - EXCHANGE=okx - 使用 OKX
+ * - EXCHANGE=binance - 使用 Binance U本位合约
+ * - EXCHANGE=bybit - 使用 Bybit U本位永续合约
+ * - EXCHANGE=hyperliquid - 使用 Hyperliquid 永续合约
+ * - EXCHANGE=paper - 使用模拟盘（进程内撮合，不使用真实资金）
+ *
+ * 真实交易所的请求统一经过限频调度，模拟盘在进程内撮合（回测需要全速运行），不限频
  */
 export function createExchangeClient(): IExchangeClient {
   // 如果已存在实例，直接返回
@@ -168,15 +374,73 @@ export function createExchangeClient(): IExchangeClient {
 
   if (exchangeType === "okx") {
     logger.info("使用 OKX 交易所");
-    exchangeClientInstance = createOkxClient() as IExchangeClient;
+    exchangeClientInstance = withRateLimit(createOkxClient());
+  } else if (exchangeType === "binance") {
+    logger.info("使用 Binance 交易所");
+    exchangeClientInstance = withRateLimit(createBinanceClient());
+  } else if (exchangeType === "bybit") {
+    logger.info("使用 Bybit 交易所");
+    exchangeClientInstance = withRateLimit(createBybitClient());
+  } else if (exchangeType === "hyperliquid") {
+    logger.info("使用 Hyperliquid 交易所");
+    exchangeClientInstance = withRateLimit(createHyperliquidClient());
+  } else if (exchangeType === "paper") {
+    logger.info("使用模拟盘交易所");
+    exchangeClientInstance = createPaperClient();
   } else {
     logger.info("使用 Gate.io 交易所");
-    exchangeClientInstance = createGateClient() as IExchangeClient;
+    exchangeClientInstance = withRateLimit(createGateClient());
   }
 
   return exchangeClientInstance;
 }
 
+/**
+ * 获取当前交易所的能力描述
+ */
+export function getExchangeCapabilities(): ExchangeCapabilities {
+  return createExchangeClient().capabilities;
+}
+
+/**
+ * 当前交易所是否支持指定的订单类型
+ */
+export function isOrderTypeSupported(orderType: OrderType): boolean {
+  return getExchangeCapabilities().orderTypes.includes(orderType);
+}
+
+/**
+ * 平仓订单的下单参数，按交易所持仓模式选择平仓方式
+ * - one_way / account：只减仓（reduceOnly），account 模式由客户端按账户实际的持仓模式转换
+ * - hedge：平仓标识（closePosition），按持仓方向平掉对应仓位，不带 reduceOnly
+ */
+export function getCloseOrderFlags(): { reduceOnly?: boolean; closePosition?: boolean } {
+  return getExchangeCapabilities().positionMode === "hedge" ? { closePosition: true } : { reduceOnly: true };
+}
+
+/**
+ * 当前交易所的下单数量是否以币为单位（没有合约乘数）
+ * Gate、OKX 和模拟盘按张下单，张数需要乘以合约乘数才是币的数量
+ */
+export function isCoinSizedExchange(): boolean {
+  return getExchangeCapabilities().sizeUnit === "coin";
+}
+
+/**
+ * 获取当前交易所的显示名称
+ */
+export function getExchangeDisplayName(): string {
+  const names: Record<string, string> = {
+    gate: "Gate.io",
+    okx: "OKX",
+    binance: "Binance",
+    bybit: "Bybit",
+    hyperliquid: "Hyperliquid",
+    paper: "模拟盘",
+  };
+  return names[getExchangeType()];
+}
+
 /**
  * 重置交易所客户端实例（用于测试或重新配置）
  */
@@ -188,5 +452,5 @@ export function resetExchangeClient(): void {
 /**
  * 导出具体的客户端类型（用于需要访问特定交易所功能的场景）
  */
-export type { GateClient, OkxClient };
+export type { GateClient, OkxClient, BinanceClient, BybitClient, HyperliquidClient, PaperClient };
 
@@ -0,0 +1,300 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 交易所统一数据模型
+ *
+ * 所有交易所客户端（Gate、OKX、Binance、Bybit、Hyperliquid、模拟盘）都把原始响应转换为这里的模型再返回：
+ * - 数值字段一律为 number（交易所返回的字符串在客户端内解析），调用方不再需要 parseFloat 和兜底
+ * - 合约名称统一为 BTC_USDT 格式
+ * - 数量字段使用交易所的数量单位（Gate、OKX、模拟盘为张数，Binance、Bybit、Hyperliquid 为币的数量），
+ *   正数表示多头/买入，负数表示空头/卖出；换算为币的数量需要乘以 ContractSpec.quantoMultiplier
+ * - 时间字段统一为 Unix 秒
+ */
+import type { OrderType } from "../strategies/types";
+
+/**
+ * 行情快照
+ */
+export interface Ticker {
+  contract: string;
+  last: number;
+  /** 标记价格（交易所未提供时等于最新价） */
+  markPrice: number;
+  /** 指数价格（交易所未提供时等于标记价格） */
+  indexPrice: number;
+  high24h: number;
+  low24h: number;
+  /** 24小时成交量（交易所数量单位） */
+  volume24h: number;
+  /** 24小时成交额（USDT），交易所未提供时为 0 */
+  volume24hQuote: number;
+  /** 24小时涨跌幅（%），如 1.5 表示上涨 1.5% */
+  changePercentage: number;
+  /** 当前资金费率，交易所未在行情中提供时为 0 */
+  fundingRate: number;
+}
+
+/**
+ * K线（按时间升序返回）
+ */
+export interface Candle {
+  /** 开盘时间（Unix 秒） */
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** 成交量（交易所数量单位） */
+  volume: number;
+  /** 成交额（USDT），交易所未提供时为 0 */
+  quoteVolume: number;
+}
+
+/**
+ * 合约账户（USDT 或 USDC 保证金）
+ */
+export interface Account {
+  currency: string;
+  /** 账户余额，不包含未实现盈亏（与 Gate 口径一致） */
+  total: number;
+  /** 可用保证金 */
+  available: number;
+  /** 持仓占用保证金 */
+  positionMargin: number;
+  /** 挂单冻结保证金 */
+  orderMargin: number;
+  unrealisedPnl: number;
+}
+
+/**
+ * 当前持仓
+ */
+export interface Position {
+  contract: string;
+  /** 持仓数量（交易所数量单位），正数为多头，负数为空头 */
+  size: number;
+  leverage: number;
+  entryPrice: number;
+  markPrice: number;
+  /** 强平价格，交易所未提供时为 0 */
+  liqPrice: number;
+  unrealisedPnl: number;
+  realisedPnl: number;
+  /** 持仓占用保证金 */
+  margin: number;
+  /** 持仓名义价值（USDT，按标记价格计算） */
+  notional: number;
+  /** 开仓时间（Unix 秒），交易所未提供时为空 */
+  openTime?: number;
+}
+
+/**
+ * 订单状态：open=未完成，finished=已成交，cancelled=已撤销（可能部分成交）
+ */
+export type OrderStatus = "open" | "finished" | "cancelled";
+
+/**
+ * 订单
+ */
+export interface Order {
+  id: string;
+  contract: string;
+  /** 下单数量（交易所数量单位），正数买入，负数卖出 */
+  size: number;
+  /** 未成交数量，与 size 同号 */
+  left: number;
+  /** 委托价格，市价单为 0 */
+  price: number;
+  /** 成交均价，未成交为 0 */
+  fillPrice: number;
+  status: OrderStatus;
+  reduceOnly: boolean;
+  /** 下单时间（Unix 秒） */
+  createTime: number;
+  /** 完成时间（Unix 秒），未完成时为空 */
+  finishTime?: number;
+}
+
+/**
+ * 条件单下单参数
+ */
+export interface TriggerOrderParams {
+  contract: string;
+  /** 被保护的持仓方向 */
+  side: "long" | "short";
+  /** stop_loss=止损，take_profit=止盈 */
+  kind: "stop_loss" | "take_profit";
+  /** 触发价格（已按合约价格精度取整） */
+  triggerPrice: number;
+}
+
+/**
+ * 条件单（止损/止盈，触发后以市价平掉整个仓位）
+ */
+export interface TriggerOrder {
+  id: string;
+  contract: string;
+  side: "long" | "short";
+  kind: "stop_loss" | "take_profit";
+  triggerPrice: number;
+  status: string;
+  /** 下单时间（Unix 秒），交易所未提供时为空 */
+  createTime?: number;
+}
+
+/**
+ * 成交记录（我的成交）
+ */
+export interface Fill {
+  id: string;
+  orderId: string;
+  contract: string;
+  /** 成交数量（交易所数量单位），正数买入，负数卖出 */
+  size: number;
+  price: number;
+  /** 手续费（USDT，支出为正） */
+  fee: number;
+  /** 成交角色，交易所未提供时为空 */
+  role?: "taker" | "maker";
+  /** 成交时间（Unix 秒） */
+  time: number;
+}
+
+/**
+ * 已平仓记录（平仓、强平或已实现盈亏结算）
+ */
+export interface ClosedPosition {
+  contract: string;
+  /** 被平掉的持仓方向，交易所未提供时为空 */
+  side?: "long" | "short";
+  /** 平仓数量（交易所数量单位，绝对值），交易所未提供时为 0 */
+  size: number;
+  /** 开仓均价，交易所未提供时为 0 */
+  entryPrice: number;
+  /** 平仓均价，交易所未提供时为 0 */
+  closePrice: number;
+  pnl: number;
+  /** 手续费，交易所未提供时为 0 */
+  fee: number;
+  /** 平仓时间（Unix 秒） */
+  time: number;
+  /** 记录类型，如 close、liquidation、realized_pnl */
+  type: string;
+}
+
+/**
+ * 资金费率
+ */
+export interface FundingRate {
+  contract: string;
+  /** 费率，如 0.0001 表示 0.01%，正数多头支付空头 */
+  rate: number;
+  /** 对应的结算时间（Unix 秒） */
+  time: number;
+}
+
+/**
+ * 订单簿档位
+ */
+export interface OrderBookLevel {
+  price: number;
+  /** 挂单数量（交易所数量单位） */
+  size: number;
+}
+
+/**
+ * 订单簿（bids 价格从高到低，asks 价格从低到高）
+ */
+export interface OrderBook {
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+/**
+ * 合约规格
+ */
+export interface ContractSpec {
+  /** 合约名称，如 BTC_USDT */
+  name: string;
+  /** 1 个数量单位对应的币数（按币下单的交易所为 1） */
+  quantoMultiplier: number;
+  /** 数量精度（下单数量必须是它的整数倍） */
+  lotSize: number;
+  orderSizeMin: number;
+  orderSizeMax: number;
+  /** 价格精度 */
+  orderPriceRound: number;
+  /** 最小下单金额（USDT），交易所没有限制时为 0 */
+  minNotional: number;
+  /** 最小杠杆，交易所未提供时为 1 */
+  leverageMin: number;
+  /** 最大杠杆，交易所未提供时为 0 */
+  leverageMax: number;
+  /** 是否正在下架 */
+  inDelisting: boolean;
+}
+
+/**
+ * 交易所能力描述
+ * 各交易所支持的功能不同，客户端通过 capabilities 声明，工具、监控器和提示词据此调整行为，
+ * 而不是等到运行时调用失败
+ */
+export interface ExchangeCapabilities {
+  /** 下单数量单位：contracts=张（乘以合约乘数才是币的数量），coin=币 */
+  sizeUnit: "contracts" | "coin";
+  /** 支持的订单类型，不支持的类型开仓时拒绝、平仓时改用市价单 */
+  orderTypes: readonly OrderType[];
+  /** 是否支持交易所止损/止盈条件单 */
+  triggerOrders: boolean;
+  /**
+   * 持仓模式：one_way=单向持仓；hedge=双向持仓（启动时需要设置持仓模式，平仓单指定持仓方向）；
+   * account=跟随账户设置，下单时自动识别
+   */
+  positionMode: "one_way" | "hedge" | "account";
+  /** 是否有原生的历史仓位接口（否则由成交记录或盈亏流水推算，不支持 offset 分页） */
+  positionHistory: boolean;
+  /** 是否有独立的历史结算接口（否则返回历史仓位记录） */
+  settlementHistory: boolean;
+  /** 是否支持 WebSocket 实时价格推送 */
+  priceStream: boolean;
+}
+
+/**
+ * 账户净值（total 不含未实现盈亏，净值 = total + unrealisedPnl，与 account_history.total_value 口径一致）
+ * 持仓浮亏时净值低于 total，仓位预算、回撤保护和组合风险都以净值为基准
+ */
+export function getAccountEquity(account: Account): number {
+  return account.total + account.unrealisedPnl;
+}
+
+/**
+ * 按时间范围获取K线时单次请求的最大数量（各交易所单次上限中较小的值，OKX 在客户端内分页）
+ */
+export const CANDLE_RANGE_MAX_POINTS = 1000;
+
+/**
+ * 解析交易所返回的数值字段（字符串或数字），无法解析时返回 fallback
+ */
+export function toNumber(value: unknown, fallback = 0): number {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+  const parsed = typeof value === "number" ? value : Number.parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
@@ -22,14 +22,60 @@
 // @ts-ignore - gate-api 的类型定义可能不完整
 import * as GateApi from "gate-api";
 import { createLogger } from "../utils/loggerUtils";
+import { getErrorMessage } from "../utils/errorUtils";
 import { RISK_PARAMS } from "../config/riskParams";
+import type { IExchangeClient } from "./exchangeClient";
+import {
+  toNumber,
+  type Account,
+  type Candle,
+  type ClosedPosition,
+  type ContractSpec,
+  type ExchangeCapabilities,
+  type Fill,
+  type FundingRate,
+  type Order,
+  type OrderBook,
+  type Position,
+  type Ticker,
+  type TriggerOrder,
+  type TriggerOrderParams,
+} from "./exchangeModels";
+
+/**
+ * Gate K线（{t, o, h, l, c, v, sum}）转换为统一K线模型
+ */
+function toGateCandle(c: { t?: unknown; o?: unknown; h?: unknown; l?: unknown; c?: unknown; v?: unknown; sum?: unknown }): Candle {
+  return {
+    timestamp: toNumber(c.t),
+    open: toNumber(c.o),
+    high: toNumber(c.h),
+    low: toNumber(c.l),
+    close: toNumber(c.c),
+    volume: toNumber(c.v),
+    quoteVolume: toNumber(c.sum),
+  };
+}
+
+/** Gate 接口返回的 JSON 对象（gate-api SDK 返回驼峰字段，数值字段统一经 toNumber 转换） */
+type GateObject = Record<string, unknown>;
 
 const logger = createLogger({
   name: "gate-client",
   level: "info",
 });
 
-export class GateClient {
+export class GateClient implements IExchangeClient {
+  /** Gate.io 支持全部订单类型、价格触发订单、历史仓位和结算记录接口 */
+  readonly capabilities: ExchangeCapabilities = {
+    sizeUnit: "contracts",
+    orderTypes: ["market", "limit", "post_only", "ioc", "fok"],
+    triggerOrders: true,
+    positionMode: "one_way",
+    positionHistory: true,
+    settlementHistory: true,
+    priceStream: false,
+  };
   private readonly client: any;
   private readonly futuresApi: any;
   private readonly spotApi: any;
@@ -61,122 +107,160 @@ export class GateClient {
   }
 
   /**
-   * 获取合约ticker价格（带重试机制）
+   * 转换为统一订单模型（gate-api SDK 返回驼峰字段，兼容下划线字段）
+   * Gate 的已撤销订单状态为 finished，通过 finish_as 区分
    */
-  async getFuturesTicker(contract: string, retries: number = 2) {
-    let lastError: any;
-    
-    for (let i = 0; i <= retries; i++) {
-      try {
-        const result = await this.futuresApi.listFuturesTickers(this.settle, {
-          contract,
-        });
-        return result.body[0];
-      } catch (error) {
-        lastError = error;
-        if (i < retries) {
-          logger.warn(`获取 ${contract} 价格失败，重试 ${i + 1}/${retries}...`);
-          await new Promise(resolve => setTimeout(resolve, 300 * (i + 1))); // 递增延迟
-        }
-      }
+  private toOrder(order: GateObject): Order {
+    const finishAs = order.finishAs ?? order.finish_as;
+    const finishTime = toNumber(order.finishTime ?? order.finish_time);
+    let status: Order["status"] = "open";
+    if (order.status === "finished") {
+      status = finishAs === "filled" ? "finished" : "cancelled";
     }
-    
-    logger.error(`获取 ${contract} 价格失败（${retries}次重试）:`, lastError);
-    throw lastError;
+    return {
+      id: String(order.id),
+      contract: String(order.contract),
+      size: toNumber(order.size),
+      left: toNumber(order.left),
+      price: toNumber(order.price),
+      fillPrice: toNumber(order.fillPrice ?? order.fill_price),
+      status,
+      reduceOnly: Boolean(order.isReduceOnly ?? order.is_reduce_only),
+      createTime: toNumber(order.createTime ?? order.create_time),
+      finishTime: finishTime > 0 ? finishTime : undefined,
+    };
   }
 
   /**
-   * 获取合约K线数据（带重试机制）
+   * 转换为统一合约规格模型（Gate 按整数张下单，数量精度为 1）
+   */
+  private toContractSpec(info: GateObject): ContractSpec {
+    return {
+      name: String(info.name),
+      quantoMultiplier: toNumber(info.quantoMultiplier ?? info.quanto_multiplier, 1),
+      lotSize: 1,
+      orderSizeMin: toNumber(info.orderSizeMin ?? info.order_size_min, 1),
+      orderSizeMax: toNumber(info.orderSizeMax ?? info.order_size_max, 1000000),
+      orderPriceRound: toNumber(info.orderPriceRound ?? info.order_price_round),
+      minNotional: 0,
+      leverageMin: toNumber(info.leverageMin ?? info.leverage_min, 1),
+      leverageMax: toNumber(info.leverageMax ?? info.leverage_max),
+      inDelisting: Boolean(info.inDelisting ?? info.in_delisting),
+    };
+  }
+
+  /**
+   * 获取合约ticker价格
+   */
+  async getFuturesTicker(contract: string): Promise<Ticker> {
+    const result = await this.futuresApi.listFuturesTickers(this.settle, {
+      contract,
+    });
+    const ticker = result.body[0];
+    if (!ticker) {
+      throw new Error(`No ticker data returned for ${contract}`);
+    }
+    const last = toNumber(ticker.last);
+    const markPrice = toNumber(ticker.markPrice ?? ticker.mark_price, last);
+    return {
+      contract,
+      last,
+      markPrice,
+      indexPrice: toNumber(ticker.indexPrice ?? ticker.index_price, markPrice),
+      high24h: toNumber(ticker.high24h ?? ticker.high_24h),
+      low24h: toNumber(ticker.low24h ?? ticker.low_24h),
+      volume24h: toNumber(ticker.volume24h ?? ticker.volume_24h),
+      volume24hQuote: toNumber(ticker.volume24hQuote ?? ticker.volume_24h_quote),
+      changePercentage: toNumber(ticker.changePercentage ?? ticker.change_percentage),
+      fundingRate: toNumber(ticker.fundingRate ?? ticker.funding_rate),
+    };
+  }
+
+  /**
+   * 获取合约K线数据
    */
   async getFuturesCandles(
     contract: string,
     interval: string = "5m",
-    limit: number = 100,
-    retries: number = 2
-  ) {
-    let lastError: any;
-    
-    for (let i = 0; i <= retries; i++) {
-      try {
-        const result = await this.futuresApi.listFuturesCandlesticks(
-          this.settle,
-          contract,
-          {
-            interval: interval as any,
-            limit,
-          }
-        );
-        return result.body;
-      } catch (error) {
-        lastError = error;
-        if (i < retries) {
-          logger.warn(`获取 ${contract} K线数据失败，重试 ${i + 1}/${retries}...`);
-          await new Promise(resolve => setTimeout(resolve, 300 * (i + 1))); // 递增延迟
-        }
+    limit: number = 100
+  ): Promise<Candle[]> {
+    const result = await this.futuresApi.listFuturesCandlesticks(
+      this.settle,
+      contract,
+      {
+        interval,
+        limit,
       }
-    }
-    
-    logger.error(`获取 ${contract} K线数据失败（${retries}次重试）:`, lastError);
-    throw lastError;
+    );
+    return (result.body || []).map(toGateCandle);
   }
 
   /**
-   * 获取账户余额（带重试机制）
+   * 按时间范围获取K线（Gate 单次最多 2000 根）
    */
-  async getFuturesAccount(retries: number = 2) {
-    let lastError: any;
-    
-    for (let i = 0; i <= retries; i++) {
-      try {
-        const result = await this.futuresApi.listFuturesAccounts(this.settle);
-        return result.body;
-      } catch (error) {
-        lastError = error;
-        if (i < retries) {
-          logger.warn(`获取账户余额失败，重试 ${i + 1}/${retries}...`);
-          await new Promise(resolve => setTimeout(resolve, 300 * (i + 1))); // 递增延迟
-        }
+  async getCandlesRange(contract: string, interval: string, fromSec: number, toSec: number): Promise<Candle[]> {
+    const result = await this.futuresApi.listFuturesCandlesticks(
+      this.settle,
+      contract,
+      {
+        interval,
+        from: fromSec,
+        to: toSec,
       }
-    }
-    
-    logger.error(`获取账户余额失败（${retries}次重试）:`, lastError);
-    throw lastError;
+    );
+    return (result.body || []).map(toGateCandle);
   }
 
   /**
-   * 获取当前持仓（带重试机制，只返回允许的币种）
+   * 获取账户余额
+   */
+  async getFuturesAccount(): Promise<Account> {
+    const result = await this.futuresApi.listFuturesAccounts(this.settle);
+    const account = result.body;
+    return {
+      currency: account.currency || "USDT",
+      total: toNumber(account.total),
+      available: toNumber(account.available),
+      positionMargin: toNumber(account.positionMargin ?? account.position_margin),
+      orderMargin: toNumber(account.orderMargin ?? account.order_margin),
+      unrealisedPnl: toNumber(account.unrealisedPnl ?? account.unrealised_pnl),
+    };
+  }
+
+  /**
+   * 获取当前持仓（只返回允许的币种）
    * 注意：需要指定 position mode 参数
    */
-  async getPositions(retries: number = 2) {
-    let lastError: any;
+  async getPositions(): Promise<Position[]> {
+    // Gate.io API 调用 listPositions
+    // 注意：不传第二个参数表示查询所有模式的持仓
+    const result = await this.futuresApi.listPositions(this.settle);
+    const allPositions = result.body;
     
-    for (let i = 0; i <= retries; i++) {
-      try {
-        // Gate.io API 调用 listPositions
-        // 注意：不传第二个参数表示查询所有模式的持仓
-        const result = await this.futuresApi.listPositions(this.settle);
-        const allPositions = result.body;
-        
-        // 过滤：只保留允许的币种
-        const allowedSymbols = RISK_PARAMS.TRADING_SYMBOLS;
-        const filteredPositions = allPositions?.filter((p: any) => {
-          // 从 contract（如 "BTC_USDT"）中提取币种名称（如 "BTC"）
-          const symbol = p.contract?.split('_')[0];
-          return symbol && allowedSymbols.includes(symbol);
-        }) || [];
-        
-        return filteredPositions;
-      } catch (error) {
-        lastError = error;
-        if (i < retries) {
-          logger.warn(`获取持仓失败，重试 ${i + 1}/${retries}...`);
-          await new Promise(resolve => setTimeout(resolve, 300 * (i + 1))); // 递增延迟
-        }
-      }
-    }
+    // 过滤：只保留允许的币种
+    const allowedSymbols = RISK_PARAMS.TRADING_SYMBOLS;
+    const filteredPositions: GateObject[] = allPositions?.filter((p: GateObject) => {
+      // 从 contract（如 "BTC_USDT"）中提取币种名称（如 "BTC"）
+      const symbol = (p.contract as string | undefined)?.split('_')[0];
+      return symbol && allowedSymbols.includes(symbol);
+    }) || [];
     
-    logger.error(`获取持仓失败（${retries}次重试）:`, lastError);
-    throw lastError;
+    return filteredPositions.map((p): Position => {
+      const openTime = toNumber(p.openTime ?? p.open_time);
+      return {
+        contract: String(p.contract),
+        size: toNumber(p.size),
+        leverage: toNumber(p.leverage),
+        entryPrice: toNumber(p.entryPrice ?? p.entry_price),
+        markPrice: toNumber(p.markPrice ?? p.mark_price),
+        liqPrice: toNumber(p.liqPrice ?? p.liq_price),
+        unrealisedPnl: toNumber(p.unrealisedPnl ?? p.unrealised_pnl),
+        realisedPnl: toNumber(p.realisedPnl ?? p.realised_pnl),
+        margin: toNumber(p.margin),
+        notional: Math.abs(toNumber(p.value)),
+        openTime: openTime > 0 ? openTime : undefined,
+      };
+    });
   }
 
   /**
@@ -191,7 +275,7 @@ export class GateClient {
     autoSize?: string;
     stopLoss?: number;
     takeProfit?: number;
-  }) {
+  }): Promise<Order> {
     // 验证 size 参数
     if (params.size === 0 || !Number.isFinite(params.size)) {
       throw new Error(`Invalid order size: ${params.size}. Size must be a non-zero finite number.`);
@@ -230,7 +314,7 @@ export class GateClient {
       if (params.price && params.price > 0) {
         // 获取当前标记价格
         const ticker = await this.getFuturesTicker(params.contract);
-        const markPrice = Number.parseFloat(ticker.markPrice || ticker.last || "0");
+        const markPrice = ticker.markPrice;
         
         if (markPrice > 0) {
           const priceDeviation = Math.abs(params.price - markPrice) / markPrice;
@@ -322,7 +406,7 @@ export class GateClient {
         this.settle,
         order
       );
-      return result.body;
+      return this.toOrder(result.body);
     } catch (error: any) {
       // 获取详细的 API 错误信息
       const errorDetails = {
@@ -385,7 +469,7 @@ export class GateClient {
           );
           
           logger.warn(`✅ 去除 reduceOnly 后下单成功: ${params.contract}`);
-          return retryResult.body;
+          return this.toOrder(retryResult.body);
         } catch (retryError: any) {
           // 重试也失败，记录错误并继续抛出原始错误
           const retryErrorDetails = {
@@ -415,14 +499,14 @@ export class GateClient {
    * @param orderId 订单ID
    * @param contract 合约名称（可选，Gate.io 不需要此参数）
    */
-  async getOrder(orderId: string, contract?: string) {
+  async getOrder(orderId: string, contract?: string): Promise<Order> {
     try {
       // Gate.io API 不需要 contract 参数，忽略该参数
       const result = await this.futuresApi.getFuturesOrder(
         this.settle,
         orderId
       );
-      return result.body;
+      return this.toOrder(result.body);
     } catch (error) {
       logger.error(`获取订单 ${orderId} 详情失败:`, error as any);
       throw error;
@@ -432,13 +516,12 @@ export class GateClient {
   /**
    * 取消订单
    */
-  async cancelOrder(orderId: string) {
+  async cancelOrder(orderId: string): Promise<void> {
     try {
-      const result = await this.futuresApi.cancelFuturesOrder(
+      await this.futuresApi.cancelFuturesOrder(
         this.settle,
         orderId
       );
-      return result.body;
     } catch (error) {
       logger.error(`取消订单 ${orderId} 失败:`, error as any);
       throw error;
@@ -448,49 +531,141 @@ export class GateClient {
   /**
    * 获取未成交订单
    */
-  async getOpenOrders(contract?: string) {
+  async getOpenOrders(contract?: string): Promise<Order[]> {
     try {
       const result = await this.futuresApi.listFuturesOrders(this.settle, "open", {
         contract,
       });
-      return result.body;
+      return (result.body || []).map((order: GateObject) => this.toOrder(order));
     } catch (error) {
       logger.error("获取未成交订单失败:", error as any);
       throw error;
     }
   }
 
+  /**
+   * 挂出止损/止盈价格触发订单
+   * 触发后以市价（IOC）平掉整个仓位，由交易所执行，不依赖本进程在线
+   */
+  async placeTriggerOrder(params: TriggerOrderParams): Promise<TriggerOrder> {
+    // 多头止损/空头止盈：价格 <= 触发价（rule=2）；多头止盈/空头止损：价格 >= 触发价（rule=1）
+    const triggerBelow = (params.side === "long") === (params.kind === "stop_loss");
+    const order = {
+      initial: {
+        contract: params.contract,
+        size: 0, // 配合 close=true 平掉整个仓位
+        price: "0", // 市价
+        tif: "ioc",
+        close: true,
+        reduceOnly: true,
+      },
+      trigger: {
+        strategyType: 0, // 按价格触发
+        priceType: 1, // 标记价格
+        price: params.triggerPrice.toString(),
+        rule: triggerBelow ? 2 : 1,
+        expiration: 0, // 永不过期
+      },
+      orderType: params.side === "long" ? "close-long-position" : "close-short-position",
+    };
+
+    try {
+      logger.info(`挂出条件单: ${JSON.stringify(order)}`);
+      const result = await this.futuresApi.createPriceTriggeredOrder(this.settle, order);
+      return {
+        id: String(result.body.id),
+        contract: params.contract,
+        side: params.side,
+        kind: params.kind,
+        triggerPrice: params.triggerPrice,
+        status: "open",
+      };
+    } catch (error) {
+      const response = (error as { response?: { body?: GateObject; data?: GateObject } }).response;
+      const apiError = response?.body || response?.data;
+      logger.error(`挂出 ${params.contract} 条件单失败:`, apiError || getErrorMessage(error));
+      throw new Error(`挂出条件单失败: ${apiError?.message || apiError?.label || getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * 撤销价格触发订单
+   * @param contract 合约名称（Gate.io 不需要此参数）
+   */
+  async cancelTriggerOrder(orderId: string, contract: string): Promise<void> {
+    try {
+      await this.futuresApi.cancelPriceTriggeredOrder(this.settle, orderId);
+    } catch (error) {
+      logger.error(`撤销条件单 ${orderId} 失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取未触发的价格触发订单
+   */
+  async getTriggerOrders(contract?: string): Promise<TriggerOrder[]> {
+    try {
+      const result = await this.futuresApi.listPriceTriggeredOrders(this.settle, "open", {
+        contract,
+      });
+      return (result.body || []).map((order: GateObject): TriggerOrder => {
+        const initial = (order.initial || {}) as GateObject;
+        const trigger = (order.trigger || {}) as GateObject;
+        const orderType = String(order.orderType || order.order_type || "");
+        const initialSize = Number(initial.size || 0);
+        const side: "long" | "short" = orderType.includes("short") || initialSize > 0 ? "short" : "long";
+        const triggerBelow = Number(trigger.rule) === 2;
+        return {
+          id: String(order.id),
+          contract: String(initial.contract),
+          side,
+          kind: (side === "long") === triggerBelow ? "stop_loss" : "take_profit",
+          triggerPrice: toNumber(trigger.price),
+          status: String(order.status || "open"),
+          createTime: order.createTime ? toNumber(order.createTime) : undefined,
+        };
+      });
+    } catch (error) {
+      logger.error("获取条件单失败:", error);
+      throw error;
+    }
+  }
+
   /**
    * 设置仓位杠杆
    */
-  async setLeverage(contract: string, leverage: number) {
+  async setLeverage(contract: string, leverage: number): Promise<void> {
     try {
       logger.info(`设置 ${contract} 杠杆为 ${leverage}x`);
-      const result = await this.futuresApi.updatePositionLeverage(
+      await this.futuresApi.updatePositionLeverage(
         this.settle,
         contract,
         leverage.toString()
       );
-      return result.body;
     } catch (error: any) {
       // 如果已有持仓，某些交易所不允许修改杠杆，这是正常的
       // 记录警告但不抛出错误，让交易继续
       logger.warn(`设置 ${contract} 杠杆失败（可能已有持仓）:`, error.message);
-      return null;
     }
   }
 
   /**
    * 获取资金费率
    */
-  async getFundingRate(contract: string) {
+  async getFundingRate(contract: string): Promise<FundingRate> {
     try {
       const result = await this.futuresApi.listFuturesFundingRateHistory(
         this.settle,
         contract,
         { limit: 1 }
       );
-      return result.body[0];
+      const record = result.body[0];
+      return {
+        contract,
+        rate: toNumber(record?.r),
+        time: toNumber(record?.t),
+      };
     } catch (error) {
       logger.error(`获取 ${contract} 资金费率失败:`, error as any);
       throw error;
@@ -500,13 +675,13 @@ export class GateClient {
   /**
    * 获取合约信息（包含持仓量等）
    */
-  async getContractInfo(contract: string) {
+  async getContractInfo(contract: string): Promise<ContractSpec> {
     try {
       const result = await this.futuresApi.getFuturesContract(
         this.settle,
         contract
       );
-      return result.body;
+      return this.toContractSpec(result.body);
     } catch (error) {
       logger.error(`获取 ${contract} 合约信息失败:`, error as any);
       throw error;
@@ -516,10 +691,10 @@ export class GateClient {
   /**
    * 获取所有合约列表
    */
-  async getAllContracts() {
+  async getAllContracts(): Promise<ContractSpec[]> {
     try {
       const result = await this.futuresApi.listFuturesContracts(this.settle);
-      return result.body;
+      return (result.body || []).map((info: GateObject) => this.toContractSpec(info));
     } catch (error) {
       logger.error("获取合约列表失败:", error as any);
       throw error;
@@ -529,14 +704,18 @@ export class GateClient {
   /**
    * 获取订单簿
    */
-  async getOrderBook(contract: string, limit: number = 10) {
+  async getOrderBook(contract: string, limit: number = 10): Promise<OrderBook> {
     try {
       const result = await this.futuresApi.listFuturesOrderBook(
         this.settle,
         contract,
         { limit }
       );
-      return result.body;
+      const toLevel = (level: GateObject) => ({ price: toNumber(level.p), size: toNumber(level.s) });
+      return {
+        bids: (result.body.bids || []).map(toLevel),
+        asks: (result.body.asks || []).map(toLevel),
+      };
     } catch (error) {
       logger.error(`获取 ${contract} 订单簿失败:`, error as any);
       throw error;
@@ -549,7 +728,7 @@ export class GateClient {
    * @param contract 合约名称（可选，不传则获取所有合约）
    * @param limit 返回数量，默认10条
    */
-  async getMyTrades(contract?: string, limit: number = 10) {
+  async getMyTrades(contract?: string, limit: number = 10): Promise<Fill[]> {
     try {
       const options: any = { limit };
       if (contract) {
@@ -562,7 +741,16 @@ export class GateClient {
         this.settle,
         options
       );
-      return result.body;
+      return (result.body || []).map((trade: GateObject): Fill => ({
+        id: String(trade.id),
+        orderId: String(trade.orderId ?? trade.order_id),
+        contract: String(trade.contract),
+        size: toNumber(trade.size),
+        price: toNumber(trade.price),
+        fee: toNumber(trade.fee),
+        role: trade.role as Fill["role"],
+        time: toNumber(trade.createTime ?? trade.create_time),
+      }));
     } catch (error) {
       logger.error(`获取我的历史成交记录失败:`, error as any);
       throw error;
@@ -575,7 +763,7 @@ export class GateClient {
    * @param limit 返回数量，默认100条
    * @param offset 偏移量，默认0，用于分页
    */
-  async getPositionHistory(contract?: string, limit: number = 100, offset: number = 0) {
+  async getPositionHistory(contract?: string, limit: number = 100, offset: number = 0): Promise<ClosedPosition[]> {
     try {
       const options: any = { limit, offset };
       if (contract) {
@@ -588,7 +776,21 @@ export class GateClient {
         this.settle,
         options
       );
-      return result.body;
+      return (result.body || []).map((record: GateObject): ClosedPosition => {
+        const size = toNumber(record.size);
+        return {
+          contract: String(record.contract),
+          side: size > 0 ? "long" : "short",
+          size: Math.abs(size),
+          entryPrice: toNumber(record.entryPrice ?? record.entry_price),
+          closePrice: toNumber(record.fillPrice ?? record.fill_price ?? record.liqPrice ?? record.liq_price),
+          // 强平损失全部保证金
+          pnl: -toNumber(record.margin),
+          fee: 0,
+          time: toNumber(record.time),
+          type: "liquidation",
+        };
+      });
     } catch (error) {
       logger.error(`获取历史仓位记录失败:`, error as any);
       throw error;
@@ -601,7 +803,7 @@ export class GateClient {
    * @param limit 返回数量，默认100条
    * @param offset 偏移量，默认0，用于分页
    */
-  async getSettlementHistory(contract?: string, limit: number = 100, offset: number = 0) {
+  async getSettlementHistory(contract?: string, limit: number = 100, offset: number = 0): Promise<ClosedPosition[]> {
     try {
       const options: any = { limit, offset };
       if (contract) {
@@ -613,7 +815,20 @@ export class GateClient {
         this.settle,
         options
       );
-      return result.body;
+      return (result.body || []).map((record: GateObject): ClosedPosition => {
+        const size = toNumber(record.size);
+        return {
+          contract: String(record.contract),
+          side: size > 0 ? "long" : "short",
+          size: Math.abs(size),
+          entryPrice: toNumber(record.entryPrice ?? record.entry_price),
+          closePrice: toNumber(record.settlePrice ?? record.settle_price),
+          pnl: toNumber(record.profit),
+          fee: toNumber(record.fee),
+          time: toNumber(record.time),
+          type: "settlement",
+        };
+      });
     } catch (error) {
       logger.error(`获取历史结算记录失败:`, error as any);
       throw error;
@@ -625,7 +840,7 @@ export class GateClient {
    * @param contract 合约名称（可选）
    * @param limit 返回数量，默认10条
    */
-  async getOrderHistory(contract?: string, limit: number = 10) {
+  async getOrderHistory(contract?: string, limit: number = 10): Promise<Order[]> {
     try {
       const options: any = { limit };
       if (contract) {
@@ -637,7 +852,7 @@ export class GateClient {
         "finished",
         options
       );
-      return result.body;
+      return (result.body || []).map((order: GateObject) => this.toOrder(order));
     } catch (error) {
       logger.error(`获取订单历史失败:`, error as any);
       throw error;
@@ -0,0 +1,780 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Hyperliquid 永续合约客户端封装（基于 ccxt，使用钱包私钥签名）
+ *
+ * - 保证金币种为 USDC，内部仍使用 BTC_USDT 格式的合约名称
+ * - 下单数量以币为单位（没有合约乘数），数量精度由 szDecimals 决定
+ * - 没有真正的市价单，市价单以带滑点保护价的 IOC 限价单成交
+ * - 建议使用 API 钱包（agent wallet）私钥，HYPERLIQUID_WALLET_ADDRESS 填写主账户地址
+ */
+import { type Order as CcxtOrder, type MarketInterface, hyperliquid } from "ccxt";
+import { RISK_PARAMS } from "../config/riskParams";
+import { fromHyperliquidContract, toHyperliquidContract } from "../utils/contractMapping";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import type { IExchangeClient } from "./exchangeClient";
+import {
+  type Account,
+  type Candle,
+  type ClosedPosition,
+  type ContractSpec,
+  type ExchangeCapabilities,
+  type Fill,
+  type FundingRate,
+  type Order,
+  type OrderBook,
+  type Position,
+  type Ticker,
+  type TriggerOrder,
+  type TriggerOrderParams,
+  toNumber,
+} from "./exchangeModels";
+
+const logger = createLogger({
+  name: "hyperliquid-client",
+  level: "info",
+});
+
+/**
+ * K线周期（Gate 格式）对应的 Hyperliquid 周期
+ */
+const HYPERLIQUID_INTERVALS: Record<string, string> = {
+  "7d": "1w",
+  "30d": "1M",
+};
+
+/** K线周期对应的毫秒数（用于计算起始时间） */
+const INTERVAL_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  M: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * K线周期的毫秒数
+ */
+function getIntervalMs(timeframe: string): number {
+  const unitMs = INTERVAL_MS[timeframe.slice(-1)] || INTERVAL_MS.m;
+  return (Number.parseInt(timeframe) || 1) * unitMs;
+}
+
+/**
+ * ccxt K线（[timestamp, o, h, l, c, volume]）转换为统一K线模型，成交额按收盘价估算
+ */
+function toHyperliquidCandle(candle: readonly unknown[]): Candle {
+  return {
+    timestamp: toNumber(candle[0]) / 1000,
+    open: toNumber(candle[1]),
+    high: toNumber(candle[2]),
+    low: toNumber(candle[3]),
+    close: toNumber(candle[4]),
+    volume: toNumber(candle[5]),
+    quoteVolume: toNumber(candle[5]) * toNumber(candle[4]),
+  };
+}
+
+/**
+ * Hyperliquid 持仓（clearinghouseState.assetPositions[].position）
+ */
+interface HyperliquidPosition {
+  coin: string;
+  szi: string;
+  positionValue: string;
+  entryPx: string;
+  liquidationPx: string | null;
+  unrealizedPnl: string;
+  marginUsed: string;
+  leverage?: { value?: number };
+}
+
+/**
+ * Hyperliquid 永续合约账户状态（clearinghouseState 接口）
+ */
+interface ClearinghouseState {
+  marginSummary?: { accountValue?: string; totalMarginUsed?: string };
+  withdrawable?: string;
+  assetPositions?: Array<{ position?: HyperliquidPosition }>;
+}
+
+/**
+ * Hyperliquid 下单响应中的订单状态（ccxt 订单的 info 字段）
+ */
+interface HyperliquidOrderStatus {
+  error?: string;
+  resting?: { oid: number };
+  filled?: { totalSz: string; avgPx: string; oid: number };
+}
+
+/**
+ * ccxt 默认会在下单前授权并附加 ccxt 的 builder 手续费地址，这里跳过授权，订单不附加 builder
+ */
+class HyperliquidExchange extends hyperliquid {
+  async handleBuilderFeeApproval(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * 合约名称转换为 ccxt 统一符号
+ * BTC_USDT -> BTC/USDC:USDC
+ */
+function toMarketSymbol(contract: string): string {
+  const coin = toHyperliquidContract(contract);
+  return `${coin}/USDC:USDC`;
+}
+
+/**
+ * ccxt 统一符号转换为合约名称
+ * BTC/USDC:USDC -> BTC_USDT
+ */
+function fromMarketSymbol(symbol: string): string {
+  return fromHyperliquidContract(symbol.split("/")[0]);
+}
+
+export class HyperliquidClient implements IExchangeClient {
+  /** Hyperliquid 按币下单，不支持 FOK，仓位历史由平仓成交记录推算 */
+  readonly capabilities: ExchangeCapabilities = {
+    sizeUnit: "coin",
+    orderTypes: ["market", "limit", "post_only", "ioc"],
+    triggerOrders: true,
+    positionMode: "one_way",
+    positionHistory: false,
+    settlementHistory: false,
+    priceStream: false,
+  };
+  private readonly exchange: HyperliquidExchange;
+  private readonly walletAddress: string;
+  /** 本进程下达的订单对应的合约（Hyperliquid 撤销订单需要合约名） */
+  private orderContracts = new Map<string, string>();
+  /** 下单时立即成交的订单的成交均价（订单状态接口不返回成交均价） */
+  private orderFillPrices = new Map<string, number>();
+
+  constructor(walletAddress: string, privateKey: string) {
+    this.walletAddress = walletAddress;
+    this.exchange = new HyperliquidExchange({
+      walletAddress,
+      privateKey,
+      options: {
+        // 市价单（IOC 限价单）的滑点保护比例
+        defaultSlippage: Number.parseFloat(process.env.HYPERLIQUID_MARKET_SLIPPAGE || "0.05"),
+        // 只加载永续合约市场
+        fetchMarkets: { types: ["swap"] },
+        // 不设置 ccxt 的推荐码
+        refSet: true,
+      },
+    });
+
+    const isTestnet = process.env.HYPERLIQUID_USE_TESTNET === "true";
+    if (process.env.HYPERLIQUID_BASE_URL) {
+      const baseUrl = process.env.HYPERLIQUID_BASE_URL.replace(/\/$/, "");
+      this.exchange.urls.api = { public: baseUrl, private: baseUrl };
+      logger.info(`使用自定义 Hyperliquid 接口地址: ${baseUrl}`);
+    } else if (isTestnet) {
+      this.exchange.setSandboxMode(true);
+      logger.info("使用 Hyperliquid 测试网");
+    } else {
+      logger.info("使用 Hyperliquid 正式网");
+    }
+
+    logger.info("Hyperliquid API 客户端初始化完成");
+  }
+
+  /**
+   * 查询永续合约账户状态（保证金汇总和持仓）
+   */
+  private async getClearinghouseState(): Promise<ClearinghouseState> {
+    const state = await this.exchange.publicPostInfo({
+      type: "clearinghouseState",
+      user: this.walletAddress,
+    });
+    return state as ClearinghouseState;
+  }
+
+  /**
+   * 将 ccxt 订单转换为统一订单模型（size 带方向，正数买入，负数卖出）
+   */
+  private toOrder(order: CcxtOrder): Order {
+    const sign = order.side === "sell" ? -1 : 1;
+    const amount = toNumber(order.amount);
+    const filled = toNumber(order.filled);
+
+    let status: Order["status"] = "open";
+    if (order.status === "closed") status = "finished";
+    else if (order.status && order.status !== "open") status = "cancelled";
+
+    // 订单状态接口不返回成交均价，优先使用下单时记录的成交均价，否则按限价估算
+    const fillPrice = order.average ?? this.orderFillPrices.get(String(order.id)) ?? (filled > 0 ? order.price : undefined);
+
+    return {
+      id: String(order.id),
+      contract: fromMarketSymbol(order.symbol || ""),
+      size: sign * amount,
+      left: sign * Math.max(0, amount - filled),
+      price: toNumber(order.price),
+      fillPrice: toNumber(fillPrice),
+      status,
+      reduceOnly: order.reduceOnly === true,
+      createTime: toNumber(order.timestamp) / 1000,
+      finishTime: status === "open" || !order.lastUpdateTimestamp ? undefined : toNumber(order.lastUpdateTimestamp) / 1000,
+    };
+  }
+
+  /**
+   * 获取下单参考价格（市价单需要价格来计算滑点保护价）
+   */
+  private async getReferencePrice(contract: string): Promise<number> {
+    const ticker = await this.getFuturesTicker(contract);
+    const price = ticker.markPrice || ticker.last;
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new Error(`无法获取 ${contract} 的参考价格`);
+    }
+    return price;
+  }
+
+  /**
+   * 获取合约ticker价格
+   */
+  async getFuturesTicker(contract: string): Promise<Ticker> {
+    const symbol = toMarketSymbol(contract);
+
+    const ticker = await this.exchange.fetchTicker(symbol);
+    const info: Record<string, unknown> = ticker.info || {};
+    const prevDayPx = toNumber(info.prevDayPx);
+    const markPx = toNumber(info.markPx);
+
+    return {
+      contract,
+      last: toNumber(ticker.last, markPx),
+      markPrice: markPx,
+      indexPrice: toNumber(info.oraclePx),
+      high24h: toNumber(ticker.high),
+      low24h: toNumber(ticker.low),
+      volume24h: toNumber(info.dayBaseVlm),
+      volume24hQuote: toNumber(info.dayNtlVlm),
+      changePercentage: prevDayPx > 0 ? (markPx - prevDayPx) / prevDayPx * 100 : 0,
+      fundingRate: toNumber(info.funding),
+    };
+  }
+
+  /**
+   * 获取合约K线数据
+   */
+  async getFuturesCandles(
+    contract: string,
+    interval = "5m",
+    limit = 100
+  ): Promise<Candle[]> {
+    const symbol = toMarketSymbol(contract);
+    const timeframe = HYPERLIQUID_INTERVALS[interval] || interval;
+
+    // Hyperliquid 按时间范围查询K线，起始时间按数量倒推
+    const since = Date.now() - limit * getIntervalMs(timeframe);
+    const candles = await this.exchange.fetchOHLCV(symbol, timeframe, since, limit);
+    return candles.slice(-limit).map(toHyperliquidCandle);
+  }
+
+  /**
+   * 按时间范围获取K线
+   */
+  async getCandlesRange(contract: string, interval: string, fromSec: number, toSec: number): Promise<Candle[]> {
+    const timeframe = HYPERLIQUID_INTERVALS[interval] || interval;
+    const limit = Math.floor(((toSec - fromSec) * 1000) / getIntervalMs(timeframe)) + 1;
+    const candles = await this.exchange.fetchOHLCV(toMarketSymbol(contract), timeframe, fromSec * 1000, limit);
+    return candles.map(toHyperliquidCandle).filter(c => c.timestamp >= fromSec && c.timestamp <= toSec);
+  }
+
+  /**
+   * 获取账户余额
+   */
+  async getFuturesAccount(): Promise<Account> {
+    const state = await this.getClearinghouseState();
+    const summary = state.marginSummary || {};
+    const unrealisedPnl = (state.assetPositions || []).reduce(
+      (sum, p) => sum + toNumber(p.position?.unrealizedPnl),
+      0
+    );
+    const accountValue = toNumber(summary.accountValue);
+
+    // accountValue 包含未实现盈亏，total 需要扣除
+    return {
+      currency: "USDC",
+      total: accountValue - unrealisedPnl,
+      available: toNumber(state.withdrawable),
+      positionMargin: toNumber(summary.totalMarginUsed),
+      orderMargin: 0,
+      unrealisedPnl,
+    };
+  }
+
+  /**
+   * 获取当前持仓（只返回允许的币种）
+   */
+  async getPositions(): Promise<Position[]> {
+    const state = await this.getClearinghouseState();
+    const allowedSymbols = RISK_PARAMS.TRADING_SYMBOLS;
+
+    return (state.assetPositions || [])
+      .map(p => p.position)
+      .filter((p): p is HyperliquidPosition => !!p && allowedSymbols.includes(p.coin) && toNumber(p.szi) !== 0)
+      .map((p): Position => {
+        // szi 带方向，正数为多仓，负数为空仓
+        const size = toNumber(p.szi);
+        const notional = toNumber(p.positionValue);
+        return {
+          contract: fromHyperliquidContract(p.coin),
+          size,
+          leverage: toNumber(p.leverage?.value, 1),
+          entryPrice: toNumber(p.entryPx),
+          // 接口不返回标记价格，由持仓价值反推
+          markPrice: notional / Math.abs(size),
+          liqPrice: toNumber(p.liquidationPx),
+          unrealisedPnl: toNumber(p.unrealizedPnl),
+          realisedPnl: 0,
+          margin: toNumber(p.marginUsed),
+          notional,
+        };
+      });
+  }
+
+  /**
+   * 下单 - 开仓或平仓
+   * 市价单以参考价格加滑点保护的 IOC 限价单成交
+   */
+  async placeOrder(params: {
+    contract: string;
+    size: number;
+    price?: number;
+    tif?: string;
+    reduceOnly?: boolean;
+    autoSize?: string;
+    stopLoss?: number;
+    takeProfit?: number;
+  }): Promise<Order> {
+    const symbol = toMarketSymbol(params.contract);
+
+    if (params.size === 0 || !Number.isFinite(params.size)) {
+      throw new Error(`Invalid order size: ${params.size}. Size must be a non-zero finite number.`);
+    }
+
+    try {
+      const side = params.size > 0 ? "buy" : "sell";
+      const amount = Math.abs(params.size);
+      const isLimit = !!params.price && params.price > 0;
+      const orderParams: Record<string, string | number | boolean> = {
+        reduceOnly: params.reduceOnly === true,
+      };
+      if (isLimit) {
+        // Hyperliquid time-in-force: Gtc / Alo（只做 maker）/ Ioc，不支持 FOK
+        const tif = params.tif || "gtc";
+        orderParams.timeInForce = tif === "poc" ? "Alo" : tif === "ioc" || tif === "fok" ? "Ioc" : "Gtc";
+      }
+      const price = isLimit ? params.price : await this.getReferencePrice(params.contract);
+
+      logger.info("Hyperliquid 下单请求:", {
+        contract: params.contract,
+        side,
+        amount,
+        type: isLimit ? "limit" : "market",
+        price,
+        orderParams,
+      });
+
+      const order = await this.exchange.createOrder(symbol, isLimit ? "limit" : "market", side, amount, price, orderParams);
+      const info: HyperliquidOrderStatus = order.info || {};
+      if (info.error) {
+        throw new Error(info.error);
+      }
+
+      // 下单响应只包含 resting（挂单中）或 filled（已成交）
+      const sign = params.size > 0 ? 1 : -1;
+      const filledSize = toNumber(info.filled?.totalSz);
+      const fillPrice = toNumber(info.filled?.avgPx);
+      const id = String(order.id || info.resting?.oid || info.filled?.oid);
+      this.orderContracts.set(id, params.contract);
+      if (fillPrice > 0) {
+        this.orderFillPrices.set(id, fillPrice);
+      }
+
+      logger.info("Hyperliquid 下单响应:", info);
+
+      return {
+        id,
+        contract: params.contract,
+        size: params.size,
+        left: sign * Math.max(0, amount - filledSize),
+        price: isLimit ? params.price as number : 0,
+        fillPrice,
+        // IOC 未成交部分会被撤销，不会挂在订单簿上
+        status: info.resting ? "open" : filledSize > 0 ? "finished" : "cancelled",
+        reduceOnly: params.reduceOnly === true,
+        createTime: Date.now() / 1000,
+      };
+    } catch (error) {
+      const errorMessage = getErrorMessage(error) || "Unknown error";
+      logger.error("Hyperliquid 下单失败:", errorMessage);
+      throw new Error(`下单失败: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * 获取订单详情
+   * @param orderId 订单ID
+   * @param contract 合约名称（可选）
+   */
+  async getOrder(orderId: string, contract?: string): Promise<Order> {
+    try {
+      const knownContract = contract || this.orderContracts.get(orderId);
+      const order = await this.exchange.fetchOrder(orderId, knownContract ? toMarketSymbol(knownContract) : undefined);
+      if (!order?.id) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      return this.toOrder(order);
+    } catch (error) {
+      logger.error(`获取订单 ${orderId} 详情失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 取消订单
+   */
+  async cancelOrder(orderId: string): Promise<void> {
+    try {
+      let contract = this.orderContracts.get(orderId);
+      if (!contract) {
+        const order = await this.exchange.fetchOrder(orderId);
+        const symbol = order?.symbol;
+        if (!symbol) {
+          throw new Error(`Order ${orderId} not found`);
+        }
+        contract = fromMarketSymbol(symbol);
+      }
+
+      await this.exchange.cancelOrder(orderId, toMarketSymbol(contract));
+    } catch (error) {
+      logger.error(`取消订单 ${orderId} 失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取未成交订单（不含条件单）
+   */
+  async getOpenOrders(contract?: string): Promise<Order[]> {
+    try {
+      const orders = await this.exchange.fetchOpenOrders(contract ? toMarketSymbol(contract) : undefined);
+      return orders
+        .filter((order) => order.triggerPrice === undefined)
+        .map((order) => this.toOrder(order));
+    } catch (error) {
+      logger.error("获取未成交订单失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 挂出止损/止盈条件单
+   * 使用只减仓的条件市价单，数量为当前持仓数量，按标记价格触发，由交易所执行，不依赖本进程在线
+   */
+  async placeTriggerOrder(params: TriggerOrderParams): Promise<TriggerOrder> {
+    const symbol = toMarketSymbol(params.contract);
+
+    try {
+      const positions = await this.getPositions();
+      const position = positions.find(p => p.contract === params.contract
+        && (p.size > 0 ? "long" : "short") === params.side);
+      if (!position) {
+        throw new Error(`${params.contract} 没有 ${params.side} 持仓`);
+      }
+
+      const side = params.side === "long" ? "sell" : "buy";
+      const amount = Math.abs(position.size);
+      const orderParams: Record<string, string | number | boolean> = {
+        reduceOnly: true,
+        [params.kind === "stop_loss" ? "stopLossPrice" : "takeProfitPrice"]: params.triggerPrice,
+      };
+
+      logger.info("Hyperliquid 挂出条件单:", { contract: params.contract, side, amount, ...orderParams });
+      // 触发后的市价单以触发价格计算滑点保护价
+      const order = await this.exchange.createOrder(symbol, "market", side, amount, params.triggerPrice, orderParams);
+      const info: HyperliquidOrderStatus = order.info || {};
+      if (info.error) {
+        throw new Error(info.error);
+      }
+      const id = String(order.id || info.resting?.oid);
+      this.orderContracts.set(id, params.contract);
+
+      return {
+        id,
+        contract: params.contract,
+        side: params.side,
+        kind: params.kind,
+        triggerPrice: params.triggerPrice,
+        status: "open",
+      };
+    } catch (error) {
+      logger.error(`Hyperliquid 挂出 ${params.contract} 条件单失败:`, getErrorMessage(error));
+      throw new Error(`挂出条件单失败: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * 撤销条件单
+   */
+  async cancelTriggerOrder(orderId: string, contract: string): Promise<void> {
+    try {
+      await this.exchange.cancelOrder(orderId, toMarketSymbol(contract));
+    } catch (error) {
+      logger.error(`撤销条件单 ${orderId} 失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取未触发的条件单
+   */
+  async getTriggerOrders(contract?: string): Promise<TriggerOrder[]> {
+    try {
+      const orders = await this.exchange.fetchOpenOrders(contract ? toMarketSymbol(contract) : undefined);
+      return orders
+        .filter((order) => order.triggerPrice !== undefined)
+        .map((order): TriggerOrder => ({
+          id: String(order.id),
+          contract: fromMarketSymbol(order.symbol || ""),
+          // 卖出平仓保护的是多仓
+          side: order.side === "sell" ? "long" : "short",
+          kind: order.takeProfitPrice !== undefined ? "take_profit" : "stop_loss",
+          triggerPrice: toNumber(order.triggerPrice),
+          status: "open",
+          createTime: toNumber(order.timestamp) / 1000,
+        }));
+    } catch (error) {
+      logger.error("获取条件单失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 设置仓位杠杆（全仓模式）
+   */
+  async setLeverage(contract: string, leverage: number): Promise<void> {
+    try {
+      logger.info(`设置 ${contract} 杠杆为 ${leverage}x`);
+      await this.exchange.setLeverage(Math.round(leverage), toMarketSymbol(contract), { marginMode: "cross" });
+    } catch (error) {
+      logger.warn(`设置 ${contract} 杠杆失败:`, getErrorMessage(error));
+    }
+  }
+
+  /**
+   * 获取资金费率（Hyperliquid 每小时结算一次）
+   */
+  async getFundingRate(contract: string): Promise<FundingRate> {
+    try {
+      const funding = await this.exchange.fetchFundingRate(toMarketSymbol(contract));
+      return {
+        contract,
+        rate: toNumber(funding.fundingRate),
+        time: toNumber(funding.fundingTimestamp) / 1000,
+      };
+    } catch (error) {
+      logger.error(`获取 ${contract} 资金费率失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 将 ccxt 市场信息转换为统一合约规格模型
+   */
+  private toContractSpec(market: MarketInterface): ContractSpec {
+    // 数量精度为 10^-szDecimals，最小下单数量即为一个精度单位
+    const lotSize = toNumber(market.precision?.amount, 1);
+    return {
+      name: fromMarketSymbol(market.symbol),
+      orderSizeMin: lotSize,
+      orderSizeMax: 1000000,
+      quantoMultiplier: 1, // 没有合约乘数，下单数量以币为单位
+      lotSize,
+      orderPriceRound: toNumber(market.precision?.price, 0.01),
+      minNotional: toNumber(market.limits?.cost?.min, 10),
+      leverageMin: 1,
+      leverageMax: toNumber(market.limits?.leverage?.max),
+      inDelisting: market.active === false,
+    };
+  }
+
+  /**
+   * 获取合约信息
+   */
+  async getContractInfo(contract: string): Promise<ContractSpec> {
+    try {
+      const markets = await this.exchange.loadMarkets();
+      const market = markets[toMarketSymbol(contract)];
+      if (!market) {
+        throw new Error("Contract not found");
+      }
+      return this.toContractSpec(market);
+    } catch (error) {
+      logger.error(`获取 ${contract} 合约信息失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取所有合约列表（USDC 永续合约）
+   */
+  async getAllContracts(): Promise<ContractSpec[]> {
+    try {
+      const markets = await this.exchange.loadMarkets();
+      return Object.values(markets)
+        .filter((market): market is MarketInterface => !!market?.swap && market.settle === "USDC")
+        .map((market) => this.toContractSpec(market));
+    } catch (error) {
+      logger.error("获取合约列表失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取订单簿（Hyperliquid 最多返回 20 档）
+   */
+  async getOrderBook(contract: string, limit = 10): Promise<OrderBook> {
+    try {
+      const book = await this.exchange.fetchOrderBook(toMarketSymbol(contract));
+
+      // ccxt 格式: [price, size]
+      const toLevel = (level: readonly unknown[]) => ({ price: toNumber(level[0]), size: toNumber(level[1]) });
+      return {
+        bids: book.bids.slice(0, limit).map(toLevel),
+        asks: book.asks.slice(0, limit).map(toLevel),
+      };
+    } catch (error) {
+      logger.error(`获取 ${contract} 订单簿失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史成交记录（我的成交）
+   */
+  async getMyTrades(contract?: string, limit = 10): Promise<Fill[]> {
+    try {
+      const trades = await this.exchange.fetchMyTrades(contract ? toMarketSymbol(contract) : undefined, undefined, limit);
+      return trades
+        .map((trade): Fill => ({
+          contract: fromMarketSymbol(trade.symbol || ""),
+          id: String(trade.id),
+          orderId: String(trade.order),
+          size: (trade.side === "sell" ? -1 : 1) * toNumber(trade.amount),
+          price: toNumber(trade.price),
+          fee: toNumber(trade.fee?.cost),
+          role: trade.takerOrMaker === "maker" ? "maker" : "taker",
+          time: toNumber(trade.timestamp) / 1000,
+        }))
+        .sort((a, b) => b.time - a.time)
+        .slice(0, limit);
+    } catch (error) {
+      logger.error("获取我的历史成交记录失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史仓位记录
+   * Hyperliquid 没有仓位历史接口，使用带已实现盈亏的平仓成交记录代替，不支持 offset
+   */
+  async getPositionHistory(contract?: string, limit = 100, offset = 0): Promise<ClosedPosition[]> {
+    try {
+      const trades = await this.exchange.fetchMyTrades(contract ? toMarketSymbol(contract) : undefined);
+      return trades
+        .filter((trade) => toNumber(trade.info?.closedPnl) !== 0)
+        .map((trade): ClosedPosition => ({
+          contract: fromMarketSymbol(trade.symbol || ""),
+          // 卖出平仓表示平掉的是多仓
+          side: trade.side === "sell" ? "long" : "short",
+          size: toNumber(trade.amount),
+          // 成交记录不包含开仓均价
+          entryPrice: 0,
+          closePrice: toNumber(trade.price),
+          pnl: toNumber(trade.info.closedPnl),
+          fee: toNumber(trade.fee?.cost),
+          time: toNumber(trade.timestamp) / 1000,
+          type: "closed_pnl",
+        }))
+        .sort((a, b) => b.time - a.time)
+        .slice(0, limit);
+    } catch (error) {
+      logger.error("获取历史仓位记录失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史结算记录
+   */
+  async getSettlementHistory(contract?: string, limit = 100, offset = 0): Promise<ClosedPosition[]> {
+    // Hyperliquid 没有单独的结算历史API，使用仓位历史代替
+    return this.getPositionHistory(contract, limit, offset);
+  }
+
+  /**
+   * 获取已完成的订单历史
+   */
+  async getOrderHistory(contract?: string, limit = 10): Promise<Order[]> {
+    try {
+      const orders = await this.exchange.fetchClosedOrders(contract ? toMarketSymbol(contract) : undefined, undefined, limit);
+      return orders
+        .map((order) => this.toOrder(order))
+        .sort((a, b) => b.createTime - a.createTime)
+        .slice(0, limit);
+    } catch (error) {
+      logger.error("获取订单历史失败:", error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * 全局 Hyperliquid 客户端实例（单例模式）
+ */
+let hyperliquidClientInstance: HyperliquidClient | null = null;
+
+/**
+ * 创建全局 Hyperliquid 客户端实例（单例模式）
+ */
+export function createHyperliquidClient(): HyperliquidClient {
+  // 如果已存在实例，直接返回
+  if (hyperliquidClientInstance) {
+    return hyperliquidClientInstance;
+  }
+
+  const walletAddress = process.env.HYPERLIQUID_WALLET_ADDRESS;
+  const privateKey = process.env.HYPERLIQUID_PRIVATE_KEY;
+
+  if (!walletAddress || !privateKey) {
+    throw new Error("HYPERLIQUID_WALLET_ADDRESS 和 HYPERLIQUID_PRIVATE_KEY 必须在环境变量中设置");
+  }
+
+  // 创建并缓存实例
+  hyperliquidClientInstance = new HyperliquidClient(walletAddress, privateKey);
+  return hyperliquidClientInstance;
+}
@@ -21,7 +21,7 @@
  */
 
 import { createLogger } from "../utils/loggerUtils";
-import { createExchangeClient } from "./exchangeClient";
+import { createCandleStore } from "./candleStore";
 
 const logger = createLogger({
   name: "multi-timeframe",
@@ -209,11 +209,11 @@ export async function analyzeTimeframe(
   symbol: string,
   config: TimeframeConfig
 ): Promise<TimeframeIndicators> {
-  const exchangeClient = createExchangeClient();
+  const candleStore = createCandleStore();
   const contract = `${symbol}_USDT`;
   
-  // 获取K线数据
-  const candles = await exchangeClient.getFuturesCandles(
+  // 获取K线数据（优先读取K线存储）
+  const candles = await candleStore.getCandles(
     contract,
     config.interval,
     config.candleCount
@@ -224,11 +224,8 @@ export async function analyzeTimeframe(
   }
   
   // 提取价格和成交量数据
-  const closes = candles.map((c: any) => Number.parseFloat(c.c)).filter((n: number) => Number.isFinite(n));
-  const volumes = candles.map((c: any) => {
-    const vol = Number.parseFloat(c.v);
-    return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-  }).filter((n: number) => n >= 0);
+  const closes = candles.map(c => c.close).filter(n => Number.isFinite(n));
+  const volumes = candles.map(c => (Number.isFinite(c.volume) && c.volume >= 0 ? c.volume : 0));
   
   const currentPrice = closes[closes.length - 1] || 0;
   
@@ -23,13 +23,78 @@ import * as crypto from "crypto";
 import { createLogger } from "../utils/loggerUtils";
 import { RISK_PARAMS } from "../config/riskParams";
 import { getOkxWebSocketClient } from "./okxWebSocket";
+import type { IExchangeClient } from "./exchangeClient";
+import {
+  toNumber,
+  type Account,
+  type Candle,
+  type ClosedPosition,
+  type ContractSpec,
+  type ExchangeCapabilities,
+  type Fill,
+  type FundingRate,
+  type Order,
+  type OrderBook,
+  type Position,
+  type Ticker,
+  type TriggerOrder,
+  type TriggerOrderParams,
+} from "./exchangeModels";
 
 const logger = createLogger({
   name: "okx-client",
   level: "info",
 });
 
-export class OkxClient {
+/**
+ * time-in-force（Gate 格式）对应的 OKX 订单类型
+ */
+const OKX_ORDER_TYPES: Record<string, string> = {
+  gtc: "limit",
+  poc: "post_only",
+  ioc: "ioc",
+  fok: "fok",
+};
+
+/** 历史K线接口单次最多返回的数量 */
+const OKX_HISTORY_CANDLES_LIMIT = 100;
+
+/**
+ * K线周期（Gate 格式）转换为 OKX bar
+ * OKX 支持: 1m, 3m, 5m, 15m, 30m, 1H, 2H, 4H, 6H, 12H, 1D, 1W, 1M
+ */
+function toOkxBar(interval: string): string {
+  if (interval === "1h") return "1H";
+  if (interval === "4h") return "4H";
+  return interval;
+}
+
+/**
+ * OKX K线（[ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]）转换为统一K线模型
+ */
+function toOkxCandle(candle: string[]): Candle {
+  return {
+    timestamp: toNumber(candle[0]) / 1000, // OKX 返回毫秒时间戳
+    open: toNumber(candle[1]),
+    high: toNumber(candle[2]),
+    low: toNumber(candle[3]),
+    close: toNumber(candle[4]),
+    volume: toNumber(candle[5]),
+    quoteVolume: toNumber(candle[7]), // volCcyQuote
+  };
+}
+
+export class OkxClient implements IExchangeClient {
+  /** OKX 使用双向持仓模式（启动时设置），没有独立的结算历史接口，支持 WebSocket 价格推送 */
+  readonly capabilities: ExchangeCapabilities = {
+    sizeUnit: "contracts",
+    orderTypes: ["market", "limit", "post_only", "ioc", "fok"],
+    triggerOrders: true,
+    positionMode: "hedge",
+    positionHistory: true,
+    settlementHistory: false,
+    priceStream: true,
+  };
   private readonly apiKey: string;
   private readonly apiSecret: string;
   private readonly passphrase: string;
@@ -196,10 +261,78 @@ export class OkxClient {
   }
 
   /**
-   * 获取合约ticker价格（带重试机制）
+   * 转换为统一行情模型（OKX 行情没有标记价格，使用指数价格代替）
+   */
+  private toTicker(contract: string, ticker: any): Ticker {
+    const last = toNumber(ticker.last);
+    const open24h = toNumber(ticker.open24h);
+    const indexPrice = toNumber(ticker.idxPx, last);
+    return {
+      contract,
+      last,
+      markPrice: indexPrice,
+      indexPrice,
+      high24h: toNumber(ticker.high24h),
+      low24h: toNumber(ticker.low24h),
+      volume24h: toNumber(ticker.vol24h),
+      volume24hQuote: 0,
+      changePercentage: open24h > 0 ? ((last - open24h) / open24h) * 100 : 0,
+      fundingRate: 0,
+    };
+  }
+
+  /**
+   * 转换为统一订单模型
+   * OKX 订单状态: live, partially_filled, filled, canceled
+   */
+  private toOrder(order: any): Order {
+    let status: Order["status"] = "open";
+    if (order.state === "filled") status = "finished";
+    else if (order.state === "canceled" || order.state === "mmp_canceled") status = "cancelled";
+
+    // 转换为带符号的数量（正数买入，负数卖出）
+    const sign = order.side === "sell" ? -1 : 1;
+    const totalSize = toNumber(order.sz);
+    const filledSize = toNumber(order.accFillSz);
+    const updateTime = toNumber(order.uTime) / 1000;
+
+    return {
+      id: order.ordId,
+      contract: this.toGateContract(order.instId),
+      size: sign * totalSize,
+      left: sign * Math.max(totalSize - filledSize, 0),
+      price: toNumber(order.px),
+      fillPrice: toNumber(order.avgPx),
+      status,
+      reduceOnly: order.reduceOnly === "true" || order.reduceOnly === true,
+      createTime: toNumber(order.cTime) / 1000,
+      finishTime: status !== "open" && updateTime > 0 ? updateTime : undefined,
+    };
+  }
+
+  /**
+   * 转换为统一合约规格模型
+   */
+  private toContractSpec(info: any): ContractSpec {
+    return {
+      name: this.toGateContract(info.instId),
+      orderSizeMin: toNumber(info.minSz, 1),
+      orderSizeMax: toNumber(info.maxLmtSz, 1000000),
+      quantoMultiplier: toNumber(info.ctVal, 0.01), // 合约乘数（1 张对应的币数）
+      lotSize: toNumber(info.lotSz, 1), // 下单数量精度
+      orderPriceRound: toNumber(info.tickSz, 0.0001), // 价格精度
+      minNotional: 0,
+      leverageMin: 1,
+      leverageMax: toNumber(info.lever),
+      inDelisting: info.state === "suspend" || !!info.expTime,
+    };
+  }
+
+  /**
+   * 获取合约ticker价格
    * 优先使用 WebSocket，失败时降级到 REST API
    */
-  async getFuturesTicker(contract: string, retries: number = 2): Promise<any> {
+  async getFuturesTicker(contract: string): Promise<Ticker> {
     const instId = this.toOkxContract(contract);
     
     // 尝试使用 WebSocket
@@ -217,17 +350,7 @@ export class OkxClient {
         }
         
         if (ticker) {
-          // 转换为 Gate 格式的返回值
-          return {
-            contract,
-            last: ticker.last,
-            markPrice: ticker.idxPx, // OKX 使用 idxPx 作为指数价格
-            indexPrice: ticker.idxPx,
-            high24h: ticker.high24h,
-            low24h: ticker.low24h,
-            volume24h: ticker.vol24h,
-            changePercentage: ((parseFloat(ticker.last) - parseFloat(ticker.open24h)) / parseFloat(ticker.open24h) * 100).toFixed(2),
-          };
+          return this.toTicker(contract, ticker);
         }
       } catch (error) {
         logger.warn(`WebSocket 获取 ${contract} 价格失败，降级到 REST API:`, error);
@@ -235,232 +358,180 @@ export class OkxClient {
     }
     
     // 降级到 REST API
-    let lastError: any;
-    for (let i = 0; i <= retries; i++) {
-      try {
-        const data = await this.request("GET", "/api/v5/market/ticker", {
-          instId,
-        });
-        
-        if (!data || data.length === 0) {
-          throw new Error("No ticker data returned");
-        }
-        
-        const ticker = data[0];
-        
-        // 转换为 Gate 格式的返回值
-        return {
-          contract,
-          last: ticker.last,
-          markPrice: ticker.idxPx, // OKX 使用 idxPx 作为指数价格
-          indexPrice: ticker.idxPx,
-          high24h: ticker.high24h,
-          low24h: ticker.low24h,
-          volume24h: ticker.vol24h,
-          changePercentage: ((parseFloat(ticker.last) - parseFloat(ticker.open24h)) / parseFloat(ticker.open24h) * 100).toFixed(2),
-        };
-      } catch (error) {
-        lastError = error;
-        if (i < retries) {
-          logger.warn(`获取 ${contract} 价格失败，重试 ${i + 1}/${retries}...`);
-          await new Promise(resolve => setTimeout(resolve, 300 * (i + 1)));
-        }
-      }
+    const data = await this.request("GET", "/api/v5/market/ticker", {
+      instId,
+    });
+    
+    if (!data || data.length === 0) {
+      throw new Error("No ticker data returned");
     }
     
-    logger.error(`获取 ${contract} 价格失败（${retries}次重试）:`, lastError);
-    throw lastError;
+    return this.toTicker(contract, data[0]);
   }
 
   /**
-   * 获取合约K线数据（带重试机制）
+   * 获取合约K线数据
    * K线数据使用 REST API 获取，因为需要获取历史数据
    */
   async getFuturesCandles(
     contract: string,
     interval: string = "5m",
-    limit: number = 100,
-    retries: number = 2
-  ): Promise<any[]> {
+    limit: number = 100
+  ): Promise<Candle[]> {
     const instId = this.toOkxContract(contract);
     
-    // 转换时间周期格式: Gate (5m) -> OKX (5m)
-    // OKX 支持: 1m, 3m, 5m, 15m, 30m, 1H, 2H, 4H, 6H, 12H, 1D, 1W, 1M
-    let bar = interval;
-    if (interval === "1h") bar = "1H";
-    else if (interval === "4h") bar = "4H";
-    
     // K线数据直接使用 REST API，避免 WebSocket 复杂性
     // WebSocket 主要用于实时 ticker 推送
-    let lastError: any;
-    for (let i = 0; i <= retries; i++) {
-      try {
-        const data = await this.request("GET", "/api/v5/market/candles", {
-          instId,
-          bar,
-          limit: Math.min(limit, 300), // OKX 最大 300
-        });
-        
-        // OKX K线格式: [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
-        // 转换为 Gate 格式: {t, o, h, l, c, v, sum}
-        return data.map((candle: string[]) => ({
-          t: parseInt(candle[0]) / 1000, // OKX 返回毫秒时间戳
-          o: candle[1],
-          h: candle[2],
-          l: candle[3],
-          c: candle[4],
-          v: candle[5],
-          sum: candle[7], // volCcyQuote
-        })).reverse(); // OKX 返回倒序，需要反转
-      } catch (error) {
-        lastError = error;
-        if (i < retries) {
-          logger.warn(`获取 ${contract} K线数据失败，重试 ${i + 1}/${retries}...`);
-          await new Promise(resolve => setTimeout(resolve, 300 * (i + 1)));
+    const data = await this.request("GET", "/api/v5/market/candles", {
+      instId,
+      bar: toOkxBar(interval),
+      limit: Math.min(limit, 300), // OKX 最大 300
+    });
+    
+    return data.map(toOkxCandle).reverse(); // OKX 返回倒序，需要反转
+  }
+
+  /**
+   * 按时间范围获取K线
+   * 历史K线接口按时间倒序分页（after 返回早于该时间的K线），单次最多 100 根，这里逐页向前获取
+   */
+  async getCandlesRange(contract: string, interval: string, fromSec: number, toSec: number): Promise<Candle[]> {
+    const instId = this.toOkxContract(contract);
+    const bar = toOkxBar(interval);
+    const candles: Candle[] = [];
+    let after = (toSec + 1) * 1000;
+
+    while (after > fromSec * 1000) {
+      const data: string[][] = await this.request("GET", "/api/v5/market/history-candles", {
+        instId,
+        bar,
+        after: String(after),
+        limit: String(OKX_HISTORY_CANDLES_LIMIT),
+      });
+      if (!data || data.length === 0) {
+        break;
+      }
+      for (const candle of data.map(toOkxCandle)) {
+        if (candle.timestamp >= fromSec && candle.timestamp <= toSec) {
+          candles.push(candle);
         }
       }
+      if (data.length < OKX_HISTORY_CANDLES_LIMIT) {
+        break;
+      }
+      after = toNumber(data[data.length - 1][0]);
     }
-    
-    logger.error(`获取 ${contract} K线数据失败（${retries}次重试）:`, lastError);
-    throw lastError;
+
+    return candles.reverse();
   }
 
   /**
-   * 获取账户余额（带重试机制）
+   * 获取账户余额
    */
-  async getFuturesAccount(retries: number = 2): Promise<any> {
-    let lastError: any;
+  async getFuturesAccount(): Promise<Account> {
+    const data = await this.request("GET", "/api/v5/account/balance");
     
-    for (let i = 0; i <= retries; i++) {
-      try {
-        const data = await this.request("GET", "/api/v5/account/balance");
-        
-        if (!data || data.length === 0) {
-          throw new Error("No account data returned");
-        }
-        
-        const account = data[0];
-        const usdtDetail = account.details?.find((d: any) => d.ccy === "USDT");
-        
-        if (!usdtDetail) {
-          throw new Error("USDT account not found");
-        }
-        
-        // 转换为 Gate 格式
-        return {
-          currency: "USDT",
-          total: usdtDetail.eq, // 币种总权益
-          available: usdtDetail.availBal, // 可用保证金
-          positionMargin: usdtDetail.frozenBal, // 持仓占用保证金
-          orderMargin: usdtDetail.ordFrozen || "0", // 挂单占用保证金
-          unrealisedPnl: account.details.reduce((sum: number, d: any) => {
-            return sum + parseFloat(d.upl || "0");
-          }, 0).toString(),
-        };
-      } catch (error) {
-        lastError = error;
-        if (i < retries) {
-          logger.warn(`获取账户余额失败，重试 ${i + 1}/${retries}...`);
-          await new Promise(resolve => setTimeout(resolve, 300 * (i + 1)));
-        }
-      }
+    if (!data || data.length === 0) {
+      throw new Error("No account data returned");
+    }
+    
+    const account = data[0];
+    const usdtDetail = account.details?.find((d: any) => d.ccy === "USDT");
+    
+    if (!usdtDetail) {
+      throw new Error("USDT account not found");
     }
     
-    logger.error(`获取账户余额失败（${retries}次重试）:`, lastError);
-    throw lastError;
+    const unrealisedPnl = account.details.reduce((sum: number, d: any) => sum + toNumber(d.upl), 0);
+    return {
+      currency: "USDT",
+      // 币种总权益包含未实现盈亏，减去后与 Gate 口径一致
+      total: toNumber(usdtDetail.eq) - unrealisedPnl,
+      available: toNumber(usdtDetail.availBal), // 可用保证金
+      positionMargin: toNumber(usdtDetail.frozenBal), // 持仓占用保证金
+      orderMargin: toNumber(usdtDetail.ordFrozen), // 挂单占用保证金
+      unrealisedPnl,
+    };
   }
 
   /**
-   * 获取当前持仓（带重试机制，只返回允许的币种）
+   * 获取当前持仓（只返回允许的币种）
    */
-  async getPositions(retries: number = 2): Promise<any[]> {
-    let lastError: any;
+  async getPositions(): Promise<Position[]> {
+    const data = await this.request("GET", "/api/v5/account/positions", {
+      instType: "SWAP",
+    });
     
-    for (let i = 0; i <= retries; i++) {
-      try {
-        const data = await this.request("GET", "/api/v5/account/positions", {
-          instType: "SWAP",
-        });
-        
-        // 过滤：只保留允许的币种
-        const allowedSymbols = RISK_PARAMS.TRADING_SYMBOLS;
+    // 过滤：只保留允许的币种
+    const allowedSymbols = RISK_PARAMS.TRADING_SYMBOLS;
+    
+    // 记录原始持仓数据（用于调试）
+    if (data && data.length > 0) {
+      logger.info(`OKX 原始持仓数据 (${data.length} 个):`, 
+        data.slice(0, 3).map((p: any) => ({
+          instId: p.instId,
+          pos: p.pos,
+          posSide: p.posSide,
+          avgPx: p.avgPx,
+          notionalUsd: p.notionalUsd,
+          margin: p.margin,
+          lever: p.lever,
+        }))
+      );
+    }
+    
+    const filteredPositions = data
+      ?.filter((p: any) => {
+        const gateContract = this.toGateContract(p.instId);
+        const symbol = gateContract.split("_")[0];
+        return symbol && allowedSymbols.includes(symbol) && parseFloat(p.pos || "0") !== 0;
+      })
+      .map((p: any) => {
+        const gateContract = this.toGateContract(p.instId);
         
-        // 记录原始持仓数据（用于调试）
-        if (data && data.length > 0) {
-          logger.info(`OKX 原始持仓数据 (${data.length} 个):`, 
-            data.slice(0, 3).map((p: any) => ({
-              instId: p.instId,
-              pos: p.pos,
-              posSide: p.posSide,
-              avgPx: p.avgPx,
-              notionalUsd: p.notionalUsd,
-              margin: p.margin,
-              lever: p.lever,
-            }))
-          );
+        // OKX 使用双向持仓模式
+        // posSide: long/short/net
+        // pos: 持仓数量（双向持仓为正数，单向持仓带符号）
+        // 转换为带符号的 size（正数=多，负数=空）
+        let size = toNumber(p.pos);
+        if (p.posSide === "short") {
+          size = -Math.abs(size);
         }
         
-        const filteredPositions = data
-          ?.filter((p: any) => {
-            const gateContract = this.toGateContract(p.instId);
-            const symbol = gateContract.split("_")[0];
-            return symbol && allowedSymbols.includes(symbol) && parseFloat(p.pos || "0") !== 0;
-          })
-          .map((p: any) => {
-            const gateContract = this.toGateContract(p.instId);
-            
-            // OKX 使用双向持仓模式
-            // posSide: long/short/net
-            // pos: 持仓数量（正数）
-            // 转换为 Gate 格式的 size（正数=多，负数=空）
-            let size = parseFloat(p.pos || "0");
-            if (p.posSide === "short") {
-              size = -size;
-            }
-            
-            // 计算开仓价值（保证金）
-            // OKX: notionalUsd = 持仓价值（USD）, margin = 保证金余额
-            // 保证金 = 持仓价值 / 杠杆
-            const notionalUsd = parseFloat(p.notionalUsd || "0");
-            const leverage = parseFloat(p.lever || "1");
-            const marginValue = notionalUsd / leverage;
-            
-            const result = {
-              contract: gateContract,
-              size: size.toString(),
-              leverage: p.lever,
-              entryPrice: p.avgPx,
-              markPrice: p.markPx,
-              liqPrice: p.liqPx || "0",
-              unrealisedPnl: p.upl,
-              realisedPnl: p.realizedPnl || "0",
-              margin: marginValue.toString(), // 使用计算的保证金
-              notionalUsd: p.notionalUsd, // 持仓价值（USD）
-            };
-            
-            // 记录转换后的数据
-            logger.debug(`持仓转换: ${gateContract}`, {
-              原始notionalUsd: p.notionalUsd,
-              杠杆: leverage,
-              计算保证金: marginValue,
-              未实现盈亏: p.upl,
-            });
-            
-            return result;
-          }) || [];
+        // 计算开仓价值（保证金）
+        // OKX: notionalUsd = 持仓价值（USD）, margin = 保证金余额
+        // 保证金 = 持仓价值 / 杠杆
+        const notionalUsd = toNumber(p.notionalUsd);
+        const leverage = toNumber(p.lever, 1);
+        const marginValue = notionalUsd / leverage;
+        const openTime = toNumber(p.cTime) / 1000;
         
-        return filteredPositions;
-      } catch (error) {
-        lastError = error;
-        if (i < retries) {
-          logger.warn(`获取持仓失败，重试 ${i + 1}/${retries}...`);
-          await new Promise(resolve => setTimeout(resolve, 300 * (i + 1)));
-        }
-      }
-    }
+        const result: Position = {
+          contract: gateContract,
+          size,
+          leverage,
+          entryPrice: toNumber(p.avgPx),
+          markPrice: toNumber(p.markPx),
+          liqPrice: toNumber(p.liqPx),
+          unrealisedPnl: toNumber(p.upl),
+          realisedPnl: toNumber(p.realizedPnl),
+          margin: marginValue, // 使用计算的保证金
+          notional: notionalUsd, // 持仓价值（USD）
+          openTime: openTime > 0 ? openTime : undefined,
+        };
+        
+        // 记录转换后的数据
+        logger.debug(`持仓转换: ${gateContract}`, {
+          原始notionalUsd: p.notionalUsd,
+          杠杆: leverage,
+          计算保证金: marginValue,
+          未实现盈亏: p.upl,
+        });
+        
+        return result;
+      }) || [];
     
-    logger.error(`获取持仓失败（${retries}次重试）:`, lastError);
-    throw lastError;
+    return filteredPositions;
   }
 
   /**
@@ -504,10 +575,11 @@ export class OkxClient {
     price?: number;
     tif?: string;
     reduceOnly?: boolean;
+    closePosition?: boolean;
     autoSize?: string;
     stopLoss?: number;
     takeProfit?: number;
-  }): Promise<any> {
+  }): Promise<Order> {
     const instId = this.toOkxContract(params.contract);
     
     // 验证 size 参数
@@ -519,9 +591,10 @@ export class OkxClient {
       // 首次下单前确保持仓模式已设置（双向持仓）
       // 这个调用会被缓存，不会重复设置
       await this.setPositionMode("long_short_mode");
-      // 确定订单方向和持仓方向
+      // 确定订单方向和持仓方向（双向持仓按 posSide 平仓，closePosition 与 reduceOnly 都表示平仓）
+      const isClose = params.reduceOnly === true || params.closePosition === true;
       const side = params.size > 0 ? "buy" : "sell";
-      const posSide = params.reduceOnly 
+      const posSide = isClose
         ? (params.size > 0 ? "short" : "long") // 平仓时方向相反
         : (params.size > 0 ? "long" : "short"); // 开仓时方向一致
       
@@ -530,7 +603,8 @@ export class OkxClient {
       let px = "";
       
       if (params.price && params.price > 0) {
-        ordType = "limit";
+        // Gate 格式的 tif 转换为 OKX 订单类型
+        ordType = OKX_ORDER_TYPES[params.tif || "gtc"] || "limit";
         px = params.price.toString();
       }
       
@@ -544,7 +618,7 @@ export class OkxClient {
         sz: Math.abs(params.size).toString(),
       };
       
-      if (ordType === "limit") {
+      if (ordType !== "market") {
         order.px = px;
       }
       
@@ -559,6 +633,7 @@ export class OkxClient {
         size: params.size,
         price: params.price,
         reduceOnly: params.reduceOnly,
+        closePosition: params.closePosition,
         orderParams: order,
       });
       
@@ -580,13 +655,17 @@ export class OkxClient {
         throw new Error(`Order failed: ${result.sMsg} (code: ${result.sCode})`);
       }
       
-      // 转换为 Gate 格式
+      // 下单接口只返回订单ID，成交情况需要通过 getOrder 查询
       return {
         id: result.ordId,
         contract: params.contract,
         size: params.size,
+        left: params.size,
         price: params.price || 0,
+        fillPrice: 0,
         status: "open",
+        reduceOnly: isClose,
+        createTime: Math.floor(Date.now() / 1000),
       };
     } catch (error: any) {
       const errorMessage = error.message || "Unknown error";
@@ -600,9 +679,8 @@ export class OkxClient {
    * @param orderId 订单ID
    * @param contract 合约名称（可选）。如果提供，将直接查询；否则将遍历未完成订单和历史订单查找
    */
-  async getOrder(orderId: string, contract?: string): Promise<any> {
+  async getOrder(orderId: string, contract?: string): Promise<Order> {
     try {
-      let order: any = null;
       
       if (contract) {
         // 如果提供了合约名称，直接查询（OKX API 要求同时提供 instId 和 ordId）
@@ -615,64 +693,27 @@ export class OkxClient {
         if (!data || data.length === 0) {
           throw new Error("Order not found");
         }
-        order = data[0];
-      } else {
-        // 如果没有提供合约名称，先从未完成订单中查找
-        logger.debug(`未提供合约名称，从订单列表中查找订单 ${orderId}`);
-        
-        const openOrders = await this.getOpenOrders();
-        order = openOrders.find((o: any) => o.id === orderId);
-        
-        // 如果未完成订单中找不到，再从历史订单中查找（最近100条）
-        if (!order) {
-          logger.debug(`未完成订单中未找到，查询历史订单`);
-          const historyOrders = await this.getOrderHistory(undefined, 100);
-          order = historyOrders.find((o: any) => o.id === orderId);
-        }
-        
-        if (!order) {
-          throw new Error("Order not found in open orders or recent history");
-        }
-        
-        // 如果从列表中找到，已经是转换后的格式，直接返回
-        return order;
+        return this.toOrder(data[0]);
       }
-      
-      // 转换原始 OKX 订单格式为统一格式
-      const gateContract = this.toGateContract(order.instId);
-      
-      // OKX 订单状态: live, partially_filled, filled, canceled
-      let status = "open";
-      if (order.state === "filled") status = "finished";
-      else if (order.state === "canceled") status = "cancelled";
-      
-      // 计算已成交数量
-      const totalSize = parseFloat(order.sz || "0");
-      const filledSize = parseFloat(order.accFillSz || "0");
-      const leftSize = totalSize - filledSize;
-      
-      // 转换为 Gate 格式（带符号的 size）
-      let size = totalSize;
-      if (order.side === "sell") {
-        size = -size;
+
+      // 如果没有提供合约名称，先从未完成订单中查找
+      logger.debug(`未提供合约名称，从订单列表中查找订单 ${orderId}`);
+
+      const openOrders = await this.getOpenOrders();
+      let order = openOrders.find((o) => o.id === orderId);
+
+      // 如果未完成订单中找不到，再从历史订单中查找（最近100条）
+      if (!order) {
+        logger.debug(`未完成订单中未找到，查询历史订单`);
+        const historyOrders = await this.getOrderHistory(undefined, 100);
+        order = historyOrders.find((o) => o.id === orderId);
       }
-      
-      let left = leftSize;
-      if (order.side === "sell") {
-        left = -left;
+
+      if (!order) {
+        throw new Error("Order not found in open orders or recent history");
       }
-      
-      return {
-        id: order.ordId,
-        contract: gateContract,
-        size: size.toString(),
-        left: left.toString(),
-        price: order.px || "0",
-        fill_price: order.avgPx || "0",
-        status,
-        create_time: parseInt(order.cTime) / 1000,
-        finish_time: order.uTime ? parseInt(order.uTime) / 1000 : undefined,
-      };
+
+      return order;
     } catch (error: any) {
       logger.error(`获取订单 ${orderId} 详情失败:`, error);
       throw error;
@@ -682,7 +723,7 @@ export class OkxClient {
   /**
    * 取消订单
    */
-  async cancelOrder(orderId: string): Promise<any> {
+  async cancelOrder(orderId: string): Promise<void> {
     try {
       // 需要先获取订单信息以获取 instId
       const orderInfo = await this.getOrder(orderId);
@@ -702,11 +743,6 @@ export class OkxClient {
       if (result.sCode !== "0") {
         throw new Error(`Cancel failed: ${result.sMsg}`);
       }
-      
-      return {
-        id: result.ordId,
-        status: "cancelled",
-      };
     } catch (error: any) {
       logger.error(`取消订单 ${orderId} 失败:`, error);
       throw error;
@@ -716,7 +752,7 @@ export class OkxClient {
   /**
    * 获取未成交订单
    */
-  async getOpenOrders(contract?: string): Promise<any[]> {
+  async getOpenOrders(contract?: string): Promise<Order[]> {
     try {
       const params: any = {
         instType: "SWAP",
@@ -728,32 +764,112 @@ export class OkxClient {
       
       const data = await this.request("GET", "/api/v5/trade/orders-pending", params);
       
+      return (data || []).map((order: any) => this.toOrder(order));
+    } catch (error: any) {
+      logger.error("获取未成交订单失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 挂出止损/止盈策略委托（条件单）
+   * 触发后以市价平掉整个仓位（closeFraction=1），由交易所执行，不依赖本进程在线
+   */
+  async placeTriggerOrder(params: TriggerOrderParams): Promise<TriggerOrder> {
+    const instId = this.toOkxContract(params.contract);
+
+    try {
+      await this.setPositionMode("long_short_mode");
+
+      const order: any = {
+        instId,
+        tdMode: "cross",
+        side: params.side === "long" ? "sell" : "buy",
+        posSide: params.side,
+        ordType: "conditional",
+        closeFraction: "1",
+        reduceOnly: true,
+      };
+      // 委托价格 -1 表示触发后以市价成交，触发价格类型使用标记价格
+      if (params.kind === "stop_loss") {
+        order.slTriggerPx = params.triggerPrice.toString();
+        order.slOrdPx = "-1";
+        order.slTriggerPxType = "mark";
+      } else {
+        order.tpTriggerPx = params.triggerPrice.toString();
+        order.tpOrdPx = "-1";
+        order.tpTriggerPxType = "mark";
+      }
+
+      logger.info("OKX 挂出条件单:", order);
+      const data = await this.request("POST", "/api/v5/trade/order-algo", undefined, order);
+      const result = data?.[0];
+      if (!result || (result.sCode && result.sCode !== "0")) {
+        throw new Error(`Algo order failed: ${result?.sMsg || "No response"} (code: ${result?.sCode})`);
+      }
+
+      return {
+        id: result.algoId,
+        contract: params.contract,
+        side: params.side,
+        kind: params.kind,
+        triggerPrice: params.triggerPrice,
+        status: "open",
+      };
+    } catch (error: any) {
+      logger.error(`OKX 挂出 ${params.contract} 条件单失败:`, error.message);
+      throw new Error(`挂出条件单失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 撤销策略委托
+   */
+  async cancelTriggerOrder(orderId: string, contract: string): Promise<void> {
+    try {
+      const data = await this.request("POST", "/api/v5/trade/cancel-algos", undefined, [
+        { algoId: orderId, instId: this.toOkxContract(contract) },
+      ]);
+      const result = data?.[0];
+      if (result?.sCode && result.sCode !== "0") {
+        throw new Error(`Cancel failed: ${result.sMsg}`);
+      }
+    } catch (error: any) {
+      logger.error(`撤销条件单 ${orderId} 失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取未触发的策略委托（条件单）
+   */
+  async getTriggerOrders(contract?: string): Promise<TriggerOrder[]> {
+    try {
+      const params: any = {
+        ordType: "conditional",
+        instType: "SWAP",
+      };
+
+      if (contract) {
+        params.instId = this.toOkxContract(contract);
+      }
+
+      const data = await this.request("GET", "/api/v5/trade/orders-algo-pending", params);
+
       return (data || []).map((order: any) => {
-        const gateContract = this.toGateContract(order.instId);
-        
-        let size = parseFloat(order.sz || "0");
-        if (order.side === "sell") {
-          size = -size;
-        }
-        
-        let left = parseFloat(order.sz || "0") - parseFloat(order.accFillSz || "0");
-        if (order.side === "sell") {
-          left = -left;
-        }
-        
+        const isStopLoss = !!order.slTriggerPx;
         return {
-          id: order.ordId,
-          contract: gateContract,
-          size: size.toString(),
-          left: left.toString(),
-          price: order.px || "0",
+          id: order.algoId,
+          contract: this.toGateContract(order.instId),
+          side: order.posSide === "short" ? "short" : "long",
+          kind: isStopLoss ? "stop_loss" : "take_profit",
+          triggerPrice: toNumber(isStopLoss ? order.slTriggerPx : order.tpTriggerPx),
           status: "open",
-          is_reduce_only: order.reduceOnly === "true",
-          create_time: parseInt(order.cTime) / 1000,
+          createTime: toNumber(order.cTime) / 1000,
         };
       });
     } catch (error: any) {
-      logger.error("获取未成交订单失败:", error);
+      logger.error("获取条件单失败:", error);
       throw error;
     }
   }
@@ -761,7 +877,7 @@ export class OkxClient {
   /**
    * 设置仓位杠杆
    */
-  async setLeverage(contract: string, leverage: number): Promise<any> {
+  async setLeverage(contract: string, leverage: number): Promise<void> {
     try {
       const instId = this.toOkxContract(contract);
       
@@ -782,20 +898,15 @@ export class OkxClient {
       if (result.sCode !== "0") {
         throw new Error(`Set leverage failed: ${result.sMsg}`);
       }
-      
-      return {
-        leverage: result.lever,
-      };
     } catch (error: any) {
       logger.warn(`设置 ${contract} 杠杆失败（可能已有持仓）:`, error.message);
-      return null;
     }
   }
 
   /**
    * 获取资金费率
    */
-  async getFundingRate(contract: string): Promise<any> {
+  async getFundingRate(contract: string): Promise<FundingRate> {
     try {
       const instId = this.toOkxContract(contract);
       
@@ -810,8 +921,9 @@ export class OkxClient {
       const fundingRate = data[0];
       
       return {
-        r: fundingRate.fundingRate,
-        t: parseInt(fundingRate.fundingTime) / 1000,
+        contract,
+        rate: toNumber(fundingRate.fundingRate),
+        time: toNumber(fundingRate.fundingTime) / 1000,
       };
     } catch (error: any) {
       logger.error(`获取 ${contract} 资金费率失败:`, error);
@@ -822,7 +934,7 @@ export class OkxClient {
   /**
    * 获取合约信息（包含持仓量等）
    */
-  async getContractInfo(contract: string): Promise<any> {
+  async getContractInfo(contract: string): Promise<ContractSpec> {
     try {
       const instId = this.toOkxContract(contract);
       
@@ -835,16 +947,7 @@ export class OkxClient {
         throw new Error("Contract not found");
       }
       
-      const info = data[0];
-      
-      // 转换为 Gate 格式
-      return {
-        name: contract,
-        orderSizeMin: parseFloat(info.minSz || "1"),
-        orderSizeMax: parseFloat(info.maxLmtSz || "1000000"),
-        quantoMultiplier: parseFloat(info.ctVal || "0.01"), // 合约乘数（使用驼峰命名与 Gate 保持一致）
-        lotSize: parseFloat(info.lotSz || "1"), // 下单数量精度
-      };
+      return this.toContractSpec(data[0]);
     } catch (error: any) {
       logger.error(`获取 ${contract} 合约信息失败:`, error);
       throw error;
@@ -854,7 +957,7 @@ export class OkxClient {
   /**
    * 获取所有合约列表
    */
-  async getAllContracts(): Promise<any[]> {
+  async getAllContracts(): Promise<ContractSpec[]> {
     try {
       const data = await this.request("GET", "/api/v5/public/instruments", {
         instType: "SWAP",
@@ -862,15 +965,7 @@ export class OkxClient {
       
       return (data || [])
         .filter((inst: any) => inst.instId.endsWith("-USDT-SWAP"))
-        .map((inst: any) => {
-          const gateContract = this.toGateContract(inst.instId);
-          return {
-            name: gateContract,
-            orderSizeMin: parseFloat(inst.minSz || "1"),
-            orderSizeMax: parseFloat(inst.maxLmtSz || "1000000"),
-            lotSize: parseFloat(inst.lotSz || "1"),
-          };
-        });
+        .map((inst: any) => this.toContractSpec(inst));
     } catch (error: any) {
       logger.error("获取合约列表失败:", error);
       throw error;
@@ -880,7 +975,7 @@ export class OkxClient {
   /**
    * 获取订单簿
    */
-  async getOrderBook(contract: string, limit: number = 10): Promise<any> {
+  async getOrderBook(contract: string, limit: number = 10): Promise<OrderBook> {
     try {
       const instId = this.toOkxContract(contract);
       
@@ -896,15 +991,14 @@ export class OkxClient {
       const book = data[0];
       
       // OKX 格式: [price, size, deprecated, orders]
-      // 转换为 Gate 格式: {p: price, s: size}
       return {
         bids: (book.bids || []).map((bid: string[]) => ({
-          p: bid[0],
-          s: bid[1],
+          price: toNumber(bid[0]),
+          size: toNumber(bid[1]),
         })),
         asks: (book.asks || []).map((ask: string[]) => ({
-          p: ask[0],
-          s: ask[1],
+          price: toNumber(ask[0]),
+          size: toNumber(ask[1]),
         })),
       };
     } catch (error: any) {
@@ -916,7 +1010,7 @@ export class OkxClient {
   /**
    * 获取历史成交记录（我的成交）
    */
-  async getMyTrades(contract?: string, limit: number = 10): Promise<any[]> {
+  async getMyTrades(contract?: string, limit: number = 10): Promise<Fill[]> {
     try {
       const params: any = {
         instType: "SWAP",
@@ -929,18 +1023,17 @@ export class OkxClient {
       
       const data = await this.request("GET", "/api/v5/trade/fills", params);
       
-      return (data || []).map((trade: any) => {
-        const gateContract = this.toGateContract(trade.instId);
-        return {
-          contract: gateContract,
-          id: trade.tradeId,
-          order_id: trade.ordId,
-          size: trade.side === "sell" ? `-${trade.fillSz}` : trade.fillSz,
-          price: trade.fillPx,
-          fee: trade.fee,
-          time: parseInt(trade.ts) / 1000,
-        };
-      });
+      return (data || []).map((trade: any): Fill => ({
+        contract: this.toGateContract(trade.instId),
+        id: trade.tradeId,
+        orderId: trade.ordId,
+        size: (trade.side === "sell" ? -1 : 1) * toNumber(trade.fillSz),
+        price: toNumber(trade.fillPx),
+        // OKX 手续费支出为负数
+        fee: -toNumber(trade.fee),
+        role: trade.execType === "M" ? "maker" : "taker",
+        time: toNumber(trade.ts) / 1000,
+      }));
     } catch (error: any) {
       logger.error("获取我的历史成交记录失败:", error);
       throw error;
@@ -950,7 +1043,7 @@ export class OkxClient {
   /**
    * 获取历史仓位记录（已平仓的仓位结算记录）
    */
-  async getPositionHistory(contract?: string, limit: number = 100, offset: number = 0): Promise<any[]> {
+  async getPositionHistory(contract?: string, limit: number = 100, offset: number = 0): Promise<ClosedPosition[]> {
     try {
       const params: any = {
         instType: "SWAP",
@@ -964,15 +1057,18 @@ export class OkxClient {
       // OKX 使用 positions-history API
       const data = await this.request("GET", "/api/v5/account/positions-history", params);
       
-      return (data || []).map((pos: any) => {
-        const gateContract = this.toGateContract(pos.instId);
-        return {
-          contract: gateContract,
-          size: pos.posSide === "short" ? `-${pos.closeAvgPx}` : pos.closeAvgPx,
-          pnl: pos.pnl,
-          close_time: parseInt(pos.uTime) / 1000,
-        };
-      });
+      return (data || []).map((pos: any): ClosedPosition => ({
+        contract: this.toGateContract(pos.instId),
+        side: pos.direction === "short" || pos.posSide === "short" ? "short" : "long",
+        size: toNumber(pos.closeTotalPos),
+        entryPrice: toNumber(pos.openAvgPx),
+        closePrice: toNumber(pos.closeAvgPx),
+        pnl: toNumber(pos.realizedPnl ?? pos.pnl),
+        // OKX 手续费支出为负数
+        fee: -toNumber(pos.fee),
+        time: toNumber(pos.uTime) / 1000,
+        type: pos.type === "3" || pos.type === "4" ? "liquidation" : "close",
+      }));
     } catch (error: any) {
       logger.error("获取历史仓位记录失败:", error);
       throw error;
@@ -982,7 +1078,7 @@ export class OkxClient {
   /**
    * 获取历史结算记录（更详细的历史仓位信息）
    */
-  async getSettlementHistory(contract?: string, limit: number = 100, offset: number = 0): Promise<any[]> {
+  async getSettlementHistory(contract?: string, limit: number = 100, offset: number = 0): Promise<ClosedPosition[]> {
     // OKX 没有单独的结算历史API，使用仓位历史代替
     return this.getPositionHistory(contract, limit, offset);
   }
@@ -990,7 +1086,7 @@ export class OkxClient {
   /**
    * 获取已完成的订单历史
    */
-  async getOrderHistory(contract?: string, limit: number = 10): Promise<any[]> {
+  async getOrderHistory(contract?: string, limit: number = 10): Promise<Order[]> {
     try {
       const params: any = {
         instType: "SWAP",
@@ -1004,25 +1100,7 @@ export class OkxClient {
       
       const data = await this.request("GET", "/api/v5/trade/orders-history", params);
       
-      return (data || []).map((order: any) => {
-        const gateContract = this.toGateContract(order.instId);
-        
-        let size = parseFloat(order.sz || "0");
-        if (order.side === "sell") {
-          size = -size;
-        }
-        
-        return {
-          id: order.ordId,
-          contract: gateContract,
-          size: size.toString(),
-          price: order.px || "0",
-          fill_price: order.avgPx || "0",
-          status: "finished",
-          create_time: parseInt(order.cTime) / 1000,
-          finish_time: parseInt(order.uTime) / 1000,
-        };
-      });
+      return (data || []).map((order: any) => this.toOrder(order));
     } catch (error: any) {
       logger.error("获取订单历史失败:", error);
       throw error;
@@ -0,0 +1,416 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 订单执行 - 市价、限价、只做 maker（post-only）、IOC、FOK 订单的统一执行
+ *
+ * - limit / post_only：按盘口挂单（买单挂买一价，卖单挂卖一价），每隔追价间隔检查一次，
+ *   未完全成交则撤单并按最新盘口重新挂单（追价），超时后撤单
+ * - ioc / fok：按对手价下单，不能立即成交的部分由交易所撤销
+ * - 超时仍未成交的部分可选择以市价补齐（fallbackToMarket）
+ * - 市价单下单前按订单簿估算成交价和滑点（见 slippageGuard），超过阈值时拆分或拒绝
+ *
+ * 等待轮数按次数计算而不是按时间计算，回测的模拟时钟下同样可以正常结束
+ * 撤单后无法确认订单最终状态时停止追价且不以市价补齐，避免对可能仍在挂单的数量重复下单
+ */
+import { getStrategyParams, getTradingStrategy } from "../agents/tradingAgent";
+import { ORDER_TYPES, type OrderType } from "../strategies/types";
+import { roundToPriceTick } from "../utils/contractUtils";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import {
+  type IExchangeClient,
+  type Order,
+  createExchangeClient,
+  getCloseOrderFlags,
+  getExchangeDisplayName,
+  isOrderTypeSupported,
+} from "./exchangeClient";
+import { getRequestPriority, runWithRequestPriority } from "./rateLimiter";
+import { calculateSlippagePercent, getSlippageGuardOptions, planMarketOrder } from "./slippageGuard";
+
+const logger = createLogger({
+  name: "order-execution",
+  level: "info",
+});
+
+/** 订单类型对应的 time-in-force（Gate 格式，各交易所客户端负责转换） */
+const ORDER_TYPE_TIF: Record<OrderType, string> = {
+  market: "ioc",
+  limit: "gtc",
+  post_only: "poc",
+  ioc: "ioc",
+  fok: "fok",
+};
+
+/** 查询挂单状态的间隔（秒） */
+const POLL_INTERVAL_SECONDS = 2;
+
+/**
+ * 限价单执行配置
+ */
+export interface OrderExecutionOptions {
+  /** 限价单最长等待时间（秒），超时撤单 */
+  timeoutSeconds: number;
+  /** 追价间隔（秒），0 表示不追价，挂单等待到超时 */
+  chaseIntervalSeconds: number;
+  /** 超时未成交的部分是否以市价补齐 */
+  fallbackToMarket: boolean;
+}
+
+/**
+ * 市价单的预估成交价与实际成交价
+ */
+export interface ExecutionSlippage {
+  /** 下单前的盘口中间价（滑点基准） */
+  midPrice: number;
+  expectedPrice: number;
+  expectedSlippagePercent: number;
+  /** 实际滑点（%，不利方向为正），未成交时为 0 */
+  actualSlippagePercent: number;
+  spreadPercent: number;
+  /** 拆分的笔数 */
+  slices: number;
+  warnings: string[];
+}
+
+/**
+ * 订单执行结果
+ */
+export interface OrderExecutionResult {
+  /** 最后一笔订单 */
+  order: Order | null;
+  /** 执行过程中下达的全部订单ID */
+  orderIds: string[];
+  orderType: OrderType;
+  /** 累计成交张数（绝对值） */
+  filledSize: number;
+  /** 成交均价，未成交时为 0 */
+  fillPrice: number;
+  /** 是否全部成交（存在最终状态未确认的订单时为 false） */
+  complete: boolean;
+  /** 市价单的滑点记录（未获取到订单簿或非市价单时为空） */
+  slippage?: ExecutionSlippage;
+  /** 滑点保护拒绝市价下单的原因 */
+  rejectReason?: string;
+}
+
+/**
+ * 从环境变量读取限价单执行配置
+ */
+export function getOrderExecutionOptions(): OrderExecutionOptions {
+  return {
+    timeoutSeconds: Number.parseFloat(process.env.LIMIT_ORDER_TIMEOUT_SECONDS || "60"),
+    chaseIntervalSeconds: Number.parseFloat(process.env.LIMIT_ORDER_CHASE_INTERVAL_SECONDS || "15"),
+    fallbackToMarket: process.env.LIMIT_ORDER_FALLBACK_TO_MARKET === "true",
+  };
+}
+
+/**
+ * 确定订单类型：调用方指定 > 环境变量 DEFAULT_ORDER_TYPE > 策略配置 orderType > 市价单
+ * 当前交易所不支持的订单类型改用市价单（开仓工具会先拒绝 AI 明确指定的不支持类型）
+ */
+export function resolveOrderType(requested?: OrderType): OrderType {
+  const orderType = requested || getDefaultOrderType();
+  if (orderType !== "market" && !isOrderTypeSupported(orderType)) {
+    logger.warn(`${getExchangeDisplayName()} 不支持 ${orderType} 订单，改用市价单`);
+    return "market";
+  }
+  return orderType;
+}
+
+/**
+ * 未指定订单类型时使用的默认类型
+ */
+function getDefaultOrderType(): OrderType {
+  const fromEnv = process.env.DEFAULT_ORDER_TYPE as OrderType | undefined;
+  if (fromEnv && ORDER_TYPES.includes(fromEnv)) {
+    return fromEnv;
+  }
+
+  try {
+    const params = getStrategyParams(getTradingStrategy());
+    if (params.orderType) {
+      return params.orderType;
+    }
+  } catch (error) {
+    logger.warn(`读取策略订单类型失败，使用市价单: ${getErrorMessage(error)}`);
+  }
+
+  return "market";
+}
+
+/**
+ * 根据盘口确定挂单价格
+ * - limit / post_only：买单挂买一价，卖单挂卖一价（排队做 maker）
+ * - ioc / fok：买单取卖一价，卖单取买一价（立即吃单）
+ */
+async function getBookPrice(client: IExchangeClient, contract: string, isBuy: boolean, orderType: OrderType): Promise<number> {
+  const passive = orderType === "limit" || orderType === "post_only";
+  try {
+    const book = await client.getOrderBook(contract, 1);
+    const bestBid = book.bids[0]?.price ?? 0;
+    const bestAsk = book.asks[0]?.price ?? 0;
+    const price = isBuy === passive ? bestBid : bestAsk;
+    if (price > 0) {
+      return price;
+    }
+  } catch (error) {
+    logger.warn(`获取 ${contract} 盘口失败，使用最新价: ${getErrorMessage(error)}`);
+  }
+
+  const ticker = await client.getFuturesTicker(contract);
+  return ticker.last || ticker.markPrice;
+}
+
+/**
+ * 读取订单的成交数量和成交价格
+ */
+function readFill(order: Order): { filled: number; price: number } {
+  return { filled: Math.max(Math.abs(order.size) - Math.abs(order.left), 0), price: order.fillPrice };
+}
+
+/**
+ * 轮询订单直到结束（成交或撤销），最多 polls 次
+ */
+async function waitForOrder(client: IExchangeClient, order: Order, contract: string, polls: number): Promise<Order> {
+  let latest = order;
+  for (let i = 0; i < polls; i++) {
+    if (latest.status !== "open") {
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_SECONDS * 1000));
+    try {
+      latest = await client.getOrder(String(order.id), contract);
+    } catch (error) {
+      logger.warn(`查询订单 ${order.id} 状态失败: ${getErrorMessage(error)}`);
+    }
+  }
+  return latest;
+}
+
+/**
+ * 撤销未完成的订单并返回最终状态（撤单时订单可能恰好成交）
+ * 无法确认订单已结束（查询失败或撤单后仍在挂单）时返回 null
+ */
+async function cancelAndRefresh(client: IExchangeClient, order: Order, contract: string): Promise<Order | null> {
+  try {
+    await client.cancelOrder(String(order.id));
+  } catch (error) {
+    logger.warn(`撤销订单 ${order.id} 失败（可能已成交）: ${getErrorMessage(error)}`);
+  }
+  try {
+    const latest = await client.getOrder(String(order.id), contract);
+    if (latest.status !== "open") {
+      return latest;
+    }
+    logger.warn(`订单 ${order.id} 撤单后仍在挂单`);
+  } catch (error) {
+    logger.warn(`查询订单 ${order.id} 最终状态失败: ${getErrorMessage(error)}`);
+  }
+  return null;
+}
+
+/**
+ * 执行订单
+ * @param params.size 张数，正数买入，负数卖出
+ * @param params.price 首次挂单价格（不填则按盘口定价），追价时按最新盘口重新定价
+ * @param params.reduceOnly 平仓订单，下单时按交易所持仓模式转换为 reduceOnly 或 closePosition（getCloseOrderFlags）
+ * @param params.onOrderPlaced 每笔订单下达后的回调（如记录订单ID，进程中断后用于核对）
+ */
+export async function executeOrder(params: {
+  contract: string;
+  size: number;
+  orderType?: OrderType;
+  price?: number;
+  reduceOnly?: boolean;
+  options?: Partial<OrderExecutionOptions>;
+  onOrderPlaced?: (orderId: string) => Promise<void> | void;
+}): Promise<OrderExecutionResult> {
+  // 只减仓订单（平仓、止损、分批止盈）的盘口查询、下单和成交查询都按平仓优先级排队
+  if (params.reduceOnly && getRequestPriority() !== "close") {
+    return runWithRequestPriority("close", () => executeOrder(params));
+  }
+
+  const client = createExchangeClient();
+  const orderType = params.orderType || "market";
+  const options = { ...getOrderExecutionOptions(), ...params.options };
+  const { contract } = params;
+  const isBuy = params.size > 0;
+  const sign = isBuy ? 1 : -1;
+  const totalSize = Math.abs(params.size);
+  const closeFlags = params.reduceOnly ? getCloseOrderFlags() : {};
+
+  const orderIds: string[] = [];
+  let order: Order | null = null;
+  let filledSize = 0;
+  let filledValue = 0;
+  let slippage: ExecutionSlippage | undefined;
+  let rejectReason: string | undefined;
+  // 存在最终状态未确认的订单（可能仍在挂单或已成交），不能再按剩余数量下单
+  let unconfirmed = false;
+
+  // 避免小数张数（OKX）累加产生浮点误差
+  const remainingSize = () => Number((totalSize - filledSize).toFixed(8));
+  const placed = async (placedOrder: Order) => {
+    orderIds.push(String(placedOrder.id));
+    if (params.onOrderPlaced) {
+      try {
+        await params.onOrderPlaced(String(placedOrder.id));
+      } catch (error) {
+        logger.warn(`${contract} 订单 ${placedOrder.id} 回调失败: ${getErrorMessage(error)}`);
+      }
+    }
+  };
+  const record = (finalOrder: Order) => {
+    const { filled, price } = readFill(finalOrder);
+    if (filled > 0) {
+      filledSize += filled;
+      filledValue += filled * (price > 0 ? price : finalOrder.price);
+    }
+  };
+
+  // 市价单按滑点保护的执行计划下单（可能拆分为多笔），返回是否已下单
+  const executeMarket = async (size: number): Promise<boolean> => {
+    const plan = await planMarketOrder(contract, size, params.reduceOnly);
+    for (const warning of plan.warnings) {
+      logger.warn(warning);
+    }
+    if (!plan.approved) {
+      rejectReason = plan.reason;
+      logger.warn(`滑点保护拒绝下单: ${plan.reason}`);
+      return false;
+    }
+
+    const filledBefore = filledSize;
+    const valueBefore = filledValue;
+    const { sliceIntervalSeconds } = getSlippageGuardOptions();
+    for (let i = 0; i < plan.slices.length; i++) {
+      if (i > 0) {
+        await new Promise(resolve => setTimeout(resolve, sliceIntervalSeconds * 1000));
+      }
+      try {
+        order = await client.placeOrder({ contract, size: plan.slices[i], price: 0, ...closeFlags });
+      } catch (error) {
+        // 首单失败直接抛出，拆分过程中的失败保留已成交部分
+        if (orderIds.length === 0) {
+          throw error;
+        }
+        logger.warn(`${contract} 拆分下单第 ${i + 1}/${plan.slices.length} 笔失败，停止下单: ${getErrorMessage(error)}`);
+        break;
+      }
+      await placed(order);
+      if (plan.slices.length > 1) {
+        logger.info(`${contract} 拆分下单 ${i + 1}/${plan.slices.length}: ${plan.slices[i]} 张`);
+      }
+      order = await waitForOrder(client, order, contract, 3);
+      record(order);
+    }
+
+    if (plan.estimate) {
+      const { midPrice, expectedPrice, slippagePercent, spreadPercent, isBuy } = plan.estimate;
+      const marketFilled = filledSize - filledBefore;
+      const price = marketFilled > 0 ? (filledValue - valueBefore) / marketFilled : 0;
+      slippage = {
+        midPrice,
+        expectedPrice,
+        expectedSlippagePercent: slippagePercent,
+        actualSlippagePercent: calculateSlippagePercent(price, midPrice, isBuy),
+        spreadPercent,
+        slices: plan.slices.length,
+        warnings: plan.warnings,
+      };
+      if (price > 0) {
+        logger.info(`${contract} 市价成交均价 ${price}（预估 ${expectedPrice}），实际滑点 ${slippage.actualSlippagePercent.toFixed(3)}%，预估 ${slippagePercent.toFixed(3)}%`);
+      }
+    }
+    return true;
+  };
+
+  if (orderType === "market") {
+    await executeMarket(params.size);
+  } else {
+    const immediate = orderType === "ioc" || orderType === "fok";
+    const chase = !immediate && options.chaseIntervalSeconds > 0;
+    const roundSeconds = chase ? options.chaseIntervalSeconds : options.timeoutSeconds;
+    const rounds = chase ? Math.max(1, Math.ceil(options.timeoutSeconds / options.chaseIntervalSeconds)) : 1;
+    const polls = immediate ? 1 : Math.max(1, Math.ceil(roundSeconds / POLL_INTERVAL_SECONDS));
+
+    for (let round = 0; round < rounds && remainingSize() > 0; round++) {
+      const remaining = remainingSize();
+      const rawPrice = round === 0 && params.price && params.price > 0
+        ? params.price
+        : await getBookPrice(client, contract, isBuy, orderType);
+      const price = await roundToPriceTick(contract, rawPrice);
+
+      try {
+        order = await client.placeOrder({
+          contract,
+          size: sign * remaining,
+          price,
+          tif: ORDER_TYPE_TIF[orderType],
+          ...closeFlags,
+        });
+      } catch (error) {
+        // 首单失败直接抛出，追价过程中的失败结束追价
+        if (orderIds.length === 0) {
+          throw error;
+        }
+        logger.warn(`${contract} 追价下单失败，停止追价: ${getErrorMessage(error)}`);
+        break;
+      }
+      await placed(order);
+      logger.info(`${contract} ${orderType} 订单已下达: ${sign * remaining} 张 @ ${price}${round > 0 ? `（第 ${round} 次追价）` : ""}`);
+
+      order = await waitForOrder(client, order, contract, polls);
+      if (order?.status === "open") {
+        const finalOrder = await cancelAndRefresh(client, order, contract);
+        if (!finalOrder) {
+          unconfirmed = true;
+          record(order);
+          logger.error(`${contract} 订单 ${order.id} 最终状态未确认，停止追价，请核对交易所挂单和持仓`);
+          break;
+        }
+        order = finalOrder;
+      }
+      record(order);
+    }
+
+    const remaining = remainingSize();
+    if (remaining > 0 && options.fallbackToMarket && !unconfirmed) {
+      logger.warn(`${contract} ${orderType} 订单超时未完全成交，剩余 ${remaining} 张以市价补齐`);
+      await executeMarket(sign * remaining);
+    }
+  }
+
+  const fillPrice = filledSize > 0 ? filledValue / filledSize : 0;
+  if (orderType !== "market") {
+    logger.info(`${contract} ${orderType} 执行完成: 成交 ${filledSize}/${totalSize} 张${filledSize > 0 ? `，均价 ${fillPrice}` : ""}，共 ${orderIds.length} 笔订单`);
+  }
+
+  return {
+    order,
+    orderIds,
+    orderType,
+    filledSize,
+    fillPrice,
+    complete: !unconfirmed && remainingSize() <= 0,
+    slippage,
+    rejectReason,
+  };
+}
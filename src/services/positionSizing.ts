@@ -0,0 +1,340 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 开仓仓位计算服务
+ *
+ * 开仓前统一计算最终的开仓金额（保证金）和杠杆，依次应用：
+ * 1. 账户回撤保护（缩减仓位或禁止开仓）
+ * 2. 低流动性时段和周末的仓位系数
+ * 3. 策略的波动率调整系数（volatilityAdjustment，基于共享的 ATR）
+ * 4. 策略的总保证金预算（maxTotalMarginPercent）
+ * 5. 总名义敞口上限（账户净值 × MAX_LEVERAGE）
+ *
+ * 账户净值包含未实现盈亏（getAccountEquity），持仓浮亏时预算和敞口上限随之收紧
+ *
+ * 每一步调整都记录在返回结果中，由开仓工具返回给 AI。
+ */
+import { RISK_PARAMS } from "../config/riskParams";
+import type { StrategyParams } from "../strategies/types";
+import { getQuantoMultiplier } from "../utils/contractUtils";
+import { DRAWDOWN_GUARD_LEVEL_LABELS, evaluateDrawdownGuard } from "../utils/drawdownGuard";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { type Account, type Position, createExchangeClient, getAccountEquity } from "./exchangeClient";
+import { getAtr } from "./volatility";
+
+const logger = createLogger({
+  name: "position-sizing",
+  level: "info",
+});
+
+/** 仓位系数缩减后的最小开仓金额（USDT） */
+const MIN_AMOUNT_USDT = 10;
+
+/** 低波动放大仓位时的上限（账户净值的百分比） */
+const LOW_VOLATILITY_MAX_POSITION_PERCENT = 32;
+
+/** 单笔仓位建议上限（账户净值的百分比），超过只提示 */
+const SINGLE_POSITION_WARNING_PERCENT = 30;
+
+/**
+ * 仓位调整类型
+ */
+export type SizingAdjustmentType = "drawdown_guard" | "low_liquidity" | "weekend" | "volatility" | "margin_budget";
+
+/**
+ * 单步仓位调整
+ */
+export interface SizingAdjustment {
+  type: SizingAdjustmentType;
+  description: string;
+  amountBefore: number;
+  amountAfter: number;
+  leverageBefore: number;
+  leverageAfter: number;
+}
+
+/**
+ * 仓位计算请求
+ */
+export interface PositionSizingRequest {
+  symbol: string;
+  /** AI 请求的开仓金额（保证金，USDT） */
+  amountUsdt: number;
+  leverage: number;
+  /** 交易所账户数据（预算和敞口按其净值计算） */
+  account: Account;
+  /** 当前持仓（只包含非零持仓） */
+  positions: Position[];
+  strategyParams: StrategyParams;
+  now?: Date;
+}
+
+/**
+ * 仓位计算结果
+ */
+export interface PositionSizingResult {
+  approved: boolean;
+  /** 拒绝原因 */
+  reason?: string;
+  /** 最终开仓金额（保证金，USDT） */
+  amountUsdt: number;
+  leverage: number;
+  adjustments: SizingAdjustment[];
+  /** 不改变仓位的提示 */
+  warnings: string[];
+  atrPercent: number;
+  volatilityLevel: "high" | "normal" | "low";
+  /** 现有持仓占用的保证金 */
+  marginUsed: number;
+  /** 总保证金预算（策略未配置时为 null） */
+  marginBudget: number | null;
+}
+
+/**
+ * 解析低流动性时段配置（"2-6" 表示 UTC 2:00-6:59，支持跨零点如 "22-2"）
+ */
+function isInHourRange(hour: number, range: string): boolean {
+  const match = range.trim().match(/^(\d{1,2})\s*-\s*(\d{1,2})$/);
+  if (!match) {
+    return false;
+  }
+  const start = Number.parseInt(match[1], 10);
+  const end = Number.parseInt(match[2], 10);
+  return start <= end ? hour >= start && hour <= end : hour >= start || hour <= end;
+}
+
+/**
+ * 是否处于周末低流动性时段（UTC 周五22:00 - 周日20:00）
+ */
+function isWeekendSession(now: Date): boolean {
+  const hourUTC = now.getUTCHours();
+  const dayOfWeek = now.getUTCDay(); // 0=周日，6=周六
+  return (dayOfWeek === 5 && hourUTC >= 22) || dayOfWeek === 6 || (dayOfWeek === 0 && hourUTC < 20);
+}
+
+/**
+ * 计算持仓占用的保证金（优先使用交易所返回的 margin）
+ */
+async function getPositionMargin(position: Position): Promise<number> {
+  if (Number.isFinite(position.margin) && position.margin > 0) {
+    return position.margin;
+  }
+  const leverage = position.leverage || 1;
+  const quantoMultiplier = await getQuantoMultiplier(position.contract);
+  return (Math.abs(position.size) * position.entryPrice * quantoMultiplier) / leverage;
+}
+
+/**
+ * 计算持仓的名义价值
+ */
+async function getPositionNotional(position: Position): Promise<number> {
+  const quantoMultiplier = await getQuantoMultiplier(position.contract);
+  return Math.abs(position.size) * position.entryPrice * quantoMultiplier;
+}
+
+/**
+ * 获取合约的 ATR 百分比（1小时 ATR14 / 最新价格），不可用时返回 0
+ */
+async function getAtrPercent(contract: string): Promise<number> {
+  try {
+    const atr = await getAtr(contract);
+    if (atr <= 0) {
+      return 0;
+    }
+    const ticker = await createExchangeClient().getFuturesTicker(contract);
+    return ticker.last > 0 ? (atr / ticker.last) * 100 : 0;
+  } catch (error) {
+    logger.warn(`计算 ${contract} 波动率失败: ${getErrorMessage(error)}`);
+    return 0;
+  }
+}
+
+/**
+ * 按账户净值计算总保证金预算和总名义敞口上限
+ * @returns equity 账户净值；marginBudget 策略未配置 maxTotalMarginPercent 时为 null
+ */
+export function getSizingLimits(
+  account: Account,
+  strategyParams: StrategyParams
+): { equity: number; marginBudget: number | null; maxExposure: number } {
+  const equity = getAccountEquity(account);
+  const marginBudget = strategyParams.maxTotalMarginPercent && strategyParams.maxTotalMarginPercent > 0
+    ? equity * strategyParams.maxTotalMarginPercent / 100
+    : null;
+  return { equity, marginBudget, maxExposure: equity * RISK_PARAMS.MAX_LEVERAGE };
+}
+
+/**
+ * 将仓位调整格式化为一行说明
+ */
+export function formatSizingAdjustments(adjustments: SizingAdjustment[]): string {
+  return adjustments.map(a => a.description).join("；");
+}
+
+/**
+ * 计算开仓金额和杠杆
+ */
+export async function sizePosition(request: PositionSizingRequest): Promise<PositionSizingResult> {
+  const { symbol, account, positions, strategyParams } = request;
+  const limits = getSizingLimits(account, strategyParams);
+  const totalBalance = limits.equity;
+  const contract = `${symbol}_USDT`;
+  const now = request.now || new Date();
+  const adjustments: SizingAdjustment[] = [];
+  const warnings: string[] = [];
+  let amountUsdt = request.amountUsdt;
+  let leverage = request.leverage;
+  let atrPercent = 0;
+  let volatilityLevel: PositionSizingResult["volatilityLevel"] = "normal";
+  let marginUsed = 0;
+  let marginBudget: number | null = null;
+  
+  const result = (approved: boolean, reason?: string): PositionSizingResult => ({
+    approved,
+    reason,
+    amountUsdt,
+    leverage,
+    adjustments,
+    warnings,
+    atrPercent,
+    volatilityLevel,
+    marginUsed,
+    marginBudget,
+  });
+  
+  const adjust = (type: SizingAdjustmentType, description: string, nextAmount: number, nextLeverage: number) => {
+    if (nextAmount === amountUsdt && nextLeverage === leverage) {
+      return;
+    }
+    adjustments.push({
+      type,
+      description,
+      amountBefore: amountUsdt,
+      amountAfter: nextAmount,
+      leverageBefore: leverage,
+      leverageAfter: nextLeverage,
+    });
+    logger.info(`${symbol} 仓位调整 [${type}]: ${description}`);
+    amountUsdt = nextAmount;
+    leverage = nextLeverage;
+  };
+  
+  const reduce = (factor: number) => Math.max(Math.min(MIN_AMOUNT_USDT, amountUsdt), amountUsdt * factor);
+  
+  // 1. 账户回撤保护
+  const drawdownGuard = await evaluateDrawdownGuard(account);
+  if (!drawdownGuard.allowNewPositions) {
+    return result(
+      false,
+      `账户回撤 ${drawdownGuard.drawdownPercent.toFixed(2)}%（峰值 ${drawdownGuard.peakEquity.toFixed(2)} USDT），回撤保护处于「${DRAWDOWN_GUARD_LEVEL_LABELS[drawdownGuard.level]}」级别，禁止新开仓`
+    );
+  }
+  if (drawdownGuard.sizeFactor < 1) {
+    const next = amountUsdt * drawdownGuard.sizeFactor;
+    adjust(
+      "drawdown_guard",
+      `账户回撤 ${drawdownGuard.drawdownPercent.toFixed(2)}%，回撤保护缩减仓位 ${amountUsdt.toFixed(2)} → ${next.toFixed(2)} USDT`,
+      next,
+      leverage
+    );
+  }
+  
+  // 2. 交易时段
+  const hourUTC = now.getUTCHours();
+  if (RISK_PARAMS.LOW_LIQUIDITY_SIZE_FACTOR < 1 && isInHourRange(hourUTC, RISK_PARAMS.LOW_LIQUIDITY_HOURS_UTC)) {
+    const next = reduce(RISK_PARAMS.LOW_LIQUIDITY_SIZE_FACTOR);
+    adjust(
+      "low_liquidity",
+      `低流动性时段 (UTC ${hourUTC}:00)，仓位 ${amountUsdt.toFixed(2)} → ${next.toFixed(2)} USDT`,
+      next,
+      leverage
+    );
+  }
+  if (RISK_PARAMS.WEEKEND_SIZE_FACTOR < 1 && isWeekendSession(now)) {
+    const next = reduce(RISK_PARAMS.WEEKEND_SIZE_FACTOR);
+    adjust("weekend", `周末时段，仓位 ${amountUsdt.toFixed(2)} → ${next.toFixed(2)} USDT`, next, leverage);
+  }
+  
+  // 3. 波动率调整
+  atrPercent = await getAtrPercent(contract);
+  if (atrPercent > 0) {
+    if (atrPercent > RISK_PARAMS.VOLATILITY_HIGH_ATR_PERCENT) {
+      volatilityLevel = "high";
+    } else if (atrPercent < RISK_PARAMS.VOLATILITY_LOW_ATR_PERCENT) {
+      volatilityLevel = "low";
+    }
+    const factors = strategyParams.volatilityAdjustment[`${volatilityLevel}Volatility`];
+    const label = volatilityLevel === "high" ? "高波动" : volatilityLevel === "low" ? "低波动" : "正常波动";
+    const nextLeverage = Math.min(RISK_PARAMS.MAX_LEVERAGE, Math.max(1, Math.round(leverage * factors.leverageFactor)));
+    let nextAmount = factors.positionFactor < 1 ? reduce(factors.positionFactor) : amountUsdt * factors.positionFactor;
+    if (factors.positionFactor > 1) {
+      nextAmount = Math.max(amountUsdt, Math.min(totalBalance * LOW_VOLATILITY_MAX_POSITION_PERCENT / 100, nextAmount));
+    }
+    adjust(
+      "volatility",
+      `${label}市场 (ATR ${atrPercent.toFixed(2)}%)，杠杆 ${leverage}x → ${nextLeverage}x，仓位 ${amountUsdt.toFixed(2)} → ${nextAmount.toFixed(2)} USDT`,
+      nextAmount,
+      nextLeverage
+    );
+  }
+  
+  // 4. 总保证金预算
+  for (const position of positions) {
+    marginUsed += await getPositionMargin(position);
+  }
+  if (limits.marginBudget !== null) {
+    marginBudget = limits.marginBudget;
+    const remaining = marginBudget - marginUsed;
+    if (remaining < Math.min(MIN_AMOUNT_USDT, amountUsdt)) {
+      return result(
+        false,
+        `总保证金预算不足：现有持仓保证金 ${marginUsed.toFixed(2)} USDT，预算 ${marginBudget.toFixed(2)} USDT（账户净值的${strategyParams.maxTotalMarginPercent}%），剩余 ${Math.max(0, remaining).toFixed(2)} USDT`
+      );
+    }
+    if (amountUsdt > remaining) {
+      adjust(
+        "margin_budget",
+        `总保证金预算 ${marginBudget.toFixed(2)} USDT（账户净值的${strategyParams.maxTotalMarginPercent}%）已用 ${marginUsed.toFixed(2)} USDT，仓位 ${amountUsdt.toFixed(2)} → ${remaining.toFixed(2)} USDT`,
+        remaining,
+        leverage
+      );
+    }
+  }
+  
+  // 5. 总名义敞口上限
+  let currentExposure = 0;
+  for (const position of positions) {
+    currentExposure += await getPositionNotional(position);
+  }
+  const totalExposure = currentExposure + amountUsdt * leverage;
+  const maxAllowedExposure = limits.maxExposure;
+  if (totalExposure > maxAllowedExposure) {
+    return result(
+      false,
+      `新开仓将导致总敞口 ${totalExposure.toFixed(2)} USDT 超过限制 ${maxAllowedExposure.toFixed(2)} USDT（账户净值的${RISK_PARAMS.MAX_LEVERAGE}倍），拒绝开仓`
+    );
+  }
+  
+  if (amountUsdt > totalBalance * SINGLE_POSITION_WARNING_PERCENT / 100) {
+    warnings.push(`开仓金额 ${amountUsdt.toFixed(2)} USDT 超过建议仓位 ${(totalBalance * SINGLE_POSITION_WARNING_PERCENT / 100).toFixed(2)} USDT（账户净值的${SINGLE_POSITION_WARNING_PERCENT}%）`);
+  }
+  
+  return result(true);
+}
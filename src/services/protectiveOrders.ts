@@ -0,0 +1,355 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 交易所止损止盈条件单 - 开仓后在交易所挂出真实的条件单保护持仓
+ *
+ * - 止损价：策略 stopLoss 配置按杠杆映射到 low/mid/high（与止损监控器一致）
+ * - 止盈价：策略 partialTakeProfit 中累计平仓 100% 的阶段（没有则取最后一个阶段）的触发点，
+ *   按 ATR 倍数触发的阶段不挂止盈条件单
+ * - 移动止盈级别提升时，止损单随之上移（先挂新单再撤旧单，避免出现无保护的空窗）
+ * - 条件单ID记录在 positions.sl_order_id / tp_order_id
+ * - 条件单由交易所执行，即使本进程崩溃或断网，持仓依然受到保护
+ *
+ * 通过 EXCHANGE_PROTECTIVE_ORDERS=false 关闭；交易所不支持条件单（capabilities.triggerOrders）时自动跳过
+ */
+import { createClient } from "@libsql/client";
+import { getStrategyParams, getTradingStrategy } from "../agents/tradingAgent";
+import { getStopLossThreshold } from "../scheduler/stopLossMonitor";
+import { roundToPriceTick } from "../utils/contractUtils";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { type IExchangeClient, type Position, createExchangeClient, getExchangeCapabilities } from "./exchangeClient";
+
+const logger = createLogger({
+  name: "protective-orders",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/**
+ * 止损止盈价格
+ */
+export interface ProtectivePrices {
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+/**
+ * 挂单结果（未能挂出的条件单对应字段为空）
+ */
+export interface ProtectiveOrdersResult extends ProtectivePrices {
+  slOrderId?: string;
+  tpOrderId?: string;
+}
+
+/**
+ * 是否在交易所挂出止损止盈条件单（默认开启，交易所不支持条件单时关闭）
+ */
+export function isProtectiveOrdersEnabled(): boolean {
+  return process.env.EXCHANGE_PROTECTIVE_ORDERS !== "false" && getExchangeCapabilities().triggerOrders;
+}
+
+/**
+ * 将考虑杠杆的盈亏百分比换算为价格
+ * 例如 10 倍杠杆做多，-5% 对应开仓价下跌 0.5%
+ */
+export function pnlPercentToPrice(side: "long" | "short", entryPrice: number, leverage: number, pnlPercent: number): number {
+  const priceChange = pnlPercent / 100 / leverage;
+  return side === "long" ? entryPrice * (1 + priceChange) : entryPrice * (1 - priceChange);
+}
+
+/**
+ * 根据策略配置计算止损止盈价格（未按合约价格精度取整）
+ */
+export function calculateProtectivePrices(side: "long" | "short", entryPrice: number, leverage: number): ProtectivePrices {
+  const prices: ProtectivePrices = {};
+
+  try {
+    const { threshold } = getStopLossThreshold(leverage);
+    prices.stopLoss = pnlPercentToPrice(side, entryPrice, leverage, threshold);
+  } catch (error) {
+    logger.warn(`无法计算止损价: ${getErrorMessage(error)}`);
+  }
+
+  const params = getStrategyParams(getTradingStrategy());
+  const stages = params.partialTakeProfit?.stages || [];
+  const finalStage = stages.find(stage => stage.closePercent >= 100) || stages[stages.length - 1];
+  const takeProfitPercent = finalStage?.trigger;
+  if (takeProfitPercent && takeProfitPercent > 0) {
+    prices.takeProfit = pnlPercentToPrice(side, entryPrice, leverage, takeProfitPercent);
+  }
+
+  return prices;
+}
+
+/**
+ * 挂出单个条件单，失败时只记录日志（不影响开仓结果）
+ */
+async function placeTrigger(
+  client: IExchangeClient,
+  contract: string,
+  side: "long" | "short",
+  kind: "stop_loss" | "take_profit",
+  triggerPrice: number
+): Promise<string | undefined> {
+  const label = kind === "stop_loss" ? "止损" : "止盈";
+  try {
+    const order = await client.placeTriggerOrder({ contract, side, kind, triggerPrice });
+    logger.info(`${contract} ${label}条件单已挂出: 触发价 ${triggerPrice}，订单ID ${order.id}`);
+    return order.id;
+  } catch (error) {
+    logger.error(`${contract} ${label}条件单挂出失败: ${getErrorMessage(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * 撤销单个条件单，订单已触发或不存在时忽略
+ */
+async function cancelTrigger(client: IExchangeClient, contract: string, orderId: string): Promise<void> {
+  try {
+    await client.cancelTriggerOrder(orderId, contract);
+  } catch (error) {
+    // 条件单可能已经触发或已被撤销
+    logger.warn(`无法撤销条件单 ${orderId}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * 读取持仓表中记录的条件单ID
+ */
+async function getProtectiveOrderIds(symbol: string): Promise<{ slOrderId?: string; tpOrderId?: string }> {
+  const result = await dbClient.execute({
+    sql: "SELECT sl_order_id, tp_order_id FROM positions WHERE symbol = ?",
+    args: [symbol],
+  });
+  const row = result.rows[0];
+  return {
+    slOrderId: (row?.sl_order_id as string | null) || undefined,
+    tpOrderId: (row?.tp_order_id as string | null) || undefined,
+  };
+}
+
+/**
+ * 开仓后挂出止损止盈条件单
+ * 已有的条件单（加仓场景）在新单挂出后撤销，调用方负责将返回的价格和订单ID写入持仓表
+ * @param prices 指定止损止盈价格（不填则根据策略配置计算）
+ */
+export async function placeProtectiveOrders(params: {
+  symbol: string;
+  side: "long" | "short";
+  entryPrice: number;
+  leverage: number;
+  prices?: ProtectivePrices;
+}): Promise<ProtectiveOrdersResult> {
+  if (!isProtectiveOrdersEnabled()) {
+    return {};
+  }
+
+  const client = createExchangeClient();
+  const contract = `${params.symbol}_USDT`;
+  const prices = params.prices || calculateProtectivePrices(params.side, params.entryPrice, params.leverage);
+  const result: ProtectiveOrdersResult = {};
+  const previous = await getProtectiveOrderIds(params.symbol);
+
+  if (prices.stopLoss && prices.stopLoss > 0) {
+    result.stopLoss = await roundToPriceTick(contract, prices.stopLoss);
+    result.slOrderId = await placeTrigger(client, contract, params.side, "stop_loss", result.stopLoss);
+  }
+  if (prices.takeProfit && prices.takeProfit > 0) {
+    result.takeProfit = await roundToPriceTick(contract, prices.takeProfit);
+    result.tpOrderId = await placeTrigger(client, contract, params.side, "take_profit", result.takeProfit);
+  }
+
+  // 先挂新单再撤旧单，避免出现无保护的空窗
+  for (const orderId of [previous.slOrderId, previous.tpOrderId]) {
+    if (orderId) {
+      await cancelTrigger(client, contract, orderId);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 撤销持仓的止损止盈条件单，并清空持仓表中的订单ID
+ */
+export async function cancelProtectiveOrders(symbol: string): Promise<void> {
+  const { slOrderId, tpOrderId } = await getProtectiveOrderIds(symbol);
+  if (!slOrderId && !tpOrderId) {
+    return;
+  }
+
+  const client = createExchangeClient();
+  const contract = `${symbol}_USDT`;
+  for (const orderId of [slOrderId, tpOrderId]) {
+    if (orderId) {
+      await cancelTrigger(client, contract, orderId);
+    }
+  }
+
+  await dbClient.execute({
+    sql: "UPDATE positions SET sl_order_id = NULL, tp_order_id = NULL WHERE symbol = ?",
+    args: [symbol],
+  });
+}
+
+/**
+ * 移动止损条件单到移动止盈的止损线
+ * 只有新止损价比当前止损价更有利时才移动，且新止损价不能越过当前价格（否则会立即触发）
+ * @param stopAtPercent 移动止盈级别的止损线（考虑杠杆的盈亏百分比）
+ * @returns 是否移动了止损单
+ */
+export async function moveStopLoss(params: {
+  symbol: string;
+  side: "long" | "short";
+  entryPrice: number;
+  leverage: number;
+  currentPrice: number;
+  stopAtPercent: number;
+}): Promise<boolean> {
+  if (!isProtectiveOrdersEnabled()) {
+    return false;
+  }
+
+  const { symbol, side } = params;
+  const client = createExchangeClient();
+  const contract = `${symbol}_USDT`;
+  const newStop = await roundToPriceTick(
+    contract,
+    pnlPercentToPrice(side, params.entryPrice, params.leverage, params.stopAtPercent)
+  );
+
+  const result = await dbClient.execute({
+    sql: "SELECT stop_loss, sl_order_id FROM positions WHERE symbol = ?",
+    args: [symbol],
+  });
+  if (result.rows.length === 0) {
+    return false;
+  }
+  const row = result.rows[0];
+  const currentStop = Number(row.stop_loss ?? 0);
+
+  const improves = !currentStop || (side === "long" ? newStop > currentStop : newStop < currentStop);
+  const valid = side === "long" ? newStop < params.currentPrice : newStop > params.currentPrice;
+  if (!improves || !valid) {
+    return false;
+  }
+
+  // 先挂新单再撤旧单，避免出现无保护的空窗
+  const newOrderId = await placeTrigger(client, contract, side, "stop_loss", newStop);
+  if (!newOrderId) {
+    return false;
+  }
+  if (row.sl_order_id) {
+    await cancelTrigger(client, contract, row.sl_order_id as string);
+  }
+
+  await dbClient.execute({
+    sql: "UPDATE positions SET stop_loss = ?, sl_order_id = ? WHERE symbol = ?",
+    args: [newStop, newOrderId, symbol],
+  });
+
+  logger.info(`${symbol} 止损条件单已移动: ${currentStop || "-"} → ${newStop}（止损线 ${params.stopAtPercent}%）`);
+  return true;
+}
+
+/**
+ * 同步条件单与持仓
+ * - 撤销已没有对应持仓的条件单（持仓被其他途径平掉后遗留的条件单）
+ * - 为缺少止损止盈条件单的持仓补挂（挂单失败、进程重启前开的仓等）
+ * @param activePositions 交易所返回的非零持仓
+ */
+export async function syncProtectiveOrders(activePositions: Position[]): Promise<void> {
+  if (!isProtectiveOrdersEnabled()) {
+    return;
+  }
+
+  try {
+    const client = createExchangeClient();
+    const triggerOrders = await client.getTriggerOrders();
+
+    const positionSides = new Map<string, "long" | "short">(
+      activePositions.map(p => [p.contract, p.size > 0 ? "long" : "short"])
+    );
+
+    // 1. 撤销遗留的条件单
+    for (const order of triggerOrders) {
+      if (positionSides.get(order.contract) !== order.side) {
+        logger.info(`撤销遗留的条件单: ${order.contract} ${order.kind} ${order.id}`);
+        await cancelTrigger(client, order.contract, order.id);
+      }
+    }
+
+    // 2. 关联或补挂缺失的条件单
+    const dbResult = await dbClient.execute("SELECT symbol, stop_loss, profit_target, sl_order_id, tp_order_id FROM positions");
+    const dbPositions = new Map(dbResult.rows.map((row) => [row.symbol as string, row]));
+
+    for (const pos of activePositions) {
+      const symbol = pos.contract.replace("_USDT", "");
+      const dbPos = dbPositions.get(symbol);
+      if (!dbPos) {
+        continue;
+      }
+
+      const side: "long" | "short" = pos.size > 0 ? "long" : "short";
+      const { entryPrice, leverage } = pos;
+      if (entryPrice <= 0 || leverage <= 0) {
+        continue;
+      }
+
+      const openOrders = triggerOrders.filter(o => o.contract === pos.contract && o.side === side);
+      const findOrder = (kind: "stop_loss" | "take_profit", recordedId: string | null) =>
+        openOrders.find(o => o.kind === kind && o.id === recordedId) || openOrders.find(o => o.kind === kind);
+      const slOrder = findOrder("stop_loss", dbPos.sl_order_id as string | null);
+      const tpOrder = findOrder("take_profit", dbPos.tp_order_id as string | null);
+      if (slOrder?.id === dbPos.sl_order_id && tpOrder?.id === dbPos.tp_order_id) {
+        continue;
+      }
+
+      // 交易所上已有的条件单直接关联（如数据库记录丢失），缺失的按已记录的价格补挂（保留已上移的止损线）
+      const defaults = calculateProtectivePrices(side, entryPrice, leverage);
+      let stopLoss = slOrder ? slOrder.triggerPrice : Number(dbPos.stop_loss) || defaults.stopLoss;
+      let takeProfit = tpOrder ? tpOrder.triggerPrice : Number(dbPos.profit_target) || defaults.takeProfit;
+      let slOrderId = slOrder?.id;
+      let tpOrderId = tpOrder?.id;
+
+      if (!slOrderId && stopLoss) {
+        logger.warn(`${symbol} 缺少止损条件单，重新挂出`);
+        stopLoss = await roundToPriceTick(pos.contract, stopLoss);
+        slOrderId = await placeTrigger(client, pos.contract, side, "stop_loss", stopLoss);
+      }
+      if (!tpOrderId && takeProfit) {
+        logger.warn(`${symbol} 缺少止盈条件单，重新挂出`);
+        takeProfit = await roundToPriceTick(pos.contract, takeProfit);
+        tpOrderId = await placeTrigger(client, pos.contract, side, "take_profit", takeProfit);
+      }
+
+      await dbClient.execute({
+        sql: "UPDATE positions SET stop_loss = ?, profit_target = ?, sl_order_id = ?, tp_order_id = ? WHERE symbol = ?",
+        args: [stopLoss ?? null, takeProfit ?? null, slOrderId ?? null, tpOrderId ?? null, symbol],
+      });
+    }
+  } catch (error) {
+    logger.error(`同步止损止盈条件单失败: ${getErrorMessage(error)}`);
+  }
+}
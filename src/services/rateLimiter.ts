@@ -0,0 +1,411 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 交易所请求调度器 - 按接口权重的令牌桶限频 + 优先级队列
+ *
+ * 交易周期、持仓监督器、账户记录器和 API 路由共用同一个交易所客户端，所有请求在这里排队：
+ * - 接口类别（order 下单撤单 / account 账户持仓订单 / market 行情）各有一个令牌桶，速率（权重/秒）可通过环境变量配置
+ * - 每个接口按交易所的接口权重消耗令牌（例如不带合约的挂单查询、大数量K线比单个行情查询消耗更多）
+ * - 令牌不足时按优先级放行：平仓和条件单 > 持仓监督器检查和账户记录 > 交易周期 > 看板查询，同一优先级先进先出
+ * - 看板查询只在令牌桶剩余一半以上时放行，超过最长排队时间直接失败，保证平仓和风控请求不会被看板轮询挤占
+ * - 交易所返回限频错误（HTTP 429、ratelimit 错误码）时暂停该类别的请求并指数退避后重试
+ * - 查询请求的其他失败按调用方指定的次数重试，每次重试重新排队消耗令牌（交易所客户端内部不再自行重试）
+ *
+ * 请求优先级通过 runWithRequestPriority 在调用链上传递（AsyncLocalStorage），未指定时按交易周期处理
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createLogger } from "../utils/loggerUtils";
+
+const logger = createLogger({
+  name: "rate-limiter",
+  level: "info",
+});
+
+/**
+ * 请求优先级（从高到低）
+ * - close: 平仓、止损止盈条件单
+ * - monitor: 持仓监督器（止损、移动止盈、分批止盈检查）、账户记录
+ * - trading: 交易周期和 AI 工具（默认）
+ * - dashboard: 看板查询
+ */
+export type RequestPriority = "close" | "monitor" | "trading" | "dashboard";
+
+/**
+ * 限频的接口类别
+ */
+export type RateLimitEndpoint = "order" | "account" | "market";
+
+/**
+ * 单次请求的调度参数
+ */
+export interface ScheduleOptions {
+  /** 请求名称（用于日志） */
+  name?: string;
+  /** 请求优先级，默认沿用调用链的优先级 */
+  priority?: RequestPriority;
+  /** 接口权重（消耗的令牌数），默认 1，超过令牌桶容量时按容量计 */
+  weight?: number;
+  /** 非限频错误的重试次数（只用于可重复执行的查询请求），默认不重试 */
+  retries?: number;
+}
+
+/**
+ * 单个接口类别的调度指标
+ */
+export interface EndpointMetrics {
+  /** 每秒补充的令牌数（接口权重/秒） */
+  ratePerSecond: number;
+  /** 当前剩余令牌 */
+  tokens: number;
+  /** 各优先级正在排队的请求数 */
+  queued: Record<RequestPriority, number>;
+  /** 限频退避结束时间（未退避时为 null） */
+  pausedUntil: string | null;
+  /** 已发出的请求数（含重试） */
+  requests: number;
+  /** 交易所返回限频错误的次数 */
+  rateLimited: number;
+  /** 看板查询排队超时被拒绝的次数 */
+  rejected: number;
+  /** 各优先级的请求数、平均和最长排队时间（毫秒） */
+  byPriority: Record<RequestPriority, { requests: number; avgWaitMs: number; maxWaitMs: number }>;
+}
+
+interface PendingRequest {
+  priority: RequestPriority;
+  weight: number;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface TokenBucket {
+  endpoint: RateLimitEndpoint;
+  ratePerSecond: number;
+  capacity: number;
+  tokens: number;
+  updatedAt: number;
+  queue: PendingRequest[];
+  timer: NodeJS.Timeout | null;
+  pausedUntil: number;
+  backoffMs: number;
+  requests: number;
+  rateLimited: number;
+  rejected: number;
+  waits: Record<RequestPriority, { requests: number; totalWaitMs: number; maxWaitMs: number }>;
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  close: 0,
+  monitor: 1,
+  trading: 2,
+  dashboard: 3,
+};
+
+/** 各接口类别的默认速率（权重/秒），低于各交易所公开的限频 */
+const DEFAULT_RATES: Record<RateLimitEndpoint, number> = {
+  order: 5,
+  account: 10,
+  market: 20,
+};
+
+/** 看板查询只在剩余令牌不低于容量的该比例时放行，其余留给平仓和风控 */
+const DASHBOARD_RESERVE_RATIO = 0.5;
+
+/** 看板查询最长排队时间（毫秒） */
+const DASHBOARD_MAX_WAIT_MS = 10000;
+
+/** 限频退避的初始和最长时间（毫秒） */
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+/** 限频错误的最大重试次数 */
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+/** 查询失败重试的递增延迟（毫秒） */
+const RETRY_DELAY_MS = 300;
+
+const priorityStorage = new AsyncLocalStorage<RequestPriority>();
+const buckets = new Map<RateLimitEndpoint, TokenBucket>();
+
+/**
+ * 读取接口类别的速率配置（EXCHANGE_RATE_LIMIT_ORDER / _ACCOUNT / _MARKET）
+ */
+function getRatePerSecond(endpoint: RateLimitEndpoint): number {
+  const value = Number.parseFloat(process.env[`EXCHANGE_RATE_LIMIT_${endpoint.toUpperCase()}`] || "");
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_RATES[endpoint];
+}
+
+function getBucket(endpoint: RateLimitEndpoint): TokenBucket {
+  let bucket = buckets.get(endpoint);
+  if (!bucket) {
+    const ratePerSecond = getRatePerSecond(endpoint);
+    const capacity = Math.max(1, ratePerSecond);
+    bucket = {
+      endpoint,
+      ratePerSecond,
+      capacity,
+      tokens: capacity,
+      updatedAt: Date.now(),
+      queue: [],
+      timer: null,
+      pausedUntil: 0,
+      backoffMs: 0,
+      requests: 0,
+      rateLimited: 0,
+      rejected: 0,
+      waits: {
+        close: { requests: 0, totalWaitMs: 0, maxWaitMs: 0 },
+        monitor: { requests: 0, totalWaitMs: 0, maxWaitMs: 0 },
+        trading: { requests: 0, totalWaitMs: 0, maxWaitMs: 0 },
+        dashboard: { requests: 0, totalWaitMs: 0, maxWaitMs: 0 },
+      },
+    };
+    buckets.set(endpoint, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * 按经过的时间补充令牌
+ */
+function refill(bucket: TokenBucket, now: number): void {
+  const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsedSeconds * bucket.ratePerSecond);
+  bucket.updatedAt = now;
+}
+
+/**
+ * 队列中优先级最高的请求（同一优先级取最早入队的）
+ */
+function pickNext(queue: PendingRequest[]): number {
+  let best = 0;
+  for (let i = 1; i < queue.length; i++) {
+    if (PRIORITY_RANK[queue[i].priority] < PRIORITY_RANK[queue[best].priority]) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+function scheduleDrain(bucket: TokenBucket, delayMs: number): void {
+  bucket.timer = setTimeout(() => {
+    bucket.timer = null;
+    drain(bucket);
+  }, Math.max(1, delayMs));
+}
+
+/**
+ * 放行令牌允许的请求，令牌不足或退避中时定时重新检查
+ */
+function drain(bucket: TokenBucket): void {
+  if (bucket.timer) {
+    clearTimeout(bucket.timer);
+    bucket.timer = null;
+  }
+
+  while (bucket.queue.length > 0) {
+    const now = Date.now();
+
+    // 看板查询排队超时直接失败，避免在限频期间无限堆积
+    for (let i = bucket.queue.length - 1; i >= 0; i--) {
+      const request = bucket.queue[i];
+      if (request.priority === "dashboard" && now - request.enqueuedAt > DASHBOARD_MAX_WAIT_MS) {
+        bucket.queue.splice(i, 1);
+        bucket.rejected++;
+        request.reject(new Error(`交易所 ${bucket.endpoint} 接口繁忙，看板查询排队超时`));
+      }
+    }
+    if (bucket.queue.length === 0) {
+      return;
+    }
+
+    if (now < bucket.pausedUntil) {
+      scheduleDrain(bucket, bucket.pausedUntil - now);
+      return;
+    }
+
+    refill(bucket, now);
+    const index = pickNext(bucket.queue);
+    const request = bucket.queue[index];
+    const required = request.priority === "dashboard"
+      ? Math.max(request.weight, bucket.capacity * DASHBOARD_RESERVE_RATIO)
+      : request.weight;
+    if (bucket.tokens < required) {
+      scheduleDrain(bucket, Math.ceil(((required - bucket.tokens) / bucket.ratePerSecond) * 1000));
+      return;
+    }
+
+    bucket.tokens -= request.weight;
+    bucket.queue.splice(index, 1);
+    const waitMs = now - request.enqueuedAt;
+    const stats = bucket.waits[request.priority];
+    stats.requests++;
+    stats.totalWaitMs += waitMs;
+    stats.maxWaitMs = Math.max(stats.maxWaitMs, waitMs);
+    request.resolve();
+  }
+}
+
+/**
+ * 排队获取接口权重对应的令牌
+ */
+function acquire(bucket: TokenBucket, priority: RequestPriority, weight: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    bucket.queue.push({ priority, weight, enqueuedAt: Date.now(), resolve, reject });
+    drain(bucket);
+  });
+}
+
+/**
+ * 判断是否为交易所限频错误
+ * 识别 HTTP 429/418、ccxt 的 RateLimitExceeded/DDoSProtection，
+ * 以及 OKX 50011、Binance -1003、Bybit 10006、Gate TOO_MANY_REQUESTS 等错误码
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const err = (typeof error === "object" && error !== null ? error : {}) as {
+    name?: unknown;
+    message?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+  };
+  const status = err.response?.status ?? err.status ?? err.statusCode;
+  if (status === 429 || status === 418) {
+    return true;
+  }
+  if (err.name === "RateLimitExceeded" || err.name === "DDoSProtection") {
+    return true;
+  }
+  const message = String(err.message ?? error ?? "");
+  return /too many requests|rate ?limit|TOO_MANY_REQUESTS|\(code: (429|418|-1003|50011|50061|10006)\)/i.test(message);
+}
+
+/**
+ * 在指定优先级下执行调用链（调用链中的交易所请求按该优先级排队）
+ */
+export function runWithRequestPriority<T>(priority: RequestPriority, fn: () => T): T {
+  return priorityStorage.run(priority, fn);
+}
+
+/**
+ * 当前调用链的请求优先级（未指定时为交易周期）
+ */
+export function getRequestPriority(): RequestPriority {
+  return priorityStorage.getStore() ?? "trading";
+}
+
+/**
+ * 通过限频调度执行一次交易所请求
+ * 遇到限频错误时暂停该接口类别并指数退避，最多重试 MAX_RATE_LIMIT_RETRIES 次；
+ * 其他错误按 options.retries 递增延迟后重新排队重试，不指定时直接抛出
+ */
+export async function scheduleRequest<T>(
+  endpoint: RateLimitEndpoint,
+  task: () => Promise<T>,
+  options: ScheduleOptions = {}
+): Promise<T> {
+  const bucket = getBucket(endpoint);
+  const name = options.name ?? endpoint;
+  const priority = options.priority ?? getRequestPriority();
+  const weight = Math.min(bucket.capacity, Math.max(1, options.weight ?? 1));
+  const retries = options.retries ?? 0;
+  let attempt = 0;
+  let failures = 0;
+
+  for (;;) {
+    await acquire(bucket, priority, weight);
+    bucket.requests++;
+    try {
+      const result = await task();
+      bucket.backoffMs = 0;
+      return result;
+    } catch (error) {
+      if (!isRateLimitError(error)) {
+        if (failures >= retries) {
+          if (retries > 0) {
+            logger.error(`${name} 请求失败（${retries}次重试）:`, error);
+          }
+          throw error;
+        }
+        failures++;
+        logger.warn(`${name} 请求失败，重试 ${failures}/${retries}...`);
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * failures)); // 递增延迟
+        continue;
+      }
+
+      bucket.rateLimited++;
+      const now = Date.now();
+      // 并发请求同时被限频时只退避一次
+      if (now >= bucket.pausedUntil) {
+        bucket.backoffMs = Math.min(MAX_BACKOFF_MS, bucket.backoffMs > 0 ? bucket.backoffMs * 2 : MIN_BACKOFF_MS);
+        bucket.pausedUntil = now + bucket.backoffMs;
+        bucket.tokens = 0;
+      }
+
+      if (attempt >= MAX_RATE_LIMIT_RETRIES) {
+        logger.error(`${name} 持续触发 ${endpoint} 接口限频，放弃请求（优先级: ${priority}，已重试 ${attempt} 次）`);
+        throw error;
+      }
+      attempt++;
+      logger.warn(`${name} 触发 ${endpoint} 接口限频，暂停 ${bucket.backoffMs}ms 后重试 ${attempt}/${MAX_RATE_LIMIT_RETRIES}（优先级: ${priority}）`);
+    }
+  }
+}
+
+/**
+ * 获取各接口类别的调度指标
+ */
+export function getRateLimiterMetrics(): Record<RateLimitEndpoint, EndpointMetrics> {
+  const now = Date.now();
+  const endpoints: RateLimitEndpoint[] = ["order", "account", "market"];
+  const metrics = {} as Record<RateLimitEndpoint, EndpointMetrics>;
+
+  for (const endpoint of endpoints) {
+    const bucket = getBucket(endpoint);
+    refill(bucket, now);
+
+    const queued: Record<RequestPriority, number> = { close: 0, monitor: 0, trading: 0, dashboard: 0 };
+    for (const request of bucket.queue) {
+      queued[request.priority]++;
+    }
+
+    const byPriority = {} as EndpointMetrics["byPriority"];
+    for (const [priority, stats] of Object.entries(bucket.waits) as [RequestPriority, TokenBucket["waits"][RequestPriority]][]) {
+      byPriority[priority] = {
+        requests: stats.requests,
+        avgWaitMs: stats.requests > 0 ? Math.round(stats.totalWaitMs / stats.requests) : 0,
+        maxWaitMs: stats.maxWaitMs,
+      };
+    }
+
+    metrics[endpoint] = {
+      ratePerSecond: bucket.ratePerSecond,
+      tokens: Number(bucket.tokens.toFixed(2)),
+      queued,
+      pausedUntil: now < bucket.pausedUntil ? new Date(bucket.pausedUntil).toISOString() : null,
+      requests: bucket.requests,
+      rateLimited: bucket.rateLimited,
+      rejected: bucket.rejected,
+      byPriority,
+    };
+  }
+
+  return metrics;
+}
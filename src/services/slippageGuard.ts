@@ -0,0 +1,285 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 盘口滑点保护 - 市价单下单前根据订单簿深度估算成交价格和滑点
+ *
+ * - 按订单的实际张数逐档吃单，估算成交均价和相对中间价的滑点
+ * - 买卖价差超过阈值时拒绝开仓
+ * - 预估滑点超过阈值时，按阈值内可成交的张数拆分成多笔依次下单，拆分笔数超过上限时拒绝开仓
+ * - 只减仓订单（平仓、止损）不会被拒绝，超过阈值时拆分下单并发出警告
+ * - 获取订单簿失败时不阻止下单
+ */
+import { getOrderSizeRules } from "../utils/contractUtils";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { type OrderBookLevel, createExchangeClient } from "./exchangeClient";
+
+const logger = createLogger({
+  name: "slippage-guard",
+  level: "info",
+});
+
+/**
+ * 滑点保护配置
+ */
+export interface SlippageGuardOptions {
+  enabled: boolean;
+  /** 最大预估滑点（%，相对中间价） */
+  maxSlippagePercent: number;
+  /** 最大买卖价差（%，相对中间价） */
+  maxSpreadPercent: number;
+  /** 读取的订单簿档位数 */
+  depthLevels: number;
+  /** 拆分下单的最大笔数 */
+  maxSlices: number;
+  /** 拆分下单的间隔（秒），等待盘口恢复 */
+  sliceIntervalSeconds: number;
+}
+
+/**
+ * 按订单簿估算的市价单成交情况
+ */
+export interface OrderBookFillEstimate {
+  contract: string;
+  /** 订单张数（绝对值） */
+  size: number;
+  isBuy: boolean;
+  bestBid: number;
+  bestAsk: number;
+  midPrice: number;
+  spreadPercent: number;
+  /** 预估成交均价（盘口深度不足时为可成交部分的均价） */
+  expectedPrice: number;
+  /** 预估滑点（%，相对中间价，不利方向为正） */
+  slippagePercent: number;
+  /** 订单簿可成交的张数 */
+  fillableSize: number;
+  /** 滑点不超过阈值时可成交的最大张数 */
+  maxSizeWithinSlippage: number;
+}
+
+/**
+ * 市价单执行计划
+ */
+export interface MarketOrderPlan {
+  approved: boolean;
+  reason?: string;
+  /** 拆分后的各笔张数（带方向，正数买入，负数卖出） */
+  slices: number[];
+  estimate?: OrderBookFillEstimate;
+  warnings: string[];
+}
+
+/**
+ * 从环境变量读取滑点保护配置
+ */
+export function getSlippageGuardOptions(): SlippageGuardOptions {
+  return {
+    enabled: process.env.SLIPPAGE_GUARD_ENABLED !== "false",
+    maxSlippagePercent: Number.parseFloat(process.env.MAX_SLIPPAGE_PERCENT || "0.5"),
+    maxSpreadPercent: Number.parseFloat(process.env.MAX_SPREAD_PERCENT || "0.3"),
+    depthLevels: Number.parseInt(process.env.ORDER_BOOK_DEPTH_LEVELS || "50"),
+    maxSlices: Math.max(1, Number.parseInt(process.env.SLIPPAGE_MAX_SLICES || "5")),
+    sliceIntervalSeconds: Number.parseFloat(process.env.SLIPPAGE_SLICE_INTERVAL_SECONDS || "3"),
+  };
+}
+
+/**
+ * 计算成交价相对中间价的滑点（%，不利方向为正）
+ */
+export function calculateSlippagePercent(fillPrice: number, midPrice: number, isBuy: boolean): number {
+  if (!(fillPrice > 0) || !(midPrice > 0)) {
+    return 0;
+  }
+  const diff = isBuy ? fillPrice - midPrice : midPrice - fillPrice;
+  return (diff / midPrice) * 100;
+}
+
+/**
+ * 根据订单簿估算市价单的成交均价和滑点
+ * @param size 张数，正数买入，负数卖出
+ */
+export async function estimateMarketFill(
+  contract: string,
+  size: number,
+  options?: SlippageGuardOptions
+): Promise<OrderBookFillEstimate> {
+  const { depthLevels, maxSlippagePercent } = options || getSlippageGuardOptions();
+  const client = createExchangeClient();
+  const book = await client.getOrderBook(contract, depthLevels);
+
+  const validLevels = (levels: OrderBookLevel[]) => levels
+    .map(level => ({ price: level.price, size: Math.abs(level.size) }))
+    .filter(level => level.price > 0 && level.size > 0);
+  const bids = validLevels(book.bids);
+  const asks = validLevels(book.asks);
+  if (bids.length === 0 || asks.length === 0) {
+    throw new Error(`${contract} 订单簿为空`);
+  }
+
+  const isBuy = size > 0;
+  const totalSize = Math.abs(size);
+  const bestBid = bids[0].price;
+  const bestAsk = asks[0].price;
+  const midPrice = (bestBid + bestAsk) / 2;
+  const spreadPercent = ((bestAsk - bestBid) / midPrice) * 100;
+
+  // 买单吃卖盘，卖单吃买盘
+  const levels = isBuy ? asks : bids;
+  const limitPrice = isBuy
+    ? midPrice * (1 + maxSlippagePercent / 100)
+    : midPrice * (1 - maxSlippagePercent / 100);
+
+  let filled = 0;
+  let filledValue = 0;
+  let depthSize = 0;
+  let depthValue = 0;
+  let maxSizeWithinSlippage = 0;
+  let withinSlippage = true;
+  for (const level of levels) {
+    // 订单本身的成交
+    if (filled < totalSize) {
+      const take = Math.min(level.size, totalSize - filled);
+      filled += take;
+      filledValue += take * level.price;
+    }
+
+    // 滑点阈值内可成交的最大张数：成交均价随张数单调变差，找到均价恰好等于阈值价格的位置
+    if (withinSlippage) {
+      const worse = isBuy ? level.price > limitPrice : level.price < limitPrice;
+      if (!worse) {
+        depthSize += level.size;
+        depthValue += level.size * level.price;
+        maxSizeWithinSlippage = depthSize;
+      } else {
+        const partial = Math.min(level.size, Math.max(0, (limitPrice * depthSize - depthValue) / (level.price - limitPrice)));
+        maxSizeWithinSlippage = depthSize + partial;
+        withinSlippage = false;
+      }
+    }
+
+    if (filled >= totalSize && !withinSlippage) {
+      break;
+    }
+  }
+
+  const expectedPrice = filled > 0 ? filledValue / filled : (isBuy ? bestAsk : bestBid);
+
+  return {
+    contract,
+    size: totalSize,
+    isBuy,
+    bestBid,
+    bestAsk,
+    midPrice,
+    spreadPercent,
+    expectedPrice,
+    slippagePercent: calculateSlippagePercent(expectedPrice, midPrice, isBuy),
+    fillableSize: filled,
+    maxSizeWithinSlippage,
+  };
+}
+
+/**
+ * 把总张数按数量精度尽量平均地拆分为 count 笔
+ */
+function splitSize(totalSize: number, count: number, step: number): number[] {
+  const decimals = (step.toString().split(".")[1] || "").length;
+  const units = Math.round(totalSize / step);
+  const parts = Math.min(count, units);
+  if (parts <= 1) {
+    return [totalSize];
+  }
+  const base = Math.floor(units / parts);
+  const extra = units % parts;
+  const slices: number[] = [];
+  for (let i = 0; i < parts; i++) {
+    slices.push(Number.parseFloat(((base + (i < extra ? 1 : 0)) * step).toFixed(decimals)));
+  }
+  return slices;
+}
+
+/**
+ * 制定市价单执行计划：检查价差和预估滑点，必要时拆分下单
+ * @param size 张数，正数买入，负数卖出
+ * @param reduceOnly 只减仓订单不会被拒绝
+ */
+export async function planMarketOrder(contract: string, size: number, reduceOnly?: boolean): Promise<MarketOrderPlan> {
+  const options = getSlippageGuardOptions();
+  const sign = size > 0 ? 1 : -1;
+  const totalSize = Math.abs(size);
+  const warnings: string[] = [];
+
+  if (!options.enabled) {
+    return { approved: true, slices: [size], warnings };
+  }
+
+  let estimate: OrderBookFillEstimate;
+  try {
+    estimate = await estimateMarketFill(contract, size, options);
+  } catch (error) {
+    logger.warn(`获取 ${contract} 订单簿失败，跳过滑点检查: ${getErrorMessage(error)}`);
+    return { approved: true, slices: [size], warnings: [`订单簿不可用，未检查滑点: ${getErrorMessage(error)}`] };
+  }
+
+  const describe = `预估成交价 ${estimate.expectedPrice}，滑点 ${estimate.slippagePercent.toFixed(3)}%，价差 ${estimate.spreadPercent.toFixed(3)}%`;
+  logger.info(`${contract} ${sign > 0 ? "买入" : "卖出"} ${totalSize} 张: ${describe}`);
+
+  if (options.maxSpreadPercent > 0 && estimate.spreadPercent > options.maxSpreadPercent) {
+    const message = `${contract} 买卖价差 ${estimate.spreadPercent.toFixed(3)}% 超过阈值 ${options.maxSpreadPercent}%`;
+    if (!reduceOnly) {
+      return { approved: false, reason: message, slices: [], estimate, warnings };
+    }
+    warnings.push(message);
+  }
+
+  const withinSlippage = options.maxSlippagePercent <= 0
+    || (estimate.fillableSize >= totalSize && estimate.slippagePercent <= options.maxSlippagePercent);
+  if (withinSlippage) {
+    return { approved: true, slices: [size], estimate, warnings };
+  }
+
+  // 按阈值内可成交的张数拆分
+  const { step, minSize } = await getOrderSizeRules(contract);
+  const sliceSize = Math.floor(estimate.maxSizeWithinSlippage / step) * step;
+  const sliceCount = sliceSize >= minSize ? Math.ceil(totalSize / sliceSize) : Number.POSITIVE_INFINITY;
+  const depthNote = estimate.fillableSize < totalSize
+    ? `订单簿深度仅 ${estimate.fillableSize} 张`
+    : `预估滑点 ${estimate.slippagePercent.toFixed(3)}% 超过阈值 ${options.maxSlippagePercent}%`;
+
+  if (sliceCount <= options.maxSlices) {
+    const slices = splitSize(totalSize, sliceCount, step).map(s => sign * s);
+    warnings.push(`${depthNote}，拆分为 ${slices.length} 笔下单`);
+    return { approved: true, slices, estimate, warnings };
+  }
+
+  if (!reduceOnly) {
+    return {
+      approved: false,
+      reason: `${contract} ${depthNote}，滑点阈值内单笔最多成交 ${sliceSize} 张，拆分 ${options.maxSlices} 笔仍无法完成 ${totalSize} 张`,
+      slices: [],
+      estimate,
+      warnings,
+    };
+  }
+
+  const slices = splitSize(totalSize, Math.min(options.maxSlices, Math.max(1, Math.floor(totalSize / minSize))), step).map(s => sign * s);
+  warnings.push(`${depthNote}，只减仓订单拆分为 ${slices.length} 笔继续执行`);
+  return { approved: true, slices, estimate, warnings };
+}
@@ -0,0 +1,93 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 波动率服务
+ * 为移动止盈（ATR 吊灯止损）和分批止盈（ATR 倍数目标）提供 ATR，
+ * 按合约、周期、长度缓存，避免持仓监督器每次价格更新都拉取K线
+ * K线取自K线存储（只含已收盘K线），未收盘K线的波幅不计入 ATR
+ */
+import type { AtrSettings } from "../strategies/types";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { createCandleStore } from "./candleStore";
+import type { Candle } from "./exchangeClient";
+
+const logger = createLogger({
+  name: "volatility",
+  level: "info",
+});
+
+/** 默认 ATR 周期和长度 */
+const DEFAULT_ATR_TIMEFRAME = "1h";
+const DEFAULT_ATR_PERIOD = 14;
+
+/** ATR 缓存有效期（ATR_CACHE_TTL_SECONDS，默认 300 秒） */
+const ATR_CACHE_TTL_MS = Number.parseInt(process.env.ATR_CACHE_TTL_SECONDS || "300", 10) * 1000;
+
+const atrCache = new Map<string, { value: number; fetchedAt: number }>();
+
+/**
+ * 计算 ATR（最近 period 根K线真实波幅的平均值）
+ */
+export function calculateATR(candles: Candle[], period: number) {
+  if (!candles || candles.length < 2) return 0;
+  
+  const trs = [];
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const prevClose = candles[i - 1].close;
+    
+    if (Number.isFinite(high) && Number.isFinite(low) && Number.isFinite(prevClose)) {
+      const tr = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+      trs.push(tr);
+    }
+  }
+  
+  if (trs.length === 0) return 0;
+  return trs.slice(-period).reduce((a, b) => a + b, 0) / Math.min(period, trs.length);
+}
+
+/**
+ * 获取合约的 ATR（价格单位）
+ * 获取失败或K线不足时返回 0，调用方应视为 ATR 不可用
+ */
+export async function getAtr(contract: string, settings?: AtrSettings): Promise<number> {
+  const timeframe = settings?.timeframe || DEFAULT_ATR_TIMEFRAME;
+  const period = settings?.period || DEFAULT_ATR_PERIOD;
+  const key = `${contract}:${timeframe}:${period}`;
+  const now = Date.now();
+  
+  const cached = atrCache.get(key);
+  if (cached && now - cached.fetchedAt < ATR_CACHE_TTL_MS) {
+    return cached.value;
+  }
+  
+  try {
+    const candles = await createCandleStore().getCandles(contract, timeframe, period + 1);
+    const value = calculateATR(candles, period);
+    const atr = Number.isFinite(value) && value > 0 ? value : 0;
+    atrCache.set(key, { value: atr, fetchedAt: now });
+    return atr;
+  } catch (error) {
+    logger.warn(`获取 ${contract} ATR(${timeframe}, ${period}) 失败: ${getErrorMessage(error)}`);
+    // 获取失败时沿用过期的缓存值
+    return cached?.value ?? 0;
+  }
+}
+
@@ -16,7 +16,7 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * 激进策略配置
@@ -32,7 +32,7 @@ import type { StrategyParams, StrategyPromptContext } from "./types";
  * 核心策略：
  * - 单边行情：全力进攻（大仓位+高杠杆）
  * - 震荡行情：严格防守（小仓位+低杠杆）
- * - 风控方式：代码自动执行（enableCodeLevelProtection = true，监控器自动管理）
+ * - 风控方式：代码自动执行（enableCodeLevelProtection = true，持仓监督器自动管理）
  * 
  * @param maxLeverage - 系统允许的最大杠杆倍数（从配置文件读取）
  * @returns 激进策略的完整参数配置
@@ -76,7 +76,7 @@ export function getAggressiveStrategy(maxLeverage: number): StrategyParams {
     // ==================== 止损配置 ====================
     // 根据杠杆倍数分级止损
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，stopLossMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 stopLossMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     stopLoss: {
       low: -6,    // 低杠杆（如3-12倍，以30倍杠杆为例，亏损6%止损）
@@ -87,25 +87,29 @@ export function getAggressiveStrategy(maxLeverage: number): StrategyParams {
     // ==================== 移动止盈配置 ====================
     // 盈利后移动止损线保护利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，trailingStopMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 trailingStopMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     trailingStop: {
       // 激进策略：更晚锁定利润，追求更高收益
       // 基准：15倍杠杆，实际使用时AI会根据杠杆动态调整
-      level1: { trigger: 10, stopAt: 4 },  // 盈利达到 +10% 时，止损线移至 +4%（保护6%空间）
-      level2: { trigger: 18, stopAt: 10 }, // 盈利达到 +18% 时，止损线移至 +10%（保护8%空间）
-      level3: { trigger: 30, stopAt: 18 }, // 盈利达到 +30% 时，止损线移至 +18%（保护12%空间）
+      levels: [
+        { trigger: 10, stopAt: 4 },  // 盈利达到 +10% 时，止损线移至 +4%（保护6%空间）
+        { trigger: 18, stopAt: 10 }, // 盈利达到 +18% 时，止损线移至 +10%（保护8%空间）
+        { trigger: 30, stopAt: 18 }, // 盈利达到 +30% 时，止损线移至 +18%（保护12%空间）
+      ],
     },
     
     // ==================== 分批止盈配置 ====================
     // 逐步锁定利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，partialProfitMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 partialProfitMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     partialTakeProfit: {
-      stage1: { trigger: 25, closePercent: 40 },  // +25%时平仓40%（开始锁定，保留60%追求更高利润）
-      stage2: { trigger: 40, closePercent: 60 },  // +40%时平仓60%（累计平100%，全部锁定）
-      stage3: { trigger: 60, closePercent: 100 }, // +60%时全部清仓（防止利润回吐）
+      stages: [
+        { trigger: 25, closePercent: 40 },  // +25%时平仓40%（开始锁定，保留60%追求更高利润）
+        { trigger: 40, closePercent: 60 },  // +40%时平仓60%（累计平100%，全部锁定）
+        { trigger: 60, closePercent: 100 }, // +60%时全部清仓（防止利润回吐）
+      ],
     },
     
     // 峰值回撤保护：盈利从峰值回撤25%时，AI强烈建议平仓
@@ -135,7 +139,7 @@ export function getAggressiveStrategy(maxLeverage: number): StrategyParams {
     
     // ==================== 代码级保护开关 ====================
     // 控制上述 stopLoss、trailingStop、partialTakeProfit 的执行方式
-    // - true：代码自动执行（监控器每10秒检查，AI只需负责开仓）
+    // - true：代码自动执行（持仓监督器按价格实时检查，AI只需负责开仓）
     // - false：AI主动执行（AI根据配置在交易周期中判断和执行）
     enableCodeLevelProtection: true,
   };
@@ -183,3 +187,11 @@ export function generateAggressivePrompt(params: StrategyParams, context: Strate
 `;
 }
 
+/**
+ * 激进策略定义（注册到策略注册表）
+ */
+export const aggressiveStrategy: StrategyDefinition = {
+  id: "aggressive",
+  getParams: getAggressiveStrategy,
+  generatePrompt: generateAggressivePrompt,
+};
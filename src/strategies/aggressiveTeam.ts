@@ -16,7 +16,8 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import { summarizeTakeProfitStages, summarizeTrailingStopLevels } from "./exitRules";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * 激进团策略配置（团长+4团员专业分析决策模式）
@@ -37,7 +38,7 @@ import type { StrategyParams, StrategyPromptContext } from "./types";
  * - 团员4（风险控制专家）：评估持仓风险，提供仓位和杠杆优化建议
  * - 决策模式：4个团员提供专业分析报告，团长综合判断后果断执行
  * - 激进风格：就是干！看准机会立即出击，不犹豫不畏缩
- * - 风控方式：代码自动执行（enableCodeLevelProtection = true，监控器自动管理）
+ * - 风控方式：代码自动执行（enableCodeLevelProtection = true，持仓监督器自动管理）
  * 
  * @param maxLeverage - 系统允许的最大杠杆倍数（从配置文件读取）
  * @returns 激进团策略的完整参数配置
@@ -92,9 +93,11 @@ export function getAggressiveTeamStrategy(maxLeverage: number): StrategyParams {
     // 盈利后移动止损线保护利润
     // 优化策略：20倍杠杆下更积极保护利润，防止大幅回撤
     trailingStop: {
-      level1: { trigger: 15, stopAt: 8 },   // 盈利达到15%时，止损线移至8%（更早保护）
-      level2: { trigger: 30, stopAt: 20 },  // 盈利达到30%时，止损线移至20%
-      level3: { trigger: 50, stopAt: 35 },  // 盈利达到50%时，止损线移至35%
+      levels: [
+        { trigger: 15, stopAt: 8 },   // 盈利达到15%时，止损线移至8%（更早保护）
+        { trigger: 30, stopAt: 20 },  // 盈利达到30%时，止损线移至20%
+        { trigger: 50, stopAt: 35 },  // 盈利达到50%时，止损线移至35%
+      ],
     },
     // 说明：20倍杠杆下，15%盈利 = 本金的3倍收益，及时保护避免回吐
     
@@ -102,9 +105,11 @@ export function getAggressiveTeamStrategy(maxLeverage: number): StrategyParams {
     // 逐步锁定利润，20倍杠杆下更早止盈
     // ⚠️ 优化原则：大幅降低触发点，避免盈利变亏损！
     partialTakeProfit: {
-      stage1: { trigger: 10, closePercent: 30 },  // +10%时平仓30%（快速锁定利润）
-      stage2: { trigger: 20, closePercent: 50 },  // +20%时平仓50%（累计80%）
-      stage3: { trigger: 30, closePercent: 100 }, // +30%时全部清仓
+      stages: [
+        { trigger: 10, closePercent: 30 },  // +10%时平仓30%（快速锁定利润）
+        { trigger: 20, closePercent: 50 },  // +20%时平仓50%（累计80%）
+        { trigger: 30, closePercent: 100 }, // +30%时全部清仓
+      ],
     },
     // 说明：20倍杠杆下，10%盈利 = 本金的2倍收益，必须立即锁定！
     // ⚠️ 新增：+5%时AI应主动评估止盈，趋势减弱立即平仓
@@ -572,8 +577,8 @@ export function generateAggressiveTeamPrompt(params: StrategyParams, context: St
 - 杠杆范围：${params.leverageMin}-${params.leverageMax}倍
 - 仓位范围：${params.positionSizeMin}-${params.positionSizeMax}%
 - 止损线：低杠杆${params.stopLoss.low}%，中杠杆${params.stopLoss.mid}%（⚠️20倍适用），高杠杆${params.stopLoss.high}%
-- 移动止盈：+${params.trailingStop.level1.trigger}%移至+${params.trailingStop.level1.stopAt}%，+${params.trailingStop.level2.trigger}%移至+${params.trailingStop.level2.stopAt}%，+${params.trailingStop.level3.trigger}%移至+${params.trailingStop.level3.stopAt}%
-- 分批止盈：+${params.partialTakeProfit.stage1.trigger}%平${params.partialTakeProfit.stage1.closePercent}%，+${params.partialTakeProfit.stage2.trigger}%平${params.partialTakeProfit.stage2.closePercent}%，+${params.partialTakeProfit.stage3.trigger}%平${params.partialTakeProfit.stage3.closePercent}%
+- 移动止盈：${summarizeTrailingStopLevels(params.trailingStop)}
+- 分批止盈：${summarizeTakeProfitStages(params.partialTakeProfit)}
 - 峰值回撤保护：从峰值回撤${params.peakDrawdownProtection}%时触发保护
 
 🎯 【20倍杠杆风控重点】必读！
@@ -619,3 +624,44 @@ export function generateAggressiveTeamPrompt(params: StrategyParams, context: St
 `;
 }
 
+/**
+ * 激进团策略定义（注册到策略注册表）
+ */
+export const aggressiveTeamStrategy: StrategyDefinition = {
+  id: "aggressive-team",
+  getParams: getAggressiveTeamStrategy,
+  generatePrompt: generateAggressiveTeamPrompt,
+  createSubAgents: async (marketDataContext?: unknown) => {
+    const {
+      createAggressiveTeamTrendExpertAgent,
+      createAggressiveTeamPredictionExpertAgent,
+      createAggressiveTeamMoneyFlowExpertAgent,
+      createAggressiveTeamRiskControlExpertAgent,
+    } = await import("../agents/aggressiveTeamAgents");
+    // 团员：趋势分析专家、预测分析专家、资金流向分析专家、风险控制专家
+    return [
+      createAggressiveTeamTrendExpertAgent(marketDataContext),
+      createAggressiveTeamPredictionExpertAgent(marketDataContext),
+      createAggressiveTeamMoneyFlowExpertAgent(marketDataContext),
+      createAggressiveTeamRiskControlExpertAgent(marketDataContext),
+    ];
+  },
+  generateCycleWarnings: ({ positionCount }) => {
+    // 检查持仓数是否不足2个
+    if (positionCount >= 2) {
+      return "";
+    }
+    return `
+⚠️⚠️⚠️ 【紧急警告】当前持仓数不足2个！激进团铁律被违反！
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+当前持仓：${positionCount}个
+铁律要求：≥ 2个
+状态：❌ 违规
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+本次交易周期必须至少开1个新仓，确保持仓数达到2个！
+这是激进团的核心要求，不容违反！
+
+`;
+  },
+};
@@ -16,7 +16,7 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * AI自主策略配置
@@ -35,7 +35,7 @@ import type { StrategyParams, StrategyPromptContext } from "./types";
  * - AI完全自主分析和决策
  * - 仅保留系统级硬性风控底线
  * - 风控方式：双重防护（enableCodeLevelProtection = true + allowAiOverrideProtection = true）
- *   - 代码级自动止损：每10秒监控，触发阈值自动平仓（安全网）
+ *   - 代码级自动止损：持仓监督器按价格实时监控，触发阈值自动平仓（安全网）
  *   - AI主动决策：AI可以在代码级保护之前主动止盈止损（灵活性）
  * 
  * @param maxLeverage - 系统允许的最大杠杆倍数（从配置文件读取）
@@ -80,18 +80,22 @@ export function getAiAutonomousStrategy(maxLeverage: number): StrategyParams {
     // 代码级自动移动止盈配置（作为利润保护网）
     // AI可以在此之前主动止盈，这些是自动保护机制
     trailingStop: {
-      level1: { trigger: 5, stopAt: 3 },    // 盈利5%时，止损线移至+2%
-      level2: { trigger: 10, stopAt: 5 },   // 盈利10%时，止损线移至+5%
-      level3: { trigger: 15, stopAt: 10 },   // 盈利15%时，止损线移至+8%
+      levels: [
+        { trigger: 5, stopAt: 3 },    // 盈利5%时，止损线移至+2%
+        { trigger: 10, stopAt: 5 },   // 盈利10%时，止损线移至+5%
+        { trigger: 15, stopAt: 10 },   // 盈利15%时，止损线移至+8%
+      ],
     },
     
     // ==================== 分批止盈配置 ====================
     // 代码级自动分批止盈配置（作为利润锁定机制）
     // AI可以在此之前主动止盈，这些是自动锁利机制
     partialTakeProfit: {
-      stage1: { trigger: 20, closePercent: 30 },   // 盈利8%时，自动平仓30%
-      stage2: { trigger: 30, closePercent: 30 },  // 盈利12%时，自动平仓30%
-      stage3: { trigger: 40, closePercent: 100 },  // 盈利18%时，自动平仓40%
+      stages: [
+        { trigger: 20, closePercent: 30 },   // 盈利8%时，自动平仓30%
+        { trigger: 30, closePercent: 30 },  // 盈利12%时，自动平仓30%
+        { trigger: 40, closePercent: 100 },  // 盈利18%时，自动平仓40%
+      ],
     },
     
     // ==================== 峰值回撤保护 ====================
@@ -121,7 +125,7 @@ export function getAiAutonomousStrategy(maxLeverage: number): StrategyParams {
     tradingStyle: "由AI根据市场机会自主决定交易风格和频率",  // 交易风格
     
     // ==================== 代码级保护开关 ====================
-    // 启用代码级保护（每10秒自动监控止损止盈）
+    // 启用代码级保护（持仓监督器按价格实时监控止损止盈）
     enableCodeLevelProtection: true,
     
     // ==================== 双重防护模式 ====================
@@ -172,7 +176,7 @@ export function generateAiAutonomousPrompt(params: StrategyParams, context: Stra
 
 **双重防护机制**（保护你的交易安全）：
 
-**第一层：代码级自动保护**（每10秒监控，自动执行）
+**第一层：代码级自动保护**（持仓监督器按价格实时监控，自动执行）
 - 自动止损：
   • 低杠杆（1-5倍）：亏损达到 -8% 自动平仓
   • 中杠杆（6-10倍）：亏损达到 -6% 自动平仓
@@ -264,3 +268,12 @@ export function generateAiAutonomousPrompt(params: StrategyParams, context: Stra
 `;
 }
 
+/**
+ * AI自主策略定义（注册到策略注册表）
+ */
+export const aiAutonomousStrategy: StrategyDefinition = {
+  id: "ai-autonomous",
+  getParams: getAiAutonomousStrategy,
+  generatePrompt: generateAiAutonomousPrompt,
+  autonomous: true,
+};
@@ -16,7 +16,8 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import { formatTakeProfitStages, formatTrailingStopLevels } from "./exitRules";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * Alpha Beta 策略配置
@@ -81,9 +82,11 @@ export function getAlphaBetaStrategy(maxLeverage: number): StrategyParams {
     // 代码级自动移动止盈配置（作为利润保护网）
     // AI可以在此之前主动止盈，这些是自动保护机制
     trailingStop: {
-      level1: { trigger: 5, stopAt: 2 },     // 盈利5%时，止损线移至+2%
-      level2: { trigger: 10, stopAt: 5 },    // 盈利10%时，止损线移至+5%
-      level3: { trigger: 15, stopAt: 10 },   // 盈利15%时，止损线移至+10%
+      levels: [
+        { trigger: 5, stopAt: 2 },     // 盈利5%时，止损线移至+2%
+        { trigger: 10, stopAt: 5 },    // 盈利10%时，止损线移至+5%
+        { trigger: 15, stopAt: 10 },   // 盈利15%时，止损线移至+10%
+      ],
     },
     
     // ==================== 分批止盈配置 ====================
@@ -91,9 +94,11 @@ export function getAlphaBetaStrategy(maxLeverage: number): StrategyParams {
     // AI可以在此之前主动止盈，这些是自动锁利机制
     // 低频策略，设置更现实的止盈目标
     partialTakeProfit: {
-      stage1: { trigger: 10, closePercent: 40 },   // 盈利10%时，自动平仓40%（锁定核心利润）
-      stage2: { trigger: 18, closePercent: 40 },   // 盈利18%时，自动平仓40%（保守第二目标）
-      stage3: { trigger: 30, closePercent: 20 },   // 盈利30%时，自动平仓剩余20%（终极目标）
+      stages: [
+        { trigger: 10, closePercent: 40 },   // 盈利10%时，自动平仓40%（锁定核心利润）
+        { trigger: 18, closePercent: 40 },   // 盈利18%时，自动平仓40%（保守第二目标）
+        { trigger: 30, closePercent: 20 },   // 盈利30%时，自动平仓剩余20%（终极目标）
+      ],
     },
     
     // ==================== 峰值回撤保护 ====================
@@ -123,7 +128,7 @@ export function getAlphaBetaStrategy(maxLeverage: number): StrategyParams {
     tradingStyle: "完全由 AI 根据市场机会自主决定交易风格和频率，鼓励探索和学习",
     
     // ==================== 代码级保护开关 ====================
-    // 启用代码级保护（每10秒自动监控止损止盈）
+    // 启用代码级保护（持仓监督器按价格实时监控止损止盈）
     enableCodeLevelProtection: true,
     
     // ==================== 双重防护模式 ====================
@@ -554,7 +559,7 @@ export function generateAlphaBetaPrompt(
 
 **系统自动保护（最后的安全网）**：
 
-系统每10秒自动监控所有持仓，在极端情况下自动触发保护：
+系统持仓监督器按价格实时监控所有持仓，在极端情况下自动触发保护：
 
 1. **自动止损**（防止爆仓，AI应在此之前主动止损-3%）：
    - 低杠杆（1-5倍）：亏损 ${params.stopLoss.low}% 代码自动平仓
@@ -562,14 +567,10 @@ export function generateAlphaBetaPrompt(
    - 高杠杆（11倍以上）：亏损 ${params.stopLoss.high}% 代码自动平仓
 
 2. **自动移动止盈**（锁定利润）：
-   - 盈利 ${params.trailingStop.level1.trigger}% → 止损移至 +${params.trailingStop.level1.stopAt}%
-   - 盈利 ${params.trailingStop.level2.trigger}% → 止损移至 +${params.trailingStop.level2.stopAt}%
-   - 盈利 ${params.trailingStop.level3.trigger}% → 止损移至 +${params.trailingStop.level3.stopAt}%
+${formatTrailingStopLevels(params.trailingStop, "   - ")}
 
 3. **自动分批止盈**（逐步获利，更现实的目标）：
-   - 盈利 ${params.partialTakeProfit.stage1.trigger}% → 自动平仓 ${params.partialTakeProfit.stage1.closePercent}%（锁定核心利润）
-   - 盈利 ${params.partialTakeProfit.stage2.trigger}% → 自动平仓 ${params.partialTakeProfit.stage2.closePercent}%（保守第二目标）
-   - 盈利 ${params.partialTakeProfit.stage3.trigger}% → 自动平仓 ${params.partialTakeProfit.stage3.closePercent}%（终极目标）
+${formatTakeProfitStages(params.partialTakeProfit, "   - ")}
 
 **建议**：不要等待系统自动触发，应该主动管理持仓。
 看到不利信号时主动止损，看到获利机会时主动止盈。
@@ -694,3 +695,14 @@ export function generateAlphaBetaPrompt(
 `;
 }
 
+/**
+ * Alpha Beta策略定义（注册到策略注册表）
+ */
+export const alphaBetaStrategy: StrategyDefinition = {
+  id: "alpha-beta",
+  getParams: getAlphaBetaStrategy,
+  generatePrompt: generateAlphaBetaPrompt,
+  intervalMinutes: 30,
+  autonomous: true,
+  autonomousPreamble: "你的所有行为都会被记录和分析，用于持续改进和学习。",
+};
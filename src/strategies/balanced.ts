@@ -16,7 +16,7 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * 平衡策略配置
@@ -76,7 +76,7 @@ export function getBalancedStrategy(maxLeverage: number): StrategyParams {
     // ==================== 止损配置 ====================
     // 根据杠杆倍数分级止损
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，stopLossMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 stopLossMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     stopLoss: {
       low: -3,    // 低杠杆时：亏损3%止损（如使用2-5倍杠杆）
@@ -87,26 +87,30 @@ export function getBalancedStrategy(maxLeverage: number): StrategyParams {
     // ==================== 移动止盈配置 ====================
     // 盈利后移动止损线保护利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，trailingStopMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 trailingStopMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     trailingStop: {
       // 平衡策略：适中的移动止盈（基准：15倍杠杆）
       // 注意：这些是基准值，实际使用时AI会根据杠杆动态调整
-      level1: { trigger: 8, stopAt: 3 },    // 盈利达到 +8% 时，止损线移至 +3%（保护5%空间）
-      level2: { trigger: 15, stopAt: 8 },   // 盈利达到 +15% 时，止损线移至 +8%（保护7%空间）
-      level3: { trigger: 25, stopAt: 15 },  // 盈利达到 +25% 时，止损线移至 +15%（保护10%空间）
+      levels: [
+        { trigger: 8, stopAt: 3 },    // 盈利达到 +8% 时，止损线移至 +3%（保护5%空间）
+        { trigger: 15, stopAt: 8 },   // 盈利达到 +15% 时，止损线移至 +8%（保护7%空间）
+        { trigger: 25, stopAt: 15 },  // 盈利达到 +25% 时，止损线移至 +15%（保护10%空间）
+      ],
     },
     
     // ==================== 分批止盈配置 ====================
     // 逐步锁定利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，partialProfitMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 partialProfitMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     partialTakeProfit: {
       // 平衡策略：标准分批止盈，逐步锁定利润
-      stage1: { trigger: 30, closePercent: 50 },   // +30%时平仓50%（锁定部分利润）
-      stage2: { trigger: 40, closePercent: 50 },   // +40%时平仓剩余50%（累计平100%）
-      stage3: { trigger: 50, closePercent: 100 },  // +50%时全部清仓（防止利润回吐）
+      stages: [
+        { trigger: 30, closePercent: 50 },   // +30%时平仓50%（锁定部分利润）
+        { trigger: 40, closePercent: 50 },   // +40%时平仓剩余50%（累计平100%）
+        { trigger: 50, closePercent: 100 },  // +50%时全部清仓（防止利润回吐）
+      ],
     },
     
     // ==================== 峰值回撤保护 ====================
@@ -138,7 +142,7 @@ export function getBalancedStrategy(maxLeverage: number): StrategyParams {
     
     // ==================== 代码级保护开关 ====================
     // 控制上述 stopLoss、trailingStop、partialTakeProfit 的执行方式
-    // - true：代码自动执行（监控器每10秒检查，AI只需负责开仓）
+    // - true：代码自动执行（持仓监督器按价格实时检查，AI只需负责开仓）
     // - false：AI主动执行（AI根据配置在交易周期中判断和执行）
     enableCodeLevelProtection: false,
   };
@@ -182,3 +186,11 @@ export function generateBalancedPrompt(params: StrategyParams, context: Strategy
 `;
 }
 
+/**
+ * 平衡策略定义（注册到策略注册表）
+ */
+export const balancedStrategy: StrategyDefinition = {
+  id: "balanced",
+  getParams: getBalancedStrategy,
+  generatePrompt: generateBalancedPrompt,
+};
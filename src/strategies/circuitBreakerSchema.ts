@@ -0,0 +1,87 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 熔断规则校验（API 保存的规则、策略参数、声明式策略文件共用）
+ */
+import { z } from "zod";
+import type { CircuitBreakerMetric, CircuitBreakerRule } from "./types";
+
+const METRICS: [CircuitBreakerMetric, ...CircuitBreakerMetric[]] = [
+  "realized_pnl",
+  "single_trade_loss",
+  "equity_drawdown",
+  "consecutive_losses",
+  "symbol_loss_streak",
+  "llm_error_rate",
+];
+
+/**
+ * 单条熔断规则
+ */
+export const circuitBreakerRuleSchema = z.object({
+  id: z.string().regex(/^[a-zA-Z0-9][a-zA-Z0-9_-]*$/, "只能包含字母、数字、- 和 _"),
+  name: z.string().optional(),
+  enabled: z.boolean().optional(),
+  metric: z.enum(METRICS),
+  window: z.string().regex(/^(today|\d+(\.\d+)?[mhd])$/, "格式应为 today 或 30m、4h、2d 等").optional(),
+  threshold: z.number(),
+  minSamples: z.number().int().positive().optional(),
+  haltMinutes: z.number().positive(),
+  escalation: z.object({
+    multiplier: z.number().min(1).optional(),
+    maxLevel: z.number().int().min(1).optional(),
+  }).strict().optional(),
+  cooldownFactor: z.number().gt(0).max(1).optional(),
+}).strict().superRefine((rule, ctx) => {
+  const negative = rule.metric === "realized_pnl" || rule.metric === "single_trade_loss";
+  if (negative && rule.threshold >= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: `${rule.metric} 的阈值应为负数（亏损百分比）` });
+  }
+  if (!negative && rule.threshold <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: `${rule.metric} 的阈值应为正数` });
+  }
+  if ((rule.metric === "consecutive_losses" || rule.metric === "symbol_loss_streak") && !Number.isInteger(rule.threshold)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "连续亏损笔数应为整数" });
+  }
+  if (rule.metric === "llm_error_rate" && rule.threshold > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "失败率阈值不能超过 100" });
+  }
+});
+
+export const circuitBreakerRulesSchema = z.array(circuitBreakerRuleSchema).superRefine((rules, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: `规则ID重复: ${rule.id}` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+/**
+ * 校验熔断规则，失败时抛出包含所有错误的异常
+ */
+export function parseCircuitBreakerRules(value: unknown): CircuitBreakerRule[] {
+  const result = circuitBreakerRulesSchema.safeParse(value);
+  if (!result.success) {
+    const messages = result.error.issues.map(issue => `${issue.path.join(".") || "(根)"}: ${issue.message}`);
+    throw new Error(`熔断规则无效: ${messages.join("; ")}`);
+  }
+  return result.data;
+}
@@ -16,7 +16,7 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * 稳健策略配置
@@ -76,7 +76,7 @@ export function getConservativeStrategy(maxLeverage: number): StrategyParams {
     // ==================== 止损配置 ====================
     // 根据杠杆倍数分级止损
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，stopLossMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 stopLossMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     stopLoss: {
       low: -3.5,   // 低杠杆时：亏损3.5%止损（如使用1-3倍杠杆）
@@ -87,26 +87,30 @@ export function getConservativeStrategy(maxLeverage: number): StrategyParams {
     // ==================== 移动止盈配置 ====================
     // 盈利后移动止损线保护利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，trailingStopMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 trailingStopMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     trailingStop: {
       // 保守策略：较早锁定利润（基准：15倍杠杆）
       // 注意：这些是基准值，实际使用时AI会根据杠杆动态调整
-      level1: { trigger: 6, stopAt: 2 },    // 盈利达到 +6% 时，止损线移至 +2%（保护4%空间）
-      level2: { trigger: 12, stopAt: 6 },   // 盈利达到 +12% 时，止损线移至 +6%（保护6%空间）
-      level3: { trigger: 20, stopAt: 12 },  // 盈利达到 +20% 时，止损线移至 +12%（保护8%空间）
+      levels: [
+        { trigger: 6, stopAt: 2 },    // 盈利达到 +6% 时，止损线移至 +2%（保护4%空间）
+        { trigger: 12, stopAt: 6 },   // 盈利达到 +12% 时，止损线移至 +6%（保护6%空间）
+        { trigger: 20, stopAt: 12 },  // 盈利达到 +20% 时，止损线移至 +12%（保护8%空间）
+      ],
     },
     
     // ==================== 分批止盈配置 ====================
     // 逐步锁定利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，partialProfitMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 partialProfitMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     partialTakeProfit: {
       // 保守策略：较早分批止盈，提前锁定利润
-      stage1: { trigger: 20, closePercent: 50 },   // +20%时平仓50%（较早锁定）
-      stage2: { trigger: 30, closePercent: 50 },   // +30%时平仓剩余50%（累计平100%）
-      stage3: { trigger: 40, closePercent: 100 },  // +40%时全部清仓（防止利润回吐）
+      stages: [
+        { trigger: 20, closePercent: 50 },   // +20%时平仓50%（较早锁定）
+        { trigger: 30, closePercent: 50 },   // +30%时平仓剩余50%（累计平100%）
+        { trigger: 40, closePercent: 100 },  // +40%时全部清仓（防止利润回吐）
+      ],
     },
     
     // ==================== 峰值回撤保护 ====================
@@ -138,7 +142,7 @@ export function getConservativeStrategy(maxLeverage: number): StrategyParams {
     
     // ==================== 代码级保护开关 ====================
     // 控制上述 stopLoss、trailingStop、partialTakeProfit 的执行方式
-    // - true：代码自动执行（监控器每10秒检查，AI只需负责开仓）
+    // - true：代码自动执行（持仓监督器按价格实时检查，AI只需负责开仓）
     // - false：AI主动执行（AI根据配置在交易周期中判断和执行）
     enableCodeLevelProtection: false,
   };
@@ -184,3 +188,11 @@ export function generateConservativePrompt(params: StrategyParams, context: Stra
 `;
 }
 
+/**
+ * 稳健策略定义（注册到策略注册表）
+ */
+export const conservativeStrategy: StrategyDefinition = {
+  id: "conservative",
+  getParams: getConservativeStrategy,
+  generatePrompt: generateConservativePrompt,
+};
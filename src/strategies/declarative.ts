@@ -0,0 +1,319 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 声明式策略 - 通过 YAML / JSON 配置文件定义策略
+ * 
+ * 配置文件字段与 StrategyParams 一致，额外支持：
+ * - id：策略标识（必填），通过 TRADING_STRATEGY=<id> 使用
+ * - extends：继承的策略（可选），未填写的字段沿用该策略的参数和提示词
+ * - leverageMin / leverageMax：可以是倍数（如 10），也可以是最大杠杆的百分比（如 "50%"）
+ * - intervalMinutes：推荐执行周期（分钟）
+ * - prompt：策略特有提示词，支持 {{intervalMinutes}}、{{leverageMax}} 等占位符
+ * - trailingStop.levels / partialTakeProfit.stages：任意数量的级别，整体替换继承的配置
+ *   （旧格式 level1/level2/...、stage1/stage2/... 仍然支持，按编号覆盖继承配置中对应的级别）
+ * - circuitBreakerRules：策略的熔断规则，整体替换继承的规则
+ * 
+ * 示例（strategies/my-balanced.yaml）：
+ * ```yaml
+ * id: my-balanced
+ * extends: balanced
+ * name: 我的平衡
+ * leverageMax: "60%"
+ * stopLoss: { low: -8, mid: -6, high: -5 }
+ * trailingStop:
+ *   breakEven: { offset: 1 }
+ *   levels:
+ *     - { trigger: 10, stopAt: 4 }
+ *     - { trigger: 20, givebackPercent: 40 }
+ *     - { trigger: 40, atrMultiplier: 3 }
+ * prompt: |
+ *   每{{intervalMinutes}}分钟检查一次，只做 1 小时趋势方向的交易
+ * ```
+ * 
+ * 文件先按 schema 校验字段类型，再用 validateStrategyParams 校验合并后的完整参数。
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { RISK_PARAMS } from "../config/riskParams";
+import { circuitBreakerRulesSchema } from "./circuitBreakerSchema";
+import { getStrategyDefinition } from "./registry";
+import { ORDER_TYPES, type StrategyDefinition, type StrategyParams, type StrategyPromptContext } from "./types";
+import { validateStrategyParams } from "./validation";
+
+/** 声明式策略支持的文件扩展名 */
+export const DECLARATIVE_STRATEGY_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+/** 杠杆：倍数或最大杠杆的百分比（如 "50%"） */
+const leverageSchema = z.union([z.number().positive(), z.string().regex(/^\d+(\.\d+)?%$/, "格式应为数字或百分比，如 \"50%\"")]);
+
+const recommendSchema = z.object({
+  normal: z.string(),
+  good: z.string(),
+  strong: z.string(),
+}).partial().strict();
+
+const trailingLevelSchema = z.object({
+  trigger: z.number(),
+  stopAt: z.number().optional(),
+  givebackPercent: z.number().optional(),
+  atrMultiplier: z.number().optional(),
+}).strict();
+
+const takeProfitStageSchema = z.object({
+  trigger: z.number().optional(),
+  atrMultiple: z.number().optional(),
+  closePercent: z.number(),
+}).strict();
+
+/** 旧格式的编号级别（level1、stage2 等），只需填写要覆盖的字段 */
+const legacyLevelSchema = z.object({
+  trigger: z.number(),
+  stopAt: z.number(),
+  closePercent: z.number(),
+}).partial().strict();
+
+/**
+ * 旧格式的编号级别名称校验（除 allowed 之外的字段只能是 prefix + 编号）
+ */
+function legacyKeys(prefix: "level" | "stage", allowed: string[]) {
+  const pattern = new RegExp(`^${prefix}\\d+$`);
+  return (value: Record<string, unknown>, ctx: z.RefinementCtx) => {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key) && !pattern.test(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `未知字段，编号级别应为 ${prefix}1、${prefix}2 ...` });
+      }
+    }
+  };
+}
+
+const volatilityFactorSchema = z.object({
+  leverageFactor: z.number(),
+  positionFactor: z.number(),
+}).partial().strict();
+
+const declarativeStrategySchema = z.object({
+  id: z.string().regex(/^[a-zA-Z0-9][a-zA-Z0-9_-]*$/, "只能包含字母、数字、- 和 _"),
+  extends: z.string().optional(),
+  intervalMinutes: z.number().int().positive().optional(),
+  autonomous: z.boolean().optional(),
+  prompt: z.string().optional(),
+
+  name: z.string().optional(),
+  description: z.string().optional(),
+  leverageMin: leverageSchema.optional(),
+  leverageMax: leverageSchema.optional(),
+  leverageRecommend: recommendSchema.optional(),
+  positionSizeMin: z.number().optional(),
+  positionSizeMax: z.number().optional(),
+  maxTotalMarginPercent: z.number().positive().max(100).optional(),
+  positionSizeRecommend: recommendSchema.optional(),
+  stopLoss: z.object({
+    low: z.number(),
+    mid: z.number(),
+    high: z.number(),
+  }).partial().strict().optional(),
+  trailingStop: z.object({
+    levels: z.array(trailingLevelSchema).min(1),
+    breakEven: z.object({
+      trigger: z.number(),
+      offset: z.number(),
+    }).partial().strict(),
+  }).partial().catchall(legacyLevelSchema).superRefine(legacyKeys("level", ["levels", "breakEven"])).optional(),
+  partialTakeProfit: z.object({
+    stages: z.array(takeProfitStageSchema).min(1),
+  }).partial().catchall(legacyLevelSchema).superRefine(legacyKeys("stage", ["stages"])).optional(),
+  atr: z.object({
+    timeframe: z.string(),
+    period: z.number().int().positive(),
+  }).partial().strict().optional(),
+  peakDrawdownProtection: z.number().optional(),
+  volatilityAdjustment: z.object({
+    highVolatility: volatilityFactorSchema,
+    normalVolatility: volatilityFactorSchema,
+    lowVolatility: volatilityFactorSchema,
+  }).partial().strict().optional(),
+  entryCondition: z.string().optional(),
+  riskTolerance: z.string().optional(),
+  tradingStyle: z.string().optional(),
+  enableCodeLevelProtection: z.boolean().optional(),
+  allowAiOverrideProtection: z.boolean().optional(),
+  orderType: z.enum(ORDER_TYPES).optional(),
+  circuitBreakerRules: circuitBreakerRulesSchema.optional(),
+}).strict();
+
+export type DeclarativeStrategyConfig = z.infer<typeof declarativeStrategySchema>;
+
+/**
+ * 读取并校验声明式策略文件
+ * @throws 文件格式错误或参数校验失败时抛出错误（包含全部错误信息）
+ */
+export function loadDeclarativeStrategy(file: string): StrategyDefinition {
+  const content = fs.readFileSync(file, "utf-8");
+  const raw = path.extname(file) === ".json" ? JSON.parse(content) : parseYaml(content);
+
+  const parsed = declarativeStrategySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "(根)"}: ${issue.message}`);
+    throw new Error(`策略文件格式错误:\n  - ${issues.join("\n  - ")}`);
+  }
+
+  const definition = buildDeclarativeStrategy(parsed.data);
+
+  // 用当前最大杠杆生成完整参数并校验
+  const { errors } = validateStrategyParams(definition.getParams(RISK_PARAMS.MAX_LEVERAGE));
+  if (errors.length > 0) {
+    throw new Error(`策略 ${definition.id} 参数校验失败:\n  - ${errors.join("\n  - ")}`);
+  }
+
+  return definition;
+}
+
+/**
+ * 根据配置生成策略定义
+ */
+export function buildDeclarativeStrategy(config: DeclarativeStrategyConfig): StrategyDefinition {
+  const {
+    id,
+    extends: baseId,
+    intervalMinutes,
+    autonomous,
+    prompt,
+    leverageMin,
+    leverageMax,
+    ...overrides
+  } = config;
+
+  const base = baseId ? getStrategyDefinition(baseId) : undefined;
+  if (baseId && !base) {
+    throw new Error(`继承的策略不存在: ${baseId}`);
+  }
+  if (baseId === id) {
+    throw new Error(`策略不能继承自身: ${id}`);
+  }
+
+  const getParams = (maxLeverage: number): StrategyParams => {
+    const params = mergeParams<StrategyParams>(base ? base.getParams(maxLeverage) : {}, overrides);
+    applyLegacyLadder(params.trailingStop, "levels", "level");
+    applyLegacyLadder(params.partialTakeProfit, "stages", "stage");
+    if (leverageMin !== undefined) {
+      params.leverageMin = resolveLeverage(leverageMin, maxLeverage);
+    }
+    if (leverageMax !== undefined) {
+      params.leverageMax = resolveLeverage(leverageMax, maxLeverage);
+    }
+    // 修改了杠杆范围但未指定推荐杠杆时，按新的杠杆范围生成
+    if ((leverageMin !== undefined || leverageMax !== undefined) && !overrides.leverageRecommend) {
+      params.leverageRecommend = {
+        normal: `${params.leverageMin}倍`,
+        good: `${Math.round((params.leverageMin + params.leverageMax) / 2)}倍`,
+        strong: `${params.leverageMax}倍`,
+      };
+    }
+    return params;
+  };
+
+  const generatePrompt = (params: StrategyParams, context: StrategyPromptContext): string => {
+    if (prompt !== undefined) {
+      return renderPrompt(prompt, params, context);
+    }
+    return base ? base.generatePrompt(params, context) : "";
+  };
+
+  return {
+    ...base,
+    id,
+    getParams,
+    generatePrompt,
+    intervalMinutes: intervalMinutes ?? base?.intervalMinutes,
+    autonomous: autonomous ?? base?.autonomous,
+  };
+}
+
+/**
+ * 杠杆配置转换为倍数（不超过系统最大杠杆）
+ */
+function resolveLeverage(value: number | string, maxLeverage: number): number {
+  if (typeof value === "string") {
+    const percent = Number.parseFloat(value);
+    return Math.max(1, Math.ceil(maxLeverage * percent / 100));
+  }
+  return Math.min(value, maxLeverage);
+}
+
+/**
+ * 深度合并参数（覆盖值中的对象逐字段合并）
+ */
+function mergeParams<T extends object>(base: Partial<T>, overrides: object): T {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      continue;
+    }
+    const current = result[key];
+    if (isPlainObject(value) && isPlainObject(current)) {
+      result[key] = mergeParams(current, value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result as T;
+}
+
+/**
+ * 将旧格式的编号级别（level1、stage2 等）按编号合并到数组中（levelN 覆盖第 N 个级别的对应字段）
+ */
+function applyLegacyLadder(target: object | undefined, key: string, prefix: string): void {
+  const config = target as Record<string, unknown> | undefined;
+  const pattern = new RegExp(`^${prefix}(\\d+)$`);
+  const legacyNames = config ? Object.keys(config).filter(name => pattern.test(name)) : [];
+  if (!config || legacyNames.length === 0) {
+    return;
+  }
+  const current = config[key];
+  const ladder: Record<string, unknown>[] = Array.isArray(current) ? current.map((item: object) => ({ ...item })) : [];
+  for (const name of legacyNames) {
+    const index = Number.parseInt(name.slice(prefix.length)) - 1;
+    ladder[index] = { ...ladder[index], ...(config[name] as object) };
+    delete config[name];
+  }
+  config[key] = ladder.filter(Boolean);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * 替换提示词中的 {{占位符}}（运行时上下文和策略参数中的字段）
+ */
+function renderPrompt(template: string, params: StrategyParams, context: StrategyPromptContext): string {
+  const values: Record<string, unknown> = { ...params, ...context };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+    const value = values[key];
+    if (Array.isArray(value)) {
+      return value.join("、");
+    }
+    if (value === undefined || isPlainObject(value)) {
+      return match;
+    }
+    return String(value);
+  });
+}
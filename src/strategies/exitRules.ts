@@ -0,0 +1,111 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 移动止盈、保本、分批止盈规则的文字描述（提示词、启动日志使用）
+ */
+import type { PartialTakeProfitConfig, TakeProfitStage, TrailingStopConfig, TrailingStopLevel } from "./types";
+
+/**
+ * 描述单个移动止盈级别
+ */
+export function describeTrailingStopLevel(level: TrailingStopLevel): string {
+  const reached = `峰值达到 ${level.trigger}% 时`;
+  if (level.givebackPercent !== undefined) {
+    return `${reached}，回吐峰值盈利的 ${level.givebackPercent}% 平仓`;
+  }
+  if (level.atrMultiplier !== undefined) {
+    return `${reached}，价格从峰值回撤 ${level.atrMultiplier} 倍 ATR 平仓（吊灯止损）`;
+  }
+  return `${reached}，回落至 ${level.stopAt}% 平仓`;
+}
+
+/**
+ * 描述保本规则（未配置时返回 null）
+ */
+export function describeBreakEven(config: TrailingStopConfig): string | null {
+  if (!config.breakEven) {
+    return null;
+  }
+  const { trigger, offset = 0 } = config.breakEven;
+  const when = trigger !== undefined ? `峰值达到 ${trigger}% 时` : "第一个分批止盈目标执行后";
+  return `${when}，止损线移至 ${offset}%（保本）`;
+}
+
+/**
+ * 描述单个分批止盈阶段
+ */
+export function describeTakeProfitStage(stage: TakeProfitStage): string {
+  const when = stage.atrMultiple !== undefined
+    ? `价格顺势移动 ${stage.atrMultiple} 倍 ATR 时`
+    : `盈利达到 ${stage.trigger}% 时`;
+  return `${when}，平仓 ${stage.closePercent}%`;
+}
+
+/**
+ * 逐行列出移动止盈级别（保本规则排在最前）
+ * @param prefix 每行的前缀（缩进和项目符号）
+ */
+export function formatTrailingStopLevels(config: TrailingStopConfig, prefix: string): string {
+  const lines = config.levels.map((level, index) => `${prefix}Level ${index + 1}: ${describeTrailingStopLevel(level)}`);
+  const breakEven = describeBreakEven(config);
+  if (breakEven) {
+    lines.unshift(`${prefix}保本: ${breakEven}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 逐行列出分批止盈阶段
+ * @param prefix 每行的前缀（缩进和项目符号）
+ */
+export function formatTakeProfitStages(config: PartialTakeProfitConfig, prefix: string): string {
+  return config.stages.map((stage, index) => `${prefix}Stage ${index + 1}: ${describeTakeProfitStage(stage)}`).join("\n");
+}
+
+/**
+ * 单行概括移动止盈规则，如 "+10%移至+4%，+30%回吐峰值40%"
+ */
+export function summarizeTrailingStopLevels(config: TrailingStopConfig): string {
+  const parts = config.levels.map((level) => {
+    if (level.givebackPercent !== undefined) {
+      return `+${level.trigger}%回吐峰值${level.givebackPercent}%`;
+    }
+    if (level.atrMultiplier !== undefined) {
+      return `+${level.trigger}%起峰值回撤${level.atrMultiplier}倍ATR`;
+    }
+    return `+${level.trigger}%移至+${level.stopAt}%`;
+  });
+  const breakEven = config.breakEven;
+  if (breakEven) {
+    const when = breakEven.trigger !== undefined ? `+${breakEven.trigger}%` : "首个止盈目标后";
+    parts.unshift(`${when}保本(+${breakEven.offset ?? 0}%)`);
+  }
+  return parts.join("，");
+}
+
+/**
+ * 单行概括分批止盈规则，如 "+10%平30%，2倍ATR平60%"
+ */
+export function summarizeTakeProfitStages(config: PartialTakeProfitConfig): string {
+  return config.stages
+    .map((stage) => stage.atrMultiple !== undefined
+      ? `${stage.atrMultiple}倍ATR平${stage.closePercent}%`
+      : `+${stage.trigger}%平${stage.closePercent}%`)
+    .join("，");
+}
@@ -22,6 +22,7 @@
  * 本模块提供了系统所有交易策略的统一入口，包括：
  * - 类型定义导出
  * - 各个策略实现导出
+ * - 内置策略注册（策略注册表见 registry.ts，策略目录加载见 loader.ts）
  * - 策略选择逻辑
  * - 提示词生成逻辑
  * 
@@ -32,35 +33,105 @@
  * const params = getStrategyParams("aggressive", 25);  // 获取激进策略参数（最大杠杆25倍）
  * const prompt = generateStrategySpecificPrompt("aggressive", params, context);  // 生成AI提示词
  * ```
+ * 
+ * 新增策略：
+ * ```typescript
+ * import { registerStrategy } from "./strategies";
+ * 
+ * registerStrategy({ id: "my-strategy", getParams: getMyStrategy, generatePrompt: generateMyPrompt });
+ * ```
  */
 
 // ==================== 类型定义导出 ====================
-export type { TradingStrategy, StrategyParams, StrategyPromptContext } from "./types";
+export type {
+  TradingStrategy,
+  StrategyParams,
+  StrategyPromptContext,
+  StrategyDefinition,
+  StrategyPositionContext,
+  StrategyPositionRule,
+  StrategyDecisionAgent,
+  OrderType,
+  TrailingStopLevel,
+  TrailingStopConfig,
+  TakeProfitStage,
+  PartialTakeProfitConfig,
+  AtrSettings,
+  CircuitBreakerMetric,
+  CircuitBreakerRule,
+} from "./types";
+export { ORDER_TYPES } from "./types";
+export {
+  describeTrailingStopLevel,
+  describeBreakEven,
+  describeTakeProfitStage,
+  formatTrailingStopLevels,
+  formatTakeProfitStages,
+  summarizeTrailingStopLevels,
+  summarizeTakeProfitStages,
+} from "./exitRules";
+// ==================== 策略注册表导出 ====================
+export { registerStrategy, getStrategyDefinition, listStrategies } from "./registry";
+export { loadStrategyPlugins, watchStrategyPlugins, stopWatchingStrategyPlugins } from "./loader";
+export { validateStrategyParams, type StrategyValidationResult } from "./validation";
+export { loadDeclarativeStrategy, buildDeclarativeStrategy, type DeclarativeStrategyConfig } from "./declarative";
 // ==================== 各策略实现导出 ====================
-export { getUltraShortStrategy, generateUltraShortPrompt } from "./ultraShort";          // 超短线策略
-export { getSwingTrendStrategy, generateSwingTrendPrompt } from "./swingTrend";        // 波段趋势策略
-export { getMediumLongStrategy, generateMediumLongPrompt } from "./mediumLong";        // 中长线策略
-export { getConservativeStrategy, generateConservativePrompt } from "./conservative";  // 稳健策略
-export { getBalancedStrategy, generateBalancedPrompt } from "./balanced";              // 平衡策略
-export { getAggressiveStrategy, generateAggressivePrompt } from "./aggressive";        // 激进策略
-export { getAggressiveTeamStrategy, generateAggressiveTeamPrompt } from "./aggressiveTeam";  // 激进团策略
-export { getRebateFarmingStrategy, generateRebateFarmingPrompt } from "./rebateFarming";  // 返佣套利策略
-export { getAiAutonomousStrategy, generateAiAutonomousPrompt } from "./aiAutonomous";  // AI自主策略
-export { getMultiAgentConsensusStrategy, generateMultiAgentConsensusPrompt } from "./multiAgentConsensus";  // 多Agent共识策略
-export { getAlphaBetaStrategy, generateAlphaBetaPrompt } from "./alphaBeta";  // Alpha Beta策略
+export { getUltraShortStrategy, generateUltraShortPrompt, ultraShortStrategy } from "./ultraShort";          // 超短线策略
+export { getSwingTrendStrategy, generateSwingTrendPrompt, swingTrendStrategy } from "./swingTrend";        // 波段趋势策略
+export { getMediumLongStrategy, generateMediumLongPrompt, mediumLongStrategy } from "./mediumLong";        // 中长线策略
+export { getConservativeStrategy, generateConservativePrompt, conservativeStrategy } from "./conservative";  // 稳健策略
+export { getBalancedStrategy, generateBalancedPrompt, balancedStrategy } from "./balanced";              // 平衡策略
+export { getAggressiveStrategy, generateAggressivePrompt, aggressiveStrategy } from "./aggressive";        // 激进策略
+export { getAggressiveTeamStrategy, generateAggressiveTeamPrompt, aggressiveTeamStrategy } from "./aggressiveTeam";  // 激进团策略
+export { getRebateFarmingStrategy, generateRebateFarmingPrompt, rebateFarmingStrategy } from "./rebateFarming";  // 返佣套利策略
+export { getAiAutonomousStrategy, generateAiAutonomousPrompt, aiAutonomousStrategy } from "./aiAutonomous";  // AI自主策略
+export { getMultiAgentConsensusStrategy, generateMultiAgentConsensusPrompt, multiAgentConsensusStrategy } from "./multiAgentConsensus";  // 多Agent共识策略
+export { getAlphaBetaStrategy, generateAlphaBetaPrompt, alphaBetaStrategy } from "./alphaBeta";  // Alpha Beta策略
+export { getRuleBasedStrategy, generateRuleBasedPrompt, ruleBasedStrategy, RULE_BASED_CONFIG } from "./ruleBased";  // 规则策略（无AI）
+
+import type { TradingStrategy, StrategyParams, StrategyPromptContext, StrategyDefinition } from "./types";
+import { registerStrategy, getStrategyDefinition } from "./registry";
+import { ultraShortStrategy } from "./ultraShort";
+import { swingTrendStrategy } from "./swingTrend";
+import { mediumLongStrategy } from "./mediumLong";
+import { conservativeStrategy } from "./conservative";
+import { balancedStrategy } from "./balanced";
+import { aggressiveStrategy } from "./aggressive";
+import { aggressiveTeamStrategy } from "./aggressiveTeam";
+import { rebateFarmingStrategy } from "./rebateFarming";
+import { aiAutonomousStrategy } from "./aiAutonomous";
+import { multiAgentConsensusStrategy } from "./multiAgentConsensus";
+import { alphaBetaStrategy } from "./alphaBeta";
+import { ruleBasedStrategy } from "./ruleBased";
+
+/**
+ * 内置策略
+ */
+export const BUILTIN_STRATEGIES: StrategyDefinition[] = [
+  ultraShortStrategy,
+  swingTrendStrategy,
+  mediumLongStrategy,
+  conservativeStrategy,
+  balancedStrategy,
+  aggressiveStrategy,
+  aggressiveTeamStrategy,
+  rebateFarmingStrategy,
+  aiAutonomousStrategy,
+  multiAgentConsensusStrategy,
+  alphaBetaStrategy,
+  ruleBasedStrategy,
+];
 
-import type { TradingStrategy, StrategyParams, StrategyPromptContext } from "./types";
-import { getUltraShortStrategy, generateUltraShortPrompt } from "./ultraShort";
-import { getSwingTrendStrategy, generateSwingTrendPrompt } from "./swingTrend";
-import { getMediumLongStrategy, generateMediumLongPrompt } from "./mediumLong";
-import { getConservativeStrategy, generateConservativePrompt } from "./conservative";
-import { getBalancedStrategy, generateBalancedPrompt } from "./balanced";
-import { getAggressiveStrategy, generateAggressivePrompt } from "./aggressive";
-import { getAggressiveTeamStrategy, generateAggressiveTeamPrompt } from "./aggressiveTeam";
-import { getRebateFarmingStrategy, generateRebateFarmingPrompt } from "./rebateFarming";
-import { getAiAutonomousStrategy, generateAiAutonomousPrompt } from "./aiAutonomous";
-import { getMultiAgentConsensusStrategy, generateMultiAgentConsensusPrompt } from "./multiAgentConsensus";
-import { getAlphaBetaStrategy, generateAlphaBetaPrompt } from "./alphaBeta";
+for (const definition of BUILTIN_STRATEGIES) {
+  registerStrategy(definition);
+}
+
+/**
+ * 获取策略定义（未注册的策略回退到 AI自主策略）
+ */
+export function resolveStrategy(strategy: TradingStrategy): StrategyDefinition {
+  return getStrategyDefinition(strategy) || aiAutonomousStrategy;
+}
 
 /**
  * 获取策略参数（基于 MAX_LEVERAGE 动态计算）
@@ -68,7 +139,7 @@ import { getAlphaBetaStrategy, generateAlphaBetaPrompt } from "./alphaBeta";
  * 根据策略类型和系统最大杠杆，动态计算策略的完整参数配置。
  * 各策略的杠杆范围会根据 maxLeverage 按比例调整。
  * 
- * @param strategy - 策略类型（"ultra-short" | "swing-trend" | "conservative" | "balanced" | "aggressive"）
+ * @param strategy - 策略标识（如 "ultra-short" | "swing-trend" | "conservative" | "balanced" | "aggressive"，或已注册的第三方策略）
  * @param maxLeverage - 系统允许的最大杠杆倍数（从配置文件读取，如 MAX_LEVERAGE=25）
  * @returns 策略的完整参数配置（包含杠杆、仓位、止损止盈等所有参数）
  * 
@@ -81,32 +152,7 @@ import { getAlphaBetaStrategy, generateAlphaBetaPrompt } from "./alphaBeta";
  * ```
  */
 export function getStrategyParams(strategy: TradingStrategy, maxLeverage: number): StrategyParams {
-  switch (strategy) {
-    case "ultra-short":
-      return getUltraShortStrategy(maxLeverage);
-    case "swing-trend":
-      return getSwingTrendStrategy(maxLeverage);
-    case "medium-long":
-      return getMediumLongStrategy(maxLeverage);
-    case "conservative":
-      return getConservativeStrategy(maxLeverage);
-    case "balanced":
-      return getBalancedStrategy(maxLeverage);
-    case "aggressive":
-      return getAggressiveStrategy(maxLeverage);
-    case "aggressive-team":
-      return getAggressiveTeamStrategy(maxLeverage);
-    case "rebate-farming":
-      return getRebateFarmingStrategy(maxLeverage);
-    case "ai-autonomous":
-      return getAiAutonomousStrategy(maxLeverage);
-    case "multi-agent-consensus":
-      return getMultiAgentConsensusStrategy(maxLeverage);
-    case "alpha-beta":
-      return getAlphaBetaStrategy(maxLeverage);
-    default:
-      return getAiAutonomousStrategy(maxLeverage);
-  }
+  return resolveStrategy(strategy).getParams(maxLeverage);
 }
 
 /**
@@ -115,7 +161,7 @@ export function getStrategyParams(strategy: TradingStrategy, maxLeverage: number
  * 为AI生成特定策略的决策提示词。不同策略有不同的交易理念和规则，
  * 生成的提示词会指导AI按照对应策略的原则进行交易决策。
  * 
- * @param strategy - 策略类型（"ultra-short" | "swing-trend" | "conservative" | "balanced" | "aggressive"）
+ * @param strategy - 策略标识（如 "ultra-short" | "swing-trend" | "conservative" | "balanced" | "aggressive"，或已注册的第三方策略）
  * @param params - 策略参数配置（从 getStrategyParams 获得）
  * @param context - 运行时上下文（包含执行周期、持仓数量、止损阈值等）
  * @returns 策略专属的AI提示词（字符串格式，会被插入到AI的系统提示词中）
@@ -139,31 +185,5 @@ export function generateStrategySpecificPrompt(
   params: StrategyParams,
   context: StrategyPromptContext
 ): string {
-  switch (strategy) {
-    case "aggressive":
-      return generateAggressivePrompt(params, context);
-    case "aggressive-team":
-      return generateAggressiveTeamPrompt(params, context);
-    case "balanced":
-      return generateBalancedPrompt(params, context);
-    case "conservative":
-      return generateConservativePrompt(params, context);
-    case "ultra-short":
-      return generateUltraShortPrompt(params, context);
-    case "swing-trend":
-      return generateSwingTrendPrompt(params, context);
-    case "medium-long":
-      return generateMediumLongPrompt(params, context);
-    case "rebate-farming":
-      return generateRebateFarmingPrompt(params, context);
-    case "ai-autonomous":
-      return generateAiAutonomousPrompt(params, context);
-    case "multi-agent-consensus":
-      return generateMultiAgentConsensusPrompt(params, context);
-    case "alpha-beta":
-      return generateAlphaBetaPrompt(params, context);
-    default:
-      return generateAiAutonomousPrompt(params, context);
-  }
+  return resolveStrategy(strategy).generatePrompt(params, context);
 }
-
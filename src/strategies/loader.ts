@@ -0,0 +1,154 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 策略目录加载
+ * 
+ * STRATEGY_PLUGIN_DIR 目录（默认 ./strategies）中的文件在启动时自动注册：
+ * - 代码模块（.js / .mjs / .ts）：默认导出策略定义或策略定义数组，
+ *   具名导出中所有符合 StrategyDefinition 结构的对象也会被注册
+ * - 声明式配置（.yaml / .yml / .json）：见 declarative.ts
+ * 
+ * 声明式配置支持热加载：文件修改后自动重新校验并注册，下一个交易周期生效；
+ * 校验失败时保留之前的版本。代码模块修改后需要重启。
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { getErrorMessage } from "../utils/errorUtils";
+import { createLogger } from "../utils/loggerUtils";
+import { DECLARATIVE_STRATEGY_EXTENSIONS, loadDeclarativeStrategy } from "./declarative";
+import { isStrategyDefinition, registerStrategy } from "./registry";
+
+const logger = createLogger({
+  name: "strategy-loader",
+  level: "info",
+});
+
+/** 代码模块支持的文件扩展名 */
+const MODULE_EXTENSIONS = [".js", ".mjs", ".ts"];
+
+/** 热加载的防抖时间（编辑器保存时会触发多次文件事件） */
+const RELOAD_DEBOUNCE_MS = 500;
+
+let watcher: fs.FSWatcher | null = null;
+
+/**
+ * 获取策略目录
+ */
+export function getStrategyPluginDir(): string {
+  return path.resolve(process.env.STRATEGY_PLUGIN_DIR || "./strategies");
+}
+
+/**
+ * 加载策略目录中的全部策略
+ * @param dir 策略目录（默认 STRATEGY_PLUGIN_DIR 或 ./strategies）
+ * @returns 注册的策略数量
+ */
+export async function loadStrategyPlugins(dir: string = getStrategyPluginDir()): Promise<number> {
+  const pluginDir = path.resolve(dir);
+  if (!fs.existsSync(pluginDir) || !fs.statSync(pluginDir).isDirectory()) {
+    return 0;
+  }
+
+  // 先加载代码模块，声明式策略可以继承代码模块中的策略
+  const files = fs.readdirSync(pluginDir).sort();
+  const modules = files.filter(file => MODULE_EXTENSIONS.includes(path.extname(file)) && !file.endsWith(".d.ts"));
+  const configs = files.filter(file => DECLARATIVE_STRATEGY_EXTENSIONS.includes(path.extname(file)));
+
+  let count = 0;
+  for (const file of modules) {
+    count += await loadStrategyModule(path.join(pluginDir, file));
+  }
+  for (const file of configs) {
+    count += loadStrategyConfig(path.join(pluginDir, file));
+  }
+
+  return count;
+}
+
+/**
+ * 监听策略目录，声明式配置文件修改后自动重新加载
+ * @param dir 策略目录（默认 STRATEGY_PLUGIN_DIR 或 ./strategies）
+ */
+export function watchStrategyPlugins(dir: string = getStrategyPluginDir()): void {
+  const pluginDir = path.resolve(dir);
+  if (watcher || !fs.existsSync(pluginDir)) {
+    return;
+  }
+
+  const timers = new Map<string, NodeJS.Timeout>();
+  watcher = fs.watch(pluginDir, (_event, filename) => {
+    if (!filename || !DECLARATIVE_STRATEGY_EXTENSIONS.includes(path.extname(filename))) {
+      return;
+    }
+    clearTimeout(timers.get(filename));
+    timers.set(filename, setTimeout(() => {
+      timers.delete(filename);
+      const file = path.join(pluginDir, filename);
+      if (!fs.existsSync(file)) {
+        logger.warn(`策略文件已删除: ${filename}，已加载的策略在重启前保持不变`);
+        return;
+      }
+      logger.info(`检测到策略文件变更，重新加载: ${filename}`);
+      loadStrategyConfig(file);
+    }, RELOAD_DEBOUNCE_MS));
+  });
+
+  logger.info(`已开启策略热加载: ${pluginDir}`);
+}
+
+/**
+ * 停止监听策略目录
+ */
+export function stopWatchingStrategyPlugins(): void {
+  if (watcher) {
+    watcher.close();
+    watcher = null;
+  }
+}
+
+async function loadStrategyModule(file: string): Promise<number> {
+  try {
+    const mod = await import(pathToFileURL(file).href);
+    // 同一个策略定义可能同时是默认导出和具名导出，去重后注册
+    const definitions = new Set(Object.values(mod).flatMap(value => (Array.isArray(value) ? value : [value])));
+    let count = 0;
+    for (const definition of [...definitions].filter(isStrategyDefinition)) {
+      registerStrategy(definition);
+      logger.info(`已加载策略插件: ${definition.id} (${path.basename(file)})`);
+      count++;
+    }
+    return count;
+  } catch (error) {
+    logger.error(`加载策略插件失败: ${path.basename(file)}`, error);
+    return 0;
+  }
+}
+
+function loadStrategyConfig(file: string): number {
+  try {
+    const definition = loadDeclarativeStrategy(file);
+    registerStrategy(definition);
+    logger.info(`已加载声明式策略: ${definition.id} (${path.basename(file)})`);
+    return 1;
+  } catch (error) {
+    logger.error(`加载策略文件失败: ${path.basename(file)}\n${getErrorMessage(error)}`);
+    return 0;
+  }
+}
@@ -16,7 +16,8 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import { formatTakeProfitStages, formatTrailingStopLevels } from "./exitRules";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * 中长线策略配置
@@ -95,9 +96,11 @@ export function getMediumLongStrategy(maxLeverage: number): StrategyParams {
     // 执行方式：AI根据此配置主动判断和执行（enableCodeLevelProtection = false）
     trailingStop: {
       // 中长线策略：给趋势更多空间，较晚锁定利润
-      level1: { trigger: 12, stopAt: 5 },    // 盈利达到 +12% 时，止损线移至 +5%（保护7%空间）
-      level2: { trigger: 25, stopAt: 15 },   // 盈利达到 +25% 时，止损线移至 +15%（保护10%空间）
-      level3: { trigger: 40, stopAt: 28 },   // 盈利达到 +40% 时，止损线移至 +28%（保护12%空间）
+      levels: [
+        { trigger: 12, stopAt: 5 },    // 盈利达到 +12% 时，止损线移至 +5%（保护7%空间）
+        { trigger: 25, stopAt: 15 },   // 盈利达到 +25% 时，止损线移至 +15%（保护10%空间）
+        { trigger: 40, stopAt: 28 },   // 盈利达到 +40% 时，止损线移至 +28%（保护12%空间）
+      ],
     },
     
     // ==================== 分批止盈配置 ====================
@@ -106,9 +109,11 @@ export function getMediumLongStrategy(maxLeverage: number): StrategyParams {
     // 执行方式：AI根据此配置主动判断和执行（enableCodeLevelProtection = false）
     partialTakeProfit: {
       // 中长线策略：分批止盈，追求利润最大化
-      stage1: { trigger: 35, closePercent: 30 },   // +35%时平仓30%（保留70%追求更大利润）
-      stage2: { trigger: 60, closePercent: 50 },   // +60%时平仓剩余50%（累计平仓65%）
-      stage3: { trigger: 100, closePercent: 100 }, // +100%时全部清仓（翻倍止盈）
+      stages: [
+        { trigger: 35, closePercent: 30 },   // +35%时平仓30%（保留70%追求更大利润）
+        { trigger: 60, closePercent: 50 },   // +60%时平仓剩余50%（累计平仓65%）
+        { trigger: 100, closePercent: 100 }, // +100%时全部清仓（翻倍止盈）
+      ],
     },
     
     // ==================== 峰值回撤保护 ====================
@@ -142,7 +147,7 @@ export function getMediumLongStrategy(maxLeverage: number): StrategyParams {
     
     // ==================== 代码级保护开关 ====================
     // 控制上述 stopLoss、trailingStop、partialTakeProfit 的执行方式
-    // - true：代码自动执行（监控器每10秒检查，AI只需负责开仓）
+    // - true：代码自动执行（持仓监督器按价格实时检查，AI只需负责开仓）
     // - false：AI主动执行（AI根据配置在交易周期中判断和执行）
     // 
     // 中长线策略：禁用代码级保护，完全由AI主导（enableCodeLevelProtection = false）
@@ -257,15 +262,11 @@ export function generateMediumLongPrompt(params: StrategyParams, context: Strate
 
 移动止盈建议（你可以根据趋势强度灵活调整）：
 
-三级移动止盈参考：
-- Level 1: 盈利达到 ${params.trailingStop.level1.trigger}% 时，可将止损线移至 ${params.trailingStop.level1.stopAt}%
-- Level 2: 盈利达到 ${params.trailingStop.level2.trigger}% 时，可将止损线移至 ${params.trailingStop.level2.stopAt}%
-- Level 3: 盈利达到 ${params.trailingStop.level3.trigger}% 时，可将止损线移至 ${params.trailingStop.level3.stopAt}%
+${params.trailingStop.levels.length}级移动止盈参考：
+${formatTrailingStopLevels(params.trailingStop, "- ")}
 
 分批止盈建议（你可以根据市场情况灵活调整）：
-- Stage 1: 盈利达到 ${params.partialTakeProfit.stage1.trigger}% 时，可考虑平仓 ${params.partialTakeProfit.stage1.closePercent}%
-- Stage 2: 盈利达到 ${params.partialTakeProfit.stage2.trigger}% 时，可考虑平仓剩余 ${params.partialTakeProfit.stage2.closePercent}%
-- Stage 3: 盈利达到 ${params.partialTakeProfit.stage3.trigger}% 时，全部清仓
+${formatTakeProfitStages(params.partialTakeProfit, "- ")}
 
 灵活止盈的场景：
 - 趋势强劲，多时间框架一致：可以延迟止盈，让利润充分奔跑
@@ -390,3 +391,12 @@ export function generateMediumLongPrompt(params: StrategyParams, context: Strate
 `;
 }
 
+/**
+ * 中长线策略定义（注册到策略注册表）
+ */
+export const mediumLongStrategy: StrategyDefinition = {
+  id: "medium-long",
+  getParams: getMediumLongStrategy,
+  generatePrompt: generateMediumLongPrompt,
+  intervalMinutes: 30,
+};
@@ -16,7 +16,8 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import { summarizeTakeProfitStages, summarizeTrailingStopLevels } from "./exitRules";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * 陪审团策略配置（法官与陪审团合议决策模式）
@@ -35,7 +36,7 @@ import type { StrategyParams, StrategyPromptContext } from "./types";
  * - 合议决策：法官先独立分析，倾听陪审团意见，综合权衡后做出判决
  * - 不是简单投票，而是权衡各方意见的说服力
  * - 风控方式：双重防护（enableCodeLevelProtection = true + allowAiOverrideProtection = true）
- *   - 代码级自动止损：每10秒监控，触发阈值自动平仓（安全网）
+ *   - 代码级自动止损：持仓监督器按价格实时监控，触发阈值自动平仓（安全网）
  *   - AI主动决策：法官可以在代码级保护之前主动止盈止损（灵活性）
  * 
  * @param maxLeverage - 系统允许的最大杠杆倍数（从配置文件读取）
@@ -83,16 +84,20 @@ export function getMultiAgentConsensusStrategy(maxLeverage: number): StrategyPar
     
     // ==================== 移动止盈配置 ====================
     trailingStop: {
-      level1: { trigger: 4, stopAt: 2 },   // 盈利达到 +10% 时，止损线移至 +4%
-      level2: { trigger: 6, stopAt: 4 },  // 盈利达到 +18% 时，止损线移至 +10%
-      level3: { trigger: 8, stopAt: 6 },  // 盈利达到 +28% 时，止损线移至 +18%
+      levels: [
+        { trigger: 4, stopAt: 2 },   // 盈利达到 +10% 时，止损线移至 +4%
+        { trigger: 6, stopAt: 4 },  // 盈利达到 +18% 时，止损线移至 +10%
+        { trigger: 8, stopAt: 6 },  // 盈利达到 +28% 时，止损线移至 +18%
+      ],
     },
     
     // ==================== 分批止盈配置 ====================
     partialTakeProfit: {
-      stage1: { trigger: 8, closePercent: 50 },   // +8%时平仓30%（让利润充分发挥）
-      stage2: { trigger: 12, closePercent: 100 },  // +15%时平仓至60%（累计）
-      stage3: { trigger: 25, closePercent: 100 }, // +25%时全部清仓
+      stages: [
+        { trigger: 8, closePercent: 50 },   // +8%时平仓30%（让利润充分发挥）
+        { trigger: 12, closePercent: 100 },  // +15%时平仓至60%（累计）
+        { trigger: 25, closePercent: 100 }, // +25%时全部清仓
+      ],
     },
     
     // ==================== 峰值回撤保护 ====================
@@ -188,11 +193,27 @@ export function generateMultiAgentConsensusPrompt(params: StrategyParams, contex
 - 杠杆范围：${params.leverageMin}-${params.leverageMax}倍
 - 仓位范围：${params.positionSizeMin}-${params.positionSizeMax}%
 - 止损：低杠杆${params.stopLoss.low}%，中杠杆${params.stopLoss.mid}%，高杠杆${params.stopLoss.high}%
-- 移动止盈：+${params.trailingStop.level1.trigger}%移至+${params.trailingStop.level1.stopAt}%，+${params.trailingStop.level2.trigger}%移至+${params.trailingStop.level2.stopAt}%，+${params.trailingStop.level3.trigger}%移至+${params.trailingStop.level3.stopAt}%
-- 分批止盈：+${params.partialTakeProfit.stage1.trigger}%平${params.partialTakeProfit.stage1.closePercent}%，+${params.partialTakeProfit.stage2.trigger}%平${params.partialTakeProfit.stage2.closePercent}%，+${params.partialTakeProfit.stage3.trigger}%平${params.partialTakeProfit.stage3.closePercent}%
+- 移动止盈：${summarizeTrailingStopLevels(params.trailingStop)}
+- 分批止盈：${summarizeTakeProfitStages(params.partialTakeProfit)}
 
 注：以上参数仅供参考，你可以根据实际市场情况灵活调整。
 `;
 }
 
-
+/**
+ * 陪审团策略定义（注册到策略注册表）
+ */
+export const multiAgentConsensusStrategy: StrategyDefinition = {
+  id: "multi-agent-consensus",
+  getParams: getMultiAgentConsensusStrategy,
+  generatePrompt: generateMultiAgentConsensusPrompt,
+  createSubAgents: async (marketDataContext?: unknown) => {
+    const { createTechnicalAnalystAgent, createTrendAnalystAgent, createRiskAssessorAgent } = await import("../agents/analysisAgents");
+    // 陪审团成员：技术分析Agent、趋势分析Agent、风险评估Agent
+    return [
+      createTechnicalAnalystAgent(marketDataContext),
+      createTrendAnalystAgent(marketDataContext),
+      createRiskAssessorAgent(marketDataContext),
+    ];
+  },
+};
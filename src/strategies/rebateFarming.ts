@@ -16,7 +16,8 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import { formatTakeProfitStages, formatTrailingStopLevels } from "./exitRules";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * 返佣套利策略配置（超短线高频策略）
@@ -100,9 +101,11 @@ export function getRebateFarmingStrategy(maxLeverage: number): StrategyParams {
     trailingStop: {
       // 返佣套利策略：极快速锁利（微利即走，不贪心）
       // 第一档触发点极低，只要覆盖手续费+微利就走
-      level1: { trigger: 1, stopAt: 0.8 },   // 盈利达到 +0.8% 时，止损线移至 +0.3%（保护0.5%空间）
-      level2: { trigger: 2, stopAt: 1 },     // 盈利达到 +2% 时，止损线移至 +0.8%（保护1.2%空间）
-      level3: { trigger: 4, stopAt: 2 },       // 盈利达到 +4% 时，止损线移至 +2%（保护2%空间，极少触发）
+      levels: [
+        { trigger: 1, stopAt: 0.8 },   // 盈利达到 +0.8% 时，止损线移至 +0.3%（保护0.5%空间）
+        { trigger: 2, stopAt: 1 },     // 盈利达到 +2% 时，止损线移至 +0.8%（保护1.2%空间）
+        { trigger: 4, stopAt: 2 },       // 盈利达到 +4% 时，止损线移至 +2%（保护2%空间，极少触发）
+      ],
     },
     
     // ==================== 代码级分批止盈配置 ====================
@@ -110,9 +113,11 @@ export function getRebateFarmingStrategy(maxLeverage: number): StrategyParams {
     partialTakeProfit: {
       // 返佣套利策略：快速全部止盈，不分批（高频交易模式）
       // 第一档就大部分平仓，保留少量追求更高收益
-      stage1: { trigger: 1, closePercent: 30 },    // +3%时平仓70%（快速锁定大部分利润）
-      stage2: { trigger: 3, closePercent: 30 },   // +6%时平仓剩余30%（累计平100%）
-      stage3: { trigger: 5, closePercent: 100 },  // +10%时全部清仓（兜底，基本不会触发）
+      stages: [
+        { trigger: 1, closePercent: 30 },    // +3%时平仓70%（快速锁定大部分利润）
+        { trigger: 3, closePercent: 30 },   // +6%时平仓剩余30%（累计平100%）
+        { trigger: 5, closePercent: 100 },  // +10%时全部清仓（兜底，基本不会触发）
+      ],
     },
     
     // ==================== 峰值回撤保护 ====================
@@ -143,9 +148,13 @@ export function getRebateFarmingStrategy(maxLeverage: number): StrategyParams {
     tradingStyle: "超短线高胜率策略，避免追涨杀跌，等待回调入场，5分钟执行周期，持仓10-60分钟，快速止盈，适当频率累积收益",
     
     // ==================== 代码级保护配置 ====================
-    // 启用代码级保护：系统每10秒自动检查止损和移动止盈
+    // 启用代码级保护：持仓监督器按价格实时检查止损和移动止盈
     // AI只需要负责开仓，平仓由代码自动执行
     enableCodeLevelProtection: true,
+    
+    // ==================== 订单类型 ====================
+    // 返佣只在 maker 成交时有意义：开仓和分批止盈默认使用 post-only 挂单
+    orderType: "post_only",
   };
 }
 
@@ -293,7 +302,7 @@ export function generateRebateFarmingPrompt(params: StrategyParams, context: Str
 
 【持仓管理 - AI职责】
 
-注意：本策略已启用代码级自动止损和移动止盈（每10秒检查），AI不需要主动平仓！
+注意：本策略已启用代码级自动止损和移动止盈（持仓监督器按价格实时检查），AI不需要主动平仓！
 
 代码自动执行的规则：
 1. 自动止损（根据杠杆自动触发）：
@@ -302,13 +311,10 @@ export function generateRebateFarmingPrompt(params: StrategyParams, context: Str
    - ${Math.ceil(params.leverageMin + (params.leverageMax - params.leverageMin) * 0.67) + 1}倍以上杠杆：亏损${params.stopLoss.high}%自动止损
 
 2. 自动移动止盈（核心规则）：
-   - Level 1: 盈利达到+${params.trailingStop.level1.trigger}%时，止损线移至+${params.trailingStop.level1.stopAt}%（微利即走）
-   - Level 2: 盈利达到+${params.trailingStop.level2.trigger}%时，止损线移至+${params.trailingStop.level2.stopAt}%（保护更多）
-   - Level 3: 盈利达到+${params.trailingStop.level3.trigger}%时，止损线移至+${params.trailingStop.level3.stopAt}%（极少触发）
+${formatTrailingStopLevels(params.trailingStop, "   - ")}
 
 3. 自动分批止盈：
-   - 盈利达到+${params.partialTakeProfit.stage1.trigger}%时，自动平仓${params.partialTakeProfit.stage1.closePercent}%
-   - 盈利达到+${params.partialTakeProfit.stage2.trigger}%时，自动平仓剩余仓位（累计100%）
+${formatTakeProfitStages(params.partialTakeProfit, "   - ")}
 
 AI的职责（重要）：
 - 专注分析市场，寻找顺趋势入场机会
@@ -443,3 +449,12 @@ AI的职责（重要）：
 `;
 }
 
+/**
+ * 返佣套利策略定义（注册到策略注册表）
+ */
+export const rebateFarmingStrategy: StrategyDefinition = {
+  id: "rebate-farming",
+  getParams: getRebateFarmingStrategy,
+  generatePrompt: generateRebateFarmingPrompt,
+  intervalMinutes: 5,
+};
@@ -0,0 +1,79 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 策略注册表
+ * 
+ * 所有策略（内置策略和第三方策略）都通过 registerStrategy 注册，
+ * 交易系统只通过注册表查找策略，新增策略不需要修改核心代码。
+ * 
+ * 策略目录中的第三方策略（代码模块和声明式配置文件）由 loader.ts 加载后注册到这里。
+ */
+import { createLogger } from "../utils/loggerUtils";
+import type { StrategyDefinition } from "./types";
+
+const logger = createLogger({
+  name: "strategy-registry",
+  level: "info",
+});
+
+const strategies = new Map<string, StrategyDefinition>();
+
+/**
+ * 注册策略（同名策略会被覆盖）
+ */
+export function registerStrategy(definition: StrategyDefinition): void {
+  if (!isStrategyDefinition(definition)) {
+    throw new Error("无效的策略定义：必须包含 id、getParams 和 generatePrompt");
+  }
+  if (strategies.has(definition.id)) {
+    logger.warn(`策略 ${definition.id} 已存在，将被覆盖`);
+  }
+  strategies.set(definition.id, definition);
+}
+
+/**
+ * 获取策略定义
+ * @returns 策略未注册时返回 undefined
+ */
+export function getStrategyDefinition(id: string): StrategyDefinition | undefined {
+  return strategies.get(id);
+}
+
+/**
+ * 获取所有已注册的策略
+ */
+export function listStrategies(): StrategyDefinition[] {
+  return [...strategies.values()];
+}
+
+/**
+ * 判断对象是否符合策略定义结构
+ */
+export function isStrategyDefinition(value: unknown): value is StrategyDefinition {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const candidate = value as Partial<StrategyDefinition>;
+  return (
+    typeof candidate.id === "string" &&
+    candidate.id.length > 0 &&
+    typeof candidate.getParams === "function" &&
+    typeof candidate.generatePrompt === "function"
+  );
+}
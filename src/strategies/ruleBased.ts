@@ -0,0 +1,175 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
+
+/**
+ * 规则策略的信号参数（可通过环境变量调整）
+ */
+export const RULE_BASED_CONFIG = {
+  // 入场时间框架：在该周期上判断 EMA20/EMA50 交叉和 MACD 方向
+  ENTRY_TIMEFRAME: process.env.RULE_ENTRY_TIMEFRAME || "15m",
+  // 确认时间框架：更长周期的趋势方向需要与入场周期一致
+  CONFIRM_TIMEFRAMES: (process.env.RULE_CONFIRM_TIMEFRAMES || "30m,1h")
+    .split(",")
+    .map(s => s.trim())
+    .filter(s => s.length > 0),
+  // 至少多少个确认时间框架方向一致才入场
+  MIN_CONFIRMATIONS: Number.parseInt(process.env.RULE_MIN_CONFIRMATIONS || "1", 10),
+  // 是否只在 EMA 刚发生交叉的周期入场（false 时趋势持续期间也可入场）
+  REQUIRE_FRESH_CROSS: process.env.RULE_REQUIRE_FRESH_CROSS === "true",
+  // 做多时 RSI14 需要处于的区间（避免追高）
+  LONG_RSI_MIN: Number.parseFloat(process.env.RULE_LONG_RSI_MIN || "50"),
+  LONG_RSI_MAX: Number.parseFloat(process.env.RULE_LONG_RSI_MAX || "70"),
+  // 做空时 RSI14 需要处于的区间（避免追空）
+  SHORT_RSI_MIN: Number.parseFloat(process.env.RULE_SHORT_RSI_MIN || "30"),
+  SHORT_RSI_MAX: Number.parseFloat(process.env.RULE_SHORT_RSI_MAX || "50"),
+  // RSI14 超过上限时平多，低于下限时平空
+  EXIT_RSI_HIGH: Number.parseFloat(process.env.RULE_EXIT_RSI_HIGH || "80"),
+  EXIT_RSI_LOW: Number.parseFloat(process.env.RULE_EXIT_RSI_LOW || "20"),
+};
+
+/**
+ * 规则策略配置（无 LLM）
+ * 
+ * 策略特点：
+ * - 风险等级：中低风险
+ * - 杠杆范围：20%-40% 最大杠杆（如最大25倍，则使用5-10倍）
+ * - 仓位大小：15-20%
+ * - 决策方式：完全由代码根据技术指标确定性决策，不调用 AI 模型
+ * - 适用场景：作为 AI 策略的对照基准；模型服务不可用或成本过高时的兜底
+ * 
+ * 核心规则：
+ * - 入场：入场周期 EMA20/EMA50 多头（空头）排列且 MACD 同向，确认周期趋势一致，RSI14 处于合理区间
+ * - 出场：入场周期趋势反转，或 RSI14 进入极端区域
+ * - 风控方式：代码级自动保护（enableCodeLevelProtection = true，止损、移动止盈、分批止盈由持仓监督器执行）
+ * 
+ * @param maxLeverage - 系统允许的最大杠杆倍数（从配置文件读取）
+ * @returns 规则策略的完整参数配置
+ */
+export function getRuleBasedStrategy(maxLeverage: number): StrategyParams {
+  // 计算规则策略的杠杆范围：使用 20%-40% 的最大杠杆
+  const ruleLevMin = Math.max(2, Math.ceil(maxLeverage * 0.2));  // 最小杠杆：20%最大杠杆，至少2倍
+  const ruleLevMax = Math.max(3, Math.ceil(maxLeverage * 0.4));  // 最大杠杆：40%最大杠杆，至少3倍
+  
+  return {
+    // ==================== 策略基本信息 ====================
+    name: "规则",  // 策略名称（中文）
+    description: "EMA交叉+MACD+RSI+多周期共振的确定性规则，不调用AI，可作为AI策略的对照基准",  // 策略描述
+    
+    // ==================== 杠杆配置 ====================
+    // 规则策略固定使用最小杠杆开仓，范围仅用于风控校验
+    leverageMin: ruleLevMin,  // 最小杠杆倍数
+    leverageMax: ruleLevMax,  // 最大杠杆倍数
+    leverageRecommend: {
+      normal: `${ruleLevMin}倍`,
+      good: `${ruleLevMin}倍`,
+      strong: `${ruleLevMax}倍`,
+    },
+    
+    // ==================== 仓位配置 ====================
+    // 规则策略固定使用最小仓位开仓
+    positionSizeMin: 15,  // 最小仓位：15%
+    positionSizeMax: 20,  // 最大仓位：20%
+    positionSizeRecommend: {
+      normal: "15%",
+      good: "15%",
+      strong: "20%",
+    },
+    
+    // ==================== 止损配置 ====================
+    // 由持仓监督器自动执行（positionSupervisor.ts，规则见 stopLossMonitor.ts）
+    stopLoss: {
+      low: -8,     // 低杠杆时：亏损8%止损
+      mid: -6.5,   // 中杠杆时：亏损6.5%止损
+      high: -5,    // 高杠杆时：亏损5%止损
+    },
+    
+    // ==================== 移动止盈配置 ====================
+    // 由持仓监督器自动执行（positionSupervisor.ts，规则见 trailingStopMonitor.ts）
+    trailingStop: {
+      levels: [
+        { trigger: 8, stopAt: 3 },    // 盈利达到 +8% 时，止损线移至 +3%
+        { trigger: 15, stopAt: 8 },   // 盈利达到 +15% 时，止损线移至 +8%
+        { trigger: 25, stopAt: 15 },  // 盈利达到 +25% 时，止损线移至 +15%
+      ],
+    },
+    
+    // ==================== 分批止盈配置 ====================
+    // 由持仓监督器自动执行（positionSupervisor.ts，规则见 partialProfitMonitor.ts）
+    partialTakeProfit: {
+      stages: [
+        { trigger: 20, closePercent: 40 },   // +20%时平仓40%
+        { trigger: 35, closePercent: 60 },   // +35%时平仓剩余60%
+        { trigger: 50, closePercent: 100 },  // +50%时全部清仓
+      ],
+    },
+    
+    // ==================== 峰值回撤保护 ====================
+    peakDrawdownProtection: 30,
+    
+    // ==================== 波动率调整 ====================
+    volatilityAdjustment: {
+      highVolatility: { leverageFactor: 0.7, positionFactor: 0.8 },
+      normalVolatility: { leverageFactor: 1.0, positionFactor: 1.0 },
+      lowVolatility: { leverageFactor: 1.0, positionFactor: 1.0 },
+    },
+    
+    // ==================== 策略规则描述 ====================
+    entryCondition: `${RULE_BASED_CONFIG.ENTRY_TIMEFRAME} EMA20/EMA50 与 MACD 同向，${RULE_BASED_CONFIG.CONFIRM_TIMEFRAMES.join("/")} 中至少${RULE_BASED_CONFIG.MIN_CONFIRMATIONS}个周期趋势一致`,
+    riskTolerance: "单笔仓位15%，使用最小杠杆，由代码级保护自动止损止盈",
+    tradingStyle: "规则驱动，信号出现即执行，不做主观判断",
+    
+    // ==================== 代码级保护开关 ====================
+    // 规则策略没有 AI 管理持仓，止损止盈完全由持仓监督器执行
+    enableCodeLevelProtection: true,
+  };
+}
+
+/**
+ * 生成规则策略的提示词
+ * 
+ * 规则策略不调用 AI，提示词仅用于日志和决策记录，说明当前使用的规则。
+ * 
+ * @param params - 策略参数配置（从 getRuleBasedStrategy 获得）
+ * @param context - 运行时上下文
+ * @returns 规则说明
+ */
+export function generateRuleBasedPrompt(params: StrategyParams, context: StrategyPromptContext): string {
+  return `
+【规则策略 - 不调用AI】
+- 入场：${params.entryCondition}，做多 RSI14 ${RULE_BASED_CONFIG.LONG_RSI_MIN}-${RULE_BASED_CONFIG.LONG_RSI_MAX}，做空 RSI14 ${RULE_BASED_CONFIG.SHORT_RSI_MIN}-${RULE_BASED_CONFIG.SHORT_RSI_MAX}
+- 出场：${RULE_BASED_CONFIG.ENTRY_TIMEFRAME} 趋势反转，或 RSI14 高于 ${RULE_BASED_CONFIG.EXIT_RSI_HIGH}（平多）/ 低于 ${RULE_BASED_CONFIG.EXIT_RSI_LOW}（平空）
+- 仓位：账户净值的 ${params.positionSizeMin}%，杠杆 ${params.leverageMin} 倍，最多 ${context.maxPositions} 个持仓
+- 止损、移动止盈、分批止盈由代码级监控自动执行
+`;
+}
+
+/**
+ * 规则策略定义（注册到策略注册表）
+ */
+export const ruleBasedStrategy: StrategyDefinition = {
+  id: "rule-based",
+  getParams: getRuleBasedStrategy,
+  generatePrompt: generateRuleBasedPrompt,
+  intervalMinutes: 15,
+  createDecisionAgent: async (intervalMinutes, marketData) => {
+    const { createRuleBasedAgent } = await import("../agents/ruleBasedAgent");
+    return createRuleBasedAgent(intervalMinutes, marketData);
+  },
+};
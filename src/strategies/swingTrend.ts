@@ -16,7 +16,8 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import { formatTrailingStopLevels } from "./exitRules";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * 波段趋势策略配置
@@ -31,7 +32,7 @@ import type { StrategyParams, StrategyPromptContext } from "./types";
  * 
  * 核心策略：
  * - 短周期精准入场：使用1m/3m/5m/15m四个时间框架共振
- * - 自动监控保护：止损和止盈完全由自动监控系统执行（每10秒检查）
+ * - 自动监控保护：止损和止盈完全由持仓监督器执行（按价格实时检查）
  * - AI专注开仓：AI只负责寻找高质量开仓机会，不主动平仓
  * - 耐心持仓：持仓时间可达数小时到3天，让利润充分奔跑
  * - 风控方式：自动监控止损止盈（enableCodeLevelProtection = true）
@@ -69,7 +70,7 @@ export function getSwingTrendStrategy(maxLeverage: number): StrategyParams {
     // ==================== 止损配置 ====================
     // 根据杠杆倍数分级止损
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，stopLossMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 stopLossMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     stopLoss: {
       low: -9,      // 低杠杆(2-3倍)：-9%止损（给趋势足够空间）
@@ -80,25 +81,29 @@ export function getSwingTrendStrategy(maxLeverage: number): StrategyParams {
     // ==================== 移动止盈配置 ====================
     // 盈利后移动止损线保护利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，trailingStopMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 trailingStopMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     trailingStop: {
       // 波段策略：给趋势更多空间，较晚锁定利润
-      level1: { trigger: 15, stopAt: 8 },    // 盈利达到 +15% 时，止损线移至 +8%（保护7%空间）
-      level2: { trigger: 30, stopAt: 20 },   // 盈利达到 +30% 时，止损线移至 +20%（保护10%空间）
-      level3: { trigger: 50, stopAt: 35 },   // 盈利达到 +50% 时，止损线移至 +35%（保护15%空间）
+      levels: [
+        { trigger: 15, stopAt: 8 },    // 盈利达到 +15% 时，止损线移至 +8%（保护7%空间）
+        { trigger: 30, stopAt: 20 },   // 盈利达到 +30% 时，止损线移至 +20%（保护10%空间）
+        { trigger: 50, stopAt: 35 },   // 盈利达到 +50% 时，止损线移至 +35%（保护15%空间）
+      ],
     },
     
     // ==================== 分批止盈配置 ====================
     // 逐步锁定利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，partialProfitMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 partialProfitMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     partialTakeProfit: {
       // 波段策略：更晚分批止盈，追求趋势利润最大化
-      stage1: { trigger: 50, closePercent: 40 },   // +50%时平仓40%（保留60%追求更大利润）
-      stage2: { trigger: 80, closePercent: 60 },   // +80%时平仓剩余60%（累计平仓100%）
-      stage3: { trigger: 120, closePercent: 100 }, // +120%时全部清仓（防止回吐）
+      stages: [
+        { trigger: 50, closePercent: 40 },   // +50%时平仓40%（保留60%追求更大利润）
+        { trigger: 80, closePercent: 60 },   // +80%时平仓剩余60%（累计平仓100%）
+        { trigger: 120, closePercent: 100 }, // +120%时全部清仓（防止回吐）
+      ],
     },
     
     // ==================== 峰值回撤保护 ====================
@@ -131,7 +136,7 @@ export function getSwingTrendStrategy(maxLeverage: number): StrategyParams {
     
     // ==================== 代码级保护开关 ====================
     // 控制上述 stopLoss、trailingStop、partialTakeProfit 的执行方式
-    // - true：代码自动执行（监控器每10秒检查，AI只需负责开仓）
+    // - true：代码自动执行（持仓监督器按价格实时检查，AI只需负责开仓）
     // - false：AI主动执行（AI根据配置在交易周期中判断和执行）
     enableCodeLevelProtection: true,
     // 自动监控会使用上面的 stopLoss 和 trailingStop 配置
@@ -160,7 +165,7 @@ export function generateSwingTrendPrompt(params: StrategyParams, context: Strate
 波段趋势策略注重捕捉中期趋势，持仓时间可达数天
 
 【特殊说明 - 自动监控保护】
-本策略启用了自动监控止损和移动止盈（每10秒检查）：
+本策略启用了自动监控止损和移动止盈（持仓监督器按价格实时检查）：
 - AI只负责开仓和市场分析
 - 平仓完全由自动监控执行
 - AI禁止主动调用 closePosition
@@ -170,10 +175,8 @@ export function generateSwingTrendPrompt(params: StrategyParams, context: Strate
 - ${Math.ceil(params.leverageMin + (params.leverageMax - params.leverageMin) * 0.33) + 1}-${Math.ceil(params.leverageMin + (params.leverageMax - params.leverageMin) * 0.67)}倍杠杆：亏损 ${params.stopLoss.mid}% 时止损
 - ${Math.ceil(params.leverageMin + (params.leverageMax - params.leverageMin) * 0.67) + 1}倍以上杠杆：亏损 ${params.stopLoss.high}% 时止损
 
-自动监控移动止盈规则（3级）：
-- Level 1: 峰值达到 ${params.trailingStop.level1.trigger}% 时，回落至 ${params.trailingStop.level1.stopAt}% 平仓
-- Level 2: 峰值达到 ${params.trailingStop.level2.trigger}% 时，回落至 ${params.trailingStop.level2.stopAt}% 平仓
-- Level 3: 峰值达到 ${params.trailingStop.level3.trigger}% 时，回落至 ${params.trailingStop.level3.stopAt}% 平仓
+自动监控移动止盈规则（${params.trailingStop.levels.length}级）：
+${formatTrailingStopLevels(params.trailingStop, "- ")}
 
 【AI职责】
 - 专注于市场分析和开仓决策
@@ -201,3 +204,12 @@ export function generateSwingTrendPrompt(params: StrategyParams, context: Strate
 `;
 }
 
+/**
+ * 波段趋势策略定义（注册到策略注册表）
+ */
+export const swingTrendStrategy: StrategyDefinition = {
+  id: "swing-trend",
+  getParams: getSwingTrendStrategy,
+  generatePrompt: generateSwingTrendPrompt,
+  intervalMinutes: 20,
+};
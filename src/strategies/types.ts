@@ -16,10 +16,12 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
+import type { Agent } from "@voltagent/core";
+
 /**
- * 交易策略类型定义
+ * 交易策略标识（对应 TRADING_STRATEGY 环境变量）
  * 
- * 支持11种交易策略：
+ * 内置12种交易策略：
  * - conservative: 稳健策略，低风险低杠杆
  * - balanced: 平衡策略，中等风险，适合大多数投资者
  * - aggressive: 激进策略，高风险高杠杆
@@ -31,8 +33,17 @@
  * - ai-autonomous: AI自主策略，完全由AI主导，不提供任何策略建议
  * - multi-agent-consensus: 陪审团策略
  * - alpha-beta: Alpha Beta策略，零策略指导的AI完全自主决策
+ * - rule-based: 规则策略，EMA/MACD/RSI 多周期共振的确定性规则，不调用AI
+ * 
+ * 第三方策略通过 registerStrategy 注册后即可使用，因此类型为字符串
+ */
+export type TradingStrategy = string;
+
+/**
+ * 订单类型（市价、限价、只做 maker、IOC、FOK）
  */
-export type TradingStrategy = "conservative" | "balanced" | "aggressive" | "aggressive-team" | "ultra-short" | "swing-trend" | "medium-long" | "rebate-farming" | "ai-autonomous" | "multi-agent-consensus" | "alpha-beta";
+export const ORDER_TYPES = ["market", "limit", "post_only", "ioc", "fok"] as const;
+export type OrderType = (typeof ORDER_TYPES)[number];
 
 /**
  * 策略提示词生成上下文
@@ -52,6 +63,109 @@ export interface StrategyPromptContext {
   tradingSymbols: string[];
 }
 
+/**
+ * 移动止盈级别：峰值盈利达到 trigger% 后生效，止损线按以下方式之一确定（三选一）
+ * - stopAt：固定止损线，盈利回落至 stopAt% 时平仓
+ * - givebackPercent：峰值回吐，盈利回吐峰值的 givebackPercent% 时平仓
+ * - atrMultiplier：ATR 吊灯止损，价格从峰值价格回撤 atrMultiplier 倍 ATR 时平仓
+ */
+export interface TrailingStopLevel {
+  /** 峰值盈利百分比（考虑杠杆） */
+  trigger: number;
+  stopAt?: number;
+  givebackPercent?: number;
+  atrMultiplier?: number;
+}
+
+/**
+ * 移动止盈配置
+ */
+export interface TrailingStopConfig {
+  /** 移动止盈级别（任意数量，trigger 递增），峰值达到多个级别时取最高级别 */
+  levels: TrailingStopLevel[];
+  /**
+   * 保本：止损线移至 offset%（默认 0，即开仓价）
+   * 填写 trigger 时峰值盈利达到 trigger% 后生效，不填时第一个分批止盈目标执行后生效
+   */
+  breakEven?: { trigger?: number; offset?: number };
+}
+
+/**
+ * 分批止盈阶段：达到触发条件时累计平仓至 closePercent%
+ * 触发条件二选一：盈利达到 trigger%（考虑杠杆），或价格顺势移动 atrMultiple 倍 ATR
+ */
+export interface TakeProfitStage {
+  trigger?: number;
+  atrMultiple?: number;
+  /** 累计平仓比例（0-100），最后一个阶段通常为 100 */
+  closePercent: number;
+}
+
+/**
+ * 分批止盈配置
+ */
+export interface PartialTakeProfitConfig {
+  /** 分批止盈阶段（任意数量，按顺序触发，closePercent 递增） */
+  stages: TakeProfitStage[];
+}
+
+/**
+ * ATR 计算参数
+ */
+export interface AtrSettings {
+  /** K线周期，默认 "1h" */
+  timeframe?: string;
+  /** ATR 周期，默认 14 */
+  period?: number;
+}
+
+/**
+ * 熔断规则的统计指标
+ * - realized_pnl：窗口内已实现盈亏占账户净值的百分比（threshold 为负数，如 -15）
+ * - single_trade_loss：最近一笔平仓亏损占账户净值的百分比（threshold 为负数）
+ * - equity_drawdown：账户净值从峰值回撤的百分比（threshold 为正数，如 20；有窗口时取窗口内峰值）
+ * - consecutive_losses：窗口内连续亏损的平仓笔数（threshold 为笔数）
+ * - symbol_loss_streak：单个币种在窗口内连续亏损的平仓笔数（threshold 为笔数）
+ * - llm_error_rate：窗口内模型（LLM）API 调用失败率，取自 llm_usage 记录，不含交易所接口（threshold 为百分比）
+ */
+export type CircuitBreakerMetric =
+  | "realized_pnl"
+  | "single_trade_loss"
+  | "equity_drawdown"
+  | "consecutive_losses"
+  | "symbol_loss_streak"
+  | "llm_error_rate";
+
+/**
+ * 熔断规则
+ */
+export interface CircuitBreakerRule {
+  /** 规则ID，记录在 circuit_breaker_log.rule_id */
+  id: string;
+  /** 显示名称（可选，默认使用 id） */
+  name?: string;
+  /** 是否启用，默认 true */
+  enabled?: boolean;
+  metric: CircuitBreakerMetric;
+  /** 统计窗口："today"（当日零点起）或 "30m"、"4h"、"2d" 等；连续亏损类指标表示最早一笔与现在的最大间隔 */
+  window?: string;
+  /** 触发阈值，含义见 CircuitBreakerMetric */
+  threshold: number;
+  /** llm_error_rate 的最少调用次数，默认 5 */
+  minSamples?: number;
+  /** 基础熔断时长（分钟） */
+  haltMinutes: number;
+  /** 重复触发时的升级：熔断时长 = haltMinutes × multiplier^(等级-1) */
+  escalation?: {
+    /** 每升一级的时长倍数，默认 2（1 表示不升级） */
+    multiplier?: number;
+    /** 最高等级，默认 4 */
+    maxLevel?: number;
+  };
+  /** 冷却期内的阈值系数，默认 0.5（阈值降低 50%，笔数向上取整） */
+  cooldownFactor?: number;
+}
+
 /**
  * 策略参数配置接口
  * 
@@ -115,45 +229,34 @@ export interface StrategyParams {
   };
   
   /** 移动止盈配置，盈利达到一定程度后移动止损线保护利润（由AI主动执行） */
-  trailingStop: {
-    /** 第一级：盈利达到trigger%时，止损线移至stopAt% */
-    level1: { trigger: number; stopAt: number };
-    /** 第二级：盈利达到trigger%时，止损线移至stopAt% */
-    level2: { trigger: number; stopAt: number };
-    /** 第三级：盈利达到trigger%时，止损线移至stopAt% */
-    level3: { trigger: number; stopAt: number };
-  };
+  trailingStop: TrailingStopConfig;
   
   /** 分批止盈配置，逐步锁定利润（由AI主动执行） */
-  partialTakeProfit: {
-    /** 第一阶段：盈利达到trigger%时，平仓closePercent%的仓位 */
-    stage1: { trigger: number; closePercent: number };
-    /** 第二阶段：盈利达到trigger%时，平仓closePercent%的仓位 */
-    stage2: { trigger: number; closePercent: number };
-    /** 第三阶段：盈利达到trigger%时，平仓closePercent%的仓位（通常是100%全部清仓） */
-    stage3: { trigger: number; closePercent: number };
-  };
+  partialTakeProfit: PartialTakeProfitConfig;
+  
+  /** ATR 计算参数（ATR 吊灯止损和按 ATR 倍数的分批止盈使用，可选） */
+  atr?: AtrSettings;
   
   /** 峰值回撤保护阈值（百分比），盈利从峰值回撤达到此值时强烈建议平仓 */
   peakDrawdownProtection: number;
   
   /** 波动率调整系数，根据市场波动率动态调整杠杆和仓位 */
   volatilityAdjustment: {
-    /** 高波动时的调整系数（ATR > 5%） */
+    /** 高波动时的调整系数（1小时 ATR > VOLATILITY_HIGH_ATR_PERCENT，默认 5%） */
     highVolatility: {
       /** 杠杆调整系数，如0.8表示降低20%杠杆 */
       leverageFactor: number;
       /** 仓位调整系数，如0.85表示降低15%仓位 */
       positionFactor: number;
     };
-    /** 正常波动时的调整系数（ATR 2-5%） */
+    /** 正常波动时的调整系数（默认 ATR 2-5%） */
     normalVolatility: {
       /** 杠杆调整系数，1.0表示不调整 */
       leverageFactor: number;
       /** 仓位调整系数，1.0表示不调整 */
       positionFactor: number;
     };
-    /** 低波动时的调整系数（ATR < 2%） */
+    /** 低波动时的调整系数（1小时 ATR < VOLATILITY_LOW_ATR_PERCENT，默认 2%） */
     lowVolatility: {
       /** 杠杆调整系数，如1.2表示提高20%杠杆 */
       leverageFactor: number;
@@ -174,7 +277,7 @@ export interface StrategyParams {
   /**
    * 是否启用代码级止损和移动止盈自动监控
    * 
-   * true: 启用代码级保护，系统每10秒自动检查止损和移动止盈，AI不需要主动平仓
+   * true: 启用代码级保护，持仓监督器按价格实时检查止损和移动止盈，AI不需要主动平仓
    * false: 禁用代码级保护，由AI根据策略规则主动执行止损和止盈
    * 
    * 默认配置：
@@ -196,5 +299,121 @@ export interface StrategyParams {
    * 注意：此字段仅在 enableCodeLevelProtection = true 时有意义
    */
   allowAiOverrideProtection?: boolean;
+  
+  /**
+   * 默认订单类型（可选，默认 market 市价单）
+   * 
+   * - limit：限价挂单，超时未成交时追价或撤单
+   * - post_only：只做 maker，会立即成交时交易所直接撤单（适合依赖 maker 返佣的策略）
+   * - ioc / fok：按对手价立即成交，不能成交的部分撤销 / 不能全部成交则整单撤销
+   * 
+   * AI 调用交易工具时可以单独指定订单类型；止损和移动止盈平仓始终使用市价单
+   */
+  orderType?: OrderType;
+  
+  /**
+   * 熔断规则（可选，不填时使用系统默认规则）
+   * 
+   * 通过 /api/circuit-breaker/rules 保存在 system_config 中的规则优先：
+   * 策略专属规则 > 策略 circuitBreakerRules > 全局规则 > 默认规则
+   */
+  circuitBreakerRules?: CircuitBreakerRule[];
+}
+
+/**
+ * 策略持仓风控规则的上下文
+ * 
+ * 交易周期中对每个持仓执行策略的代码级风控规则时传入
+ */
+export interface StrategyPositionContext {
+  /** 币种，如 BTC */
+  symbol: string;
+  /** 持仓方向 */
+  side: "long" | "short";
+  /** 当前盈亏百分比（已包含杠杆效应） */
+  pnlPercent: number;
+  /** 持仓期间的峰值盈亏百分比 */
+  peakPnlPercent: number;
+  /** 杠杆倍数 */
+  leverage: number;
+  /** 持仓时间（小时） */
+  holdingHours: number;
+  /** 当前策略参数 */
+  params: StrategyParams;
 }
 
+/**
+ * 策略持仓风控规则
+ * 
+ * @returns 需要强制平仓时返回平仓原因，否则返回 null
+ */
+export type StrategyPositionRule = (context: StrategyPositionContext) => string | null;
+
+/**
+ * 交易决策 Agent（与 VoltAgent Agent 的 generateText 接口一致）
+ */
+export interface StrategyDecisionAgent {
+  generateText(prompt: string, options?: Record<string, unknown>): Promise<unknown>;
+}
+
+/**
+ * 策略定义
+ * 
+ * 每个策略模块导出一个策略定义，通过 registerStrategy 注册到策略注册表。
+ * 交易 Agent、交易循环和监控器只通过注册表获取策略，新增策略不需要修改核心代码。
+ */
+export interface StrategyDefinition {
+  /** 策略标识，对应 TRADING_STRATEGY 环境变量，如 "balanced" */
+  id: string;
+  
+  /** 策略参数工厂，根据系统最大杠杆生成完整参数 */
+  getParams: (maxLeverage: number) => StrategyParams;
+  
+  /** 策略特有提示词生成函数（插入到系统提示词的【策略特定规则】部分） */
+  generatePrompt: (params: StrategyParams, context: StrategyPromptContext) => string;
+  
+  /**
+   * 推荐的交易执行周期（分钟）
+   * 
+   * 仅在未设置 TRADING_INTERVAL_MINUTES 时使用，未填写则默认5分钟
+   */
+  intervalMinutes?: number;
+  
+  /**
+   * 自主模式：使用极简提示词，只提供市场数据和工具，不注入策略规则
+   * 
+   * 使用场景：ai-autonomous、alpha-beta
+   */
+  autonomous?: boolean;
+  
+  /** 自主模式下追加到系统提示词开头的说明（可选） */
+  autonomousPreamble?: string;
+  
+  /**
+   * 子Agent工厂（可选），如陪审团成员、激进团团员
+   * 
+   * @param marketDataContext 当前周期的市场数据上下文
+   */
+  createSubAgents?: (marketDataContext?: unknown) => Promise<Agent[]>;
+  
+  /**
+   * 决策 Agent 工厂（可选），不调用 AI 模型的策略（如规则策略）通过它替换默认的 LLM Agent
+   * 
+   * 返回结构需要与 VoltAgent generateText 一致（steps 中包含工具调用和文本）
+   */
+  createDecisionAgent?: (intervalMinutes: number, marketData: Record<string, unknown>) => Promise<StrategyDecisionAgent>;
+  
+  /**
+   * 每个交易周期提示词开头的紧急提醒（可选），如激进团持仓数不足时的警告
+   * 
+   * @returns 无需提醒时返回空字符串
+   */
+  generateCycleWarnings?: (context: { positionCount: number; params: StrategyParams }) => string;
+  
+  /**
+   * 代码级持仓风控规则（可选），交易周期中在系统底线保护之后按顺序执行
+   * 
+   * 如超短线策略的周期锁利规则和30分钟盈利平仓规则
+   */
+  positionRules?: StrategyPositionRule[];
+}
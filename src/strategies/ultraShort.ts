@@ -16,7 +16,7 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { StrategyParams, StrategyPromptContext } from "./types";
+import type { StrategyDefinition, StrategyParams, StrategyPromptContext } from "./types";
 
 /**
  * 超短线策略配置
@@ -72,7 +72,7 @@ export function getUltraShortStrategy(maxLeverage: number): StrategyParams {
     // ==================== 止损配置 ====================
     // 根据杠杆倍数分级止损
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，stopLossMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 stopLossMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     stopLoss: {
       low: -2.5,   // 低杠杆时：亏损2.5%止损（如使用3-7倍杠杆）
@@ -83,25 +83,29 @@ export function getUltraShortStrategy(maxLeverage: number): StrategyParams {
     // ==================== 移动止盈配置 ====================
     // 盈利后移动止损线保护利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，trailingStopMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 trailingStopMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     trailingStop: {
       // 超短线策略：快速锁利（5分钟周期，快进快出）
-      level1: { trigger: 4, stopAt: 1.5 },    // 盈利达到 +4% 时，止损线移至 +1.5%（保护2.5%空间）
-      level2: { trigger: 8, stopAt: 4 },      // 盈利达到 +8% 时，止损线移至 +4%（保护4%空间）
-      level3: { trigger: 15, stopAt: 8 },     // 盈利达到 +15% 时，止损线移至 +8%（保护7%空间）
+      levels: [
+        { trigger: 4, stopAt: 1.5 },    // 盈利达到 +4% 时，止损线移至 +1.5%（保护2.5%空间）
+        { trigger: 8, stopAt: 4 },      // 盈利达到 +8% 时，止损线移至 +4%（保护4%空间）
+        { trigger: 15, stopAt: 8 },     // 盈利达到 +15% 时，止损线移至 +8%（保护7%空间）
+      ],
     },
     
     // ==================== 分批止盈配置 ====================
     // 逐步锁定利润
     // 执行方式：
-    //   - enableCodeLevelProtection = true：代码自动执行（每10秒检查，partialProfitMonitor.ts）
+    //   - enableCodeLevelProtection = true：代码自动执行（持仓监督器 positionSupervisor.ts 按价格实时检查，规则见 partialProfitMonitor.ts）
     //   - enableCodeLevelProtection = false：AI根据此配置主动判断和执行
     partialTakeProfit: {
       // 超短线策略：快速分批止盈，及时锁定短期利润
-      stage1: { trigger: 15, closePercent: 50 },   // +15%时平仓50%（快速锁定）
-      stage2: { trigger: 25, closePercent: 50 },   // +25%时平仓剩余50%（累计平100%）
-      stage3: { trigger: 35, closePercent: 100 },  // +35%时全部清仓（防止回吐）
+      stages: [
+        { trigger: 15, closePercent: 50 },   // +15%时平仓50%（快速锁定）
+        { trigger: 25, closePercent: 50 },   // +25%时平仓剩余50%（累计平100%）
+        { trigger: 35, closePercent: 100 },  // +35%时全部清仓（防止回吐）
+      ],
     },
     
     // ==================== 峰值回撤保护 ====================
@@ -133,7 +137,7 @@ export function getUltraShortStrategy(maxLeverage: number): StrategyParams {
     
     // ==================== 代码级保护开关 ====================
     // 控制上述 stopLoss、trailingStop、partialTakeProfit 的执行方式
-    // - true：代码自动执行（监控器每10秒检查，AI只需负责开仓）
+    // - true：代码自动执行（持仓监督器按价格实时检查，AI只需负责开仓）
     // - false：AI主动执行（AI根据配置在交易周期中判断和执行）
     enableCodeLevelProtection: false,
   };
@@ -175,3 +179,35 @@ export function generateUltraShortPrompt(params: StrategyParams, context: Strate
 `;
 }
 
+/**
+ * 超短线策略定义（注册到策略注册表）
+ */
+export const ultraShortStrategy: StrategyDefinition = {
+  id: "ultra-short",
+  getParams: getUltraShortStrategy,
+  generatePrompt: generateUltraShortPrompt,
+  intervalMinutes: 5,
+  positionRules: [
+    // 规则1：每周期2%锁利规则（优先级最高）
+    // 每个交易周期内，如果盈利 >2% 但未触发移动止盈（<4%），立即平仓锁定利润
+    ({ pnlPercent, params }) => {
+      const trailingStopTrigger = params.trailingStop.levels[0].trigger;
+      if (pnlPercent > 2 && pnlPercent < trailingStopTrigger) {
+        return `超短线策略周期锁利规则：盈利${pnlPercent.toFixed(2)}% >2%，未达到移动止盈触发线${trailingStopTrigger}%，立即平仓锁定利润`;
+      }
+      return null;
+    },
+    // 规则2：30分钟盈利平仓规则（保底规则）
+    // 如果持仓超过30分钟，处于盈利状态，但没有触发移动止盈，且覆盖了交易费，进行平仓
+    ({ pnlPercent, holdingHours, leverage, params }) => {
+      const holdingMinutes = holdingHours * 60;
+      // 计算手续费成本（开仓 + 平仓，总共约 0.1%），考虑杠杆后需要的盈利百分比 = 0.1% * 杠杆
+      const feeThreshold = 0.1 * leverage;
+      const trailingStopTrigger = params.trailingStop.levels[0].trigger;
+      if (holdingMinutes >= 30 && pnlPercent > feeThreshold && pnlPercent < trailingStopTrigger) {
+        return `超短线策略30分钟盈利平仓规则：持仓${holdingMinutes.toFixed(1)}分钟，盈利${pnlPercent.toFixed(2)}%（已覆盖手续费${feeThreshold.toFixed(2)}%），但未达到移动止盈触发线${trailingStopTrigger}%，执行保守平仓`;
+      }
+      return null;
+    },
+  ],
+};
@@ -0,0 +1,266 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 策略参数校验
+ * 
+ * 检查策略配置的完整性和合理性（杠杆、仓位、止损、移动止盈、分批止盈、波动率调整、熔断规则等），
+ * 声明式策略加载和 scripts/validateStrategies.ts 共用同一套规则。
+ */
+import { circuitBreakerRulesSchema } from "./circuitBreakerSchema";
+import type { StrategyParams } from "./types";
+
+/**
+ * 策略参数校验结果
+ */
+export interface StrategyValidationResult {
+  valid: boolean;
+  /** 错误：配置缺失或不合法，策略不能使用 */
+  errors: string[];
+  /** 警告：配置可能不合理，但不影响使用 */
+  warnings: string[];
+}
+
+/**
+ * 校验策略参数
+ */
+export function validateStrategyParams(config: StrategyParams): StrategyValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  
+  // 1. 检查基本配置
+  if (!config.name) {
+    errors.push("缺少策略名称 (name)");
+  }
+  
+  if (!config.description) {
+    errors.push("缺少策略描述 (description)");
+  }
+  
+  // 2. 检查杠杆配置
+  if (config.leverageMin === undefined || config.leverageMin <= 0) {
+    errors.push("leverageMin 未定义或无效");
+  }
+  
+  if (config.leverageMax === undefined || config.leverageMax <= 0) {
+    errors.push("leverageMax 未定义或无效");
+  }
+  
+  if (config.leverageMin > config.leverageMax) {
+    errors.push("leverageMin 不能大于 leverageMax");
+  }
+  
+  if (!config.leverageRecommend || !config.leverageRecommend.normal || !config.leverageRecommend.good || !config.leverageRecommend.strong) {
+    errors.push("leverageRecommend 配置不完整 (需要 normal, good, strong)");
+  }
+  
+  // 3. 检查仓位配置
+  if (config.positionSizeMin === undefined || config.positionSizeMin <= 0) {
+    errors.push("positionSizeMin 未定义或无效");
+  }
+  
+  if (config.positionSizeMax === undefined || config.positionSizeMax <= 0) {
+    errors.push("positionSizeMax 未定义或无效");
+  }
+  
+  if (config.positionSizeMin > config.positionSizeMax) {
+    errors.push("positionSizeMin 不能大于 positionSizeMax");
+  }
+  
+  if (!config.positionSizeRecommend || !config.positionSizeRecommend.normal || !config.positionSizeRecommend.good || !config.positionSizeRecommend.strong) {
+    errors.push("positionSizeRecommend 配置不完整 (需要 normal, good, strong)");
+  }
+  
+  // 4. 检查止损配置
+  if (!config.stopLoss) {
+    errors.push("缺少 stopLoss 配置");
+  } else {
+    if (config.stopLoss.low === undefined) {
+      errors.push("stopLoss.low 未定义");
+    } else if (config.stopLoss.low >= 0) {
+      errors.push("stopLoss.low 应该是负数");
+    }
+    
+    if (config.stopLoss.mid === undefined) {
+      errors.push("stopLoss.mid 未定义");
+    } else if (config.stopLoss.mid >= 0) {
+      errors.push("stopLoss.mid 应该是负数");
+    }
+    
+    if (config.stopLoss.high === undefined) {
+      errors.push("stopLoss.high 未定义");
+    } else if (config.stopLoss.high >= 0) {
+      errors.push("stopLoss.high 应该是负数");
+    }
+    
+    // 检查止损逻辑：low <= mid <= high（绝对值相反）
+    if (config.stopLoss.low !== undefined && config.stopLoss.mid !== undefined && config.stopLoss.high !== undefined) {
+      if (config.stopLoss.low < config.stopLoss.mid || config.stopLoss.mid < config.stopLoss.high) {
+        warnings.push("止损配置可能不合理：high 应该最严格（绝对值最小），low 最宽松（绝对值最大）");
+      }
+    }
+  }
+  
+  // 5. 检查移动止盈配置
+  if (!config.trailingStop) {
+    errors.push("缺少 trailingStop 配置");
+  } else if (!Array.isArray(config.trailingStop.levels) || config.trailingStop.levels.length === 0) {
+    errors.push("trailingStop.levels 未定义或为空");
+  } else {
+    config.trailingStop.levels.forEach((level, index) => {
+      const name = `trailingStop.levels[${index}]`;
+      if (level.trigger === undefined || level.trigger <= 0) {
+        errors.push(`${name}.trigger 未定义或无效`);
+      }
+      
+      // 止损方式三选一：stopAt / givebackPercent / atrMultiplier
+      const modes = [level.stopAt, level.givebackPercent, level.atrMultiplier].filter(value => value !== undefined);
+      if (modes.length !== 1) {
+        errors.push(`${name} 需要且只能配置 stopAt、givebackPercent、atrMultiplier 中的一项`);
+      }
+      if (level.stopAt !== undefined) {
+        if (level.stopAt < 0) {
+          errors.push(`${name}.stopAt 无效`);
+        } else if (level.trigger !== undefined && level.stopAt >= level.trigger) {
+          errors.push(`${name}.stopAt 应该小于 trigger`);
+        }
+      }
+      if (level.givebackPercent !== undefined && (level.givebackPercent <= 0 || level.givebackPercent >= 100)) {
+        errors.push(`${name}.givebackPercent 超出范围 (0-100)`);
+      }
+      if (level.atrMultiplier !== undefined && level.atrMultiplier <= 0) {
+        errors.push(`${name}.atrMultiplier 应该大于 0`);
+      }
+    });
+    
+    // 检查移动止盈逻辑：trigger 递增
+    const triggers = config.trailingStop.levels.map(level => level.trigger);
+    if (triggers.some((trigger, index) => index > 0 && trigger <= triggers[index - 1])) {
+      errors.push("移动止盈 trigger 应该递增");
+    }
+    
+    const breakEven = config.trailingStop.breakEven;
+    if (breakEven) {
+      if (breakEven.trigger !== undefined && breakEven.trigger <= 0) {
+        errors.push("trailingStop.breakEven.trigger 无效");
+      }
+      if (breakEven.trigger !== undefined && (breakEven.offset ?? 0) >= breakEven.trigger) {
+        errors.push("trailingStop.breakEven.offset 应该小于 trigger");
+      }
+    }
+  }
+  
+  // 6. 检查分批止盈配置
+  if (!config.partialTakeProfit) {
+    errors.push("缺少 partialTakeProfit 配置");
+  } else if (!Array.isArray(config.partialTakeProfit.stages) || config.partialTakeProfit.stages.length === 0) {
+    errors.push("partialTakeProfit.stages 未定义或为空");
+  } else {
+    const stages = config.partialTakeProfit.stages;
+    stages.forEach((stage, index) => {
+      const name = `partialTakeProfit.stages[${index}]`;
+      // 触发条件二选一：trigger / atrMultiple
+      if ((stage.trigger === undefined) === (stage.atrMultiple === undefined)) {
+        errors.push(`${name} 需要且只能配置 trigger、atrMultiple 中的一项`);
+      } else if (stage.trigger !== undefined && stage.trigger <= 0) {
+        errors.push(`${name}.trigger 无效`);
+      } else if (stage.atrMultiple !== undefined && stage.atrMultiple <= 0) {
+        errors.push(`${name}.atrMultiple 应该大于 0`);
+      }
+      if (stage.closePercent === undefined || stage.closePercent <= 0 || stage.closePercent > 100) {
+        errors.push(`${name}.closePercent 未定义或超出范围 (0-100)`);
+      }
+    });
+    
+    // 检查分批止盈逻辑：同类触发条件递增
+    for (const key of ["trigger", "atrMultiple"] as const) {
+      const values = stages.map(stage => stage[key]).filter((value): value is number => value !== undefined);
+      if (values.some((value, index) => index > 0 && value <= values[index - 1])) {
+        errors.push(`分批止盈 ${key} 应该递增`);
+      }
+    }
+    
+    // closePercent 为累计平仓比例，递减的阶段永远不会触发
+    if (stages.some((stage, index) => index > 0 && stage.closePercent < stages[index - 1].closePercent)) {
+      warnings.push("分批止盈 closePercent 为累计平仓比例，应该递增（递减的阶段不会触发）");
+    }
+  }
+  
+  // ATR 计算参数
+  if (config.atr?.period !== undefined && (!Number.isInteger(config.atr.period) || config.atr.period <= 0)) {
+    errors.push("atr.period 应该是正整数");
+  }
+  
+  // 熔断规则
+  if (config.circuitBreakerRules !== undefined) {
+    const result = circuitBreakerRulesSchema.safeParse(config.circuitBreakerRules);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        errors.push(`circuitBreakerRules.${issue.path.join(".")}: ${issue.message}`);
+      }
+    }
+  }
+  
+  // 7. 检查峰值回撤保护
+  if (config.peakDrawdownProtection === undefined || config.peakDrawdownProtection <= 0) {
+    errors.push("peakDrawdownProtection 未定义或无效");
+  }
+  
+  // 8. 检查波动率调整
+  if (!config.volatilityAdjustment) {
+    errors.push("缺少 volatilityAdjustment 配置");
+  } else {
+    const volatilities = ['highVolatility', 'normalVolatility', 'lowVolatility'] as const;
+    for (const vol of volatilities) {
+      if (!config.volatilityAdjustment[vol]) {
+        errors.push(`volatilityAdjustment.${vol} 未定义`);
+      } else {
+        if (config.volatilityAdjustment[vol].leverageFactor === undefined || config.volatilityAdjustment[vol].leverageFactor <= 0) {
+          errors.push(`volatilityAdjustment.${vol}.leverageFactor 未定义或无效`);
+        }
+        if (config.volatilityAdjustment[vol].positionFactor === undefined || config.volatilityAdjustment[vol].positionFactor <= 0) {
+          errors.push(`volatilityAdjustment.${vol}.positionFactor 未定义或无效`);
+        }
+      }
+    }
+  }
+  
+  // 9. 检查入场条件和风险容忍度
+  if (!config.entryCondition) {
+    warnings.push("缺少 entryCondition 描述");
+  }
+  
+  if (!config.riskTolerance) {
+    warnings.push("缺少 riskTolerance 描述");
+  }
+  
+  if (!config.tradingStyle) {
+    warnings.push("缺少 tradingStyle 描述");
+  }
+  
+  // 10. 检查代码级保护配置
+  if (config.enableCodeLevelProtection === undefined) {
+    errors.push("enableCodeLevelProtection 未定义");
+  }
+  
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
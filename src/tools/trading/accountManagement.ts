@@ -21,10 +21,12 @@
  */
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
-import { createExchangeClient } from "../../services/exchangeClient";
+import { createExchangeClient, type ClosedPosition } from "../../services/exchangeClient";
 import { createClient } from "@libsql/client";
 import { RISK_PARAMS } from "../../config/riskParams";
 import { getQuantoMultiplier } from "../../utils/contractUtils";
+import { getErrorMessage } from "../../utils/errorUtils";
+import { calculatePortfolioRisk } from "../../utils/portfolioRisk";
 
 const dbClient = createClient({
   url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
@@ -45,11 +47,11 @@ export const getAccountBalanceTool = createTool({
       
       return {
         currency: account.currency,
-        totalBalance: Number.parseFloat(account.total || "0"),
-        availableBalance: Number.parseFloat(account.available || "0"),
-        positionMargin: Number.parseFloat(account.positionMargin || "0"),
-        orderMargin: Number.parseFloat(account.orderMargin || "0"),
-        unrealisedPnl: Number.parseFloat(account.unrealisedPnl || "0"),
+        totalBalance: account.total,
+        availableBalance: account.available,
+        positionMargin: account.positionMargin,
+        orderMargin: account.orderMargin,
+        unrealisedPnl: account.unrealisedPnl,
         timestamp: new Date().toISOString(),
       };
     } catch (error: any) {
@@ -75,18 +77,18 @@ export const getPositionsTool = createTool({
       const positions = await client.getPositions();
       
       const formattedPositions = positions
-        .filter((p: any) => Number.parseFloat(p.size || "0") !== 0)
-        .map((p: any) => ({
+        .filter(p => p.size !== 0)
+        .map(p => ({
           contract: p.contract,
-          size: Number.parseFloat(p.size || "0"),
-          leverage: Number.parseInt(p.leverage || "1"),
-          entryPrice: Number.parseFloat(p.entryPrice || "0"),
-          markPrice: Number.parseFloat(p.markPrice || "0"),
-          liquidationPrice: Number.parseFloat(p.liqPrice || "0"),
-          unrealisedPnl: Number.parseFloat(p.unrealisedPnl || "0"),
-          realisedPnl: Number.parseFloat(p.realisedPnl || "0"),
-          margin: Number.parseFloat(p.margin || "0"),
-          side: Number.parseFloat(p.size || "0") > 0 ? "long" : "short",
+          size: p.size,
+          leverage: p.leverage || 1,
+          entryPrice: p.entryPrice,
+          markPrice: p.markPrice,
+          liquidationPrice: p.liqPrice,
+          unrealisedPnl: p.unrealisedPnl,
+          realisedPnl: p.realisedPnl,
+          margin: p.margin,
+          side: p.size > 0 ? "long" : "short",
         }));
       
       return {
@@ -119,16 +121,16 @@ export const getOpenOrdersTool = createTool({
       const contract = symbol ? `${symbol}_USDT` : undefined;
       const orders = await client.getOpenOrders(contract);
       
-      const formattedOrders = orders.map((o: any) => ({
-        orderId: o.id?.toString(),
+      const formattedOrders = orders.map(o => ({
+        orderId: o.id,
         contract: o.contract,
-        size: Number.parseInt(o.size || "0"),
-        price: Number.parseFloat(o.price || "0"),
-        left: Number.parseInt(o.left || "0"),
+        size: o.size,
+        price: o.price,
+        left: o.left,
         status: o.status,
-        side: Number.parseInt(o.size || "0") > 0 ? "long" : "short",
-        isReduceOnly: o.is_reduce_only,
-        createdAt: o.create_time,
+        side: o.size > 0 ? "long" : "short",
+        isReduceOnly: o.reduceOnly,
+        createdAt: o.createTime,
       }));
       
       return {
@@ -160,23 +162,23 @@ export const checkOrderStatusTool = createTool({
     try {
       const orderDetail = await client.getOrder(orderId);
       
-      const totalSize = Math.abs(Number.parseInt(orderDetail.size || "0"));
-      const leftSize = Math.abs(Number.parseInt(orderDetail.left || "0"));
+      const totalSize = Math.abs(orderDetail.size);
+      const leftSize = Math.abs(orderDetail.left);
       const filledSize = totalSize - leftSize;
-      const fillPrice = Number.parseFloat(orderDetail.fill_price || orderDetail.price || "0");
+      const fillPrice = orderDetail.fillPrice || orderDetail.price;
       
       return {
         success: true,
-        orderId: orderDetail.id?.toString(),
+        orderId: orderDetail.id,
         contract: orderDetail.contract,
         status: orderDetail.status,
         totalSize,
         filledSize,
         leftSize,
         fillPrice,
-        price: Number.parseFloat(orderDetail.price || "0"),
-        createdAt: orderDetail.create_time,
-        finishedAt: orderDetail.finish_time,
+        price: orderDetail.price,
+        createdAt: orderDetail.createTime,
+        finishedAt: orderDetail.finishTime,
         isFullyFilled: leftSize === 0,
         fillPercentage: totalSize > 0 ? (filledSize / totalSize * 100).toFixed(2) : "0",
         message: `订单 ${orderId} 状态: ${orderDetail.status}, 已成交 ${filledSize}/${totalSize} 张 (${totalSize > 0 ? (filledSize / totalSize * 100).toFixed(1) : '0'}%), 成交价 ${fillPrice}`,
@@ -196,7 +198,7 @@ export const checkOrderStatusTool = createTool({
  */
 export const calculateRiskTool = createTool({
   name: "calculateRisk",
-  description: "计算当前账户的风险敞口和仓位情况",
+  description: "计算当前账户的风险敞口和仓位情况，包括按币种和方向的净/总敞口、组合 VaR/CVaR（历史模拟和参数法）、BTC beta 敞口以及组合风险限额",
   parameters: z.object({}),
   execute: async () => {
     const client = createExchangeClient();
@@ -207,22 +209,22 @@ export const calculateRiskTool = createTool({
         client.getPositions(),
       ]);
       
-      // account.total 包含了未实现盈亏，需要减去以得到实际总资产
-      const unrealisedPnl = Number.parseFloat(account.unrealisedPnl || "0");
-      const totalBalance = Number.parseFloat(account.total || "0") - unrealisedPnl;
-      const availableBalance = Number.parseFloat(account.available || "0");
+      // account.total 不包含未实现盈亏
+      const unrealisedPnl = account.unrealisedPnl;
+      const totalBalance = account.total;
+      const availableBalance = account.available;
       
       // 计算每个持仓的风险（需要异步获取合约乘数）
-      const activePositions = positions.filter((p: any) => Number.parseFloat(p.size || "0") !== 0);
+      const activePositions = positions.filter(p => p.size !== 0);
       
       const positionRisks = await Promise.all(
-        activePositions.map(async (p: any) => {
-          const size = Math.abs(Number.parseFloat(p.size || "0"));
-          const entryPrice = Number.parseFloat(p.entryPrice || "0");
-          const leverage = Number.parseInt(p.leverage || "1");
-          const liquidationPrice = Number.parseFloat(p.liqPrice || "0");
-          const currentPrice = Number.parseFloat(p.markPrice || "0");
-          const pnl = Number.parseFloat(p.unrealisedPnl || "0");
+        activePositions.map(async p => {
+          const size = Math.abs(p.size);
+          const entryPrice = p.entryPrice;
+          const leverage = p.leverage || 1;
+          const liquidationPrice = p.liqPrice;
+          const currentPrice = p.markPrice;
+          const pnl = p.unrealisedPnl;
           
           // 获取合约乘数（修复：正确计算名义价值）
           const quantoMultiplier = await getQuantoMultiplier(p.contract);
@@ -243,7 +245,7 @@ export const calculateRiskTool = createTool({
             leverage,
             pnl,
             riskPercent,
-            side: Number.parseFloat(p.size || "0") > 0 ? "long" : "short",
+            side: p.size > 0 ? "long" : "short",
           };
         })
       );
@@ -270,6 +272,12 @@ export const calculateRiskTool = createTool({
       } else if (usedMarginPercent > 50) {
         riskLevel = "medium";
       }
+      
+      // 组合风险（敞口、VaR/CVaR、BTC beta）
+      const portfolioRisk = await calculatePortfolioRisk(activePositions, account);
+      if (portfolioRisk.breaches.length > 0) {
+        riskLevel = "high";
+      }
 
       return {
         totalBalance,
@@ -282,6 +290,7 @@ export const calculateRiskTool = createTool({
         positionCount: positionRisks.length,
         positions: positionRisks,
         riskLevel,
+        portfolioRisk,
         timestamp: new Date().toISOString(),
       };
     } catch (error: any) {
@@ -310,12 +319,11 @@ export const syncPositionsTool = createTool({
       await dbClient.execute("DELETE FROM positions");
       
       // 插入当前持仓
-      for (const p of positions) {
-        const pos = p as any;
-        const size = Number.parseFloat(pos.size || "0");
+      for (const pos of positions) {
+        const size = pos.size;
         if (size === 0) continue;
         
-        const symbol = pos.contract?.replace("_USDT", "") || "";
+        const symbol = pos.contract.replace("_USDT", "");
         const side = size > 0 ? "long" : "short";
         
         await dbClient.execute({
@@ -326,11 +334,11 @@ export const syncPositionsTool = createTool({
           args: [
             symbol,
             Math.abs(size),
-            Number.parseFloat(pos.entryPrice || "0"),
-            Number.parseFloat(pos.markPrice || "0"),
-            Number.parseFloat(pos.liqPrice || "0"),
-            Number.parseFloat(pos.unrealisedPnl || "0"),
-            Number.parseInt(pos.leverage || "1"),
+            pos.entryPrice,
+            pos.markPrice,
+            pos.liqPrice,
+            pos.unrealisedPnl,
+            pos.leverage || 1,
             side,
             "synced",
             new Date().toISOString(),
@@ -340,7 +348,7 @@ export const syncPositionsTool = createTool({
       
       return {
         success: true,
-        syncedCount: positions.filter((p: any) => Number.parseFloat(p.size || "0") !== 0).length,
+        syncedCount: positions.filter(p => p.size !== 0).length,
         message: "持仓同步完成",
       };
     } catch (error: any) {
@@ -353,3 +361,119 @@ export const syncPositionsTool = createTool({
   },
 });
 
+
+/**
+ * 格式化历史平仓/结算记录
+ */
+function formatClosedPositions(records: ClosedPosition[]) {
+  return records.map(r => ({
+    symbol: r.contract.replace("_USDT", ""),
+    side: r.side,
+    size: r.size,
+    entryPrice: r.entryPrice,
+    closePrice: r.closePrice,
+    pnl: r.pnl,
+    fee: r.fee,
+    type: r.type,
+    closedAt: new Date(r.time * 1000).toISOString(),
+  }));
+}
+
+/**
+ * 获取交易所历史平仓记录工具（交易所不提供历史仓位接口时不提供给 AI）
+ */
+export const getPositionHistoryTool = createTool({
+  name: "getPositionHistory",
+  description: "获取交易所最近的历史平仓记录，包括开平仓均价、盈亏和手续费，用于复盘近期交易",
+  parameters: z.object({
+    symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).optional().describe("可选：仅获取指定币种的记录"),
+    limit: z.number().int().min(1).max(50).default(10).describe("返回的记录数"),
+  }),
+  execute: async ({ symbol, limit }) => {
+    const client = createExchangeClient();
+    
+    try {
+      const contract = symbol ? `${symbol}_USDT` : undefined;
+      const records = formatClosedPositions(await client.getPositionHistory(contract, limit));
+      return {
+        records,
+        count: records.length,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = getErrorMessage(error);
+      return {
+        error: message,
+        message: `获取历史平仓记录失败: ${message}`,
+      };
+    }
+  },
+});
+
+/**
+ * 获取交易所历史结算记录工具（强平、减仓等结算，交易所不提供结算接口时不提供给 AI）
+ */
+export const getSettlementHistoryTool = createTool({
+  name: "getSettlementHistory",
+  description: "获取交易所的历史结算记录（强制平仓、自动减仓等），用于检查是否发生过非主动平仓",
+  parameters: z.object({
+    symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).optional().describe("可选：仅获取指定币种的记录"),
+    limit: z.number().int().min(1).max(50).default(10).describe("返回的记录数"),
+  }),
+  execute: async ({ symbol, limit }) => {
+    const client = createExchangeClient();
+    
+    try {
+      const contract = symbol ? `${symbol}_USDT` : undefined;
+      const records = formatClosedPositions(await client.getSettlementHistory(contract, limit));
+      return {
+        records,
+        count: records.length,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = getErrorMessage(error);
+      return {
+        error: message,
+        message: `获取历史结算记录失败: ${message}`,
+      };
+    }
+  },
+});
+
+/**
+ * 获取交易所止损止盈条件单工具（交易所不支持条件单时不提供给 AI）
+ */
+export const getTriggerOrdersTool = createTool({
+  name: "getTriggerOrders",
+  description: "获取交易所上未触发的止损止盈条件单（开仓后系统自动挂出，随移动止盈上移）",
+  parameters: z.object({
+    symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).optional().describe("可选：仅获取指定币种的条件单"),
+  }),
+  execute: async ({ symbol }) => {
+    const client = createExchangeClient();
+    
+    try {
+      const contract = symbol ? `${symbol}_USDT` : undefined;
+      const orders = (await client.getTriggerOrders(contract)).map(o => ({
+        orderId: o.id,
+        symbol: o.contract.replace("_USDT", ""),
+        side: o.side,
+        kind: o.kind,
+        triggerPrice: o.triggerPrice,
+        status: o.status,
+      }));
+      return {
+        orders,
+        count: orders.length,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = getErrorMessage(error);
+      return {
+        error: message,
+        message: `获取条件单失败: ${message}`,
+      };
+    }
+  },
+});
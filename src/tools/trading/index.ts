@@ -19,6 +19,7 @@
 /**
  * 交易工具集导出
  */
+import type { ExchangeCapabilities } from "../../services/exchangeClient";
 
 // 市场数据工具
 export {
@@ -44,5 +45,36 @@ export {
   checkOrderStatusTool,
   calculateRiskTool,
   syncPositionsTool,
+  getPositionHistoryTool,
+  getSettlementHistoryTool,
+  getTriggerOrdersTool,
 } from "./accountManagement";
 
+
+/**
+ * 交易所是否支持会挂在盘口上的订单（limit / post_only），ioc / fok 不会留下挂单
+ */
+function supportsRestingOrders(capabilities: ExchangeCapabilities): boolean {
+  return capabilities.orderTypes.includes("limit") || capabilities.orderTypes.includes("post_only");
+}
+
+/**
+ * 各工具依赖的交易所能力，不满足时不提供给 AI（而不是等调用时报错）
+ * - 查询挂单、撤单：交易所支持挂单类订单
+ * - 历史平仓、历史结算：交易所提供对应的历史接口
+ * - 条件单查询：交易所支持止损止盈条件单
+ */
+const TOOL_REQUIREMENTS: Record<string, (capabilities: ExchangeCapabilities) => boolean> = {
+  getOpenOrders: supportsRestingOrders,
+  cancelOrder: supportsRestingOrders,
+  getPositionHistory: capabilities => capabilities.positionHistory,
+  getSettlementHistory: capabilities => capabilities.settlementHistory,
+  getTriggerOrders: capabilities => capabilities.triggerOrders,
+};
+
+/**
+ * 按交易所能力过滤工具列表
+ */
+export function filterToolsByCapabilities<T extends { name: string }>(tools: T[], capabilities: ExchangeCapabilities): T[] {
+  return tools.filter(tool => TOOL_REQUIREMENTS[tool.name]?.(capabilities) ?? true);
+}
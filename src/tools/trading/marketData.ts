@@ -21,8 +21,10 @@
  */
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
-import { createExchangeClient } from "../../services/exchangeClient";
+import { createExchangeClient, type Candle } from "../../services/exchangeClient";
+import { createCandleStore } from "../../services/candleStore";
 import { RISK_PARAMS } from "../../config/riskParams";
+import { calculateATR } from "../../services/volatility";
 
 /**
  * 确保数值是有效的有限数字，否则返回默认值
@@ -92,54 +94,10 @@ function calculateMACD(prices: number[]) {
   return Number.isFinite(macd) ? macd : 0;
 }
 
-// 计算 ATR
-function calculateATR(candles: any[], period: number) {
-  if (!candles || candles.length < 2) return 0;
-  
-  const trs = [];
-  for (let i = 1; i < candles.length; i++) {
-    let high: number, low: number, prevClose: number;
-    
-    // 处理对象格式（FuturesCandlestick）
-    if (candles[i] && typeof candles[i] === 'object' && 'h' in candles[i]) {
-      high = Number.parseFloat(candles[i].h);
-      low = Number.parseFloat(candles[i].l);
-      prevClose = Number.parseFloat(candles[i - 1].c);
-    }
-    // 处理数组格式（兼容旧代码）
-    else if (Array.isArray(candles[i])) {
-      high = Number.parseFloat(candles[i][3]);
-      low = Number.parseFloat(candles[i][4]);
-      prevClose = Number.parseFloat(candles[i - 1][2]);
-    } else {
-      continue;
-    }
-    
-    if (Number.isFinite(high) && Number.isFinite(low) && Number.isFinite(prevClose)) {
-      const tr = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
-      trs.push(tr);
-    }
-  }
-  
-  if (trs.length === 0) return 0;
-  return trs.slice(-period).reduce((a, b) => a + b, 0) / Math.min(period, trs.length);
-}
-
 /**
  * 计算技术指标
- * 
- * K线数据格式：FuturesCandlestick 对象
- * {
- *   t: number,    // 时间戳
- *   v: number,    // 成交量
- *   c: string,    // 收盘价
- *   h: string,    // 最高价
- *   l: string,    // 最低价
- *   o: string,    // 开盘价
- *   sum: string   // 总成交额
- * }
  */
-function calculateIndicators(candles: any[]) {
+function calculateIndicators(candles: Candle[]) {
   if (!candles || candles.length === 0) {
     return {
       currentPrice: 0,
@@ -155,37 +113,12 @@ function calculateIndicators(candles: any[]) {
     };
   }
 
-  // 处理对象格式的K线数据（Gate.io API返回的是对象，不是数组）
   const closes = candles
-    .map((c) => {
-      // 如果是对象格式（FuturesCandlestick）
-      if (c && typeof c === 'object' && 'c' in c) {
-        return Number.parseFloat(c.c);
-      }
-      // 如果是数组格式（兼容旧代码）
-      if (Array.isArray(c)) {
-        return Number.parseFloat(c[2]);
-      }
-      return NaN;
-    })
+    .map((c) => c.close)
     .filter(n => Number.isFinite(n));
 
-  const volumes = candles
-    .map((c) => {
-      // 如果是对象格式（FuturesCandlestick）
-      if (c && typeof c === 'object' && 'v' in c) {
-        const vol = Number.parseFloat(c.v);
-        // 验证成交量：必须是有限数字且非负
-        return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-      }
-      // 如果是数组格式（兼容旧代码）
-      if (Array.isArray(c)) {
-        const vol = Number.parseFloat(c[1]);
-        return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-      }
-      return 0;
-    })
-    .filter(n => n >= 0); // 过滤掉负数成交量
+  // 验证成交量：必须是有限数字且非负
+  const volumes = candles.map((c) => (Number.isFinite(c.volume) && c.volume >= 0 ? c.volume : 0));
 
   if (closes.length === 0 || volumes.length === 0) {
     return {
@@ -237,13 +170,13 @@ export const getMarketPriceTool = createTool({
     return {
       symbol,
       contract,
-      lastPrice: Number.parseFloat(ticker.last || "0"),
-      markPrice: Number.parseFloat(ticker.markPrice || "0"),
-      indexPrice: Number.parseFloat(ticker.indexPrice || "0"),
-      highPrice24h: Number.parseFloat(ticker.high24h || "0"),
-      lowPrice24h: Number.parseFloat(ticker.low24h || "0"),
-      volume24h: Number.parseFloat(ticker.volume24h || "0"),
-      change24h: Number.parseFloat(ticker.changePercentage || "0"),
+      lastPrice: ticker.last,
+      markPrice: ticker.markPrice,
+      indexPrice: ticker.indexPrice,
+      highPrice24h: ticker.high24h,
+      lowPrice24h: ticker.low24h,
+      volume24h: ticker.volume24h,
+      change24h: ticker.changePercentage,
     };
   },
 });
@@ -260,10 +193,9 @@ export const getTechnicalIndicatorsTool = createTool({
     limit: z.number().default(100).describe("K线数量"),
   }),
   execute: async ({ symbol, interval, limit }) => {
-    const client = createExchangeClient();
     const contract = `${symbol}_USDT`;
     
-    const candles = await client.getFuturesCandles(contract, interval, limit);
+    const candles = await createCandleStore().getCandles(contract, interval, limit);
     const indicators = calculateIndicators(candles);
     
     return {
@@ -292,8 +224,8 @@ export const getFundingRateTool = createTool({
     
     return {
       symbol,
-      fundingRate: Number.parseFloat(fundingRate.r || "0"),
-      fundingTime: fundingRate.t,
+      fundingRate: fundingRate.rate,
+      fundingTime: fundingRate.time,
       timestamp: new Date().toISOString(),
     };
   },
@@ -315,15 +247,8 @@ export const getOrderBookTool = createTool({
     
     const orderBook = await client.getOrderBook(contract, limit);
     
-    const bids = orderBook.bids?.slice(0, limit).map((b: any) => ({
-      price: Number.parseFloat(b.p),
-      size: Number.parseFloat(b.s),
-    })) || [];
-    
-    const asks = orderBook.asks?.slice(0, limit).map((a: any) => ({
-      price: Number.parseFloat(a.p),
-      size: Number.parseFloat(a.s),
-    })) || [];
+    const bids = orderBook.bids.slice(0, limit);
+    const asks = orderBook.asks.slice(0, limit);
     
     return {
       symbol,
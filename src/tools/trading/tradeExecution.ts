@@ -21,13 +21,19 @@
  */
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
-import { createExchangeClient } from "../../services/exchangeClient";
+import { createExchangeClient, getCloseOrderFlags, getExchangeCapabilities, getExchangeDisplayName, isOrderTypeSupported } from "../../services/exchangeClient";
 import { createClient } from "@libsql/client";
 import { createLogger } from "../../utils/loggerUtils";
 import { getChinaTimeISO } from "../../utils/timeUtils";
 import { RISK_PARAMS } from "../../config/riskParams";
 import { getQuantoMultiplier } from "../../utils/contractUtils";
 import { comprehensiveRiskCheck, getDynamicStopLoss } from "../../utils/riskControl";
+import { placeProtectiveOrders } from "../../services/protectiveOrders";
+import { executeOrder, resolveOrderType, type OrderExecutionResult } from "../../services/orderExecution";
+import { formatSizingAdjustments, sizePosition } from "../../services/positionSizing";
+import { ORDER_TYPES } from "../../strategies/types";
+import { tryLockPosition, unlockPosition } from "../../utils/positionLock";
+import { settleFullClose } from "../../scheduler/monitorState";
 
 const logger = createLogger({
   name: "trade-execution",
@@ -38,22 +44,50 @@ const dbClient = createClient({
   url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
 });
 
+/**
+ * 生成开仓结果中的止损止盈说明
+ */
+function describeProtection(stopLoss?: number, takeProfit?: number, slOrderId?: string, tpOrderId?: string): string {
+  const parts: string[] = [];
+  if (slOrderId) {
+    parts.push(`止损 ${stopLoss}`);
+  }
+  if (tpOrderId) {
+    parts.push(`止盈 ${takeProfit}`);
+  }
+  if (parts.length === 0) {
+    return "⚠️ 未挂出止盈止损条件单，请在每个周期主动决策是否平仓。";
+  }
+  return `已在交易所挂出条件单：${parts.join("，")}。`;
+}
+
+/**
+ * 生成交易结果中的盘口滑点说明（预估成交价与实际成交价）
+ */
+function describeSlippage(execution: OrderExecutionResult): string {
+  const slippage = execution.slippage;
+  if (!slippage || execution.fillPrice <= 0) {
+    return "";
+  }
+  const split = slippage.slices > 1 ? `，按盘口深度拆分为 ${slippage.slices} 笔` : "";
+  return `预估成交价 ${slippage.expectedPrice}，实际滑点 ${slippage.actualSlippagePercent.toFixed(3)}%（预估 ${slippage.expectedSlippagePercent.toFixed(3)}%）${split}`;
+}
+
 /**
  * 开仓工具
  */
 export const openPositionTool = createTool({
   name: "openPosition",
-  description: "开仓 - 做多或做空指定币种（使用市价单，立即以当前市场价格成交）。IMPORTANT: 开仓前必须先用getAccountBalance和getPositions工具查询可用资金和现有持仓，避免资金不足。交易手续费约0.05%，避免频繁交易。开仓时不设置止盈止损，你需要在每个周期主动决策是否平仓。",
+  description: "开仓 - 做多或做空指定币种（默认使用策略配置的订单类型，未配置时为市价单）。可通过 orderType 指定 limit（限价挂单，超时追价或撤单）、post_only（只做 maker）、ioc、fok。IMPORTANT: 开仓前必须先用getAccountBalance和getPositions工具查询可用资金和现有持仓，避免资金不足。交易手续费约0.05%，避免频繁交易。系统会按账户回撤保护、交易时段、波动率和策略总保证金预算调整开仓金额和杠杆，每一步调整都会在结果中返回。市价单下单前按订单簿深度估算滑点，价差或滑点超过阈值时拆分下单或拒绝开仓（流动性差的币种请减少金额）。开仓后系统会按策略止损线和最终止盈目标在交易所挂出止损止盈条件单（兜底保护），你仍需要在每个周期主动决策是否平仓。",
   parameters: z.object({
     symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).describe("币种代码"),
     side: z.enum(["long", "short"]).describe("方向：long=做多，short=做空"),
     leverage: z.number().min(1).max(RISK_PARAMS.MAX_LEVERAGE).describe(`杠杆倍数（1-${RISK_PARAMS.MAX_LEVERAGE}倍，根据环境变量MAX_LEVERAGE配置）`),
     amountUsdt: z.number().describe("开仓金额（USDT）"),
+    orderType: z.enum(ORDER_TYPES).optional().describe("订单类型：market=市价，limit=限价，post_only=只做maker，ioc=立即成交剩余撤销，fok=全部成交否则撤销（不填使用策略默认）"),
+    limitPrice: z.number().positive().optional().describe("限价（仅非市价单有效，不填则按盘口价格挂单）"),
   }),
-  execute: async ({ symbol, side, leverage, amountUsdt }) => {
-    // 开仓时不设置止盈止损，由 AI 在每个周期主动决策
-    const stopLoss = undefined;
-    const takeProfit = undefined;
+  execute: async ({ symbol, side, leverage, amountUsdt, orderType: requestedOrderType, limitPrice }) => {
     const client = createExchangeClient();
     const contract = `${symbol}_USDT`;
     
@@ -73,11 +107,18 @@ export const openPositionTool = createTool({
         };
       }
       
+      if (requestedOrderType && !isOrderTypeSupported(requestedOrderType)) {
+        return {
+          success: false,
+          message: `${getExchangeDisplayName()} 不支持 ${requestedOrderType} 订单，可用订单类型: ${getExchangeCapabilities().orderTypes.join("/")}`,
+        };
+      }
+      
       // ====== 开仓前强制风控检查 ======
       
       // 1. 检查持仓数量（最多5个）
       const allPositions = await client.getPositions();
-      const activePositions = allPositions.filter((p: any) => Math.abs(Number.parseInt(p.size || "0")) !== 0);
+      const activePositions = allPositions.filter(p => p.size !== 0);
       
       if (activePositions.length >= RISK_PARAMS.MAX_POSITIONS) {
         return {
@@ -87,13 +128,13 @@ export const openPositionTool = createTool({
       }
       
       // 2. 检查该币种是否已有持仓（禁止双向持仓）
-      const existingPosition = activePositions.find((p: any) => {
+      const existingPosition = activePositions.find(p => {
         const posSymbol = p.contract.replace("_USDT", "");
         return posSymbol === symbol;
       });
       
       if (existingPosition) {
-        const existingSize = Number.parseInt(existingPosition.size || "0");
+        const existingSize = existingPosition.size;
         const existingSide = existingSize > 0 ? "long" : "short";
         
         if (existingSide !== side) {
@@ -119,7 +160,8 @@ export const openPositionTool = createTool({
         const closeTime = new Date(recentCloseResult.rows[0].timestamp as string).getTime();
         const now = Date.now();
         const minutesSinceClose = (now - closeTime) / (1000 * 60);
-        const intervalMinutes = Number.parseInt(process.env.TRADING_INTERVAL_MINUTES || "5");
+        const { getTradingIntervalMinutes } = await import("../../agents/tradingAgent.js");
+        const intervalMinutes = getTradingIntervalMinutes();
         const cooldownMinutes = intervalMinutes / 2; // 冷静期调整为半个周期
 
         
@@ -136,9 +178,7 @@ export const openPositionTool = createTool({
       
       // 4. 获取账户信息
       const account = await client.getFuturesAccount();
-      const unrealisedPnl = Number.parseFloat(account.unrealisedPnl || "0");
-      const totalBalance = Number.parseFloat(account.total || "0") - unrealisedPnl;
-      const availableBalance = Number.parseFloat(account.available || "0");
+      const availableBalance = account.available;
       
       if (!Number.isFinite(availableBalance) || availableBalance <= 0) {
         return {
@@ -147,6 +187,31 @@ export const openPositionTool = createTool({
         };
       }
       
+      // 4.1 统一计算开仓金额和杠杆（回撤保护、交易时段、波动率、总保证金预算、总敞口）
+      const { getStrategyParams, getTradingStrategy } = await import("../../agents/tradingAgent.js");
+      const strategyParams = getStrategyParams(getTradingStrategy());
+      const sizing = await sizePosition({
+        symbol,
+        amountUsdt,
+        leverage,
+        account,
+        positions: activePositions,
+        strategyParams,
+      });
+      const sizingNote = sizing.adjustments.length > 0 ? `仓位调整：${formatSizingAdjustments(sizing.adjustments)}` : "";
+      if (!sizing.approved) {
+        return {
+          success: false,
+          sizingAdjustments: sizing.adjustments,
+          message: `${sizing.reason}${sizingNote ? `（${sizingNote}）` : ""}`,
+        };
+      }
+      amountUsdt = sizing.amountUsdt;
+      leverage = sizing.leverage;
+      for (const warning of sizing.warnings) {
+        logger.warn(warning);
+      }
+      
       // 5. 【新增】综合风控检查
       logger.info(`执行综合风控检查: ${symbol}, 金额=${amountUsdt} USDT, 杠杆=${leverage}x`);
       
@@ -155,10 +220,12 @@ export const openPositionTool = createTool({
         side,
         amountUsdt,
         leverage,
-        existingPositions: activePositions.map((p: any) => ({
+        existingPositions: activePositions.map(p => ({
           symbol: p.contract.replace("_USDT", ""),
-          side: Number.parseInt(p.size || "0") > 0 ? "long" : "short",
+          side: p.size > 0 ? "long" : "short",
         })),
+        positions: activePositions,
+        account,
       });
       
       // 输出警告信息
@@ -178,181 +245,14 @@ export const openPositionTool = createTool({
       const dynamicStopLoss = getDynamicStopLoss(leverage);
       logger.info(`动态止损线: ${dynamicStopLoss}% (杠杆${leverage}x)`);
       
-      // 5. 检查账户回撤（从数据库获取初始净值和峰值净值）
-      // 注释：已移除回撤10%禁止开仓的限制
-      // const initialBalanceResult = await dbClient.execute(
-      //   "SELECT total_value FROM account_history ORDER BY timestamp ASC LIMIT 1"
-      // );
-      // const initialBalance = initialBalanceResult.rows[0]
-      //   ? Number.parseFloat(initialBalanceResult.rows[0].total_value as string)
-      //   : totalBalance;
-      // 
-      // const peakBalanceResult = await dbClient.execute(
-      //   "SELECT MAX(total_value) as peak FROM account_history"
-      // );
-      // const peakBalance = peakBalanceResult.rows[0]?.peak 
-      //   ? Number.parseFloat(peakBalanceResult.rows[0].peak as string)
-      //   : totalBalance;
-      // 
-      // const drawdownFromPeak = peakBalance > 0 
-      //   ? ((peakBalance - totalBalance) / peakBalance) * 100 
-      //   : 0;
-      // 
-      // if (drawdownFromPeak >= RISK_PARAMS.ACCOUNT_DRAWDOWN_NO_NEW_POSITION_PERCENT) {
-      //   return {
-      //     success: false,
-      //     message: `账户回撤已达 ${drawdownFromPeak.toFixed(2)}% ≥ ${RISK_PARAMS.ACCOUNT_DRAWDOWN_NO_NEW_POSITION_PERCENT}%，触发风控保护，禁止新开仓`,
-      //   };
-      // }
-      
-      // 6. 检查总敞口（不超过账户净值的15倍）
-      let currentTotalExposure = 0;
-      for (const pos of activePositions) {
-        const posSize = Math.abs(Number.parseInt(pos.size || "0"));
-        const entryPrice = Number.parseFloat(pos.entryPrice || "0");
-        const posLeverage = Number.parseInt(pos.leverage || "1");
-        // 获取合约乘数
-        const posQuantoMultiplier = await getQuantoMultiplier(pos.contract);
-        const posValue = posSize * entryPrice * posQuantoMultiplier;
-        currentTotalExposure += posValue;
-      }
-      
-      const newExposure = amountUsdt * leverage;
-      const totalExposure = currentTotalExposure + newExposure;
-      const maxAllowedExposure = totalBalance * RISK_PARAMS.MAX_LEVERAGE; // 使用配置的最大杠杆
-      
-      if (totalExposure > maxAllowedExposure) {
-        return {
-          success: false,
-          message: `新开仓将导致总敞口 ${totalExposure.toFixed(2)} USDT 超过限制 ${maxAllowedExposure.toFixed(2)} USDT（账户净值的${RISK_PARAMS.MAX_LEVERAGE}倍），拒绝开仓`,
-        };
-      }
-      
-      // 7. 检查单笔仓位（建议不超过账户净值的30%）
-      const maxSinglePosition = totalBalance * 0.30; // 30%
-      if (amountUsdt > maxSinglePosition) {
-        logger.warn(`开仓金额 ${amountUsdt.toFixed(2)} USDT 超过建议仓位 ${maxSinglePosition.toFixed(2)} USDT（账户净值的30%）`);
-      }
-      
-      // ====== 流动性保护检查 ======
-      
-      // 1. 检查交易时段（UTC时间）
-      const now = new Date();
-      const hourUTC = now.getUTCHours();
-      const dayOfWeek = now.getUTCDay(); // 0=周日，6=周六
-      
-      // 低流动性时段警告（UTC 2:00-6:00，亚洲时段凌晨）
-      if (hourUTC >= 2 && hourUTC <= 6) {
-        logger.warn(`⚠️  当前处于低流动性时段 (UTC ${hourUTC}:00)，建议谨慎交易`);
-        // 在低流动性时段降低仓位
-        amountUsdt = Math.max(10, amountUsdt * 0.7);
-      }
-      
-      // 周末流动性检查
-      if ((dayOfWeek === 5 && hourUTC >= 22) || dayOfWeek === 6 || (dayOfWeek === 0 && hourUTC < 20)) {
-        logger.warn(`⚠️  当前处于周末时段，流动性可能较低`);
-        amountUsdt = Math.max(10, amountUsdt * 0.8);
-      }
-      
-      // 2. 检查订单簿深度（确保有足够流动性）
-      try {
-        const orderBook = await client.getOrderBook(contract, 5); // 获取前5档订单
-        
-        if (orderBook && orderBook.bids && orderBook.bids.length > 0) {
-          // 计算买单深度（前5档）
-          const bidDepth = orderBook.bids.slice(0, 5).reduce((sum: number, bid: any) => {
-            const price = Number.parseFloat(bid.p);
-            const size = Number.parseFloat(bid.s);
-            return sum + price * size;
-          }, 0);
-          
-          // 要求订单簿深度至少是开仓金额的5倍
-          const requiredDepth = amountUsdt * leverage * 5;
-          
-          if (bidDepth < requiredDepth) {
-            return {
-              success: false,
-              message: `流动性不足：订单簿深度 ${bidDepth.toFixed(2)} USDT < 所需 ${requiredDepth.toFixed(2)} USDT`,
-            };
-          }
-          
-          logger.info(`✅ 流动性检查通过：订单簿深度 ${bidDepth.toFixed(2)} USDT >= 所需 ${requiredDepth.toFixed(2)} USDT`);
-        }
-      } catch (error) {
-        logger.warn(`获取订单簿失败: ${error}`);
-        // 如果无法获取订单簿，发出警告但继续
-      }
-      
-      // ====== 波动率自适应调整 ======
-      
-      // 获取当前策略和市场数据
-      const { getStrategyParams, getTradingStrategy } = await import("../../agents/tradingAgent.js");
-      const strategy = getTradingStrategy();
-      const strategyParams = getStrategyParams(strategy);
-      
-      let adjustedLeverage = leverage;
-      let adjustedAmountUsdt = amountUsdt;
-      
-      // 从market data中获取ATR（需要从上下文传入）
-      // 这里先计算ATR百分比
-      let atrPercent = 0;
-      let volatilityLevel = "normal";
-      
-      try {
-        // 获取市场数据（包含ATR）
-        const marketDataModule = await import("../trading/marketData.js");
-        const ticker = await client.getFuturesTicker(contract);
-        const currentPrice = Number.parseFloat(ticker.last || "0");
-        
-        // 获取1小时K线计算ATR
-        const candles1h = await client.getFuturesCandles(contract, "1h", 24);
-        if (candles1h && candles1h.length > 14) {
-          // 计算ATR14
-          const trs = [];
-          for (let i = 1; i < candles1h.length; i++) {
-            const high = Number.parseFloat(candles1h[i].h);
-            const low = Number.parseFloat(candles1h[i].l);
-            const prevClose = Number.parseFloat(candles1h[i - 1].c);
-            const tr = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
-            trs.push(tr);
-          }
-          const atr14 = trs.slice(-14).reduce((a, b) => a + b, 0) / 14;
-          atrPercent = (atr14 / currentPrice) * 100;
-          
-          // 确定波动率级别
-          if (atrPercent > 5) {
-            volatilityLevel = "high";
-          } else if (atrPercent < 2) {
-            volatilityLevel = "low";
-          }
-        }
-      } catch (error) {
-        logger.warn(`计算波动率失败: ${error}`);
-      }
-      
-      // 根据波动率调整参数
-      if (volatilityLevel === "high") {
-        const adjustment = strategyParams.volatilityAdjustment.highVolatility;
-        adjustedLeverage = Math.max(1, Math.round(leverage * adjustment.leverageFactor));
-        adjustedAmountUsdt = Math.max(10, amountUsdt * adjustment.positionFactor);
-        logger.info(`🌊 高波动市场 (ATR ${atrPercent.toFixed(2)}%)：杠杆 ${leverage}x → ${adjustedLeverage}x，仓位 ${amountUsdt.toFixed(0)} → ${adjustedAmountUsdt.toFixed(0)} USDT`);
-      } else if (volatilityLevel === "low") {
-        const adjustment = strategyParams.volatilityAdjustment.lowVolatility;
-        adjustedLeverage = Math.min(RISK_PARAMS.MAX_LEVERAGE, Math.round(leverage * adjustment.leverageFactor));
-        adjustedAmountUsdt = Math.min(totalBalance * 0.32, amountUsdt * adjustment.positionFactor);
-        logger.info(`🌊 低波动市场 (ATR ${atrPercent.toFixed(2)}%)：杠杆 ${leverage}x → ${adjustedLeverage}x，仓位 ${amountUsdt.toFixed(0)} → ${adjustedAmountUsdt.toFixed(0)} USDT`);
-      } else {
-        logger.info(`🌊 正常波动市场 (ATR ${atrPercent.toFixed(2)}%)：保持原始参数`);
-      }
-      
       // ====== 风控检查通过，继续开仓 ======
       
       // 设置杠杆（使用调整后的杠杆）
-      await client.setLeverage(contract, adjustedLeverage);
+      await client.setLeverage(contract, leverage);
       
       // 获取当前价格和合约信息
       const ticker = await client.getFuturesTicker(contract);
-      const currentPrice = Number.parseFloat(ticker.last || "0");
+      const currentPrice = ticker.last;
       const contractInfo = await client.getContractInfo(contract);
       
       // Gate.io 永续合约的保证金计算
@@ -362,16 +262,14 @@ export const openPositionTool = createTool({
       
       // 获取合约乘数
       const quantoMultiplier = await getQuantoMultiplier(contract);
-      // 兼容 Gate（下划线命名）和 OKX（驼峰命名）
-      const minSize = Number.parseFloat(contractInfo.orderSizeMin || contractInfo.order_size_min || "1");
-      const maxSize = Number.parseFloat(contractInfo.orderSizeMax || contractInfo.order_size_max || "1000000");
-      // OKX 使用 lotSize，Gate 使用 order_size_round
-      const lotSize = Number.parseFloat(contractInfo.lotSize || contractInfo.order_size_round || "1");
+      const minSize = contractInfo.orderSizeMin || 1;
+      const maxSize = contractInfo.orderSizeMax || 1000000;
+      const lotSize = contractInfo.lotSize || 1;
       
       // 计算可以开多少张合约
-      // adjustedAmountUsdt = (quantity * quantoMultiplier * currentPrice) / leverage
-      // => quantity = (adjustedAmountUsdt * leverage) / (quantoMultiplier * currentPrice)
-      let quantity = (adjustedAmountUsdt * leverage) / (quantoMultiplier * currentPrice);
+      // amountUsdt = (quantity * quantoMultiplier * currentPrice) / leverage
+      // => quantity = (amountUsdt * leverage) / (quantoMultiplier * currentPrice)
+      let quantity = (amountUsdt * leverage) / (quantoMultiplier * currentPrice);
       
       // 根据 lotSize 调整数量精度（向上取整到最接近的有效精度）
       // 例如：lotSize=0.01，quantity=0.123 -> 向上取整到 0.13
@@ -401,100 +299,66 @@ export const openPositionTool = createTool({
         const minMargin = (minSize * quantoMultiplier * currentPrice) / leverage;
         return {
           success: false,
-          message: `计算的数量 ${Math.abs(size)} 张小于最小限制 ${minSize} 张，需要至少 ${minMargin.toFixed(2)} USDT 保证金（当前${adjustedAmountUsdt.toFixed(2)} USDT，杠杆${leverage}x）`,
+          message: `计算的数量 ${Math.abs(size)} 张小于最小限制 ${minSize} 张，需要至少 ${minMargin.toFixed(2)} USDT 保证金（当前${amountUsdt.toFixed(2)} USDT，杠杆${leverage}x）`,
         };
       }
       
       // 计算实际使用的保证金
       let actualMargin = (Math.abs(size) * quantoMultiplier * currentPrice) / leverage;
       
-      logger.info(`开仓 ${symbol} ${side === "long" ? "做多" : "做空"} ${Math.abs(size)}张 (杠杆${leverage}x)`);
+      const orderType = resolveOrderType(requestedOrderType);
+      logger.info(`开仓 ${symbol} ${side === "long" ? "做多" : "做空"} ${Math.abs(size)}张 (杠杆${leverage}x, ${orderType})`);
       
-      //  市价单开仓（不设置止盈止损）
-      const order = await client.placeOrder({
-        contract,
-        size,
-        price: 0,  // 市价单必须传 price: 0
-      });
+      //  所有订单类型统一由订单执行服务下单：市价单下单前检查盘口滑点（超过阈值时拆分或拒绝），
+      //  限价/post-only/IOC/FOK 负责挂单、追价和撤单
+      const execution = await executeOrder({ contract, size, orderType, price: limitPrice });
+      if (execution.rejectReason) {
+        return {
+          success: false,
+          message: `开仓失败：${execution.rejectReason}，请减少开仓金额或选择流动性更好的币种`,
+        };
+      }
+      const order = execution.order;
       
-      //  等待并验证订单状态（带重试）
-      // 增加等待时间，确保 Gate.io API 更新持仓信息
+      //  等待交易所更新持仓信息
       await new Promise(resolve => setTimeout(resolve, 2000));
       
-      //  检查订单状态并获取实际成交价格（最多重试3次）
-      let finalOrderStatus = order.status;
-      let actualFillSize = 0;
-      let actualFillPrice = currentPrice; // 默认使用当前价格
+      //  订单执行服务已确认成交结果（可能只部分成交）
+      const actualFillSize = execution.filledSize;
+      const actualFillPrice = execution.fillPrice > 0 ? execution.fillPrice : currentPrice;
+      const finalOrderStatus = actualFillSize > 0 ? "finished" : "cancelled";
+      if (actualFillSize === 0) {
+        return {
+          success: false,
+          message: orderType === "market"
+            ? `开仓失败：订单未成交（订单ID: ${execution.orderIds.join(", ")}）`
+            : `开仓失败：${orderType} 订单超时未成交，已撤单（订单ID: ${execution.orderIds.join(", ")}）`,
+        };
+      }
+      logger.info(`成交: ${actualFillSize}张 @ ${actualFillPrice.toFixed(2)} USDT${execution.complete ? "" : `（部分成交，计划 ${Math.abs(size)} 张）`}`);
       
-      if (order.id) {
-        let retryCount = 0;
-        const maxRetries = 3;
+      //  验证成交价格的合理性（盘口在下单过程中剧烈变化时回滚）
+      const priceDeviation = Math.abs(actualFillPrice - currentPrice) / currentPrice;
+      if (orderType === "market" && priceDeviation > 0.02) {
+        logger.error(`❌ 成交价偏离超过2%: ${currentPrice.toFixed(2)} → ${actualFillPrice.toFixed(2)} (偏离 ${(priceDeviation * 100).toFixed(2)}%)，拒绝交易`);
         
-        while (retryCount < maxRetries) {
-          try {
-            const orderDetail = await client.getOrder(order.id.toString());
-            finalOrderStatus = orderDetail.status;
-            actualFillSize = Math.abs(Number.parseInt(orderDetail.size || "0") - Number.parseInt(orderDetail.left || "0"));
-            
-            //  获取实际成交价格（fill_price 或 average price）
-            if (orderDetail.fill_price && Number.parseFloat(orderDetail.fill_price) > 0) {
-              actualFillPrice = Number.parseFloat(orderDetail.fill_price);
-            } else if (orderDetail.price && Number.parseFloat(orderDetail.price) > 0) {
-              actualFillPrice = Number.parseFloat(orderDetail.price);
-            }
-            
-            logger.info(`成交: ${actualFillSize}张 @ ${actualFillPrice.toFixed(2)} USDT`);
-            
-            //  验证成交价格的合理性（滑点保护）
-            const priceDeviation = Math.abs(actualFillPrice - currentPrice) / currentPrice;
-            if (priceDeviation > 0.02) {
-              // 滑点超过2%，拒绝此次交易（回滚）
-              logger.error(`❌ 成交价偏离超过2%: ${currentPrice.toFixed(2)} → ${actualFillPrice.toFixed(2)} (偏离 ${(priceDeviation * 100).toFixed(2)}%)，拒绝交易`);
-              
-              // 尝试平仓回滚（如果已经成交）
-              try {
-                await client.placeOrder({
-                  contract,
-                  size: -size,
-                  price: 0,
-                  reduceOnly: true,
-                });
-                logger.info(`已回滚交易`);
-              } catch (rollbackError: any) {
-                logger.error(`回滚失败: ${rollbackError.message}，请手动处理`);
-              }
-              
-              return {
-                success: false,
-                message: `开仓失败：成交价偏离超过2% (${currentPrice.toFixed(2)} → ${actualFillPrice.toFixed(2)})，已拒绝交易`,
-              };
-            }
-            
-            // 如果订单被取消或未成交，返回失败
-            if (finalOrderStatus === 'cancelled' || actualFillSize === 0) {
-              return {
-                success: false,
-                message: `开仓失败：订单${finalOrderStatus === 'cancelled' ? '被取消' : '未成交'}（订单ID: ${order.id}）`,
-              };
-            }
-            
-            // 成功获取订单信息，跳出循环
-            break;
-            
-          } catch (error: any) {
-            retryCount++;
-            if (retryCount >= maxRetries) {
-              logger.error(`获取订单详情失败（重试${retryCount}次）: ${error.message}`);
-              // 如果无法获取订单详情，使用预估值继续
-              logger.warn(`使用预估值继续: 数量=${Math.abs(size)}, 价格=${currentPrice}`);
-              actualFillSize = Math.abs(size);
-              actualFillPrice = currentPrice;
-            } else {
-              logger.warn(`获取订单详情失败，${retryCount}/${maxRetries} 次重试...`);
-              await new Promise(resolve => setTimeout(resolve, 300));
-            }
-          }
+        // 平仓回滚已成交的部分
+        try {
+          await client.placeOrder({
+            contract,
+            size: side === "long" ? -actualFillSize : actualFillSize,
+            price: 0,
+            ...getCloseOrderFlags(),
+          });
+          logger.info("已回滚交易");
+        } catch (rollbackError: any) {
+          logger.error(`回滚失败: ${rollbackError.message}，请手动处理`);
         }
+        
+        return {
+          success: false,
+          message: `开仓失败：成交价偏离超过2% (${currentPrice.toFixed(2)} → ${actualFillPrice.toFixed(2)})，已拒绝交易`,
+        };
       }
       
       //  使用实际成交数量和价格记录到数据库
@@ -513,26 +377,24 @@ export const openPositionTool = createTool({
       const dbStatus = finalOrderStatus === 'finished' ? 'filled' : 'pending';
       
       await dbClient.execute({
-        sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, fee, timestamp, status)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, fee, timestamp, status, expected_price, slippage_percent)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
-          order.id?.toString() || "",
+          order?.id ?? "",
           symbol,
           side,            // 持仓方向（long/short）
           "open",
           actualFillPrice, // 使用实际成交价格
           finalQuantity,   // 使用实际成交数量
-          adjustedLeverage, // 使用实际调整后的杠杆
+          leverage, // 使用实际调整后的杠杆
           fee,            // 手续费
           getChinaTimeISO(),
           dbStatus,
+          execution.slippage?.expectedPrice ?? null,  // 下单前按订单簿估算的成交价
+          execution.slippage?.actualSlippagePercent ?? null,
         ],
       });
       
-      // 不设置止损止盈订单
-      let slOrderId: string | undefined;
-      let tpOrderId: string | undefined;
-      
       //  获取持仓信息以获取 Gate.io 返回的强平价
       // Gate.io API 有延迟，需要等待并重试
       let liquidationPrice = 0;
@@ -547,14 +409,14 @@ export const openPositionTool = createTool({
           const positions = await client.getPositions();
 
           // 在双向持仓模式下，需要过滤掉 size=0 的记录，找到实际持仓
-          const gatePosition = positions.find((p: any) => p.contract === contract
-              && Number.parseInt(p.size || "0") !== 0);
+          const gatePosition = positions.find(p => p.contract === contract
+              && p.size !== 0);
           if (gatePosition) {
-            gatePositionSize = Number.parseInt(gatePosition.size || "0");
+            gatePositionSize = gatePosition.size;
             
             if (gatePositionSize !== 0) {
-              if (gatePosition.liq_price) {
-                liquidationPrice = Number.parseFloat(gatePosition.liq_price);
+              if (gatePosition.liqPrice) {
+                liquidationPrice = gatePosition.liqPrice;
               }
               break; // 持仓已存在，跳出循环
             }
@@ -564,7 +426,7 @@ export const openPositionTool = createTool({
           
           if (retryCount >= maxRetries) {
             logger.error(`❌ 警告：Gate.io 查询显示持仓为0，但订单状态为 ${finalOrderStatus}`);
-            logger.error(`订单ID: ${order.id}, 成交数量: ${actualFillSize}, 计算数量: ${finalQuantity}`);
+            logger.error(`订单ID: ${order?.id}, 成交数量: ${actualFillSize}, 计算数量: ${finalQuantity}`);
             logger.error(`可能原因：Gate.io API 延迟或持仓需要更长时间更新`);
           }
         } catch (error) {
@@ -580,6 +442,14 @@ export const openPositionTool = createTool({
           : actualFillPrice * (1 + 0.9 / leverage);
         logger.warn(`使用估算强平价: ${liquidationPrice}`);
       }
+      
+      // 在交易所挂出止损止盈条件单（进程崩溃或断网时仍由交易所保护持仓）
+      const { stopLoss, takeProfit, slOrderId, tpOrderId } = await placeProtectiveOrders({
+        symbol,
+        side,
+        entryPrice: actualFillPrice,
+        leverage,
+      });
         
       // 先检查是否已存在持仓
       const existingResult = await dbClient.execute({
@@ -601,13 +471,13 @@ export const openPositionTool = createTool({
             actualFillPrice,
             liquidationPrice,
             0,
-            adjustedLeverage, // 使用实际调整后的杠杆
+            leverage, // 使用实际调整后的杠杆
             side,
             takeProfit || null,
             stopLoss || null,
             tpOrderId || null,
             slOrderId || null,
-            order.id?.toString() || "",
+            order?.id ?? "",
             symbol,
           ],
         });
@@ -625,13 +495,13 @@ export const openPositionTool = createTool({
             actualFillPrice,
             liquidationPrice,
             0,
-            adjustedLeverage, // 使用实际调整后的杠杆
+            leverage, // 使用实际调整后的杠杆
             side,
             takeProfit || null,
             stopLoss || null,
             tpOrderId || null,
             slOrderId || null,
-            order.id?.toString() || "",
+            order?.id ?? "",
             getChinaTimeISO(),
           ],
         });
@@ -639,10 +509,11 @@ export const openPositionTool = createTool({
       
       const contractAmount = Math.abs(size) * quantoMultiplier;
       const totalValue = contractAmount * actualFillPrice;
+      const slippageNote = describeSlippage(execution);
       
       return {
         success: true,
-        orderId: order.id?.toString(),
+        orderId: order?.id,
         symbol,
         side,
         size: Math.abs(size), // 合约张数
@@ -650,7 +521,10 @@ export const openPositionTool = createTool({
         price: actualFillPrice,
         leverage,
         actualMargin,
-        message: `✅ 成功开仓 ${symbol} ${side === "long" ? "做多" : "做空"} ${Math.abs(size)} 张 (${contractAmount.toFixed(4)} ${symbol})，成交价 ${actualFillPrice.toFixed(2)}，保证金 ${actualMargin.toFixed(2)} USDT，杠杆 ${leverage}x。⚠️ 未设置止盈止损，请在每个周期主动决策是否平仓。`,
+        sizingAdjustments: sizing.adjustments,
+        sizingWarnings: sizing.warnings,
+        slippage: execution.slippage,
+        message: `✅ 成功开仓 ${symbol} ${side === "long" ? "做多" : "做空"} ${Math.abs(size)} 张 (${contractAmount.toFixed(4)} ${symbol})，成交价 ${actualFillPrice.toFixed(2)}，保证金 ${actualMargin.toFixed(2)} USDT，杠杆 ${leverage}x。${sizingNote ? `${sizingNote}。` : ""}${slippageNote ? `${slippageNote}。` : ""}${describeProtection(stopLoss, takeProfit, slOrderId, tpOrderId)}`,
       };
     } catch (error: any) {
       return {
@@ -667,15 +541,25 @@ export const openPositionTool = createTool({
  */
 export const closePositionTool = createTool({
   name: "closePosition",
-  description: "平仓 - 关闭指定币种的持仓",
+  description: "平仓 - 关闭指定币种的持仓（默认市价单，盘口深度不足时自动拆分下单；可通过 orderType 使用限价/post_only 挂单平仓，超时未成交部分保留持仓）",
   parameters: z.object({
     symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).describe("币种代码"),
     percentage: z.number().min(1).max(100).default(100).describe("平仓百分比（1-100）"),
+    orderType: z.enum(ORDER_TYPES).optional().describe("订单类型：market=市价，limit=限价，post_only=只做maker，ioc，fok（不填为市价，平仓优先保证成交）"),
+    limitPrice: z.number().positive().optional().describe("限价（仅非市价单有效，不填则按盘口价格挂单）"),
   }),
-  execute: async ({ symbol, percentage }) => {
+  execute: async ({ symbol, percentage, orderType: requestedOrderType = "market", limitPrice }) => {
     const client = createExchangeClient();
     const contract = `${symbol}_USDT`;
     
+    //  持仓正在被持仓监督器（止损、移动止盈等）平仓时拒绝重复平仓
+    if (!tryLockPosition(symbol)) {
+      return {
+        success: false,
+        message: `${symbol} 持仓正在被系统风控平仓，请在下个周期重新确认持仓状态`,
+      };
+    }
+    
     try {
       //  参数验证
       if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
@@ -685,10 +569,13 @@ export const closePositionTool = createTool({
         };
       }
       
+      //  交易所不支持的订单类型改用市价单，平仓优先保证成交
+      const orderType = resolveOrderType(requestedOrderType);
+      
       //  直接从 Gate.io 获取最新的持仓信息（不依赖数据库）
       const allPositions = await client.getPositions();
       // 🔧 修复：在双向持仓模式下，需要过滤掉 size=0 的记录，找到实际持仓
-      const gatePosition = allPositions.find((p: any) => p.contract === contract && Number.parseFloat(p.size || "0") !== 0);
+      const gatePosition = allPositions.find(p => p.contract === contract && p.size !== 0);
       
       if (!gatePosition) {
         return {
@@ -731,19 +618,19 @@ export const closePositionTool = createTool({
       }
       
       // 从 Gate.io 获取实时数据
-      const gateSize = Number.parseFloat(gatePosition.size || "0");
+      const gateSize = gatePosition.size;
       const side = gateSize > 0 ? "long" : "short";
       const quantity = Math.abs(gateSize);
-      let entryPrice = Number.parseFloat(gatePosition.entryPrice || "0");
-      let currentPrice = Number.parseFloat(gatePosition.markPrice || "0");
-      const leverage = Number.parseInt(gatePosition.leverage || "1");
-      const totalUnrealizedPnl = Number.parseFloat(gatePosition.unrealisedPnl || "0");
+      let entryPrice = gatePosition.entryPrice;
+      let currentPrice = gatePosition.markPrice;
+      const leverage = gatePosition.leverage || 1;
+      const totalUnrealizedPnl = gatePosition.unrealisedPnl;
       
       //  如果价格为0，获取实时行情作为后备
       if (currentPrice === 0 || entryPrice === 0) {
         const ticker = await client.getFuturesTicker(contract);
         if (currentPrice === 0) {
-          currentPrice = Number.parseFloat(ticker.markPrice || ticker.last || "0");
+          currentPrice = ticker.markPrice || ticker.last;
           logger.warn(`持仓标记价格为0，使用行情价格: ${currentPrice}`);
         }
         if (entryPrice === 0) {
@@ -754,8 +641,7 @@ export const closePositionTool = createTool({
       
       // 获取合约信息以确定数量精度
       const contractInfo = await client.getContractInfo(contract);
-      // 兼容 Gate（下划线命名）和 OKX（驼峰命名）
-      const lotSize = Number.parseFloat(contractInfo.lotSize || contractInfo.order_size_round || "1");
+      const lotSize = contractInfo.lotSize || 1;
       
       // 计算平仓数量
       let closeSize = (quantity * percentage) / 100;
@@ -809,108 +695,56 @@ export const closePositionTool = createTool({
       
       logger.info(`平仓 ${symbol} ${side === "long" ? "做多" : "做空"} ${closeSize}张 (入场: ${entryPrice.toFixed(2)}, 当前: ${currentPrice.toFixed(2)})`);
       
-      //  市价单平仓（Gate.io 市价单：price 为 "0"，不设置 tif）
-      const order = await client.placeOrder({
-        contract,
-        size,
-        price: 0,  // 市价单必须传 price: 0
-        reduceOnly: true, // 只减仓，不开新仓
-      });
+      //  所有订单类型统一由订单执行服务下单：市价单按盘口滑点拆分（只减仓订单不会被拒绝），
+      //  限价/post-only/IOC/FOK 负责挂单、追价和撤单
+      const execution = await executeOrder({ contract, size, orderType, price: limitPrice, reduceOnly: true });
+      const order = execution.order;
       
-      //  等待并验证订单状态（带重试）
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      //  获取实际成交价格和数量（最多重试3次）
+      //  获取实际成交价格和数量
       let actualExitPrice = currentPrice;
       let actualCloseSize = closeSize;
-      let finalOrderStatus = order.status;
+      let finalOrderStatus = order?.status;
       
-      if (order.id) {
-        let retryCount = 0;
-        const maxRetries = 3;
+      if (execution.filledSize > 0) {
+        actualCloseSize = execution.filledSize;
+        actualExitPrice = execution.fillPrice > 0 ? execution.fillPrice : currentPrice;
+        finalOrderStatus = "finished";
+        logger.info(`成交: ${actualCloseSize}张 @ ${actualExitPrice.toFixed(2)} USDT${execution.complete ? "" : `（部分成交，计划 ${closeSize} 张）`}`);
         
-        while (retryCount < maxRetries) {
-          try {
-            const orderDetail = await client.getOrder(order.id.toString());
-            finalOrderStatus = orderDetail.status;
-            const filled = Math.abs(Number.parseInt(orderDetail.size || "0") - Number.parseInt(orderDetail.left || "0"));
-            
-            if (filled > 0) {
-              actualCloseSize = filled;
-            }
-            
-            // 获取实际成交价格
-            if (orderDetail.fill_price && Number.parseFloat(orderDetail.fill_price) > 0) {
-              actualExitPrice = Number.parseFloat(orderDetail.fill_price);
-            } else if (orderDetail.price && Number.parseFloat(orderDetail.price) > 0) {
-              actualExitPrice = Number.parseFloat(orderDetail.price);
-            }
-            
-            logger.info(`成交: ${actualCloseSize}张 @ ${actualExitPrice.toFixed(2)} USDT`);
-            
-            //  验证成交价格的合理性（滑点保护）
-            const priceDeviation = Math.abs(actualExitPrice - currentPrice) / currentPrice;
-            if (priceDeviation > 0.03) {
-              // 平仓时允许3%滑点（比开仓宽松，因为可能是紧急止损）
-              logger.warn(`⚠️ 平仓成交价偏离超过3%: ${currentPrice.toFixed(2)} → ${actualExitPrice.toFixed(2)} (偏离 ${(priceDeviation * 100).toFixed(2)}%)`);
-            }
-            
-            //  重新计算实际盈亏（基于真实成交价格）
-            // 获取合约乘数
-            const quantoMultiplier = await getQuantoMultiplier(contract);
-            
-            const priceChange = side === "long" 
-              ? (actualExitPrice - entryPrice) 
-              : (entryPrice - actualExitPrice);
-            
-            // 盈亏 = 价格变化 * 张数 * 合约乘数
-            const grossPnl = priceChange * actualCloseSize * quantoMultiplier;
-            
-            //  扣除手续费（开仓 + 平仓）
-            // 开仓手续费 = 开仓名义价值 * 0.05%
-            const openFee = entryPrice * actualCloseSize * quantoMultiplier * 0.0005;
-            // 平仓手续费 = 平仓名义价值 * 0.05%
-            const closeFee = actualExitPrice * actualCloseSize * quantoMultiplier * 0.0005;
-            // 总手续费
-            const totalFees = openFee + closeFee;
-            
-            // 净盈亏 = 毛盈亏 - 总手续费
-            pnl = grossPnl - totalFees;
-            
-            logger.info(`盈亏: ${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT`);
-            
-            // 成功获取订单信息，跳出循环
-            break;
-            
-          } catch (error: any) {
-            retryCount++;
-            if (retryCount >= maxRetries) {
-              logger.error(`获取平仓订单详情失败（重试${retryCount}次）: ${error.message}`);
-              // 如果无法获取订单详情，使用预估值
-              logger.warn(`使用预估值继续: 数量=${closeSize}, 价格=${currentPrice}`);
-              actualCloseSize = closeSize;
-              actualExitPrice = currentPrice;
-              // 重新计算盈亏（需要乘以合约乘数）
-              const quantoMultiplier = await getQuantoMultiplier(contract);
-              const priceChange = side === "long" 
-                ? (actualExitPrice - entryPrice) 
-                : (entryPrice - actualExitPrice);
-              const grossPnl = priceChange * actualCloseSize * quantoMultiplier;
-              // 扣除手续费
-              const openFee = entryPrice * actualCloseSize * quantoMultiplier * 0.0005;
-              const closeFee = actualExitPrice * actualCloseSize * quantoMultiplier * 0.0005;
-              pnl = grossPnl - openFee - closeFee;
-            } else {
-              logger.warn(`获取平仓订单详情失败，${retryCount}/${maxRetries} 次重试...`);
-              await new Promise(resolve => setTimeout(resolve, 300));
-            }
-          }
+        //  验证成交价格的合理性
+        const priceDeviation = Math.abs(actualExitPrice - currentPrice) / currentPrice;
+        if (priceDeviation > 0.03) {
+          // 平仓时允许3%滑点（比开仓宽松，因为可能是紧急止损）
+          logger.warn(`⚠️ 平仓成交价偏离超过3%: ${currentPrice.toFixed(2)} → ${actualExitPrice.toFixed(2)} (偏离 ${(priceDeviation * 100).toFixed(2)}%)`);
         }
+        
+        //  基于真实成交价格重新计算盈亏（含开仓 + 平仓手续费）
+        const quantoMultiplier = await getQuantoMultiplier(contract);
+        const priceChange = side === "long" 
+          ? (actualExitPrice - entryPrice) 
+          : (entryPrice - actualExitPrice);
+        const grossPnl = priceChange * actualCloseSize * quantoMultiplier;
+        const openFee = entryPrice * actualCloseSize * quantoMultiplier * 0.0005;
+        const closeFee = actualExitPrice * actualCloseSize * quantoMultiplier * 0.0005;
+        pnl = grossPnl - openFee - closeFee;
+      } else if (orderType !== "market") {
+        return {
+          success: false,
+          message: `平仓失败：${orderType} 订单超时未成交，已撤单，持仓保持不变（订单ID: ${execution.orderIds.join(", ")}）`,
+        };
+      } else {
+        //  市价单未能确认成交（查询订单失败等）：保留条件单和持仓记录，不记录平仓，持仓由交易所同步修正
+        logger.warn(`未能确认平仓成交 ${symbol}（订单ID: ${order?.id ?? "无"}），保留条件单和持仓记录`);
+        return {
+          success: false,
+          orderId: order?.id,
+          message: `未能确认 ${symbol} 平仓成交，已保留止损止盈条件单和持仓记录，请在下个周期重新确认持仓状态`,
+        };
       }
       
       // 获取账户信息用于记录当前总资产
       const account = await client.getFuturesAccount();
-      const totalBalance = Number.parseFloat(account.total || "0");
+      const totalBalance = account.total;
       
       //  计算总手续费（开仓 + 平仓）用于数据库记录
       // 需要获取合约乘数
@@ -961,10 +795,10 @@ export const closePositionTool = createTool({
       const dbStatus = finalOrderStatus === 'finished' ? 'filled' : 'pending';
       
       await dbClient.execute({
-        sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status, expected_price, slippage_percent)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
-          order.id?.toString() || "",
+          order?.id ?? "",
           symbol,
           side,             // 原持仓方向（便于统计某个币种的多空盈亏）
           "close",
@@ -975,59 +809,22 @@ export const closePositionTool = createTool({
           totalFee,         // 总手续费（开仓+平仓）
           getChinaTimeISO(),
           dbStatus,
+          execution.slippage?.expectedPrice ?? null,  // 下单前按订单簿估算的成交价
+          execution.slippage?.actualSlippagePercent ?? null,
         ],
       });
       
-      // 从数据库获取止损止盈订单ID（如果存在）
-      const posResult = await dbClient.execute({
-        sql: "SELECT sl_order_id, tp_order_id FROM positions WHERE symbol = ?",
-        args: [symbol],
-      });
-      
-      // 取消止损止盈订单（先检查订单状态）
-      if (posResult.rows.length > 0) {
-        const dbPosition = posResult.rows[0] as any;
-        
-        if (dbPosition.sl_order_id) {
-          try {
-            // 先获取订单状态
-            const orderDetail = await client.getOrder(dbPosition.sl_order_id);
-            // 只取消未完成的订单（open状态）
-            if (orderDetail.status === 'open') {
-              await client.cancelOrder(dbPosition.sl_order_id);
-            }
-          } catch (e: any) {
-            // 订单可能已经不存在或已被取消
-            logger.warn(`无法取消止损订单 ${dbPosition.sl_order_id}: ${e.message}`);
-          }
-        }
-        
-        if (dbPosition.tp_order_id) {
-          try {
-            // 先获取订单状态
-            const orderDetail = await client.getOrder(dbPosition.tp_order_id);
-            // 只取消未完成的订单（open状态）
-            if (orderDetail.status === 'open') {
-              await client.cancelOrder(dbPosition.tp_order_id);
-            }
-          } catch (e: any) {
-            // 订单可能已经不存在或已被取消
-            logger.warn(`无法取消止盈订单 ${dbPosition.tp_order_id}: ${e.message}`);
-          }
-        }
-      }
-      
-      // 如果全部平仓，从持仓表删除；否则不操作（交由同步任务更新）
+      // 全部平仓且全部成交时撤销止损止盈条件单并删除持仓记录，部分成交时写回剩余数量；
+      // 部分平仓不操作（条件单平掉整个仓位，部分平仓后继续有效）
       if (percentage === 100) {
-        await dbClient.execute({
-          sql: "DELETE FROM positions WHERE symbol = ?",
-          args: [symbol],
-        });
+        await settleFullClose(symbol, quantity, execution);
       }
       
+      const slippageNote = describeSlippage(execution);
+      
       return {
         success: true,
-        orderId: order.id?.toString(),
+        orderId: order?.id,
         symbol,
         side,
         closedSize: actualCloseSize,  // 使用实际成交数量
@@ -1037,7 +834,8 @@ export const closePositionTool = createTool({
         pnl,                          // 净盈亏（已扣除手续费）
         fee: totalFee,                // 总手续费
         totalBalance,
-        message: `成功平仓 ${symbol} ${actualCloseSize} 张，入场价 ${entryPrice.toFixed(4)}，平仓价 ${actualExitPrice.toFixed(4)}，净盈亏 ${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT (已扣手续费 ${totalFee.toFixed(2)} USDT)，当前总资产 ${totalBalance.toFixed(2)} USDT`,
+        slippage: execution.slippage,
+        message: `成功平仓 ${symbol} ${actualCloseSize} 张，入场价 ${entryPrice.toFixed(4)}，平仓价 ${actualExitPrice.toFixed(4)}，净盈亏 ${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)} USDT (已扣手续费 ${totalFee.toFixed(2)} USDT)，当前总资产 ${totalBalance.toFixed(2)} USDT${slippageNote ? `。${slippageNote}` : ""}`,
       };
     } catch (error: any) {
       logger.error(`平仓失败: ${error.message}`, error);
@@ -1046,6 +844,8 @@ export const closePositionTool = createTool({
         error: error.message,
         message: `平仓失败: ${error.message}`,
       };
+    } finally {
+      unlockPosition(symbol);
     }
   },
 });
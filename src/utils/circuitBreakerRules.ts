@@ -0,0 +1,379 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 熔断规则引擎 - 熔断条件以数据形式定义
+ * 
+ * 每条规则包含：统计指标、窗口、阈值、熔断时长和升级方式（见 CircuitBreakerRule）
+ * 
+ * 规则来源（优先级从高到低）：
+ * 1. system_config 中的策略专属规则（circuit_breaker_rules:<策略ID>）
+ * 2. 策略参数 circuitBreakerRules
+ * 3. system_config 中的全局规则（circuit_breaker_rules）
+ * 4. 默认规则（与原有硬编码的熔断条件一致）
+ * 
+ * system_config 中的规则通过 /api/circuit-breaker/rules 编辑，下一次熔断检查即生效
+ */
+import { createClient } from "@libsql/client";
+import { parseCircuitBreakerRules } from "../strategies/circuitBreakerSchema";
+import type { CircuitBreakerRule } from "../strategies/types";
+import { getErrorMessage } from "./errorUtils";
+import { createLogger } from "./loggerUtils";
+import { getChinaTimeISO } from "./timeUtils";
+
+const logger = createLogger({
+  name: "circuit-breaker-rules",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/** system_config 中保存全局规则的键，策略专属规则为 `${键}:${策略ID}` */
+const RULES_CONFIG_KEY = "circuit_breaker_rules";
+
+/**
+ * 默认熔断规则
+ */
+export const DEFAULT_CIRCUIT_BREAKER_RULES: CircuitBreakerRule[] = [
+  { id: "daily_loss", name: "单日亏损", metric: "realized_pnl", window: "today", threshold: -15, haltMinutes: 720 },
+  { id: "hourly_loss", name: "1小时亏损", metric: "realized_pnl", window: "1h", threshold: -5, haltMinutes: 120 },
+  { id: "four_hour_loss", name: "4小时亏损", metric: "realized_pnl", window: "4h", threshold: -8, haltMinutes: 240 },
+  { id: "consecutive_loss", name: "连续亏损", metric: "consecutive_losses", window: "4h", threshold: 5, haltMinutes: 120 },
+  { id: "single_large_loss", name: "单笔巨额亏损", metric: "single_trade_loss", threshold: -3, haltMinutes: 60 },
+];
+
+/** 窗口格式："today" 或 数字 + m/h/d */
+const WINDOW_PATTERN = /^(\d+(?:\.\d+)?)(m|h|d)$/;
+
+const WINDOW_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const WINDOW_UNIT_LABEL: Record<string, string> = {
+  m: "分钟",
+  h: "小时",
+  d: "天",
+};
+
+/**
+ * 熔断规则的来源
+ */
+export type CircuitBreakerRuleSource = "strategy_config" | "strategy" | "global_config" | "default";
+
+function configKey(strategy?: string): string {
+  return strategy ? `${RULES_CONFIG_KEY}:${strategy}` : RULES_CONFIG_KEY;
+}
+
+/**
+ * 读取 system_config 中保存的规则（不存在或无效时返回 null）
+ * @param strategy 策略ID，不填时读取全局规则
+ */
+export async function loadStoredCircuitBreakerRules(strategy?: string): Promise<CircuitBreakerRule[] | null> {
+  const result = await dbClient.execute({
+    sql: "SELECT value FROM system_config WHERE key = ?",
+    args: [configKey(strategy)],
+  });
+  if (result.rows.length === 0) {
+    return null;
+  }
+  try {
+    return parseCircuitBreakerRules(JSON.parse(result.rows[0].value as string));
+  } catch (error) {
+    logger.error(`system_config 中的熔断规则 ${configKey(strategy)} 无效，已忽略: ${getErrorMessage(error)}`);
+    return null;
+  }
+}
+
+/**
+ * 保存熔断规则到 system_config（先校验）
+ * @param strategy 策略ID，不填时保存为全局规则
+ */
+export async function saveCircuitBreakerRules(value: unknown, strategy?: string): Promise<CircuitBreakerRule[]> {
+  const rules = parseCircuitBreakerRules(value);
+  await dbClient.execute({
+    sql: "INSERT OR REPLACE INTO system_config (key, value, updated_at) VALUES (?, ?, ?)",
+    args: [configKey(strategy), JSON.stringify(rules), getChinaTimeISO()],
+  });
+  logger.info(`已保存熔断规则 ${configKey(strategy)}: ${rules.map(rule => rule.id).join(", ") || "（空，禁用熔断）"}`);
+  return rules;
+}
+
+/**
+ * 删除 system_config 中保存的规则（恢复为下一级来源的规则）
+ * @returns 是否删除了记录
+ */
+export async function deleteCircuitBreakerRules(strategy?: string): Promise<boolean> {
+  const result = await dbClient.execute({
+    sql: "DELETE FROM system_config WHERE key = ?",
+    args: [configKey(strategy)],
+  });
+  if (result.rowsAffected > 0) {
+    logger.info(`已删除熔断规则 ${configKey(strategy)}`);
+  }
+  return result.rowsAffected > 0;
+}
+
+/**
+ * 确定当前生效的熔断规则
+ * @param strategy 当前策略ID
+ * @param strategyRules 策略参数中的 circuitBreakerRules
+ */
+export async function resolveCircuitBreakerRules(
+  strategy: string,
+  strategyRules?: CircuitBreakerRule[]
+): Promise<{ source: CircuitBreakerRuleSource; rules: CircuitBreakerRule[] }> {
+  const strategyConfig = await loadStoredCircuitBreakerRules(strategy);
+  if (strategyConfig) {
+    return { source: "strategy_config", rules: strategyConfig };
+  }
+  if (strategyRules) {
+    return { source: "strategy", rules: strategyRules };
+  }
+  const globalConfig = await loadStoredCircuitBreakerRules();
+  if (globalConfig) {
+    return { source: "global_config", rules: globalConfig };
+  }
+  return { source: "default", rules: DEFAULT_CIRCUIT_BREAKER_RULES };
+}
+
+/**
+ * 窗口起始时间（数据库时间戳格式，与 trades、account_history、llm_usage 一致）
+ */
+function getWindowStart(window: string, now: Date): string {
+  if (window === "today") {
+    return `${getChinaTimeISO(now).slice(0, 10)}T00:00:00+08:00`;
+  }
+  const match = WINDOW_PATTERN.exec(window);
+  if (!match) {
+    throw new Error(`无效的熔断窗口: ${window}`);
+  }
+  const ms = Number.parseFloat(match[1]) * WINDOW_UNIT_MS[match[2]];
+  return getChinaTimeISO(new Date(now.getTime() - ms));
+}
+
+/**
+ * 窗口的文字描述，如 "单日"、"4小时内"
+ */
+function describeWindow(window: string): string {
+  if (window === "today") {
+    return "单日";
+  }
+  const match = WINDOW_PATTERN.exec(window);
+  return match ? `${match[1]}${WINDOW_UNIT_LABEL[match[2]]}内` : window;
+}
+
+/**
+ * 规则触发结果
+ */
+export interface CircuitBreakerRuleHit {
+  /** 触发原因（不含等级） */
+  description: string;
+  /** 记录到 circuit_breaker_log.trigger_details 的数据 */
+  details: Record<string, unknown>;
+}
+
+/**
+ * 规则评估上下文
+ */
+export interface CircuitBreakerRuleContext {
+  now: Date;
+  /** 账户总净值（盈亏百分比的分母） */
+  totalBalance: number;
+  /** 是否处于熔断恢复后的冷却期（阈值按 cooldownFactor 降低） */
+  inCooldown: boolean;
+}
+
+/**
+ * 连续亏损检查：最近 count 笔全部亏损，且（有窗口时）最早一笔在窗口内
+ */
+function isLossStreak(trades: { pnl: number; timestamp: string }[], count: number, windowStart?: string): boolean {
+  if (trades.length < count) {
+    return false;
+  }
+  const streak = trades.slice(0, count);
+  if (!streak.every(trade => trade.pnl < 0)) {
+    return false;
+  }
+  return !windowStart || streak[count - 1].timestamp >= windowStart;
+}
+
+/**
+ * 评估单条熔断规则
+ * @returns 触发时返回原因和详情，未触发返回 null
+ */
+export async function evaluateCircuitBreakerRule(
+  rule: CircuitBreakerRule,
+  context: CircuitBreakerRuleContext
+): Promise<CircuitBreakerRuleHit | null> {
+  const { now, totalBalance, inCooldown } = context;
+  const factor = inCooldown ? (rule.cooldownFactor ?? 0.5) : 1;
+  const threshold = rule.threshold * factor;
+  const windowStart = rule.window ? getWindowStart(rule.window, now) : undefined;
+  
+  switch (rule.metric) {
+    case "realized_pnl": {
+      const window = rule.window || "today";
+      const result = await dbClient.execute({
+        sql: "SELECT SUM(pnl) as total_pnl FROM trades WHERE timestamp >= ? AND type = 'close'",
+        args: [windowStart ?? getWindowStart(window, now)],
+      });
+      const pnl = Number.parseFloat(String(result.rows[0]?.total_pnl ?? "0"));
+      const lossPercent = (pnl / totalBalance) * 100;
+      logger.debug(`[${rule.id}] ${describeWindow(window)}盈亏: ${lossPercent.toFixed(2)}%, 阈值: ${threshold.toFixed(2)}%`);
+      if (lossPercent >= threshold) {
+        return null;
+      }
+      return {
+        description: `${describeWindow(window)}亏损${lossPercent.toFixed(2)}%`,
+        details: { lossPercent, threshold, window, totalBalance },
+      };
+    }
+    
+    case "single_trade_loss": {
+      const result = await dbClient.execute(
+        "SELECT pnl FROM trades WHERE type = 'close' ORDER BY timestamp DESC LIMIT 1"
+      );
+      if (result.rows.length === 0) {
+        return null;
+      }
+      const lossPercent = (Number.parseFloat(result.rows[0].pnl as string) / totalBalance) * 100;
+      logger.debug(`[${rule.id}] 最近一笔盈亏: ${lossPercent.toFixed(2)}%, 阈值: ${threshold.toFixed(2)}%`);
+      if (!(lossPercent < threshold)) {
+        return null;
+      }
+      return {
+        description: `单笔巨额亏损${lossPercent.toFixed(2)}%`,
+        details: { lossPercent, threshold, totalBalance },
+      };
+    }
+    
+    case "equity_drawdown": {
+      const peakResult = await dbClient.execute({
+        sql: windowStart
+          ? "SELECT MAX(total_value) as peak FROM account_history WHERE timestamp >= ?"
+          : "SELECT MAX(total_value) as peak FROM account_history",
+        args: windowStart ? [windowStart] : [],
+      });
+      const peak = Number.parseFloat(String(peakResult.rows[0]?.peak ?? "0"));
+      if (!(peak > 0) || !(totalBalance > 0)) {
+        return null;
+      }
+      const drawdownPercent = ((peak - totalBalance) / peak) * 100;
+      logger.debug(`[${rule.id}] 净值回撤: ${drawdownPercent.toFixed(2)}%, 阈值: ${threshold.toFixed(2)}%`);
+      if (drawdownPercent < threshold) {
+        return null;
+      }
+      const scope = rule.window ? describeWindow(rule.window) : "";
+      return {
+        description: `账户净值从${scope}峰值${peak.toFixed(2)} USDT回撤${drawdownPercent.toFixed(2)}%`,
+        details: { drawdownPercent, threshold, peak, totalBalance, window: rule.window },
+      };
+    }
+    
+    case "consecutive_losses": {
+      const count = Math.max(1, Math.ceil(threshold));
+      const result = await dbClient.execute({
+        sql: "SELECT pnl, timestamp FROM trades WHERE type = 'close' ORDER BY timestamp DESC LIMIT ?",
+        args: [count],
+      });
+      const trades = result.rows.map(row => ({
+        pnl: Number.parseFloat(row.pnl as string),
+        timestamp: row.timestamp as string,
+      }));
+      if (!isLossStreak(trades, count, windowStart)) {
+        return null;
+      }
+      const timeSpanHours = (now.getTime() - new Date(trades[count - 1].timestamp).getTime()) / (60 * 60 * 1000);
+      return {
+        description: `${timeSpanHours.toFixed(1)}小时内连续${count}笔亏损`,
+        details: { lossCount: count, timeSpanHours, window: rule.window },
+      };
+    }
+    
+    case "symbol_loss_streak": {
+      const count = Math.max(1, Math.ceil(threshold));
+      const result = await dbClient.execute({
+        sql: windowStart
+          ? "SELECT symbol, pnl, timestamp FROM trades WHERE type = 'close' AND timestamp >= ? ORDER BY timestamp DESC"
+          : "SELECT symbol, pnl, timestamp FROM trades WHERE type = 'close' ORDER BY timestamp DESC LIMIT 500",
+        args: windowStart ? [windowStart] : [],
+      });
+      const bySymbol = new Map<string, { pnl: number; timestamp: string }[]>();
+      for (const row of result.rows) {
+        const symbol = row.symbol as string;
+        const trades = bySymbol.get(symbol) || [];
+        trades.push({ pnl: Number.parseFloat(row.pnl as string), timestamp: row.timestamp as string });
+        bySymbol.set(symbol, trades);
+      }
+      for (const [symbol, trades] of bySymbol) {
+        if (isLossStreak(trades, count, windowStart)) {
+          return {
+            description: `${symbol} ${rule.window ? describeWindow(rule.window) : ""}连续${count}笔亏损`,
+            details: { symbol, lossCount: count, window: rule.window },
+          };
+        }
+      }
+      return null;
+    }
+    
+    case "llm_error_rate": {
+      const window = rule.window || "1h";
+      const result = await dbClient.execute({
+        sql: `SELECT COUNT(*) as total, SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failed
+              FROM llm_usage WHERE timestamp >= ?`,
+        args: [windowStart ?? getWindowStart(window, now)],
+      });
+      const row = result.rows[0] as { total?: unknown; failed?: unknown } | undefined;
+      const total = Number(row?.total) || 0;
+      const failed = Number(row?.failed) || 0;
+      const minSamples = rule.minSamples ?? 5;
+      if (total < minSamples) {
+        return null;
+      }
+      const errorRate = (failed / total) * 100;
+      logger.debug(`[${rule.id}] ${describeWindow(window)}模型 API 失败率: ${errorRate.toFixed(1)}% (${failed}/${total}), 阈值: ${threshold.toFixed(1)}%`);
+      if (errorRate < threshold) {
+        return null;
+      }
+      return {
+        description: `${describeWindow(window)}模型 API 调用失败率${errorRate.toFixed(1)}%（${failed}/${total}）`,
+        details: { errorRate, threshold, failed, total, window },
+      };
+    }
+    
+    default:
+      return null;
+  }
+}
+
+/**
+ * 计算熔断时长（毫秒）和实际等级
+ * @param severityLevel 按熔断历史计算的严重等级
+ */
+export function getHaltDuration(rule: CircuitBreakerRule, severityLevel: number): { durationMs: number; level: number } {
+  const multiplier = rule.escalation?.multiplier ?? 2;
+  const level = Math.max(1, Math.min(severityLevel, rule.escalation?.maxLevel ?? 4));
+  return {
+    durationMs: rule.haltMinutes * 60 * 1000 * multiplier ** (level - 1),
+    level,
+  };
+}
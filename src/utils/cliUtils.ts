@@ -0,0 +1,43 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 命令行工具函数
+ */
+
+/**
+ * 解析命令行参数（支持 --key value 和 --key=value，无值的参数视为 "true"）
+ */
+export function parseCliArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      continue;
+    }
+    const eqIndex = arg.indexOf("=");
+    if (eqIndex > 0) {
+      args[arg.slice(2, eqIndex)] = arg.slice(eqIndex + 1);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      args[arg.slice(2)] = argv[++i];
+    } else {
+      args[arg.slice(2)] = "true";
+    }
+  }
+  return args;
+}
@@ -27,6 +27,11 @@
  */
 export type UnifiedContract = string;
 
+/**
+ * 支持合约名称转换的交易所
+ */
+export type ContractExchange = "gate" | "okx" | "binance" | "bybit" | "hyperliquid";
+
 /**
  * 将统一格式转换为Gate格式
  * BTC_USDT -> BTC_USDT (无需转换)
@@ -61,23 +66,91 @@ export function fromOkxContract(okxContract: string): UnifiedContract {
   return `${symbol}_USDT`;
 }
 
+/**
+ * 将统一格式转换为Binance格式
+ * BTC_USDT -> BTCUSDT
+ */
+export function toBinanceContract(unifiedContract: UnifiedContract): string {
+  return unifiedContract.replace("_USDT", "USDT");
+}
+
+/**
+ * 从Binance格式转换为统一格式
+ * BTCUSDT -> BTC_USDT
+ */
+export function fromBinanceContract(binanceContract: string): UnifiedContract {
+  const symbol = binanceContract.replace(/USDT$/, "");
+  return `${symbol}_USDT`;
+}
+
+/**
+ * 将统一格式转换为Bybit格式
+ * BTC_USDT -> BTCUSDT
+ */
+export function toBybitContract(unifiedContract: UnifiedContract): string {
+  return unifiedContract.replace("_USDT", "USDT");
+}
+
+/**
+ * 从Bybit格式转换为统一格式
+ * BTCUSDT -> BTC_USDT
+ */
+export function fromBybitContract(bybitContract: string): UnifiedContract {
+  const symbol = bybitContract.replace(/USDT$/, "");
+  return `${symbol}_USDT`;
+}
+
+/**
+ * 将统一格式转换为Hyperliquid币种名称（Hyperliquid 以 USDC 结算，内部仍使用 _USDT 后缀）
+ * BTC_USDT -> BTC
+ */
+export function toHyperliquidContract(unifiedContract: UnifiedContract): string {
+  return unifiedContract.replace("_USDT", "");
+}
+
+/**
+ * 从Hyperliquid币种名称转换为统一格式
+ * BTC -> BTC_USDT
+ */
+export function fromHyperliquidContract(coin: string): UnifiedContract {
+  return `${coin}_USDT`;
+}
+
 /**
  * 根据当前交易所将统一格式转换为对应格式
  */
-export function toExchangeContract(unifiedContract: UnifiedContract, exchange: "gate" | "okx"): string {
+export function toExchangeContract(unifiedContract: UnifiedContract, exchange: ContractExchange): string {
   if (exchange === "okx") {
     return toOkxContract(unifiedContract);
   }
+  if (exchange === "binance") {
+    return toBinanceContract(unifiedContract);
+  }
+  if (exchange === "bybit") {
+    return toBybitContract(unifiedContract);
+  }
+  if (exchange === "hyperliquid") {
+    return toHyperliquidContract(unifiedContract);
+  }
   return toGateContract(unifiedContract);
 }
 
 /**
  * 根据当前交易所将交易所格式转换为统一格式
  */
-export function fromExchangeContract(exchangeContract: string, exchange: "gate" | "okx"): UnifiedContract {
+export function fromExchangeContract(exchangeContract: string, exchange: ContractExchange): UnifiedContract {
   if (exchange === "okx") {
     return fromOkxContract(exchangeContract);
   }
+  if (exchange === "binance") {
+    return fromBinanceContract(exchangeContract);
+  }
+  if (exchange === "bybit") {
+    return fromBybitContract(exchangeContract);
+  }
+  if (exchange === "hyperliquid") {
+    return fromHyperliquidContract(exchangeContract);
+  }
   return fromGateContract(exchangeContract);
 }
 
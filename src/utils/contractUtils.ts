@@ -19,7 +19,8 @@
 /**
  * 合约工具函数
  */
-import { createExchangeClient } from "../services/exchangeClient";
+import { createExchangeClient, isCoinSizedExchange } from "../services/exchangeClient";
+import { getErrorMessage } from "./errorUtils";
 import { createLogger } from "./loggerUtils";
 
 const logger = createLogger({
@@ -50,7 +51,7 @@ const DEFAULT_MULTIPLIERS: Record<string, number> = {
  * 合约乘数表示：1张合约代表多少个币
  * 例如：BTC_USDT合约，1张 = 0.0001 BTC
  * 
- * 优先从 Gate.io API 获取，失败时使用默认值
+ * 优先从交易所 API 获取，失败时使用默认值
  * 支持缓存以减少API调用次数
  * 
  * @param contract 合约名称，如 "BTC_USDT"
@@ -71,7 +72,7 @@ export async function getQuantoMultiplier(
   try {
     const client = createExchangeClient();
     const contractInfo = await client.getContractInfo(contract);
-    const multiplier = Number.parseFloat(contractInfo.quantoMultiplier || "0");
+    const multiplier = contractInfo.quantoMultiplier;
     
     // 验证乘数有效性
     if (!Number.isFinite(multiplier) || multiplier <= 0) {
@@ -90,9 +91,9 @@ export async function getQuantoMultiplier(
   } catch (error: any) {
     logger.warn(`获取 ${contract} 合约信息失败: ${error.message}，使用默认值`);
     
-    // 使用默认值
+    // 使用默认值（下单数量以币为单位的交易所乘数固定为 1）
     const symbol = contract.replace("_USDT", "");
-    const defaultValue = DEFAULT_MULTIPLIERS[symbol] || 0.01;
+    const defaultValue = isCoinSizedExchange() ? 1 : DEFAULT_MULTIPLIERS[symbol] || 0.01;
     
     logger.info(`使用 ${contract} 默认合约乘数: ${defaultValue}`);
     
@@ -118,6 +119,54 @@ export function clearQuantoMultiplierCache(contract?: string) {
   }
 }
 
+/**
+ * 获取下单数量精度和最小下单数量
+ * Gate 为整数张，其他交易所使用合约信息的 lotSize（Binance、Bybit、Hyperliquid 以币为单位）
+ * 获取失败时按整数张处理
+ */
+export async function getOrderSizeRules(contract: string): Promise<{ step: number; minSize: number }> {
+  try {
+    const info = await createExchangeClient().getContractInfo(contract);
+    const step = info.lotSize;
+    const minSize = info.orderSizeMin;
+    return {
+      step: Number.isFinite(step) && step > 0 ? step : 1,
+      minSize: Number.isFinite(minSize) && minSize > 0 ? minSize : 1,
+    };
+  } catch (error) {
+    logger.warn(`获取 ${contract} 下单数量精度失败，按整数张处理: ${getErrorMessage(error)}`);
+    return { step: 1, minSize: 1 };
+  }
+}
+
+/**
+ * 按下单数量精度向下取整（避免浮点误差产生多余的小数位）
+ */
+export function floorToSizeStep(size: number, step: number): number {
+  const decimals = (step.toString().split(".")[1] || "").length;
+  return Number((Math.floor(size / step + 1e-9) * step).toFixed(decimals));
+}
+
+/**
+ * 按合约价格精度（orderPriceRound）取整，获取精度失败时保留 8 位小数
+ */
+export async function roundToPriceTick(contract: string, price: number): Promise<number> {
+  let tick = 0;
+  try {
+    const client = createExchangeClient();
+    const info = await client.getContractInfo(contract);
+    tick = info.orderPriceRound;
+  } catch (error) {
+    logger.warn(`获取 ${contract} 价格精度失败，使用 8 位小数: ${getErrorMessage(error)}`);
+  }
+
+  if (!Number.isFinite(tick) || tick <= 0) {
+    return Number(price.toFixed(8));
+  }
+  const decimals = Math.max(0, Math.ceil(-Math.log10(tick) - 1e-9));
+  return Number((Math.round(price / tick) * tick).toFixed(decimals));
+}
+
 /**
  * 预加载常用合约的乘数（可选，用于启动时预热缓存）
  */
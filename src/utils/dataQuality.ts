@@ -25,6 +25,7 @@
  * 3. 检测异常数据
  */
 
+import type { Candle } from "../services/exchangeClient";
 import { createLogger } from "./loggerUtils";
 
 const logger = createLogger({
@@ -46,7 +47,7 @@ export interface DataQualityReport {
  * 检查K线数据新鲜度
  */
 export function checkCandleFreshness(
-  candles: any[],
+  candles: Candle[],
   timeframe: string
 ): { isFresh: boolean; reason?: string } {
   if (!candles || candles.length === 0) {
@@ -54,11 +55,11 @@ export function checkCandleFreshness(
   }
   
   const latestCandle = candles[candles.length - 1];
-  if (!latestCandle.t) {
+  if (!latestCandle.timestamp) {
     return { isFresh: false, reason: "K线缺少时间戳" };
   }
   
-  const latestTime = Number.parseInt(latestCandle.t) * 1000; // 转换为毫秒
+  const latestTime = latestCandle.timestamp * 1000; // 转换为毫秒
   const now = Date.now();
   const ageMinutes = (now - latestTime) / (1000 * 60);
   
@@ -0,0 +1,382 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 账户回撤保护
+ *
+ * 以 account_history 中的峰值净值为基准（净值包含未实现盈亏），按回撤幅度分级响应：
+ * - warning：提醒 AI 谨慎交易
+ * - reduce_size：新开仓金额乘以 ACCOUNT_DRAWDOWN_SIZE_FACTOR
+ * - no_new_position：禁止新开仓，只允许平仓
+ * - force_close：交易循环平掉所有持仓并停止新开仓
+ *
+ * 与 ACCOUNT_STOP_LOSS_USDT（余额跌破后清仓并退出进程）相互独立。
+ * 强制平仓后经过冷却时间，以当前净值作为新的峰值重新计算回撤，也可以通过 API 手动重置。
+ */
+import { createClient } from "@libsql/client";
+import { RISK_PARAMS } from "../config/riskParams";
+import { type Account, createExchangeClient, getAccountEquity } from "../services/exchangeClient";
+import { createLogger } from "./loggerUtils";
+import { getChinaTimeISO } from "./timeUtils";
+
+const logger = createLogger({
+  name: "drawdown-guard",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+const STATE_KEY = "drawdown_guard_state";
+
+/**
+ * 回撤保护级别（按严重程度递增）
+ */
+export type DrawdownGuardLevel = "normal" | "warning" | "reduce_size" | "no_new_position" | "force_close";
+
+const LEVEL_ORDER: DrawdownGuardLevel[] = ["normal", "warning", "reduce_size", "no_new_position", "force_close"];
+
+/**
+ * 回撤保护级别的中文名称
+ */
+export const DRAWDOWN_GUARD_LEVEL_LABELS: Record<DrawdownGuardLevel, string> = {
+  normal: "正常",
+  warning: "警告",
+  reduce_size: "缩减仓位",
+  no_new_position: "禁止开仓",
+  force_close: "强制平仓",
+};
+
+/**
+ * 持久化的回撤保护状态（system_config.drawdown_guard_state）
+ */
+interface DrawdownGuardState {
+  level: DrawdownGuardLevel;
+  peakEquity: number;
+  equity: number;
+  drawdownPercent: number;
+  /** 进入当前级别的时间 */
+  changedAt: string | null;
+  /** 峰值重置时间，之前的账户历史不再参与峰值计算 */
+  peakResetAt: string | null;
+  /** 当前强制平仓级别下首次执行清仓的时间 */
+  forceClosedAt: string | null;
+  updatedAt: string | null;
+}
+
+/**
+ * 回撤保护状态
+ */
+export interface DrawdownGuardStatus extends DrawdownGuardState {
+  /** 是否允许新开仓 */
+  allowNewPositions: boolean;
+  /** 新开仓金额系数（1 表示不缩减，0 表示禁止开仓） */
+  sizeFactor: number;
+  /** 是否需要平掉所有持仓 */
+  shouldForceClose: boolean;
+}
+
+/**
+ * 回撤保护阈值配置（阈值为 0 表示关闭该级别）
+ */
+export function getDrawdownGuardThresholds() {
+  return {
+    warning: RISK_PARAMS.ACCOUNT_DRAWDOWN_WARNING_PERCENT,
+    reduceSize: RISK_PARAMS.ACCOUNT_DRAWDOWN_REDUCE_SIZE_PERCENT,
+    sizeFactor: RISK_PARAMS.ACCOUNT_DRAWDOWN_SIZE_FACTOR,
+    noNewPosition: RISK_PARAMS.ACCOUNT_DRAWDOWN_NO_NEW_POSITION_PERCENT,
+    forceClose: RISK_PARAMS.ACCOUNT_DRAWDOWN_FORCE_CLOSE_PERCENT,
+    recoveryBuffer: RISK_PARAMS.ACCOUNT_DRAWDOWN_RECOVERY_BUFFER_PERCENT,
+    forceCloseCooldownMinutes: RISK_PARAMS.ACCOUNT_DRAWDOWN_FORCE_CLOSE_COOLDOWN_MINUTES,
+  };
+}
+
+/** 本进程是否已确认 drawdown_guard_log 表存在（兼容旧数据库） */
+let tableChecked = false;
+
+async function ensureLogTable(): Promise<void> {
+  if (tableChecked) {
+    return;
+  }
+  await dbClient.execute(`
+    CREATE TABLE IF NOT EXISTS drawdown_guard_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      from_level TEXT NOT NULL,
+      to_level TEXT NOT NULL,
+      equity REAL NOT NULL,
+      peak_equity REAL NOT NULL,
+      drawdown_percent REAL NOT NULL,
+      action TEXT NOT NULL,
+      reason TEXT
+    )
+  `);
+  tableChecked = true;
+}
+
+function severity(level: DrawdownGuardLevel): number {
+  return LEVEL_ORDER.indexOf(level);
+}
+
+/**
+ * 根据回撤幅度计算级别（取已达到阈值的最严重级别）
+ */
+function levelForDrawdown(drawdownPercent: number): DrawdownGuardLevel {
+  const thresholds = getDrawdownGuardThresholds();
+  const candidates: Array<[DrawdownGuardLevel, number]> = [
+    ["force_close", thresholds.forceClose],
+    ["no_new_position", thresholds.noNewPosition],
+    ["reduce_size", thresholds.reduceSize],
+    ["warning", thresholds.warning],
+  ];
+  for (const [level, threshold] of candidates) {
+    if (threshold > 0 && drawdownPercent >= threshold) {
+      return level;
+    }
+  }
+  return "normal";
+}
+
+function emptyState(): DrawdownGuardState {
+  return {
+    level: "normal",
+    peakEquity: 0,
+    equity: 0,
+    drawdownPercent: 0,
+    changedAt: null,
+    peakResetAt: null,
+    forceClosedAt: null,
+    updatedAt: null,
+  };
+}
+
+async function loadState(): Promise<DrawdownGuardState> {
+  const result = await dbClient.execute({
+    sql: "SELECT value FROM system_config WHERE key = ?",
+    args: [STATE_KEY],
+  });
+  if (result.rows.length === 0) {
+    return emptyState();
+  }
+  try {
+    return { ...emptyState(), ...JSON.parse(result.rows[0].value as string) };
+  } catch (error) {
+    logger.warn(`回撤保护状态解析失败，使用初始状态: ${error}`);
+    return emptyState();
+  }
+}
+
+async function saveState(state: DrawdownGuardState): Promise<void> {
+  await dbClient.execute({
+    sql: "INSERT OR REPLACE INTO system_config (key, value, updated_at) VALUES (?, ?, ?)",
+    args: [STATE_KEY, JSON.stringify(state), getChinaTimeISO()],
+  });
+}
+
+async function recordTransition(
+  fromLevel: DrawdownGuardLevel,
+  state: DrawdownGuardState,
+  action: string,
+  reason: string
+): Promise<void> {
+  logger.warn(
+    `回撤保护 [${action}] ${DRAWDOWN_GUARD_LEVEL_LABELS[fromLevel]} → ${DRAWDOWN_GUARD_LEVEL_LABELS[state.level]}: ${reason} ` +
+    `(净值 ${state.equity.toFixed(2)} USDT, 峰值 ${state.peakEquity.toFixed(2)} USDT, 回撤 ${state.drawdownPercent.toFixed(2)}%)`
+  );
+  try {
+    await ensureLogTable();
+    await dbClient.execute({
+      sql: `INSERT INTO drawdown_guard_log
+            (timestamp, from_level, to_level, equity, peak_equity, drawdown_percent, action, reason)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        getChinaTimeISO(),
+        fromLevel,
+        state.level,
+        state.equity,
+        state.peakEquity,
+        state.drawdownPercent,
+        action,
+        reason,
+      ],
+    });
+  } catch (error) {
+    logger.error("记录回撤保护日志失败:", error);
+  }
+}
+
+function toStatus(state: DrawdownGuardState): DrawdownGuardStatus {
+  const thresholds = getDrawdownGuardThresholds();
+  const allowNewPositions = severity(state.level) < severity("no_new_position");
+  let sizeFactor = allowNewPositions ? 1 : 0;
+  if (state.level === "reduce_size") {
+    sizeFactor = Math.min(1, Math.max(0, thresholds.sizeFactor));
+  }
+  return {
+    ...state,
+    allowNewPositions,
+    sizeFactor,
+    shouldForceClose: state.level === "force_close",
+  };
+}
+
+/**
+ * 计算当前回撤并更新保护级别，级别变化时写入日志
+ * @param account 交易所账户数据（不传则重新获取）
+ */
+export async function evaluateDrawdownGuard(account?: Account): Promise<DrawdownGuardStatus> {
+  const accountData = account || await createExchangeClient().getFuturesAccount();
+  const equity = getAccountEquity(accountData);
+  const state = await loadState();
+  const previousLevel = state.level;
+  const thresholds = getDrawdownGuardThresholds();
+  const now = getChinaTimeISO();
+  
+  if (!Number.isFinite(equity) || equity <= 0) {
+    logger.warn(`账户净值异常 (${equity})，保持回撤保护级别: ${DRAWDOWN_GUARD_LEVEL_LABELS[previousLevel]}`);
+    return toStatus(state);
+  }
+  
+  // 强制平仓冷却结束：以当前净值作为新的峰值
+  if (state.level === "force_close" && state.forceClosedAt && thresholds.forceCloseCooldownMinutes > 0) {
+    const elapsedMinutes = (Date.now() - new Date(state.forceClosedAt).getTime()) / 60000;
+    if (elapsedMinutes >= thresholds.forceCloseCooldownMinutes) {
+      const resetState: DrawdownGuardState = {
+        ...emptyState(),
+        peakEquity: equity,
+        equity,
+        changedAt: now,
+        peakResetAt: now,
+        updatedAt: now,
+      };
+      await saveState(resetState);
+      await recordTransition(
+        previousLevel,
+        resetState,
+        "peak_reset",
+        `强制平仓冷却 ${thresholds.forceCloseCooldownMinutes} 分钟结束，以当前净值作为新的峰值`
+      );
+      return toStatus(resetState);
+    }
+  }
+  
+  // 峰值：账户历史（峰值重置之后）、上次保存的峰值、当前净值取最大值
+  const peakResult = state.peakResetAt
+    ? await dbClient.execute({
+        sql: "SELECT MAX(total_value) as peak FROM account_history WHERE timestamp >= ?",
+        args: [state.peakResetAt],
+      })
+    : await dbClient.execute("SELECT MAX(total_value) as peak FROM account_history");
+  const historyPeak = peakResult.rows[0]?.peak
+    ? Number.parseFloat(peakResult.rows[0].peak as string)
+    : 0;
+  const peakEquity = Math.max(historyPeak, state.peakEquity, equity);
+  const drawdownPercent = peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 0;
+  
+  // 升级立即生效；降级需要回撤低于阈值减去缓冲
+  let level = levelForDrawdown(drawdownPercent);
+  if (severity(level) < severity(previousLevel)) {
+    const relaxed = levelForDrawdown(drawdownPercent + Math.max(0, thresholds.recoveryBuffer));
+    level = severity(relaxed) < severity(previousLevel) ? relaxed : previousLevel;
+  }
+  
+  const nextState: DrawdownGuardState = {
+    ...state,
+    level,
+    peakEquity,
+    equity,
+    drawdownPercent,
+    updatedAt: now,
+  };
+  
+  if (level !== previousLevel) {
+    nextState.changedAt = now;
+    if (level !== "force_close") {
+      nextState.forceClosedAt = null;
+    }
+    await saveState(nextState);
+    const direction = severity(level) > severity(previousLevel) ? "升级" : "恢复";
+    await recordTransition(previousLevel, nextState, "level_change", `账户回撤${direction}至 ${drawdownPercent.toFixed(2)}%`);
+  } else {
+    await saveState(nextState);
+  }
+  
+  return toStatus(nextState);
+}
+
+/**
+ * 记录强制平仓已执行（同一次强制平仓级别只记录一次，并开始冷却计时）
+ */
+export async function markDrawdownGuardForceClosed(reason: string): Promise<void> {
+  const state = await loadState();
+  if (state.level !== "force_close" || state.forceClosedAt) {
+    return;
+  }
+  state.forceClosedAt = getChinaTimeISO();
+  await saveState(state);
+  await recordTransition(state.level, state, "force_close", reason);
+}
+
+/**
+ * 手动重置回撤保护：以当前净值作为新的峰值
+ */
+export async function resetDrawdownGuard(reason: string): Promise<DrawdownGuardStatus> {
+  const account = await createExchangeClient().getFuturesAccount();
+  const equity = getAccountEquity(account);
+  const state = await loadState();
+  const now = getChinaTimeISO();
+  const resetState: DrawdownGuardState = {
+    ...emptyState(),
+    peakEquity: equity,
+    equity,
+    changedAt: now,
+    peakResetAt: now,
+    updatedAt: now,
+  };
+  await saveState(resetState);
+  await recordTransition(state.level, resetState, "peak_reset", reason);
+  return toStatus(resetState);
+}
+
+/**
+ * 获取回撤保护概览（最近一次计算的状态、阈值配置和最近的状态变化记录）
+ */
+export async function getDrawdownGuardOverview(limit = 20) {
+  const state = await loadState();
+  await ensureLogTable();
+  const result = await dbClient.execute({
+    sql: "SELECT * FROM drawdown_guard_log ORDER BY id DESC LIMIT ?",
+    args: [limit],
+  });
+  
+  return {
+    ...toStatus(state),
+    thresholds: getDrawdownGuardThresholds(),
+    recentEvents: result.rows.map((row) => ({
+      timestamp: row.timestamp as string,
+      fromLevel: row.from_level as string,
+      toLevel: row.to_level as string,
+      equity: Number(row.equity),
+      peakEquity: Number(row.peak_equity),
+      drawdownPercent: Number(row.drawdown_percent),
+      action: row.action as string,
+      reason: (row.reason as string) || null,
+    })),
+  };
+}
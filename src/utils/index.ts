@@ -23,3 +23,5 @@ export * from './timeUtils';
 export * from './encodingUtils';
 export * from './riskControl';
 export * from './dataQuality';
+export * from './cliUtils';
+export * from './errorUtils';
@@ -0,0 +1,458 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 组合风险
+ *
+ * - 敞口：按币种和方向统计名义价值（多头、空头、总敞口、净敞口）
+ * - VaR/CVaR：基于K线存储的历史收益率，对当前持仓做历史模拟和参数法（正态分布）计算
+ * - Beta：各币种相对 BTC 的 beta，汇总为 BTC 等价净敞口
+ *
+ * 开仓前由综合风控检查按 RISK_PARAMS 中的限额校验开仓后的组合（只拦截让指标超限且变差的开仓）。
+ */
+import { RISK_PARAMS } from "../config/riskParams";
+import { createCandleStore } from "../services/candleStore";
+import { type Account, type Position, createExchangeClient, getAccountEquity } from "../services/exchangeClient";
+import { getQuantoMultiplier } from "./contractUtils";
+import { getErrorMessage } from "./errorUtils";
+import { createLogger } from "./loggerUtils";
+
+const logger = createLogger({
+  name: "portfolio-risk",
+  level: "info",
+});
+
+/** Beta 基准币种 */
+const BENCHMARK_SYMBOL = "BTC";
+
+/**
+ * 单个币种的敞口（名义价值，USDT）
+ */
+export interface SymbolExposure {
+  symbol: string;
+  long: number;
+  short: number;
+  /** 多头 - 空头 */
+  net: number;
+  /** 多头 + 空头 */
+  gross: number;
+  /** 相对 BTC 的 beta（数据不足时为 null） */
+  beta: number | null;
+}
+
+/**
+ * VaR/CVaR（损失金额，USDT）
+ */
+export interface VarEstimate {
+  var: number;
+  cvar: number;
+}
+
+/**
+ * 组合风险报告
+ */
+export interface PortfolioRiskReport {
+  /** 账户净值（含未实现盈亏） */
+  equity: number;
+  exposure: {
+    long: number;
+    short: number;
+    gross: number;
+    net: number;
+    grossPercent: number;
+    netPercent: number;
+    bySymbol: SymbolExposure[];
+  };
+  valueAtRisk: {
+    confidence: number;
+    timeframe: string;
+    /** 持有期（K线数） */
+    horizon: number;
+    samples: number;
+    historical: VarEstimate | null;
+    parametric: VarEstimate | null;
+    /** 限额使用的方法计算的 VaR/CVaR 占净值的百分比 */
+    varPercent: number | null;
+    cvarPercent: number | null;
+  };
+  beta: {
+    benchmark: string;
+    /** BTC 等价净敞口（各币种净敞口 × beta 之和） */
+    betaExposure: number;
+    betaExposurePercent: number;
+  };
+  limits: PortfolioRiskLimits;
+  /** 超出限额的项目 */
+  breaches: string[];
+  timestamp: string;
+}
+
+/**
+ * 组合风险限额（占账户净值的百分比，0 表示不限制）
+ */
+export interface PortfolioRiskLimits {
+  maxVarPercent: number;
+  maxCvarPercent: number;
+  maxGrossExposurePercent: number;
+  maxNetExposurePercent: number;
+  maxSymbolExposurePercent: number;
+  maxBetaExposurePercent: number;
+}
+
+/**
+ * 拟新开的仓位
+ */
+export interface ProspectivePosition {
+  symbol: string;
+  side: "long" | "short";
+  /** 名义价值（保证金 × 杠杆） */
+  notional: number;
+}
+
+/**
+ * 获取组合风险限额配置
+ */
+export function getPortfolioRiskLimits(): PortfolioRiskLimits {
+  return {
+    maxVarPercent: RISK_PARAMS.MAX_PORTFOLIO_VAR_PERCENT,
+    maxCvarPercent: RISK_PARAMS.MAX_PORTFOLIO_CVAR_PERCENT,
+    maxGrossExposurePercent: RISK_PARAMS.MAX_GROSS_EXPOSURE_PERCENT,
+    maxNetExposurePercent: RISK_PARAMS.MAX_NET_EXPOSURE_PERCENT,
+    maxSymbolExposurePercent: RISK_PARAMS.MAX_SYMBOL_EXPOSURE_PERCENT,
+    maxBetaExposurePercent: RISK_PARAMS.MAX_BETA_EXPOSURE_PERCENT,
+  };
+}
+
+/**
+ * 标准正态分布的分位数（Acklam 近似，相对误差 < 1.15e-9）
+ */
+function normalQuantile(p: number): number {
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * 历史模拟 VaR/CVaR
+ * @param pnls 组合在每个历史场景下的盈亏
+ */
+function historicalVar(pnls: number[], confidence: number): VarEstimate {
+  const losses = pnls.map(p => -p).sort((a, b) => a - b);
+  const index = Math.min(losses.length - 1, Math.max(0, Math.ceil(confidence * losses.length) - 1));
+  const valueAtRisk = losses[index];
+  const tail = losses.slice(index);
+  const cvar = tail.reduce((sum, l) => sum + l, 0) / tail.length;
+  return { var: Math.max(0, valueAtRisk), cvar: Math.max(0, cvar) };
+}
+
+/**
+ * 参数法（正态分布）VaR/CVaR
+ */
+function parametricVar(pnls: number[], confidence: number): VarEstimate {
+  const n = pnls.length;
+  const mean = pnls.reduce((sum, p) => sum + p, 0) / n;
+  const variance = pnls.reduce((sum, p) => sum + (p - mean) ** 2, 0) / Math.max(1, n - 1);
+  const std = Math.sqrt(variance);
+  const z = normalQuantile(confidence);
+  const density = Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+  return {
+    var: Math.max(0, -mean + z * std),
+    cvar: Math.max(0, -mean + (std * density) / (1 - confidence)),
+  };
+}
+
+/**
+ * 计算 beta（symbol 收益率对基准收益率回归的斜率）
+ */
+function calculateBeta(returns: number[], benchmark: number[]): number | null {
+  const n = Math.min(returns.length, benchmark.length);
+  if (n < 2) {
+    return null;
+  }
+  const meanR = returns.reduce((sum, r) => sum + r, 0) / n;
+  const meanB = benchmark.reduce((sum, r) => sum + r, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (returns[i] - meanR) * (benchmark[i] - meanB);
+    variance += (benchmark[i] - meanB) ** 2;
+  }
+  return variance > 0 ? covariance / variance : null;
+}
+
+/**
+ * 读取各币种收盘价，按共同的K线时间对齐
+ * @returns 每个币种的收盘价序列（长度相同），数据不足时为空
+ */
+async function loadAlignedCloses(symbols: string[]): Promise<Map<string, number[]>> {
+  const store = createCandleStore();
+  const limit = RISK_PARAMS.PORTFOLIO_VAR_LOOKBACK + RISK_PARAMS.PORTFOLIO_VAR_HORIZON;
+  const closesBySymbol = new Map<string, Map<number, number>>();
+  
+  for (const symbol of symbols) {
+    try {
+      const candles = await store.getCandles(`${symbol}_USDT`, RISK_PARAMS.PORTFOLIO_VAR_TIMEFRAME, limit);
+      const closes = new Map<number, number>();
+      for (const candle of candles) {
+        const close = candle.close;
+        if (Number.isFinite(close) && close > 0) {
+          closes.set(candle.timestamp, close);
+        }
+      }
+      closesBySymbol.set(symbol, closes);
+    } catch (error) {
+      logger.warn(`读取 ${symbol} K线失败，组合风险计算将缺少该币种: ${getErrorMessage(error)}`);
+      closesBySymbol.set(symbol, new Map());
+    }
+  }
+  
+  const [first, ...rest] = symbols;
+  const times = [...(closesBySymbol.get(first)?.keys() || [])]
+    .filter(t => rest.every(symbol => closesBySymbol.get(symbol)?.has(t)))
+    .sort((a, b) => a - b);
+  
+  const aligned = new Map<string, number[]>();
+  for (const symbol of symbols) {
+    const closes = closesBySymbol.get(symbol) as Map<number, number>;
+    aligned.set(symbol, times.map(t => closes.get(t) as number));
+  }
+  return aligned;
+}
+
+/**
+ * 计算 n 根K线的收益率序列
+ */
+function periodReturns(closes: number[], horizon: number): number[] {
+  const returns: number[] = [];
+  for (let i = horizon; i < closes.length; i++) {
+    returns.push(closes[i] / closes[i - horizon] - 1);
+  }
+  return returns;
+}
+
+/**
+ * 将交易所持仓转换为各币种敞口
+ */
+async function buildExposures(positions: Position[]): Promise<Map<string, SymbolExposure>> {
+  const exposures = new Map<string, SymbolExposure>();
+  for (const position of positions) {
+    const { size } = position;
+    if (!Number.isFinite(size) || size === 0) {
+      continue;
+    }
+    const symbol = position.contract.replace("_USDT", "");
+    const price = position.markPrice || position.entryPrice;
+    const quantoMultiplier = await getQuantoMultiplier(position.contract);
+    addExposure(exposures, {
+      symbol,
+      side: size > 0 ? "long" : "short",
+      notional: Math.abs(size) * price * quantoMultiplier,
+    });
+  }
+  return exposures;
+}
+
+function addExposure(exposures: Map<string, SymbolExposure>, position: ProspectivePosition): void {
+  const existing = exposures.get(position.symbol) || {
+    symbol: position.symbol,
+    long: 0,
+    short: 0,
+    net: 0,
+    gross: 0,
+    beta: null,
+  };
+  if (position.side === "long") {
+    existing.long += position.notional;
+  } else {
+    existing.short += position.notional;
+  }
+  existing.net = existing.long - existing.short;
+  existing.gross = existing.long + existing.short;
+  exposures.set(position.symbol, existing);
+}
+
+/**
+ * 根据敞口和历史收盘价生成风险报告
+ */
+function buildReport(
+  exposures: Map<string, SymbolExposure>,
+  equity: number,
+  closes: Map<string, number[]>
+): PortfolioRiskReport {
+  const limits = getPortfolioRiskLimits();
+  const confidence = RISK_PARAMS.PORTFOLIO_VAR_CONFIDENCE;
+  const horizon = Math.max(1, RISK_PARAMS.PORTFOLIO_VAR_HORIZON);
+  const bySymbol = [...exposures.values()].map(e => ({ ...e }));
+  const toPercent = (value: number) => (equity > 0 ? (value / equity) * 100 : 0);
+  
+  // Beta（使用单根K线收益率）
+  const benchmarkReturns = periodReturns(closes.get(BENCHMARK_SYMBOL) || [], 1);
+  let betaExposure = 0;
+  for (const exposure of bySymbol) {
+    exposure.beta = exposure.symbol === BENCHMARK_SYMBOL
+      ? 1
+      : calculateBeta(periodReturns(closes.get(exposure.symbol) || [], 1), benchmarkReturns);
+    betaExposure += exposure.net * (exposure.beta ?? 1);
+  }
+  
+  // 历史场景下的组合盈亏：各币种净敞口 × 持有期收益率
+  const scenarioReturns = bySymbol.map(e => periodReturns(closes.get(e.symbol) || [], horizon));
+  const samples = bySymbol.length > 0 ? Math.min(...scenarioReturns.map(r => r.length)) : 0;
+  const pnls: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    pnls.push(bySymbol.reduce((sum, e, index) => sum + e.net * scenarioReturns[index][i], 0));
+  }
+  
+  const enough = samples >= RISK_PARAMS.PORTFOLIO_VAR_MIN_SAMPLES;
+  const historical = enough ? historicalVar(pnls, confidence) : null;
+  const parametric = enough ? parametricVar(pnls, confidence) : null;
+  const limitEstimate = RISK_PARAMS.PORTFOLIO_VAR_METHOD === "parametric" ? parametric : historical;
+  // 空仓时没有风险
+  const noPositions = bySymbol.length === 0;
+  const varPercent = noPositions ? 0 : limitEstimate ? toPercent(limitEstimate.var) : null;
+  const cvarPercent = noPositions ? 0 : limitEstimate ? toPercent(limitEstimate.cvar) : null;
+  
+  const long = bySymbol.reduce((sum, e) => sum + e.long, 0);
+  const short = bySymbol.reduce((sum, e) => sum + e.short, 0);
+  const report: PortfolioRiskReport = {
+    equity,
+    exposure: {
+      long,
+      short,
+      gross: long + short,
+      net: long - short,
+      grossPercent: toPercent(long + short),
+      netPercent: toPercent(long - short),
+      bySymbol,
+    },
+    valueAtRisk: {
+      confidence,
+      timeframe: RISK_PARAMS.PORTFOLIO_VAR_TIMEFRAME,
+      horizon,
+      samples,
+      historical,
+      parametric,
+      varPercent,
+      cvarPercent,
+    },
+    beta: {
+      benchmark: BENCHMARK_SYMBOL,
+      betaExposure,
+      betaExposurePercent: toPercent(betaExposure),
+    },
+    limits,
+    breaches: [],
+    timestamp: new Date().toISOString(),
+  };
+  report.breaches = findBreaches(report).map(b => b.message);
+  return report;
+}
+
+/**
+ * 检查超出限额的项目
+ */
+function findBreaches(report: PortfolioRiskReport): Array<{ key: string; value: number; message: string }> {
+  const { limits } = report;
+  const breaches: Array<{ key: string; value: number; message: string }> = [];
+  const check = (key: string, value: number | null, limit: number, label: string) => {
+    if (limit > 0 && value !== null && value > limit) {
+      breaches.push({ key, value, message: `${label} ${value.toFixed(2)}% 超过限额 ${limit}%` });
+    }
+  };
+  
+  const confidenceLabel = `${(report.valueAtRisk.confidence * 100).toFixed(0)}%`;
+  check("var", report.valueAtRisk.varPercent, limits.maxVarPercent, `组合VaR(${confidenceLabel})`);
+  check("cvar", report.valueAtRisk.cvarPercent, limits.maxCvarPercent, `组合CVaR(${confidenceLabel})`);
+  check("gross", report.exposure.grossPercent, limits.maxGrossExposurePercent, "总敞口");
+  check("net", Math.abs(report.exposure.netPercent), limits.maxNetExposurePercent, "净敞口");
+  check("beta", Math.abs(report.beta.betaExposurePercent), limits.maxBetaExposurePercent, "BTC beta 敞口");
+  for (const exposure of report.exposure.bySymbol) {
+    const percent = report.equity > 0 ? (exposure.gross / report.equity) * 100 : 0;
+    check(`symbol:${exposure.symbol}`, percent, limits.maxSymbolExposurePercent, `${exposure.symbol} 敞口`);
+  }
+  return breaches;
+}
+
+/**
+ * 计算当前组合风险
+ * @param positions 交易所持仓（不传则重新获取）
+ * @param account 交易所账户（不传则重新获取）
+ */
+export async function calculatePortfolioRisk(positions?: Position[], account?: Account): Promise<PortfolioRiskReport> {
+  const exchangeClient = createExchangeClient();
+  const currentPositions = positions || await exchangeClient.getPositions();
+  const accountData = account || await exchangeClient.getFuturesAccount();
+  
+  const exposures = await buildExposures(currentPositions);
+  const symbols = [...new Set([BENCHMARK_SYMBOL, ...exposures.keys()])];
+  const closes = await loadAlignedCloses(symbols);
+  return buildReport(exposures, getAccountEquity(accountData), closes);
+}
+
+/**
+ * 检查新开仓后的组合是否超出风险限额
+ * 开仓前已超限的指标，只要新开仓不使其变差就不拦截（如对冲仓位）
+ * @returns 开仓后的风险报告和需要拦截的原因
+ */
+export async function checkPortfolioRiskLimits(params: {
+  newPosition: ProspectivePosition;
+  positions?: Position[];
+  account?: Account;
+}): Promise<{ report: PortfolioRiskReport; blockers: string[] }> {
+  const exchangeClient = createExchangeClient();
+  const currentPositions = params.positions || await exchangeClient.getPositions();
+  const accountData = params.account || await exchangeClient.getFuturesAccount();
+  const equity = getAccountEquity(accountData);
+  
+  const before = await buildExposures(currentPositions);
+  const after = await buildExposures(currentPositions);
+  addExposure(after, params.newPosition);
+  
+  const symbols = [...new Set([BENCHMARK_SYMBOL, ...after.keys()])];
+  const closes = await loadAlignedCloses(symbols);
+  const beforeReport = buildReport(before, equity, closes);
+  const afterReport = buildReport(after, equity, closes);
+  
+  const beforeValues = new Map(findBreaches(beforeReport).map(b => [b.key, b.value]));
+  const blockers = findBreaches(afterReport)
+    .filter(b => !beforeValues.has(b.key) || b.value > (beforeValues.get(b.key) as number) + 1e-9)
+    .map(b => `开仓后${b.message}`);
+  
+  if (afterReport.valueAtRisk.varPercent === null && (afterReport.limits.maxVarPercent > 0 || afterReport.limits.maxCvarPercent > 0)) {
+    logger.warn(`K线样本不足（${afterReport.valueAtRisk.samples} < ${RISK_PARAMS.PORTFOLIO_VAR_MIN_SAMPLES}），跳过 VaR/CVaR 限额检查`);
+  }
+  
+  return { report: afterReport, blockers };
+}
@@ -0,0 +1,52 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 持仓操作锁 - 保证同一币种同一时间只有一个平仓流程
+ *
+ * 持仓监督器（止损、移动止盈、分批止盈、最大持仓时间）、交易周期的强制平仓和 AI 平仓工具
+ * 在下单前获取锁，获取失败说明该持仓正在被其他流程处理，应跳过本次操作
+ */
+
+const lockedSymbols = new Set<string>();
+
+/**
+ * 尝试锁定持仓
+ * @returns 是否锁定成功（已被锁定时返回 false）
+ */
+export function tryLockPosition(symbol: string): boolean {
+  if (lockedSymbols.has(symbol)) {
+    return false;
+  }
+  lockedSymbols.add(symbol);
+  return true;
+}
+
+/**
+ * 释放持仓锁
+ */
+export function unlockPosition(symbol: string): void {
+  lockedSymbols.delete(symbol);
+}
+
+/**
+ * 持仓是否正在被处理
+ */
+export function isPositionLocked(symbol: string): boolean {
+  return lockedSymbols.has(symbol);
+}
@@ -28,6 +28,17 @@
 
 import { createLogger } from "./loggerUtils";
 import { createClient } from "@libsql/client";
+import { RISK_PARAMS } from "../config/riskParams";
+import { getTradingStrategy, getStrategyParams } from "../agents/tradingAgent";
+import {
+  evaluateCircuitBreakerRule,
+  getHaltDuration,
+  resolveCircuitBreakerRules,
+  type CircuitBreakerRuleHit,
+} from "./circuitBreakerRules";
+import { checkPortfolioRiskLimits } from "./portfolioRisk";
+import { getErrorMessage } from "./errorUtils";
+import type { Account, Position } from "../services/exchangeClient";
 
 const logger = createLogger({
   name: "risk-control",
@@ -163,8 +174,13 @@ export interface CircuitBreakerStatus {
   severityLevel?: number;
   isInCooldown?: boolean;
   cooldownUntil?: Date;
+  /** 触发熔断的规则ID */
+  ruleId?: string;
 }
 
+/** 本进程是否已检查过 circuit_breaker_log 表结构 */
+let tableSchemaChecked = false;
+
 /**
  * 自动迁移表结构（如果需要）
  */
@@ -215,6 +231,13 @@ async function ensureTableSchema(): Promise<void> {
       );
       logger.info("✓ 自动添加字段: trigger_details");
     }
+    
+    if (!existingColumns.includes("rule_id")) {
+      await dbClient.execute(
+        "ALTER TABLE circuit_breaker_log ADD COLUMN rule_id TEXT"
+      );
+      logger.info("✓ 自动添加字段: rule_id");
+    }
   } catch (error) {
     logger.error("表结构检查失败:", error as any);
     // 不抛出错误，继续执行
@@ -230,11 +253,10 @@ async function recordCircuitBreaker(
   resumeTime: Date,
   severityLevel: number,
   triggerType: string,
-  triggerDetails: any
+  triggerDetails: any,
+  ruleId: string
 ): Promise<void> {
   try {
-    // 确保表结构是最新的
-    await ensureTableSchema();
     
     const triggeredAt = new Date().toISOString();
     const resumeAt = resumeTime.toISOString();
@@ -242,7 +264,7 @@ async function recordCircuitBreaker(
     // 计算冷却期结束时间（熔断恢复后6小时）
     const cooldownUntil = new Date(resumeTime.getTime() + 6 * 60 * 60 * 1000).toISOString();
     
-    logger.info(`准备记录新的熔断状态: reason="${reason}", resume_at="${resumeAt}", severity_level=${severityLevel}`);
+    logger.info(`准备记录新的熔断状态: rule=${ruleId}, reason="${reason}", resume_at="${resumeAt}", severity_level=${severityLevel}`);
     
     // 步骤1: 先将所有现有的active记录设为expired
     const updateResult = await dbClient.execute({
@@ -259,8 +281,8 @@ async function recordCircuitBreaker(
     // 步骤2: 插入新的active记录（包含新字段）
     await dbClient.execute({
       sql: `INSERT INTO circuit_breaker_log 
-            (reason, triggered_at, resume_at, status, severity_level, cooldown_until, trigger_type, trigger_details) 
-            VALUES (?, ?, ?, 'active', ?, ?, ?, ?)`,
+            (reason, triggered_at, resume_at, status, severity_level, cooldown_until, trigger_type, trigger_details, rule_id) 
+            VALUES (?, ?, ?, 'active', ?, ?, ?, ?, ?)`,
       args: [
         reason,
         triggeredAt,
@@ -269,6 +291,7 @@ async function recordCircuitBreaker(
         cooldownUntil,
         triggerType,
         JSON.stringify(triggerDetails),
+        ruleId,
       ],
     });
     
@@ -287,7 +310,7 @@ async function getActiveCircuitBreaker(): Promise<CircuitBreakerStatus | null> {
     logger.debug("开始检查活跃熔断状态");
     
     const result = await dbClient.execute({
-      sql: `SELECT reason, resume_at, triggered_at, severity_level, cooldown_until, trigger_type 
+      sql: `SELECT reason, resume_at, triggered_at, severity_level, cooldown_until, trigger_type, rule_id 
             FROM circuit_breaker_log 
             WHERE status = 'active' 
             ORDER BY triggered_at DESC LIMIT 1`,
@@ -377,6 +400,7 @@ async function getActiveCircuitBreaker(): Promise<CircuitBreakerStatus | null> {
       reason: row.reason as string,
       resumeTime,
       severityLevel: Number(row.severity_level) || 1,
+      ruleId: (row.rule_id as string) || undefined,
     };
   } catch (error) {
     logger.error("查询熔断状态失败:", error as any);
@@ -537,15 +561,21 @@ export async function resetCircuitBreaker(): Promise<boolean> {
  * 检查是否触发熔断 (v2 - 改进版)
  * 
  * 新特性:
- * 1. 冷却期机制：熔断恢复后6小时内降低触发阈值
- * 2. 严重等级递增：重复触发导致熔断时长翻倍
- * 3. 时间窗口限制：连续亏损必须在4小时内发生
- * 4. 多维度判断：单日亏损、时间窗口亏损、连续亏损、单笔巨亏
+ * 1. 冷却期机制：熔断恢复后6小时内降低触发阈值（按规则的 cooldownFactor）
+ * 2. 严重等级递增：重复触发导致熔断时长按规则的 escalation 倍数递增
+ * 3. 规则引擎：触发条件由熔断规则定义（见 circuitBreakerRules），默认规则为
+ *    单日亏损、1小时/4小时亏损、4小时内连续亏损、单笔巨亏
  */
 export async function checkCircuitBreaker(): Promise<CircuitBreakerStatus> {
   try {
     logger.debug("=== 开始熔断检查流程 (v2) ===");
     
+    // 确保表结构是最新的（每个进程只检查一次）
+    if (!tableSchemaChecked) {
+      await ensureTableSchema();
+      tableSchemaChecked = true;
+    }
+    
     // 步骤1: 检查是否有活跃的熔断状态
     const activeBreaker = await getActiveCircuitBreaker();
     if (activeBreaker) {
@@ -625,198 +655,44 @@ export async function checkCircuitBreaker(): Promise<CircuitBreakerStatus> {
       ? Number.parseFloat(accountResult.rows[0].total_value as string)
       : 1000;
     
-    // 根据严重等级和冷却期调整阈值
-    const thresholdMultiplier = inCooldown ? 0.5 : 1.0; // 冷却期内阈值降低50%
-    
-    // ========== 触发条件检查 ==========
-    
-    // 条件1: 单日亏损
-    logger.debug("检查条件1: 单日亏损");
-    const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const todayTradesResult = await dbClient.execute({
-      sql: `SELECT SUM(pnl) as total_pnl FROM trades 
-            WHERE timestamp >= ? AND type = 'close'`,
-      args: [todayStart.toISOString()],
-    });
-    
-    const todayPnl = Number.parseFloat((todayTradesResult.rows[0] as any)?.total_pnl || "0");
-    const dailyLossPercent = (todayPnl / totalBalance) * 100;
-    const dailyLossThreshold = -15 * thresholdMultiplier; // 基础阈值-15%
-    
-    logger.debug(`单日亏损: ${dailyLossPercent.toFixed(2)}%, 阈值: ${dailyLossThreshold.toFixed(2)}%`);
-    
-    if (dailyLossPercent < dailyLossThreshold) {
-      const baseDuration = 12 * 60 * 60 * 1000; // 基础12小时
-      const duration = baseDuration * Math.pow(2, effectiveSeverityLevel - 1); // 等级递增翻倍
-      const resumeTime = new Date(now.getTime() + duration);
-      const reason = `单日亏损${dailyLossPercent.toFixed(2)}%，触发熔断保护 (等级${effectiveSeverityLevel})`;
-      
-      logger.warn(`⚠️ 触发熔断: ${reason}`);
-      
-      await recordCircuitBreaker(
-        reason,
-        resumeTime,
-        effectiveSeverityLevel,
-        "daily_loss",
-        { dailyLossPercent, threshold: dailyLossThreshold, totalBalance }
-      );
-      
-      logger.info(`熔断已激活，恢复时间: ${resumeTime.toISOString()}`);
-      return { shouldHalt: true, reason, resumeTime, severityLevel: effectiveSeverityLevel };
-    }
+    // ========== 触发条件检查（按规则顺序，第一条触发的规则生效）==========
+    const strategy = getTradingStrategy();
+    const { source, rules } = await resolveCircuitBreakerRules(strategy, getStrategyParams(strategy).circuitBreakerRules);
+    logger.debug(`熔断规则来源: ${source}，共 ${rules.length} 条`);
     
-    // 条件2: 时间窗口亏损（1小时、4小时）
-    logger.debug("检查条件2: 时间窗口亏损");
-    
-    // 2.1: 1小时窗口
-    const oneHourWindow = new Date(now.getTime() - 60 * 60 * 1000);
-    const hourlyResult = await dbClient.execute({
-      sql: `SELECT SUM(pnl) as total_pnl FROM trades 
-            WHERE timestamp >= ? AND type = 'close'`,
-      args: [oneHourWindow.toISOString()],
-    });
-    
-    const hourlyPnl = Number.parseFloat((hourlyResult.rows[0] as any)?.total_pnl || "0");
-    const hourlyLossPercent = (hourlyPnl / totalBalance) * 100;
-    const hourlyLossThreshold = -5 * thresholdMultiplier; // 基础阈值-5%
-    
-    logger.debug(`1小时亏损: ${hourlyLossPercent.toFixed(2)}%, 阈值: ${hourlyLossThreshold.toFixed(2)}%`);
-    
-    if (hourlyLossPercent < hourlyLossThreshold) {
-      const baseDuration = 2 * 60 * 60 * 1000; // 基础2小时
-      const duration = baseDuration * Math.pow(2, effectiveSeverityLevel - 1);
-      const resumeTime = new Date(now.getTime() + duration);
-      const reason = `1小时内亏损${hourlyLossPercent.toFixed(2)}%，触发熔断保护 (等级${effectiveSeverityLevel})`;
-      
-      logger.warn(`⚠️ 触发熔断: ${reason}`);
+    for (const rule of rules) {
+      if (rule.enabled === false) {
+        continue;
+      }
       
-      await recordCircuitBreaker(
-        reason,
-        resumeTime,
-        effectiveSeverityLevel,
-        "hourly_loss",
-        { hourlyLossPercent, threshold: hourlyLossThreshold, totalBalance }
-      );
+      let hit: CircuitBreakerRuleHit | null = null;
+      try {
+        hit = await evaluateCircuitBreakerRule(rule, { now, totalBalance, inCooldown });
+      } catch (error) {
+        logger.error(`熔断规则 ${rule.id} 评估失败: ${getErrorMessage(error)}`);
+        continue;
+      }
+      if (!hit) {
+        continue;
+      }
       
-      logger.info(`熔断已激活，恢复时间: ${resumeTime.toISOString()}`);
-      return { shouldHalt: true, reason, resumeTime, severityLevel: effectiveSeverityLevel };
-    }
-    
-    // 2.2: 4小时窗口
-    const fourHourWindow = new Date(now.getTime() - 4 * 60 * 60 * 1000);
-    const fourHourResult = await dbClient.execute({
-      sql: `SELECT SUM(pnl) as total_pnl FROM trades 
-            WHERE timestamp >= ? AND type = 'close'`,
-      args: [fourHourWindow.toISOString()],
-    });
-    
-    const fourHourPnl = Number.parseFloat((fourHourResult.rows[0] as any)?.total_pnl || "0");
-    const fourHourLossPercent = (fourHourPnl / totalBalance) * 100;
-    const fourHourLossThreshold = -8 * thresholdMultiplier; // 基础阈值-8%
-    
-    logger.debug(`4小时亏损: ${fourHourLossPercent.toFixed(2)}%, 阈值: ${fourHourLossThreshold.toFixed(2)}%`);
-    
-    if (fourHourLossPercent < fourHourLossThreshold) {
-      const baseDuration = 4 * 60 * 60 * 1000; // 基础4小时
-      const duration = baseDuration * Math.pow(2, effectiveSeverityLevel - 1);
-      const resumeTime = new Date(now.getTime() + duration);
-      const reason = `4小时内亏损${fourHourLossPercent.toFixed(2)}%，触发熔断保护 (等级${effectiveSeverityLevel})`;
+      const { durationMs, level } = getHaltDuration(rule, effectiveSeverityLevel);
+      const resumeTime = new Date(now.getTime() + durationMs);
+      const reason = `${hit.description}，触发熔断保护 [${rule.name || rule.id}] (等级${level})`;
       
       logger.warn(`⚠️ 触发熔断: ${reason}`);
       
       await recordCircuitBreaker(
         reason,
         resumeTime,
-        effectiveSeverityLevel,
-        "four_hour_loss",
-        { fourHourLossPercent, threshold: fourHourLossThreshold, totalBalance }
+        level,
+        rule.metric,
+        hit.details,
+        rule.id
       );
       
       logger.info(`熔断已激活，恢复时间: ${resumeTime.toISOString()}`);
-      return { shouldHalt: true, reason, resumeTime, severityLevel: effectiveSeverityLevel };
-    }
-    
-    // 条件3: 连续亏损（必须在4小时内）
-    logger.debug("检查条件3: 连续亏损");
-    const recentTradesResult = await dbClient.execute({
-      sql: `SELECT pnl, timestamp FROM trades 
-            WHERE type = 'close' 
-            ORDER BY timestamp DESC LIMIT 5`,
-      args: [],
-    });
-    
-    if (recentTradesResult.rows.length >= 5) {
-      const trades = recentTradesResult.rows;
-      const allLoss = trades.every(row => Number.parseFloat(row.pnl as string) < 0);
-      
-      // 检查这5笔交易是否都在4小时内
-      const oldestTradeTime = new Date(trades[4].timestamp as string);
-      const timeSpanHours = (now.getTime() - oldestTradeTime.getTime()) / (60 * 60 * 1000);
-      
-      logger.debug(`连续亏损: ${allLoss ? '是' : '否'}, 时间跨度: ${timeSpanHours.toFixed(1)}小时`);
-      
-      // 冷却期内降低要求：3笔即可触发
-      const requiredLossCount = inCooldown ? 3 : 5;
-      const maxTimeSpan = 4; // 必须在4小时内
-      
-      if (allLoss && timeSpanHours <= maxTimeSpan) {
-        const baseDuration = 2 * 60 * 60 * 1000; // 基础2小时
-        const duration = baseDuration * Math.pow(2, effectiveSeverityLevel - 1);
-        const resumeTime = new Date(now.getTime() + duration);
-        const reason = `${timeSpanHours.toFixed(1)}小时内连续${trades.length}笔亏损，触发熔断保护 (等级${effectiveSeverityLevel})`;
-        
-        logger.warn(`⚠️ 触发熔断: ${reason}`);
-        
-        await recordCircuitBreaker(
-          reason,
-          resumeTime,
-          effectiveSeverityLevel,
-          "consecutive_loss",
-          { lossCount: trades.length, timeSpanHours, requiredCount: requiredLossCount }
-        );
-        
-        logger.info(`熔断已激活，恢复时间: ${resumeTime.toISOString()}`);
-        return { shouldHalt: true, reason, resumeTime, severityLevel: effectiveSeverityLevel };
-      } else if (allLoss && timeSpanHours > maxTimeSpan) {
-        logger.debug(`连续亏损但时间跨度过长(${timeSpanHours.toFixed(1)}小时 > ${maxTimeSpan}小时)，不触发熔断`);
-      }
-    }
-    
-    // 条件4: 单笔巨额亏损
-    logger.debug("检查条件4: 单笔巨额亏损");
-    const lastTradeResult = await dbClient.execute({
-      sql: `SELECT pnl FROM trades 
-            WHERE type = 'close' 
-            ORDER BY timestamp DESC LIMIT 1`,
-      args: [],
-    });
-    
-    if (lastTradeResult.rows.length > 0) {
-      const lastPnl = Number.parseFloat(lastTradeResult.rows[0].pnl as string);
-      const lastLossPercent = (lastPnl / totalBalance) * 100;
-      const singleLossThreshold = -3 * thresholdMultiplier; // 基础阈值-3%
-      
-      logger.debug(`最近一笔亏损: ${lastLossPercent.toFixed(2)}%, 阈值: ${singleLossThreshold.toFixed(2)}%`);
-      
-      if (lastLossPercent < singleLossThreshold) {
-        const baseDuration = 1 * 60 * 60 * 1000; // 基础1小时
-        const duration = baseDuration * Math.pow(2, effectiveSeverityLevel - 1);
-        const resumeTime = new Date(now.getTime() + duration);
-        const reason = `单笔巨额亏损${lastLossPercent.toFixed(2)}%，触发熔断保护 (等级${effectiveSeverityLevel})`;
-        
-        logger.warn(`⚠️ 触发熔断: ${reason}`);
-        
-        await recordCircuitBreaker(
-          reason,
-          resumeTime,
-          effectiveSeverityLevel,
-          "single_large_loss",
-          { lastLossPercent, threshold: singleLossThreshold, totalBalance }
-        );
-        
-        logger.info(`熔断已激活，恢复时间: ${resumeTime.toISOString()}`);
-        return { shouldHalt: true, reason, resumeTime, severityLevel: effectiveSeverityLevel };
-      }
+      return { shouldHalt: true, reason, resumeTime, severityLevel: level, ruleId: rule.id };
     }
     
     // 未触发任何熔断条件
@@ -843,41 +719,46 @@ export async function checkCircuitBreaker(): Promise<CircuitBreakerStatus> {
 
 /**
  * 计算两个币种的价格相关性
+ * 只使用同一交易周期（相同时间戳）的价格，基于对齐后的收益率计算
  */
 export async function calculateCorrelation(symbol1: string, symbol2: string): Promise<number> {
   try {
-    // 获取最近100个数据点
-    const result1 = await dbClient.execute({
-      sql: `SELECT price FROM trading_signals 
-            WHERE symbol = ? 
-            ORDER BY timestamp DESC LIMIT 100`,
-      args: [symbol1],
-    });
-    
-    const result2 = await dbClient.execute({
-      sql: `SELECT price FROM trading_signals 
-            WHERE symbol = ? 
-            ORDER BY timestamp DESC LIMIT 100`,
-      args: [symbol2],
+    // 获取最近200个共同时间点的价格
+    const result = await dbClient.execute({
+      sql: `SELECT a.price as price1, b.price as price2 
+            FROM trading_signals a 
+            JOIN trading_signals b ON a.timestamp = b.timestamp 
+            WHERE a.symbol = ? AND b.symbol = ? 
+            ORDER BY a.timestamp DESC LIMIT 200`,
+      args: [symbol1, symbol2],
     });
     
-    if (result1.rows.length < 30 || result2.rows.length < 30) {
+    if (result.rows.length < RISK_PARAMS.CORRELATION_MIN_SAMPLES) {
       return 0; // 数据不足
     }
     
-    const prices1 = result1.rows.map(r => Number.parseFloat(r.price as string));
-    const prices2 = result2.rows.map(r => Number.parseFloat(r.price as string));
+    // 按时间升序排列
+    const rows = [...result.rows].reverse();
+    const prices1 = rows.map(r => Number.parseFloat(r.price1 as string));
+    const prices2 = rows.map(r => Number.parseFloat(r.price2 as string));
     
-    // 计算收益率
-    const returns1 = prices1.slice(1).map((p, i) => (p - prices1[i]) / prices1[i]);
-    const returns2 = prices2.slice(1).map((p, i) => (p - prices2[i]) / prices2[i]);
+    // 计算对齐的收益率（跳过无效价格）
+    const returns1: number[] = [];
+    const returns2: number[] = [];
+    for (let i = 1; i < rows.length; i++) {
+      if (!(prices1[i - 1] > 0 && prices2[i - 1] > 0 && prices1[i] > 0 && prices2[i] > 0)) {
+        continue;
+      }
+      returns1.push((prices1[i] - prices1[i - 1]) / prices1[i - 1]);
+      returns2.push((prices2[i] - prices2[i - 1]) / prices2[i - 1]);
+    }
     
-    const n = Math.min(returns1.length, returns2.length);
-    if (n < 20) return 0;
+    const n = returns1.length;
+    if (n < RISK_PARAMS.CORRELATION_MIN_SAMPLES - 1) return 0;
     
     // 计算相关系数
-    const mean1 = returns1.slice(0, n).reduce((a, b) => a + b, 0) / n;
-    const mean2 = returns2.slice(0, n).reduce((a, b) => a + b, 0) / n;
+    const mean1 = returns1.reduce((a, b) => a + b, 0) / n;
+    const mean2 = returns2.reduce((a, b) => a + b, 0) / n;
     
     let numerator = 0;
     let sum1 = 0;
@@ -903,6 +784,9 @@ export async function calculateCorrelation(symbol1: string, symbol2: string): Pr
 
 /**
  * 检测相关性风险
+ * 同向持仓且正相关，或反向持仓且负相关，都会叠加同一方向的风险敞口
+ * - 相关系数达到阻断阈值：severity=high（禁止开仓）
+ * - 相关系数达到警告阈值：severity=medium（仅提示）
  */
 export async function detectCorrelationRisk(
   newSymbol: string,
@@ -914,21 +798,33 @@ export async function detectCorrelationRisk(
       return { isAnomalous: false, severity: "low" };
     }
     
+    let worst: AnomalyCheck = { isAnomalous: false, severity: "low" };
+    let worstExposure = 0;
+    
     // 检查与现有持仓的相关性
     for (const pos of existingPositions) {
+      if (pos.symbol === newSymbol) {
+        continue;
+      }
+      
       const correlation = await calculateCorrelation(newSymbol, pos.symbol);
       
-      // 相关性超过0.8且方向相同，风险过高
-      if (Math.abs(correlation) > 0.8 && pos.side === newSide) {
-        return {
-          isAnomalous: true,
-          reason: `${newSymbol} 与 ${pos.symbol} 高度相关（${(correlation * 100).toFixed(0)}%），同向持仓风险过高`,
-          severity: "medium",
-        };
+      // 同向暴露程度：同向持仓取相关系数，反向持仓取相关系数的相反数
+      const exposure = pos.side === newSide ? correlation : -correlation;
+      if (exposure < RISK_PARAMS.CORRELATION_WARNING_THRESHOLD || exposure <= worstExposure) {
+        continue;
       }
+      
+      const relation = pos.side === newSide ? "同向持仓" : "反向持仓但负相关";
+      worstExposure = exposure;
+      worst = {
+        isAnomalous: true,
+        reason: `${newSymbol} 与 ${pos.symbol} 高度相关（${(correlation * 100).toFixed(0)}%），${relation}，风险敞口叠加`,
+        severity: exposure >= RISK_PARAMS.CORRELATION_BLOCK_THRESHOLD ? "high" : "medium",
+      };
     }
     
-    return { isAnomalous: false, severity: "low" };
+    return worst;
   } catch (error) {
     logger.error("相关性风险检测失败:", error as any);
     return { isAnomalous: false, severity: "low" };
@@ -944,6 +840,9 @@ export async function comprehensiveRiskCheck(params: {
   amountUsdt: number;
   leverage: number;
   existingPositions: any[];
+  /** 交易所原始持仓和账户（用于组合风险限额，不传则重新获取） */
+  positions?: Position[];
+  account?: Account;
 }): Promise<{
   approved: boolean;
   warnings: string[];
@@ -990,8 +889,29 @@ export async function comprehensiveRiskCheck(params: {
     params.side,
     params.existingPositions
   );
-  if (correlationRisk.isAnomalous) {
-    warnings.push(correlationRisk.reason!);
+  if (correlationRisk.isAnomalous && correlationRisk.reason) {
+    if (correlationRisk.severity === "high") {
+      blockers.push(correlationRisk.reason);
+    } else {
+      warnings.push(correlationRisk.reason);
+    }
+  }
+  
+  // 5. 组合风险限额（VaR/CVaR、敞口、BTC beta）
+  try {
+    const portfolioRisk = await checkPortfolioRiskLimits({
+      newPosition: {
+        symbol: params.symbol,
+        side: params.side,
+        notional: params.amountUsdt * params.leverage,
+      },
+      positions: params.positions,
+      account: params.account,
+    });
+    blockers.push(...portfolioRisk.blockers);
+  } catch (error) {
+    logger.error("组合风险检查失败:", error);
+    warnings.push("组合风险检查失败，未校验 VaR 和敞口限额");
   }
   
   return {
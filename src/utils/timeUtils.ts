@@ -21,11 +21,12 @@
  */
 
 /**
- * 获取当前中国时间的 ISO 字符串
+ * 获取中国时间的 ISO 字符串
+ * @param date 日期对象（默认当前时间）
  * @returns 中国时间的 ISO 格式字符串
  */
-export function getChinaTimeISO(): string {
-  const now = new Date();
+export function getChinaTimeISO(date?: Date): string {
+  const now = date || new Date();
   
   // 使用 toLocaleString 获取中国时间，然后转换为 ISO 格式
   const chinaTimeString = now.toLocaleString('zh-CN', { 